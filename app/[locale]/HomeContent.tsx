@@ -10,7 +10,6 @@ import Typography from "@mui/material/Typography";
 import { motion } from "framer-motion";
 import { ChevronDown, Heart, Moon, Sparkles } from "lucide-react";
 import { useTranslations } from "next-intl";
-import { useState } from "react";
 
 // Atoms
 import { Chip } from "@atoms/Chip";
@@ -33,21 +32,38 @@ import { HeroDecorations } from "@organisms/HeroDecorations";
 import { Navbar } from "@organisms/Navbar";
 import { ProductCard } from "@organisms/ProductCard";
 import { ProductModal } from "@organisms/ProductModal";
+import { ProductRail } from "@organisms/ProductRail";
 
-// Data
-import { products, reviews } from "@/data/ayla";
+// Store
+import { useAddToCart, useAyla, useToggleFavorite } from "@/app/[locale]/ayla/store";
+import { useRelatedProducts } from "@hooks";
+import { useProductSearch } from "@hooks/useProductSearch";
+import { useFavoriteIds, useRecentlyViewedIds } from "@/store";
+
+// Navigation
+import { useRouter } from "@/i18n/navigation";
+import { getCatalogCategories, getCatalogHref } from "@lib/catalog";
 
 // Theme
 import { fontFamilies, primary } from "@/app/ui/theme";
 
 // Types
-import type { AylaCartItem, AylaProduct, AylaToast } from "@/types/ayla";
+import type { AylaProduct, AylaProductRatings, AylaReview } from "@types";
 
 // =============================================================================
 // COMPONENT
 // =============================================================================
 
-export function HomeContent() {
+export interface HomeContentProps {
+  /** Catalog products, loaded by the server page */
+  products: AylaProduct[];
+  /** Featured customer reviews */
+  reviews: AylaReview[];
+  /** Aggregate rating by product ID */
+  ratings: AylaProductRatings;
+}
+
+export function HomeContent({ products, reviews, ratings }: HomeContentProps) {
   const t = useTranslations("Home");
 
   // ---------------------------------------------------------------------------
@@ -64,60 +80,46 @@ export function HomeContent() {
   // STATE
   // ---------------------------------------------------------------------------
 
-  const [cartItems, setCartItems] = useState<AylaCartItem[]>([]);
-  const [isCartOpen, setIsCartOpen] = useState(false);
-  const [selectedProduct, setSelectedProduct] = useState<AylaProduct | null>(
-    null
-  );
-  const [toast, setToast] = useState<AylaToast>({
-    visible: false,
-    message: "",
-    variant: "success",
-  });
+  const {
+    cartItems,
+    cartItemCount: cartCount,
+    isCartOpen,
+    selectedProduct,
+    toast,
+    updateQuantity,
+    removeFromCart,
+    acknowledgeCartIssues,
+    cartBundles,
+    bundleOffers,
+    addBundleToCart,
+    removeBundleFromCart,
+    promotions,
+    cartBreakdown,
+    taxDisplay,
+    applyPromotion,
+    removePromotion,
+    openCart,
+    closeCart,
+    openProductModal,
+    closeProductModal,
+  } = useAyla();
+  const addToCart = useAddToCart();
+  const favoriteIds = useFavoriteIds();
+  const toggleFavorite = useToggleFavorite();
+  const recentlyViewedIds = useRecentlyViewedIds();
+  const { products: relatedProducts } = useRelatedProducts(selectedProduct?.id ?? null);
+  const router = useRouter();
+  const searchProps = useProductSearch();
 
   // ---------------------------------------------------------------------------
   // HANDLERS
   // ---------------------------------------------------------------------------
 
-  const showToast = (
-    message: string,
-    variant: AylaToast["variant"] = "success"
-  ) => {
-    setToast({ visible: true, message, variant });
-    setTimeout(() => setToast((prev) => ({ ...prev, visible: false })), 2500);
+  const goToCheckout = () => {
+    closeCart();
+    router.push("/checkout");
   };
 
-  const addToCart = (product: AylaProduct) => {
-    setCartItems((prev) => {
-      const existing = prev.find((item) => item.id === product.id);
-      if (existing) {
-        showToast(`${product.name} actualizado`);
-        return prev.map((item) =>
-          item.id === product.id
-            ? { ...item, quantity: item.quantity + 1 }
-            : item
-        );
-      }
-      showToast(`${product.name} añadido`);
-      return [...prev, { ...product, quantity: 1 }];
-    });
-  };
-
-  const updateQuantity = (id: number, quantity: number) => {
-    if (quantity < 1) {
-      removeFromCart(id);
-      return;
-    }
-    setCartItems((prev) =>
-      prev.map((item) => (item.id === id ? { ...item, quantity } : item))
-    );
-  };
-
-  const removeFromCart = (id: number) => {
-    setCartItems((prev) => prev.filter((item) => item.id !== id));
-  };
-
-  const cartCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
 
   // ---------------------------------------------------------------------------
   // DATA
@@ -147,25 +149,29 @@ export function HomeContent() {
     },
   ];
 
-  const categories: CategoryItem[] = [
-    { key: "invitations", label: t("categories.items.invitations") },
-    { key: "digitalArt", label: t("categories.items.digitalArt") },
-    { key: "socialMedia", label: t("categories.items.socialMedia") },
-    { key: "planners", label: t("categories.items.planners") },
-    { key: "stickers", label: t("categories.items.stickers") },
-    { key: "wallArt", label: t("categories.items.wallArt") },
-    { key: "branding", label: t("categories.items.branding") },
-    { key: "cards", label: t("categories.items.cards") },
-  ];
+  // Las categorías abren el catálogo filtrado (/products?categories=)
+  const categories: CategoryItem[] = getCatalogCategories(products).map(({ slug, name }) => ({
+    key: slug,
+    label: name,
+  }));
+
+  // Recently viewed, most recent first (ids no longer in the catalog are skipped)
+  const recentlyViewed = recentlyViewedIds.flatMap((id) => {
+    const product = products.find((item) => item.id === id);
+    return product ? [product] : [];
+  });
 
   const footerColumns = [
     {
       title: t("footer.columns.products"),
       links: [
-        { label: t("footer.links.planners"), href: "/planners" },
-        { label: t("footer.links.cards"), href: "/tarjetas" },
-        { label: t("footer.links.socialMedia"), href: "/social-media" },
-        { label: t("footer.links.branding"), href: "/branding" },
+        { label: t("footer.links.planners"), href: "/products/category/planners" },
+        { label: t("footer.links.cards"), href: "/products/category/tarjetas" },
+        {
+          label: t("footer.links.socialMedia"),
+          href: "/products/category/social-media",
+        },
+        { label: t("footer.links.branding"), href: "/products/category/branding" },
       ],
     },
     {
@@ -203,12 +209,13 @@ export function HomeContent() {
         variant="transparent"
         position="fixed"
         scrollEffect={true}
-        showSearch={false}
+        searchProps={searchProps}
         actionsProps={{
           showThemeToggle: true,
+          showCurrencySelector: true,
           children: (
             <IconButton
-              onClick={() => setIsCartOpen(true)}
+              onClick={openCart}
               size="small"
               aria-label="Carrito de compras"
               sx={{
@@ -375,7 +382,12 @@ export function HomeContent() {
             align="center"
           />
           <Box sx={{ mt: 4 }}>
-            <CategoryChips categories={categories} />
+            <CategoryChips
+              categories={categories}
+              onSelect={(slug) =>
+                router.push(getCatalogHref("/products", { categories: [slug] }))
+              }
+            />
           </Box>
         </Container>
       </Box>
@@ -414,8 +426,11 @@ export function HomeContent() {
               <ProductCard
                 key={product.id}
                 product={product}
+                rating={ratings[product.id]}
                 onAddToCart={addToCart}
-                onViewProduct={setSelectedProduct}
+                onViewProduct={openProductModal}
+                isFavorite={favoriteIds.includes(product.id)}
+                onToggleFavorite={toggleFavorite}
                 index={index}
               />
             ))}
@@ -423,6 +438,27 @@ export function HomeContent() {
         </Container>
       </Box>
 
+      {/* ===================================================================
+          RECENTLY VIEWED
+          =================================================================== */}
+      {recentlyViewed.length > 0 && (
+        <Box
+          component="section"
+          sx={{
+            pb: { xs: 8, md: 12 },
+            bgcolor: "background.default",
+          }}
+        >
+          <Container maxWidth="lg">
+            <ProductRail
+              title={t("recentlyViewed.title")}
+              products={recentlyViewed}
+              onViewProduct={openProductModal}
+            />
+          </Container>
+        </Box>
+      )}
+
       {/* ===================================================================
           TESTIMONIALS SECTION
           =================================================================== */}
@@ -485,16 +521,32 @@ export function HomeContent() {
       <Cart
         items={cartItems}
         isOpen={isCartOpen}
-        onClose={() => setIsCartOpen(false)}
+        onClose={closeCart}
         onUpdateQuantity={updateQuantity}
         onRemove={removeFromCart}
+        onAcknowledgeIssues={acknowledgeCartIssues}
+        bundles={cartBundles}
+        bundleOffers={bundleOffers}
+        onAddBundle={addBundleToCart}
+        onRemoveBundle={removeBundleFromCart}
+        promotions={promotions}
+        breakdown={cartBreakdown}
+        taxDisplay={taxDisplay}
+        onApplyPromotion={applyPromotion}
+        onRemovePromotion={removePromotion}
+        onCheckout={goToCheckout}
       />
 
       <ProductModal
         product={selectedProduct}
         isOpen={!!selectedProduct}
-        onClose={() => setSelectedProduct(null)}
+        onClose={closeProductModal}
         onAddToCart={addToCart}
+        rating={selectedProduct ? ratings[selectedProduct.id] : undefined}
+        isFavorite={!!selectedProduct && favoriteIds.includes(selectedProduct.id)}
+        onToggleFavorite={toggleFavorite}
+        relatedProducts={relatedProducts}
+        onSelectProduct={openProductModal}
       />
 
       <Toast
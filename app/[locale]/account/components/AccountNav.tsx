@@ -0,0 +1,61 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import List from "@mui/material/List";
+import ListItemButton from "@mui/material/ListItemButton";
+import ListItemIcon from "@mui/material/ListItemIcon";
+import ListItemText from "@mui/material/ListItemText";
+import DownloadIcon from "@mui/icons-material/Download";
+import FavoriteBorderIcon from "@mui/icons-material/FavoriteBorder";
+import ReceiptLongIcon from "@mui/icons-material/ReceiptLong";
+import SecurityIcon from "@mui/icons-material/Security";
+import { Link, usePathname } from "@/i18n/navigation";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SECTIONS = [
+  { key: "orders", href: "/account/orders", Icon: ReceiptLongIcon },
+  { key: "downloads", href: "/account/downloads", Icon: DownloadIcon },
+  { key: "favorites", href: "/account/favorites", Icon: FavoriteBorderIcon },
+  { key: "security", href: "/account/security", Icon: SecurityIcon },
+] as const;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * AccountNav - Sidebar navigation of the account settings (`SettingsLayout`)
+ */
+export function AccountNav() {
+  const t = useTranslations("Account.nav");
+  const pathname = usePathname();
+
+  return (
+    <List component="nav" aria-label={t("label")} disablePadding>
+      {SECTIONS.map(({ key, href, Icon }) => {
+        const isActive = pathname === href || pathname.startsWith(`${href}/`);
+
+        return (
+          <ListItemButton
+            key={key}
+            component={Link}
+            href={href}
+            selected={isActive}
+            aria-current={isActive ? "page" : undefined}
+            sx={{ borderRadius: 2, m: 1 }}
+          >
+            <ListItemIcon>
+              <Icon />
+            </ListItemIcon>
+            <ListItemText primary={t(key)} />
+          </ListItemButton>
+        );
+      })}
+    </List>
+  );
+}
+
+export default AccountNav;
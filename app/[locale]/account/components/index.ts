@@ -0,0 +1,5 @@
+/**
+ * Barrel export de los componentes compartidos de la cuenta
+ */
+
+export { AccountNav } from "./AccountNav";
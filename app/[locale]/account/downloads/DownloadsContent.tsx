@@ -0,0 +1,193 @@
+"use client";
+
+/**
+ * Downloads Content - Client Component
+ *
+ * Centro de descargas: un elemento por artículo comprado con su enlace
+ * firmado, la versión del archivo y las descargas restantes. Permite
+ * regenerar el enlace (p.ej. cuando caduca o hay una versión nueva).
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Container from "@mui/material/Container";
+import Paper from "@mui/material/Paper";
+import Snackbar from "@mui/material/Snackbar";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+
+import { Link } from "@/i18n/navigation";
+import { fontFamilies } from "@/app/ui/theme";
+import { DownloadError } from "@/errors";
+import { useApiError } from "@hooks";
+import { DOWNLOAD_LIMIT, type DownloadItem } from "@lib/downloads";
+import { downloadService } from "@lib/services/download";
+
+import { DownloadCard } from "./components";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Motivos de error con mensaje propio en Account.downloads.errors */
+const KNOWN_ERRORS = ["limit_reached", "revoked", "file_missing"] as const;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function DownloadsContent() {
+  const t = useTranslations("Account");
+  const tCommon = useTranslations("Common");
+  const { setError, clearError, hasError } = useApiError({
+    componentName: "DownloadsContent",
+  });
+
+  const [items, setItems] = useState<DownloadItem[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{
+    message: string;
+    severity: "success" | "error";
+  } | null>(null);
+
+  const loadDownloads = useCallback(async () => {
+    setIsLoading(true);
+    clearError();
+
+    try {
+      const data = await downloadService.list();
+      setItems(data.items);
+    } catch (error) {
+      setError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [setError, clearError]);
+
+  useEffect(() => {
+    void loadDownloads();
+  }, [loadDownloads]);
+
+  const updateItem = (token: string, changes: Partial<DownloadItem>) => {
+    setItems((current) =>
+      current?.map((item) => (item.token === token ? { ...item, ...changes } : item)) ?? null
+    );
+  };
+
+  // El servidor descuenta al abrir el archivo; se refleja en local sin recargar
+  const handleDownload = (item: DownloadItem) => {
+    updateItem(item.token, {
+      downloadsRemaining: Math.max(0, item.downloadsRemaining - 1),
+      lastDownloadedAt: new Date().toISOString(),
+    });
+  };
+
+  const handleRegenerate = async (item: DownloadItem) => {
+    setRegenerating(item.token);
+
+    try {
+      const { link } = await downloadService.regenerate(item.token);
+      updateItem(item.token, { link });
+      setNotice({
+        message: t("downloads.regenerated", { version: link.version }),
+        severity: "success",
+      });
+    } catch (error) {
+      const reason = error instanceof DownloadError ? error.reason : "";
+      const known = KNOWN_ERRORS.find((candidate) => candidate === reason);
+      setNotice({
+        message: t(`downloads.errors.${known ?? "generic"}`),
+        severity: "error",
+      });
+      if (reason === "limit_reached") updateItem(item.token, { downloadsRemaining: 0 });
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------------------
+
+  return (
+    <Container maxWidth="md" sx={{ py: { xs: 4, md: 8 } }}>
+      <Typography
+        variant="h3"
+        component="h1"
+        sx={{ fontFamily: fontFamilies.heading, mb: 1 }}
+      >
+        {t("downloads.title")}
+      </Typography>
+      <Typography color="text.secondary" sx={{ mb: 4 }}>
+        {t("downloads.subtitle", { limit: DOWNLOAD_LIMIT })}
+      </Typography>
+
+      {isLoading && (
+        <Box sx={{ display: "flex", justifyContent: "center", py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {!isLoading && hasError && (
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => void loadDownloads()}>
+              {tCommon("retry")}
+            </Button>
+          }
+        >
+          {t("downloads.loadError")}
+        </Alert>
+      )}
+
+      {!isLoading && !hasError && items?.length === 0 && (
+        <Paper variant="outlined" sx={{ p: 6, textAlign: "center" }}>
+          <Typography variant="h6" component="h2" sx={{ mb: 1 }}>
+            {t("downloads.empty.title")}
+          </Typography>
+          <Typography color="text.secondary" sx={{ mb: 3 }}>
+            {t("downloads.empty.subtitle")}
+          </Typography>
+          <Button component={Link} href="/account/orders" variant="contained">
+            {t("downloads.empty.cta")}
+          </Button>
+        </Paper>
+      )}
+
+      {!isLoading && !hasError && items && items.length > 0 && (
+        <Stack component="ul" spacing={2} sx={{ listStyle: "none", p: 0, m: 0 }}>
+          {items.map((item) => (
+            <DownloadCard
+              key={item.token}
+              item={item}
+              isRegenerating={regenerating === item.token}
+              onDownload={handleDownload}
+              onRegenerate={(target) => void handleRegenerate(target)}
+            />
+          ))}
+        </Stack>
+      )}
+
+      <Snackbar
+        open={!!notice}
+        autoHideDuration={4000}
+        onClose={() => setNotice(null)}
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        {notice ? (
+          <Alert severity={notice.severity} onClose={() => setNotice(null)}>
+            {notice.message}
+          </Alert>
+        ) : undefined}
+      </Snackbar>
+    </Container>
+  );
+}
+
+export default DownloadsContent;
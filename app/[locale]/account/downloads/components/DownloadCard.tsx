@@ -0,0 +1,136 @@
+"use client";
+
+import { useFormatter, useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import LinearProgress from "@mui/material/LinearProgress";
+import Paper from "@mui/material/Paper";
+import Typography from "@mui/material/Typography";
+import { Chip } from "@atoms/Chip";
+import { fontFamilies } from "@/app/ui/theme";
+import type { DownloadItem } from "@lib/downloads";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DownloadCardProps {
+  item: DownloadItem;
+  /** Whether a new link is being generated for this item */
+  isRegenerating?: boolean;
+  /** Called when the download link is followed */
+  onDownload: (item: DownloadItem) => void;
+  /** Request a fresh link pointing to the latest version */
+  onRegenerate: (item: DownloadItem) => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * DownloadCard - Purchased item with its signed link, version and remaining uses
+ */
+export function DownloadCard({
+  item,
+  isRegenerating = false,
+  onDownload,
+  onRegenerate,
+}: DownloadCardProps) {
+  const t = useTranslations("Account.downloads");
+  const format = useFormatter();
+
+  const { link, latestVersion } = item;
+  const isOutdated = !!link && !!latestVersion && link.version !== latestVersion;
+  const isExhausted = item.downloadsRemaining <= 0;
+
+  return (
+    <Paper component="li" variant="outlined" sx={{ p: 3 }}>
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "space-between",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h6" component="h2" sx={{ fontFamily: fontFamilies.heading }}>
+            {item.productName}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ fontFamily: fontFamilies.mono }}>
+            {t("order", { reference: item.orderReference })}
+          </Typography>
+        </Box>
+        <Box sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+          {link && <Chip label={t("version", { version: link.version })} size="small" />}
+          {isOutdated && (
+            <Chip
+              label={t("newVersion", { version: latestVersion })}
+              color="info"
+              size="small"
+            />
+          )}
+        </Box>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
+        {t("remaining", {
+          remaining: item.downloadsRemaining,
+          limit: item.downloadLimit,
+        })}
+      </Typography>
+      <LinearProgress
+        variant="determinate"
+        value={(item.downloadsRemaining / item.downloadLimit) * 100}
+        sx={{ mb: 2, borderRadius: 1 }}
+      />
+
+      {!latestVersion && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t("noFiles")}
+        </Typography>
+      )}
+      {link && (
+        <Typography variant="caption" color="text.secondary" component="p">
+          {t("expires", {
+            date: format.dateTime(new Date(link.expiresAt), { dateStyle: "medium" }),
+          })}
+        </Typography>
+      )}
+      {item.lastDownloadedAt && (
+        <Typography variant="caption" color="text.secondary" component="p">
+          {t("lastDownloaded", {
+            date: format.dateTime(new Date(item.lastDownloadedAt), {
+              dateStyle: "medium",
+              timeStyle: "short",
+            }),
+          })}
+        </Typography>
+      )}
+
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 2 }}>
+        <Button
+          variant="contained"
+          href={link?.url ?? ""}
+          disabled={!link || isExhausted}
+          onClick={() => onDownload(item)}
+        >
+          {t("download")}
+        </Button>
+        {latestVersion && !isExhausted && (
+          <Button
+            variant="outlined"
+            disabled={isRegenerating}
+            onClick={() => onRegenerate(item)}
+          >
+            {isOutdated ? t("regenerateLatest") : t("regenerate")}
+          </Button>
+        )}
+      </Box>
+    </Paper>
+  );
+}
+
+export default DownloadCard;
@@ -0,0 +1,5 @@
+/**
+ * Barrel export de los componentes del centro de descargas
+ */
+
+export { DownloadCard, type DownloadCardProps } from "./DownloadCard";
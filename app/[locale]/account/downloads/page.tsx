@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { DownloadsContent } from "./DownloadsContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Account" });
+
+  return {
+    title: t("metadata.downloadsTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Downloads Page - Server Component
+ *
+ * Ruta protegida por el middleware (/account/**). Los enlaces se firman en
+ * /api/downloads cada vez que se carga la página.
+ */
+export default async function DownloadsPage({ params }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  return <DownloadsContent />;
+}
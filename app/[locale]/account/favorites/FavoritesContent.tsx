@@ -0,0 +1,194 @@
+"use client";
+
+/**
+ * Favorites Content - Client Component
+ *
+ * Lista de deseos del usuario: los productos marcados con el corazón, en el
+ * orden en que se guardaron. Cada diseño se puede quitar de la lista o
+ * moverse al carrito (se añade con su variante por defecto y sale de
+ * favoritos).
+ */
+
+import { useMemo, useState, useSyncExternalStore } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Container from "@mui/material/Container";
+import Paper from "@mui/material/Paper";
+import Snackbar from "@mui/material/Snackbar";
+import Typography from "@mui/material/Typography";
+
+import { ProductCard } from "@organisms/ProductCard";
+import { useAyla } from "@/app/[locale]/ayla/store";
+import { Link, useRouter } from "@/i18n/navigation";
+import { fontFamilies } from "@/app/ui/theme";
+import { findVariant } from "@lib/catalog";
+import { useFavoriteIds, useFavoritesActions } from "@/store";
+import type { AylaProduct, AylaProductRatings } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FavoritesContentProps {
+  /** Localized catalog, to resolve the saved product IDs */
+  products: AylaProduct[];
+  /** Aggregate rating by product ID */
+  ratings: AylaProductRatings;
+}
+
+/** No hay nada que escuchar: solo distingue el render del servidor */
+const subscribeNothing = () => () => {};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function FavoritesContent({ products, ratings }: FavoritesContentProps) {
+  const t = useTranslations("Account");
+  const router = useRouter();
+  const { addToCart } = useAyla();
+  const favoriteIds = useFavoriteIds();
+  const { removeFavorite } = useFavoritesActions();
+
+  // Los favoritos salen de localStorage: el servidor solo pinta la carga
+  const isHydrated = useSyncExternalStore(subscribeNothing, () => true, () => false);
+  const [movedCount, setMovedCount] = useState<number | null>(null);
+
+  const favorites = useMemo(() => {
+    const productsById = new Map(products.map((product) => [product.id, product]));
+    return favoriteIds.flatMap((id) => productsById.get(id) ?? []);
+  }, [products, favoriteIds]);
+
+  const moveToCart = (items: AylaProduct[]) => {
+    for (const product of items) {
+      addToCart(product, findVariant(product)?.id);
+      removeFavorite(product.id);
+    }
+    setMovedCount(items.length);
+  };
+
+  // ---------------------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------------------
+
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 4, md: 8 } }}>
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: { xs: "flex-start", sm: "flex-end" },
+          justifyContent: "space-between",
+          flexDirection: { xs: "column", sm: "row" },
+          gap: 2,
+          mb: 4,
+        }}
+      >
+        <Box>
+          <Typography
+            variant="h3"
+            component="h1"
+            sx={{ fontFamily: fontFamilies.heading, mb: 1 }}
+          >
+            {t("favorites.title")}
+          </Typography>
+          <Typography color="text.secondary">
+            {isHydrated && favorites.length > 0
+              ? t("favorites.count", { count: favorites.length })
+              : t("favorites.subtitle")}
+          </Typography>
+        </Box>
+
+        {isHydrated && favorites.length > 1 && (
+          <Button variant="contained" onClick={() => moveToCart(favorites)}>
+            {t("favorites.moveAllToCart")}
+          </Button>
+        )}
+      </Box>
+
+      {!isHydrated && (
+        <Box sx={{ display: "flex", justifyContent: "center", py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {isHydrated && favorites.length === 0 && (
+        <Paper variant="outlined" sx={{ p: 6, textAlign: "center" }}>
+          <Typography variant="h6" component="h2" sx={{ mb: 1 }}>
+            {t("favorites.empty.title")}
+          </Typography>
+          <Typography color="text.secondary" sx={{ mb: 3 }}>
+            {t("favorites.empty.subtitle")}
+          </Typography>
+          <Button component={Link} href="/products" variant="contained">
+            {t("favorites.empty.cta")}
+          </Button>
+        </Paper>
+      )}
+
+      {isHydrated && favorites.length > 0 && (
+        <Box
+          component="ul"
+          sx={{
+            listStyle: "none",
+            p: 0,
+            m: 0,
+            display: "grid",
+            gridTemplateColumns: {
+              xs: "1fr",
+              sm: "repeat(2, 1fr)",
+              lg: "repeat(3, 1fr)",
+            },
+            gap: 4,
+          }}
+        >
+          {favorites.map((product, index) => (
+            <Box component="li" key={product.id}>
+              <ProductCard
+                product={product}
+                rating={ratings[product.id]}
+                onAddToCart={(selected) => moveToCart([selected])}
+                onViewProduct={({ slug }) => router.push(`/products/${slug}`)}
+                isFavorite
+                onToggleFavorite={({ id }) => removeFavorite(id)}
+                index={index}
+              />
+              <Button
+                fullWidth
+                variant="outlined"
+                onClick={() => moveToCart([product])}
+                sx={{ mt: 2 }}
+              >
+                {t("favorites.moveToCart")}
+              </Button>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      <Snackbar
+        open={movedCount !== null}
+        autoHideDuration={4000}
+        onClose={() => setMovedCount(null)}
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        {movedCount !== null ? (
+          <Alert
+            severity="success"
+            action={
+              <Button component={Link} href="/checkout" color="inherit" size="small">
+                {t("favorites.checkout")}
+              </Button>
+            }
+          >
+            {t("favorites.moved", { count: movedCount })}
+          </Alert>
+        ) : undefined}
+      </Snackbar>
+    </Container>
+  );
+}
+
+export default FavoritesContent;
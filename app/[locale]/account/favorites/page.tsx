@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { listLocalizedProducts } from "@lib/catalog/server";
+import { loadProductRatings } from "@lib/reviews/server";
+import { FavoritesContent } from "./FavoritesContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Account" });
+
+  return {
+    title: t("metadata.favoritesTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Favorites Page - Server Component
+ *
+ * Ruta protegida por el middleware (/account/**). Los favoritos viven en el
+ * store del cliente (sincronizado con /api/favorites); el servidor solo
+ * aporta el catálogo para resolverlos.
+ */
+export default async function FavoritesPage({ params }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const [products, ratings] = await Promise.all([
+    listLocalizedProducts(locale),
+    loadProductRatings(),
+  ]);
+
+  return <FavoritesContent products={products} ratings={ratings} />;
+}
@@ -0,0 +1,184 @@
+"use client";
+
+/**
+ * Orders Content - Client Component
+ *
+ * Historial paginado de pedidos de la cuenta: referencia, fecha, estado y
+ * total de cada uno, con enlace al detalle.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useFormatter, useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Container from "@mui/material/Container";
+import Pagination from "@mui/material/Pagination";
+import Paper from "@mui/material/Paper";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+
+import { Price } from "@atoms";
+import { Link } from "@/i18n/navigation";
+import { fontFamilies } from "@/app/ui/theme";
+import { useApiError } from "@hooks";
+import { orderService, type OrderListResponse } from "@lib/services/order";
+
+import { OrderStatusChip } from "./components";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const PAGE_SIZE = 10;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function OrdersContent() {
+  const t = useTranslations("Account");
+  const tCommon = useTranslations("Common");
+  const format = useFormatter();
+  const { setError, clearError, hasError } = useApiError({
+    componentName: "OrdersContent",
+  });
+
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<OrderListResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+    clearError();
+
+    try {
+      setResult(await orderService.list({ page, page_size: PAGE_SIZE }));
+    } catch (error) {
+      setError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, setError, clearError]);
+
+  useEffect(() => {
+    void loadOrders();
+  }, [loadOrders]);
+
+  const pageCount = result ? Math.ceil(result.total / result.page_size) : 0;
+
+  // ---------------------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------------------
+
+  return (
+    <Container maxWidth="md" sx={{ py: { xs: 4, md: 8 } }}>
+      <Typography
+        variant="h3"
+        component="h1"
+        sx={{ fontFamily: fontFamilies.heading, mb: 1 }}
+      >
+        {t("orders.title")}
+      </Typography>
+      <Typography color="text.secondary" sx={{ mb: 4 }}>
+        {t("orders.subtitle")}
+      </Typography>
+
+      {isLoading && (
+        <Box sx={{ display: "flex", justifyContent: "center", py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {!isLoading && hasError && (
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => void loadOrders()}>
+              {tCommon("retry")}
+            </Button>
+          }
+        >
+          {t("orders.loadError")}
+        </Alert>
+      )}
+
+      {!isLoading && !hasError && result?.items.length === 0 && (
+        <Paper variant="outlined" sx={{ p: 6, textAlign: "center" }}>
+          <Typography variant="h6" component="h2" sx={{ mb: 1 }}>
+            {t("orders.empty.title")}
+          </Typography>
+          <Typography color="text.secondary" sx={{ mb: 3 }}>
+            {t("orders.empty.subtitle")}
+          </Typography>
+          <Button component={Link} href="/" variant="contained">
+            {t("orders.empty.cta")}
+          </Button>
+        </Paper>
+      )}
+
+      {!isLoading && !hasError && result && result.items.length > 0 && (
+        <Stack component="ul" spacing={2} sx={{ listStyle: "none", p: 0, m: 0 }}>
+          {result.items.map((order) => (
+            <Paper component="li" key={order.reference} variant="outlined" sx={{ p: 3 }}>
+              <Box
+                sx={{
+                  display: "grid",
+                  gap: 2,
+                  alignItems: "center",
+                  gridTemplateColumns: { xs: "1fr 1fr", sm: "2fr 1fr 1fr auto" },
+                }}
+              >
+                <Box>
+                  <Typography variant="caption" color="text.secondary">
+                    {t("orders.columns.reference")}
+                  </Typography>
+                  <Typography sx={{ fontFamily: fontFamilies.mono }}>
+                    {order.reference}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {format.dateTime(new Date(order.created_at), { dateStyle: "medium" })}
+                    {" · "}
+                    {t("orders.itemCount", {
+                      count: order.items.reduce((sum, item) => sum + item.quantity, 0),
+                    })}
+                  </Typography>
+                </Box>
+                <Box>
+                  <OrderStatusChip status={order.status} />
+                </Box>
+                <Price
+                  value={{ amount: order.total, currency: order.currency }}
+                  convert={false}
+                  sx={{ fontFamily: fontFamilies.mono, fontWeight: 700 }}
+                />
+                <Button
+                  component={Link}
+                  href={`/account/orders/${order.reference}`}
+                  variant="outlined"
+                  size="small"
+                >
+                  {t("orders.view")}
+                </Button>
+              </Box>
+            </Paper>
+          ))}
+        </Stack>
+      )}
+
+      {!hasError && pageCount > 1 && (
+        <Box sx={{ display: "flex", justifyContent: "center", mt: 4 }}>
+          <Pagination
+            count={pageCount}
+            page={page}
+            onChange={(_, next) => setPage(next)}
+            disabled={isLoading}
+          />
+        </Box>
+      )}
+    </Container>
+  );
+}
+
+export default OrdersContent;
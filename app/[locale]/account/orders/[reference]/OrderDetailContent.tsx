@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * Order Detail Content - Client Component
+ *
+ * Detalle de un pedido: artículos con el precio pagado, descargas
+ * restantes, totales, estado y factura.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useFormatter, useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Container from "@mui/material/Container";
+import Paper from "@mui/material/Paper";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+
+import { Price } from "@atoms";
+import { Link } from "@/i18n/navigation";
+import { fontFamilies } from "@/app/ui/theme";
+import { OrderError } from "@/errors";
+import { useApiError, usePriceFormatter } from "@hooks";
+import { hasDownloadAccess } from "@lib/orders";
+import { orderService } from "@lib/services/order";
+import type { AylaOrder, CurrencyCode } from "@types";
+
+import { OrderStatusChip, OrderTotals } from "../components";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OrderDetailContentProps {
+  /** Public reference of the order (AYL-...) */
+  reference: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function OrderDetailContent({ reference }: OrderDetailContentProps) {
+  const t = useTranslations("Account");
+  const tCommon = useTranslations("Common");
+  const format = useFormatter();
+  const { format: formatAmount } = usePriceFormatter();
+  const { setError, clearError, hasError, error } = useApiError({
+    componentName: "OrderDetailContent",
+  });
+
+  const [order, setOrder] = useState<AylaOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadOrder = useCallback(async () => {
+    setIsLoading(true);
+    clearError();
+
+    try {
+      setOrder(await orderService.get(reference));
+    } catch (error) {
+      setError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reference, setError, clearError]);
+
+  useEffect(() => {
+    void loadOrder();
+  }, [loadOrder]);
+
+  const formatPrice = (amount: number, currency: CurrencyCode) =>
+    formatAmount({ amount, currency }, { convert: false });
+
+  const formatDate = (value: string) =>
+    format.dateTime(new Date(value), { dateStyle: "long" });
+
+  // ---------------------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------------------
+
+  const backLink = (
+    <Button component={Link} href="/account/orders" sx={{ mb: 3 }}>
+      {t("orderDetail.back")}
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 12 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (hasError || !order) {
+    const isNotFound = error instanceof OrderError && error.reason === "order_not_found";
+
+    return (
+      <Container maxWidth="sm" sx={{ py: 12 }}>
+        {backLink}
+        {isNotFound ? (
+          <Box sx={{ textAlign: "center" }}>
+            <Typography
+              variant="h4"
+              component="h1"
+              sx={{ fontFamily: fontFamilies.heading, mb: 1 }}
+            >
+              {t("orderDetail.notFound.title")}
+            </Typography>
+            <Typography color="text.secondary">
+              {t("orderDetail.notFound.subtitle")}
+            </Typography>
+          </Box>
+        ) : (
+          <Alert
+            severity="error"
+            action={
+              <Button color="inherit" size="small" onClick={() => void loadOrder()}>
+                {tCommon("retry")}
+              </Button>
+            }
+          >
+            {t("orderDetail.loadError")}
+          </Alert>
+        )}
+      </Container>
+    );
+  }
+
+  const showDownloads = hasDownloadAccess(order.status);
+
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 4, md: 8 } }}>
+      {backLink}
+
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 2,
+          mb: 1,
+        }}
+      >
+        <Typography
+          variant="h3"
+          component="h1"
+          sx={{ fontFamily: fontFamilies.heading }}
+        >
+          {t("orderDetail.title", { reference: order.reference })}
+        </Typography>
+        <OrderStatusChip status={order.status} size="medium" />
+      </Box>
+      <Typography color="text.secondary" sx={{ mb: 4 }}>
+        {t("orderDetail.placedOn", { date: formatDate(order.created_at) })}
+        {order.paid_at && ` · ${t("orderDetail.paidOn", { date: formatDate(order.paid_at) })}`}
+      </Typography>
+
+      <Box
+        sx={{
+          display: "grid",
+          gap: 4,
+          gridTemplateColumns: { xs: "1fr", md: "2fr 1fr" },
+          alignItems: "start",
+        }}
+      >
+        <Paper variant="outlined" sx={{ p: { xs: 2, sm: 4 } }}>
+          <Typography
+            variant="h6"
+            component="h2"
+            sx={{ fontFamily: fontFamilies.heading, mb: 2 }}
+          >
+            {t("orderDetail.items")}
+          </Typography>
+
+          <Stack component="ul" spacing={2} sx={{ listStyle: "none", p: 0, m: 0 }}>
+            {order.items.map((item) => (
+              <Box
+                component="li"
+                key={item.id}
+                sx={{ display: "flex", justifyContent: "space-between", gap: 2 }}
+              >
+                <Box>
+                  <Typography fontWeight={600}>{item.product_name}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {t("orderDetail.quantity", { quantity: item.quantity })}
+                    {" · "}
+                    {t("orderDetail.unitPrice", {
+                      price: formatPrice(item.price_at_purchase, order.currency),
+                    })}
+                  </Typography>
+                  {showDownloads && item.download_token && (
+                    <Typography variant="caption" color="text.secondary">
+                      {t("orderDetail.downloadsRemaining", {
+                        count: item.downloads_remaining,
+                      })}
+                    </Typography>
+                  )}
+                </Box>
+                <Price
+                  value={{
+                    amount: item.price_at_purchase * item.quantity,
+                    currency: order.currency,
+                  }}
+                  convert={false}
+                  sx={{ fontFamily: fontFamilies.mono }}
+                />
+              </Box>
+            ))}
+          </Stack>
+        </Paper>
+
+        <Stack spacing={2}>
+          <OrderTotals order={order} />
+
+          {order.payment_provider && (
+            <Typography variant="body2" color="text.secondary">
+              {t("orderDetail.payment", { provider: order.payment_provider })}
+            </Typography>
+          )}
+
+          {showDownloads && (
+            <Button component={Link} href="/account/downloads" variant="contained">
+              {t("orderDetail.goToDownloads")}
+            </Button>
+          )}
+
+          {order.invoice_url ? (
+            <Button
+              href={order.invoice_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              variant="outlined"
+            >
+              {t("orderDetail.invoice")}
+            </Button>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              {t("orderDetail.invoicePending")}
+            </Typography>
+          )}
+        </Stack>
+      </Box>
+    </Container>
+  );
+}
+
+export default OrderDetailContent;
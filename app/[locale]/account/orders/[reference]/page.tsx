@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { OrderDetailContent } from "./OrderDetailContent";
+
+/** Formato de las referencias de pedido (ver createOrderReference) */
+const ORDER_REFERENCE = /^AYL-[A-Z0-9-]+$/;
+
+type Props = {
+  params: Promise<{ locale: string; reference: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, reference } = await params;
+  const t = await getTranslations({ locale, namespace: "Account" });
+
+  return {
+    title: t("metadata.orderTitle", { reference }),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Order Detail Page - Server Component
+ *
+ * Valida la referencia de la ruta y delega la carga del pedido en el cliente.
+ */
+export default async function OrderDetailPage({ params }: Props) {
+  const { locale, reference } = await params;
+  setRequestLocale(locale);
+
+  if (!ORDER_REFERENCE.test(reference)) {
+    notFound();
+  }
+
+  return <OrderDetailContent reference={reference} />;
+}
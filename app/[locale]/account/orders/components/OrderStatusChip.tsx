@@ -0,0 +1,49 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Chip, type ChipProps } from "@atoms/Chip";
+import type { AylaOrderStatus } from "@types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STATUS_COLORS: Record<AylaOrderStatus, NonNullable<ChipProps["color"]>> = {
+  pending: "warning",
+  paid: "success",
+  fulfilled: "success",
+  failed: "error",
+  cancelled: "default",
+  refunded: "info",
+};
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OrderStatusChipProps {
+  status: AylaOrderStatus;
+  size?: ChipProps["size"];
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * OrderStatusChip - Localized status label with a color per lifecycle state
+ */
+export function OrderStatusChip({ status, size = "small" }: OrderStatusChipProps) {
+  const t = useTranslations("Account.orders.status");
+
+  return (
+    <Chip
+      label={t(status)}
+      color={STATUS_COLORS[status]}
+      variant="outlined"
+      size={size}
+    />
+  );
+}
+
+export default OrderStatusChip;
@@ -0,0 +1,83 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Divider from "@mui/material/Divider";
+import Paper from "@mui/material/Paper";
+import Typography from "@mui/material/Typography";
+import { Price } from "@atoms";
+import { fontFamilies } from "@/app/ui/theme";
+import type { AylaOrder } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OrderTotalsProps {
+  order: Pick<AylaOrder, "subtotal" | "discount" | "tax" | "total" | "currency">;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * OrderTotals - Subtotal, discount, taxes and total charged for an order
+ */
+export function OrderTotals({ order }: OrderTotalsProps) {
+  const t = useTranslations("Account.orderDetail.summary");
+  const rows = [
+    { key: "subtotal", amount: order.subtotal, negative: false },
+    ...(order.discount > 0
+      ? [{ key: "discount", amount: order.discount, negative: true }]
+      : []),
+    { key: "tax", amount: order.tax, negative: false },
+  ] as const;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 3 }}>
+      <Typography
+        variant="h6"
+        component="h2"
+        sx={{ fontFamily: fontFamilies.heading, mb: 2 }}
+      >
+        {t("title")}
+      </Typography>
+
+      {rows.map((row) => (
+        <Box
+          key={row.key}
+          sx={{ display: "flex", justifyContent: "space-between", mb: 1 }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            {t(row.key)}
+          </Typography>
+          <Price
+            value={{ amount: row.amount, currency: order.currency }}
+            negative={row.negative}
+            convert={false}
+            variant="body2"
+            sx={{ fontFamily: fontFamilies.mono }}
+          />
+        </Box>
+      ))}
+
+      <Divider sx={{ my: 2 }} />
+
+      <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+        <Typography variant="subtitle1" fontWeight={700}>
+          {t("total")}
+        </Typography>
+        <Price
+          value={{ amount: order.total, currency: order.currency }}
+          convert={false}
+          variant="subtitle1"
+          fontWeight={700}
+          sx={{ fontFamily: fontFamilies.mono }}
+        />
+      </Box>
+    </Paper>
+  );
+}
+
+export default OrderTotals;
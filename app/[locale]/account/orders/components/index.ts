@@ -0,0 +1,6 @@
+/**
+ * Barrel export de los componentes del historial de pedidos
+ */
+
+export { OrderStatusChip, type OrderStatusChipProps } from "./OrderStatusChip";
+export { OrderTotals, type OrderTotalsProps } from "./OrderTotals";
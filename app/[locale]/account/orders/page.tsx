@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { OrdersContent } from "./OrdersContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Account" });
+
+  return {
+    title: t("metadata.ordersTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Orders Page - Server Component
+ *
+ * Ruta protegida por el middleware (/account/**). Los pedidos se piden al
+ * backend desde el cliente con la cookie de sesión.
+ */
+export default async function OrdersPage({ params }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  return <OrdersContent />;
+}
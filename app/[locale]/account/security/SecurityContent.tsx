@@ -0,0 +1,330 @@
+"use client";
+
+/**
+ * Security Content - Client Component
+ *
+ * Verificación en dos pasos (TOTP) de la cuenta dentro de `SettingsLayout`:
+ * alta con QR o secreto manual, códigos de recuperación (se muestran una
+ * sola vez), regenerarlos y desactivarla. Las cuentas de administración no
+ * pueden desactivarla; el middleware las manda aquí (con ?redirect=) si la
+ * sesión no la incluye: al activarla vuelven a `redirectTo`, y si ya la
+ * tenían activada (sesión anterior) vuelven a iniciar sesión con el código.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Paper from "@mui/material/Paper";
+import Stack from "@mui/material/Stack";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+
+import { Chip } from "@atoms/Chip";
+import { SettingsLayout } from "@templates/SettingsLayout";
+import { useRouter } from "@/i18n/navigation";
+import { ApiError } from "@/errors";
+import { useApiError, useFormValidation } from "@hooks";
+import { getAuthHref, isMfaRequired } from "@lib/auth";
+import {
+  authService,
+  type MfaStatusResponse,
+  type TotpSetupResponse,
+} from "@lib/services/auth";
+import { mfaCodeFormSchema } from "@lib/validation/auth";
+import { AFTER_LOGIN_REDIRECT, LOGIN_REDIRECT } from "@/middleware/config";
+import { useAuthActions, useCurrentUser } from "@/store";
+
+import { AccountNav } from "../components";
+import { RecoveryCodesPanel, TotpSetupCard } from "./components";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SecurityContentProps {
+  /** Internal path to return to once two-factor authentication is enabled */
+  redirectTo: string;
+}
+
+type PendingAction = "setup" | "enable" | "regenerate" | "disable";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function SecurityContent({ redirectTo }: SecurityContentProps) {
+  const t = useTranslations("Account");
+  const tCommon = useTranslations("Common");
+  const router = useRouter();
+  const user = useCurrentUser();
+  const { updateUser, logout } = useAuthActions();
+  const { setError, clearError, hasError } = useApiError({
+    componentName: "SecurityContent",
+  });
+
+  const [status, setStatus] = useState<MfaStatusResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [setup, setSetup] = useState<TotpSetupResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  /** El alta renueva las cookies: la sesión ya incluye el segundo paso */
+  const [isSessionVerified, setIsSessionVerified] = useState(false);
+  const { errors, validate, clearErrors } = useFormValidation(mfaCodeFormSchema);
+
+  const loadStatus = useCallback(async () => {
+    setIsLoading(true);
+    clearError();
+
+    try {
+      const { data } = await authService.getMfaStatus();
+      setStatus(data);
+    } catch (error) {
+      setError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [setError, clearError]);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  const isRequired = status?.required ?? (!!user && isMfaRequired(user.role));
+  const hasRedirect = redirectTo !== AFTER_LOGIN_REDIRECT;
+
+  /** Ejecuta una acción mostrando su error; null si ha fallado */
+  const runAction = async <T,>(action: PendingAction, run: () => Promise<T>) => {
+    setPending(action);
+    setActionError(null);
+
+    try {
+      return await run();
+    } catch (error) {
+      setActionError(
+        error instanceof ApiError ? error.userMessage : t("security.errors.generic")
+      );
+      return null;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  /** Código actual del autenticador (regenerar códigos y desactivar) */
+  const readCode = () => (validate({ code }) ? mfaCodeFormSchema.parse({ code }).code : null);
+
+  const handleStart = async () => {
+    const result = await runAction("setup", () => authService.setupTotp());
+    if (result) setSetup(result.data);
+  };
+
+  const handleEnable = async (totpCode: string) => {
+    const result = await runAction("enable", () => authService.enableTotp(totpCode));
+    if (!result) return;
+
+    const codes = result.data.recovery_codes;
+    setSetup(null);
+    setRecoveryCodes(codes);
+    setStatus({ enabled: true, required: isRequired, recovery_codes_remaining: codes.length });
+    setIsSessionVerified(true);
+    updateUser({ mfaEnabled: true });
+  };
+
+  const handleRegenerate = async () => {
+    const totpCode = readCode();
+    if (!totpCode) return;
+
+    const result = await runAction("regenerate", () =>
+      authService.regenerateRecoveryCodes(totpCode)
+    );
+    if (!result) return;
+
+    const codes = result.data.recovery_codes;
+    setCode("");
+    setRecoveryCodes(codes);
+    setStatus((current) => current && { ...current, recovery_codes_remaining: codes.length });
+  };
+
+  const handleDisable = async () => {
+    const totpCode = readCode();
+    if (!totpCode) return;
+
+    const result = await runAction("disable", () => authService.disableTotp(totpCode));
+    if (!result) return;
+
+    setCode("");
+    setStatus(
+      (current) => current && { ...current, enabled: false, recovery_codes_remaining: 0 }
+    );
+    updateUser({ mfaEnabled: false });
+  };
+
+  const handleCodesSaved = () => {
+    setRecoveryCodes(null);
+    clearErrors();
+    if (hasRedirect) router.push(redirectTo);
+  };
+
+  // El token de la sesión no incluye el segundo paso: hay que repetir el login
+  const handleReauthenticate = async () => {
+    await logout();
+    router.push(getAuthHref(LOGIN_REDIRECT, redirectTo));
+  };
+
+  // ---------------------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------------------
+
+  const renderSection = () => {
+    if (recoveryCodes) {
+      return (
+        <RecoveryCodesPanel
+          codes={recoveryCodes}
+          onDone={handleCodesSaved}
+          doneLabel={hasRedirect ? t("security.continue") : undefined}
+        />
+      );
+    }
+
+    if (setup) {
+      return (
+        <TotpSetupCard
+          setup={setup}
+          isSubmitting={pending === "enable"}
+          onConfirm={(totpCode) => void handleEnable(totpCode)}
+          onCancel={() => setSetup(null)}
+        />
+      );
+    }
+
+    if (!status?.enabled) {
+      return (
+        <Paper variant="outlined" sx={{ p: { xs: 3, sm: 4 } }}>
+          <Typography variant="h6" component="h2" sx={{ mb: 1 }}>
+            {t("security.totp.title")}
+          </Typography>
+          <Typography color="text.secondary" sx={{ mb: 3 }}>
+            {t("security.totp.description")}
+          </Typography>
+          <Button
+            variant="contained"
+            onClick={() => void handleStart()}
+            disabled={pending === "setup"}
+            startIcon={
+              pending === "setup" ? <CircularProgress size={18} color="inherit" /> : undefined
+            }
+          >
+            {t("security.totp.enable")}
+          </Button>
+        </Paper>
+      );
+    }
+
+    return (
+      <Paper variant="outlined" sx={{ p: { xs: 3, sm: 4 } }}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 1 }}>
+          <Typography variant="h6" component="h2">
+            {t("security.totp.title")}
+          </Typography>
+          <Chip label={t("security.totp.enabled")} color="success" size="small" />
+        </Box>
+        <Typography color="text.secondary" sx={{ mb: 3 }}>
+          {t("security.totp.remaining", { count: status.recovery_codes_remaining })}
+        </Typography>
+
+        <TextField
+          fullWidth
+          label={t("security.totp.code")}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          error={!!errors.code}
+          helperText={errors.code ?? t("security.totp.codeHint")}
+          inputProps={{ autoComplete: "one-time-code", inputMode: "numeric" }}
+          sx={{ mb: 3 }}
+        />
+        <Box sx={{ display: "flex", flexWrap: "wrap", justifyContent: "flex-end", gap: 2 }}>
+          {!isRequired && (
+            <Button
+              color="error"
+              onClick={() => void handleDisable()}
+              disabled={pending !== null}
+            >
+              {t("security.totp.disable")}
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            onClick={() => void handleRegenerate()}
+            disabled={pending !== null}
+          >
+            {t("security.totp.regenerate")}
+          </Button>
+        </Box>
+        {isRequired && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            {t("security.totp.requiredHint")}
+          </Typography>
+        )}
+      </Paper>
+    );
+  };
+
+  return (
+    <SettingsLayout title={t("security.title")} sidebar={<AccountNav />}>
+      <Typography color="text.secondary" sx={{ mb: 4 }}>
+        {t("security.subtitle")}
+      </Typography>
+
+      {isLoading && (
+        <Box sx={{ display: "flex", justifyContent: "center", py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {!isLoading && hasError && (
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => void loadStatus()}>
+              {tCommon("retry")}
+            </Button>
+          }
+        >
+          {t("security.loadError")}
+        </Alert>
+      )}
+
+      {!isLoading && !hasError && (
+        <Stack spacing={3}>
+          {isRequired && !status?.enabled && (
+            <Alert severity="warning">{t("security.required")}</Alert>
+          )}
+          {hasRedirect && status?.enabled && !isSessionVerified && (
+            <Alert
+              severity="info"
+              action={
+                <Button color="inherit" size="small" onClick={() => void handleReauthenticate()}>
+                  {t("security.reauthenticate.action")}
+                </Button>
+              }
+            >
+              {t("security.reauthenticate.message")}
+            </Alert>
+          )}
+          {actionError && (
+            <Alert severity="error" onClose={() => setActionError(null)}>
+              {actionError}
+            </Alert>
+          )}
+          {renderSection()}
+        </Stack>
+      )}
+    </SettingsLayout>
+  );
+}
+
+export default SecurityContent;
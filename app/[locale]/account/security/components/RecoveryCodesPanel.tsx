@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Paper from "@mui/material/Paper";
+import Typography from "@mui/material/Typography";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import DownloadIcon from "@mui/icons-material/Download";
+import { fontFamilies } from "@/app/ui/theme";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RecoveryCodesPanelProps {
+  /** One-time recovery codes (only shown once by the backend) */
+  codes: string[];
+  /** The user confirms the codes are stored somewhere safe */
+  onDone: () => void;
+  /** Label of the confirmation button */
+  doneLabel?: string;
+}
+
+/** Name of the downloaded text file */
+const CODES_FILENAME = "ayla-designs-recovery-codes.txt";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * RecoveryCodesPanel - Freshly generated recovery codes, with copy and
+ * download actions
+ */
+export function RecoveryCodesPanel({ codes, onDone, doneLabel }: RecoveryCodesPanelProps) {
+  const t = useTranslations("Account.security.recoveryCodes");
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(
+      new Blob([`${codes.join("\n")}\n`], { type: "text/plain;charset=utf-8" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = CODES_FILENAME;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: { xs: 3, sm: 4 } }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 1 }}>
+        {t("title")}
+      </Typography>
+      <Alert severity="warning" sx={{ mb: 3 }}>
+        {t("warning")}
+      </Alert>
+
+      <Box
+        component="ul"
+        aria-label={t("title")}
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", sm: "repeat(2, 1fr)" },
+          gap: 1,
+          listStyle: "none",
+          p: 2,
+          m: 0,
+          mb: 3,
+          borderRadius: 2,
+          bgcolor: "action.hover",
+        }}
+      >
+        {codes.map((code) => (
+          <Typography component="li" key={code} sx={{ fontFamily: fontFamilies.mono }}>
+            {code}
+          </Typography>
+        ))}
+      </Box>
+
+      <Box sx={{ display: "flex", flexWrap: "wrap", justifyContent: "flex-end", gap: 2 }}>
+        <Button startIcon={<ContentCopyIcon />} onClick={() => void handleCopy()}>
+          {copied ? t("copied") : t("copy")}
+        </Button>
+        <Button startIcon={<DownloadIcon />} onClick={handleDownload}>
+          {t("download")}
+        </Button>
+        <Button variant="contained" onClick={onDone}>
+          {doneLabel ?? t("done")}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
+
+export default RecoveryCodesPanel;
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Paper from "@mui/material/Paper";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import { fontFamilies } from "@/app/ui/theme";
+import { useFormValidation } from "@hooks";
+import { isTotpProvisioningUri } from "@lib/auth";
+import type { TotpSetupResponse } from "@lib/services/auth";
+import { mfaCodeFormSchema } from "@lib/validation/auth";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TotpSetupCardProps {
+  /** Pending secret returned by `authService.setupTotp` */
+  setup: TotpSetupResponse;
+  /** Whether the confirmation code is being checked */
+  isSubmitting?: boolean;
+  /** Confirm the enrollment with the first code of the authenticator */
+  onConfirm: (code: string) => void;
+  onCancel: () => void;
+}
+
+/** Only images generated by the backend are rendered as the QR */
+const QR_DATA_URI = /^data:image\/(png|svg\+xml)[;,]/;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * TotpSetupCard - Authenticator enrollment: QR code, provisioning URI and
+ * the secret for manual entry, confirmed with a first code. Without a QR
+ * image from the backend the secret becomes the main setup step.
+ */
+export function TotpSetupCard({
+  setup,
+  isSubmitting = false,
+  onConfirm,
+  onCancel,
+}: TotpSetupCardProps) {
+  const t = useTranslations("Account.security.setup");
+  const [code, setCode] = useState("");
+  const [copied, setCopied] = useState(false);
+  const { errors, validate } = useFormValidation(mfaCodeFormSchema);
+
+  const hasQr = QR_DATA_URI.test(setup.qr_code);
+  // Secreto en grupos de 4 para copiarlo a mano
+  const groupedSecret = setup.secret.match(/.{1,4}/g)?.join(" ") ?? setup.secret;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(setup.secret);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate({ code })) return;
+    onConfirm(mfaCodeFormSchema.parse({ code }).code);
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: { xs: 3, sm: 4 } }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 1 }}>
+        {t("title")}
+      </Typography>
+      <Typography color="text.secondary" sx={{ mb: 3 }}>
+        {hasQr ? t("scan") : t("enterKey")}
+      </Typography>
+
+      <Box
+        sx={{
+          display: "flex",
+          flexDirection: { xs: "column", sm: "row" },
+          alignItems: { xs: "center", sm: "flex-start" },
+          gap: 3,
+          mb: 3,
+        }}
+      >
+        {hasQr && (
+          <Box
+            component="img"
+            src={setup.qr_code}
+            alt={t("qrAlt")}
+            sx={{ width: 180, height: 180, bgcolor: "common.white", p: 1, borderRadius: 2 }}
+          />
+        )}
+        <Box sx={{ minWidth: 0 }}>
+          {hasQr && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t("manual")}
+            </Typography>
+          )}
+          <Typography
+            component="code"
+            aria-label={t("keyLabel")}
+            sx={{
+              display: "block",
+              fontFamily: fontFamilies.mono,
+              fontSize: hasQr ? undefined : "1.25rem",
+              wordBreak: "break-all",
+              p: 2,
+              mb: 2,
+              borderRadius: 2,
+              bgcolor: "action.hover",
+            }}
+          >
+            {groupedSecret}
+          </Typography>
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<ContentCopyIcon />}
+              onClick={() => void handleCopy()}
+            >
+              {copied ? t("copied") : t("copy")}
+            </Button>
+            {isTotpProvisioningUri(setup.provisioning_uri) && (
+              <Button href={setup.provisioning_uri} variant="outlined" size="small">
+                {t("openApp")}
+              </Button>
+            )}
+          </Box>
+        </Box>
+      </Box>
+
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        <TextField
+          fullWidth
+          label={t("code")}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          error={!!errors.code}
+          helperText={errors.code ?? t("codeHint")}
+          inputProps={{ autoComplete: "one-time-code", inputMode: "numeric" }}
+          sx={{ mb: 3 }}
+        />
+        <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 2 }}>
+          <Button onClick={onCancel} disabled={isSubmitting}>
+            {t("cancel")}
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <CircularProgress size={18} color="inherit" /> : undefined}
+          >
+            {t("confirm")}
+          </Button>
+        </Box>
+      </Box>
+    </Paper>
+  );
+}
+
+export default TotpSetupCard;
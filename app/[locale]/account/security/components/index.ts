@@ -0,0 +1,6 @@
+/**
+ * Barrel export de los componentes de la verificación en dos pasos
+ */
+
+export { TotpSetupCard, type TotpSetupCardProps } from "./TotpSetupCard";
+export { RecoveryCodesPanel, type RecoveryCodesPanelProps } from "./RecoveryCodesPanel";
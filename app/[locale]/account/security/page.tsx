@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { getSafeRedirect, REDIRECT_PARAM } from "@lib/auth";
+import { SecurityContent } from "./SecurityContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Account" });
+
+  return {
+    title: t("metadata.securityTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Security Page - Server Component
+ *
+ * Ruta protegida por el middleware (/account/**), que también manda aquí
+ * las rutas de administración si la sesión no tiene la verificación en dos
+ * pasos (`?redirect=` con la ruta original).
+ */
+export default async function SecurityPage({ params, searchParams }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const redirect = (await searchParams)[REDIRECT_PARAM];
+
+  return (
+    <SecurityContent
+      redirectTo={getSafeRedirect(Array.isArray(redirect) ? redirect[0] : redirect)}
+    />
+  );
+}
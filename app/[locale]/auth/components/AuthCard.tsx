@@ -0,0 +1,77 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Container from "@mui/material/Container";
+import Paper from "@mui/material/Paper";
+import Typography from "@mui/material/Typography";
+
+import { Logo } from "@atoms/Logo";
+import { Link } from "@/i18n/navigation";
+import { fontFamilies } from "@/app/ui/theme";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AuthCardProps {
+  title: string;
+  subtitle?: string;
+  /** Form or status content */
+  children: ReactNode;
+  /** Links below the card (e.g. "Don't have an account yet?") */
+  footer?: ReactNode;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * AuthCard - Centered card shared by the login, register and password pages
+ */
+export function AuthCard({ title, subtitle, children, footer }: AuthCardProps) {
+  const t = useTranslations("Auth");
+
+  return (
+    <Container maxWidth="xs" sx={{ py: { xs: 6, md: 10 } }}>
+      <Box sx={{ display: "flex", justifyContent: "center", mb: 4 }}>
+        <Link href="/" aria-label={t("backToShop")}>
+          <Logo variant="short" size="md" />
+        </Link>
+      </Box>
+
+      <Paper variant="outlined" sx={{ p: { xs: 3, sm: 4 }, borderRadius: 3 }}>
+        <Typography
+          variant="h4"
+          component="h1"
+          sx={{ fontFamily: fontFamilies.heading, textAlign: "center", mb: 1 }}
+        >
+          {title}
+        </Typography>
+        {subtitle && (
+          <Typography color="text.secondary" sx={{ textAlign: "center", mb: 3 }}>
+            {subtitle}
+          </Typography>
+        )}
+        {children}
+      </Paper>
+
+      {footer && (
+        <Box sx={{ mt: 3, textAlign: "center" }}>
+          {footer}
+        </Box>
+      )}
+
+      <Box sx={{ mt: 2, textAlign: "center" }}>
+        <Button component={Link} href="/" size="small">
+          {t("backToShop")}
+        </Button>
+      </Box>
+    </Container>
+  );
+}
+
+export default AuthCard;
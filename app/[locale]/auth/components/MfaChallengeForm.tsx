@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import TextField from "@mui/material/TextField";
+
+import { ApiError } from "@/errors";
+import { useFormValidation } from "@hooks";
+import { TOTP_CODE_LENGTH } from "@lib/auth";
+import type { MfaMethod } from "@lib/services/auth";
+import { mfaCodeFormSchema, recoveryCodeFormSchema } from "@lib/validation/auth";
+import { useAuth, useAuthActions, useMfaChallenge } from "@/store";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * MfaChallengeForm - Second login step for accounts with two-factor
+ * authentication
+ *
+ * Asks for the authenticator code of the pending `mfaChallenge`, or one of
+ * the recovery codes. When the challenge expires the store drops it and the
+ * login page shows the password form again.
+ */
+export function MfaChallengeForm() {
+  const t = useTranslations("Auth");
+  const { verifyMfa, cancelMfa } = useAuthActions();
+  const challenge = useMfaChallenge();
+  const isLoading = useAuth((state) => state.isLoading);
+
+  const [method, setMethod] = useState<MfaMethod>("totp");
+  const [code, setCode] = useState("");
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const isRecovery = method === "recovery_code";
+  const { errors, validate, clearErrors } = useFormValidation(
+    isRecovery ? recoveryCodeFormSchema : mfaCodeFormSchema
+  );
+
+  const canUseRecovery = challenge?.methods.includes("recovery_code") ?? false;
+
+  const switchMethod = () => {
+    setMethod(isRecovery ? "totp" : "recovery_code");
+    setCode("");
+    setSubmitError(null);
+    clearErrors();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate({ code })) return;
+
+    setSubmitError(null);
+    const schema = isRecovery ? recoveryCodeFormSchema : mfaCodeFormSchema;
+    try {
+      await verifyMfa(schema.parse({ code }).code, method);
+    } catch (error) {
+      setSubmitError(error instanceof ApiError ? error.userMessage : t("loginPage.mfa.error"));
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate>
+      {submitError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {submitError}
+        </Alert>
+      )}
+      <TextField
+        key={method}
+        fullWidth
+        autoFocus
+        label={isRecovery ? t("loginPage.mfa.recoveryCode") : t("loginPage.mfa.code")}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        error={!!errors.code}
+        helperText={
+          errors.code ??
+          (isRecovery
+            ? t("loginPage.mfa.recoveryHint")
+            : t("loginPage.mfa.codeHint", { digits: TOTP_CODE_LENGTH }))
+        }
+        inputProps={
+          isRecovery
+            ? { autoComplete: "off", autoCapitalize: "none", spellCheck: false }
+            : { autoComplete: "one-time-code", inputMode: "numeric" }
+        }
+        sx={{ mb: 3 }}
+      />
+      <Button
+        type="submit"
+        variant="contained"
+        fullWidth
+        disabled={isLoading}
+        startIcon={isLoading ? <CircularProgress size={18} color="inherit" /> : undefined}
+      >
+        {t("loginPage.mfa.submit")}
+      </Button>
+      <Box sx={{ display: "flex", justifyContent: "space-between", gap: 1, mt: 2 }}>
+        <Button size="small" onClick={cancelMfa} disabled={isLoading}>
+          {t("loginPage.mfa.back")}
+        </Button>
+        {canUseRecovery && (
+          <Button size="small" onClick={switchMethod} disabled={isLoading}>
+            {isRecovery ? t("loginPage.mfa.useApp") : t("loginPage.mfa.useRecovery")}
+          </Button>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+export default MfaChallengeForm;
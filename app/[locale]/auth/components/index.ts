@@ -0,0 +1,6 @@
+/**
+ * Barrel export de los componentes de las páginas de auth
+ */
+
+export { AuthCard, type AuthCardProps } from "./AuthCard";
+export { MfaChallengeForm } from "./MfaChallengeForm";
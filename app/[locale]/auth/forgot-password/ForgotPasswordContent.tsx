@@ -0,0 +1,111 @@
+"use client";
+
+/**
+ * Forgot Password Content - Client Component
+ *
+ * Pide el enlace de restablecimiento. La confirmación es la misma exista o
+ * no la cuenta, para no revelar qué emails están registrados.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import TextField from "@mui/material/TextField";
+
+import { Link } from "@/i18n/navigation";
+import { ApiError } from "@/errors";
+import { useFormValidation, useLogger } from "@hooks";
+import { authService } from "@lib/services/auth";
+import { forgotPasswordSchema, type ForgotPasswordFormData } from "@lib/validation/auth";
+
+import { AuthCard } from "../components";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function ForgotPasswordContent() {
+  const t = useTranslations("Auth");
+  const log = useLogger("ForgotPassword");
+
+  const [formData, setFormData] = useState<ForgotPasswordFormData>({ email: "" });
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { errors, validate, validateField, state } = useFormValidation(forgotPasswordSchema);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate(formData)) return;
+
+    const { email } = forgotPasswordSchema.parse(formData);
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await authService.requestPasswordReset(email);
+      setSentTo(email);
+    } catch (error) {
+      log.error("Password reset request failed", error);
+      setSubmitError(
+        error instanceof ApiError ? error.userMessage : t("forgotPasswordPage.error")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title={t("forgotPasswordPage.title")}
+      subtitle={sentTo ? undefined : t("forgotPasswordPage.subtitle")}
+      footer={
+        <Button component={Link} href="/auth/login" size="small">
+          {t("forgotPasswordPage.backToLogin")}
+        </Button>
+      }
+    >
+      {sentTo ? (
+        <Alert severity="success" role="status">
+          {t("forgotPasswordPage.sent", { email: sentTo })}
+        </Alert>
+      ) : (
+        <Box component="form" onSubmit={handleSubmit} noValidate>
+          {submitError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {submitError}
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            type="email"
+            autoComplete="email"
+            label={t("email")}
+            value={formData.email}
+            onChange={(e) => {
+              const email = e.target.value;
+              setFormData({ email });
+              if (state.isDirty) validateField("email", email);
+            }}
+            error={!!errors.email}
+            helperText={errors.email}
+            sx={{ mb: 3 }}
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            fullWidth
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <CircularProgress size={18} color="inherit" /> : undefined}
+          >
+            {t("forgotPasswordPage.submit")}
+          </Button>
+        </Box>
+      )}
+    </AuthCard>
+  );
+}
+
+export default ForgotPasswordContent;
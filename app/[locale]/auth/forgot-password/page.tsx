@@ -0,0 +1,29 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { ForgotPasswordContent } from "./ForgotPasswordContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Auth" });
+
+  return {
+    title: t("metadata.forgotPasswordTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Forgot Password Page - Server Component
+ *
+ * Pide al backend el email con el enlace a /auth/reset-password/[token].
+ */
+export default async function ForgotPasswordPage({ params }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  return <ForgotPasswordContent />;
+}
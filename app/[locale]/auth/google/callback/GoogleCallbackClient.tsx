@@ -12,18 +12,24 @@
  * 3. Google redirige aquí con ?code=...
  * 4. Llamamos al backend para intercambiar code por tokens
  * 5. Backend setea cookies httpOnly
- * 6. Redirigimos al usuario a la app
+ * 6. Redirigimos al usuario a la ruta desde la que inició el login
+ *
+ * Si la cuenta tiene la verificación en dos pasos, el backend no inicia la
+ * sesión todavía: el login pide el código (reto en `auth.mfaChallenge`).
  */
 
 import { Suspense, useEffect, useState } from "react";
-import { useSearchParams, useRouter } from "next/navigation";
+import { useSearchParams } from "next/navigation";
 import Box from "@mui/material/Box";
 import CircularProgress from "@mui/material/CircularProgress";
 import Typography from "@mui/material/Typography";
 import Alert from "@mui/material/Alert";
 import Button from "@mui/material/Button";
-import { useAuthActions } from "@/store";
+import { useRouter } from "@/i18n/navigation";
+import { useAuthActions, useStore } from "@/store";
 import { useLogger } from "@hooks";
+import { consumeRememberedRedirect, getAuthHref } from "@lib/auth";
+import { LOGIN_REDIRECT } from "@/middleware/config";
 
 type CallbackState = "loading" | "success" | "error";
 
@@ -92,12 +98,20 @@ function GoogleCallbackContent() {
         // Intercambiar código por tokens
         await handleGoogleCallback(code);
 
+        // Falta el segundo paso: se completa en la página de login
+        if (useStore.getState().auth.mfaChallenge) {
+          log.info("Callback requires second factor");
+          router.replace(getAuthHref(LOGIN_REDIRECT, consumeRememberedRedirect()));
+          return;
+        }
+
         setState("success");
         log.info("Callback successful");
 
         // Redirigir después de un breve delay para mostrar éxito
+        const redirectTo = consumeRememberedRedirect();
         setTimeout(() => {
-          router.push("/");
+          router.push(redirectTo);
         }, 1000);
       } catch (err) {
         log.error("Callback failed", err);
@@ -175,7 +189,7 @@ function GoogleCallbackContent() {
             Por favor intenta de nuevo.
           </Typography>
           <Box sx={{ display: "flex", gap: 2 }}>
-            <Button variant="outlined" onClick={() => router.push("/login")}>
+            <Button variant="outlined" onClick={() => router.push("/auth/login")}>
               Volver al login
             </Button>
             <Button variant="contained" onClick={() => router.push("/")}>
@@ -0,0 +1,159 @@
+"use client";
+
+/**
+ * Login Content - Client Component
+ *
+ * Formulario de email y contraseña sobre `authSlice.login`, con Google
+ * OAuth como alternativa. Si la cuenta tiene la verificación en dos pasos
+ * (también al volver de Google), pide el código en un segundo paso. Al
+ * iniciar sesión (o si ya había sesión) vuelve a `redirectTo`; las cuentas
+ * de administración sin la verificación activada van antes a configurarla.
+ */
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Divider from "@mui/material/Divider";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+
+import { GoogleOAuthButton } from "@molecules/GoogleOAuthButton";
+import { Link, useRouter } from "@/i18n/navigation";
+import { ApiError } from "@/errors";
+import { useFormValidation } from "@hooks";
+import { getAuthHref, isMfaRequired } from "@lib/auth";
+import { loginSchema, type LoginFormData } from "@lib/validation/auth";
+import { MFA_SETUP_PAGE } from "@/middleware/config";
+import { useAuth, useAuthActions, useCurrentUser, useMfaChallenge } from "@/store";
+
+import { AuthCard, MfaChallengeForm } from "../components";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LoginContentProps {
+  /** Internal path to open after logging in */
+  redirectTo: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function LoginContent({ redirectTo }: LoginContentProps) {
+  const t = useTranslations("Auth");
+  const router = useRouter();
+  const { login } = useAuthActions();
+  const isAuthenticated = useAuth((state) => state.isAuthenticated);
+  const isLoading = useAuth((state) => state.isLoading);
+  const user = useCurrentUser();
+  const mfaChallenge = useMfaChallenge();
+
+  const [formData, setFormData] = useState<LoginFormData>({ email: "", password: "" });
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { errors, validate, validateField, state } = useFormValidation(loginSchema);
+
+  // Con sesión (al entrar o tras el login) se vuelve a la ruta original
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+
+    const needsMfaSetup = isMfaRequired(user.role) && !user.mfaEnabled;
+    router.replace(needsMfaSetup ? getAuthHref(MFA_SETUP_PAGE, redirectTo) : redirectTo);
+  }, [isAuthenticated, user, redirectTo, router]);
+
+  const handleChange = (field: keyof LoginFormData) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (state.isDirty) validateField(field, value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate(formData)) return;
+
+    setSubmitError(null);
+    const { email, password } = loginSchema.parse(formData);
+    try {
+      await login(email, password);
+    } catch (error) {
+      setSubmitError(error instanceof ApiError ? error.userMessage : t("loginPage.error"));
+    }
+  };
+
+  if (mfaChallenge) {
+    return (
+      <AuthCard title={t("loginPage.mfa.title")} subtitle={t("loginPage.mfa.subtitle")}>
+        <MfaChallengeForm />
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title={t("loginPage.title")}
+      subtitle={t("loginPage.subtitle")}
+      footer={
+        <Typography variant="body2" color="text.secondary">
+          {t("loginPage.noAccount")}{" "}
+          <Link href={getAuthHref("/auth/register", redirectTo)}>
+            {t("loginPage.registerLink")}
+          </Link>
+        </Typography>
+      }
+    >
+      <GoogleOAuthButton label={t("google")} redirectTo={redirectTo} />
+
+      <Divider sx={{ my: 3 }}>{t("or")}</Divider>
+
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        {submitError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {submitError}
+          </Alert>
+        )}
+        <TextField
+          fullWidth
+          type="email"
+          autoComplete="email"
+          label={t("email")}
+          value={formData.email}
+          onChange={handleChange("email")}
+          error={!!errors.email}
+          helperText={errors.email}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          type="password"
+          autoComplete="current-password"
+          label={t("password")}
+          value={formData.password}
+          onChange={handleChange("password")}
+          error={!!errors.password}
+          helperText={errors.password}
+          sx={{ mb: 1 }}
+        />
+        <Box sx={{ display: "flex", justifyContent: "flex-end", mb: 3 }}>
+          <Button component={Link} href="/auth/forgot-password" size="small">
+            {t("forgotPassword")}
+          </Button>
+        </Box>
+        <Button
+          type="submit"
+          variant="contained"
+          fullWidth
+          disabled={isLoading}
+          startIcon={isLoading ? <CircularProgress size={18} color="inherit" /> : undefined}
+        >
+          {t("loginPage.submit")}
+        </Button>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default LoginContent;
@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { getSafeRedirect, REDIRECT_PARAM } from "@lib/auth";
+import { LoginContent } from "./LoginContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Auth" });
+
+  return {
+    title: t("metadata.loginTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Login Page - Server Component
+ *
+ * El middleware manda aquí las rutas protegidas sin sesión con
+ * `?redirect=`; después del login se vuelve a esa ruta.
+ */
+export default async function LoginPage({ params, searchParams }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const redirect = (await searchParams)[REDIRECT_PARAM];
+
+  return (
+    <LoginContent
+      redirectTo={getSafeRedirect(Array.isArray(redirect) ? redirect[0] : redirect)}
+    />
+  );
+}
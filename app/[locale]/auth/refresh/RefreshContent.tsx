@@ -0,0 +1,73 @@
+"use client";
+
+/**
+ * Refresh Content - Client Component
+ *
+ * Renueva los tokens (el backend lee la cookie refresh_token y emite un
+ * access token nuevo) y vuelve a la ruta original. Si el refresh falla, la
+ * sesión del store se cierra y se abre el login con el mismo destino.
+ */
+
+import { useEffect, useRef } from "react";
+import { useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import CircularProgress from "@mui/material/CircularProgress";
+import Typography from "@mui/material/Typography";
+
+import { useRouter } from "@/i18n/navigation";
+import { useLogger } from "@hooks";
+import { getAuthHref } from "@lib/auth";
+import { authService } from "@lib/services/auth";
+import { LOGIN_REDIRECT } from "@/middleware/config";
+import { useAuthActions } from "@/store";
+
+import { AuthCard } from "../components";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RefreshContentProps {
+  /** Internal path to return to once the session is renewed */
+  redirectTo: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function RefreshContent({ redirectTo }: RefreshContentProps) {
+  const t = useTranslations("Auth");
+  const router = useRouter();
+  const log = useLogger("SessionRefresh");
+  const { logout } = useAuthActions();
+  // El refresh token rota en cada uso: evita repetir la petición
+  const requestedRef = useRef(false);
+
+  useEffect(() => {
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+
+    authService
+      .refreshTokens()
+      .then(() => router.replace(redirectTo))
+      .catch(async (error: unknown) => {
+        log.warn("Silent session refresh failed", error);
+        await logout();
+        router.replace(getAuthHref(LOGIN_REDIRECT, redirectTo));
+      });
+  }, [redirectTo, router, log, logout]);
+
+  return (
+    <AuthCard title={t("refreshPage.title")}>
+      <Box sx={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 2, py: 2 }}>
+        <CircularProgress />
+        <Typography color="text.secondary" role="status">
+          {t("refreshPage.refreshing")}
+        </Typography>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default RefreshContent;
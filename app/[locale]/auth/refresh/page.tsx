@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { getSafeRedirect, REDIRECT_PARAM } from "@lib/auth";
+import { RefreshContent } from "./RefreshContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Auth" });
+
+  return {
+    title: t("metadata.refreshTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Refresh Page - Server Component
+ *
+ * El middleware manda aquí las rutas protegidas cuyo access token ha
+ * caducado (con `?redirect=`): se renueva la sesión con el refresh token y
+ * se vuelve a la ruta sin pasar por el login.
+ */
+export default async function RefreshPage({ params, searchParams }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const redirect = (await searchParams)[REDIRECT_PARAM];
+
+  return (
+    <RefreshContent
+      redirectTo={getSafeRedirect(Array.isArray(redirect) ? redirect[0] : redirect)}
+    />
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+/**
+ * Register Content - Client Component
+ *
+ * Alta con nombre, email y contraseña sobre `authSlice.register` (o con
+ * Google). El backend inicia la sesión de la cuenta nueva, así que al
+ * terminar se vuelve a `redirectTo` igual que en el login.
+ */
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Divider from "@mui/material/Divider";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+
+import { GoogleOAuthButton } from "@molecules/GoogleOAuthButton";
+import { Link, useRouter } from "@/i18n/navigation";
+import { ApiError } from "@/errors";
+import { useFormValidation } from "@hooks";
+import { getAuthHref } from "@lib/auth";
+import { registerSchema, type RegisterFormData } from "@lib/validation/auth";
+import { useAuth, useAuthActions } from "@/store";
+
+import { AuthCard } from "../components";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RegisterContentProps {
+  /** Internal path to open after signing up */
+  redirectTo: string;
+}
+
+const EMPTY_FORM: RegisterFormData = {
+  name: "",
+  email: "",
+  password: "",
+  confirmPassword: "",
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function RegisterContent({ redirectTo }: RegisterContentProps) {
+  const t = useTranslations("Auth");
+  const router = useRouter();
+  const { register } = useAuthActions();
+  const isAuthenticated = useAuth((state) => state.isAuthenticated);
+  const isLoading = useAuth((state) => state.isLoading);
+
+  const [formData, setFormData] = useState<RegisterFormData>(EMPTY_FORM);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { errors, validate, validateField, state } = useFormValidation(registerSchema);
+
+  // Con sesión (al entrar o tras el registro) se vuelve a la ruta original
+  useEffect(() => {
+    if (isAuthenticated) router.replace(redirectTo);
+  }, [isAuthenticated, redirectTo, router]);
+
+  const handleChange =
+    (field: keyof RegisterFormData) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value;
+      setFormData((prev) => ({ ...prev, [field]: value }));
+      if (state.isDirty) validateField(field, value);
+    };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate(formData)) return;
+
+    setSubmitError(null);
+    try {
+      await register(registerSchema.parse(formData));
+    } catch (error) {
+      setSubmitError(error instanceof ApiError ? error.userMessage : t("registerPage.error"));
+    }
+  };
+
+  return (
+    <AuthCard
+      title={t("registerPage.title")}
+      subtitle={t("registerPage.subtitle")}
+      footer={
+        <Typography variant="body2" color="text.secondary">
+          {t("registerPage.hasAccount")}{" "}
+          <Link href={getAuthHref("/auth/login", redirectTo)}>{t("registerPage.loginLink")}</Link>
+        </Typography>
+      }
+    >
+      <GoogleOAuthButton label={t("google")} redirectTo={redirectTo} />
+
+      <Divider sx={{ my: 3 }}>{t("or")}</Divider>
+
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        {submitError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {submitError}
+          </Alert>
+        )}
+        <TextField
+          fullWidth
+          autoComplete="name"
+          label={t("name")}
+          value={formData.name}
+          onChange={handleChange("name")}
+          error={!!errors.name}
+          helperText={errors.name}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          type="email"
+          autoComplete="email"
+          label={t("email")}
+          value={formData.email}
+          onChange={handleChange("email")}
+          error={!!errors.email}
+          helperText={errors.email}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          type="password"
+          autoComplete="new-password"
+          label={t("password")}
+          value={formData.password}
+          onChange={handleChange("password")}
+          error={!!errors.password}
+          helperText={errors.password ?? t("registerPage.passwordHint")}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          type="password"
+          autoComplete="new-password"
+          label={t("confirmPassword")}
+          value={formData.confirmPassword}
+          onChange={handleChange("confirmPassword")}
+          error={!!errors.confirmPassword}
+          helperText={errors.confirmPassword}
+          sx={{ mb: 3 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          fullWidth
+          disabled={isLoading}
+          startIcon={isLoading ? <CircularProgress size={18} color="inherit" /> : undefined}
+        >
+          {t("registerPage.submit")}
+        </Button>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default RegisterContent;
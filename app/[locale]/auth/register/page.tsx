@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { getSafeRedirect, REDIRECT_PARAM } from "@lib/auth";
+import { RegisterContent } from "./RegisterContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Auth" });
+
+  return {
+    title: t("metadata.registerTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Register Page - Server Component
+ *
+ * Conserva el `?redirect=` del login: la cuenta nueva vuelve a la ruta
+ * que el visitante intentaba abrir.
+ */
+export default async function RegisterPage({ params, searchParams }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const redirect = (await searchParams)[REDIRECT_PARAM];
+
+  return (
+    <RegisterContent
+      redirectTo={getSafeRedirect(Array.isArray(redirect) ? redirect[0] : redirect)}
+    />
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+/**
+ * Reset Password Content - Client Component
+ *
+ * Nueva contraseña con el token del enlace. Al guardarla se invita a
+ * iniciar sesión. Si el backend rechaza el token (inválido, caducado o ya
+ * usado) el formulario se sustituye por una explicación y el camino para
+ * pedir otro enlace.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import AlertTitle from "@mui/material/AlertTitle";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import TextField from "@mui/material/TextField";
+
+import { Link } from "@/i18n/navigation";
+import { ApiError, getEmailLinkProblem, type EmailLinkProblem } from "@/errors";
+import { useFormValidation, useLogger } from "@hooks";
+import { authService } from "@lib/services/auth";
+import { resetPasswordSchema, type ResetPasswordFormData } from "@lib/validation/auth";
+
+import { AuthCard } from "../../components";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ResetPasswordContentProps {
+  /** Token from the reset email link */
+  token: string;
+}
+
+type ResetState = "form" | "success" | EmailLinkProblem;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function ResetPasswordContent({ token }: ResetPasswordContentProps) {
+  const t = useTranslations("Auth");
+  const log = useLogger("ResetPassword");
+
+  const [formData, setFormData] = useState<ResetPasswordFormData>({
+    password: "",
+    confirmPassword: "",
+  });
+  const [status, setStatus] = useState<ResetState>("form");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { errors, validate, validateField, state } = useFormValidation(resetPasswordSchema);
+
+  const handleChange =
+    (field: keyof ResetPasswordFormData) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value;
+      setFormData((prev) => ({ ...prev, [field]: value }));
+      if (state.isDirty) validateField(field, value);
+    };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate(formData)) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await authService.confirmPasswordReset(token, formData.password);
+      setStatus("success");
+    } catch (error) {
+      const problem = error instanceof ApiError ? getEmailLinkProblem(error.apiCode) : null;
+      if (problem) {
+        setStatus(problem);
+        return;
+      }
+
+      log.error("Password reset failed", error);
+      setSubmitError(
+        error instanceof ApiError ? error.userMessage : t("resetPasswordPage.error")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (status === "success") {
+    return (
+      <AuthCard title={t("resetPasswordPage.title")}>
+        <Alert severity="success" role="status" sx={{ mb: 3 }}>
+          {t("resetPasswordPage.success")}
+        </Alert>
+        <Button component={Link} href="/auth/login" variant="contained" fullWidth>
+          {t("resetPasswordPage.loginLink")}
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  if (status !== "form") {
+    return (
+      <AuthCard title={t("resetPasswordPage.title")}>
+        <Alert severity="warning" role="status" sx={{ mb: 3 }}>
+          <AlertTitle>{t(`resetPasswordPage.stale.${status}.title`)}</AlertTitle>
+          {t(`resetPasswordPage.stale.${status}.description`)}
+        </Alert>
+        <Button component={Link} href="/auth/forgot-password" variant="contained" fullWidth>
+          {t("resetPasswordPage.requestNewLink")}
+        </Button>
+        {status === "used" && (
+          <Button component={Link} href="/auth/login" fullWidth sx={{ mt: 1 }}>
+            {t("resetPasswordPage.loginLink")}
+          </Button>
+        )}
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title={t("resetPasswordPage.title")}
+      subtitle={t("resetPasswordPage.subtitle")}
+      footer={
+        <Button component={Link} href="/auth/forgot-password" size="small">
+          {t("resetPasswordPage.requestNewLink")}
+        </Button>
+      }
+    >
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        {submitError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {submitError}
+          </Alert>
+        )}
+        <TextField
+          fullWidth
+          type="password"
+          autoComplete="new-password"
+          label={t("resetPasswordPage.newPassword")}
+          value={formData.password}
+          onChange={handleChange("password")}
+          error={!!errors.password}
+          helperText={errors.password ?? t("registerPage.passwordHint")}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          type="password"
+          autoComplete="new-password"
+          label={t("confirmPassword")}
+          value={formData.confirmPassword}
+          onChange={handleChange("confirmPassword")}
+          error={!!errors.confirmPassword}
+          helperText={errors.confirmPassword}
+          sx={{ mb: 3 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          fullWidth
+          disabled={isSubmitting}
+          startIcon={isSubmitting ? <CircularProgress size={18} color="inherit" /> : undefined}
+        >
+          {t("resetPasswordPage.submit")}
+        </Button>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default ResetPasswordContent;
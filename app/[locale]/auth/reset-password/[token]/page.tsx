@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { ResetPasswordContent } from "./ResetPasswordContent";
+
+type Props = {
+  params: Promise<{ locale: string; token: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Auth" });
+
+  return {
+    title: t("metadata.resetPasswordTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Reset Password Page - Server Component
+ *
+ * Destino del enlace del email de restablecimiento; el token lo valida
+ * el backend al guardar la nueva contraseña.
+ */
+export default async function ResetPasswordPage({ params }: Props) {
+  const { locale, token } = await params;
+  setRequestLocale(locale);
+
+  return <ResetPasswordContent token={token} />;
+}
@@ -0,0 +1,229 @@
+"use client";
+
+/**
+ * Verify Email Content - Client Component
+ *
+ * Verifica el email con el token del enlace nada más abrir la página:
+ * - Verificado → acceso a la tienda (o al login sin sesión)
+ * - Inválido o caducado → formulario para reenviar el enlace
+ * - Ya usado → el email ya estaba verificado, solo falta iniciar sesión
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import AlertTitle from "@mui/material/AlertTitle";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+
+import { Link } from "@/i18n/navigation";
+import { ApiError, getEmailLinkProblem, type EmailLinkProblem } from "@/errors";
+import { useFormValidation, useLogger } from "@hooks";
+import { authService } from "@lib/services/auth";
+import {
+  resendVerificationSchema,
+  type ResendVerificationFormData,
+} from "@lib/validation/auth";
+import { useIsAuthenticated } from "@/store";
+
+import { AuthCard } from "../../components";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface VerifyEmailContentProps {
+  /** Token from the verification email link */
+  token: string;
+}
+
+type VerifyState = "verifying" | "verified" | "error" | EmailLinkProblem;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function VerifyEmailContent({ token }: VerifyEmailContentProps) {
+  const t = useTranslations("Auth");
+  const log = useLogger("VerifyEmail");
+  const isAuthenticated = useIsAuthenticated();
+
+  const [status, setStatus] = useState<VerifyState>("verifying");
+  // "Reintentar" repite la petición con el mismo token
+  const [attempt, setAttempt] = useState(0);
+  // Un token solo se puede usar una vez: evita repetir la misma petición
+  const requestedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const key = `${token}:${attempt}`;
+    if (requestedRef.current === key) return;
+    requestedRef.current = key;
+
+    authService
+      .verifyEmail(token)
+      .then(() => setStatus("verified"))
+      .catch((error: unknown) => {
+        const problem = error instanceof ApiError ? getEmailLinkProblem(error.apiCode) : null;
+        if (!problem) log.error("Email verification failed", error);
+        setStatus(problem ?? "error");
+      });
+  }, [token, attempt, log]);
+
+  const retry = () => {
+    setStatus("verifying");
+    setAttempt((value) => value + 1);
+  };
+
+  return (
+    <AuthCard title={t("verifyEmailPage.title")}>
+      {status === "verifying" && (
+        <Box sx={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 2, py: 2 }}>
+          <CircularProgress />
+          <Typography color="text.secondary" role="status">
+            {t("verifyEmailPage.verifying")}
+          </Typography>
+        </Box>
+      )}
+
+      {status === "verified" && (
+        <>
+          <Alert severity="success" role="status" sx={{ mb: 3 }}>
+            <AlertTitle>{t("verifyEmailPage.verified.title")}</AlertTitle>
+            {t("verifyEmailPage.verified.description")}
+          </Alert>
+          <Button
+            component={Link}
+            href={isAuthenticated ? "/" : "/auth/login"}
+            variant="contained"
+            fullWidth
+          >
+            {isAuthenticated ? t("verifyEmailPage.continue") : t("verifyEmailPage.login")}
+          </Button>
+        </>
+      )}
+
+      {status === "error" && (
+        <>
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {t("verifyEmailPage.error")}
+          </Alert>
+          <Button variant="contained" fullWidth onClick={retry}>
+            {t("verifyEmailPage.retry")}
+          </Button>
+        </>
+      )}
+
+      {status === "used" && (
+        <>
+          <Alert severity="info" role="status" sx={{ mb: 3 }}>
+            <AlertTitle>{t("verifyEmailPage.stale.used.title")}</AlertTitle>
+            {t("verifyEmailPage.stale.used.description")}
+          </Alert>
+          <Button
+            component={Link}
+            href={isAuthenticated ? "/" : "/auth/login"}
+            variant="contained"
+            fullWidth
+          >
+            {isAuthenticated ? t("verifyEmailPage.continue") : t("verifyEmailPage.login")}
+          </Button>
+        </>
+      )}
+
+      {(status === "invalid" || status === "expired") && (
+        <>
+          <Alert severity="warning" role="status" sx={{ mb: 3 }}>
+            <AlertTitle>{t(`verifyEmailPage.stale.${status}.title`)}</AlertTitle>
+            {t(`verifyEmailPage.stale.${status}.description`)}
+          </Alert>
+          <ResendVerificationForm />
+        </>
+      )}
+    </AuthCard>
+  );
+}
+
+// =============================================================================
+// RESEND FORM
+// =============================================================================
+
+/**
+ * Email field to request a new verification link
+ */
+function ResendVerificationForm() {
+  const t = useTranslations("Auth");
+  const log = useLogger("VerifyEmail");
+
+  const [formData, setFormData] = useState<ResendVerificationFormData>({ email: "" });
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { errors, validate, validateField, state } = useFormValidation(resendVerificationSchema);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate(formData)) return;
+
+    const { email } = resendVerificationSchema.parse(formData);
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await authService.resendVerification(email);
+      setSentTo(email);
+    } catch (error) {
+      log.error("Resend verification failed", error);
+      setSubmitError(
+        error instanceof ApiError ? error.userMessage : t("verifyEmailPage.resend.error")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <Alert severity="success" role="status">
+        {t("verifyEmailPage.resend.sent", { email: sentTo })}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate>
+      {submitError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {submitError}
+        </Alert>
+      )}
+      <TextField
+        fullWidth
+        type="email"
+        autoComplete="email"
+        label={t("email")}
+        value={formData.email}
+        onChange={(e) => {
+          const email = e.target.value;
+          setFormData({ email });
+          if (state.isDirty) validateField("email", email);
+        }}
+        error={!!errors.email}
+        helperText={errors.email}
+        sx={{ mb: 3 }}
+      />
+      <Button
+        type="submit"
+        variant="contained"
+        fullWidth
+        disabled={isSubmitting}
+        startIcon={isSubmitting ? <CircularProgress size={18} color="inherit" /> : undefined}
+      >
+        {t("verifyEmailPage.resend.submit")}
+      </Button>
+    </Box>
+  );
+}
+
+export default VerifyEmailContent;
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { VerifyEmailContent } from "./VerifyEmailContent";
+
+type Props = {
+  params: Promise<{ locale: string; token: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Auth" });
+
+  return {
+    title: t("metadata.verifyEmailTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Verify Email Page - Server Component
+ *
+ * Destino del enlace del email de verificación que se envía tras el
+ * registro; la verificación se hace al abrir la página.
+ */
+export default async function VerifyEmailPage({ params }: Props) {
+  const { locale, token } = await params;
+  setRequestLocale(locale);
+
+  return <VerifyEmailContent token={token} />;
+}
@@ -5,22 +5,88 @@ import {
   useContext,
   useReducer,
   useCallback,
+  useEffect,
   useMemo,
+  useRef,
   type ReactNode,
 } from "react";
+import { useTranslations } from "next-intl";
+import { bundles as defaultBundles, products } from "@/data/ayla";
+import {
+  MAX_QUANTITY_PER_ITEM,
+  getCartLineKey,
+  type CartMergeSummary,
+} from "@lib/cart";
+import { findVariant, toCartItem } from "@lib/catalog";
+import type { FavoritesMergeSummary } from "@lib/favorites";
+import {
+  detectBundles,
+  evaluatePromotions,
+  getCartBreakdown,
+  normalizePromotionCode,
+  toMinorUnits,
+} from "@lib/checkout";
+import { promotionService } from "@lib/services/promotion";
+import { STORE_COUNTRY } from "@lib/tax";
+import { useStore } from "@store";
+import { PromotionError } from "@/errors";
 import type {
   AylaProduct,
+  AylaAppliedPromotion,
+  AylaBundle,
+  AylaBundleOffer,
+  AylaCartBreakdown,
+  AylaCartBundle,
   AylaCartItem,
+  AylaPromotion,
+  AylaPromotionRejection,
+  AylaTaxDisplay,
+  AylaTaxProfile,
   AylaToast,
   AylaStoreState,
   AylaStoreActions,
 } from "@types";
+import {
+  createCartSyncChannel,
+  loadCart,
+  reconcileCart,
+  saveCart,
+  toPersistedLines,
+  type CartSyncChannel,
+} from "./cartPersistence";
+import { toCartLines, useCartAccountSync } from "./useCartAccountSync";
+import { useFavoritesAccountSync } from "./useFavoritesAccountSync";
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-interface AylaContextValue extends AylaStoreState, AylaStoreActions {}
+interface AylaContextValue extends AylaStoreState, AylaStoreActions {
+  /** Always computed by the provider */
+  cartBreakdown: AylaCartBreakdown;
+  cartItemCount: number;
+  /** Businesses (with a VAT ID) see amounts without VAT */
+  taxDisplay: AylaTaxDisplay;
+}
+
+/** Rejections with a dedicated message (others use the generic one) */
+const PROMOTION_REJECTIONS: AylaPromotionRejection[] = [
+  "not_found",
+  "not_started",
+  "expired",
+  "usage_limit_reached",
+  "min_purchase_not_met",
+  "no_eligible_products",
+  "already_applied",
+];
+
+/**
+ * Reducer state: the store state plus the catalogs bundles are resolved against
+ */
+interface AylaReducerState extends AylaStoreState {
+  bundleCatalog: AylaBundle[];
+  productCatalog: AylaProduct[];
+}
 
 // =============================================================================
 // INITIAL STATE
@@ -35,6 +101,11 @@ const initialState: AylaStoreState = {
     message: "",
     variant: "success",
   },
+  isCartHydrated: false,
+  cartBundles: [],
+  bundleOffers: [],
+  promotions: [],
+  taxProfile: { country: STORE_COUNTRY, vatId: null },
 };
 
 // =============================================================================
@@ -42,63 +113,276 @@ const initialState: AylaStoreState = {
 // =============================================================================
 
 type Action =
-  | { type: "ADD_TO_CART"; payload: AylaProduct }
-  | { type: "REMOVE_FROM_CART"; payload: number }
-  | { type: "UPDATE_QUANTITY"; payload: { id: number; quantity: number } }
+  | {
+      type: "ADD_TO_CART";
+      payload: { product: AylaProduct; variantId?: number | null };
+    }
+  | { type: "ADD_BUNDLE_TO_CART"; payload: AylaBundle }
+  | { type: "REMOVE_BUNDLE_FROM_CART"; payload: number }
+  | { type: "APPLY_PROMOTION"; payload: AylaPromotion }
+  | { type: "REMOVE_PROMOTION"; payload: string }
+  | { type: "SET_TAX_PROFILE"; payload: AylaTaxProfile }
+  | { type: "REMOVE_FROM_CART"; payload: string }
+  | { type: "UPDATE_QUANTITY"; payload: { key: string; quantity: number } }
   | { type: "CLEAR_CART" }
+  | { type: "HYDRATE_CART"; payload: AylaCartItem[] }
+  | { type: "ACKNOWLEDGE_CART_ISSUES" }
   | { type: "SET_CART_OPEN"; payload: boolean }
   | { type: "SET_SELECTED_PRODUCT"; payload: AylaProduct | null }
   | { type: "SHOW_TOAST"; payload: AylaToast }
   | { type: "HIDE_TOAST" };
 
-function aylaReducer(state: AylaStoreState, action: Action): AylaStoreState {
+/** Key of a cart line: product + selected variant */
+const lineKey = (item: AylaCartItem) => getCartLineKey(item.id, item.variantId);
+
+/** Add `quantity` units of a product variant, merging with its existing line */
+function addCartItem(
+  cartItems: AylaCartItem[],
+  product: AylaProduct,
+  variantId: number | null | undefined,
+  quantity: number
+): AylaCartItem[] {
+  const added = toCartItem(product, findVariant(product, variantId), quantity);
+  const key = lineKey(added);
+
+  const existing = cartItems.find((item) => lineKey(item) === key);
+  if (existing) {
+    return cartItems.map((item) =>
+      lineKey(item) === key
+        ? { ...item, quantity: item.quantity + quantity }
+        : item
+    );
+  }
+  return [...cartItems, added];
+}
+
+/**
+ * Detect the bundles completed (and nearly completed) by the cart items and
+ * re-evaluate the applied promotions against the rest of the cart
+ *
+ * Discontinued lines cannot be bought, so they never count for a discount.
+ * Usage limits are only known by the server and are checked at checkout.
+ */
+function withDiscounts(state: AylaReducerState): AylaReducerState {
+  const purchasable = state.cartItems.filter(
+    (item) => item.issue !== "discontinued"
+  );
+  const { matches, offers } = detectBundles(
+    purchasable.map((item) => ({
+      productId: item.id,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      unitAmount: toMinorUnits(item.price),
+    })),
+    state.bundleCatalog
+  );
+
+  const cartBundles: AylaCartBundle[] = matches.map((match) => ({
+    bundle: match.bundle,
+    count: match.count,
+    items: purchasable
+      .filter((item) => match.consumed[lineKey(item)])
+      .map((item) => ({ ...item, quantity: match.consumed[lineKey(item)] })),
+    subtotal: match.amount / 100,
+    discount: match.discount / 100,
+  }));
+
+  const productsById = new Map(
+    state.productCatalog.map((product) => [product.id, product])
+  );
+  const bundleOffers: AylaBundleOffer[] = offers.map((offer) => ({
+    bundle: offer.bundle,
+    missing: offer.missing.flatMap((item) => {
+      const product = productsById.get(item.product_id);
+      return product
+        ? [{ product, variantId: item.variant_id, quantity: item.quantity }]
+        : [];
+    }),
+  }));
+
+  const subtotal = purchasable.reduce(
+    (sum, item) => sum + toMinorUnits(item.price) * item.quantity,
+    0
+  );
+  const bundleDiscount = matches.reduce((sum, match) => sum + match.discount, 0);
+  const evaluations = evaluatePromotions(
+    state.promotions.map(({ promotion }) => promotion),
+    purchasable.map((item) => ({
+      productId: item.id,
+      category: item.category,
+      quantity: item.quantity,
+      unitAmount: toMinorUnits(item.price),
+    })),
+    { maxDiscount: subtotal - bundleDiscount }
+  );
+  const promotions: AylaAppliedPromotion[] = evaluations.map((evaluation) =>
+    evaluation.valid
+      ? { promotion: evaluation.promotion, discount: evaluation.discount / 100 }
+      : { promotion: evaluation.promotion, discount: 0, rejection: evaluation.reason }
+  );
+
+  return { ...state, cartBundles, bundleOffers, promotions };
+}
+
+/**
+ * Store reducer: discounts are recomputed whenever the cart items or the
+ * applied promotions change
+ */
+function aylaReducer(
+  state: AylaReducerState,
+  action: Action
+): AylaReducerState {
+  const next = storeReducer(state, action);
+  return next.cartItems === state.cartItems &&
+    next.promotions === state.promotions
+    ? next
+    : withDiscounts(next);
+}
+
+function storeReducer(
+  state: AylaReducerState,
+  action: Action
+): AylaReducerState {
   switch (action.type) {
     case "ADD_TO_CART": {
-      const existing = state.cartItems.find(
-        (item) => item.id === action.payload.id
+      const { product, variantId } = action.payload;
+      return {
+        ...state,
+        cartItems: addCartItem(state.cartItems, product, variantId, 1),
+      };
+    }
+
+    case "ADD_BUNDLE_TO_CART": {
+      const bundle = action.payload;
+      const offer = state.bundleOffers.find(
+        (candidate) => candidate.bundle.id === bundle.id
       );
-      if (existing) {
-        return {
-          ...state,
-          cartItems: state.cartItems.map((item) =>
-            item.id === action.payload.id
-              ? { ...item, quantity: item.quantity + 1 }
-              : item
-          ),
-        };
+      // Without a partial match the whole bundle is added
+      const missing =
+        offer?.missing ??
+        bundle.items.flatMap((item) => {
+          const product = state.productCatalog.find(
+            (candidate) => candidate.id === item.product_id
+          );
+          return product
+            ? [{ product, variantId: item.variant_id, quantity: item.quantity }]
+            : [];
+        });
+
+      return {
+        ...state,
+        cartItems: missing.reduce(
+          (items, { product, variantId, quantity }) =>
+            addCartItem(items, product, variantId, quantity),
+          state.cartItems
+        ),
+      };
+    }
+
+    case "REMOVE_BUNDLE_FROM_CART": {
+      const applied = state.cartBundles.find(
+        (cartBundle) => cartBundle.bundle.id === action.payload
+      );
+      if (!applied) return state;
+
+      // Take the units of one bundle from the lines it consumed
+      const removed = new Map<string, number>();
+      for (const { product_id, variant_id, quantity } of applied.bundle.items) {
+        let needed = quantity;
+        for (const item of applied.items) {
+          if (needed === 0) break;
+          if (item.id !== product_id) continue;
+          if (variant_id !== null && item.variantId !== variant_id) continue;
+
+          const key = lineKey(item);
+          const taken = Math.min(needed, item.quantity - (removed.get(key) ?? 0));
+          removed.set(key, (removed.get(key) ?? 0) + taken);
+          needed -= taken;
+        }
       }
+
       return {
         ...state,
-        cartItems: [...state.cartItems, { ...action.payload, quantity: 1 }],
+        cartItems: state.cartItems
+          .map((item) => {
+            const taken = removed.get(lineKey(item));
+            return taken ? { ...item, quantity: item.quantity - taken } : item;
+          })
+          .filter((item) => item.quantity > 0),
       };
     }
 
     case "REMOVE_FROM_CART":
       return {
         ...state,
-        cartItems: state.cartItems.filter((item) => item.id !== action.payload),
+        cartItems: state.cartItems.filter(
+          (item) => lineKey(item) !== action.payload
+        ),
       };
 
     case "UPDATE_QUANTITY": {
-      const { id, quantity } = action.payload;
+      const { key, quantity } = action.payload;
       if (quantity <= 0) {
         return {
           ...state,
-          cartItems: state.cartItems.filter((item) => item.id !== id),
+          cartItems: state.cartItems.filter((item) => lineKey(item) !== key),
         };
       }
       return {
         ...state,
         cartItems: state.cartItems.map((item) =>
-          item.id === id ? { ...item, quantity } : item
+          lineKey(item) === key ? { ...item, quantity } : item
         ),
       };
     }
 
+    case "APPLY_PROMOTION":
+      return {
+        ...state,
+        promotions: [
+          ...state.promotions,
+          { promotion: action.payload, discount: 0 },
+        ],
+      };
+
+    case "REMOVE_PROMOTION":
+      return {
+        ...state,
+        promotions: state.promotions.filter(
+          ({ promotion }) => promotion.code !== action.payload
+        ),
+      };
+
+    case "SET_TAX_PROFILE":
+      return {
+        ...state,
+        taxProfile: action.payload,
+      };
+
     case "CLEAR_CART":
       return {
         ...state,
         cartItems: [],
+        promotions: [],
+      };
+
+    case "HYDRATE_CART":
+      return {
+        ...state,
+        cartItems: action.payload,
+        isCartHydrated: true,
+      };
+
+    case "ACKNOWLEDGE_CART_ISSUES":
+      return {
+        ...state,
+        cartItems: state.cartItems.map((item) => {
+          if (item.issue !== "price_changed") return item;
+          const accepted = { ...item };
+          delete accepted.issue;
+          delete accepted.previousPrice;
+          return accepted;
+        }),
       };
 
     case "SET_CART_OPEN":
@@ -144,13 +428,26 @@ export interface AylaProviderProps {
   children: ReactNode;
   /** Initial cart items (for SSR or testing) */
   initialCartItems?: AylaCartItem[];
+  /**
+   * Catalog used to reconcile the persisted cart, loaded from the catalog
+   * repository by the locale layout (defaults to static products in tests)
+   */
+  catalog?: AylaProduct[];
+  /** Bundles detected in the cart (defaults to static bundles, read on mount) */
+  bundles?: AylaBundle[];
+  /** Persist the cart in localStorage and sync it across tabs (default true) */
+  persist?: boolean;
 }
 
 /**
  * AylaProvider - Context provider for Ayla Designs store
  *
  * Manages:
- * - Cart items (add, remove, update quantity)
+ * - Cart items (add, remove, update quantity), one line per product + variant
+ * - Bundle detection: complete bundles are discounted, partial ones offered
+ * - Promotion codes validated by the server and re-evaluated on cart changes
+ * - Cart persistence (localStorage) and live sync across open tabs
+ * - Merging the anonymous cart with the account cart on login
  * - Cart drawer open state
  * - Selected product for modal
  * - Toast notifications
@@ -162,32 +459,115 @@ export interface AylaProviderProps {
  * </AylaProvider>
  * ```
  */
-export function AylaProvider({ children, initialCartItems }: AylaProviderProps) {
-  const [state, dispatch] = useReducer(aylaReducer, {
-    ...initialState,
-    cartItems: initialCartItems || [],
-  });
+export function AylaProvider({
+  children,
+  initialCartItems,
+  catalog = products,
+  bundles = defaultBundles,
+  persist = true,
+}: AylaProviderProps) {
+  const t = useTranslations("Components.cart");
+  const tFavorites = useTranslations("Components.favorites");
+  const [state, dispatch] = useReducer(
+    aylaReducer,
+    {
+      ...initialState,
+      cartItems: initialCartItems || [],
+      isCartHydrated: !persist,
+      bundleCatalog: bundles,
+      productCatalog: catalog,
+    },
+    withDiscounts
+  );
+
+  const syncChannelRef = useRef<CartSyncChannel | null>(null);
+  // True while applying a change received from another tab (avoids echo)
+  const isRemoteUpdateRef = useRef(false);
+  // initialCartItems only seeds an empty storage on first mount
+  const initialCartItemsRef = useRef(initialCartItems);
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  // Rehydrate from storage and subscribe to other tabs
+  useEffect(() => {
+    if (!persist) return;
+
+    const persisted = loadCart();
+    const initialItems = initialCartItemsRef.current;
+    const seedFromProps = persisted.length === 0 && !!initialItems;
+
+    // Storage already holds this state: skip the write-back on hydration
+    isRemoteUpdateRef.current = !seedFromProps;
+    dispatch({
+      type: "HYDRATE_CART",
+      payload: seedFromProps
+        ? initialItems
+        : reconcileCart(persisted, catalog),
+    });
+
+    syncChannelRef.current = createCartSyncChannel((lines) => {
+      isRemoteUpdateRef.current = true;
+      dispatch({ type: "HYDRATE_CART", payload: reconcileCart(lines, catalog) });
+    });
+
+    return () => {
+      syncChannelRef.current?.close();
+      syncChannelRef.current = null;
+    };
+  }, [persist, catalog]);
+
+  // Write changes back and notify other tabs
+  useEffect(() => {
+    if (!persist || !state.isCartHydrated) return;
+
+    if (isRemoteUpdateRef.current) {
+      // The originating tab already saved this state
+      isRemoteUpdateRef.current = false;
+      return;
+    }
+
+    const lines = toPersistedLines(state.cartItems);
+    saveCart(lines);
+    syncChannelRef.current?.publish(lines);
+  }, [persist, state.cartItems, state.isCartHydrated]);
 
   // ==========================================================================
   // ACTIONS
   // ==========================================================================
 
-  const addToCart = useCallback((product: AylaProduct) => {
-    dispatch({ type: "ADD_TO_CART", payload: product });
+  const addToCart = useCallback(
+    (product: AylaProduct, variantId?: number | null) => {
+      dispatch({ type: "ADD_TO_CART", payload: { product, variantId } });
+    },
+    []
+  );
+
+  const addBundleToCart = useCallback((bundle: AylaBundle) => {
+    dispatch({ type: "ADD_BUNDLE_TO_CART", payload: bundle });
+  }, []);
+
+  const removeBundleFromCart = useCallback((bundleId: number) => {
+    dispatch({ type: "REMOVE_BUNDLE_FROM_CART", payload: bundleId });
   }, []);
 
-  const removeFromCart = useCallback((id: number) => {
-    dispatch({ type: "REMOVE_FROM_CART", payload: id });
+  const removeFromCart = useCallback((key: string) => {
+    dispatch({ type: "REMOVE_FROM_CART", payload: key });
   }, []);
 
-  const updateQuantity = useCallback((id: number, quantity: number) => {
-    dispatch({ type: "UPDATE_QUANTITY", payload: { id, quantity } });
+  const updateQuantity = useCallback((key: string, quantity: number) => {
+    dispatch({ type: "UPDATE_QUANTITY", payload: { key, quantity } });
   }, []);
 
   const clearCart = useCallback(() => {
     dispatch({ type: "CLEAR_CART" });
   }, []);
 
+  const acknowledgeCartIssues = useCallback(() => {
+    dispatch({ type: "ACKNOWLEDGE_CART_ISSUES" });
+  }, []);
+
   const openCart = useCallback(() => {
     dispatch({ type: "SET_CART_OPEN", payload: true });
   }, []);
@@ -223,16 +603,126 @@ export function AylaProvider({ children, initialCartItems }: AylaProviderProps)
     dispatch({ type: "HIDE_TOAST" });
   }, []);
 
+  const applyPromotion = useCallback(
+    async (code: string) => {
+      const normalized = normalizePromotionCode(code);
+      const appliedCodes = state.promotions.map(({ promotion }) => promotion.code);
+
+      const reject = (reason: string) => {
+        showToast(
+          PROMOTION_REJECTIONS.includes(reason as AylaPromotionRejection)
+            ? t(`promotions.rejected.${reason as AylaPromotionRejection}`)
+            : t("promotions.rejected.unknown"),
+          "error"
+        );
+        return false;
+      };
+
+      if (appliedCodes.includes(normalized)) return reject("already_applied");
+
+      try {
+        const { promotion } = await promotionService.validate(
+          normalized,
+          toCartLines(state.cartItems),
+          appliedCodes
+        );
+        dispatch({ type: "APPLY_PROMOTION", payload: promotion });
+        showToast(t("promotions.applied", { code: promotion.code }));
+        return true;
+      } catch (error) {
+        return reject(error instanceof PromotionError ? error.reason : "");
+      }
+    },
+    [state.cartItems, state.promotions, showToast, t]
+  );
+
+  const removePromotion = useCallback((code: string) => {
+    dispatch({ type: "REMOVE_PROMOTION", payload: code });
+  }, []);
+
+  const setTaxProfile = useCallback((profile: AylaTaxProfile) => {
+    dispatch({ type: "SET_TAX_PROFILE", payload: profile });
+  }, []);
+
+  // ==========================================================================
+  // ACCOUNT SYNC
+  // ==========================================================================
+
+  const replaceCart = useCallback((items: AylaCartItem[]) => {
+    dispatch({ type: "HYDRATE_CART", payload: items });
+  }, []);
+
+  const notifyCartMerge = useCallback(
+    (summary: CartMergeSummary) => {
+      const notes: string[] = [];
+      if (summary.added + summary.combined > 0) {
+        notes.push(t("merge.merged"));
+      }
+      if (summary.capped.length > 0) {
+        notes.push(t("merge.capped", { max: MAX_QUANTITY_PER_ITEM }));
+      }
+      if (summary.dropped.length > 0) {
+        notes.push(t("merge.dropped", { count: summary.dropped.length }));
+      }
+      if (notes.length === 0) return;
+
+      const hasAdjustments =
+        summary.capped.length > 0 || summary.dropped.length > 0;
+      showToast(notes.join(" "), hasAdjustments ? "warning" : "success");
+    },
+    [t, showToast]
+  );
+
+  useCartAccountSync({
+    enabled: persist,
+    cartItems: state.cartItems,
+    isCartHydrated: state.isCartHydrated,
+    catalog,
+    replaceCart,
+    clearCart,
+    onMerged: notifyCartMerge,
+  });
+
+  const notifyFavoritesMerge = useCallback(
+    (summary: FavoritesMergeSummary) => {
+      if (summary.added === 0) return;
+      showToast(tFavorites("merged", { count: summary.added }));
+    },
+    [tFavorites, showToast]
+  );
+
+  useFavoritesAccountSync({
+    enabled: persist,
+    onMerged: notifyFavoritesMerge,
+  });
+
+  // ==========================================================================
+  // RECENTLY VIEWED
+  // ==========================================================================
+
+  // Every product opened in the modal counts as a view
+  useEffect(() => {
+    if (state.selectedProduct) {
+      useStore.getState().recentlyViewed.recordView(state.selectedProduct.id);
+    }
+  }, [state.selectedProduct]);
+
   // ==========================================================================
   // DERIVED VALUES
   // ==========================================================================
 
-  const cartTotal = useMemo(() => {
-    return state.cartItems.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0
-    );
-  }, [state.cartItems]);
+  // Discontinued items cannot be purchased, so they are left out
+  const cartBreakdown = useMemo<AylaCartBreakdown>(
+    () =>
+      getCartBreakdown(
+        state.cartItems,
+        [...state.cartBundles, ...state.promotions],
+        state.taxProfile
+      ),
+    [state.cartItems, state.cartBundles, state.promotions, state.taxProfile]
+  );
+
+  const taxDisplay: AylaTaxDisplay = state.taxProfile.vatId ? "exclusive" : "inclusive";
 
   const cartItemCount = useMemo(() => {
     return state.cartItems.reduce((sum, item) => sum + item.quantity, 0);
@@ -249,16 +739,28 @@ export function AylaProvider({ children, initialCartItems }: AylaProviderProps)
       isCartOpen: state.isCartOpen,
       selectedProduct: state.selectedProduct,
       toast: state.toast,
+      isCartHydrated: state.isCartHydrated,
+      cartBundles: state.cartBundles,
+      bundleOffers: state.bundleOffers,
+      promotions: state.promotions,
+      taxProfile: state.taxProfile,
 
       // Derived
-      cartTotal,
+      cartBreakdown,
       cartItemCount,
+      taxDisplay,
 
       // Actions
       addToCart,
+      addBundleToCart,
+      removeBundleFromCart,
+      applyPromotion,
+      removePromotion,
+      setTaxProfile,
       removeFromCart,
       updateQuantity,
       clearCart,
+      acknowledgeCartIssues,
       openCart,
       closeCart,
       openProductModal,
@@ -271,12 +773,24 @@ export function AylaProvider({ children, initialCartItems }: AylaProviderProps)
       state.isCartOpen,
       state.selectedProduct,
       state.toast,
-      cartTotal,
+      state.isCartHydrated,
+      state.cartBundles,
+      state.bundleOffers,
+      state.promotions,
+      state.taxProfile,
+      cartBreakdown,
       cartItemCount,
+      taxDisplay,
       addToCart,
+      addBundleToCart,
+      removeBundleFromCart,
+      applyPromotion,
+      removePromotion,
+      setTaxProfile,
       removeFromCart,
       updateQuantity,
       clearCart,
+      acknowledgeCartIssues,
       openCart,
       closeCart,
       openProductModal,
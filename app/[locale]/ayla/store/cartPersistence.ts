@@ -0,0 +1,300 @@
+/**
+ * Cart Persistence - Persistencia y sincronización del carrito
+ *
+ * Maneja:
+ * - Guardado versionado en localStorage (con migraciones de schema)
+ * - Sincronización en vivo entre pestañas (BroadcastChannel + storage events)
+ * - Reconciliación contra el catálogo actual al rehidratar
+ *
+ * El formato persistido sigue el de zustand/persist: `{ state, version }`,
+ * para que las migraciones se escriban igual que en `store/index.ts`.
+ */
+
+import { findVariant, isVariantAvailable, toCartItem } from "@lib/catalog";
+import { logger } from "@lib/logger";
+import type { AylaCartItem, AylaProduct } from "@types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Clave de localStorage para el carrito */
+export const CART_STORAGE_KEY = "ayla-cart";
+
+/** Versión actual del schema persistido - incrementar al cambiar el formato */
+export const CART_STORAGE_VERSION = 1;
+
+/** Nombre del BroadcastChannel compartido entre pestañas */
+export const CART_CHANNEL_NAME = "ayla-cart";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Línea persistida: snapshot del producto en el momento de añadirlo.
+ * Se guarda el snapshot completo para poder mostrar productos descatalogados.
+ */
+export type PersistedCartLine = Omit<AylaCartItem, "issue" | "previousPrice">;
+
+/** Estado persistido del carrito */
+export interface PersistedCartState {
+  items: PersistedCartLine[];
+}
+
+/** Envoltorio versionado guardado en localStorage */
+export interface PersistedCart {
+  state: PersistedCartState;
+  version: number;
+  /** Timestamp ISO de la última escritura */
+  updatedAt: string;
+}
+
+/** Mensaje intercambiado entre pestañas */
+interface CartSyncMessage {
+  type: "cart:update";
+  /** ID de la pestaña que originó el cambio (para ignorar el eco) */
+  sourceId: string;
+  items: PersistedCartLine[];
+}
+
+/** Canal de sincronización entre pestañas */
+export interface CartSyncChannel {
+  /** Notifica a las demás pestañas del nuevo contenido del carrito */
+  publish: (items: PersistedCartLine[]) => void;
+  /** Libera listeners y cierra el canal */
+  close: () => void;
+}
+
+// =============================================================================
+// MIGRATIONS
+// =============================================================================
+
+/**
+ * Migra un estado persistido desde una versión anterior.
+ *
+ * Devuelve null si el estado no se puede interpretar (p.ej. viene de una
+ * versión futura de la app); en ese caso el carrito empieza vacío.
+ */
+export function migrateCart(
+  persistedState: unknown,
+  version: number
+): PersistedCartState | null {
+  if (version > CART_STORAGE_VERSION) {
+    return null;
+  }
+
+  const state = persistedState as Partial<PersistedCartState> | undefined;
+
+  if (!state || !Array.isArray(state.items)) {
+    return null;
+  }
+
+  return {
+    items: state.items.filter(isPersistedCartLine),
+  };
+}
+
+/**
+ * Valida la forma mínima de una línea persistida
+ */
+function isPersistedCartLine(line: unknown): line is PersistedCartLine {
+  if (!line || typeof line !== "object") return false;
+
+  const l = line as Record<string, unknown>;
+
+  return (
+    typeof l.id === "number" &&
+    typeof l.name === "string" &&
+    typeof l.price === "number" &&
+    typeof l.quantity === "number" &&
+    l.quantity > 0
+  );
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Convierte items del carrito a líneas persistibles (sin flags de reconciliación)
+ */
+export function toPersistedLines(items: AylaCartItem[]): PersistedCartLine[] {
+  return items.map((item) => {
+    const line: PersistedCartLine & Partial<AylaCartItem> = { ...item };
+    delete line.issue;
+    delete line.previousPrice;
+    // Si el precio cambió y aún no se ha aceptado, conservar el precio original
+    return item.previousPrice !== undefined
+      ? { ...line, price: item.previousPrice }
+      : line;
+  });
+}
+
+/**
+ * Lee y migra el carrito guardado en localStorage
+ *
+ * @returns Líneas persistidas, o un array vacío si no hay nada válido
+ */
+export function loadCart(): PersistedCartLine[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const raw = window.localStorage.getItem(CART_STORAGE_KEY);
+    if (!raw) return [];
+
+    return parsePersistedCart(raw);
+  } catch (error) {
+    logger.warn(
+      "Failed to read persisted cart, starting empty",
+      error instanceof Error ? error : undefined
+    );
+    return [];
+  }
+}
+
+/**
+ * Parsea el JSON guardado aplicando migraciones
+ */
+function parsePersistedCart(raw: string): PersistedCartLine[] {
+  const parsed = JSON.parse(raw) as Partial<PersistedCart>;
+  const version = typeof parsed.version === "number" ? parsed.version : 0;
+  const state = migrateCart(parsed.state, version);
+
+  return state?.items ?? [];
+}
+
+/**
+ * Guarda el carrito en localStorage con la versión actual
+ */
+export function saveCart(items: PersistedCartLine[]): void {
+  if (typeof window === "undefined") return;
+
+  const payload: PersistedCart = {
+    state: { items },
+    version: CART_STORAGE_VERSION,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    window.localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(payload));
+  } catch (error) {
+    // Quota excedida o modo privado: el carrito sigue funcionando en memoria
+    logger.warn(
+      "Failed to persist cart",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// =============================================================================
+// RECONCILIATION
+// =============================================================================
+
+/**
+ * Reconcilia las líneas persistidas contra el catálogo actual.
+ *
+ * - Producto o variante que ya no existe → se conserva el snapshot con
+ *   `issue: "discontinued"`
+ * - Precio distinto → se usa la variante actual con `issue: "price_changed"`
+ *   y `previousPrice` con el precio guardado
+ * - Resto → se refrescan los datos del producto desde el catálogo
+ *
+ * Las líneas guardadas sin variante (carritos anteriores a las variantes)
+ * pasan a la variante por defecto del producto.
+ *
+ * @example
+ * ```ts
+ * const items = reconcileCart(loadCart(), products);
+ * const flagged = items.filter((item) => item.issue);
+ * ```
+ */
+export function reconcileCart(
+  lines: PersistedCartLine[],
+  catalog: AylaProduct[]
+): AylaCartItem[] {
+  const catalogById = new Map(catalog.map((product) => [product.id, product]));
+
+  return lines.map((line) => {
+    const product = catalogById.get(line.id);
+
+    if (!product || !isVariantAvailable(product, line.variantId)) {
+      return { ...line, issue: "discontinued" };
+    }
+
+    const current = toCartItem(
+      product,
+      findVariant(product, line.variantId),
+      line.quantity
+    );
+
+    if (current.price !== line.price) {
+      return { ...current, issue: "price_changed", previousPrice: line.price };
+    }
+
+    return current;
+  });
+}
+
+// =============================================================================
+// CROSS-TAB SYNC
+// =============================================================================
+
+/**
+ * Crea el canal de sincronización entre pestañas.
+ *
+ * Usa BroadcastChannel cuando está disponible; si no, escucha el evento
+ * `storage` que el navegador emite en las demás pestañas tras `saveCart`.
+ *
+ * @param onRemoteUpdate - Llamado con las líneas publicadas por otra pestaña
+ */
+export function createCartSyncChannel(
+  onRemoteUpdate: (items: PersistedCartLine[]) => void
+): CartSyncChannel {
+  const sourceId = `tab-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  if (typeof window === "undefined") {
+    return { publish: () => undefined, close: () => undefined };
+  }
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CART_CHANNEL_NAME);
+
+    channel.onmessage = (event: MessageEvent<CartSyncMessage>) => {
+      const message = event.data;
+      if (message?.type !== "cart:update" || message.sourceId === sourceId) {
+        return;
+      }
+      onRemoteUpdate(migrateCart({ items: message.items }, CART_STORAGE_VERSION)?.items ?? []);
+    };
+
+    return {
+      publish: (items) => {
+        const message: CartSyncMessage = { type: "cart:update", sourceId, items };
+        channel.postMessage(message);
+      },
+      close: () => channel.close(),
+    };
+  }
+
+  // Fallback: el evento storage solo se dispara en las OTRAS pestañas
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CART_STORAGE_KEY) return;
+
+    try {
+      onRemoteUpdate(event.newValue ? parsePersistedCart(event.newValue) : []);
+    } catch (error) {
+      logger.warn(
+        "Ignoring malformed cart storage event",
+        error instanceof Error ? error : undefined
+      );
+    }
+  };
+
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    publish: () => undefined, // saveCart ya notifica vía storage event
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+}
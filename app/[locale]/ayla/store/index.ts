@@ -1,2 +1,5 @@
 export { AylaProvider, useAyla, type AylaProviderProps } from "./AylaContext";
 export { default } from "./AylaContext";
+export { toCartLines } from "./useCartAccountSync";
+export { useAddToCart } from "./useAddToCart";
+export { useToggleFavorite } from "./useToggleFavorite";
@@ -0,0 +1,35 @@
+/**
+ * useAddToCart - Añade un producto al carrito y lo confirma con un toast
+ *
+ * Sin variante se añade la variante por defecto (la más barata). El toast
+ * indica si la línea es nueva o si solo se ha aumentado la cantidad, con el
+ * nombre del producto en el idioma del visitante.
+ */
+
+import { useCallback } from "react";
+import { useProductLocalization } from "@hooks";
+import { getCartLineKey } from "@lib/cart";
+import { findVariant } from "@lib/catalog";
+import type { AylaProduct, AylaVariant } from "@types";
+import { useAyla } from "./AylaContext";
+
+export function useAddToCart(): (product: AylaProduct, variant?: AylaVariant) => void {
+  const { cartItems, addToCart, showToast } = useAyla();
+  const { localizeProduct } = useProductLocalization();
+
+  return useCallback(
+    (product: AylaProduct, variant?: AylaVariant) => {
+      const selected = variant ?? findVariant(product);
+      const key = getCartLineKey(product.id, selected?.id);
+      const existing = cartItems.some(
+        (item) => getCartLineKey(item.id, item.variantId) === key
+      );
+      const content = localizeProduct(product);
+      const variantName = selected && findVariant(content, selected.id)?.name;
+      const name = variantName ? `${content.name} (${variantName})` : content.name;
+      addToCart(product, selected?.id);
+      showToast(existing ? `${name} actualizado` : `${name} añadido`);
+    },
+    [cartItems, addToCart, showToast, localizeProduct]
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * useCartAccountSync - Sincroniza el carrito local con el de la cuenta
+ *
+ * - Al iniciar sesión (login, Google o registro) fusiona el carrito anónimo
+ *   con el guardado en `/api/cart` y reemplaza el local por el resultado
+ * - Con sesión activa, guarda cada cambio del carrito en el servidor
+ * - Al cargar con sesión ya iniciada, recupera el carrito de la cuenta
+ * - Al cerrar sesión, vacía el carrito local (sigue guardado en la cuenta)
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+import { useStore } from "@store";
+import { logger } from "@lib/logger";
+import { cartService } from "@lib/services/cart";
+import { findVariant, isVariantAvailable, toCartItem } from "@lib/catalog";
+import type { CartLine, CartMergeSummary } from "@lib/cart";
+import type { AylaCartItem, AylaProduct } from "@types";
+
+/** Espera antes de guardar cambios en el servidor (agrupa clics seguidos) */
+const SAVE_DEBOUNCE_MS = 400;
+
+// =============================================================================
+// CONVERSIONS
+// =============================================================================
+
+/**
+ * Convierte items del carrito a líneas de servidor (sin descatalogados)
+ */
+export function toCartLines(items: AylaCartItem[]): CartLine[] {
+  return items
+    .filter((item) => item.issue !== "discontinued")
+    .map((item) => ({
+      productId: item.id,
+      ...(item.variantId ? { variantId: item.variantId } : {}),
+      quantity: item.quantity,
+    }));
+}
+
+/**
+ * Resuelve líneas de servidor contra el catálogo (descarta las que ya no existen)
+ */
+export function fromCartLines(
+  lines: CartLine[],
+  catalog: AylaProduct[]
+): AylaCartItem[] {
+  const catalogById = new Map(catalog.map((product) => [product.id, product]));
+
+  return lines.flatMap((line) => {
+    const product = catalogById.get(line.productId);
+    if (!product || !isVariantAvailable(product, line.variantId)) return [];
+
+    return [toCartItem(product, findVariant(product, line.variantId), line.quantity)];
+  });
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+interface UseCartAccountSyncOptions {
+  /** Desactiva toda sincronización (p.ej. sin persistencia) */
+  enabled: boolean;
+  cartItems: AylaCartItem[];
+  isCartHydrated: boolean;
+  catalog: AylaProduct[];
+  /** Reemplaza el carrito local */
+  replaceCart: (items: AylaCartItem[]) => void;
+  /** Vacía el carrito local */
+  clearCart: () => void;
+  /** Informa al usuario del resultado de la fusión */
+  onMerged: (summary: CartMergeSummary) => void;
+}
+
+export function useCartAccountSync({
+  enabled,
+  cartItems,
+  isCartHydrated,
+  catalog,
+  replaceCart,
+  clearCart,
+  onMerged,
+}: UseCartAccountSyncOptions): void {
+  const cartItemsRef = useRef(cartItems);
+  const catalogRef = useRef(catalog);
+  const replaceCartRef = useRef(replaceCart);
+  const clearCartRef = useRef(clearCart);
+  const onMergedRef = useRef(onMerged);
+  // El servidor no se escribe hasta conocer el carrito de la cuenta
+  const isServerSyncedRef = useRef(false);
+  // Evita reenviar al servidor el carrito que acaba de devolver
+  const skipNextSaveRef = useRef(false);
+  const pendingMergeRef = useRef(false);
+
+  useEffect(() => {
+    cartItemsRef.current = cartItems;
+    catalogRef.current = catalog;
+    replaceCartRef.current = replaceCart;
+    clearCartRef.current = clearCart;
+    onMergedRef.current = onMerged;
+  }, [cartItems, catalog, replaceCart, clearCart, onMerged]);
+
+  const mergeAnonymousCart = useCallback(async () => {
+    try {
+      const { items, summary } = await cartService.merge(
+        toCartLines(cartItemsRef.current)
+      );
+
+      isServerSyncedRef.current = true;
+      skipNextSaveRef.current = true;
+      replaceCartRef.current(fromCartLines(items, catalogRef.current));
+      onMergedRef.current(summary);
+    } catch (error) {
+      logger.warn(
+        "Failed to merge cart with account",
+        error instanceof Error ? error : undefined
+      );
+    }
+  }, []);
+
+  // Recuperar el carrito de la cuenta si ya hay sesión al cargar
+  useEffect(() => {
+    if (!enabled || !isCartHydrated) return;
+
+    if (pendingMergeRef.current) {
+      pendingMergeRef.current = false;
+      void mergeAnonymousCart();
+      return;
+    }
+
+    if (!useStore.getState().auth.isAuthenticated) return;
+
+    let cancelled = false;
+
+    cartService
+      .get()
+      .then(({ items }) => {
+        if (cancelled) return;
+        isServerSyncedRef.current = true;
+        if (items.length > 0) {
+          skipNextSaveRef.current = true;
+          replaceCartRef.current(fromCartLines(items, catalogRef.current));
+        }
+      })
+      .catch((error: unknown) => {
+        logger.warn(
+          "Failed to load account cart",
+          error instanceof Error ? error : undefined
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, isCartHydrated, mergeAnonymousCart]);
+
+  // Fusionar al iniciar sesión y vaciar al cerrarla
+  useEffect(() => {
+    if (!enabled) return;
+
+    return useStore.subscribe(
+      (state) => state.auth.authMethod,
+      (authMethod, previousAuthMethod) => {
+        if (authMethod && !previousAuthMethod) {
+          if (isCartHydrated) {
+            void mergeAnonymousCart();
+          } else {
+            pendingMergeRef.current = true;
+          }
+        } else if (!authMethod && previousAuthMethod) {
+          isServerSyncedRef.current = false;
+          clearCartRef.current();
+        }
+      }
+    );
+  }, [enabled, isCartHydrated, mergeAnonymousCart]);
+
+  // Guardar cambios en la cuenta mientras haya sesión
+  useEffect(() => {
+    if (!enabled || !isCartHydrated || !isServerSyncedRef.current) return;
+
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      cartService.replace(toCartLines(cartItems)).catch((error: unknown) => {
+        logger.warn(
+          "Failed to save account cart",
+          error instanceof Error ? error : undefined
+        );
+      });
+    }, SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [enabled, isCartHydrated, cartItems]);
+}
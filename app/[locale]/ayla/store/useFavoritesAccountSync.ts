@@ -0,0 +1,133 @@
+/**
+ * useFavoritesAccountSync - Sincroniza los favoritos locales con los de la cuenta
+ *
+ * - Al iniciar sesión une los favoritos anónimos con los guardados en
+ *   `/api/favorites` y reemplaza los locales por el resultado
+ * - Con sesión activa, guarda cada cambio de favoritos en el servidor
+ * - Al cargar con sesión ya iniciada, recupera los favoritos de la cuenta
+ * - Al cerrar sesión, vacía los favoritos locales (siguen en la cuenta)
+ *
+ * Los favoritos viven en el store global (slice `favorites`), persistido en
+ * localStorage, así que no dependen del estado del AylaProvider.
+ */
+
+import { useEffect, useRef } from "react";
+import { useStore } from "@store";
+import { logger } from "@lib/logger";
+import { favoritesService } from "@lib/services/favorites";
+import type { FavoritesMergeSummary } from "@lib/favorites";
+
+/** Espera antes de guardar cambios en el servidor (agrupa clics seguidos) */
+const SAVE_DEBOUNCE_MS = 400;
+
+interface UseFavoritesAccountSyncOptions {
+  /** Desactiva toda sincronización (p.ej. sin persistencia) */
+  enabled: boolean;
+  /** Informa al usuario del resultado de la fusión */
+  onMerged: (summary: FavoritesMergeSummary) => void;
+}
+
+export function useFavoritesAccountSync({
+  enabled,
+  onMerged,
+}: UseFavoritesAccountSyncOptions): void {
+  const onMergedRef = useRef(onMerged);
+  // El servidor no se escribe hasta conocer los favoritos de la cuenta
+  const isServerSyncedRef = useRef(false);
+  // Evita reenviar al servidor la lista que acaba de devolver
+  const skipNextSaveRef = useRef(false);
+
+  useEffect(() => {
+    onMergedRef.current = onMerged;
+  }, [onMerged]);
+
+  // Recuperar los favoritos de la cuenta si ya hay sesión al cargar
+  useEffect(() => {
+    if (!enabled || !useStore.getState().auth.isAuthenticated) return;
+
+    let cancelled = false;
+
+    favoritesService
+      .get()
+      .then(({ productIds }) => {
+        if (cancelled) return;
+        isServerSyncedRef.current = true;
+        skipNextSaveRef.current = true;
+        useStore.getState().favorites.setFavorites(productIds);
+      })
+      .catch((error: unknown) => {
+        logger.warn(
+          "Failed to load account favorites",
+          error instanceof Error ? error : undefined
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  // Fusionar al iniciar sesión y vaciar al cerrarla
+  useEffect(() => {
+    if (!enabled) return;
+
+    return useStore.subscribe(
+      (state) => state.auth.authMethod,
+      (authMethod, previousAuthMethod) => {
+        if (authMethod && !previousAuthMethod) {
+          favoritesService
+            .merge(useStore.getState().favorites.productIds)
+            .then(({ productIds, summary }) => {
+              isServerSyncedRef.current = true;
+              skipNextSaveRef.current = true;
+              useStore.getState().favorites.setFavorites(productIds);
+              onMergedRef.current(summary);
+            })
+            .catch((error: unknown) => {
+              logger.warn(
+                "Failed to merge favorites with account",
+                error instanceof Error ? error : undefined
+              );
+            });
+        } else if (!authMethod && previousAuthMethod) {
+          isServerSyncedRef.current = false;
+          useStore.getState().favorites.clearFavorites();
+        }
+      }
+    );
+  }, [enabled]);
+
+  // Guardar cambios en la cuenta mientras haya sesión
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = useStore.subscribe(
+      (state) => state.favorites.productIds,
+      (productIds) => {
+        if (!isServerSyncedRef.current) return;
+
+        if (skipNextSaveRef.current) {
+          skipNextSaveRef.current = false;
+          return;
+        }
+
+        clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          favoritesService.replace(productIds).catch((error: unknown) => {
+            logger.warn(
+              "Failed to save account favorites",
+              error instanceof Error ? error : undefined
+            );
+          });
+        }, SAVE_DEBOUNCE_MS);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      clearTimeout(timeout);
+    };
+  }, [enabled]);
+}
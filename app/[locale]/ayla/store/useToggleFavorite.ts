@@ -0,0 +1,38 @@
+/**
+ * useToggleFavorite - Añade o quita un producto de favoritos con un toast
+ *
+ * Funciona sin sesión (los favoritos se guardan en el navegador); con
+ * sesión, `useFavoritesAccountSync` guarda el cambio en la cuenta.
+ */
+
+import { useCallback } from "react";
+import { useTranslations } from "next-intl";
+import { useProductLocalization } from "@hooks";
+import { MAX_FAVORITES } from "@lib/favorites";
+import { useFavoriteIds, useFavoritesActions } from "@store";
+import type { AylaProduct } from "@types";
+import { useAyla } from "./AylaContext";
+
+export function useToggleFavorite(): (product: AylaProduct) => void {
+  const t = useTranslations("Components.favorites");
+  const { showToast } = useAyla();
+  const favoriteIds = useFavoriteIds();
+  const { toggleFavorite } = useFavoritesActions();
+  const { localizeProduct } = useProductLocalization();
+
+  return useCallback(
+    (product: AylaProduct) => {
+      const wasFavorite = favoriteIds.includes(product.id);
+      const name = localizeProduct(product).name;
+
+      if (toggleFavorite(product.id)) {
+        showToast(t("added", { name }));
+      } else if (wasFavorite) {
+        showToast(t("removed", { name }));
+      } else {
+        showToast(t("limit", { max: MAX_FAVORITES }), "warning");
+      }
+    },
+    [t, favoriteIds, toggleFavorite, showToast, localizeProduct]
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+/**
+ * Checkout Content - Client Component
+ *
+ * Flujo en cuatro pasos sobre el carrito de AylaContext:
+ * 1. Cliente: email donde se entregan las descargas (o la cuenta activa)
+ * 2. Facturación: nombre, dirección y número de IVA (empresas)
+ * 3. Revisión del pedido
+ * 4. Pago con el proveedor configurado → /checkout/success
+ *
+ * Los importes se recalculan en el servidor; lo que se muestra aquí es
+ * solo informativo.
+ */
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Container from "@mui/material/Container";
+import Paper from "@mui/material/Paper";
+import Step from "@mui/material/Step";
+import StepLabel from "@mui/material/StepLabel";
+import Stepper from "@mui/material/Stepper";
+import Typography from "@mui/material/Typography";
+
+import { Link, useRouter } from "@/i18n/navigation";
+import { fontFamilies } from "@/app/ui/theme";
+import { toCartLines, useAyla } from "@/app/[locale]/ayla/store";
+import { useCurrentUser } from "@/store";
+import { CheckoutError, ErrorCode, PromotionError } from "@/errors";
+import { useLogger } from "@hooks";
+import { checkoutService } from "@lib/services/checkout";
+import type {
+  CheckoutBillingData,
+  CheckoutCustomerData,
+} from "@lib/validation/checkout";
+
+import {
+  BillingStep,
+  CustomerStep,
+  OrderSummary,
+  PaymentStep,
+  ReviewStep,
+} from "./components";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STEPS = ["customer", "billing", "review", "payment"] as const;
+
+type CheckoutStep = (typeof STEPS)[number];
+
+const EMPTY_BILLING: CheckoutBillingData = {
+  fullName: "",
+  addressLine1: "",
+  addressLine2: "",
+  city: "",
+  postalCode: "",
+  country: "ES",
+  vatId: "",
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function CheckoutContent() {
+  const t = useTranslations("Checkout");
+  const router = useRouter();
+  const log = useLogger("Checkout");
+  const user = useCurrentUser();
+  const {
+    cartItems,
+    cartBundles,
+    promotions,
+    cartBreakdown,
+    isCartHydrated,
+    setTaxProfile,
+    clearCart,
+  } = useAyla();
+
+  const [step, setStep] = useState<CheckoutStep>("customer");
+  const [customer, setCustomer] = useState<CheckoutCustomerData>({ email: "" });
+  const [billing, setBilling] = useState<CheckoutBillingData>({
+    ...EMPTY_BILLING,
+    fullName: user?.name ?? "",
+  });
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+
+  // Discontinued products stay in the cart but cannot be bought
+  const items = useMemo(
+    () => cartItems.filter((item) => item.issue !== "discontinued"),
+    [cartItems]
+  );
+  const skippedCount = cartItems.length - items.length;
+  // Same discounts the server applies when pricing the order
+  const appliedPromotions = useMemo(
+    () => promotions.filter((applied) => !applied.rejection),
+    [promotions]
+  );
+
+  // ---------------------------------------------------------------------------
+  // HANDLERS
+  // ---------------------------------------------------------------------------
+
+  const handlePay = async () => {
+    setIsProcessing(true);
+    setPaymentError(null);
+
+    try {
+      const result = await checkoutService.placeOrder({
+        customer,
+        billing,
+        items: toCartLines(items),
+        promotionCodes: appliedPromotions.map(({ promotion }) => promotion.code),
+      });
+
+      if (result.redirectUrl) {
+        window.location.href = result.redirectUrl;
+        return;
+      }
+
+      clearCart();
+      router.push({
+        pathname: "/checkout/success",
+        query: { ref: result.reference, key: result.accessKey },
+      });
+    } catch (error) {
+      log.error("Checkout failed", error);
+
+      const code = error instanceof CheckoutError ? error.code : undefined;
+      setPaymentError(
+        error instanceof PromotionError
+          ? t("payment.errors.promotion")
+          : code === ErrorCode.PAYMENT_DECLINED
+          ? t("payment.errors.declined")
+          : code === ErrorCode.PRODUCT_UNAVAILABLE
+            ? t("payment.errors.unavailable")
+            : t("payment.errors.failed")
+      );
+      setIsProcessing(false);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------------------
+
+  if (!isCartHydrated) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 12 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (items.length === 0 && !isProcessing) {
+    return (
+      <Container maxWidth="sm" sx={{ py: 12, textAlign: "center" }}>
+        <Typography
+          variant="h4"
+          component="h1"
+          sx={{ fontFamily: fontFamilies.heading, mb: 1 }}
+        >
+          {t("empty.title")}
+        </Typography>
+        <Typography color="text.secondary" sx={{ mb: 4 }}>
+          {t("empty.subtitle")}
+        </Typography>
+        <Button component={Link} href="/" variant="contained">
+          {t("backToShop")}
+        </Button>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 4, md: 8 } }}>
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "baseline",
+          justifyContent: "space-between",
+          mb: 4,
+        }}
+      >
+        <Typography
+          variant="h3"
+          component="h1"
+          sx={{ fontFamily: fontFamilies.heading }}
+        >
+          {t("title")}
+        </Typography>
+        <Button component={Link} href="/">
+          {t("backToShop")}
+        </Button>
+      </Box>
+
+      <Stepper activeStep={STEPS.indexOf(step)} alternativeLabel sx={{ mb: 4 }}>
+        {STEPS.map((key) => (
+          <Step key={key}>
+            <StepLabel>{t(`steps.${key}`)}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      <Box
+        sx={{
+          display: "grid",
+          gap: 4,
+          gridTemplateColumns: { xs: "1fr", md: "2fr 1fr" },
+          alignItems: "start",
+        }}
+      >
+        <Paper variant="outlined" sx={{ p: { xs: 2, sm: 4 } }}>
+          {step === "customer" && (
+            <CustomerStep
+              defaultValues={customer}
+              accountEmail={user?.email}
+              onSubmit={(data) => {
+                setCustomer(data);
+                setStep("billing");
+              }}
+            />
+          )}
+
+          {step === "billing" && (
+            <BillingStep
+              defaultValues={billing}
+              onBack={() => setStep("customer")}
+              onSubmit={(data) => {
+                setBilling(data);
+                // The summary shows the VAT of the billing country
+                setTaxProfile({ country: data.country, vatId: data.vatId || null });
+                setStep("review");
+              }}
+            />
+          )}
+
+          {step === "review" && (
+            <ReviewStep
+              customer={customer}
+              billing={billing}
+              items={items}
+              skippedCount={skippedCount}
+              onEditCustomer={() => setStep("customer")}
+              onEditBilling={() => setStep("billing")}
+              onBack={() => setStep("billing")}
+              onContinue={() => setStep("payment")}
+            />
+          )}
+
+          {step === "payment" && (
+            <PaymentStep
+              total={cartBreakdown.total}
+              isProcessing={isProcessing}
+              error={paymentError}
+              onBack={() => setStep("review")}
+              onPay={handlePay}
+            />
+          )}
+        </Paper>
+
+        <OrderSummary
+          items={items}
+          bundles={cartBundles}
+          promotions={appliedPromotions}
+          breakdown={cartBreakdown}
+        />
+      </Box>
+    </Container>
+  );
+}
+
+export default CheckoutContent;
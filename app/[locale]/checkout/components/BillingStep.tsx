@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import MenuItem from "@mui/material/MenuItem";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import { useFormValidation } from "@hooks";
+import {
+  CHECKOUT_COUNTRIES,
+  checkoutBillingSchema,
+  type CheckoutBillingData,
+} from "@lib/validation/checkout";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BillingStepProps {
+  defaultValues: CheckoutBillingData;
+  onSubmit: (data: CheckoutBillingData) => void;
+  onBack: () => void;
+}
+
+type TextFieldName = Exclude<keyof CheckoutBillingData, "country" | "vatId">;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const TEXT_FIELDS: { name: TextFieldName; autoComplete: string }[] = [
+  { name: "fullName", autoComplete: "name" },
+  { name: "addressLine1", autoComplete: "address-line1" },
+  { name: "addressLine2", autoComplete: "address-line2" },
+  { name: "city", autoComplete: "address-level2" },
+  { name: "postalCode", autoComplete: "postal-code" },
+];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * BillingStep - Billing name, address and optional VAT ID
+ *
+ * Businesses from other EU countries that enter their VAT ID are not
+ * charged VAT (reverse charge).
+ */
+export function BillingStep({ defaultValues, onSubmit, onBack }: BillingStepProps) {
+  const t = useTranslations("Checkout");
+  const locale = useLocale();
+  const [formData, setFormData] = useState<CheckoutBillingData>(defaultValues);
+  const { errors, validate, validateField, state } = useFormValidation(
+    checkoutBillingSchema
+  );
+
+  const countryNames = useMemo(
+    () => new Intl.DisplayNames([locale], { type: "region" }),
+    [locale]
+  );
+
+  const handleChange =
+    <K extends keyof CheckoutBillingData>(field: K) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value as CheckoutBillingData[K];
+      setFormData((prev) => ({ ...prev, [field]: value }));
+      if (state.isDirty) validateField(field, value);
+    };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validate(formData)) {
+      onSubmit(checkoutBillingSchema.parse(formData));
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate>
+      <Typography variant="h6" component="h2" sx={{ mb: 2 }}>
+        {t("billing.heading")}
+      </Typography>
+
+      <Box sx={{ display: "grid", gap: 2, mb: 3 }}>
+        {TEXT_FIELDS.map(({ name, autoComplete }) => (
+          <TextField
+            key={name}
+            fullWidth
+            autoComplete={autoComplete}
+            label={t(`billing.${name}`)}
+            value={formData[name] ?? ""}
+            onChange={handleChange(name)}
+            error={!!errors[name]}
+            helperText={errors[name]}
+          />
+        ))}
+
+        <TextField
+          select
+          fullWidth
+          autoComplete="country"
+          label={t("billing.country")}
+          value={formData.country}
+          onChange={handleChange("country")}
+          error={!!errors.country}
+          helperText={errors.country}
+        >
+          {CHECKOUT_COUNTRIES.map((code) => (
+            <MenuItem key={code} value={code}>
+              {countryNames.of(code) ?? code}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <TextField
+          fullWidth
+          autoComplete="off"
+          label={t("billing.vatId")}
+          value={formData.vatId ?? ""}
+          onChange={handleChange("vatId")}
+          error={!!errors.vatId}
+          helperText={errors.vatId ?? t("billing.vatIdHelp")}
+        />
+      </Box>
+
+      <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+        <Button onClick={onBack}>{t("actions.back")}</Button>
+        <Button type="submit" variant="contained">
+          {t("actions.continue")}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+export default BillingStep;
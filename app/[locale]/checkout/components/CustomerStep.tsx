@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import { useFormValidation } from "@hooks";
+import {
+  checkoutCustomerSchema,
+  type CheckoutCustomerData,
+} from "@lib/validation/checkout";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CustomerStepProps {
+  defaultValues: CheckoutCustomerData;
+  /** Email of the signed-in account (locks the field) */
+  accountEmail?: string;
+  onSubmit: (data: CheckoutCustomerData) => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * CustomerStep - Contact email where downloads are delivered
+ */
+export function CustomerStep({
+  defaultValues,
+  accountEmail,
+  onSubmit,
+}: CustomerStepProps) {
+  const t = useTranslations("Checkout");
+  const [formData, setFormData] = useState<CheckoutCustomerData>(
+    accountEmail ? { email: accountEmail } : defaultValues
+  );
+  const { errors, validate, validateField, state } = useFormValidation(
+    checkoutCustomerSchema
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validate(formData)) {
+      onSubmit(checkoutCustomerSchema.parse(formData));
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate>
+      <Typography variant="h6" component="h2" sx={{ mb: 2 }}>
+        {t("customer.heading")}
+      </Typography>
+
+      {accountEmail ? (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          {t("customer.signedInAs", { email: accountEmail })}
+        </Alert>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t("customer.guestNote")}
+          </Typography>
+          <TextField
+            fullWidth
+            type="email"
+            autoComplete="email"
+            label={t("customer.email")}
+            value={formData.email}
+            onChange={(e) => {
+              const email = e.target.value;
+              setFormData({ email });
+              if (state.isDirty) validateField("email", email);
+            }}
+            error={!!errors.email}
+            helperText={errors.email}
+            sx={{ mb: 3 }}
+          />
+        </>
+      )}
+
+      <Box sx={{ display: "flex", justifyContent: "flex-end" }}>
+        <Button type="submit" variant="contained">
+          {t("actions.continue")}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+export default CustomerStep;
@@ -0,0 +1,148 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Paper from "@mui/material/Paper";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import { useApiError } from "@hooks";
+import type { DownloadItem } from "@lib/downloads";
+import { downloadService } from "@lib/services/download";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OrderDownloadsProps {
+  /** Order reference from the confirmation URL */
+  reference: string;
+  /** Order access key from the confirmation URL */
+  accessKey: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * OrderDownloads - Signed download links of an order, reachable without an account
+ */
+export function OrderDownloads({ reference, accessKey }: OrderDownloadsProps) {
+  const t = useTranslations("Checkout.success.downloads");
+  const tCommon = useTranslations("Common");
+  const { setError, clearError, hasError } = useApiError({
+    componentName: "OrderDownloads",
+  });
+
+  const [items, setItems] = useState<DownloadItem[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadDownloads = useCallback(async () => {
+    setIsLoading(true);
+    clearError();
+
+    try {
+      const data = await downloadService.listForOrder(reference, accessKey);
+      setItems(data.items);
+    } catch (error) {
+      setError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reference, accessKey, setError, clearError]);
+
+  useEffect(() => {
+    void loadDownloads();
+  }, [loadDownloads]);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (hasError) {
+    return (
+      <Alert
+        severity="error"
+        sx={{ mb: 4, textAlign: "left" }}
+        action={
+          <Button color="inherit" size="small" onClick={() => void loadDownloads()}>
+            {tCommon("retry")}
+          </Button>
+        }
+      >
+        {t("loadError")}
+      </Alert>
+    );
+  }
+
+  // Sin grants el pago aún no se ha confirmado (p.ej. webhook pendiente)
+  if (!items || items.length === 0) {
+    return (
+      <Alert
+        severity="info"
+        sx={{ mb: 4, textAlign: "left" }}
+        action={
+          <Button color="inherit" size="small" onClick={() => void loadDownloads()}>
+            {t("refresh")}
+          </Button>
+        }
+      >
+        {t("pending")}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ mb: 4, textAlign: "left" }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 1 }}>
+        {t("title")}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t("keepLink")}
+      </Typography>
+      <Stack component="ul" spacing={1} sx={{ listStyle: "none", p: 0, m: 0 }}>
+        {items.map((item) => (
+          <Paper
+            key={item.token}
+            component="li"
+            variant="outlined"
+            sx={{
+              p: 2,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: 2,
+            }}
+          >
+            <Box>
+              <Typography>{item.productName}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t("remaining", {
+                  remaining: item.downloadsRemaining,
+                  limit: item.downloadLimit,
+                })}
+              </Typography>
+            </Box>
+            <Button
+              variant="contained"
+              href={item.link?.url ?? ""}
+              disabled={!item.link || item.downloadsRemaining <= 0}
+            >
+              {t("download")}
+            </Button>
+          </Paper>
+        ))}
+      </Stack>
+    </Box>
+  );
+}
+
+export default OrderDownloads;
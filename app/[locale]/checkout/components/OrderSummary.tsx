@@ -0,0 +1,180 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Divider from "@mui/material/Divider";
+import Paper from "@mui/material/Paper";
+import Typography from "@mui/material/Typography";
+import { Price } from "@atoms";
+import { fontFamilies } from "@/app/ui/theme";
+import { getCartLineKey } from "@lib/cart";
+import { fromMajorUnits, multiplyMoney, subtractMoney } from "@lib/money";
+import type {
+  AylaAppliedPromotion,
+  AylaCartBreakdown,
+  AylaCartBundle,
+  AylaCartItem,
+} from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OrderSummaryProps {
+  /** Purchasable cart items */
+  items: AylaCartItem[];
+  /** Bundles completed by the items */
+  bundles?: AylaCartBundle[];
+  /** Promotion codes that apply to the items */
+  promotions?: AylaAppliedPromotion[];
+  /** Cart amounts */
+  breakdown: AylaCartBreakdown;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * OrderSummary - Sticky sidebar with the items being purchased
+ *
+ * Amounts are shown in the store currency, the one the order is charged in.
+ * With reverse charge the VAT included in the prices is deducted.
+ */
+export function OrderSummary({
+  items,
+  bundles = [],
+  promotions = [],
+  breakdown,
+}: OrderSummaryProps) {
+  const t = useTranslations("Checkout");
+
+  return (
+    <Paper variant="outlined" sx={{ p: 3, position: { md: "sticky" }, top: 24 }}>
+      <Typography
+        variant="h6"
+        component="h2"
+        sx={{ fontFamily: fontFamilies.heading, mb: 2 }}
+      >
+        {t("summary.title")}
+      </Typography>
+
+      <Box component="ul" sx={{ listStyle: "none", p: 0, m: 0 }}>
+        {items.map((item) => (
+          <Box
+            component="li"
+            key={getCartLineKey(item.id, item.variantId)}
+            sx={{ display: "flex", justifyContent: "space-between", gap: 2, mb: 1.5 }}
+          >
+            <Box>
+              <Typography variant="body2" fontWeight={600}>
+                {item.name}
+                {item.variantName && ` · ${item.variantName}`}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {t("summary.quantity", { quantity: item.quantity })}
+              </Typography>
+            </Box>
+            <Price
+              value={multiplyMoney(fromMajorUnits(item.price), item.quantity)}
+              convert={false}
+              variant="body2"
+              sx={{ fontFamily: fontFamilies.mono }}
+            />
+          </Box>
+        ))}
+      </Box>
+
+      <Divider sx={{ my: 2 }} />
+
+      <Box sx={{ display: "flex", justifyContent: "space-between", mb: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          {t("summary.subtotal")}
+        </Typography>
+        <Price
+          value={breakdown.subtotal}
+          convert={false}
+          variant="body2"
+          sx={{ fontFamily: fontFamilies.mono }}
+        />
+      </Box>
+      {bundles.map(({ bundle, count, discount: bundleDiscount }) => (
+        <Box
+          key={bundle.id}
+          sx={{ display: "flex", justifyContent: "space-between", mb: 1 }}
+        >
+          <Typography variant="body2" color="success.main">
+            {t("summary.bundle", { name: bundle.name, count })}
+          </Typography>
+          <Price
+            value={fromMajorUnits(bundleDiscount)}
+            negative
+            convert={false}
+            variant="body2"
+            color="success.main"
+            sx={{ fontFamily: fontFamilies.mono }}
+          />
+        </Box>
+      ))}
+      {promotions.map(({ promotion, discount }) => (
+        <Box
+          key={promotion.code}
+          sx={{ display: "flex", justifyContent: "space-between", mb: 1 }}
+        >
+          <Typography variant="body2" color="success.main">
+            {t("summary.promotion", { code: promotion.code })}
+          </Typography>
+          <Price
+            value={fromMajorUnits(discount)}
+            negative
+            convert={false}
+            variant="body2"
+            color="success.main"
+            sx={{ fontFamily: fontFamilies.mono }}
+          />
+        </Box>
+      ))}
+      {breakdown.taxTreatment === "reverse_charge" && (
+        <Box sx={{ display: "flex", justifyContent: "space-between", mb: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {t("summary.reverseCharge")}
+          </Typography>
+          <Price
+            value={subtractMoney(
+              subtractMoney(breakdown.subtotal, breakdown.discount),
+              breakdown.total
+            )}
+            negative
+            convert={false}
+            variant="body2"
+            sx={{ fontFamily: fontFamilies.mono }}
+          />
+        </Box>
+      )}
+      <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+        <Typography variant="subtitle1" fontWeight={700}>
+          {t("summary.total")}
+        </Typography>
+        <Price
+          value={breakdown.total}
+          convert={false}
+          variant="subtitle1"
+          fontWeight={700}
+          sx={{ fontFamily: fontFamilies.mono }}
+        />
+      </Box>
+      <Typography variant="caption" color="text.secondary">
+        {breakdown.taxTreatment === "standard" ? (
+          <>
+            {t("summary.tax", { rate: breakdown.taxRate })}{" "}
+            <Price value={breakdown.tax} convert={false} />
+          </>
+        ) : (
+          t(`summary.taxTreatment.${breakdown.taxTreatment}`)
+        )}
+      </Typography>
+    </Paper>
+  );
+}
+
+export default OrderSummary;
@@ -0,0 +1,83 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import Typography from "@mui/material/Typography";
+import { usePriceFormatter } from "@hooks";
+import type { Money } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PaymentStepProps {
+  /** Amount to charge, in the store currency */
+  total: Money;
+  isProcessing: boolean;
+  /** Translated error from the last attempt */
+  error: string | null;
+  onPay: () => void;
+  onBack: () => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * PaymentStep - Hands the order to the configured payment provider
+ *
+ * In development the fake provider completes the payment immediately;
+ * hosted providers return a redirect URL handled by the parent.
+ */
+export function PaymentStep({
+  total,
+  isProcessing,
+  error,
+  onPay,
+  onBack,
+}: PaymentStepProps) {
+  const t = useTranslations("Checkout");
+  const { format } = usePriceFormatter();
+
+  return (
+    <Box>
+      <Typography variant="h6" component="h2" sx={{ mb: 2 }}>
+        {t("payment.heading")}
+      </Typography>
+
+      {process.env.NODE_ENV !== "production" && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t("payment.fakeNotice")}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} role="alert">
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: "flex", justifyContent: "space-between", mt: 3 }}>
+        <Button onClick={onBack} disabled={isProcessing}>
+          {t("actions.back")}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={onPay}
+          disabled={isProcessing}
+          startIcon={isProcessing ? <CircularProgress size={16} /> : undefined}
+        >
+          {isProcessing
+            ? t("payment.processing")
+            : t("payment.pay", { amount: format(total, { convert: false }) })}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+export default PaymentStep;
@@ -0,0 +1,136 @@
+"use client";
+
+import { useLocale, useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Typography from "@mui/material/Typography";
+import type {
+  CheckoutBillingData,
+  CheckoutCustomerData,
+} from "@lib/validation/checkout";
+import { getCartLineKey } from "@lib/cart";
+import type { AylaCartItem } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ReviewStepProps {
+  customer: CheckoutCustomerData;
+  billing: CheckoutBillingData;
+  items: AylaCartItem[];
+  /** Cart lines left out of the order (discontinued products) */
+  skippedCount: number;
+  onEditCustomer: () => void;
+  onEditBilling: () => void;
+  onContinue: () => void;
+  onBack: () => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ReviewStep - Read-only recap of contact, billing and items
+ */
+export function ReviewStep({
+  customer,
+  billing,
+  items,
+  skippedCount,
+  onEditCustomer,
+  onEditBilling,
+  onContinue,
+  onBack,
+}: ReviewStepProps) {
+  const t = useTranslations("Checkout");
+  const locale = useLocale();
+  const countryName =
+    new Intl.DisplayNames([locale], { type: "region" }).of(billing.country) ??
+    billing.country;
+
+  return (
+    <Box>
+      <Typography variant="h6" component="h2" sx={{ mb: 2 }}>
+        {t("review.heading")}
+      </Typography>
+
+      {skippedCount > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t("review.skipped", { count: skippedCount })}
+        </Alert>
+      )}
+
+      <ReviewSection title={t("review.contact")} editLabel={t("actions.edit")} onEdit={onEditCustomer}>
+        <Typography variant="body2">{customer.email}</Typography>
+      </ReviewSection>
+
+      <ReviewSection
+        title={t("review.billingAddress")}
+        editLabel={t("actions.edit")}
+        onEdit={onEditBilling}
+      >
+        <Typography variant="body2">{billing.fullName}</Typography>
+        <Typography variant="body2">{billing.addressLine1}</Typography>
+        {billing.addressLine2 && (
+          <Typography variant="body2">{billing.addressLine2}</Typography>
+        )}
+        <Typography variant="body2">
+          {billing.postalCode} {billing.city}, {countryName}
+        </Typography>
+        {billing.vatId && (
+          <Typography variant="body2">
+            {t("review.vatId", { vatId: billing.vatId })}
+          </Typography>
+        )}
+      </ReviewSection>
+
+      <ReviewSection title={t("review.items")}>
+        {items.map((item) => (
+          <Typography key={getCartLineKey(item.id, item.variantId)} variant="body2">
+            {item.quantity} × {item.name}
+            {item.variantName && ` · ${item.variantName}`}
+          </Typography>
+        ))}
+      </ReviewSection>
+
+      <Box sx={{ display: "flex", justifyContent: "space-between", mt: 3 }}>
+        <Button onClick={onBack}>{t("actions.back")}</Button>
+        <Button variant="contained" onClick={onContinue}>
+          {t("actions.continue")}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+// =============================================================================
+// SUBCOMPONENTS
+// =============================================================================
+
+interface ReviewSectionProps {
+  title: string;
+  editLabel?: string;
+  onEdit?: () => void;
+  children: React.ReactNode;
+}
+
+function ReviewSection({ title, editLabel, onEdit, children }: ReviewSectionProps) {
+  return (
+    <Box sx={{ py: 2, borderBottom: 1, borderColor: "divider" }}>
+      <Box sx={{ display: "flex", justifyContent: "space-between", mb: 1 }}>
+        <Typography variant="subtitle2">{title}</Typography>
+        {onEdit && (
+          <Button size="small" onClick={onEdit}>
+            {editLabel}
+          </Button>
+        )}
+      </Box>
+      {children}
+    </Box>
+  );
+}
+
+export default ReviewStep;
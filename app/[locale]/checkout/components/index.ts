@@ -0,0 +1,10 @@
+/**
+ * Barrel export de los pasos y componentes del checkout
+ */
+
+export { CustomerStep, type CustomerStepProps } from "./CustomerStep";
+export { BillingStep, type BillingStepProps } from "./BillingStep";
+export { ReviewStep, type ReviewStepProps } from "./ReviewStep";
+export { PaymentStep, type PaymentStepProps } from "./PaymentStep";
+export { OrderSummary, type OrderSummaryProps } from "./OrderSummary";
+export { OrderDownloads, type OrderDownloadsProps } from "./OrderDownloads";
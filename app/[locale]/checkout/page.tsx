@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { CheckoutContent } from "./CheckoutContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Checkout" });
+
+  return {
+    title: t("metadata.title"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Checkout Page - Server Component
+ *
+ * El carrito vive en el cliente (AylaContext), así que todo el flujo
+ * se delega a CheckoutContent.
+ */
+export default async function CheckoutPage({ params }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  return <CheckoutContent />;
+}
@@ -0,0 +1,65 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import Button from "@mui/material/Button";
+import Container from "@mui/material/Container";
+import Typography from "@mui/material/Typography";
+import { getPathname } from "@/i18n/navigation";
+import { fontFamilies } from "@/app/ui/theme";
+import { OrderDownloads } from "../components";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ ref?: string; key?: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Checkout" });
+
+  return {
+    title: t("metadata.successTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Checkout Success Page - Server Component
+ *
+ * Confirmación tras un pago completado. La referencia llega en `?ref=` y la
+ * clave de acceso del pedido en `?key=`: con ambas se listan los enlaces de
+ * descarga, también en compras como invitado.
+ */
+export default async function CheckoutSuccessPage({
+  params,
+  searchParams,
+}: Props) {
+  const { locale } = await params;
+  const { ref, key } = await searchParams;
+  setRequestLocale(locale);
+
+  const t = await getTranslations("Checkout");
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 12, textAlign: "center" }}>
+      <Typography
+        variant="h3"
+        component="h1"
+        sx={{ fontFamily: fontFamilies.heading, mb: 2 }}
+      >
+        {t("success.title")}
+      </Typography>
+      <Typography color="text.secondary" sx={{ mb: 1 }}>
+        {t("success.subtitle")}
+      </Typography>
+      {ref && (
+        <Typography sx={{ fontFamily: fontFamilies.mono, mb: 4 }}>
+          {t("success.reference", { reference: ref })}
+        </Typography>
+      )}
+      {ref && key && <OrderDownloads reference={ref} accessKey={key} />}
+      <Button href={getPathname({ href: "/", locale })} variant="contained">
+        {t("success.continue")}
+      </Button>
+    </Container>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+/**
+ * Forbidden Content - Client Component
+ *
+ * Página 403: la cuenta no tiene permisos para la ruta. Permite ir a la
+ * cuenta del cliente o cerrar sesión y entrar con otra cuenta, volviendo
+ * después a la ruta original (la URL no cambia con el rewrite del
+ * middleware).
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Typography from "@mui/material/Typography";
+
+import { Link, usePathname, useRouter } from "@/i18n/navigation";
+import { getAuthHref } from "@lib/auth";
+import { LOGIN_REDIRECT } from "@/middleware/config";
+import { useAuthActions, useCurrentUser } from "@/store";
+
+import { AuthCard } from "../auth/components";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function ForbiddenContent() {
+  const t = useTranslations("Auth");
+  const router = useRouter();
+  const pathname = usePathname();
+  const user = useCurrentUser();
+  const { logout } = useAuthActions();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const switchAccount = async () => {
+    setIsSwitching(true);
+    try {
+      await logout();
+    } finally {
+      router.push(getAuthHref(LOGIN_REDIRECT, pathname));
+    }
+  };
+
+  return (
+    <AuthCard title={t("forbiddenPage.title")} subtitle={t("forbiddenPage.subtitle")}>
+      {user && (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: "center", mb: 3 }}>
+          {t("forbiddenPage.signedInAs", { email: user.email })}
+        </Typography>
+      )}
+
+      <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+        <Button component={Link} href="/account/orders" variant="contained" fullWidth>
+          {t("forbiddenPage.account")}
+        </Button>
+        <Button variant="outlined" fullWidth onClick={switchAccount} disabled={isSwitching}>
+          {t("forbiddenPage.switchAccount")}
+        </Button>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default ForbiddenContent;
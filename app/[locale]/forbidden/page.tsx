@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { ForbiddenContent } from "./ForbiddenContent";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Auth" });
+
+  return {
+    title: t("metadata.forbiddenTitle"),
+    robots: { index: false },
+  };
+}
+
+/**
+ * Forbidden Page - Server Component
+ *
+ * El middleware hace un rewrite aquí (status 403, sin cambiar la URL)
+ * cuando la sesión no tiene el rol que exige la ruta (ROLE_ROUTES).
+ */
+export default async function ForbiddenPage({ params }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  return <ForbiddenContent />;
+}
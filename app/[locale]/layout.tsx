@@ -9,6 +9,7 @@ import {
   Nunito_Sans,
 } from "next/font/google";
 import { notFound } from "next/navigation";
+import { getCatalogRepository } from "@lib/catalog/server";
 import "../globals.css";
 import { Providers } from "../providers";
 
@@ -69,8 +70,12 @@ export default async function LocaleLayout({ children, params }: Props) {
   // Habilitar static rendering
   setRequestLocale(locale);
 
-  // Cargar mensajes para el locale
-  const messages = await getMessages();
+  // Cargar mensajes para el locale y el catálogo con el que se concilia el
+  // carrito (el mismo repositorio que usan las páginas y el checkout)
+  const [messages, catalog] = await Promise.all([
+    getMessages(),
+    getCatalogRepository().list(),
+  ]);
 
   return (
     <html lang={locale} suppressHydrationWarning>
@@ -84,7 +89,7 @@ export default async function LocaleLayout({ children, params }: Props) {
         }}
       >
         <NextIntlClientProvider messages={messages}>
-          <Providers>{children}</Providers>
+          <Providers catalog={catalog}>{children}</Providers>
         </NextIntlClientProvider>
       </body>
     </html>
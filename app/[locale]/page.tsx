@@ -1,11 +1,24 @@
+import { getCatalogRepository } from "@lib/catalog/server";
+import { loadProductRatings } from "@lib/reviews/server";
 import { HomeContent } from "./HomeContent";
 
+/** Product ratings are refreshed every 5 minutes */
+export const revalidate = 300;
+
 /**
  * Home Page - Server Component
  *
  * Landing page for Ayla Designs.
- * Server-rendered wrapper that delegates to HomeContent client component.
+ * Loads the catalog from the configured repository and delegates
+ * rendering to the HomeContent client component.
  */
-export default function Home() {
-  return <HomeContent />;
+export default async function Home() {
+  const repository = getCatalogRepository();
+  const [products, reviews, ratings] = await Promise.all([
+    repository.list(),
+    repository.listReviews(),
+    loadProductRatings(),
+  ]);
+
+  return <HomeContent products={products} reviews={reviews} ratings={ratings} />;
 }
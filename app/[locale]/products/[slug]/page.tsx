@@ -0,0 +1,53 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getMessages, setRequestLocale } from "next-intl/server";
+import { localizeProduct, type ProductTranslations } from "@lib/catalog";
+import { getCatalogRepository } from "@lib/catalog/server";
+import { listProductReviews } from "@lib/reviews/server";
+import { ProductDetailView } from "../components";
+
+/** Las reseñas y valoraciones se regeneran cada 5 minutos */
+export const revalidate = 300;
+
+type Props = {
+  params: Promise<{ locale: string; slug: string }>;
+};
+
+export async function generateStaticParams() {
+  const products = await getCatalogRepository().list();
+  return products.map(({ slug }) => ({ slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const found = await getCatalogRepository().getBySlug(slug);
+  if (!found) return {};
+
+  const messages = await getMessages({ locale });
+  const product = localizeProduct(found, messages.Products as ProductTranslations);
+
+  return {
+    title: `${product.name} · Ayla Designs`,
+    description: product.description,
+  };
+}
+
+/**
+ * Product Page - Server Component
+ *
+ * Ficha de un producto del catálogo con su primera página de reseñas
+ * aprobadas; 404 si el slug no existe.
+ */
+export default async function ProductPage({ params }: Props) {
+  const { locale, slug } = await params;
+  setRequestLocale(locale);
+
+  const product = await getCatalogRepository().getBySlug(slug);
+  if (!product) {
+    notFound();
+  }
+
+  const reviews = await listProductReviews(product.id);
+
+  return <ProductDetailView product={product} reviews={reviews} />;
+}
@@ -0,0 +1,71 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import {
+  applyCatalogFilters,
+  getCatalogCategories,
+  parseCatalogFilters,
+  type CatalogSearchParams,
+} from "@lib/catalog";
+import { getCatalogRepository, listLocalizedProducts } from "@lib/catalog/server";
+import { loadProductRatings } from "@lib/reviews/server";
+import { CatalogListing } from "../../components";
+
+type Props = {
+  params: Promise<{ locale: string; category: string }>;
+  searchParams: Promise<CatalogSearchParams>;
+};
+
+export async function generateStaticParams() {
+  const products = await getCatalogRepository().list();
+  return getCatalogCategories(products).map(({ slug }) => ({ category: slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, category: slug } = await params;
+  const products = await getCatalogRepository().list();
+  const category = getCatalogCategories(products).find((item) => item.slug === slug);
+  if (!category) return {};
+
+  const t = await getTranslations({ locale, namespace: "Catalog" });
+
+  return {
+    title: t("metadata.categoryTitle", { category: category.name }),
+    description: t("metadata.categoryDescription", { category: category.name }),
+  };
+}
+
+/**
+ * Category Page - Server Component
+ *
+ * Productos de una categoría, con la búsqueda, el precio, el orden y la
+ * página de la URL; 404 si el slug no corresponde a ninguna categoría.
+ */
+export default async function CategoryPage({ params, searchParams }: Props) {
+  const { locale, category: slug } = await params;
+  setRequestLocale(locale);
+
+  const [products, ratings] = await Promise.all([
+    listLocalizedProducts(locale),
+    loadProductRatings(),
+  ]);
+  const categories = getCatalogCategories(products);
+  const category = categories.find((item) => item.slug === slug);
+  if (!category) {
+    notFound();
+  }
+
+  // La categoría la fija la ruta, no el parámetro `categories`
+  const filters = { ...parseCatalogFilters(await searchParams), categories: [] };
+
+  return (
+    <CatalogListing
+      title={category.name}
+      catalog={applyCatalogFilters(products, { ...filters, categories: [slug] }, { locale })}
+      filters={filters}
+      ratings={ratings}
+      categories={categories}
+      activeCategory={slug}
+    />
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useTransition } from "react";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Chip from "@mui/material/Chip";
+import Container from "@mui/material/Container";
+import MenuItem from "@mui/material/MenuItem";
+import Pagination from "@mui/material/Pagination";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import { useTranslations } from "next-intl";
+import { CategoryChips } from "@molecules/CategoryChips";
+import { SectionHeader } from "@molecules/SectionHeader";
+import { ProductCard } from "@organisms/ProductCard";
+import { useAddToCart, useToggleFavorite } from "@/app/[locale]/ayla/store";
+import { usePathname, useRouter } from "@/i18n/navigation";
+import { usePriceFormatter } from "@hooks";
+import {
+  getCatalogHref,
+  hasActiveFilters,
+  PRODUCT_SEARCH_SORTS,
+  type CatalogCategory,
+  type CatalogFilters,
+  type CatalogPage,
+  type ProductSearchSort,
+} from "@lib/catalog";
+import { fromMajorUnits } from "@lib/money";
+import { useFavoriteIds, useSearchActions } from "@/store";
+import type { AylaProductRatings } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CatalogListingProps {
+  /** Page heading (the category name on category pages) */
+  title: string;
+  subtitle?: string;
+  /** Filtered page of products, with the facets of every result */
+  catalog: CatalogPage;
+  /** Filters read from the URL by the page */
+  filters: CatalogFilters;
+  /** Aggregate rating by product ID */
+  ratings?: AylaProductRatings;
+  /** Every category of the catalog, for the category navigation */
+  categories: CatalogCategory[];
+  /** Slug of the category being listed (undefined for the full catalog) */
+  activeCategory?: string;
+}
+
+/** Key of the "all products" chip */
+const ALL_CATEGORIES = "all";
+
+/** Values of the price select that are not a facet range */
+const ANY_PRICE = "any";
+const CUSTOM_PRICE = "custom";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * CatalogListing - Filterable, sortable and paginated product grid
+ *
+ * Every control writes the filters to the URL (see `@lib/catalog/filters`),
+ * so the page is rendered again on the server and back/forward restores
+ * the previous filters. On the full catalog the category chips toggle the
+ * `categories` param; on category pages they open the other category.
+ */
+export function CatalogListing({
+  title,
+  subtitle,
+  catalog,
+  filters,
+  ratings = {},
+  categories,
+  activeCategory,
+}: CatalogListingProps) {
+  const t = useTranslations("Catalog");
+  const router = useRouter();
+  const pathname = usePathname();
+  const addToCart = useAddToCart();
+  const favoriteIds = useFavoriteIds();
+  const toggleFavorite = useToggleFavorite();
+  const { format } = usePriceFormatter();
+  const { setQuery } = useSearchActions();
+  const [isPending, startTransition] = useTransition();
+
+  // El buscador del Navbar muestra la búsqueda de la URL (también al volver atrás)
+  useEffect(() => {
+    setQuery(filters.query);
+  }, [filters.query, setQuery]);
+
+  const navigate = (changes: Partial<CatalogFilters>, path = pathname) => {
+    startTransition(() => {
+      router.push(getCatalogHref(path, { ...filters, page: 1, ...changes }), {
+        scroll: changes.page !== undefined,
+      });
+    });
+  };
+
+  const handleSelectCategory = (key: string) => {
+    if (activeCategory) {
+      navigate(
+        { categories: [] },
+        key === ALL_CATEGORIES ? "/products" : `/products/category/${key}`
+      );
+      return;
+    }
+    if (key === ALL_CATEGORIES) {
+      navigate({ categories: [] });
+      return;
+    }
+    navigate({
+      categories: filters.categories.includes(key)
+        ? filters.categories.filter((slug) => slug !== key)
+        : [...filters.categories, key],
+    });
+  };
+
+  const selectedCategories = activeCategory ? [activeCategory] : filters.categories;
+  const facetCounts = new Map(catalog.facets.categories.map(({ slug, count }) => [slug, count]));
+
+  const formatPrice = (amount: number) => format(fromMajorUnits(amount));
+  const rangeLabel = (min: number, max: number | null) => {
+    if (min === 0 && max !== null) return t("filters.priceRanges.under", { max: formatPrice(max) });
+    if (max === null) return t("filters.priceRanges.over", { min: formatPrice(min) });
+    return t("filters.priceRanges.between", { min: formatPrice(min), max: formatPrice(max) });
+  };
+
+  const hasPrice = filters.minPrice !== undefined || filters.maxPrice !== undefined;
+  const selectedRange = !hasPrice
+    ? ANY_PRICE
+    : (catalog.facets.priceRanges.find(
+        ({ min, max }) => filters.minPrice === min && filters.maxPrice === (max ?? undefined)
+      )?.key ?? CUSTOM_PRICE);
+
+  const handleSelectPrice = (key: string) => {
+    const range = catalog.facets.priceRanges.find((item) => item.key === key);
+    navigate({ minPrice: range?.min, maxPrice: range?.max ?? undefined });
+  };
+
+  return (
+    <Box component="section" sx={{ py: { xs: 6, md: 10 } }}>
+      <Container maxWidth="lg">
+        <SectionHeader title={title} subtitle={subtitle} size="lg" align="center" />
+
+        <Box sx={{ mt: 4 }}>
+          <CategoryChips
+            categories={[
+              { key: ALL_CATEGORIES, label: t("listing.allCategories") },
+              ...categories.map(({ slug, name }) => ({
+                key: slug,
+                label: `${name} (${facetCounts.get(slug) ?? 0})`,
+              })),
+            ]}
+            selected={selectedCategories.length ? selectedCategories : ALL_CATEGORIES}
+            multiple={!activeCategory}
+            onSelect={handleSelectCategory}
+          />
+        </Box>
+
+        {/* Filters */}
+        <Box
+          role="group"
+          aria-label={t("filters.label")}
+          sx={{
+            mt: 4,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: 2,
+            flexWrap: "wrap",
+          }}
+        >
+          {filters.query && (
+            <Chip
+              label={t("filters.query", { query: filters.query })}
+              onDelete={() => navigate({ query: "" })}
+              disabled={isPending}
+            />
+          )}
+          <TextField
+            select
+            size="small"
+            label={t("filters.price")}
+            value={selectedRange}
+            onChange={(e) => handleSelectPrice(e.target.value)}
+            disabled={isPending}
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value={ANY_PRICE}>{t("filters.priceRanges.any")}</MenuItem>
+            {selectedRange === CUSTOM_PRICE && (
+              <MenuItem value={CUSTOM_PRICE}>
+                {rangeLabel(filters.minPrice ?? 0, filters.maxPrice ?? null)}
+              </MenuItem>
+            )}
+            {catalog.facets.priceRanges.map(({ key, min, max, count }) => (
+              <MenuItem key={key} value={key} disabled={count === 0}>
+                {`${rangeLabel(min, max)} (${count})`}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label={t("filters.sort.label")}
+            value={filters.sort}
+            onChange={(e) => navigate({ sort: e.target.value as ProductSearchSort })}
+            disabled={isPending}
+            sx={{ minWidth: 220 }}
+          >
+            {PRODUCT_SEARCH_SORTS.map((option) => (
+              <MenuItem key={option} value={option}>
+                {t(`filters.sort.${option}`)}
+              </MenuItem>
+            ))}
+          </TextField>
+          {hasActiveFilters(filters) && (
+            <Button
+              size="small"
+              disabled={isPending}
+              onClick={() =>
+                navigate({ query: "", categories: [], minPrice: undefined, maxPrice: undefined })
+              }
+            >
+              {t("filters.clear")}
+            </Button>
+          )}
+        </Box>
+
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          role="status"
+          sx={{ mt: 4, textAlign: "center" }}
+        >
+          {filters.query
+            ? t("listing.resultsFor", { count: catalog.total, query: filters.query })
+            : t("listing.count", { count: catalog.total })}
+        </Typography>
+
+        {catalog.total === 0 ? (
+          <Typography color="text.secondary" sx={{ mt: 4, textAlign: "center" }}>
+            {t("listing.empty")}
+          </Typography>
+        ) : (
+          <Box
+            aria-busy={isPending}
+            sx={{
+              mt: 4,
+              display: "grid",
+              gridTemplateColumns: {
+                xs: "1fr",
+                sm: "repeat(2, 1fr)",
+                lg: "repeat(3, 1fr)",
+              },
+              gap: 4,
+              opacity: isPending ? 0.6 : 1,
+              transition: "opacity 0.2s ease",
+            }}
+          >
+            {catalog.items.map((product, index) => (
+              <ProductCard
+                key={product.id}
+                product={product}
+                rating={ratings[product.id]}
+                onAddToCart={addToCart}
+                onViewProduct={({ slug }) => router.push(`/products/${slug}`)}
+                isFavorite={favoriteIds.includes(product.id)}
+                onToggleFavorite={toggleFavorite}
+                index={index}
+              />
+            ))}
+          </Box>
+        )}
+
+        {catalog.totalPages > 1 && (
+          <Pagination
+            count={catalog.totalPages}
+            page={catalog.page}
+            onChange={(_, page) => navigate({ page })}
+            disabled={isPending}
+            aria-label={t("filters.pagination")}
+            sx={{ mt: 6, display: "flex", justifyContent: "center" }}
+          />
+        )}
+      </Container>
+    </Box>
+  );
+}
+
+export default CatalogListing;
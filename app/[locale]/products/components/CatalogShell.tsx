@@ -0,0 +1,135 @@
+"use client";
+
+import type { ReactNode } from "react";
+import ShoppingCartIcon from "@mui/icons-material/ShoppingCart";
+import Badge from "@mui/material/Badge";
+import Box from "@mui/material/Box";
+import IconButton from "@mui/material/IconButton";
+import { useTranslations } from "next-intl";
+import { Toast } from "@atoms/Toast";
+import { Cart } from "@organisms/Cart";
+import { Footer } from "@organisms/Footer";
+import { Navbar } from "@organisms/Navbar";
+import { useAyla } from "@/app/[locale]/ayla/store";
+import { useProductSearch } from "@hooks/useProductSearch";
+import { useRouter } from "@/i18n/navigation";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CatalogShellProps {
+  children: ReactNode;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * CatalogShell - Navbar, cart drawer, toast and footer of the catalog pages
+ *
+ * Shared by the listing, category and product pages through the
+ * /products layout, so the cart keeps working while browsing.
+ */
+export function CatalogShell({ children }: CatalogShellProps) {
+  const t = useTranslations("Catalog");
+  const router = useRouter();
+  const searchProps = useProductSearch();
+  const {
+    cartItems,
+    cartItemCount,
+    isCartOpen,
+    toast,
+    updateQuantity,
+    removeFromCart,
+    acknowledgeCartIssues,
+    cartBundles,
+    bundleOffers,
+    addBundleToCart,
+    removeBundleFromCart,
+    promotions,
+    cartBreakdown,
+    taxDisplay,
+    applyPromotion,
+    removePromotion,
+    openCart,
+    closeCart,
+  } = useAyla();
+
+  const goToCheckout = () => {
+    closeCart();
+    router.push("/checkout");
+  };
+
+  return (
+    <Box sx={{ minHeight: "100vh", bgcolor: "background.default" }}>
+      <Navbar
+        brandProps={{
+          logoProps: { variant: "short", size: "md" },
+          showTagline: false,
+          href: "/",
+        }}
+        links={[
+          { label: t("nav.home"), href: "/" },
+          { label: t("nav.catalog"), href: "/products" },
+        ]}
+        variant="elevated"
+        position="sticky"
+        searchProps={searchProps}
+        actionsProps={{
+          showThemeToggle: true,
+          showCurrencySelector: true,
+          children: (
+            <IconButton
+              onClick={openCart}
+              size="small"
+              aria-label={t("nav.cart")}
+              sx={{
+                color: "text.primary",
+                "&:hover": {
+                  bgcolor: "action.hover",
+                },
+              }}
+            >
+              <Badge badgeContent={cartItemCount} color="primary">
+                <ShoppingCartIcon />
+              </Badge>
+            </IconButton>
+          ),
+        }}
+      />
+
+      <Box component="main">{children}</Box>
+
+      <Footer />
+
+      <Cart
+        items={cartItems}
+        isOpen={isCartOpen}
+        onClose={closeCart}
+        onUpdateQuantity={updateQuantity}
+        onRemove={removeFromCart}
+        onAcknowledgeIssues={acknowledgeCartIssues}
+        bundles={cartBundles}
+        bundleOffers={bundleOffers}
+        onAddBundle={addBundleToCart}
+        onRemoveBundle={removeBundleFromCart}
+        promotions={promotions}
+        breakdown={cartBreakdown}
+        taxDisplay={taxDisplay}
+        onApplyPromotion={applyPromotion}
+        onRemovePromotion={removePromotion}
+        onCheckout={goToCheckout}
+      />
+
+      <Toast
+        message={toast.message}
+        isVisible={toast.visible}
+        variant={toast.variant}
+      />
+    </Box>
+  );
+}
+
+export default CatalogShell;
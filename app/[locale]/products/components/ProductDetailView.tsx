@@ -0,0 +1,93 @@
+"use client";
+
+import Box from "@mui/material/Box";
+import Breadcrumbs from "@mui/material/Breadcrumbs";
+import Container from "@mui/material/Container";
+import MuiLink from "@mui/material/Link";
+import Paper from "@mui/material/Paper";
+import Typography from "@mui/material/Typography";
+import { useTranslations } from "next-intl";
+import { useProductLocalization } from "@hooks";
+import { ProductDetails } from "@organisms/ProductDetails";
+import { ProductGallery } from "@organisms/ProductGallery";
+import { useAddToCart } from "@/app/[locale]/ayla/store";
+import { Link } from "@/i18n/navigation";
+import { getCategorySlug } from "@lib/catalog";
+import type { ReviewPage } from "@lib/reviews";
+import type { AylaProduct } from "@types";
+import { ProductReviews } from "./ProductReviews";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProductDetailViewProps {
+  product: AylaProduct;
+  /** First page of approved reviews with the aggregate rating */
+  reviews: ReviewPage;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ProductDetailView - Product page: breadcrumb, ProductGallery, ProductDetails
+ * and ProductReviews
+ */
+export function ProductDetailView({ product, reviews }: ProductDetailViewProps) {
+  const t = useTranslations("Catalog");
+  const addToCart = useAddToCart();
+  const { localizeProduct } = useProductLocalization();
+
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 4, md: 8 } }}>
+      <Breadcrumbs aria-label={t("product.breadcrumb")} sx={{ mb: 3 }}>
+        <MuiLink component={Link} href="/products" underline="hover" color="inherit">
+          {t("nav.catalog")}
+        </MuiLink>
+        <MuiLink
+          component={Link}
+          href={`/products/category/${getCategorySlug(product.category)}`}
+          underline="hover"
+          color="inherit"
+        >
+          {product.category}
+        </MuiLink>
+        <Typography color="text.primary">{localizeProduct(product).name}</Typography>
+      </Breadcrumbs>
+
+      <Paper
+        variant="outlined"
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", md: "1fr 1fr" },
+          borderRadius: 6,
+          overflow: "hidden",
+        }}
+      >
+        <Box sx={{ pb: 2 }}>
+          <ProductGallery
+            key={product.id}
+            product={product}
+            aspectRatio={{ xs: "4 / 3", md: "4 / 5" }}
+            sizes="(min-width: 1200px) 576px, (min-width: 900px) 50vw, 100vw"
+            priority
+          />
+        </Box>
+        <Box sx={{ p: { xs: 3, md: 5 }, display: "flex", flexDirection: "column" }}>
+          <ProductDetails
+            product={product}
+            rating={reviews.summary}
+            titleComponent="h1"
+            onAddToCart={addToCart}
+          />
+        </Box>
+      </Paper>
+
+      <ProductReviews key={product.id} productId={product.id} initialPage={reviews} />
+    </Container>
+  );
+}
+
+export default ProductDetailView;
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { useFormatter, useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Chip from "@mui/material/Chip";
+import Divider from "@mui/material/Divider";
+import LinearProgress from "@mui/material/LinearProgress";
+import MenuItem from "@mui/material/MenuItem";
+import Pagination from "@mui/material/Pagination";
+import Paper from "@mui/material/Paper";
+import Stack from "@mui/material/Stack";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import VerifiedIcon from "@mui/icons-material/Verified";
+import { RatingStars } from "@atoms";
+import { fontFamilies } from "@/app/ui/theme";
+import type { ReviewPage } from "@lib/reviews";
+import { reviewService } from "@lib/services/review";
+import type { AylaRatingValue, AylaReviewSort } from "@types";
+import { ReviewForm } from "./ReviewForm";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProductReviewsProps {
+  productId: number;
+  /** First page of approved reviews, rendered on the server */
+  initialPage: ReviewPage;
+}
+
+const SORT_OPTIONS: AylaReviewSort[] = ["newest", "oldest", "highest", "lowest"];
+
+const STARS: AylaRatingValue[] = [5, 4, 3, 2, 1];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ProductReviews - Aggregate rating, sortable and paginated approved reviews
+ * and the review form of the product page
+ */
+export function ProductReviews({ productId, initialPage }: ProductReviewsProps) {
+  const t = useTranslations("Catalog.reviews");
+  const format = useFormatter();
+  const [data, setData] = useState(initialPage);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const { summary } = data;
+
+  const loadPage = async (page: number, sort: AylaReviewSort) => {
+    setIsLoading(true);
+    setLoadError(false);
+    try {
+      setData(await reviewService.list(productId, { page, sort, pageSize: data.pageSize }));
+    } catch {
+      setLoadError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Box component="section" aria-labelledby="product-reviews-title" sx={{ mt: { xs: 6, md: 8 } }}>
+      <Typography
+        id="product-reviews-title"
+        variant="h4"
+        component="h2"
+        sx={{ fontFamily: fontFamilies.heading, mb: 3 }}
+      >
+        {t("title")}
+      </Typography>
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", md: "280px 1fr" },
+          gap: { xs: 4, md: 6 },
+          alignItems: "start",
+        }}
+      >
+        {/* Aggregate rating */}
+        <Paper variant="outlined" sx={{ p: 3, borderRadius: 4 }}>
+          <Typography sx={{ fontFamily: fontFamilies.heading, fontSize: "3rem", lineHeight: 1 }}>
+            {format.number(summary.average, {
+              minimumFractionDigits: 1,
+              maximumFractionDigits: 1,
+            })}
+          </Typography>
+          <RatingStars value={summary.average} size="medium" className="mt-2" />
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1, mb: 2 }}>
+            {t("summary", { count: summary.count })}
+          </Typography>
+
+          <Stack spacing={1}>
+            {STARS.map((stars) => {
+              const count = summary.distribution[stars];
+              return (
+                <Box
+                  key={stars}
+                  sx={{ display: "flex", alignItems: "center", gap: 1.5 }}
+                  aria-label={t("distribution", { stars, count })}
+                >
+                  <Typography variant="body2" sx={{ width: 16 }} aria-hidden>
+                    {stars}
+                  </Typography>
+                  <LinearProgress
+                    variant="determinate"
+                    value={summary.count ? (count / summary.count) * 100 : 0}
+                    sx={{ flex: 1, height: 8, borderRadius: 4 }}
+                    aria-hidden
+                  />
+                  <Typography variant="body2" color="text.secondary" sx={{ width: 24 }} aria-hidden>
+                    {count}
+                  </Typography>
+                </Box>
+              );
+            })}
+          </Stack>
+
+          {!isFormOpen && (
+            <Button
+              fullWidth
+              variant="outlined"
+              onClick={() => {
+                setIsFormOpen(true);
+                setSubmitted(false);
+              }}
+              sx={{ mt: 3 }}
+            >
+              {t("form.open")}
+            </Button>
+          )}
+        </Paper>
+
+        <Box>
+          {submitted && (
+            <Alert severity="success" sx={{ mb: 3 }}>
+              {t("form.success")}
+            </Alert>
+          )}
+
+          {isFormOpen && (
+            <Paper variant="outlined" sx={{ p: 3, mb: 4, borderRadius: 4 }}>
+              <ReviewForm
+                productId={productId}
+                onCancel={() => setIsFormOpen(false)}
+                onSubmitted={() => {
+                  setIsFormOpen(false);
+                  setSubmitted(true);
+                }}
+              />
+            </Paper>
+          )}
+
+          {data.total > 0 && (
+            <TextField
+              select
+              size="small"
+              label={t("sort.label")}
+              value={data.sort}
+              onChange={(e) => void loadPage(1, e.target.value as AylaReviewSort)}
+              disabled={isLoading}
+              sx={{ minWidth: 200, mb: 2 }}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <MenuItem key={option} value={option}>
+                  {t(`sort.${option}`)}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+
+          {loadError && (
+            <Alert
+              severity="error"
+              sx={{ mb: 2 }}
+              action={
+                <Button color="inherit" size="small" onClick={() => void loadPage(data.page, data.sort)}>
+                  {t("retry")}
+                </Button>
+              }
+            >
+              {t("loadError")}
+            </Alert>
+          )}
+
+          {data.total === 0 ? (
+            <Typography color="text.secondary">{t("empty")}</Typography>
+          ) : (
+            <Stack
+              divider={<Divider flexItem />}
+              spacing={3}
+              aria-busy={isLoading}
+              sx={{ opacity: isLoading ? 0.6 : 1, transition: "opacity 0.2s ease" }}
+            >
+              {data.items.map((review) => (
+                <Box component="article" key={review.id}>
+                  <Box sx={{ display: "flex", alignItems: "center", gap: 1.5, flexWrap: "wrap" }}>
+                    <RatingStars value={review.rating} />
+                    <Typography component="h3" sx={{ fontWeight: 600 }}>
+                      {review.title}
+                    </Typography>
+                  </Box>
+                  <Box
+                    sx={{ display: "flex", alignItems: "center", gap: 1, mt: 0.5, flexWrap: "wrap" }}
+                  >
+                    <Typography variant="body2" color="text.secondary">
+                      {review.authorName} ·{" "}
+                      {format.dateTime(new Date(review.createdAt), { dateStyle: "long" })}
+                    </Typography>
+                    {review.verifiedPurchase && (
+                      <Chip
+                        icon={<VerifiedIcon />}
+                        label={t("verified")}
+                        size="small"
+                        color="success"
+                        variant="outlined"
+                      />
+                    )}
+                  </Box>
+                  <Typography sx={{ mt: 1, whiteSpace: "pre-line" }}>{review.text}</Typography>
+                </Box>
+              ))}
+            </Stack>
+          )}
+
+          {data.totalPages > 1 && (
+            <Pagination
+              count={data.totalPages}
+              page={data.page}
+              onChange={(_, page) => void loadPage(page, data.sort)}
+              disabled={isLoading}
+              aria-label={t("pagination")}
+              sx={{ mt: 4, display: "flex", justifyContent: "center" }}
+            />
+          )}
+        </Box>
+      </Box>
+    </Box>
+  );
+}
+
+export default ProductReviews;
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import FormHelperText from "@mui/material/FormHelperText";
+import Rating from "@mui/material/Rating";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import { ReviewError } from "@/errors";
+import { useFormValidation } from "@hooks";
+import { reviewService } from "@lib/services/review";
+import { reviewFormSchema, type ReviewFormData } from "@lib/validation/review";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ReviewFormProps {
+  productId: number;
+  /** Called after the review is stored (pending moderation) */
+  onSubmitted?: () => void;
+  onCancel?: () => void;
+}
+
+/** Motivos de error con mensaje propio en Catalog.reviews.errors */
+const KNOWN_ERRORS = [
+  "unauthenticated",
+  "not_purchased",
+  "already_reviewed",
+  "product_not_found",
+] as const;
+
+const EMPTY_FORM: ReviewFormData = { authorName: "", rating: 0, title: "", text: "" };
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ReviewForm - Rating and text of a review, validated with reviewFormSchema
+ *
+ * The review is stored pending moderation; the server rejects it when the
+ * visitor is not signed in or has not bought the product.
+ */
+export function ReviewForm({ productId, onSubmitted, onCancel }: ReviewFormProps) {
+  const t = useTranslations("Catalog.reviews");
+  const [formData, setFormData] = useState<ReviewFormData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const { errors, validate, validateField, state } = useFormValidation(reviewFormSchema);
+
+  const updateField = <K extends keyof ReviewFormData>(field: K, value: ReviewFormData[K]) => {
+    setFormData((current) => ({ ...current, [field]: value }));
+    if (state.isDirty) validateField(field, value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate(formData)) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await reviewService.submit({ productId, ...reviewFormSchema.parse(formData) });
+      setFormData(EMPTY_FORM);
+      onSubmitted?.();
+    } catch (error) {
+      const reason = error instanceof ReviewError ? error.reason : undefined;
+      const known = KNOWN_ERRORS.find((candidate) => candidate === reason);
+      setSubmitError(t(`errors.${known ?? "unknown"}`));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate>
+      <Typography variant="h6" component="h3" sx={{ mb: 1 }}>
+        {t("form.heading")}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t("form.note")}
+      </Typography>
+
+      {submitError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {submitError}
+        </Alert>
+      )}
+
+      <Box sx={{ mb: 2 }}>
+        <Typography component="legend" variant="body2" sx={{ mb: 0.5 }}>
+          {t("form.rating")}
+        </Typography>
+        <Rating
+          name="rating"
+          value={formData.rating || null}
+          onChange={(_, value) => updateField("rating", value ?? 0)}
+        />
+        {errors.rating && <FormHelperText error>{errors.rating}</FormHelperText>}
+      </Box>
+
+      <TextField
+        fullWidth
+        autoComplete="nickname"
+        label={t("form.authorName")}
+        value={formData.authorName}
+        onChange={(e) => updateField("authorName", e.target.value)}
+        error={!!errors.authorName}
+        helperText={errors.authorName}
+        sx={{ mb: 2 }}
+      />
+      <TextField
+        fullWidth
+        label={t("form.reviewTitle")}
+        value={formData.title}
+        onChange={(e) => updateField("title", e.target.value)}
+        error={!!errors.title}
+        helperText={errors.title}
+        sx={{ mb: 2 }}
+      />
+      <TextField
+        fullWidth
+        multiline
+        minRows={4}
+        label={t("form.text")}
+        value={formData.text}
+        onChange={(e) => updateField("text", e.target.value)}
+        error={!!errors.text}
+        helperText={errors.text}
+        sx={{ mb: 3 }}
+      />
+
+      <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 1 }}>
+        {onCancel && (
+          <Button onClick={onCancel} disabled={isSubmitting}>
+            {t("form.cancel")}
+          </Button>
+        )}
+        <Button type="submit" variant="contained" disabled={isSubmitting}>
+          {isSubmitting ? t("form.submitting") : t("form.submit")}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+export default ReviewForm;
@@ -0,0 +1,9 @@
+/**
+ * Barrel export de los componentes del catálogo
+ */
+
+export { CatalogShell, type CatalogShellProps } from "./CatalogShell";
+export { CatalogListing, type CatalogListingProps } from "./CatalogListing";
+export { ProductDetailView, type ProductDetailViewProps } from "./ProductDetailView";
+export { ProductReviews, type ProductReviewsProps } from "./ProductReviews";
+export { ReviewForm, type ReviewFormProps } from "./ReviewForm";
@@ -0,0 +1,16 @@
+import type { ReactNode } from "react";
+import { CatalogShell } from "./components";
+
+type Props = {
+  children: ReactNode;
+};
+
+/**
+ * Catalog Layout
+ *
+ * Navbar, carrito y footer compartidos por el listado, las categorías y
+ * las fichas de producto.
+ */
+export default function CatalogLayout({ children }: Props) {
+  return <CatalogShell>{children}</CatalogShell>;
+}
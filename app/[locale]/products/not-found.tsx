@@ -0,0 +1,35 @@
+"use client";
+
+import Button from "@mui/material/Button";
+import Container from "@mui/material/Container";
+import Typography from "@mui/material/Typography";
+import { useTranslations } from "next-intl";
+import { fontFamilies } from "@/app/ui/theme";
+import { Link } from "@/i18n/navigation";
+
+/**
+ * Catalog Not Found
+ *
+ * Producto o categoría inexistente (notFound() en /products/**).
+ */
+export default function CatalogNotFound() {
+  const t = useTranslations("Catalog");
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 12, textAlign: "center" }}>
+      <Typography
+        variant="h4"
+        component="h1"
+        sx={{ fontFamily: fontFamilies.heading, mb: 1 }}
+      >
+        {t("notFound.title")}
+      </Typography>
+      <Typography color="text.secondary" sx={{ mb: 4 }}>
+        {t("notFound.subtitle")}
+      </Typography>
+      <Button component={Link} href="/products" variant="contained">
+        {t("notFound.backToCatalog")}
+      </Button>
+    </Container>
+  );
+}
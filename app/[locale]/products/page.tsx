@@ -0,0 +1,56 @@
+import type { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import {
+  applyCatalogFilters,
+  getCatalogCategories,
+  parseCatalogFilters,
+  type CatalogSearchParams,
+} from "@lib/catalog";
+import { listLocalizedProducts } from "@lib/catalog/server";
+import { loadProductRatings } from "@lib/reviews/server";
+import { CatalogListing } from "./components";
+
+type Props = {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<CatalogSearchParams>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Catalog" });
+
+  return {
+    title: t("metadata.title"),
+    description: t("metadata.description"),
+  };
+}
+
+/**
+ * Products Page - Server Component
+ *
+ * Catálogo completo con la búsqueda, las categorías, el rango de precio, el
+ * orden y la página de la URL (`/products?q=&categories=&sort=&page=`), así
+ * que cada listado filtrado se puede compartir y se renderiza en el servidor.
+ * Las tarjetas enlazan a /products/[slug].
+ */
+export default async function ProductsPage({ params, searchParams }: Props) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const t = await getTranslations({ locale, namespace: "Catalog" });
+  const filters = parseCatalogFilters(await searchParams);
+  const [products, ratings] = await Promise.all([
+    listLocalizedProducts(locale),
+    loadProductRatings(),
+  ]);
+
+  return (
+    <CatalogListing
+      title={t("listing.title")}
+      subtitle={t("listing.subtitle")}
+      catalog={applyCatalogFilters(products, filters, { locale })}
+      filters={filters}
+      ratings={ratings}
+      categories={getCatalogCategories(products)}
+    />
+  );
+}
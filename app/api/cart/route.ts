@@ -0,0 +1,142 @@
+/**
+ * API Route del carrito del usuario autenticado
+ *
+ * GET    /api/cart  → Carrito guardado
+ * PUT    /api/cart  → Reemplaza el carrito.    Body: { items: CartLine[] }
+ * PATCH  /api/cart  → Fusiona líneas (suma cantidades, limita por línea,
+ *                     descarta productos o variantes no disponibles). Body: { items: CartLine[] }
+ * DELETE /api/cart  → Vacía el carrito
+ *
+ * Responde 401 si la petición no trae sesión.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@lib/auth/server/session";
+import { isVariantAvailable } from "@lib/catalog";
+import { getCatalogRepository } from "@lib/catalog/server";
+import { getCartRepository } from "@lib/cart/server/repository";
+import {
+  mergeCartLines,
+  normalizeCartLines,
+  type MergeCartOptions,
+} from "@lib/cart";
+import { cartUpdateSchema } from "@lib/validation/cart";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  try {
+    const cart = await getCartRepository().get(ownerId);
+
+    return NextResponse.json({
+      items: cart?.items ?? [],
+      updatedAt: cart?.updatedAt ?? null,
+    });
+  } catch (error) {
+    return serverError("Failed to read cart", error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  const parsed = cartUpdateSchema.safeParse(await readJson(request));
+  if (!parsed.success) return invalidRequest(parsed.error.issues[0]?.message);
+
+  try {
+    const items = normalizeCartLines(parsed.data.items, await loadMergeOptions());
+    const cart = await getCartRepository().save(ownerId, items);
+
+    return NextResponse.json(cart);
+  } catch (error) {
+    return serverError("Failed to save cart", error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  const parsed = cartUpdateSchema.safeParse(await readJson(request));
+  if (!parsed.success) return invalidRequest(parsed.error.issues[0]?.message);
+
+  try {
+    const repository = getCartRepository();
+    const [stored, mergeOptions] = await Promise.all([
+      repository.get(ownerId),
+      loadMergeOptions(),
+    ]);
+    const { items, summary } = mergeCartLines(
+      parsed.data.items,
+      stored?.items ?? [],
+      mergeOptions
+    );
+    const cart = await repository.save(ownerId, items);
+
+    return NextResponse.json({ ...cart, summary });
+  } catch (error) {
+    return serverError("Failed to merge cart", error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  try {
+    await getCartRepository().delete(ownerId);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return serverError("Failed to clear cart", error);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Disponibilidad según el catálogo configurado (el mismo que muestran las
+ * páginas y con el que se cobra el checkout)
+ */
+async function loadMergeOptions(): Promise<MergeCartOptions> {
+  const products = await getCatalogRepository().list();
+  const productsById = new Map(products.map((product) => [product.id, product]));
+
+  return {
+    isAvailable: (productId, variantId) => {
+      const product = productsById.get(productId);
+      return !!product && isVariantAvailable(product, variantId);
+    },
+  };
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: "Authentication required" },
+    { status: 401 }
+  );
+}
+
+function invalidRequest(message = "Invalid request") {
+  return NextResponse.json({ success: false, error: message }, { status: 400 });
+}
+
+function serverError(message: string, error: unknown) {
+  logger.error(message, error instanceof Error ? error : undefined);
+  return NextResponse.json({ success: false, error: message }, { status: 500 });
+}
@@ -0,0 +1,191 @@
+/**
+ * API Route de checkout
+ *
+ * POST /api/checkout
+ * Body: CheckoutRequest ({ customer, billing, items, promotionCodes? })
+ *
+ * Valora el carrito con los precios del catálogo (packs y códigos
+ * promocionales incluidos), registra el pedido como
+ * "pending", abre una sesión en el proveedor de pagos configurado y, si no
+ * requiere redirección, la cobra. Los pagos con redirección se confirman
+ * después vía /api/webhooks/payments/[provider]. Los códigos promocionales
+ * se canjean al confirmarse el pago, no al registrar el pedido.
+ *
+ * Respuestas:
+ * - 200 CheckoutResponse (pago completado o redirección pendiente)
+ * - 400 datos inválidos
+ * - 402 pago rechazado
+ * - 409 productos que ya no están disponibles
+ * - 422 código promocional no aplicable ({ code, reason })
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createOrderReference,
+  priceCartLines,
+  type CheckoutResponse,
+} from "@lib/checkout";
+import { getCatalogRepository } from "@lib/catalog/server";
+import { loadPromotions, redeemOrderPromotions } from "@lib/checkout/server";
+import type { StoredOrder } from "@lib/orders";
+import { getSessionUserId } from "@lib/auth/server/session";
+import { syncDownloadGrants } from "@lib/downloads/server";
+import {
+  createOrderAccessKey,
+  getOrderRepository,
+  transitionOrder,
+} from "@lib/orders/server";
+import { getPaymentProvider } from "@lib/payments/server";
+import { checkoutRequestSchema } from "@lib/validation/checkout";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+
+  const parsed = checkoutRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  const { customer, billing, items, promotionCodes = [] } = parsed.data;
+  const reference = createOrderReference();
+
+  try {
+    const catalog = getCatalogRepository();
+    const [products, bundles, { promotions, redemptions, missing }] = await Promise.all([
+      catalog.list(),
+      catalog.listBundles(),
+      loadPromotions(promotionCodes),
+    ]);
+    const { totals, unavailable, rejectedPromotions } = priceCartLines(
+      items,
+      products,
+      {
+        bundles,
+        promotions,
+        promotionContext: { redemptions },
+        tax: { country: billing.country, vatId: billing.vatId },
+      }
+    );
+
+    if (unavailable.length > 0) {
+      return NextResponse.json(
+        { success: false, error: "unavailable_products", unavailable },
+        { status: 409 }
+      );
+    }
+
+    const rejection =
+      missing.length > 0
+        ? { code: missing[0], reason: "not_found" }
+        : rejectedPromotions[0];
+    if (rejection) {
+      return NextResponse.json(
+        { success: false, error: "promotion_rejected", ...rejection },
+        { status: 422 }
+      );
+    }
+
+    const provider = getPaymentProvider();
+    const orders = getOrderRepository();
+    const { origin } = request.nextUrl;
+    const customerId = getSessionUserId(request);
+    const accessKey = createOrderAccessKey();
+    const successQuery = new URLSearchParams({ ref: reference, key: accessKey });
+
+    let session = await provider.createSession({
+      reference,
+      amount: totals.total,
+      currency: totals.currency,
+      customerEmail: customer.email,
+      description: `Ayla Designs ${reference}`,
+      successUrl: `${origin}/checkout/success?${successQuery}`,
+      cancelUrl: `${origin}/checkout`,
+    });
+
+    const now = new Date().toISOString();
+    let order: StoredOrder = {
+      reference,
+      status: "pending",
+      ...(customerId ? { customerId } : {}),
+      customerEmail: customer.email,
+      accessKey,
+      billing,
+      lines: totals.lines,
+      subtotal: totals.subtotal,
+      ...(totals.discount > 0 ? { discount: totals.discount } : {}),
+      ...(totals.promotions.length > 0
+        ? { promotionCodes: totals.promotions.map((promotion) => promotion.code) }
+        : {}),
+      tax: totals.tax,
+      taxTreatment: totals.taxTreatment,
+      total: totals.total,
+      currency: totals.currency,
+      payment: { provider: provider.id, sessionId: session.id },
+      createdAt: now,
+      updatedAt: now,
+    };
+    await orders.save(order);
+
+    // Proveedores sin página de pago alojada se cobran directamente
+    if (!session.redirectUrl) {
+      session = await provider.capture(session.id);
+
+      const updated = transitionOrder(
+        order,
+        session.status === "succeeded" ? "payment.success" : "payment.failed"
+      );
+      if (updated) {
+        order = await orders.save(updated);
+        await syncDownloadGrants(order);
+        await redeemOrderPromotions(order);
+      }
+    }
+
+    if (session.status === "failed") {
+      logger.warn("Checkout payment declined", {
+        reference,
+        reason: session.failureReason,
+      });
+      return NextResponse.json(
+        { success: false, error: session.failureReason ?? "payment_failed" },
+        { status: 402 }
+      );
+    }
+
+    logger.info("Checkout completed", {
+      reference,
+      provider: provider.id,
+      status: session.status,
+    });
+
+    const response: CheckoutResponse = {
+      reference,
+      accessKey,
+      status: session.status,
+      total: totals.total,
+      currency: totals.currency,
+      redirectUrl: session.redirectUrl,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error("Checkout failed", error instanceof Error ? error : undefined, {
+      reference,
+    });
+    return NextResponse.json(
+      { success: false, error: "Checkout failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * API Route de descarga de un artículo comprado
+ *
+ * GET  /api/downloads/[token]?v=&expires=&sig=
+ *      Entrega el archivo si el enlace firmado es válido y quedan usos.
+ *      No requiere sesión: la firma es la autorización (los invitados abren
+ *      los enlaces desde la página de confirmación del pedido).
+ * POST /api/downloads/[token]
+ *      Regenera el enlace apuntando a la última versión (requiere sesión
+ *      verificada en producción y ser el propietario). Responde { link }.
+ *
+ * Errores:
+ * - 401 sin sesión (POST)
+ * - 403 firma inválida o parámetros ausentes
+ * - 404 token desconocido o archivo no publicado
+ * - 410 enlace caducado, sin usos o revocado
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@lib/auth/server/session";
+import {
+  consumeDownload,
+  parseSignedDownloadParams,
+  regenerateDownloadLink,
+  type DownloadFailureReason,
+} from "@lib/downloads/server";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+const FAILURE_STATUS: Record<DownloadFailureReason, number> = {
+  not_found: 404,
+  file_missing: 404,
+  invalid_signature: 403,
+  expired: 410,
+  limit_reached: 410,
+  revoked: 410,
+};
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+
+  const signed = parseSignedDownloadParams(request.nextUrl.searchParams);
+  if (!signed) return failure("invalid_signature");
+
+  try {
+    const result = await consumeDownload(token, signed, {
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+    if (!result.ok) return failure(result.reason);
+
+    const { file, grant } = result;
+    logger.info("Download served", {
+      orderReference: grant.orderReference,
+      productId: grant.productId,
+      version: file.version,
+      downloadsRemaining: grant.downloadsRemaining,
+    });
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.size),
+        "Content-Disposition": `attachment; filename="${file.fileName.replace(/"/g, "")}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    return serverError("Failed to serve download", error);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) {
+    return NextResponse.json(
+      { success: false, error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await regenerateDownloadLink(token, ownerId, request.nextUrl.origin);
+    if (!result.ok) return failure(result.reason);
+
+    return NextResponse.json({ link: result.link });
+  } catch (error) {
+    return serverError("Failed to regenerate download link", error);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function failure(reason: DownloadFailureReason) {
+  return NextResponse.json(
+    { success: false, error: reason },
+    { status: FAILURE_STATUS[reason] }
+  );
+}
+
+function serverError(message: string, error: unknown) {
+  logger.error(message, error instanceof Error ? error : undefined);
+  return NextResponse.json({ success: false, error: message }, { status: 500 });
+}
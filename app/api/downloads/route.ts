@@ -0,0 +1,77 @@
+/**
+ * API Route del centro de descargas
+ *
+ * GET /api/downloads           → DownloadItem[] del usuario autenticado, cada
+ *                                uno con un enlace firmado nuevo (7 días)
+ * GET /api/downloads?ref=&key= → DownloadItem[] de un pedido, con la clave de
+ *                                acceso de la página de confirmación
+ *
+ * Responde 401 si la petición no trae sesión ni clave, y 404 con
+ * `order_not_found` si la clave no corresponde al pedido.
+ *
+ * El propietario se identifica con `getSessionUserId`: en producción solo
+ * con la verificación del token configurada, así que un token forjado no
+ * lista los archivos de otro cliente (ver lib/auth/server/session.ts).
+ * La clave del pedido es la vía de los invitados, cuyos grants no son de
+ * ninguna cuenta.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@lib/auth/server/session";
+import { listDownloadItems, listOrderDownloadItems } from "@lib/downloads/server";
+import { findOrderByAccessKey } from "@lib/orders/server";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const { origin, searchParams } = request.nextUrl;
+  const reference = searchParams.get("ref");
+  const accessKey = searchParams.get("key");
+
+  if (reference && accessKey) {
+    return listOrderDownloads(reference, accessKey, origin);
+  }
+
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) {
+    return NextResponse.json(
+      { success: false, error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const items = await listDownloadItems(ownerId, origin);
+    return NextResponse.json({ items });
+  } catch (error) {
+    logger.error("Failed to list downloads", error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { success: false, error: "Failed to list downloads" },
+      { status: 500 }
+    );
+  }
+}
+
+async function listOrderDownloads(reference: string, accessKey: string, origin: string) {
+  try {
+    const order = await findOrderByAccessKey(reference, accessKey);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "order_not_found" },
+        { status: 404 }
+      );
+    }
+
+    const items = await listOrderDownloadItems(order.reference, origin);
+    return NextResponse.json({ items });
+  } catch (error) {
+    logger.error("Failed to list order downloads", error instanceof Error ? error : undefined, {
+      reference,
+    });
+    return NextResponse.json(
+      { success: false, error: "Failed to list downloads" },
+      { status: 500 }
+    );
+  }
+}
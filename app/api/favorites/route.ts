@@ -0,0 +1,135 @@
+/**
+ * API Route de los favoritos del usuario autenticado
+ *
+ * GET    /api/favorites  → Favoritos guardados
+ * PUT    /api/favorites  → Reemplaza los favoritos.  Body: { productIds: number[] }
+ * PATCH  /api/favorites  → Fusiona con los guardados (sin duplicados,
+ *                          descarta productos retirados). Body: { productIds: number[] }
+ * DELETE /api/favorites  → Vacía los favoritos
+ *
+ * Responde 401 si la petición no trae sesión.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@lib/auth/server/session";
+import { getCatalogRepository } from "@lib/catalog/server";
+import {
+  mergeFavorites,
+  normalizeFavorites,
+  type MergeFavoritesOptions,
+} from "@lib/favorites";
+import { getFavoritesRepository } from "@lib/favorites/server";
+import { favoritesUpdateSchema } from "@lib/validation/favorites";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  try {
+    const favorites = await getFavoritesRepository().get(ownerId);
+
+    return NextResponse.json({
+      productIds: favorites?.productIds ?? [],
+      updatedAt: favorites?.updatedAt ?? null,
+    });
+  } catch (error) {
+    return serverError("Failed to read favorites", error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  const parsed = favoritesUpdateSchema.safeParse(await readJson(request));
+  if (!parsed.success) return invalidRequest(parsed.error.issues[0]?.message);
+
+  try {
+    const favorites = await getFavoritesRepository().save(
+      ownerId,
+      normalizeFavorites(parsed.data.productIds, await loadMergeOptions())
+    );
+
+    return NextResponse.json(favorites);
+  } catch (error) {
+    return serverError("Failed to save favorites", error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  const parsed = favoritesUpdateSchema.safeParse(await readJson(request));
+  if (!parsed.success) return invalidRequest(parsed.error.issues[0]?.message);
+
+  try {
+    const repository = getFavoritesRepository();
+    const [stored, mergeOptions] = await Promise.all([
+      repository.get(ownerId),
+      loadMergeOptions(),
+    ]);
+    const { productIds: merged, summary } = mergeFavorites(
+      parsed.data.productIds,
+      stored?.productIds ?? [],
+      mergeOptions
+    );
+    const favorites = await repository.save(ownerId, merged);
+
+    return NextResponse.json({ ...favorites, summary });
+  } catch (error) {
+    return serverError("Failed to merge favorites", error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const ownerId = getSessionUserId(request);
+  if (!ownerId) return unauthorized();
+
+  try {
+    await getFavoritesRepository().delete(ownerId);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return serverError("Failed to clear favorites", error);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Solo se guardan productos del catálogo configurado */
+async function loadMergeOptions(): Promise<MergeFavoritesOptions> {
+  const products = await getCatalogRepository().list();
+  const productIds = new Set(products.map((product) => product.id));
+
+  return { isAvailable: (productId) => productIds.has(productId) };
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: "Authentication required" },
+    { status: 401 }
+  );
+}
+
+function invalidRequest(message = "Invalid request") {
+  return NextResponse.json({ success: false, error: message }, { status: 400 });
+}
+
+function serverError(message: string, error: unknown) {
+  logger.error(message, error instanceof Error ? error : undefined);
+  return NextResponse.json({ success: false, error: message }, { status: 500 });
+}
@@ -0,0 +1,52 @@
+/**
+ * API Route del detalle de un pedido
+ *
+ * GET /api/orders/[reference] → AylaOrder de la cuenta autenticada
+ *
+ * Errores:
+ * - 401 sin sesión
+ * - 404 el pedido no existe o es de otra cuenta ({ error: "order_not_found" })
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@lib/auth/server/session";
+import { getCustomerOrder } from "@lib/orders/server";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ reference: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const customerId = getSessionUserId(request);
+  if (!customerId) {
+    return NextResponse.json(
+      { success: false, error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const { reference } = await params;
+
+  try {
+    const order = await getCustomerOrder(customerId, reference);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "order_not_found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(order);
+  } catch (error) {
+    logger.error("Failed to load order", error instanceof Error ? error : undefined, {
+      reference,
+    });
+    return NextResponse.json(
+      { success: false, error: "Failed to load order" },
+      { status: 500 }
+    );
+  }
+}
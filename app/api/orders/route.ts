@@ -0,0 +1,56 @@
+/**
+ * API Route del historial de pedidos
+ *
+ * GET /api/orders?page=&page_size=&status=
+ *     Pedidos de la cuenta autenticada, del más reciente al más antiguo,
+ *     leídos del repositorio en el que escribe el checkout.
+ *
+ * Errores:
+ * - 400 query params inválidos
+ * - 401 sin sesión
+ *
+ * El usuario se identifica con `getSessionUserId`: en producción solo con
+ * la verificación del token configurada (ver lib/auth/server/session.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@lib/auth/server/session";
+import { listCustomerOrders } from "@lib/orders/server";
+import { orderListQuerySchema } from "@lib/validation/order";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const customerId = getSessionUserId(request);
+  if (!customerId) {
+    return NextResponse.json(
+      { success: false, error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const parsed = orderListQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  const { page, page_size: pageSize, status } = parsed.data;
+
+  try {
+    return NextResponse.json(
+      await listCustomerOrders(customerId, { page, pageSize, status })
+    );
+  } catch (error) {
+    logger.error("Failed to list orders", error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { success: false, error: "Failed to list orders" },
+      { status: 500 }
+    );
+  }
+}
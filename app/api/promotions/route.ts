@@ -0,0 +1,100 @@
+/**
+ * API Route de códigos promocionales
+ *
+ * POST /api/promotions
+ * Body: { code, items, appliedCodes? }
+ *
+ * Comprueba si un código se puede aplicar al carrito con los precios del
+ * catálogo (packs y códigos ya aplicados incluidos). El canje se registra
+ * después, al confirmarse el pago del pedido.
+ *
+ * Respuestas:
+ * - 200 PromotionValidationResponse
+ * - 400 datos inválidos
+ * - 404 código inexistente ({ error: "not_found" })
+ * - 422 código no aplicable ({ error: AylaPromotionRejection })
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  normalizePromotionCode,
+  priceCartLines,
+  type PromotionValidationResponse,
+} from "@lib/checkout";
+import { getCatalogRepository } from "@lib/catalog/server";
+import { loadPromotions } from "@lib/checkout/server";
+import { promotionValidateSchema } from "@lib/validation/promotion";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+
+  const parsed = promotionValidateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  const code = normalizePromotionCode(parsed.data.code);
+  const appliedCodes = (parsed.data.appliedCodes ?? []).map(normalizePromotionCode);
+
+  if (appliedCodes.includes(code)) {
+    return rejected("already_applied", 422);
+  }
+
+  try {
+    const catalog = getCatalogRepository();
+    const [products, bundles, { promotions, redemptions }] = await Promise.all([
+      catalog.list(),
+      catalog.listBundles(),
+      loadPromotions([...appliedCodes, code]),
+    ]);
+    const promotion = promotions.find(
+      (candidate) => normalizePromotionCode(candidate.code) === code
+    );
+    if (!promotion) {
+      return rejected("not_found", 404);
+    }
+
+    const { totals, rejectedPromotions } = priceCartLines(
+      parsed.data.items,
+      products,
+      { bundles, promotions, promotionContext: { redemptions } }
+    );
+
+    const rejection = rejectedPromotions.find(
+      (entry) => entry.code === promotion.code
+    );
+    if (rejection) {
+      return rejected(rejection.reason, 422);
+    }
+
+    const response: PromotionValidationResponse = {
+      promotion,
+      discount:
+        totals.promotions.find((entry) => entry.code === promotion.code)?.discount ?? 0,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error("Promotion validation failed", error instanceof Error ? error : undefined, {
+      code,
+    });
+    return NextResponse.json(
+      { success: false, error: "Promotion validation failed" },
+      { status: 500 }
+    );
+  }
+}
+
+function rejected(reason: string, status: number) {
+  return NextResponse.json({ success: false, error: reason }, { status });
+}
@@ -0,0 +1,60 @@
+/**
+ * API Route de productos relacionados ("También te puede gustar")
+ *
+ * GET /api/recommendations?productId=&limit=&locale=
+ *     Devuelve los productos relacionados con el indicado según el
+ *     recomendador configurado: { productId, items }
+ *
+ *     - limit: máximo de productos, de 1 a 12 (por defecto 4)
+ *     - locale: idioma del contenido de los productos (por defecto "es")
+ *
+ * Errores:
+ * - 400 parámetros inválidos
+ * - 404 producto inexistente
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listLocalizedProducts } from "@lib/catalog/server";
+import { getRecommender } from "@lib/recommendations/server";
+import { relatedProductsQuerySchema } from "@lib/validation/recommendations";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const parsed = relatedProductsQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!parsed.success) return invalidRequest(parsed.error.issues[0]?.message);
+
+  const { productId, limit, locale } = parsed.data;
+
+  try {
+    const products = await listLocalizedProducts(locale);
+    const product = products.find(({ id }) => id === productId);
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: "Product not found" },
+        { status: 404 }
+      );
+    }
+
+    const items = await getRecommender().related(product, products, limit);
+    return NextResponse.json({ productId, items });
+  } catch (error) {
+    return serverError("Failed to load related products", error);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function invalidRequest(message = "Invalid request") {
+  return NextResponse.json({ success: false, error: message }, { status: 400 });
+}
+
+function serverError(message: string, error: unknown) {
+  logger.error(message, error instanceof Error ? error : undefined);
+  return NextResponse.json({ success: false, error: message }, { status: 500 });
+}
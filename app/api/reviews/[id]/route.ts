@@ -0,0 +1,71 @@
+/**
+ * API Route de moderación de una reseña
+ *
+ * PATCH /api/reviews/[id]
+ *       Body: { status: "approved" | "rejected", note? }
+ *       Responde { review } con la reseña actualizada. Solo las aprobadas
+ *       se publican y cuentan en la valoración del producto.
+ *
+ * Requiere una sesión con rol admin (o superior) y la verificación en dos
+ * pasos.
+ *
+ * Errores:
+ * - 400 datos inválidos
+ * - 401 sin sesión
+ * - 403 sin el rol o sin la verificación en dos pasos
+ * - 404 reseña inexistente
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@lib/auth/server/roles";
+import { moderateReview } from "@lib/reviews/server";
+import { reviewModerationSchema } from "@lib/validation/review";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const session = requireRole(request, "admin");
+  if (session instanceof NextResponse) return session;
+
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+
+  const parsed = reviewModerationSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const review = await moderateReview(id, parsed.data);
+    if (!review) {
+      return NextResponse.json({ success: false, error: "not_found" }, { status: 404 });
+    }
+
+    logger.info("Review moderated", {
+      reviewId: review.id,
+      status: review.status,
+      moderatorId: session.id,
+    });
+    return NextResponse.json({ review });
+  } catch (error) {
+    logger.error("Failed to moderate review", error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { success: false, error: "Failed to moderate review" },
+      { status: 500 }
+    );
+  }
+}
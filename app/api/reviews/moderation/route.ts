@@ -0,0 +1,32 @@
+/**
+ * API Route de la cola de moderación de reseñas
+ *
+ * GET /api/reviews/moderation → { items: StoredReview[] } pendientes, de la
+ *                               más antigua a la más reciente
+ *
+ * Requiere una sesión con rol admin (o superior) y la verificación en dos
+ * pasos: 401 sin sesión, 403 sin el rol o sin el segundo paso.
+ * Las decisiones se envían a PATCH /api/reviews/[id].
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@lib/auth/server/roles";
+import { listModerationQueue } from "@lib/reviews/server";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const session = requireRole(request, "admin");
+  if (session instanceof NextResponse) return session;
+
+  try {
+    return NextResponse.json({ items: await listModerationQueue() });
+  } catch (error) {
+    logger.error("Failed to list moderation queue", error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { success: false, error: "Failed to list moderation queue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * API Route de reseñas de productos
+ *
+ * GET  /api/reviews?productId=&sort=&page=&pageSize=
+ *      Reseñas aprobadas del producto, ordenadas y paginadas, con la
+ *      valoración agregada. No requiere sesión.
+ * POST /api/reviews
+ *      Envía una reseña (requiere sesión y una compra pagada del producto).
+ *      Body: { productId, authorName, rating, title, text }
+ *      La reseña queda pendiente de moderación: responde 201 { review }.
+ *
+ * Errores:
+ * - 400 datos inválidos
+ * - 401 sin sesión (POST)
+ * - 403 el usuario no ha comprado el producto ({ error: "not_purchased" })
+ * - 404 producto inexistente ({ error: "product_not_found" })
+ * - 409 el usuario ya reseñó el producto ({ error: "already_reviewed" })
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@lib/auth/server/session";
+import type { ReviewSubmitRejection } from "@lib/reviews";
+import { listProductReviews, submitReview, toPublicReview } from "@lib/reviews/server";
+import { reviewListQuerySchema, reviewSubmitSchema } from "@lib/validation/review";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+const REJECTION_STATUS: Record<ReviewSubmitRejection, number> = {
+  product_not_found: 404,
+  not_purchased: 403,
+  already_reviewed: 409,
+};
+
+export async function GET(request: NextRequest) {
+  const parsed = reviewListQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!parsed.success) return invalidRequest(parsed.error.issues[0]?.message);
+
+  const { productId, ...options } = parsed.data;
+
+  try {
+    return NextResponse.json(await listProductReviews(productId, options));
+  } catch (error) {
+    return serverError("Failed to list reviews", error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const authorId = getSessionUserId(request);
+  if (!authorId) {
+    return NextResponse.json(
+      { success: false, error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const parsed = reviewSubmitSchema.safeParse(await readJson(request));
+  if (!parsed.success) return invalidRequest(parsed.error.issues[0]?.message);
+
+  try {
+    const result = await submitReview(authorId, parsed.data);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.reason },
+        { status: REJECTION_STATUS[result.reason] }
+      );
+    }
+
+    logger.info("Review submitted", {
+      reviewId: result.review.id,
+      productId: result.review.productId,
+    });
+    return NextResponse.json({ review: toPublicReview(result.review) }, { status: 201 });
+  } catch (error) {
+    return serverError("Failed to submit review", error);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+function invalidRequest(message = "Invalid request") {
+  return NextResponse.json({ success: false, error: message }, { status: 400 });
+}
+
+function serverError(message: string, error: unknown) {
+  logger.error(message, error instanceof Error ? error : undefined);
+  return NextResponse.json({ success: false, error: message }, { status: 500 });
+}
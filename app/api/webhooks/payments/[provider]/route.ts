@@ -0,0 +1,85 @@
+/**
+ * API Route de webhooks de pago
+ *
+ * POST /api/webhooks/payments/[provider]   (provider: fake | stripe | paypal)
+ *
+ * Verifica la firma con el adaptador del proveedor, traduce el evento al
+ * formato común y actualiza el pedido. Los reenvíos del mismo evento se
+ * detectan por su ID y se responden 200 sin volver a procesarlos.
+ *
+ * Respuestas:
+ * - 200 { received: true, outcome }  (applied | unchanged | duplicate | ignored)
+ * - 400 firma inválida o body ilegible
+ * - 404 proveedor desconocido o no configurado
+ * - 500 error al procesar (el proveedor reintentará)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { WebhookSignatureError } from "@/errors";
+import { processPaymentEvent } from "@lib/orders/server";
+import {
+  getPaymentProviderById,
+  isPaymentProviderId,
+} from "@lib/payments/server";
+import { logger } from "@lib/logger";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ provider: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { provider: providerId } = await params;
+
+  const provider = isPaymentProviderId(providerId)
+    ? getPaymentProviderById(providerId)
+    : null;
+  if (!provider) {
+    return NextResponse.json(
+      { success: false, error: "Unknown payment provider" },
+      { status: 404 }
+    );
+  }
+
+  // La firma se calcula sobre el body exacto: no parsear antes de verificar
+  const payload = await request.text();
+
+  let event;
+  try {
+    event = await provider.verifyWebhook(payload, request.headers);
+  } catch (error) {
+    if (error instanceof WebhookSignatureError || error instanceof SyntaxError) {
+      logger.warn("Rejected payment webhook", {
+        provider: provider.id,
+        reason: error.message,
+      });
+      return NextResponse.json(
+        { success: false, error: "Invalid webhook" },
+        { status: 400 }
+      );
+    }
+    return serverError("Failed to verify payment webhook", error);
+  }
+
+  try {
+    const result = await processPaymentEvent(event);
+
+    return NextResponse.json({
+      received: true,
+      outcome: result.outcome,
+      ...(result.reason ? { reason: result.reason } : {}),
+    });
+  } catch (error) {
+    return serverError("Failed to process payment webhook", error);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function serverError(message: string, error: unknown) {
+  logger.error(message, error instanceof Error ? error : undefined);
+  return NextResponse.json({ success: false, error: message }, { status: 500 });
+}
@@ -7,6 +7,8 @@
  * - MUI Theme (light mode default, CSS variables for runtime switching)
  * - MUI Next.js cache provider for SSR optimization
  * - Theme sync between Zustand store and DOM
+ * - Ayla store (cart, product modal, toasts) shared by all locale pages,
+ *   reconciled against the catalog loaded by the locale layout
  *
  * @see app/ui/theme/ for theme architecture
  * @see docs/branding/CORPORATE_IDENTITY.md for design system
@@ -18,9 +20,13 @@ import { ThemeProvider } from "@mui/material/styles";
 import CssBaseline from "@mui/material/CssBaseline";
 import { theme } from "./ui/theme";
 import { useThemeSync } from "@/hooks/useThemeSync";
+import type { AylaProduct } from "@types";
+import { AylaProvider } from "./[locale]/ayla/store";
 
 interface ProvidersProps {
   children: ReactNode;
+  /** Products of the configured catalog repository */
+  catalog: AylaProduct[];
 }
 
 /**
@@ -30,7 +36,7 @@ interface ProvidersProps {
  * requires it. However, children passed to it CAN be Server Components
  * thanks to React's composition pattern.
  */
-export function Providers({ children }: ProvidersProps) {
+export function Providers({ children, catalog }: ProvidersProps) {
   // Sync Zustand theme state with DOM (adds/removes 'dark' class)
   useThemeSync();
 
@@ -38,7 +44,7 @@ export function Providers({ children }: ProvidersProps) {
     <AppRouterCacheProvider options={{ enableCssLayer: true }}>
       <ThemeProvider theme={theme}>
         <CssBaseline />
-        {children}
+        <AylaProvider catalog={catalog}>{children}</AylaProvider>
       </ThemeProvider>
     </AppRouterCacheProvider>
   );
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import type { Meta, StoryObj } from "@storybook/react";
+
+import { FavoriteButton } from "./FavoriteButton";
+
+const meta: Meta<typeof FavoriteButton> = {
+  title: "Atoms/FavoriteButton",
+  component: FavoriteButton,
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+Heart toggle used to save products to the favorites.
+
+## Features
+- **Toggle state**: filled heart and \`aria-pressed\` when active
+- **Localized label**: "Add to favorites" / "Remove from favorites"
+- **Card friendly**: the click does not bubble to the parent
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    size: {
+      control: "select",
+      options: ["small", "medium"],
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// =============================================================================
+// STORIES
+// =============================================================================
+
+/**
+ * Product not saved yet
+ */
+export const Default: Story = {
+  args: {
+    active: false,
+    onToggle: () => {},
+  },
+};
+
+/**
+ * Product in the favorites
+ */
+export const Active: Story = {
+  args: {
+    active: true,
+    onToggle: () => {},
+    size: "medium",
+  },
+};
+
+/**
+ * Click to toggle
+ */
+export const Interactive: Story = {
+  render: function InteractiveFavorite() {
+    const [active, setActive] = useState(false);
+    return <FavoriteButton active={active} onToggle={() => setActive(!active)} size="medium" />;
+  },
+};
@@ -0,0 +1,75 @@
+"use client";
+
+import { forwardRef } from "react";
+import { Heart } from "lucide-react";
+import IconButton from "@mui/material/IconButton";
+import { useTranslations } from "next-intl";
+import { neutral, semantic } from "@/app/ui/theme";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FavoriteButtonProps {
+  /** Whether the product is in the favorites */
+  active: boolean;
+  /** Callback when the heart is clicked */
+  onToggle: () => void;
+  /** Button size */
+  size?: "small" | "medium";
+  /** Additional CSS class */
+  className?: string;
+}
+
+const ICON_SIZES = { small: 16, medium: 20 } as const;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * FavoriteButton - Heart toggle to save a product to the favorites
+ *
+ * The click does not bubble, so it can sit on top of clickable cards.
+ *
+ * @example
+ * ```tsx
+ * <FavoriteButton active={isFavorite} onToggle={() => toggleFavorite(product)} />
+ * ```
+ */
+export const FavoriteButton = forwardRef<HTMLButtonElement, FavoriteButtonProps>(
+  ({ active, onToggle, size = "small", className }, ref) => {
+    const t = useTranslations("Components.favorites");
+
+    return (
+      <IconButton
+        ref={ref}
+        size={size}
+        className={className}
+        aria-label={t(active ? "remove" : "add")}
+        aria-pressed={active}
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggle();
+        }}
+        sx={{
+          bgcolor: "rgba(255, 255, 255, 0.9)",
+          backdropFilter: "blur(4px)",
+          color: active ? semantic.error.main : neutral[600],
+          transition: "transform 0.2s ease, color 0.2s ease",
+          "&:hover": {
+            bgcolor: "white",
+            color: semantic.error.main,
+            transform: "scale(1.08)",
+          },
+        }}
+      >
+        <Heart size={ICON_SIZES[size]} fill={active ? "currentColor" : "none"} />
+      </IconButton>
+    );
+  }
+);
+
+FavoriteButton.displayName = "FavoriteButton";
+
+export default FavoriteButton;
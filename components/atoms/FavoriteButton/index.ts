@@ -0,0 +1,2 @@
+export { FavoriteButton, type FavoriteButtonProps } from "./FavoriteButton";
+export { default } from "./FavoriteButton";
@@ -0,0 +1,79 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import Stack from "@mui/material/Stack";
+
+import { Price } from "./Price";
+
+const meta: Meta<typeof Price> = {
+  title: "Atoms/Price",
+  component: Price,
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+Displays a monetary amount formatted for the active locale.
+
+## Features
+- **Integer amounts**: values are \`Money\` objects in minor units
+- **Currency selector**: converted to the currency chosen by the user
+- **Charged amounts**: \`convert={false}\` keeps the original currency
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    negative: {
+      control: "boolean",
+      description: "Display as a deduction",
+    },
+    convert: {
+      control: "boolean",
+      description: "Convert to the selected currency",
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// =============================================================================
+// STORIES
+// =============================================================================
+
+/**
+ * Catalog price in the store currency
+ */
+export const Default: Story = {
+  args: {
+    value: { amount: 2499, currency: "EUR" },
+    sx: { fontWeight: 600, color: "primary.main" },
+  },
+};
+
+/**
+ * Discount line
+ */
+export const Negative: Story = {
+  args: {
+    value: { amount: 750, currency: "EUR" },
+    negative: true,
+    sx: { color: "success.main" },
+  },
+};
+
+/**
+ * Current price next to the struck-through original one
+ */
+export const WithOriginalPrice: Story = {
+  render: () => (
+    <Stack direction="row" spacing={1} alignItems="baseline">
+      <Price value={{ amount: 4248, currency: "EUR" }} sx={{ fontWeight: 600 }} />
+      <Price
+        value={{ amount: 4998, currency: "EUR" }}
+        component="s"
+        sx={{ fontSize: "0.75rem", color: "text.disabled" }}
+      />
+    </Stack>
+  ),
+};
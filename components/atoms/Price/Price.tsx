@@ -0,0 +1,68 @@
+"use client";
+
+import { forwardRef } from "react";
+import Typography, { type TypographyProps } from "@mui/material/Typography";
+
+import { usePriceFormatter } from "@hooks";
+import type { Money } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PriceProps extends Omit<TypographyProps, "children"> {
+  /** Amount to display, in minor units */
+  value: Money;
+  /** Display as a deduction (−12,00 €), e.g. discounts */
+  negative?: boolean;
+  /**
+   * Convert to the currency selected by the user.
+   * Disable it for amounts charged in their own currency (checkout, orders).
+   */
+  convert?: boolean;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Price - Single entry point for displaying monetary amounts.
+ *
+ * Formats the amount for the active next-intl locale and converts it to the
+ * currency picked in the currency selector, so every price in the app looks
+ * the same and totals are computed on integer minor units.
+ *
+ * @example
+ * ```tsx
+ * <Price value={fromMajorUnits(product.price)} sx={{ fontWeight: 600 }} />
+ * <Price value={breakdown.discount} negative />
+ * <Price value={order.total} convert={false} />
+ * ```
+ */
+export const Price = forwardRef<HTMLSpanElement, PriceProps>(
+  (
+    {
+      value,
+      negative = false,
+      convert = true,
+      component = "span",
+      variant = "inherit",
+      ...props
+    },
+    ref
+  ) => {
+    const { format } = usePriceFormatter();
+
+    return (
+      <Typography ref={ref} component={component} variant={variant} {...props}>
+        {negative && value.amount !== 0 ? "−" : ""}
+        {format(value, { convert })}
+      </Typography>
+    );
+  }
+);
+
+Price.displayName = "Price";
+
+export default Price;
@@ -18,7 +18,7 @@ Product image component with fallback gradients and decorative icons.
 ## Features
 - **Fallback Gradients**: Beautiful category-specific gradients when images fail to load
 - **Decorative Icons**: Sparkles and category icons for visual interest
-- **Lazy Loading**: Images load efficiently with native lazy loading
+- **Responsive Sources**: \`next/image\` with lazy loading, \`sizes\` and a blur placeholder
 - **Theme Integration**: Uses category gradients from theme tokens
 
 ## Product Types
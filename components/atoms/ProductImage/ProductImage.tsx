@@ -1,6 +1,7 @@
 "use client";
 
 import { forwardRef, useState } from "react";
+import Image from "next/image";
 import Box from "@mui/material/Box";
 import {
   Moon,
@@ -14,6 +15,7 @@ import {
 } from "lucide-react";
 
 import { categoryGradients } from "@/app/ui/theme";
+import { createGradientPlaceholder } from "@lib/catalog";
 import type { AylaProductImageType } from "@/types/ayla";
 
 // =============================================================================
@@ -23,6 +25,14 @@ import type { AylaProductImageType } from "@/types/ayla";
 export interface ProductImageProps {
   /** Product image type key */
   type: AylaProductImageType | string;
+  /** Image URL (defaults to the artwork of the product type) */
+  src?: string;
+  /** Blur placeholder data URL (defaults to the type's gradient) */
+  blurDataURL?: string;
+  /** Responsive `sizes` hint for the image sources */
+  sizes?: string;
+  /** Load eagerly (above-the-fold images such as the gallery cover) */
+  priority?: boolean;
   /** Additional CSS class */
   className?: string;
   /** Alt text for the image */
@@ -88,22 +98,37 @@ const imageConfig: Record<
  * ## Features
  * - **Fallback Gradients**: Beautiful category-specific gradients when images fail to load
  * - **Decorative Icons**: Sparkles and category icons for visual interest
- * - **Lazy Loading**: Images load efficiently with native lazy loading
+ * - **Responsive Sources**: `next/image` with lazy loading, `sizes` and a blur placeholder
  * - **Theme Integration**: Uses category gradients from theme tokens
  *
  * ## Usage
  * ```tsx
  * <ProductImage type="planner" />
  * <ProductImage type="wedding" showDecorations={false} />
+ * <ProductImage type="planner" src={cover.src} sizes="50vw" priority />
  * ```
  */
 export const ProductImage = forwardRef<HTMLDivElement, ProductImageProps>(
-  ({ type, className, alt, showDecorations = true }, ref) => {
-    const [imageError, setImageError] = useState(false);
-
+  (
+    {
+      type,
+      src,
+      blurDataURL,
+      sizes = "(min-width: 768px) 50vw, 100vw",
+      priority = false,
+      className,
+      alt,
+      showDecorations = true,
+    },
+    ref
+  ) => {
     const config = imageConfig[type] || imageConfig.planner;
     const Icon = config.icon;
-    const imageUrl = config.imagePath;
+    const imageUrl = src || config.imagePath;
+
+    // Remembered per URL so that a new source is tried again
+    const [failedUrl, setFailedUrl] = useState<string | null>(null);
+    const imageError = failedUrl === imageUrl;
 
     return (
       <Box
@@ -119,20 +144,19 @@ export const ProductImage = forwardRef<HTMLDivElement, ProductImageProps>(
       >
         {/* Product Image */}
         {!imageError && (
-          <Box
-            component="img"
+          <Image
             src={imageUrl}
-            alt={alt || `${type} design`}
-            loading="lazy"
-            onError={() => setImageError(true)}
-            sx={{
-              position: "absolute",
-              inset: 0,
-              width: "100%",
-              height: "100%",
-              objectFit: "cover",
-              transition: "opacity 0.5s ease",
-            }}
+            alt={alt ?? `${type} design`}
+            fill
+            sizes={sizes}
+            priority={priority}
+            placeholder="blur"
+            blurDataURL={
+              blurDataURL ??
+              createGradientPlaceholder(config.fallbackGradient.from, config.fallbackGradient.to)
+            }
+            onError={() => setFailedUrl(imageUrl)}
+            style={{ objectFit: "cover", transition: "opacity 0.5s ease" }}
           />
         )}
 
@@ -0,0 +1,72 @@
+import type { Meta, StoryObj } from "@storybook/react";
+
+import { RatingStars } from "./RatingStars";
+
+const meta: Meta<typeof RatingStars> = {
+  title: "Atoms/RatingStars",
+  component: RatingStars,
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+Read-only star rating used for the aggregate rating of a product.
+
+## Features
+- **Partial stars**: averages such as 4.3 fill part of a star
+- **Review count**: localized "12 reviews" label after the stars
+- **Average**: \`showValue\` adds the numeric average
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    value: {
+      control: { type: "range", min: 0, max: 5, step: 0.1 },
+      description: "Rating from 0 to 5",
+    },
+    size: {
+      control: "select",
+      options: ["small", "medium", "large"],
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// =============================================================================
+// STORIES
+// =============================================================================
+
+/**
+ * Stars only
+ */
+export const Default: Story = {
+  args: {
+    value: 4,
+  },
+};
+
+/**
+ * Product average with its review count
+ */
+export const WithCount: Story = {
+  args: {
+    value: 4.6,
+    count: 23,
+    showValue: true,
+  },
+};
+
+/**
+ * Product without approved reviews
+ */
+export const NoReviews: Story = {
+  args: {
+    value: 0,
+    count: 0,
+    showValue: true,
+  },
+};
@@ -0,0 +1,78 @@
+"use client";
+
+import { forwardRef } from "react";
+import Box from "@mui/material/Box";
+import Rating from "@mui/material/Rating";
+import Typography from "@mui/material/Typography";
+import { useFormatter, useTranslations } from "next-intl";
+import { primary, neutral } from "@/app/ui/theme";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RatingStarsProps {
+  /** Rating from 0 to 5 (decimals are shown as partial stars) */
+  value: number;
+  /** Number of reviews, shown after the stars when provided */
+  count?: number;
+  /** Show the numeric average before the count */
+  showValue?: boolean;
+  /** Star size */
+  size?: "small" | "medium" | "large";
+  /** Additional CSS class */
+  className?: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * RatingStars - Read-only star rating with optional review count
+ *
+ * @example
+ * ```tsx
+ * <RatingStars value={summary.average} count={summary.count} showValue />
+ * ```
+ */
+export const RatingStars = forwardRef<HTMLDivElement, RatingStarsProps>(
+  ({ value, count, showValue = false, size = "small", className }, ref) => {
+    const t = useTranslations("Components.ratingStars");
+    const format = useFormatter();
+
+    return (
+      <Box
+        ref={ref}
+        className={className}
+        sx={{ display: "inline-flex", alignItems: "center", gap: 1 }}
+      >
+        <Rating
+          value={value}
+          precision={0.1}
+          size={size}
+          readOnly
+          aria-label={t("label", { value })}
+          sx={{
+            "& .MuiRating-iconFilled": { color: primary.light },
+            "& .MuiRating-iconEmpty": { color: neutral[300] },
+          }}
+        />
+        {(showValue || count !== undefined) && (
+          <Typography component="span" variant="body2" sx={{ color: neutral[500] }}>
+            {showValue && count !== 0 && (
+              <Box component="span" sx={{ fontWeight: 600, color: neutral[700], mr: 0.5 }}>
+                {format.number(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}
+              </Box>
+            )}
+            {count !== undefined && t("count", { count })}
+          </Typography>
+        )}
+      </Box>
+    );
+  }
+);
+
+RatingStars.displayName = "RatingStars";
+
+export default RatingStars;
@@ -0,0 +1,2 @@
+export { RatingStars, type RatingStarsProps } from "./RatingStars";
+export { default } from "./RatingStars";
@@ -20,3 +20,6 @@ export * from "./MediaTrackCard";
 // Ayla Designs
 export * from "./Toast";
 export * from "./ProductImage";
+export * from "./Price";
+export * from "./RatingStars";
+export * from "./FavoriteButton";
@@ -0,0 +1,66 @@
+"use client";
+
+import { forwardRef } from "react";
+import MenuItem from "@mui/material/MenuItem";
+import Select, { type SelectChangeEvent } from "@mui/material/Select";
+import { useTranslations } from "next-intl";
+
+import { usePriceFormatter } from "@hooks";
+import { useUIActions } from "@store";
+import { SUPPORTED_CURRENCIES } from "@lib/money";
+import type { CurrencyCode } from "@types";
+
+export interface CurrencySelectorProps {
+  /** Monedas disponibles (por defecto todas las soportadas) */
+  currencies?: readonly CurrencyCode[];
+  /** Tamaño del selector */
+  size?: "small" | "medium";
+  /** Clases CSS adicionales */
+  className?: string;
+}
+
+/**
+ * CurrencySelector - Molécula para elegir la moneda de los precios.
+ *
+ * Guarda la elección en el slice de UI (persistido), de modo que todos los
+ * componentes `Price` pasan a mostrar la moneda elegida. Los pagos se
+ * siguen cobrando en la moneda de la tienda.
+ *
+ * @example
+ * ```tsx
+ * <CurrencySelector size="small" />
+ * ```
+ */
+export const CurrencySelector = forwardRef<HTMLDivElement, CurrencySelectorProps>(
+  ({ currencies = SUPPORTED_CURRENCIES, size = "small", className }, ref) => {
+    const t = useTranslations("Components.currencySelector");
+    const { currency } = usePriceFormatter();
+    const { setCurrency } = useUIActions();
+
+    const handleChange = (event: SelectChangeEvent<CurrencyCode>) => {
+      setCurrency(event.target.value as CurrencyCode);
+    };
+
+    return (
+      <Select<CurrencyCode>
+        ref={ref}
+        value={currency}
+        onChange={handleChange}
+        size={size}
+        variant="standard"
+        disableUnderline
+        className={className}
+        inputProps={{ "aria-label": t("label") }}
+        sx={{ fontSize: "0.875rem", fontWeight: 500 }}
+      >
+        {currencies.map((code) => (
+          <MenuItem key={code} value={code}>
+            {t(`options.${code}`)}
+          </MenuItem>
+        ))}
+      </Select>
+    );
+  }
+);
+
+CurrencySelector.displayName = "CurrencySelector";
@@ -0,0 +1,2 @@
+export { CurrencySelector } from "./CurrencySelector";
+export type { CurrencySelectorProps } from "./CurrencySelector";
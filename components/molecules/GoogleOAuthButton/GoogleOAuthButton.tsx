@@ -12,6 +12,9 @@
  *
  * // Con callback personalizado
  * <GoogleOAuthButton onSuccess={() => router.push("/dashboard")} />
+ *
+ * // Volver a una ruta después del callback
+ * <GoogleOAuthButton redirectTo="/account/orders" />
  * ```
  */
 
@@ -19,6 +22,7 @@ import { useState } from "react";
 import Button from "@mui/material/Button";
 import CircularProgress from "@mui/material/CircularProgress";
 import { useAuthActions, useAuth } from "@/store";
+import { rememberRedirect } from "@lib/auth";
 
 /** Icono de Google */
 function GoogleIcon() {
@@ -49,6 +53,8 @@ function GoogleIcon() {
 export interface GoogleOAuthButtonProps {
   /** Texto del botón */
   label?: string;
+  /** Ruta interna a la que volver cuando termine el callback de Google */
+  redirectTo?: string;
   /** Callback cuando el flujo inicia exitosamente */
   onSuccess?: () => void;
   /** Callback cuando hay un error */
@@ -66,6 +72,7 @@ export interface GoogleOAuthButtonProps {
  */
 export function GoogleOAuthButton({
   label = "Continuar con Google",
+  redirectTo,
   onSuccess,
   onError,
   disabled = false,
@@ -78,6 +85,7 @@ export function GoogleOAuthButton({
 
   const handleClick = async () => {
     setLocalLoading(true);
+    if (redirectTo) rememberRedirect(redirectTo);
 
     try {
       await loginWithGoogle();
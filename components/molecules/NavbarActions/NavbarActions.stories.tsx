@@ -22,6 +22,9 @@ const meta = {
     showThemeToggle: {
       control: "boolean",
     },
+    showCurrencySelector: {
+      control: "boolean",
+    },
     showNotifications: {
       control: "boolean",
     },
@@ -43,6 +46,13 @@ export const Default: Story = {
   },
 };
 
+/** Con selector de moneda */
+export const WithCurrencySelector: Story = {
+  args: {
+    showCurrencySelector: true,
+  },
+};
+
 /** Usuario autenticado */
 export const Authenticated: Story = {
   args: {
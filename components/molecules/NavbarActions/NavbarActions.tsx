@@ -10,6 +10,7 @@ import NotificationsIcon from "@mui/icons-material/Notifications";
 import Badge from "@mui/material/Badge";
 import { ThemeToggle, ThemeToggleProps } from "@atoms/ThemeToggle";
 import { Avatar, AvatarProps } from "@atoms/Avatar";
+import { CurrencySelector } from "@molecules/CurrencySelector";
 import { cn } from "@utils";
 import { useTranslations } from "next-intl";
 
@@ -41,6 +42,8 @@ export interface NavbarActionsProps {
   avatarProps?: Partial<AvatarProps>;
   /** Mostrar toggle de tema */
   showThemeToggle?: boolean;
+  /** Mostrar selector de moneda */
+  showCurrencySelector?: boolean;
   /** Mostrar notificaciones */
   showNotifications?: boolean;
   /** Callback al hacer clic en login */
@@ -61,11 +64,12 @@ export interface NavbarActionsProps {
  * Muestra diferentes elementos según el estado de autenticación:
  * - No autenticado: Botón de login + ThemeToggle
  * - Autenticado: Notificaciones + Avatar + ThemeToggle
+ * - Opcional: selector de moneda de los precios
  *
  * @example
  * ```tsx
  * // No autenticado
- * <NavbarActions onLoginClick={() => router.push('/login')} />
+ * <NavbarActions onLoginClick={() => router.push('/auth/login')} />
  *
  * // Autenticado
  * <NavbarActions
@@ -85,6 +89,7 @@ export const NavbarActions = forwardRef<HTMLDivElement, NavbarActionsProps>(
       themeToggleProps = {},
       avatarProps = {},
       showThemeToggle = true,
+      showCurrencySelector = false,
       showNotifications = true,
       onLoginClick,
       onProfileClick,
@@ -113,6 +118,9 @@ export const NavbarActions = forwardRef<HTMLDivElement, NavbarActionsProps>(
           gap: 1,
         }}
       >
+        {/* Currency Selector */}
+        {showCurrencySelector && <CurrencySelector size="small" />}
+
         {/* Theme Toggle */}
         {showThemeToggle && (
           <ThemeToggle
@@ -0,0 +1,70 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import Box from "@mui/material/Box";
+
+import { ProductMiniCard } from "./ProductMiniCard";
+import { products } from "@/data/ayla";
+
+const meta: Meta<typeof ProductMiniCard> = {
+  title: "Molecules/ProductMiniCard",
+  component: ProductMiniCard,
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+Compact product link used by the recommendation lists.
+
+## Features
+- **Two layouts**: vertical for rails, horizontal for compact lists
+- **Starting price**: shows the cheapest variant in the selected currency
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  args: {
+    product: products[0],
+  },
+  argTypes: {
+    orientation: {
+      control: "select",
+      options: ["vertical", "horizontal"],
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// =============================================================================
+// STORIES
+// =============================================================================
+
+/**
+ * Image on top, as in the "Recently viewed" rail
+ */
+export const Vertical: Story = {
+  decorators: [
+    (Story) => (
+      <Box sx={{ width: 200 }}>
+        <Story />
+      </Box>
+    ),
+  ],
+};
+
+/**
+ * Image at the side, as in "You may also like"
+ */
+export const Horizontal: Story = {
+  args: {
+    orientation: "horizontal",
+  },
+  decorators: [
+    (Story) => (
+      <Box sx={{ width: 360 }}>
+        <Story />
+      </Box>
+    ),
+  ],
+};
@@ -0,0 +1,124 @@
+"use client";
+
+import { forwardRef } from "react";
+import Box from "@mui/material/Box";
+import ButtonBase from "@mui/material/ButtonBase";
+import Typography from "@mui/material/Typography";
+
+import { Price } from "@/components/atoms/Price";
+import { ProductImage } from "@/components/atoms/ProductImage";
+import { fontFamilies, neutral, shadows } from "@/app/ui/theme";
+import { useProductLocalization } from "@hooks";
+import { getProductCover, getStartingPrice } from "@lib/catalog";
+import { fromMajorUnits } from "@lib/money";
+import type { AylaProduct } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProductMiniCardProps {
+  /** Product data */
+  product: AylaProduct;
+  /** Callback when the card is clicked */
+  onSelect?: (product: AylaProduct) => void;
+  /** Image on top (rails) or at the side (compact lists) */
+  orientation?: "vertical" | "horizontal";
+  /** Additional CSS class */
+  className?: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ProductMiniCard - Compact product link with cover, name and starting price
+ *
+ * Used by recommendation lists such as "You may also like" in the product
+ * modal and the "Recently viewed" rail.
+ *
+ * @example
+ * ```tsx
+ * <ProductMiniCard product={product} onSelect={openProductModal} />
+ * ```
+ */
+export const ProductMiniCard = forwardRef<HTMLButtonElement, ProductMiniCardProps>(
+  ({ product, onSelect, orientation = "vertical", className }, ref) => {
+    const { localizeProduct } = useProductLocalization();
+    const content = localizeProduct(product);
+    const cover = getProductCover(product);
+    const isHorizontal = orientation === "horizontal";
+
+    return (
+      <ButtonBase
+        ref={ref}
+        className={className}
+        onClick={() => onSelect?.(product)}
+        sx={{
+          width: "100%",
+          display: "flex",
+          flexDirection: isHorizontal ? "row" : "column",
+          alignItems: isHorizontal ? "center" : "stretch",
+          gap: isHorizontal ? 1.5 : 1,
+          p: isHorizontal ? 1 : 0,
+          borderRadius: "12px",
+          textAlign: "left",
+          transition: "background 0.2s ease",
+          "&:hover": { bgcolor: neutral[100] },
+          "&:hover .product-mini-card-image": { boxShadow: shadows.cardHover },
+        }}
+      >
+        <Box
+          className="product-mini-card-image"
+          sx={{
+            flexShrink: 0,
+            width: isHorizontal ? 64 : "100%",
+            aspectRatio: "4 / 5",
+            borderRadius: "12px",
+            overflow: "hidden",
+            boxShadow: shadows.card,
+            transition: "box-shadow 0.3s ease",
+          }}
+        >
+          <ProductImage
+            type={product.imageType}
+            src={cover?.src}
+            blurDataURL={cover?.blurDataURL}
+            alt={cover?.alt ?? content.name}
+            sizes={isHorizontal ? "64px" : "(min-width: 900px) 240px, 50vw"}
+            showDecorations={false}
+            className="w-full h-full"
+          />
+        </Box>
+
+        <Box sx={{ minWidth: 0, px: isHorizontal ? 0 : 0.5 }}>
+          <Typography
+            component="span"
+            sx={{
+              display: "block",
+              fontFamily: fontFamilies.heading,
+              fontSize: "1rem",
+              fontWeight: 600,
+              lineHeight: 1.3,
+              color: "text.primary",
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              whiteSpace: "nowrap",
+            }}
+          >
+            {content.name}
+          </Typography>
+          <Price
+            value={fromMajorUnits(getStartingPrice(product))}
+            sx={{ fontSize: "0.875rem", color: "text.secondary" }}
+          />
+        </Box>
+      </ButtonBase>
+    );
+  }
+);
+
+ProductMiniCard.displayName = "ProductMiniCard";
+
+export default ProductMiniCard;
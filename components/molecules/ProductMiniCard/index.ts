@@ -0,0 +1,2 @@
+export { ProductMiniCard, type ProductMiniCardProps } from "./ProductMiniCard";
+export { default } from "./ProductMiniCard";
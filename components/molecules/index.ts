@@ -7,6 +7,7 @@ export * from "./GoogleOAuthButton";
 export * from "./NavbarBrand";
 export * from "./NavbarLinks";
 export * from "./NavbarActions";
+export * from "./CurrencySelector";
 
 // Cards
 export * from "./CardHeader";
@@ -31,3 +32,4 @@ export * from "./AlertDialog";
 // Ayla-specific components
 export * from "./MagicText";
 export * from "./ReviewCard";
+export * from "./ProductMiniCard";
@@ -14,7 +14,7 @@ import ChevronRightIcon from "@mui/icons-material/ChevronRight";
 import { motion, AnimatePresence, PanInfo } from "framer-motion";
 import { useTranslations } from "next-intl";
 
-import { alpha } from "@mui/material/styles";
+import { alpha, type Breakpoint } from "@mui/material/styles";
 import { primary, neutral, springs } from "@/app/ui/theme";
 
 // =============================================================================
@@ -39,6 +39,10 @@ export interface CarouselProps {
   swipeable?: boolean;
   /** Infinite loop */
   loop?: boolean;
+  /** Controlled slide index (e.g. driven by external thumbnails) */
+  activeIndex?: number;
+  /** Slide aspect ratio, optionally per breakpoint */
+  aspectRatio?: string | Partial<Record<Breakpoint, string>>;
   /** Slide change callback */
   onChange?: (index: number) => void;
   /** Additional CSS class */
@@ -82,6 +86,7 @@ const variants = {
  * - Dot indicators
  * - Arrow navigation
  * - Infinite loop
+ * - Optional controlled index (`activeIndex` + `onChange`)
  *
  * @example
  * ```tsx
@@ -104,13 +109,24 @@ export const Carousel = forwardRef<HTMLDivElement, CarouselProps>(
       showDots = true,
       swipeable = true,
       loop = true,
+      activeIndex,
+      aspectRatio = "16/9",
       onChange,
       className,
     },
     ref
   ) => {
     const t = useTranslations("Components.carousel");
-    const [[currentIndex, direction], setCurrentIndex] = useState([0, 0]);
+    const [[currentIndex, direction], setCurrentIndex] = useState([activeIndex ?? 0, 0]);
+
+    // Follow the controlled index, sliding in from the matching side
+    const [syncedIndex, setSyncedIndex] = useState(activeIndex);
+    if (activeIndex !== undefined && activeIndex !== syncedIndex) {
+      setSyncedIndex(activeIndex);
+      if (activeIndex !== currentIndex) {
+        setCurrentIndex([activeIndex, activeIndex > currentIndex ? 1 : -1]);
+      }
+    }
 
     const totalItems = items.length;
 
@@ -193,7 +209,7 @@ export const Carousel = forwardRef<HTMLDivElement, CarouselProps>(
           sx={{
             position: "relative",
             width: "100%",
-            aspectRatio: "16/9",
+            aspectRatio,
             overflow: "hidden",
           }}
         >
@@ -2,7 +2,9 @@ import { useState } from "react";
 import type { Meta, StoryObj } from "@storybook/react";
 import { fn } from "storybook/test";
 import { Cart } from "./Cart";
-import type { AylaCartItem } from "@types";
+import { getCartLineKey } from "@lib/cart";
+import { getCartBreakdown } from "@lib/checkout";
+import type { AylaBundle, AylaCartItem } from "@types";
 
 // =============================================================================
 // MOCK DATA
@@ -12,6 +14,7 @@ const mockItems: AylaCartItem[] = [
   {
     id: 1,
     name: "Celestial Planner 2025",
+    slug: "celestial-planner-2025",
     description: "Planificador digital completo",
     price: 24.99,
     category: "Planners",
@@ -22,11 +25,14 @@ const mockItems: AylaCartItem[] = [
   {
     id: 3,
     name: "Crystal Social Media Kit",
+    slug: "crystal-social-media-kit",
     description: "Kit completo para Instagram",
-    price: 29.99,
+    price: 44.99,
     category: "Social Media",
     imageType: "social",
-    features: ["30 plantillas"],
+    features: ["60 plantillas"],
+    variantId: 302,
+    variantName: "Premium",
     quantity: 2,
   },
 ];
@@ -35,6 +41,7 @@ const singleItem: AylaCartItem[] = [
   {
     id: 5,
     name: "Mystic Brand Kit",
+    slug: "mystic-brand-kit",
     description: "Kit de branding completo",
     price: 49.99,
     category: "Branding",
@@ -48,6 +55,7 @@ const manyItems: AylaCartItem[] = [
   {
     id: 1,
     name: "Celestial Planner 2025",
+    slug: "celestial-planner-2025",
     description: "Planificador digital completo",
     price: 24.99,
     category: "Planners",
@@ -58,6 +66,7 @@ const manyItems: AylaCartItem[] = [
   {
     id: 2,
     name: "Bohemian Business Cards",
+    slug: "bohemian-business-cards",
     description: "Pack de 5 plantillas",
     price: 12.99,
     category: "Tarjetas",
@@ -68,6 +77,7 @@ const manyItems: AylaCartItem[] = [
   {
     id: 3,
     name: "Crystal Social Media Kit",
+    slug: "crystal-social-media-kit",
     description: "Kit completo para Instagram",
     price: 29.99,
     category: "Social Media",
@@ -78,6 +88,7 @@ const manyItems: AylaCartItem[] = [
   {
     id: 4,
     name: "Moonlight Wedding Suite",
+    slug: "moonlight-wedding-suite",
     description: "Suite completa de papelería",
     price: 39.99,
     category: "Bodas",
@@ -88,6 +99,7 @@ const manyItems: AylaCartItem[] = [
   {
     id: 5,
     name: "Mystic Brand Kit",
+    slug: "mystic-brand-kit",
     description: "Kit de branding completo",
     price: 49.99,
     category: "Branding",
@@ -157,18 +169,20 @@ const InteractiveWrapper = ({
   const [items, setItems] = useState(initialItems);
   const [isOpen, setIsOpen] = useState(true);
 
-  const handleUpdateQuantity = (id: number, quantity: number) => {
+  const keyOf = (item: AylaCartItem) => getCartLineKey(item.id, item.variantId);
+
+  const handleUpdateQuantity = (key: string, quantity: number) => {
     if (quantity <= 0) {
-      setItems((prev) => prev.filter((item) => item.id !== id));
+      setItems((prev) => prev.filter((item) => keyOf(item) !== key));
     } else {
       setItems((prev) =>
-        prev.map((item) => (item.id === id ? { ...item, quantity } : item))
+        prev.map((item) => (keyOf(item) === key ? { ...item, quantity } : item))
       );
     }
   };
 
-  const handleRemove = (id: number) => {
-    setItems((prev) => prev.filter((item) => item.id !== id));
+  const handleRemove = (key: string) => {
+    setItems((prev) => prev.filter((item) => keyOf(item) !== key));
   };
 
   return (
@@ -253,6 +267,7 @@ export const HighValue: Story = {
         {
           id: 1,
           name: "Premium Bundle",
+          slug: "premium-bundle",
           description: "Everything included",
           price: 199.99,
           category: "Bundles",
@@ -264,3 +279,201 @@ export const HighValue: Story = {
     />
   ),
 };
+
+/**
+ * Items flagged after rehydrating a persisted cart
+ */
+export const WithCartIssues: Story = {
+  args: {
+    items: [
+      { ...mockItems[0], price: 27.99, issue: "price_changed", previousPrice: 24.99 },
+      { ...singleItem[0], issue: "discontinued" },
+    ],
+    isOpen: true,
+    onClose: fn(),
+    onUpdateQuantity: fn(),
+    onRemove: fn(),
+    onAcknowledgeIssues: fn(),
+  },
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "Discontinued products cannot be purchased; re-priced products show the previous price until accepted.",
+      },
+    },
+  },
+};
+
+const weddingBundle: AylaBundle = {
+  id: 1001,
+  name: "Pack Boda Completa",
+  description: "Moonlight Wedding Suite + Boho Thank You Cards",
+  imageType: "wedding",
+  items: [
+    { product_id: 4, variant_id: null, quantity: 1 },
+    { product_id: 6, variant_id: null, quantity: 1 },
+  ],
+  discount_type: "percentage",
+  discount_value: 15,
+};
+
+const weddingItems: AylaCartItem[] = [
+  {
+    id: 4,
+    name: "Moonlight Wedding Suite",
+    slug: "moonlight-wedding-suite",
+    description: "Suite completa para bodas",
+    price: 39.99,
+    category: "Bodas",
+    imageType: "wedding",
+    features: ["Invitaciones"],
+    variantId: 401,
+    variantName: "Basic",
+    quantity: 1,
+  },
+  {
+    id: 6,
+    name: "Boho Thank You Cards",
+    slug: "boho-thank-you-cards",
+    description: "Tarjetas de agradecimiento",
+    price: 9.99,
+    category: "Tarjetas",
+    imageType: "thanks",
+    features: ["10 diseños"],
+    variantId: 601,
+    variantName: "Basic",
+    quantity: 2,
+  },
+];
+
+/**
+ * Complete bundle: its products are collapsed into a discounted line
+ */
+export const WithBundle: Story = {
+  args: {
+    items: weddingItems,
+    bundles: [
+      {
+        bundle: weddingBundle,
+        count: 1,
+        items: weddingItems.map((item) => ({ ...item, quantity: 1 })),
+        subtotal: 49.98,
+        discount: 7.5,
+      },
+    ],
+    isOpen: true,
+    onClose: fn(),
+    onUpdateQuantity: fn(),
+    onRemove: fn(),
+    onRemoveBundle: fn(),
+  },
+  parameters: {
+    docs: {
+      description: {
+        story:
+          "Units outside the bundle are listed as regular lines; the footer shows the bundle discount.",
+      },
+    },
+  },
+};
+
+/**
+ * Bundle offer shown when the cart holds part of a bundle
+ */
+export const WithBundleOffer: Story = {
+  args: {
+    items: [weddingItems[0]],
+    bundleOffers: [
+      {
+        bundle: weddingBundle,
+        missing: [
+          { product: weddingItems[1], variantId: null, quantity: 1 },
+        ],
+      },
+    ],
+    isOpen: true,
+    onClose: fn(),
+    onUpdateQuantity: fn(),
+    onRemove: fn(),
+    onAddBundle: fn(),
+  },
+};
+
+/**
+ * Coupon input with an applied code and one that no longer applies
+ */
+export const WithPromotions: Story = {
+  args: {
+    items: mockItems,
+    promotions: [
+      {
+        promotion: {
+          code: "BIENVENIDA10",
+          description: "10% de descuento en tu primera compra",
+          discount_type: "percentage",
+          discount_value: 10,
+          min_purchase: null,
+          product_ids: [],
+          categories: [],
+          starts_at: null,
+          ends_at: null,
+          usage_limit: null,
+        },
+        discount: 11.5,
+      },
+      {
+        promotion: {
+          code: "BODAS5",
+          description: "5 € de descuento en diseños para bodas",
+          discount_type: "fixed",
+          discount_value: 5,
+          min_purchase: 30,
+          product_ids: [],
+          categories: ["Bodas"],
+          starts_at: null,
+          ends_at: null,
+          usage_limit: 100,
+        },
+        discount: 0,
+        rejection: "no_eligible_products",
+      },
+    ],
+    isOpen: true,
+    onClose: fn(),
+    onUpdateQuantity: fn(),
+    onRemove: fn(),
+    onApplyPromotion: fn(),
+    onRemovePromotion: fn(),
+  },
+};
+
+/**
+ * Business buyer from another EU country: amounts without VAT (reverse charge)
+ */
+export const BusinessReverseCharge: Story = {
+  args: {
+    items: mockItems,
+    breakdown: getCartBreakdown(mockItems, [], { country: "DE", vatId: "DE123456789" }),
+    taxDisplay: "exclusive",
+    isOpen: true,
+    onClose: fn(),
+    onUpdateQuantity: fn(),
+    onRemove: fn(),
+  },
+};
+
+/**
+ * Business buyer in Spain: amounts without VAT, VAT added on top
+ */
+export const BusinessStandardVat: Story = {
+  args: {
+    items: mockItems,
+    breakdown: getCartBreakdown(mockItems, [], { country: "ES", vatId: "ESB12345678" }),
+    taxDisplay: "exclusive",
+    isOpen: true,
+    onClose: fn(),
+    onUpdateQuantity: fn(),
+    onRemove: fn(),
+  },
+};
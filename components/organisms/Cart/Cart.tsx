@@ -1,15 +1,60 @@
 "use client";
 
-import { forwardRef, memo, useCallback, useEffect, useMemo } from "react";
+import {
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type FormEvent,
+} from "react";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
-import { ShoppingCart, X, Plus, Minus, Moon } from "lucide-react";
+import {
+  ShoppingCart,
+  X,
+  Plus,
+  Minus,
+  Moon,
+  AlertTriangle,
+  Package,
+  ChevronDown,
+  Tag,
+} from "lucide-react";
 import { useTranslations } from "next-intl";
 import Box from "@mui/material/Box";
 import Typography from "@mui/material/Typography";
 
-import { ProductImage } from "@atoms";
-import { primary, springs, shadows, zIndex, fontFamilies } from "@/app/ui/theme";
-import type { AylaCartItem } from "@types";
+import { Input, Price, ProductImage } from "@atoms";
+import { usePriceFormatter, useProductLocalization } from "@hooks";
+import { getCartLineKey } from "@lib/cart";
+import { getCartBreakdown } from "@lib/checkout";
+import {
+  STORE_CURRENCY,
+  allocateMoney,
+  fromMajorUnits,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+} from "@lib/money";
+import {
+  primary,
+  semantic,
+  springs,
+  shadows,
+  zIndex,
+  fontFamilies,
+} from "@/app/ui/theme";
+import type {
+  AylaAppliedPromotion,
+  AylaBundle,
+  AylaBundleOffer,
+  AylaCartBreakdown,
+  AylaCartBundle,
+  AylaCartItem,
+  AylaTaxDisplay,
+  Money,
+} from "@types";
 
 // =============================================================================
 // TYPES
@@ -22,12 +67,32 @@ export interface CartProps {
   isOpen: boolean;
   /** Callback to close the cart */
   onClose: () => void;
-  /** Callback to update item quantity */
-  onUpdateQuantity: (id: number, quantity: number) => void;
-  /** Callback to remove an item */
-  onRemove: (id: number) => void;
+  /** Callback to update item quantity (receives the line key: product + variant) */
+  onUpdateQuantity: (key: string, quantity: number) => void;
+  /** Callback to remove an item (receives the line key) */
+  onRemove: (key: string) => void;
   /** Callback when checkout is clicked */
   onCheckout?: () => void;
+  /** Callback to accept updated prices on flagged items */
+  onAcknowledgeIssues?: () => void;
+  /** Bundles completed by the items (their products are shown collapsed) */
+  bundles?: AylaCartBundle[];
+  /** Bundles the items are close to completing */
+  bundleOffers?: AylaBundleOffer[];
+  /** Callback to add the products missing from an offered bundle */
+  onAddBundle?: (bundle: AylaBundle) => void;
+  /** Callback to remove one bundle (its products) from the cart */
+  onRemoveBundle?: (bundleId: number) => void;
+  /** Promotion codes applied to the cart */
+  promotions?: AylaAppliedPromotion[];
+  /** Callback to apply a promotion code (shows the coupon input when set) */
+  onApplyPromotion?: (code: string) => Promise<boolean> | void;
+  /** Callback to remove an applied promotion code */
+  onRemovePromotion?: (code: string) => void;
+  /** Cart amounts (computed from items, bundles and promotions when omitted) */
+  breakdown?: AylaCartBreakdown;
+  /** Show amounts with VAT included (consumers) or without it (businesses) */
+  taxDisplay?: AylaTaxDisplay;
   /** Custom className for the drawer */
   className?: string;
   /** Test ID for testing purposes */
@@ -40,21 +105,36 @@ export interface CartProps {
 
 interface CartItemProps {
   item: AylaCartItem;
-  onUpdateQuantity: (id: number, quantity: number) => void;
-  onRemove: (id: number) => void;
+  /** Units of the line already shown inside a bundle */
+  bundledQuantity?: number;
+  /** Converts catalog amounts to the displayed tax mode */
+  toDisplayAmount: (value: Money) => Money;
+  onUpdateQuantity: (key: string, quantity: number) => void;
+  onRemove: (key: string) => void;
   translations: {
     decreaseQuantity: string;
     increaseQuantity: string;
     removeItem: (name: string) => string;
+    discontinued: string;
+    priceChanged: (previousPrice: string) => string;
   };
 }
 
 const CartItem = memo(function CartItem({
   item,
+  bundledQuantity = 0,
+  toDisplayAmount,
   onUpdateQuantity,
   onRemove,
   translations,
 }: CartItemProps) {
+  const key = getCartLineKey(item.id, item.variantId);
+  const { format } = usePriceFormatter();
+
+  // Bundled units stay in the cart when the loose units are removed
+  const handleRemove = () =>
+    bundledQuantity > 0 ? onUpdateQuantity(key, bundledQuantity) : onRemove(key);
+
   return (
     <Box
       className="flex gap-4 p-4 rounded-xl"
@@ -85,21 +165,51 @@ const CartItem = memo(function CartItem({
         >
           {item.name}
         </Typography>
-        <Typography
+        {item.variantName && (
+          <Typography sx={{ fontSize: "0.75rem", color: "text.secondary" }}>
+            {item.variantName}
+          </Typography>
+        )}
+        <Price
+          value={toDisplayAmount(fromMajorUnits(item.price))}
           sx={{
+            display: "block",
             fontSize: "0.875rem",
             fontWeight: 600,
             color: "primary.main",
           }}
-        >
-          €{item.price.toFixed(2)}
-        </Typography>
+        />
+
+        {/* Reconciliation issue */}
+        {item.issue && (
+          <Typography
+            role="status"
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              gap: 0.5,
+              mt: 0.5,
+              fontSize: "0.75rem",
+              color:
+                item.issue === "discontinued"
+                  ? semantic.error.main
+                  : semantic.warning.dark,
+            }}
+          >
+            <AlertTriangle size={12} />
+            {item.issue === "discontinued"
+              ? translations.discontinued
+              : translations.priceChanged(
+                  format(toDisplayAmount(fromMajorUnits(item.previousPrice ?? item.price)))
+                )}
+          </Typography>
+        )}
 
         {/* Quantity controls */}
         <Box className="flex items-center gap-2 mt-2">
           <Box
             component="button"
-            onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
+            onClick={() => onUpdateQuantity(key, item.quantity - 1)}
             className="p-1 rounded transition-colors"
             sx={{
               bgcolor: `${primary.light}33`,
@@ -122,13 +232,14 @@ const CartItem = memo(function CartItem({
               color: "text.secondary",
             }}
           >
-            {item.quantity}
+            {item.quantity - bundledQuantity}
           </Typography>
 
           <Box
             component="button"
-            onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-            className="p-1 rounded transition-colors"
+            onClick={() => onUpdateQuantity(key, item.quantity + 1)}
+            disabled={item.issue === "discontinued"}
+            className="p-1 rounded transition-colors disabled:opacity-40"
             sx={{
               bgcolor: `${primary.light}33`,
               "&:hover": {
@@ -143,7 +254,7 @@ const CartItem = memo(function CartItem({
           {/* Remove button */}
           <Box
             component="button"
-            onClick={() => onRemove(item.id)}
+            onClick={handleRemove}
             className="ml-auto p-1 rounded transition-colors"
             sx={{
               bgcolor: "transparent",
@@ -161,6 +272,207 @@ const CartItem = memo(function CartItem({
   );
 });
 
+interface CartBundleLineProps {
+  cartBundle: AylaCartBundle;
+  /** Converts catalog amounts to the displayed tax mode */
+  toDisplayAmount: (value: Money) => Money;
+  onRemove?: (bundleId: number) => void;
+  translations: {
+    products: (count: number) => string;
+    showContents: string;
+    hideContents: string;
+    removeBundle: (name: string) => string;
+  };
+}
+
+const CartBundleLine = memo(function CartBundleLine({
+  cartBundle,
+  toDisplayAmount,
+  onRemove,
+  translations,
+}: CartBundleLineProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { bundle, count, items, subtotal, discount } = cartBundle;
+  const contentsId = `cart-bundle-${bundle.id}`;
+
+  return (
+    <Box
+      className="p-4 rounded-xl"
+      sx={{
+        bgcolor: "background.paper",
+        border: `1px solid`,
+        borderColor: `${primary.main}66`,
+        boxShadow: shadows.sm,
+      }}
+    >
+      <Box className="flex gap-4">
+        {/* Bundle image */}
+        <Box className="w-16 h-16 rounded-lg overflow-hidden shrink-0">
+          <ProductImage type={bundle.imageType} className="w-full h-full" />
+        </Box>
+
+        {/* Bundle details */}
+        <Box className="flex-1 min-w-0">
+          <Typography
+            component="h4"
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              gap: 0.5,
+              fontWeight: 500,
+              fontSize: "0.875rem",
+              color: "text.primary",
+            }}
+          >
+            <Package size={14} style={{ color: primary.dark }} />
+            {bundle.name}
+            {count > 1 && (
+              <Box component="span" sx={{ color: "text.secondary" }}>
+                × {count}
+              </Box>
+            )}
+          </Typography>
+          <Box className="flex items-baseline gap-2">
+            <Price
+              value={toDisplayAmount(
+                subtractMoney(fromMajorUnits(subtotal), fromMajorUnits(discount))
+              )}
+              sx={{
+                fontSize: "0.875rem",
+                fontWeight: 600,
+                color: "primary.main",
+              }}
+            />
+            <Price
+              value={toDisplayAmount(fromMajorUnits(subtotal))}
+              component="s"
+              sx={{ fontSize: "0.75rem", color: "text.disabled" }}
+            />
+          </Box>
+
+          <Box className="flex items-center gap-2 mt-2">
+            <Box
+              component="button"
+              onClick={() => setIsExpanded((expanded) => !expanded)}
+              aria-expanded={isExpanded}
+              aria-controls={contentsId}
+              className="flex items-center gap-1 text-xs font-semibold"
+              sx={{ color: "primary.dark" }}
+            >
+              <ChevronDown
+                size={14}
+                style={{
+                  transform: isExpanded ? "rotate(180deg)" : undefined,
+                  transition: "transform 0.2s",
+                }}
+              />
+              {isExpanded ? translations.hideContents : translations.showContents}
+              {" · "}
+              {translations.products(items.length)}
+            </Box>
+
+            {onRemove && (
+              <Box
+                component="button"
+                onClick={() => onRemove(bundle.id)}
+                className="ml-auto p-1 rounded transition-colors"
+                sx={{
+                  bgcolor: "transparent",
+                  "&:hover": {
+                    bgcolor: "error.light",
+                  },
+                }}
+                aria-label={translations.removeBundle(bundle.name)}
+              >
+                <X size={14} className="text-red-500" />
+              </Box>
+            )}
+          </Box>
+        </Box>
+      </Box>
+
+      {/* Contained products */}
+      {isExpanded && (
+        <Box component="ul" id={contentsId} className="mt-3 space-y-1 pl-20">
+          {items.map((item) => (
+            <Typography
+              component="li"
+              key={getCartLineKey(item.id, item.variantId)}
+              sx={{ fontSize: "0.75rem", color: "text.secondary" }}
+            >
+              {item.quantity} × {item.name}
+              {item.variantName ? ` · ${item.variantName}` : ""}
+            </Typography>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+});
+
+interface CouponFormProps {
+  onApply: (code: string) => Promise<boolean> | void;
+  translations: {
+    label: string;
+    placeholder: string;
+    apply: string;
+    applying: string;
+  };
+}
+
+const CouponForm = memo(function CouponForm({
+  onApply,
+  translations,
+}: CouponFormProps) {
+  const [code, setCode] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!code.trim() || isApplying) return;
+
+    setIsApplying(true);
+    try {
+      const applied = await onApply(code);
+      // Keep the code on rejection so it can be corrected
+      if (applied !== false) setCode("");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} className="flex gap-2 mb-4">
+      <Input
+        size="sm"
+        fullWidth
+        aria-label={translations.label}
+        placeholder={translations.placeholder}
+        startAdornment={<Tag size={14} />}
+        value={code}
+        onChange={(event) => setCode(event.target.value)}
+        maxLength={32}
+        autoComplete="off"
+      />
+      <Box
+        component="button"
+        type="submit"
+        disabled={!code.trim() || isApplying}
+        className="px-4 rounded-xl text-sm font-semibold shrink-0 disabled:opacity-40"
+        sx={{
+          bgcolor: `${primary.light}33`,
+          color: "primary.dark",
+          "&:hover": {
+            bgcolor: `${primary.light}66`,
+          },
+        }}
+      >
+        {isApplying ? translations.applying : translations.apply}
+      </Box>
+    </Box>
+  );
+});
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -170,9 +482,13 @@ const CartItem = memo(function CartItem({
  *
  * A responsive sidebar cart featuring:
  * - Animated slide-in from right
- * - Cart items with quantity controls
+ * - Cart items with quantity controls (one line per product + variant)
+ * - Bundle lines with their products collapsed, and offers to complete bundles
  * - Empty state with decorative icon
- * - Subtotal calculation
+ * - Coupon input for promotion codes
+ * - Subtotal, discounts, VAT and total, with or without VAT in the amounts
+ * - Reverse-charge and non-EU notes for businesses and foreign buyers
+ * - Warnings for discontinued or re-priced items
  * - Checkout button
  *
  * @features
@@ -204,6 +520,16 @@ export const Cart = memo(
       onUpdateQuantity,
       onRemove,
       onCheckout,
+      onAcknowledgeIssues,
+      bundles = [],
+      bundleOffers = [],
+      onAddBundle,
+      onRemoveBundle,
+      promotions = [],
+      onApplyPromotion,
+      onRemovePromotion,
+      breakdown: breakdownProp,
+      taxDisplay = "inclusive",
       className = "",
       "data-testid": testId,
     },
@@ -211,6 +537,8 @@ export const Cart = memo(
   ) {
     const t = useTranslations("Components.cart");
     const prefersReducedMotion = useReducedMotion();
+    const { currency, format } = usePriceFormatter();
+    const { localizeProduct, localizeCartItem } = useProductLocalization();
 
     // Translation helpers for CartItem
     const cartItemTranslations = useMemo(
@@ -218,14 +546,117 @@ export const Cart = memo(
         decreaseQuantity: t("aria.decreaseQuantity"),
         increaseQuantity: t("aria.increaseQuantity"),
         removeItem: (name: string) => t("aria.removeItem", { name }),
+        discontinued: t("issues.discontinued"),
+        priceChanged: (previousPrice: string) =>
+          t("issues.priceChanged", { previousPrice }),
+      }),
+      [t]
+    );
+
+    const bundleTranslations = useMemo(
+      () => ({
+        products: (count: number) => t("bundles.products", { count }),
+        showContents: t("bundles.showContents"),
+        hideContents: t("bundles.hideContents"),
+        removeBundle: (name: string) => t("aria.removeBundle", { name }),
       }),
       [t]
     );
 
-    // Calculate total
-    const total = useMemo(() => {
-      return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    }, [items]);
+    const couponTranslations = useMemo(
+      () => ({
+        label: t("promotions.label"),
+        placeholder: t("promotions.placeholder"),
+        apply: t("promotions.apply"),
+        applying: t("promotions.applying"),
+      }),
+      [t]
+    );
+
+    // Cart amounts (discontinued items cannot be purchased)
+    const breakdown = useMemo<AylaCartBreakdown>(
+      () => breakdownProp ?? getCartBreakdown(items, [...bundles, ...promotions]),
+      [breakdownProp, items, bundles, promotions]
+    );
+
+    const bundleDiscount = useMemo(
+      () => sumMoney(bundles.map((cartBundle) => fromMajorUnits(cartBundle.discount))),
+      [bundles]
+    );
+
+    const isTaxExclusive = taxDisplay === "exclusive";
+
+    // Catalog prices include VAT: lines are scaled to the breakdown's taxable base
+    const toDisplayAmount = useCallback(
+      (value: Money) =>
+        isTaxExclusive && breakdown.subtotal.amount > 0
+          ? multiplyMoney(
+              value,
+              breakdown.excludingTax.subtotal.amount / breakdown.subtotal.amount
+            )
+          : value,
+      [isTaxExclusive, breakdown]
+    );
+
+    // Discount rows without VAT, split so that they add up to the breakdown
+    const displayedDiscounts = useMemo(() => {
+      const rows = [
+        bundleDiscount,
+        ...promotions.map(({ discount, rejection }) =>
+          fromMajorUnits(rejection ? 0 : discount)
+        ),
+      ];
+      if (!isTaxExclusive) return rows;
+      return allocateMoney(
+        breakdown.excludingTax.discount,
+        rows.map((row) => row.amount)
+      );
+    }, [bundleDiscount, promotions, isTaxExclusive, breakdown]);
+
+    // Units of each line shown inside a bundle
+    const bundledQuantities = useMemo(() => {
+      const quantities = new Map<string, number>();
+      for (const cartBundle of bundles) {
+        for (const item of cartBundle.items) {
+          const key = getCartLineKey(item.id, item.variantId);
+          quantities.set(key, (quantities.get(key) ?? 0) + item.quantity);
+        }
+      }
+      return quantities;
+    }, [bundles]);
+
+    // Lines shown with the product content in the visitor's locale
+    const looseItems = useMemo(
+      () =>
+        items
+          .filter(
+            (item) =>
+              item.quantity >
+              (bundledQuantities.get(getCartLineKey(item.id, item.variantId)) ?? 0)
+          )
+          .map(localizeCartItem),
+      [items, bundledQuantities, localizeCartItem]
+    );
+
+    const displayedBundles = useMemo(
+      () =>
+        bundles.map((cartBundle) => ({
+          ...cartBundle,
+          items: cartBundle.items.map(localizeCartItem),
+        })),
+      [bundles, localizeCartItem]
+    );
+
+    const formatDiscount = (bundle: AylaBundle) =>
+      bundle.discount_type === "percentage"
+        ? `${bundle.discount_value}%`
+        : format(fromMajorUnits(bundle.discount_value));
+
+    const hasIssues = useMemo(() => items.some((item) => item.issue), [items]);
+    const hasPriceChanges = useMemo(
+      () => items.some((item) => item.issue === "price_changed"),
+      [items]
+    );
 
     // Handle escape key
     useEffect(() => {
@@ -391,15 +822,96 @@ export const Cart = memo(
                   ) : (
                     /* Cart items */
                     <Box className="space-y-4">
-                      {items.map((item) => (
-                        <CartItem
-                          key={item.id}
-                          item={item}
-                          onUpdateQuantity={onUpdateQuantity}
-                          onRemove={onRemove}
-                          translations={cartItemTranslations}
+                      {hasIssues && (
+                        <Box
+                          role="alert"
+                          className="p-4 rounded-xl"
+                          sx={{
+                            bgcolor: `${semantic.warning.main}1A`,
+                            border: "1px solid",
+                            borderColor: `${semantic.warning.main}66`,
+                          }}
+                        >
+                          <Typography
+                            sx={{ fontSize: "0.875rem", color: "text.primary" }}
+                          >
+                            {t("issues.banner")}
+                          </Typography>
+                          {onAcknowledgeIssues && hasPriceChanges && (
+                            <Box
+                              component="button"
+                              onClick={onAcknowledgeIssues}
+                              className="mt-2 text-sm font-semibold underline"
+                              sx={{ color: "primary.dark" }}
+                            >
+                              {t("issues.acceptPrices")}
+                            </Box>
+                          )}
+                        </Box>
+                      )}
+                      {displayedBundles.map((cartBundle) => (
+                        <CartBundleLine
+                          key={cartBundle.bundle.id}
+                          cartBundle={cartBundle}
+                          toDisplayAmount={toDisplayAmount}
+                          onRemove={onRemoveBundle}
+                          translations={bundleTranslations}
                         />
                       ))}
+                      {looseItems.map((item) => {
+                        const key = getCartLineKey(item.id, item.variantId);
+                        return (
+                          <CartItem
+                            key={key}
+                            item={item}
+                            bundledQuantity={bundledQuantities.get(key)}
+                            toDisplayAmount={toDisplayAmount}
+                            onUpdateQuantity={onUpdateQuantity}
+                            onRemove={onRemove}
+                            translations={cartItemTranslations}
+                          />
+                        );
+                      })}
+                      {bundleOffers.map(({ bundle, missing }) => (
+                        <Box
+                          key={bundle.id}
+                          className="p-4 rounded-xl"
+                          sx={{
+                            bgcolor: `${primary.light}1A`,
+                            border: "1px dashed",
+                            borderColor: `${primary.main}66`,
+                          }}
+                        >
+                          <Typography
+                            sx={{
+                              display: "flex",
+                              alignItems: "center",
+                              gap: 0.5,
+                              fontSize: "0.875rem",
+                              color: "text.primary",
+                            }}
+                          >
+                            <Package size={14} style={{ color: primary.dark }} />
+                            {t("bundles.offer", {
+                              products: missing
+                                .map(({ product }) => localizeProduct(product).name)
+                                .join(", "),
+                              name: bundle.name,
+                              discount: formatDiscount(bundle),
+                            })}
+                          </Typography>
+                          {onAddBundle && (
+                            <Box
+                              component="button"
+                              onClick={() => onAddBundle(bundle)}
+                              className="mt-2 text-sm font-semibold underline"
+                              sx={{ color: "primary.dark" }}
+                            >
+                              {t("bundles.complete")}
+                            </Box>
+                          )}
+                        </Box>
+                      ))}
                     </Box>
                   )}
                 </Box>
@@ -414,20 +926,147 @@ export const Cart = memo(
                       borderColor: "divider",
                     }}
                   >
-                    <Box className="flex justify-between items-center mb-4">
-                      <Typography sx={{ color: "text.secondary" }}>
-                        {t("subtotal")}
-                      </Typography>
+                    {onApplyPromotion && (
+                      <CouponForm
+                        onApply={onApplyPromotion}
+                        translations={couponTranslations}
+                      />
+                    )}
+
+                    <Box className="flex justify-between items-center mb-1">
                       <Typography
+                        sx={{ fontSize: "0.875rem", color: "text.secondary" }}
+                      >
+                        {isTaxExclusive ? t("tax.subtotal") : t("subtotal")}
+                      </Typography>
+                      <Price
+                        value={
+                          isTaxExclusive
+                            ? breakdown.excludingTax.subtotal
+                            : breakdown.subtotal
+                        }
+                        sx={{ fontSize: "0.875rem", color: "text.secondary" }}
+                      />
+                    </Box>
+                    {bundleDiscount.amount > 0 && (
+                      <Box className="flex justify-between items-center mb-1">
+                        <Typography
+                          sx={{ fontSize: "0.875rem", color: semantic.success.dark }}
+                        >
+                          {t("bundles.discount")}
+                        </Typography>
+                        <Price
+                          value={displayedDiscounts[0]}
+                          negative
+                          sx={{ fontSize: "0.875rem", color: semantic.success.dark }}
+                        />
+                      </Box>
+                    )}
+                    {promotions.map(({ promotion, rejection }, index) => (
+                      <Box
+                        key={promotion.code}
+                        className="flex justify-between items-center gap-2 mb-1"
+                      >
+                        <Typography
+                          sx={{
+                            display: "flex",
+                            alignItems: "center",
+                            gap: 0.5,
+                            fontSize: "0.875rem",
+                            color: rejection ? "text.disabled" : semantic.success.dark,
+                          }}
+                        >
+                          <Tag size={12} />
+                          {t("promotions.discount", { code: promotion.code })}
+                          {onRemovePromotion && (
+                            <Box
+                              component="button"
+                              onClick={() => onRemovePromotion(promotion.code)}
+                              className="p-0.5 rounded transition-colors"
+                              sx={{
+                                bgcolor: "transparent",
+                                "&:hover": {
+                                  bgcolor: "error.light",
+                                },
+                              }}
+                              aria-label={t("promotions.remove", {
+                                code: promotion.code,
+                              })}
+                            >
+                              <X size={12} className="text-red-500" />
+                            </Box>
+                          )}
+                        </Typography>
+                        {rejection ? (
+                          <Typography
+                            title={t(`promotions.rejected.${rejection}`)}
+                            sx={{ fontSize: "0.875rem", color: "text.disabled" }}
+                          >
+                            {t("promotions.notApplicable")}
+                          </Typography>
+                        ) : (
+                          <Price
+                            value={displayedDiscounts[index + 1]}
+                            negative
+                            sx={{ fontSize: "0.875rem", color: semantic.success.dark }}
+                          />
+                        )}
+                      </Box>
+                    ))}
+                    {isTaxExclusive && (
+                      <>
+                        <Box className="flex justify-between items-center mt-2 mb-1">
+                          <Typography
+                            sx={{ fontSize: "0.875rem", color: "text.secondary" }}
+                          >
+                            {t("tax.base")}
+                          </Typography>
+                          <Price
+                            value={breakdown.excludingTax.total}
+                            sx={{ fontSize: "0.875rem", color: "text.secondary" }}
+                          />
+                        </Box>
+                        <Box className="flex justify-between items-center mb-1">
+                          <Typography
+                            sx={{ fontSize: "0.875rem", color: "text.secondary" }}
+                          >
+                            {t("tax.vat", { rate: breakdown.taxRate })}
+                          </Typography>
+                          <Price
+                            value={breakdown.tax}
+                            sx={{ fontSize: "0.875rem", color: "text.secondary" }}
+                          />
+                        </Box>
+                      </>
+                    )}
+                    <Box className="flex justify-between items-center mb-4 mt-2">
+                      <Box>
+                        <Typography sx={{ color: "text.secondary" }}>
+                          {t("total")}
+                        </Typography>
+                        <Typography
+                          sx={{ fontSize: "0.75rem", color: "text.disabled" }}
+                        >
+                          {breakdown.taxTreatment === "reverse_charge" &&
+                            t("tax.reverseCharge")}
+                          {breakdown.taxTreatment === "outside_eu" && t("tax.outsideEu")}
+                          {breakdown.taxTreatment === "standard" && !isTaxExclusive && (
+                            <>
+                              {t("tax.included", { rate: breakdown.taxRate })}{" "}
+                              <Price value={breakdown.tax} />
+                            </>
+                          )}
+                        </Typography>
+                      </Box>
+                      <Price
+                        value={breakdown.total}
                         sx={{
                           fontFamily: fontFamilies.heading,
                           fontSize: "1.5rem",
                           fontWeight: 600,
                           color: "text.primary",
                         }}
-                      >
-                        €{total.toFixed(2)}
-                      </Typography>
+                      />
                     </Box>
 
                     <Box
@@ -455,6 +1094,8 @@ export const Cart = memo(
                       }}
                     >
                       {t("checkoutNote")}
+                      {currency !== STORE_CURRENCY &&
+                        ` ${t("chargedIn", { currency: STORE_CURRENCY })}`}
                     </Typography>
                   </Box>
                 )}
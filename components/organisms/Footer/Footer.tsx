@@ -131,10 +131,13 @@ export const Footer = forwardRef<HTMLElement, FooterProps>(
       {
         title: t("products.title"),
         links: [
-          { label: t("products.planners"), href: "/products/planners" },
-          { label: t("products.cards"), href: "/products/cards" },
-          { label: t("products.socialMedia"), href: "/products/social-media" },
-          { label: t("products.branding"), href: "/products/branding" },
+          { label: t("products.planners"), href: "/products/category/planners" },
+          { label: t("products.cards"), href: "/products/category/tarjetas" },
+          {
+            label: t("products.socialMedia"),
+            href: "/products/category/social-media",
+          },
+          { label: t("products.branding"), href: "/products/category/branding" },
         ],
       },
       {
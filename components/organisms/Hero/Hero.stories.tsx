@@ -130,7 +130,7 @@ export const LeftAligned: Story = {
     headline: "Planners Digitales",
     subheadline: "Organiza tu vida con estilo bohemio",
     ctaText: "Ver planners",
-    ctaHref: "/products/planners",
+    ctaHref: "/products/category/planners",
     backgroundImage: musicianBg,
     overlay: "dark",
     align: "left",
@@ -36,7 +36,7 @@ const meta: Meta<typeof ProductCard> = {
     docs: {
       description: {
         component: `
-ProductCard displays a product with image, category, title, description, and price.
+ProductCard displays a product with image, category, title, rating, description, and price.
 
 ## Features
 - **Hover Overlay**: Action buttons appear on hover
@@ -105,6 +105,17 @@ export const Default: Story = {
   },
 };
 
+/**
+ * Product with approved reviews: the aggregate rating is shown under the title
+ */
+export const WithRating: Story = {
+  args: {
+    product: products[0],
+    rating: { average: 4.7, count: 23, distribution: { 1: 0, 2: 0, 3: 1, 4: 5, 5: 17 } },
+    index: 0,
+  },
+};
+
 /**
  * Celestial Planner 2025 - Digital planner with lunar phases
  */
@@ -8,7 +8,10 @@ import Typography from "@mui/material/Typography";
 
 import { Button } from "@/components/atoms/Button";
 import { Chip } from "@/components/atoms/Chip";
+import { FavoriteButton } from "@/components/atoms/FavoriteButton";
+import { Price } from "@/components/atoms/Price";
 import { ProductImage } from "@/components/atoms/ProductImage";
+import { RatingStars } from "@/components/atoms/RatingStars";
 import {
   springs,
   primary,
@@ -18,7 +21,10 @@ import {
   categoryColors,
   fontFamilies,
 } from "@/app/ui/theme";
-import type { AylaProduct } from "@/types/ayla";
+import { useProductLocalization } from "@hooks";
+import { getProductCover, getStartingPrice, hasPriceRange } from "@lib/catalog";
+import { fromMajorUnits } from "@lib/money";
+import type { AylaProduct, AylaRatingSummary } from "@/types/ayla";
 
 // =============================================================================
 // TYPES
@@ -27,10 +33,16 @@ import type { AylaProduct } from "@/types/ayla";
 export interface ProductCardProps {
   /** Product data */
   product: AylaProduct;
+  /** Aggregate rating of the product (hidden until it has reviews) */
+  rating?: AylaRatingSummary;
   /** Callback when "Add to Cart" is clicked */
   onAddToCart?: (product: AylaProduct) => void;
   /** Callback when "View Product" is clicked or card is clicked */
   onViewProduct?: (product: AylaProduct) => void;
+  /** Whether the product is in the favorites */
+  isFavorite?: boolean;
+  /** Callback when the heart is clicked (the heart is hidden without it) */
+  onToggleFavorite?: (product: AylaProduct) => void;
   /** Index for staggered animation */
   index?: number;
   /** Additional CSS class */
@@ -54,11 +66,13 @@ const getCategoryColor = (category: string): string => {
 // =============================================================================
 
 /**
- * ProductCard displays a product with image, category, title, description, and price.
+ * ProductCard displays a product with image, category, title, rating, description, and price.
+ * Products whose variants have different prices show a "from" price.
  *
  * ## Features
  * - **Hover Overlay**: Action buttons appear on hover
  * - **Add to Cart Feedback**: Visual confirmation when item is added
+ * - **Favorites**: Heart toggle in the top-right corner
  * - **M3 Expressive Animation**: Scale and shadow on hover
  * - **Reduced Motion Support**: Respects user's motion preferences
  * - **Atomic Composition**: Uses Button, Chip, and ProductImage atoms
@@ -70,14 +84,33 @@ const getCategoryColor = (category: string): string => {
  *   product={product}
  *   onAddToCart={(p) => addToCart(p)}
  *   onViewProduct={(p) => openModal(p)}
+ *   isFavorite={favoriteIds.includes(product.id)}
+ *   onToggleFavorite={toggleFavorite}
  * />
  * ```
  */
 export const ProductCard = forwardRef<HTMLDivElement, ProductCardProps>(
-  ({ product, onAddToCart, onViewProduct, index = 0, className = "" }, ref) => {
+  (
+    {
+      product,
+      rating,
+      onAddToCart,
+      onViewProduct,
+      isFavorite = false,
+      onToggleFavorite,
+      index = 0,
+      className = "",
+    },
+    ref
+  ) => {
     const prefersReducedMotion = useReducedMotion();
     const [isHovered, setIsHovered] = useState(false);
     const [addedToCart, setAddedToCart] = useState(false);
+    const { localizeProduct } = useProductLocalization();
+
+    // Name and description in the visitor's locale
+    const content = localizeProduct(product);
+    const cover = getProductCover(product);
 
     const handleAddToCart = (e: React.MouseEvent) => {
       e.stopPropagation();
@@ -135,7 +168,14 @@ export const ProductCard = forwardRef<HTMLDivElement, ProductCardProps>(
             boxShadow: isHovered ? shadows.cardHover : shadows.card,
           }}
         >
-          <ProductImage type={product.imageType} className="w-full h-full" />
+          <ProductImage
+            type={product.imageType}
+            src={cover?.src}
+            blurDataURL={cover?.blurDataURL}
+            alt={cover?.alt ?? content.name}
+            sizes="(min-width: 1200px) 384px, (min-width: 600px) 50vw, 100vw"
+            className="w-full h-full"
+          />
 
           {/* Category badge using Chip atom with categoryColors */}
           <Box sx={{ position: "absolute", top: 12, left: 12, zIndex: 10 }}>
@@ -158,6 +198,16 @@ export const ProductCard = forwardRef<HTMLDivElement, ProductCardProps>(
             />
           </Box>
 
+          {/* Favorite toggle, above the hover overlay */}
+          {onToggleFavorite && (
+            <Box sx={{ position: "absolute", top: 8, right: 8, zIndex: 20 }}>
+              <FavoriteButton
+                active={isFavorite}
+                onToggle={() => onToggleFavorite(product)}
+              />
+            </Box>
+          )}
+
           {/* Hover overlay with actions */}
           <Box
             sx={{
@@ -253,9 +303,16 @@ export const ProductCard = forwardRef<HTMLDivElement, ProductCardProps>(
               transition: "color 0.2s ease",
             }}
           >
-            {product.name}
+            {content.name}
           </Typography>
 
+          {/* Aggregate rating of the approved reviews */}
+          {rating && rating.count > 0 && (
+            <Box sx={{ mt: 0.5 }}>
+              <RatingStars value={rating.average} count={rating.count} showValue />
+            </Box>
+          )}
+
           {/* Description - Nunito Sans per branding */}
           <Typography
             sx={{
@@ -270,7 +327,7 @@ export const ProductCard = forwardRef<HTMLDivElement, ProductCardProps>(
               overflow: "hidden",
             }}
           >
-            {product.description}
+            {content.description}
           </Typography>
 
           {/* Price - Cormorant Garamond per branding */}
@@ -283,7 +340,21 @@ export const ProductCard = forwardRef<HTMLDivElement, ProductCardProps>(
               color: "text.primary",
             }}
           >
-            €{product.price.toFixed(2)}
+            {hasPriceRange(product) && (
+              <Box
+                component="span"
+                sx={{
+                  mr: 0.5,
+                  fontFamily: fontFamilies.body,
+                  fontSize: "0.875rem",
+                  fontWeight: 400,
+                  color: "text.secondary",
+                }}
+              >
+                Desde
+              </Box>
+            )}
+            <Price value={fromMajorUnits(getStartingPrice(product))} />
           </Typography>
         </Box>
       </motion.div>
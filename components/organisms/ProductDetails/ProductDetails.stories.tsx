@@ -0,0 +1,90 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { fn } from "storybook/test";
+import { ProductDetails } from "./ProductDetails";
+import { products } from "@/data/ayla";
+
+// =============================================================================
+// META
+// =============================================================================
+
+const meta: Meta<typeof ProductDetails> = {
+  title: "Organisms/ProductDetails",
+  component: ProductDetails,
+  tags: ["autodocs"],
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+Product information and purchase panel, shared by ProductModal and the product page.
+
+## Features
+- Star rating and review count
+- Variant picker that updates price and features
+- Features list with checkmarks
+- Add to cart button
+
+## Usage
+\`\`\`tsx
+<ProductDetails
+  product={product}
+  titleComponent="h1"
+  onAddToCart={handleAddToCart}
+/>
+\`\`\`
+        `,
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ maxWidth: 480 }}>
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    product: {
+      control: false,
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof ProductDetails>;
+
+// =============================================================================
+// STORIES
+// =============================================================================
+
+/**
+ * Product sold as Basic and Premium
+ */
+export const Default: Story = {
+  args: {
+    product: products[0],
+    onAddToCart: fn(),
+  },
+};
+
+/**
+ * Product page heading (h1) with its aggregate rating
+ */
+export const AsPageHeading: Story = {
+  args: {
+    product: products[3],
+    titleComponent: "h1",
+    rating: { average: 4.6, count: 128, distribution: { 1: 2, 2: 3, 3: 8, 4: 20, 5: 95 } },
+    onAddToCart: fn(),
+  },
+};
+
+/**
+ * Product sold as a single version
+ */
+export const SingleVersion: Story = {
+  args: {
+    product: { ...products[1], variants: undefined },
+    onAddToCart: fn(),
+  },
+};
@@ -0,0 +1,242 @@
+"use client";
+
+import { forwardRef, memo, useCallback, useId, useMemo, useState } from "react";
+import { Check, ShoppingCart } from "lucide-react";
+import { Price, RatingStars } from "@atoms";
+import { useProductLocalization } from "@hooks";
+import { primary, neutral, shadows } from "@/app/ui/theme";
+import { findVariant, getProductVariants } from "@lib/catalog";
+import { fromMajorUnits } from "@lib/money";
+import type { AylaProduct, AylaRatingSummary, AylaVariant } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProductDetailsProps {
+  /** Product to display */
+  product: AylaProduct;
+  /** Callback when add to cart is clicked (with the selected variant, if any) */
+  onAddToCart?: (product: AylaProduct, variant?: AylaVariant) => void;
+  /** Aggregate rating of the product's approved reviews (none yet when omitted) */
+  rating?: AylaRatingSummary;
+  /** Heading element for the product name (h1 on the product page) */
+  titleComponent?: "h1" | "h2";
+  /** ID of the product name heading (for aria-labelledby) */
+  titleId?: string;
+  /** Custom className for the container */
+  className?: string;
+  /** Test ID for testing purposes */
+  "data-testid"?: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ProductDetails - Product information and purchase panel
+ *
+ * Shared by the product modal and the product page:
+ * - Name, average rating and review count
+ * - Full description
+ * - Variant picker (Basic, Premium...) when the product has variants
+ * - Features list with checkmarks (of the selected variant)
+ * - Price and add-to-cart button
+ *
+ * @example
+ * ```tsx
+ * <ProductDetails
+ *   product={product}
+ *   titleComponent="h1"
+ *   onAddToCart={handleAddToCart}
+ * />
+ * ```
+ */
+export const ProductDetails = memo(
+  forwardRef<HTMLDivElement, ProductDetailsProps>(function ProductDetails(
+    {
+      product,
+      onAddToCart,
+      rating,
+      titleComponent: Title = "h2",
+      titleId,
+      className = "",
+      "data-testid": testId,
+    },
+    ref
+  ) {
+    const variantsLabelId = useId();
+    const { localizeProduct } = useProductLocalization();
+
+    // Name, description, variants and features in the visitor's locale
+    const content = useMemo(() => localizeProduct(product), [localizeProduct, product]);
+
+    // Selected variant, remembered per product (defaults to the cheapest)
+    const [selection, setSelection] = useState<{
+      productId: number;
+      variantId: number;
+    } | null>(null);
+    const variants = getProductVariants(content);
+    const selectedVariant = findVariant(
+      content,
+      selection?.productId === product.id ? selection.variantId : undefined
+    );
+    const price = selectedVariant?.price ?? product.price;
+    const features = selectedVariant?.features ?? content.features;
+
+    const handleAddToCart = useCallback(() => {
+      onAddToCart?.(product, selectedVariant);
+    }, [product, selectedVariant, onAddToCart]);
+
+    return (
+      <div
+        ref={ref}
+        className={`flex flex-col flex-1 ${className}`}
+        data-testid={testId}
+      >
+        <div className="flex-1">
+          {/* Title */}
+          <Title
+            id={titleId}
+            className="font-serif text-3xl md:text-4xl pr-10 mb-2"
+            style={{ color: neutral[800] }}
+          >
+            {content.name}
+          </Title>
+
+          {/* Rating */}
+          <RatingStars
+            value={rating?.average ?? 0}
+            count={rating?.count ?? 0}
+            showValue
+            className="mb-4"
+          />
+
+          {/* Description */}
+          <p className="leading-relaxed mb-6" style={{ color: neutral[600] }}>
+            {content.description}
+          </p>
+
+          {/* Variant picker */}
+          {variants.length > 1 && (
+            <div className="mb-6">
+              <h4
+                id={variantsLabelId}
+                className="text-sm font-semibold mb-3"
+                style={{ color: neutral[700] }}
+              >
+                Elige tu versión:
+              </h4>
+              <div
+                role="radiogroup"
+                aria-labelledby={variantsLabelId}
+                className="grid grid-cols-2 gap-3"
+              >
+                {variants.map((variant) => {
+                  const isSelected = variant.id === selectedVariant?.id;
+                  return (
+                    <button
+                      key={variant.id}
+                      type="button"
+                      role="radio"
+                      aria-checked={isSelected}
+                      onClick={() =>
+                        setSelection({
+                          productId: product.id,
+                          variantId: variant.id,
+                        })
+                      }
+                      className="p-3 rounded-xl text-left transition-colors"
+                      style={{
+                        border: `2px solid ${isSelected ? primary.main : neutral[200]}`,
+                        background: isSelected ? `${primary.light}26` : "transparent",
+                      }}
+                    >
+                      <span
+                        className="block text-sm font-semibold"
+                        style={{ color: neutral[800] }}
+                      >
+                        {variant.name}
+                      </span>
+                      <Price
+                        value={fromMajorUnits(variant.price)}
+                        className="block text-sm"
+                        style={{ color: neutral[600] }}
+                      />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Features */}
+          <div className="mb-6">
+            <h4
+              className="text-sm font-semibold mb-3"
+              style={{ color: neutral[700] }}
+            >
+              Incluye:
+            </h4>
+            <ul className="space-y-2">
+              {features.map((feature, i) => (
+                <li
+                  key={i}
+                  className="flex items-center gap-2"
+                  style={{ color: neutral[600] }}
+                >
+                  <Check
+                    size={16}
+                    className="flex-shrink-0"
+                    style={{ color: primary.main }}
+                  />
+                  <span className="text-sm">{feature}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {/* Footer with price and CTA */}
+        <div className="pt-4" style={{ borderTop: `1px solid ${primary.light}33` }}>
+          <div className="flex items-center justify-between mb-4">
+            <Price
+              value={fromMajorUnits(price)}
+              className="font-serif text-3xl"
+              style={{ color: neutral[800] }}
+            />
+            <span className="text-sm" style={{ color: neutral[500] }}>
+              {selectedVariant
+                ? `Descarga instantánea · ${selectedVariant.downloadLimit} descargas`
+                : "Descarga instantánea"}
+            </span>
+          </div>
+
+          <button
+            onClick={handleAddToCart}
+            className="w-full py-4 font-semibold rounded-xl transform transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center gap-2"
+            style={{
+              background: `linear-gradient(to right, ${primary.main}, ${primary.light})`,
+              color: neutral[900],
+              boxShadow: shadows.lg,
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.boxShadow = shadows.xl;
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.boxShadow = shadows.lg;
+            }}
+          >
+            <ShoppingCart size={20} />
+            Añadir al Carrito
+          </button>
+        </div>
+      </div>
+    );
+  })
+);
+
+ProductDetails.displayName = "ProductDetails";
+
+export default ProductDetails;
@@ -0,0 +1,2 @@
+export { ProductDetails, type ProductDetailsProps } from "./ProductDetails";
+export { default } from "./ProductDetails";
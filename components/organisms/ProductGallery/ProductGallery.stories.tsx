@@ -0,0 +1,82 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { ProductGallery } from "./ProductGallery";
+import { products } from "@/data/ayla";
+
+// =============================================================================
+// META
+// =============================================================================
+
+const meta: Meta<typeof ProductGallery> = {
+  title: "Organisms/ProductGallery",
+  component: ProductGallery,
+  tags: ["autodocs"],
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+Cover and preview pages of a product, used by ProductModal and the product page.
+
+## Features
+- Carousel with swipe, arrows and keyboard navigation
+- Thumbnail strip
+- Wheel, pinch and double-click zoom; drag to pan while zoomed
+- Responsive \`next/image\` sources with blur placeholders
+- \`imageType\` artwork for products without images
+
+## Usage
+\`\`\`tsx
+<ProductGallery product={product} aspectRatio={{ xs: "4 / 3", md: "4 / 5" }} />
+\`\`\`
+        `,
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ maxWidth: 420 }}>
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    product: {
+      control: false,
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof ProductGallery>;
+
+// =============================================================================
+// STORIES
+// =============================================================================
+
+/**
+ * Cover followed by preview pages
+ */
+export const Default: Story = {
+  args: {
+    product: products[0],
+  },
+};
+
+/**
+ * Landscape slides, as in the modal on small screens
+ */
+export const Landscape: Story = {
+  args: {
+    product: products[3],
+    aspectRatio: "16 / 9",
+  },
+};
+
+/**
+ * Product without images: the category artwork is shown
+ */
+export const WithoutImages: Story = {
+  args: {
+    product: { ...products[1], images: undefined },
+  },
+};
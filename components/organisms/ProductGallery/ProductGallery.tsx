@@ -0,0 +1,179 @@
+"use client";
+
+import { forwardRef, useCallback, useState } from "react";
+import Box from "@mui/material/Box";
+import { useTranslations } from "next-intl";
+import { ProductImage } from "@atoms";
+import { primary, neutral } from "@/app/ui/theme";
+import { useProductLocalization } from "@hooks";
+import { getProductImages } from "@lib/catalog";
+import type { AylaProduct } from "@types";
+import { Carousel, type CarouselProps } from "../Carousel";
+import { ZoomableImage } from "./ZoomableImage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProductGalleryProps {
+  /** Product whose images are shown */
+  product: AylaProduct;
+  /** Responsive `sizes` hint of the main image */
+  sizes?: string;
+  /** Slide aspect ratio, optionally per breakpoint */
+  aspectRatio?: CarouselProps["aspectRatio"];
+  /** Load the cover eagerly (product page, above the fold) */
+  priority?: boolean;
+  /** Additional CSS class */
+  className?: string;
+  /** Test ID for testing purposes */
+  "data-testid"?: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ProductGallery - Cover and preview pages of a product
+ *
+ * Features:
+ * - Carousel with swipe, arrows and keyboard navigation
+ * - Thumbnail strip to jump to any image
+ * - Wheel, pinch and double-click zoom (swiping pauses while zoomed)
+ * - Responsive `next/image` sources with blur placeholders
+ * - Falls back to the `imageType` artwork for products without images
+ *
+ * @example
+ * ```tsx
+ * <ProductGallery product={product} aspectRatio={{ xs: "4 / 3", md: "4 / 5" }} />
+ * ```
+ */
+export const ProductGallery = forwardRef<HTMLDivElement, ProductGalleryProps>(
+  (
+    {
+      product,
+      sizes = "(min-width: 768px) 50vw, 100vw",
+      aspectRatio = "4 / 5",
+      priority = false,
+      className,
+      "data-testid": testId,
+    },
+    ref
+  ) => {
+    const t = useTranslations("Components.productGallery");
+    const { localizeProduct } = useProductLocalization();
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [isZoomed, setIsZoomed] = useState(false);
+
+    const images = getProductImages(product);
+    const { name } = localizeProduct(product);
+
+    const handleChange = useCallback((index: number) => {
+      setActiveIndex(index);
+      // The previous slide unmounts together with its zoom
+      setIsZoomed(false);
+    }, []);
+
+    if (images.length === 0) {
+      return (
+        <Box
+          ref={ref}
+          className={className}
+          data-testid={testId}
+          sx={{ position: "relative", width: "100%", aspectRatio }}
+        >
+          <ProductImage type={product.imageType} alt={name} sizes={sizes} priority={priority} />
+        </Box>
+      );
+    }
+
+    const items = images.map((image, index) => ({
+      id: image.src,
+      content: (
+        <ZoomableImage
+          hint={t("zoomHint")}
+          resetLabel={t("resetZoom")}
+          onZoomChange={setIsZoomed}
+        >
+          <ProductImage
+            type={product.imageType}
+            src={image.src}
+            blurDataURL={image.blurDataURL}
+            alt={
+              image.alt ?? t("image", { name, number: index + 1, total: images.length })
+            }
+            sizes={sizes}
+            priority={priority && index === 0}
+            showDecorations={false}
+          />
+        </ZoomableImage>
+      ),
+    }));
+
+    return (
+      <Box ref={ref} className={className} data-testid={testId}>
+        <Carousel
+          items={items}
+          activeIndex={activeIndex}
+          onChange={handleChange}
+          aspectRatio={aspectRatio}
+          showDots={false}
+          swipeable={!isZoomed}
+        />
+
+        {/* Thumbnails */}
+        {images.length > 1 && (
+          <Box
+            role="group"
+            aria-label={t("thumbnails")}
+            sx={{ display: "flex", gap: 1, mt: 1.5, px: 1.5, overflowX: "auto" }}
+          >
+            {images.map((image, index) => {
+              const isActive = index === activeIndex;
+              return (
+                <Box
+                  key={image.src}
+                  component="button"
+                  type="button"
+                  onClick={() => handleChange(index)}
+                  aria-label={t("showImage", { number: index + 1 })}
+                  aria-current={isActive ? "true" : undefined}
+                  sx={{
+                    position: "relative",
+                    flexShrink: 0,
+                    width: 56,
+                    aspectRatio: "4 / 5",
+                    p: 0,
+                    borderRadius: 2,
+                    overflow: "hidden",
+                    cursor: "pointer",
+                    border: "2px solid",
+                    borderColor: isActive ? primary.main : "transparent",
+                    opacity: isActive ? 1 : 0.7,
+                    bgcolor: neutral[100],
+                    transition: "all 0.2s ease",
+                    "&:hover": { opacity: 1 },
+                  }}
+                >
+                  <ProductImage
+                    type={product.imageType}
+                    src={image.src}
+                    blurDataURL={image.blurDataURL}
+                    alt=""
+                    sizes="56px"
+                    showDecorations={false}
+                  />
+                </Box>
+              );
+            })}
+          </Box>
+        )}
+      </Box>
+    );
+  }
+);
+
+ProductGallery.displayName = "ProductGallery";
+
+export default ProductGallery;
@@ -0,0 +1,262 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type MouseEvent as ReactMouseEvent,
+  type PointerEvent as ReactPointerEvent,
+  type ReactNode,
+} from "react";
+import Box from "@mui/material/Box";
+import IconButton from "@mui/material/IconButton";
+import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ZoomableImageProps {
+  /** Image to zoom */
+  children: ReactNode;
+  /** Called when the image goes in or out of zoom */
+  onZoomChange?: (zoomed: boolean) => void;
+  /** Description of the zoom gestures (shown as a tooltip) */
+  hint?: string;
+  /** Label of the reset zoom button */
+  resetLabel: string;
+}
+
+interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_CLICK_SCALE = 2.5;
+/** Scale factor per wheel delta pixel */
+const WHEEL_SENSITIVITY = 0.002;
+
+const RESET: ZoomState = { scale: 1, x: 0, y: 0 };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Zooms around `point` (relative to the container centre) and keeps the
+ * image covering the container.
+ */
+function zoomAt(
+  state: ZoomState,
+  nextScale: number,
+  point: Point,
+  size: { width: number; height: number }
+): ZoomState {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, nextScale));
+  const ratio = scale / state.scale;
+
+  return clampOffset(
+    {
+      scale,
+      x: point.x - (point.x - state.x) * ratio,
+      y: point.y - (point.y - state.y) * ratio,
+    },
+    size
+  );
+}
+
+function clampOffset(
+  state: ZoomState,
+  { width, height }: { width: number; height: number }
+): ZoomState {
+  const maxX = ((state.scale - 1) * width) / 2;
+  const maxY = ((state.scale - 1) * height) / 2;
+
+  return {
+    scale: state.scale,
+    x: Math.min(maxX, Math.max(-maxX, state.x)),
+    y: Math.min(maxY, Math.max(-maxY, state.y)),
+  };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ZoomableImage - Wheel, pinch and double-click zoom with drag to pan
+ *
+ * Single-pointer drags are left to the surrounding carousel until the image
+ * is zoomed in (the parent disables swiping through `onZoomChange`); then
+ * they pan the image instead.
+ */
+export function ZoomableImage({
+  children,
+  onZoomChange,
+  hint,
+  resetLabel,
+}: ZoomableImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const pinchStart = useRef<{ distance: number; scale: number } | null>(null);
+  const [zoom, setZoom] = useState<ZoomState>(RESET);
+  const [isGesturing, setIsGesturing] = useState(false);
+
+  const isZoomed = zoom.scale > MIN_SCALE;
+
+  useEffect(() => {
+    onZoomChange?.(isZoomed);
+  }, [isZoomed, onZoomChange]);
+
+  /** Pointer position relative to the container centre */
+  const toLocalPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      point: {
+        x: clientX - rect.left - rect.width / 2,
+        y: clientY - rect.top - rect.height / 2,
+      },
+      size: { width: rect.width, height: rect.height },
+    };
+  }, []);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      // Scrolling down over an unzoomed image keeps scrolling the page
+      if (!isZoomed && e.deltaY >= 0) return;
+      e.preventDefault();
+      const { point, size } = toLocalPoint(e.clientX, e.clientY);
+      setZoom((state) =>
+        zoomAt(state, state.scale * Math.exp(-e.deltaY * WHEEL_SENSITIVITY), point, size)
+      );
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [isZoomed, toLocalPoint]);
+
+  const handlePointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setIsGesturing(true);
+
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      pinchStart.current = { distance: distance(a, b), scale: zoom.scale };
+    }
+    if (pointers.current.size === 2 || isZoomed) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2 && pinchStart.current) {
+      const [a, b] = [...pointers.current.values()];
+      const start = pinchStart.current;
+      const { point, size } = toLocalPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+      setZoom((state) =>
+        zoomAt(state, (start.scale * distance(a, b)) / start.distance, point, size)
+      );
+    } else if (isZoomed) {
+      const { size } = toLocalPoint(e.clientX, e.clientY);
+      setZoom((state) =>
+        clampOffset(
+          {
+            scale: state.scale,
+            x: state.x + e.clientX - previous.x,
+            y: state.y + e.clientY - previous.y,
+          },
+          size
+        )
+      );
+    }
+  };
+
+  const handlePointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinchStart.current = null;
+    if (pointers.current.size === 0) setIsGesturing(false);
+  };
+
+  const handleDoubleClick = (e: ReactMouseEvent<HTMLDivElement>) => {
+    if (isZoomed) {
+      setZoom(RESET);
+      return;
+    }
+    const { point, size } = toLocalPoint(e.clientX, e.clientY);
+    setZoom((state) => zoomAt(state, DOUBLE_CLICK_SCALE, point, size));
+  };
+
+  return (
+    <Box
+      ref={containerRef}
+      title={hint}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+      sx={{
+        position: "absolute",
+        inset: 0,
+        overflow: "hidden",
+        // Horizontal swipes belong to the carousel until the image is zoomed
+        touchAction: isZoomed ? "none" : "pan-y",
+        cursor: isZoomed ? "grab" : "zoom-in",
+      }}
+    >
+      <Box
+        sx={{
+          position: "absolute",
+          inset: 0,
+          transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})`,
+          transition: isGesturing ? "none" : "transform 0.2s ease-out",
+        }}
+      >
+        {children}
+      </Box>
+
+      {isZoomed && (
+        <IconButton
+          size="small"
+          onClick={() => setZoom(RESET)}
+          aria-label={resetLabel}
+          sx={{
+            position: "absolute",
+            top: 8,
+            right: 8,
+            bgcolor: "rgba(0, 0, 0, 0.5)",
+            color: "white",
+            "&:hover": { bgcolor: "rgba(0, 0, 0, 0.7)" },
+          }}
+        >
+          <ZoomOutIcon fontSize="small" />
+        </IconButton>
+      )}
+    </Box>
+  );
+}
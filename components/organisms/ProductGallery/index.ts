@@ -0,0 +1,2 @@
+export { ProductGallery, type ProductGalleryProps } from "./ProductGallery";
+export { default } from "./ProductGallery";
@@ -2,7 +2,8 @@ import { useState } from "react";
 import type { Meta, StoryObj } from "@storybook/react";
 import { fn } from "storybook/test";
 import { ProductModal } from "./ProductModal";
-import type { AylaProduct } from "@types";
+import { products } from "@/data/ayla";
+import type { AylaProduct, AylaRatingSummary } from "@types";
 
 // =============================================================================
 // MOCK DATA
@@ -11,6 +12,7 @@ import type { AylaProduct } from "@types";
 const mockProduct: AylaProduct = {
   id: 1,
   name: "Celestial Planner 2025",
+  slug: "celestial-planner-2025",
   description:
     "Planificador digital completo con fases lunares, seguimiento de hábitos, calendario anual y elementos celestiales. Perfecto para organizar tu vida con un toque de magia.",
   price: 24.99,
@@ -27,6 +29,7 @@ const mockProduct: AylaProduct = {
 const weddingProduct: AylaProduct = {
   id: 4,
   name: "Moonlight Wedding Suite",
+  slug: "moonlight-wedding-suite",
   description:
     "Suite completa de papelería para bodas: invitaciones, RSVP, menús y programa celestial. Todo lo que necesitas para tu día especial.",
   price: 39.99,
@@ -43,6 +46,7 @@ const weddingProduct: AylaProduct = {
 const brandProduct: AylaProduct = {
   id: 5,
   name: "Mystic Brand Kit",
+  slug: "mystic-brand-kit",
   description:
     "Kit de branding completo con logo, paleta de colores, tipografías y elementos gráficos. Ideal para emprendedoras que quieren una identidad visual cohesiva.",
   price: 49.99,
@@ -109,10 +113,10 @@ type Story = StoryObj<typeof ProductModal>;
 
 const InteractiveWrapper = ({
   product,
-  reviewCount,
+  rating,
 }: {
   product: AylaProduct;
-  reviewCount?: number;
+  rating?: AylaRatingSummary;
 }) => {
   const [isOpen, setIsOpen] = useState(true);
 
@@ -129,7 +133,7 @@ const InteractiveWrapper = ({
         isOpen={isOpen}
         onClose={() => setIsOpen(false)}
         onAddToCart={fn()}
-        reviewCount={reviewCount}
+        rating={rating}
       />
     </div>
   );
@@ -161,10 +165,22 @@ export const BrandingProduct: Story = {
 };
 
 /**
- * With custom review count
+ * Product sold as Basic and Premium: the picker updates price and features
  */
-export const WithCustomReviews: Story = {
-  render: () => <InteractiveWrapper product={mockProduct} reviewCount={128} />,
+export const WithVariants: Story = {
+  render: () => <InteractiveWrapper product={products[0]} />,
+};
+
+/**
+ * With the aggregate rating of its approved reviews
+ */
+export const WithRating: Story = {
+  render: () => (
+    <InteractiveWrapper
+      product={mockProduct}
+      rating={{ average: 4.6, count: 128, distribution: { 1: 2, 2: 3, 3: 8, 4: 20, 5: 95 } }}
+    />
+  ),
 };
 
 /**
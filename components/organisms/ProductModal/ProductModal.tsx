@@ -2,10 +2,14 @@
 
 import { forwardRef, memo, useCallback, useEffect } from "react";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
-import { X, Star, Check, ShoppingCart } from "lucide-react";
-import { ProductImage } from "@atoms";
+import { X } from "lucide-react";
+import { useTranslations } from "next-intl";
 import { primary, neutral, springs, shadows } from "@/app/ui/theme";
-import type { AylaProduct } from "@types";
+import { FavoriteButton } from "@/components/atoms/FavoriteButton";
+import { ProductMiniCard } from "@/components/molecules/ProductMiniCard";
+import type { AylaProduct, AylaRatingSummary, AylaVariant } from "@types";
+import { ProductDetails } from "../ProductDetails";
+import { ProductGallery } from "../ProductGallery";
 
 // =============================================================================
 // TYPES
@@ -18,10 +22,18 @@ export interface ProductModalProps {
   isOpen: boolean;
   /** Callback to close the modal */
   onClose: () => void;
-  /** Callback when add to cart is clicked */
-  onAddToCart?: (product: AylaProduct) => void;
-  /** Custom review count to display */
-  reviewCount?: number;
+  /** Callback when add to cart is clicked (with the selected variant, if any) */
+  onAddToCart?: (product: AylaProduct, variant?: AylaVariant) => void;
+  /** Aggregate rating of the product's approved reviews */
+  rating?: AylaRatingSummary;
+  /** Whether the product is in the favorites */
+  isFavorite?: boolean;
+  /** Callback when the heart is clicked (the heart is hidden without it) */
+  onToggleFavorite?: (product: AylaProduct) => void;
+  /** "You may also like" products (the section is hidden when empty) */
+  relatedProducts?: AylaProduct[];
+  /** Callback when a related product is clicked */
+  onSelectProduct?: (product: AylaProduct) => void;
   /** Test ID for testing purposes */
   "data-testid"?: string;
 }
@@ -34,11 +46,11 @@ export interface ProductModalProps {
  * ProductModal - Full-screen product detail modal
  *
  * A responsive modal displaying:
- * - Product image with category badge
- * - Star rating and review count
- * - Full description
- * - Features list with checkmarks
- * - Price and add-to-cart button
+ * - ProductGallery: cover, preview pages, thumbnails and zoom, with category badge
+ * - ProductDetails: rating, description, variant picker, features, price
+ *   and add-to-cart button
+ * - Heart toggle to save the product to the favorites
+ * - "You may also like" list with the related products
  *
  * @features
  * - Framer Motion animations with spring physics
@@ -64,11 +76,16 @@ export const ProductModal = memo(
       isOpen,
       onClose,
       onAddToCart,
-      reviewCount = 47,
+      rating,
+      isFavorite = false,
+      onToggleFavorite,
+      relatedProducts = [],
+      onSelectProduct,
       "data-testid": testId,
     },
     ref
   ) {
+    const t = useTranslations("Components.productModal");
     const prefersReducedMotion = useReducedMotion();
 
     // Handle escape key
@@ -96,12 +113,13 @@ export const ProductModal = memo(
     }, [isOpen]);
 
     // Handle add to cart and close
-    const handleAddToCart = useCallback(() => {
-      if (product && onAddToCart) {
-        onAddToCart(product);
+    const handleAddToCart = useCallback(
+      (selected: AylaProduct, variant?: AylaVariant) => {
+        onAddToCart?.(selected, variant);
         onClose();
-      }
-    }, [product, onAddToCart, onClose]);
+      },
+      [onAddToCart, onClose]
+    );
 
     // Animation variants
     const overlayVariants = {
@@ -170,10 +188,15 @@ export const ProductModal = memo(
                 aria-labelledby="product-modal-title"
               >
                 {/* Image section */}
-                <div className="md:w-1/2 h-64 md:h-auto relative overflow-hidden">
-                  <ProductImage type={product.imageType} />
+                <div className="md:w-1/2 relative overflow-y-auto pb-3">
+                  <ProductGallery
+                    key={product.id}
+                    product={product}
+                    aspectRatio={{ xs: "16 / 9", md: "4 / 5" }}
+                    sizes="(min-width: 768px) 448px, 100vw"
+                  />
                   <span
-                    className="absolute top-4 left-4 px-3 py-1 text-xs font-semibold rounded-full"
+                    className="absolute top-4 left-4 z-10 px-3 py-1 text-xs font-semibold rounded-full"
                     style={{
                       background: `${primary.light}E6`, // 90% opacity
                       color: neutral[800],
@@ -181,6 +204,15 @@ export const ProductModal = memo(
                   >
                     {product.category}
                   </span>
+                  {onToggleFavorite && (
+                    <div className="absolute top-4 right-4 z-10">
+                      <FavoriteButton
+                        active={isFavorite}
+                        onToggle={() => onToggleFavorite(product)}
+                        size="medium"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 {/* Content section */}
@@ -201,105 +233,40 @@ export const ProductModal = memo(
                     <X size={20} style={{ color: neutral[600] }} />
                   </button>
 
-                  <div className="flex-1">
-                    {/* Title */}
-                    <h2
-                      id="product-modal-title"
-                      className="font-serif text-3xl md:text-4xl pr-10 mb-2"
-                      style={{ color: neutral[800] }}
-                    >
-                      {product.name}
-                    </h2>
-
-                    {/* Rating */}
-                    <div className="flex items-center gap-1 mb-4">
-                      {[...Array(5)].map((_, i) => (
-                        <Star
-                          key={i}
-                          size={16}
-                          className="fill-current"
-                          style={{ color: primary.light }}
-                        />
-                      ))}
-                      <span
-                        className="text-sm ml-2"
-                        style={{ color: neutral[500] }}
-                      >
-                        ({reviewCount} reseñas)
-                      </span>
-                    </div>
+                  <ProductDetails
+                    product={product}
+                    onAddToCart={onAddToCart ? handleAddToCart : undefined}
+                    rating={rating}
+                    titleId="product-modal-title"
+                  />
 
-                    {/* Description */}
-                    <p
-                      className="leading-relaxed mb-6"
-                      style={{ color: neutral[600] }}
+                  {/* Related products */}
+                  {relatedProducts.length > 0 && (
+                    <section
+                      aria-labelledby="product-modal-related"
+                      className="mt-8 pt-6"
+                      style={{ borderTop: `1px solid ${neutral[200]}` }}
                     >
-                      {product.description}
-                    </p>
-
-                    {/* Features */}
-                    <div className="mb-6">
-                      <h4
-                        className="text-sm font-semibold mb-3"
-                        style={{ color: neutral[700] }}
+                      <h3
+                        id="product-modal-related"
+                        className="text-sm font-semibold uppercase tracking-wide mb-3"
+                        style={{ color: neutral[500] }}
                       >
-                        Incluye:
-                      </h4>
-                      <ul className="space-y-2">
-                        {product.features.map((feature, i) => (
-                          <li
-                            key={i}
-                            className="flex items-center gap-2"
-                            style={{ color: neutral[600] }}
-                          >
-                            <Check
-                              size={16}
-                              className="flex-shrink-0"
-                              style={{ color: primary.main }}
+                        {t("related")}
+                      </h3>
+                      <ul className="grid gap-1">
+                        {relatedProducts.map((related) => (
+                          <li key={related.id}>
+                            <ProductMiniCard
+                              product={related}
+                              orientation="horizontal"
+                              onSelect={onSelectProduct}
                             />
-                            <span className="text-sm">{feature}</span>
                           </li>
                         ))}
                       </ul>
-                    </div>
-                  </div>
-
-                  {/* Footer with price and CTA */}
-                  <div
-                    className="pt-4"
-                    style={{ borderTop: `1px solid ${primary.light}33` }}
-                  >
-                    <div className="flex items-center justify-between mb-4">
-                      <span
-                        className="font-serif text-3xl"
-                        style={{ color: neutral[800] }}
-                      >
-                        €{product.price.toFixed(2)}
-                      </span>
-                      <span className="text-sm" style={{ color: neutral[500] }}>
-                        Descarga instantánea
-                      </span>
-                    </div>
-
-                    <button
-                      onClick={handleAddToCart}
-                      className="w-full py-4 font-semibold rounded-xl transform transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center gap-2"
-                      style={{
-                        background: `linear-gradient(to right, ${primary.main}, ${primary.light})`,
-                        color: neutral[900],
-                        boxShadow: shadows.lg,
-                      }}
-                      onMouseEnter={(e) => {
-                        e.currentTarget.style.boxShadow = shadows.xl;
-                      }}
-                      onMouseLeave={(e) => {
-                        e.currentTarget.style.boxShadow = shadows.lg;
-                      }}
-                    >
-                      <ShoppingCart size={20} />
-                      Añadir al Carrito
-                    </button>
-                  </div>
+                    </section>
+                  )}
                 </div>
               </motion.div>
             </div>
@@ -0,0 +1,57 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import Box from "@mui/material/Box";
+
+import { ProductRail } from "./ProductRail";
+import { products } from "@/data/ayla";
+
+const meta: Meta<typeof ProductRail> = {
+  title: "Organisms/ProductRail",
+  component: ProductRail,
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+Titled carousel of compact product cards, used for "Recently viewed".
+
+## Features
+- **Responsive slides**: 2 products per slide on mobile, 4 from \`md\` up
+- **Hidden when empty**: renders nothing without products
+        `,
+      },
+    },
+  },
+  tags: ["autodocs"],
+  args: {
+    title: "Vistos recientemente",
+    products,
+  },
+  decorators: [
+    (Story) => (
+      <Box sx={{ maxWidth: 1000, mx: "auto" }}>
+        <Story />
+      </Box>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// =============================================================================
+// STORIES
+// =============================================================================
+
+/**
+ * Several slides with arrow navigation
+ */
+export const Default: Story = {};
+
+/**
+ * A single slide hides the arrows
+ */
+export const FewProducts: Story = {
+  args: {
+    products: products.slice(0, 3),
+  },
+};
@@ -0,0 +1,114 @@
+"use client";
+
+import { forwardRef } from "react";
+import Box from "@mui/material/Box";
+import { useTheme } from "@mui/material/styles";
+import useMediaQuery from "@mui/material/useMediaQuery";
+
+import { SectionHeader } from "@/components/molecules/SectionHeader";
+import { ProductMiniCard } from "@/components/molecules/ProductMiniCard";
+import { Carousel, type CarouselItem } from "@/components/organisms/Carousel";
+import type { AylaProduct } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProductRailProps {
+  /** Rail heading */
+  title: string;
+  /** Optional text below the heading */
+  subtitle?: string;
+  /** Products shown in the rail (the rail is hidden when empty) */
+  products: AylaProduct[];
+  /** Callback when a product is clicked */
+  onViewProduct?: (product: AylaProduct) => void;
+  /** Additional CSS class */
+  className?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Products per slide on small screens and from `md` up */
+const PER_SLIDE_MOBILE = 2;
+const PER_SLIDE_DESKTOP = 4;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * ProductRail - Titled carousel of compact product cards
+ *
+ * Groups the products into `Carousel` slides (2 per slide on mobile, 4 from
+ * `md` up), so long lists such as "Recently viewed" take a single row.
+ *
+ * @example
+ * ```tsx
+ * <ProductRail
+ *   title="Recently viewed"
+ *   products={recentlyViewed}
+ *   onViewProduct={openProductModal}
+ * />
+ * ```
+ */
+export const ProductRail = forwardRef<HTMLElement, ProductRailProps>(
+  ({ title, subtitle, products, onViewProduct, className }, ref) => {
+    const theme = useTheme();
+    const isDesktop = useMediaQuery(theme.breakpoints.up("md"));
+    const perSlide = isDesktop ? PER_SLIDE_DESKTOP : PER_SLIDE_MOBILE;
+
+    if (products.length === 0) return null;
+
+    const slides: CarouselItem[] = [];
+    for (let start = 0; start < products.length; start += perSlide) {
+      const group = products.slice(start, start + perSlide);
+      slides.push({
+        id: group.map(({ id }) => id).join("-"),
+        content: (
+          <Box
+            component="ul"
+            sx={{
+              m: 0,
+              p: 0,
+              listStyle: "none",
+              width: "100%",
+              height: "100%",
+              display: "grid",
+              gridTemplateColumns: `repeat(${perSlide}, 1fr)`,
+              alignItems: "start",
+              gap: { xs: 2, md: 3 },
+            }}
+          >
+            {group.map((product) => (
+              <li key={product.id}>
+                <ProductMiniCard product={product} onSelect={onViewProduct} />
+              </li>
+            ))}
+          </Box>
+        ),
+      });
+    }
+
+    return (
+      <Box ref={ref} component="section" className={className}>
+        <SectionHeader title={title} subtitle={subtitle} size="md" />
+        <Box sx={{ mt: 3 }}>
+          <Carousel
+            items={slides}
+            showArrows={slides.length > 1}
+            showDots={false}
+            loop={false}
+            aspectRatio={{ xs: "1 / 1", md: "5 / 2" }}
+          />
+        </Box>
+      </Box>
+    );
+  }
+);
+
+ProductRail.displayName = "ProductRail";
+
+export default ProductRail;
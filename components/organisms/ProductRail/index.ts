@@ -0,0 +1,2 @@
+export { ProductRail, type ProductRailProps } from "./ProductRail";
+export { default } from "./ProductRail";
@@ -21,6 +21,9 @@ export * from "./Carousel";
 export * from "./FloatingStars";
 export * from "./HeroDecorations";
 export * from "./GlowCTA";
+export * from "./ProductGallery";
+export * from "./ProductDetails";
 export * from "./ProductModal";
 export * from "./Cart";
 export * from "./ProductCard";
+export * from "./ProductRail";
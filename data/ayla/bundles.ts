@@ -0,0 +1,41 @@
+/**
+ * Ayla Designs Bundles
+ *
+ * Static bundle data for the e-commerce landing page.
+ * A bundle is applied automatically when the cart contains all its products.
+ */
+
+import type { AylaBundle } from "@/types/ayla";
+
+/**
+ * Bundle catalog
+ */
+export const bundles: AylaBundle[] = [
+  {
+    id: 1001,
+    name: "Pack Boda Completa",
+    description:
+      "Moonlight Wedding Suite junto a las Boho Thank You Cards para agradecer a tus invitados con el mismo estilo.",
+    imageType: "wedding",
+    items: [
+      { product_id: 4, variant_id: null, quantity: 1 },
+      { product_id: 6, variant_id: null, quantity: 1 },
+    ],
+    discount_type: "percentage",
+    discount_value: 15,
+  },
+  {
+    id: 1002,
+    name: "Pack Marca Personal",
+    description:
+      "Mystic Brand Kit, Bohemian Business Cards y Crystal Social Media Kit para lanzar tu marca con una identidad coherente.",
+    imageType: "brand",
+    items: [
+      { product_id: 5, variant_id: null, quantity: 1 },
+      { product_id: 2, variant_id: null, quantity: 1 },
+      { product_id: 3, variant_id: null, quantity: 1 },
+    ],
+    discount_type: "fixed",
+    discount_value: 15,
+  },
+];
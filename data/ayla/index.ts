@@ -5,4 +5,6 @@
  */
 
 export { products } from "./products";
+export { bundles } from "./bundles";
+export { promotions } from "./promotions";
 export { reviews } from "./reviews";
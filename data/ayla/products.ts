@@ -3,6 +3,9 @@
  *
  * Static product data for the e-commerce landing page.
  * Products represent digital design products: planners, templates, kits.
+ * Every product is sold in two variants: Basic and Premium.
+ * Gallery images are ordered, cover first, and must exist under
+ * public/images/products (preview pages go after the cover when added).
  */
 
 import type { AylaProduct } from "@/types/ayla";
@@ -14,92 +17,312 @@ export const products: AylaProduct[] = [
   {
     id: 1,
     name: "Celestial Planner 2025",
+    slug: "celestial-planner-2025",
     description:
       "Planificador digital completo con fases lunares, seguimiento de hábitos, calendario anual y elementos celestiales.",
     price: 24.99,
     category: "Planners",
     imageType: "planner",
+    images: [{ src: "/images/products/planner.webp" }],
     features: [
       "12 meses completos",
       "Fases lunares",
       "Seguimiento de hábitos",
       "Compatible con GoodNotes",
     ],
+    variants: [
+      {
+        id: 101,
+        name: "Basic",
+        price: 24.99,
+        features: [
+          "12 meses completos",
+          "Fases lunares",
+          "Seguimiento de hábitos",
+          "Compatible con GoodNotes",
+        ],
+        files: ["celestial-planner-2025.pdf"],
+        downloadLimit: 5,
+      },
+      {
+        id: 102,
+        name: "Premium",
+        price: 34.99,
+        features: [
+          "12 meses completos",
+          "Fases lunares",
+          "Seguimiento de hábitos",
+          "Compatible con GoodNotes",
+          "Stickers digitales (+200)",
+          "Plantillas semanales extra",
+          "Versión imprimible A4/A5",
+        ],
+        files: [
+          "celestial-planner-2025.pdf",
+          "celestial-stickers.png",
+          "celestial-planner-2025-a4.pdf",
+        ],
+        downloadLimit: 10,
+      },
+    ],
   },
   {
     id: 2,
     name: "Bohemian Business Cards",
+    slug: "bohemian-business-cards",
     description:
       "Pack de 5 plantillas de tarjetas de visita editables con diseños únicos que combinan elegancia bohemia.",
     price: 12.99,
     category: "Tarjetas",
     imageType: "cards",
+    images: [{ src: "/images/products/business-card.webp" }],
     features: [
       "5 diseños únicos",
       "Editables en Canva",
       "Alta resolución",
       "Listos para imprimir",
     ],
+    variants: [
+      {
+        id: 201,
+        name: "Basic",
+        price: 12.99,
+        features: [
+          "5 diseños únicos",
+          "Editables en Canva",
+          "Alta resolución",
+          "Listos para imprimir",
+        ],
+        files: ["bohemian-business-cards.pdf"],
+        downloadLimit: 5,
+      },
+      {
+        id: 202,
+        name: "Premium",
+        price: 19.99,
+        features: [
+          "5 diseños únicos",
+          "Editables en Canva",
+          "Alta resolución",
+          "Listos para imprimir",
+          "10 diseños adicionales",
+          "Versión reverso a juego",
+          "Archivos para imprenta (CMYK)",
+        ],
+        files: [
+          "bohemian-business-cards.pdf",
+          "bohemian-business-cards-cmyk.zip",
+        ],
+        downloadLimit: 10,
+      },
+    ],
   },
   {
     id: 3,
     name: "Crystal Social Media Kit",
+    slug: "crystal-social-media-kit",
     description:
       "Kit completo para Instagram con 30 plantillas de posts, stories y highlights para un feed cohesivo.",
     price: 29.99,
     category: "Social Media",
     imageType: "social",
+    images: [{ src: "/images/products/media-kit.webp" }],
     features: [
       "30 plantillas",
       "Posts + Stories",
       "Paleta incluida",
       "Guía de uso",
     ],
+    variants: [
+      {
+        id: 301,
+        name: "Basic",
+        price: 29.99,
+        features: [
+          "30 plantillas",
+          "Posts + Stories",
+          "Paleta incluida",
+          "Guía de uso",
+        ],
+        files: ["crystal-social-kit.zip"],
+        downloadLimit: 5,
+      },
+      {
+        id: 302,
+        name: "Premium",
+        price: 44.99,
+        features: [
+          "30 plantillas",
+          "Posts + Stories",
+          "Paleta incluida",
+          "Guía de uso",
+          "60 plantillas",
+          "Plantillas de Reels",
+          "Iconos para destacadas",
+        ],
+        files: [
+          "crystal-social-kit.zip",
+          "crystal-reels.zip",
+          "crystal-highlights.zip",
+        ],
+        downloadLimit: 10,
+      },
+    ],
   },
   {
     id: 4,
     name: "Moonlight Wedding Suite",
+    slug: "moonlight-wedding-suite",
     description:
       "Suite completa de papelería para bodas: invitaciones, RSVP, menús y programa celestial.",
     price: 39.99,
     category: "Bodas",
     imageType: "wedding",
+    images: [{ src: "/images/products/wedding-kit.webp" }],
     features: [
       "Invitación + RSVP",
       "Menú + Programa",
       "Números de mesa",
       "Save the date",
     ],
+    variants: [
+      {
+        id: 401,
+        name: "Basic",
+        price: 39.99,
+        features: [
+          "Invitación + RSVP",
+          "Menú + Programa",
+          "Números de mesa",
+          "Save the date",
+        ],
+        files: ["moonlight-wedding-suite.pdf"],
+        downloadLimit: 5,
+      },
+      {
+        id: 402,
+        name: "Premium",
+        price: 59.99,
+        features: [
+          "Invitación + RSVP",
+          "Menú + Programa",
+          "Números de mesa",
+          "Save the date",
+          "Etiquetas y tarjetas de sitio",
+          "Cartel de bienvenida",
+          "Versión digital animada",
+        ],
+        files: [
+          "moonlight-wedding-suite.pdf",
+          "moonlight-signage.pdf",
+          "moonlight-invitation.mp4",
+        ],
+        downloadLimit: 10,
+      },
+    ],
   },
   {
     id: 5,
     name: "Mystic Brand Kit",
+    slug: "mystic-brand-kit",
     description:
       "Kit de branding completo con logo, paleta de colores, tipografías y elementos gráficos.",
     price: 49.99,
     category: "Branding",
     imageType: "brand",
+    images: [{ src: "/images/products/brand-kit.webp" }],
     features: [
       "Logo editable",
       "Paleta de colores",
       "Guía tipográfica",
       "20+ elementos",
     ],
+    variants: [
+      {
+        id: 501,
+        name: "Basic",
+        price: 49.99,
+        features: [
+          "Logo editable",
+          "Paleta de colores",
+          "Guía tipográfica",
+          "20+ elementos",
+        ],
+        files: ["mystic-brand-kit.zip"],
+        downloadLimit: 5,
+      },
+      {
+        id: 502,
+        name: "Premium",
+        price: 79.99,
+        features: [
+          "Logo editable",
+          "Paleta de colores",
+          "Guía tipográfica",
+          "20+ elementos",
+          "Variaciones del logo",
+          "Plantillas de redes",
+          "Papelería corporativa",
+        ],
+        files: [
+          "mystic-brand-kit.zip",
+          "mystic-brand-social.zip",
+          "mystic-brand-stationery.zip",
+        ],
+        downloadLimit: 10,
+      },
+    ],
   },
   {
     id: 6,
     name: "Boho Thank You Cards",
+    slug: "boho-thank-you-cards",
     description:
       "Pack de 10 diseños de tarjetas de agradecimiento con ilustraciones botánicas y celestiales.",
     price: 9.99,
     category: "Tarjetas",
     imageType: "thanks",
+    images: [{ src: "/images/products/thank-you.webp" }],
     features: [
       "10 diseños",
       "Imprimibles A6",
       "Editables",
       "Versión digital",
     ],
+    variants: [
+      {
+        id: 601,
+        name: "Basic",
+        price: 9.99,
+        features: [
+          "10 diseños",
+          "Imprimibles A6",
+          "Editables",
+          "Versión digital",
+        ],
+        files: ["boho-thank-you-cards.pdf"],
+        downloadLimit: 5,
+      },
+      {
+        id: 602,
+        name: "Premium",
+        price: 14.99,
+        features: [
+          "10 diseños",
+          "Imprimibles A6",
+          "Editables",
+          "Versión digital",
+          "20 diseños",
+          "Sobres a juego",
+          "Etiquetas de envío",
+        ],
+        files: [
+          "boho-thank-you-cards.pdf",
+          "boho-envelopes.pdf",
+        ],
+        downloadLimit: 10,
+      },
+    ],
   },
 ];
 
@@ -0,0 +1,49 @@
+/**
+ * Ayla Designs Promotions
+ *
+ * Static promotion codes redeemable in the cart.
+ */
+
+import type { AylaPromotion } from "@/types/ayla";
+
+/**
+ * Promotion codes
+ */
+export const promotions: AylaPromotion[] = [
+  {
+    code: "BIENVENIDA10",
+    description: "10% de descuento en tu primera compra",
+    discount_type: "percentage",
+    discount_value: 10,
+    min_purchase: null,
+    product_ids: [],
+    categories: [],
+    starts_at: null,
+    ends_at: null,
+    usage_limit: null,
+  },
+  {
+    code: "BODAS5",
+    description: "5 € de descuento en diseños para bodas",
+    discount_type: "fixed",
+    discount_value: 5,
+    min_purchase: 30,
+    product_ids: [],
+    categories: ["Bodas"],
+    starts_at: null,
+    ends_at: null,
+    usage_limit: 100,
+  },
+  {
+    code: "PLANNER2025",
+    description: "20% de descuento en el Celestial Planner 2025",
+    discount_type: "percentage",
+    discount_value: 20,
+    min_purchase: null,
+    product_ids: [1],
+    categories: [],
+    starts_at: "2024-11-01T00:00:00.000Z",
+    ends_at: "2025-01-31T23:59:59.000Z",
+    usage_limit: null,
+  },
+];
@@ -150,6 +150,22 @@ function mapApiCodeToInternal(apiCode: ApiErrorCode): ErrorCode {
     CSRF_TOKEN_MISSING: ErrorCode.INSUFFICIENT_PERMISSIONS,
     CSRF_TOKEN_INVALID: ErrorCode.INSUFFICIENT_PERMISSIONS,
 
+    // Account email links
+    RESET_TOKEN_INVALID: ErrorCode.INVALID_INPUT,
+    RESET_TOKEN_EXPIRED: ErrorCode.INVALID_INPUT,
+    RESET_TOKEN_USED: ErrorCode.INVALID_INPUT,
+    VERIFICATION_TOKEN_INVALID: ErrorCode.INVALID_INPUT,
+    VERIFICATION_TOKEN_EXPIRED: ErrorCode.INVALID_INPUT,
+    VERIFICATION_TOKEN_USED: ErrorCode.INVALID_INPUT,
+    EMAIL_ALREADY_VERIFIED: ErrorCode.VALIDATION_ERROR,
+
+    // Two-factor authentication
+    MFA_REQUIRED: ErrorCode.INSUFFICIENT_PERMISSIONS,
+    MFA_CODE_INVALID: ErrorCode.INVALID_INPUT,
+    MFA_CHALLENGE_EXPIRED: ErrorCode.INVALID_INPUT,
+    MFA_ALREADY_ENABLED: ErrorCode.VALIDATION_ERROR,
+    MFA_NOT_ENABLED: ErrorCode.VALIDATION_ERROR,
+
     // Validation
     VALIDATION_ERROR: ErrorCode.VALIDATION_ERROR,
 
@@ -158,6 +174,8 @@ function mapApiCodeToInternal(apiCode: ApiErrorCode): ErrorCode {
     BAND_NOT_FOUND: ErrorCode.REQUEST_FAILED,
     LOCAL_NOT_FOUND: ErrorCode.REQUEST_FAILED,
     EVENT_NOT_FOUND: ErrorCode.REQUEST_FAILED,
+    ORDER_NOT_FOUND: ErrorCode.REQUEST_FAILED,
+    PRODUCT_NOT_FOUND: ErrorCode.REQUEST_FAILED,
 
     // Conflict
     USERNAME_ALREADY_EXISTS: ErrorCode.VALIDATION_ERROR,
@@ -47,6 +47,16 @@ export enum ErrorCode {
   PARSE_ERROR = 6001,
   SERIALIZATION_ERROR = 6002,
 
+  // Checkout, Payment & Delivery Errors (7000-7999)
+  CHECKOUT_FAILED = 7000,
+  PAYMENT_DECLINED = 7001,
+  PRODUCT_UNAVAILABLE = 7002,
+  WEBHOOK_SIGNATURE_INVALID = 7003,
+  DOWNLOAD_UNAVAILABLE = 7004,
+  PROMOTION_REJECTED = 7005,
+  REVIEW_REJECTED = 7006,
+  ORDER_UNAVAILABLE = 7007,
+
   // Unknown/Generic Errors (9000-9999)
   UNKNOWN_ERROR = 9000,
   SYSTEM_ERROR = 9001,
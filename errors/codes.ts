@@ -29,6 +29,12 @@ export type ApiErrorCode =
   // Event Domain
   | "EVENT_NOT_FOUND"
 
+  // Order Domain
+  | "ORDER_NOT_FOUND"
+
+  // Catalog Domain
+  | "PRODUCT_NOT_FOUND"
+
   // Authentication & Security
   | "UNAUTHORIZED"
   | "FORBIDDEN"
@@ -38,6 +44,22 @@ export type ApiErrorCode =
   | "CSRF_TOKEN_MISSING"
   | "CSRF_TOKEN_INVALID"
 
+  // Account Emails (enlaces de restablecimiento y verificación)
+  | "RESET_TOKEN_INVALID"
+  | "RESET_TOKEN_EXPIRED"
+  | "RESET_TOKEN_USED"
+  | "VERIFICATION_TOKEN_INVALID"
+  | "VERIFICATION_TOKEN_EXPIRED"
+  | "VERIFICATION_TOKEN_USED"
+  | "EMAIL_ALREADY_VERIFIED"
+
+  // Two-Factor Authentication (TOTP)
+  | "MFA_REQUIRED"
+  | "MFA_CODE_INVALID"
+  | "MFA_CHALLENGE_EXPIRED"
+  | "MFA_ALREADY_ENABLED"
+  | "MFA_NOT_ENABLED"
+
   // Infrastructure
   | "DATABASE_ERROR"
   | "KAFKA_ERROR"
@@ -50,6 +72,10 @@ export const API_ERROR_STATUS_MAP: Partial<Record<ApiErrorCode, number>> = {
   CANNOT_FOLLOW_SELF: 400,
   ALREADY_FOLLOWING: 400,
   NOT_FOLLOWING: 400,
+  RESET_TOKEN_INVALID: 400,
+  VERIFICATION_TOKEN_INVALID: 400,
+  MFA_CODE_INVALID: 400,
+  MFA_NOT_ENABLED: 400,
 
   // 401 Unauthorized
   UNAUTHORIZED: 401,
@@ -61,17 +87,29 @@ export const API_ERROR_STATUS_MAP: Partial<Record<ApiErrorCode, number>> = {
   FORBIDDEN: 403,
   CSRF_TOKEN_MISSING: 403,
   CSRF_TOKEN_INVALID: 403,
+  MFA_REQUIRED: 403,
 
   // 404 Not Found
   USER_NOT_FOUND: 404,
   BAND_NOT_FOUND: 404,
   LOCAL_NOT_FOUND: 404,
   EVENT_NOT_FOUND: 404,
+  ORDER_NOT_FOUND: 404,
+  PRODUCT_NOT_FOUND: 404,
 
   // 409 Conflict
   USERNAME_ALREADY_EXISTS: 409,
   EMAIL_ALREADY_EXISTS: 409,
   BAND_NAME_ALREADY_EXISTS: 409,
+  EMAIL_ALREADY_VERIFIED: 409,
+  MFA_ALREADY_ENABLED: 409,
+
+  // 410 Gone
+  RESET_TOKEN_EXPIRED: 410,
+  RESET_TOKEN_USED: 410,
+  VERIFICATION_TOKEN_EXPIRED: 410,
+  VERIFICATION_TOKEN_USED: 410,
+  MFA_CHALLENGE_EXPIRED: 410,
 
   // 500 Internal Server Error
   INTERNAL_ERROR: 500,
@@ -99,6 +137,8 @@ export const API_ERROR_USER_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
 
   LOCAL_NOT_FOUND: "Local no encontrado.",
   EVENT_NOT_FOUND: "Evento no encontrado.",
+  ORDER_NOT_FOUND: "Pedido no encontrado.",
+  PRODUCT_NOT_FOUND: "Producto no encontrado.",
 
   UNAUTHORIZED: "No autorizado. Por favor, inicia sesión.",
   FORBIDDEN: "No tienes permisos para realizar esta acción.",
@@ -108,6 +148,20 @@ export const API_ERROR_USER_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
   CSRF_TOKEN_MISSING: "Token de seguridad faltante. Por favor, recarga la página.",
   CSRF_TOKEN_INVALID: "Token de seguridad inválido. Por favor, recarga la página.",
 
+  RESET_TOKEN_INVALID: "El enlace para restablecer la contraseña no es válido.",
+  RESET_TOKEN_EXPIRED: "El enlace para restablecer la contraseña ha caducado.",
+  RESET_TOKEN_USED: "Este enlace ya se ha usado para cambiar la contraseña.",
+  VERIFICATION_TOKEN_INVALID: "El enlace de verificación no es válido.",
+  VERIFICATION_TOKEN_EXPIRED: "El enlace de verificación ha caducado.",
+  VERIFICATION_TOKEN_USED: "Este enlace de verificación ya se ha usado.",
+  EMAIL_ALREADY_VERIFIED: "Tu email ya está verificado.",
+
+  MFA_REQUIRED: "Tu cuenta necesita la verificación en dos pasos para esta acción.",
+  MFA_CODE_INVALID: "El código no es correcto. Comprueba la hora del móvil y prueba otra vez.",
+  MFA_CHALLENGE_EXPIRED: "Ha pasado demasiado tiempo. Vuelve a iniciar sesión.",
+  MFA_ALREADY_ENABLED: "La verificación en dos pasos ya está activada.",
+  MFA_NOT_ENABLED: "La verificación en dos pasos no está activada.",
+
   DATABASE_ERROR: "Error de conexión. Por favor, inténtalo de nuevo.",
   KAFKA_ERROR: "Error de servicio. Por favor, inténtalo de nuevo.",
   EXTERNAL_SERVICE_ERROR: "Servicio externo no disponible.",
@@ -128,3 +182,29 @@ export function isRetryableApiError(code: ApiErrorCode): boolean {
 export function requiresReauth(code: ApiErrorCode): boolean {
   return code === "TOKEN_EXPIRED" || code === "AUTHENTICATION_REQUIRED";
 }
+
+/** Motivo por el que un enlace de email (restablecimiento o verificación) ya no sirve */
+export type EmailLinkProblem = "invalid" | "expired" | "used";
+
+/**
+ * Clasifica los errores de enlaces de email para guiar al usuario
+ * (pedir otro enlace, iniciar sesión...)
+ *
+ * @returns Motivo, o null si el código no es de un enlace de email
+ */
+export function getEmailLinkProblem(code: ApiErrorCode): EmailLinkProblem | null {
+  switch (code) {
+    case "RESET_TOKEN_INVALID":
+    case "VERIFICATION_TOKEN_INVALID":
+      return "invalid";
+    case "RESET_TOKEN_EXPIRED":
+    case "VERIFICATION_TOKEN_EXPIRED":
+      return "expired";
+    case "RESET_TOKEN_USED":
+    case "VERIFICATION_TOKEN_USED":
+    case "EMAIL_ALREADY_VERIFIED":
+      return "used";
+    default:
+      return null;
+  }
+}
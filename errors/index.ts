@@ -231,6 +231,158 @@ export class ParseError extends DataError {
   }
 }
 
+/**
+ * Checkout-related errors
+ */
+const CHECKOUT_USER_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  [ErrorCode.PAYMENT_DECLINED]:
+    'Your payment was declined. Please try another payment method.',
+  [ErrorCode.PRODUCT_UNAVAILABLE]:
+    'Some products in your cart are no longer available.',
+};
+
+export class CheckoutError extends AppError {
+  /** Products that could not be purchased (PRODUCT_UNAVAILABLE) */
+  public readonly unavailableProductIds: number[];
+
+  constructor(
+    message: string = 'Checkout failed',
+    code: ErrorCode = ErrorCode.CHECKOUT_FAILED,
+    unavailableProductIds: number[] = [],
+    context?: ErrorContext
+  ) {
+    super(
+      message,
+      code,
+      ErrorSeverity.MEDIUM,
+      CHECKOUT_USER_MESSAGES[code] ??
+        'We could not complete your order. Please try again.',
+      code === ErrorCode.CHECKOUT_FAILED,
+      context
+    );
+    this.unavailableProductIds = unavailableProductIds;
+  }
+}
+
+/**
+ * Payment webhook whose signature could not be verified
+ */
+export class WebhookSignatureError extends AppError {
+  public readonly provider: string;
+
+  constructor(
+    message: string = 'Invalid webhook signature',
+    provider: string = 'unknown',
+    context?: ErrorContext
+  ) {
+    super(
+      message,
+      ErrorCode.WEBHOOK_SIGNATURE_INVALID,
+      ErrorSeverity.HIGH,
+      'The payment notification could not be verified.',
+      false,
+      context
+    );
+    this.provider = provider;
+  }
+}
+
+/**
+ * Purchased file that cannot be downloaded (expired, exhausted, revoked...)
+ */
+export class DownloadError extends AppError {
+  /** Reason reported by /api/downloads (limit_reached, revoked...) */
+  public readonly reason: string;
+
+  constructor(
+    message: string = 'Download unavailable',
+    reason: string = 'unknown',
+    context?: ErrorContext
+  ) {
+    super(
+      message,
+      ErrorCode.DOWNLOAD_UNAVAILABLE,
+      ErrorSeverity.LOW,
+      'This download is no longer available.',
+      false,
+      context
+    );
+    this.reason = reason;
+  }
+}
+
+/**
+ * Promotion code that cannot be applied to the cart
+ */
+export class PromotionError extends AppError {
+  /** Reason reported by /api/promotions (expired, min_purchase_not_met...) */
+  public readonly reason: string;
+
+  constructor(
+    message: string = 'Promotion rejected',
+    reason: string = 'unknown',
+    context?: ErrorContext
+  ) {
+    super(
+      message,
+      ErrorCode.PROMOTION_REJECTED,
+      ErrorSeverity.LOW,
+      'This promotion code cannot be applied.',
+      false,
+      context
+    );
+    this.reason = reason;
+  }
+}
+
+/**
+ * Product review that cannot be submitted (not purchased, already reviewed...)
+ */
+export class ReviewError extends AppError {
+  /** Reason reported by /api/reviews (not_purchased, already_reviewed...) */
+  public readonly reason: string;
+
+  constructor(
+    message: string = 'Review rejected',
+    reason: string = 'unknown',
+    context?: ErrorContext
+  ) {
+    super(
+      message,
+      ErrorCode.REVIEW_REJECTED,
+      ErrorSeverity.LOW,
+      'Your review could not be submitted.',
+      false,
+      context
+    );
+    this.reason = reason;
+  }
+}
+
+/**
+ * Order history request that failed (order not found, no session...)
+ */
+export class OrderError extends AppError {
+  /** Reason reported by /api/orders (order_not_found...) */
+  public readonly reason: string;
+
+  constructor(
+    message: string = 'Order unavailable',
+    reason: string = 'unknown',
+    context?: ErrorContext
+  ) {
+    super(
+      message,
+      ErrorCode.ORDER_UNAVAILABLE,
+      ErrorSeverity.LOW,
+      'We could not load your orders.',
+      reason !== 'order_not_found',
+      context
+    );
+    this.reason = reason;
+  }
+}
+
 /**
  * Utility functions for error handling
  */
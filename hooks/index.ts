@@ -1,4 +1,6 @@
 // Custom hooks de Ayla Designs
+// useProductSearch se importa desde "@hooks/useProductSearch": depende de la
+// navegación de Next y no debe cargarse con el resto de hooks
 export { useLogger } from "./useLogger";
 export { useApiError, type UseApiErrorReturn, type UseApiErrorOptions } from "./useApiError";
 export {
@@ -9,6 +11,19 @@ export {
   type UseFormValidationReturn,
 } from "./useFormValidation";
 export { useThemeSync } from "./useThemeSync";
+export {
+  usePriceFormatter,
+  type PriceFormatOptions,
+  type UsePriceFormatterReturn,
+} from "./usePriceFormatter";
+export {
+  useProductLocalization,
+  type UseProductLocalizationReturn,
+} from "./useProductLocalization";
+export {
+  useRelatedProducts,
+  type UseRelatedProductsReturn,
+} from "./useRelatedProducts";
 export {
   useInView,
   type UseInViewOptions,
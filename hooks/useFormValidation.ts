@@ -224,7 +224,7 @@ export function useFormValidation<T extends z.ZodType>(
             // Establecer error del campo
             setErrors((prev) => ({
               ...prev,
-              [field]: result.error.errors[0]?.message || "Campo inválido",
+              [field]: result.error.issues[0]?.message || "Campo inválido",
             }));
             return false;
           }
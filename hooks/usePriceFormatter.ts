@@ -0,0 +1,58 @@
+/**
+ * usePriceFormatter - Formatea importes en la moneda y el locale del usuario
+ *
+ * Combina el locale activo de next-intl con la moneda elegida en el selector
+ * (slice de UI). Los importes se convierten con los tipos de cambio
+ * configurados salvo que se pida la moneda original (ej: lo que se cobra).
+ *
+ * Durante la hidratación se usa STORE_CURRENCY, igual que en el servidor, y
+ * después la moneda persistida, para evitar discrepancias de hidratación.
+ *
+ * @example
+ * ```tsx
+ * const { format } = usePriceFormatter();
+ * format(fromMajorUnits(product.price)) // "26,99 US$"
+ * format(order.total, { convert: false }) // "24,99 €"
+ * ```
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import { useLocale } from "next-intl";
+import { useStore } from "@/store";
+import type { CurrencyCode, Money } from "@types";
+import { STORE_CURRENCY, convertMoney, formatMoney } from "@lib/money";
+
+export interface PriceFormatOptions {
+  /** Convertir a la moneda seleccionada (por defecto true) */
+  convert?: boolean;
+}
+
+export interface UsePriceFormatterReturn {
+  /** Moneda en la que se muestran los precios */
+  currency: CurrencyCode;
+  /** Importe en la moneda seleccionada */
+  convert: (value: Money) => Money;
+  /** Importe formateado según el locale */
+  format: (value: Money, options?: PriceFormatOptions) => string;
+}
+
+const getCurrency = () => useStore.getState().ui.currency;
+const getServerCurrency = () => STORE_CURRENCY;
+
+export function usePriceFormatter(): UsePriceFormatterReturn {
+  const locale = useLocale();
+  const currency = useSyncExternalStore(useStore.subscribe, getCurrency, getServerCurrency);
+
+  const convert = useCallback(
+    (value: Money) => convertMoney(value, currency),
+    [currency]
+  );
+
+  const format = useCallback(
+    (value: Money, { convert: shouldConvert = true }: PriceFormatOptions = {}) =>
+      formatMoney(shouldConvert ? convert(value) : value, locale),
+    [convert, locale]
+  );
+
+  return { currency, convert, format };
+}
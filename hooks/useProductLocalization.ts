@@ -0,0 +1,46 @@
+/**
+ * useProductLocalization - Productos en el idioma del visitante
+ *
+ * Lee las traducciones del namespace `Products` de next-intl (cargadas con
+ * el resto de mensajes del locale activo) y las aplica a productos y líneas
+ * del carrito. Los campos sin traducir mantienen el contenido del catálogo.
+ *
+ * @example
+ * ```tsx
+ * const { localizeProduct } = useProductLocalization();
+ * const localized = localizeProduct(product);
+ * ```
+ */
+
+import { useCallback } from "react";
+import { useMessages } from "next-intl";
+import {
+  localizeCartItem as applyToCartItem,
+  localizeProduct as applyToProduct,
+  type ProductTranslations,
+} from "@lib/catalog";
+import type { AylaCartItem, AylaProduct } from "@types";
+
+export interface UseProductLocalizationReturn {
+  /** Producto con nombre, descripción y características traducidas */
+  localizeProduct: <T extends AylaProduct>(product: T) => T;
+  /** Línea del carrito traducida, incluida su variante */
+  localizeCartItem: (item: AylaCartItem) => AylaCartItem;
+}
+
+export function useProductLocalization(): UseProductLocalizationReturn {
+  const messages = useMessages();
+  const translations = messages.Products as ProductTranslations | undefined;
+
+  const localizeProduct = useCallback(
+    <T extends AylaProduct>(product: T) => applyToProduct(product, translations),
+    [translations]
+  );
+
+  const localizeCartItem = useCallback(
+    (item: AylaCartItem) => applyToCartItem(item, translations),
+    [translations]
+  );
+
+  return { localizeProduct, localizeCartItem };
+}
@@ -0,0 +1,44 @@
+/**
+ * useProductSearch - Búsqueda de productos desde el buscador del Navbar
+ *
+ * Conecta el `SearchInput` con el slice de búsqueda del store: el texto se
+ * guarda en la query y, al buscar (Enter o botón), se abre el catálogo con
+ * la búsqueda en la URL (`/products?q=`), renderizado en el servidor.
+ *
+ * @example
+ * ```tsx
+ * const searchProps = useProductSearch();
+ * <Navbar showSearch searchProps={searchProps} />
+ * ```
+ */
+
+import { useCallback, useTransition } from "react";
+import { useRouter } from "@/i18n/navigation";
+import { getCatalogHref } from "@lib/catalog";
+import { useSearch, useSearchActions } from "@/store";
+
+export interface UseProductSearchReturn {
+  value: string;
+  onChange: (value: string) => void;
+  onSearch: (value: string) => void;
+  /** Mientras se carga el catálogo con la búsqueda */
+  loading: boolean;
+}
+
+export function useProductSearch(): UseProductSearchReturn {
+  const router = useRouter();
+  const query = useSearch((state) => state.query);
+  const { setQuery } = useSearchActions();
+  const [isPending, startTransition] = useTransition();
+
+  const onSearch = useCallback(
+    (value: string) => {
+      startTransition(() => {
+        router.push(getCatalogHref("/products", { query: value }));
+      });
+    },
+    [router]
+  );
+
+  return { value: query, onChange: setQuery, onSearch, loading: isPending };
+}
@@ -0,0 +1,68 @@
+/**
+ * useRelatedProducts - Productos relacionados con el producto abierto
+ *
+ * Pide a `/api/recommendations` los productos de "También te puede gustar"
+ * en el idioma del visitante. Sin producto (modal cerrado) no hace nada;
+ * si la petición falla devuelve una lista vacía.
+ *
+ * @example
+ * ```tsx
+ * const { products: related } = useRelatedProducts(selectedProduct?.id ?? null);
+ * <ProductModal product={selectedProduct} relatedProducts={related} ... />
+ * ```
+ */
+
+import { useEffect, useState } from "react";
+import { useLocale } from "next-intl";
+import { logger } from "@lib/logger";
+import { recommendationService } from "@lib/services/recommendation";
+import type { AylaProduct } from "@types";
+
+export interface UseRelatedProductsReturn {
+  products: AylaProduct[];
+  /** Mientras se piden los relacionados del producto actual */
+  isLoading: boolean;
+}
+
+const NO_PRODUCTS: AylaProduct[] = [];
+
+export function useRelatedProducts(
+  productId: number | null,
+  limit?: number
+): UseRelatedProductsReturn {
+  const locale = useLocale();
+  // Resultado etiquetado con su producto: al cambiar de producto no se
+  // muestran los relacionados del anterior
+  const [result, setResult] = useState<{ key: string; items: AylaProduct[] } | null>(null);
+  const key = productId === null ? null : `${productId}:${locale}:${limit ?? ""}`;
+
+  useEffect(() => {
+    if (productId === null || key === null) return;
+
+    let cancelled = false;
+
+    recommendationService
+      .related(productId, { limit, locale })
+      .then(({ items }) => {
+        if (!cancelled) setResult({ key, items });
+      })
+      .catch((error: unknown) => {
+        logger.warn(
+          "Failed to load related products",
+          error instanceof Error ? error : undefined
+        );
+        if (!cancelled) setResult({ key, items: NO_PRODUCTS });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId, key, limit, locale]);
+
+  const isCurrent = key !== null && result?.key === key;
+
+  return {
+    products: isCurrent ? result.items : NO_PRODUCTS,
+    isLoading: key !== null && !isCurrent,
+  };
+}
@@ -35,6 +35,10 @@ export const NAMESPACES = [
   "navigation",
   "components",
   "storybook",
+  "checkout",
+  "account",
+  "catalog",
+  "products",
 ] as const;
 
 export type Namespace = (typeof NAMESPACES)[number];
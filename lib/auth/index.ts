@@ -0,0 +1,44 @@
+/**
+ * Auth - Utilidades de autenticación compartidas entre cliente y servidor
+ *
+ * La sesión y los guards de rol en route handlers (solo servidor) viven en
+ * `@lib/auth/server`.
+ */
+
+export {
+  REDIRECT_PARAM,
+  getSafeRedirect,
+  getAuthHref,
+  rememberRedirect,
+  consumeRememberedRedirect,
+} from "./redirect";
+
+export {
+  USER_ROLES,
+  DEFAULT_USER_ROLE,
+  isUserRole,
+  parseUserRole,
+  hasRole,
+  type UserRole,
+} from "./roles";
+
+export {
+  MFA_REQUIRED_ROLE,
+  MFA_AUTH_METHODS,
+  TOTP_CODE_LENGTH,
+  isMfaRequired,
+  hasMfaClaim,
+  normalizeMfaCode,
+  isTotpProvisioningUri,
+} from "./mfa";
+
+export {
+  decodeJwtClaims,
+  getJwtSubject,
+  verifyJwt,
+  type JwtClaims,
+  type JsonWebKeySet,
+  type JsonWebKeyWithId,
+  type JwtVerificationOptions,
+  type JwtVerificationResult,
+} from "./jwt";
@@ -0,0 +1,224 @@
+/**
+ * JWT - Decodificación y verificación de access tokens
+ *
+ * Solo usa Web Crypto, `atob` y `TextDecoder`, así que funciona igual en el
+ * middleware (edge runtime) que en los route handlers y en los tests.
+ *
+ * Algoritmos aceptados:
+ * - HS256 con el secreto compartido con el backend
+ * - RS256 con las claves públicas de un JWKS
+ *
+ * Un token solo se acepta con el algoritmo cuya clave está configurada
+ * (nunca `none`, ni HS256 firmado con la clave pública del JWKS).
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Claims que usa el frontend; el resto se conserva tal cual */
+export interface JwtClaims {
+  sub?: string | number;
+  user_id?: string | number;
+  role?: unknown;
+  /** Caducidad (segundos desde epoch) */
+  exp?: number;
+  /** No válido antes de (segundos desde epoch) */
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+/** Clave pública de un JWKS */
+export interface JsonWebKeyWithId extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export interface JsonWebKeySet {
+  keys: JsonWebKeyWithId[];
+}
+
+export interface JwtVerificationOptions {
+  /** Secreto compartido para tokens HS256 */
+  secret?: string;
+  /** Claves públicas para tokens RS256 (solo se cargan si llega uno) */
+  getJwks?: () => Promise<JsonWebKeySet>;
+  /** Margen para el desfase de reloj con el backend */
+  clockToleranceSeconds?: number;
+  /** Instante de la comprobación en segundos (por defecto, ahora) */
+  now?: number;
+}
+
+/**
+ * Resultado de la verificación
+ *
+ * `expired` solo se devuelve con la firma válida: el token es auténtico y
+ * se puede renovar con el refresh token.
+ */
+export type JwtVerificationResult =
+  | { status: "valid"; claims: JwtClaims }
+  | { status: "expired"; claims: JwtClaims }
+  | { status: "invalid"; reason: string };
+
+interface DecodedJwt {
+  header: { alg?: unknown; kid?: unknown };
+  claims: JwtClaims;
+  signingInput: string;
+  signature: string;
+}
+
+// =============================================================================
+// DECODE
+// =============================================================================
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeJsonSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const decodedHeader = decodeJsonSegment(header);
+  const claims = decodeJsonSegment(payload);
+  if (!decodedHeader || !claims) return null;
+
+  return {
+    header: decodedHeader,
+    claims: claims as JwtClaims,
+    signingInput: `${header}.${payload}`,
+    signature,
+  };
+}
+
+/**
+ * Decodifica los claims de un JWT sin verificarlo (ni leer la cabecera)
+ *
+ * @returns Claims del token, o null si no tiene formato JWT
+ */
+export function decodeJwtClaims(token: string): JwtClaims | null {
+  const [, payload] = token.split(".");
+  return payload ? (decodeJsonSegment(payload) as JwtClaims | null) : null;
+}
+
+/**
+ * ID del usuario del token (claim `sub` o `user_id`)
+ */
+export function getJwtSubject(claims: JwtClaims | null | undefined): string | null {
+  const subject = claims?.sub ?? claims?.user_id;
+
+  if (typeof subject === "string" && subject) return subject;
+  if (typeof subject === "number") return String(subject);
+  return null;
+}
+
+// =============================================================================
+// VERIFY
+// =============================================================================
+
+const HS256 = { name: "HMAC", hash: "SHA-256" } as const;
+const RS256 = { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" } as const;
+
+async function getVerificationKey(
+  header: DecodedJwt["header"],
+  options: JwtVerificationOptions
+): Promise<{ key: CryptoKey; algorithm: AlgorithmIdentifier } | null> {
+  if (header.alg === "HS256" && options.secret) {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(options.secret),
+      HS256,
+      false,
+      ["verify"]
+    );
+    return { key, algorithm: HS256.name };
+  }
+
+  if (header.alg === "RS256" && options.getJwks) {
+    const { keys } = await options.getJwks();
+    const jwk = keys.find(
+      (candidate) =>
+        candidate.kty === "RSA" &&
+        (candidate.use === undefined || candidate.use === "sig") &&
+        (candidate.alg === undefined || candidate.alg === "RS256") &&
+        (header.kid === undefined || candidate.kid === header.kid)
+    );
+    if (!jwk) return null;
+
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      { kty: jwk.kty, n: jwk.n, e: jwk.e },
+      RS256,
+      false,
+      ["verify"]
+    );
+    return { key, algorithm: RS256.name };
+  }
+
+  return null;
+}
+
+/**
+ * Verifica la firma, la caducidad (`exp`) y el inicio de validez (`nbf`)
+ *
+ * @example
+ * ```ts
+ * const result = await verifyJwt(token, { secret: process.env.AUTH_JWT_SECRET });
+ * if (result.status === "valid") getJwtSubject(result.claims);
+ * ```
+ */
+export async function verifyJwt(
+  token: string,
+  options: JwtVerificationOptions
+): Promise<JwtVerificationResult> {
+  const decoded = decodeJwt(token);
+  if (!decoded) return { status: "invalid", reason: "malformed" };
+
+  const { header, claims, signingInput, signature } = decoded;
+
+  try {
+    const verification = await getVerificationKey(header, options);
+    if (!verification) return { status: "invalid", reason: "unsupported_key" };
+
+    const isValid = await crypto.subtle.verify(
+      verification.algorithm,
+      verification.key,
+      base64UrlToBytes(signature),
+      new TextEncoder().encode(signingInput)
+    );
+    if (!isValid) return { status: "invalid", reason: "signature" };
+  } catch {
+    return { status: "invalid", reason: "signature" };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 0;
+
+  const { nbf, exp } = claims;
+
+  if (nbf !== undefined && (typeof nbf !== "number" || nbf > now + tolerance)) {
+    return { status: "invalid", reason: "not_before" };
+  }
+  if (exp !== undefined && typeof exp !== "number") {
+    return { status: "invalid", reason: "expiry" };
+  }
+  if (exp !== undefined && exp <= now - tolerance) {
+    return { status: "expired", claims };
+  }
+
+  return { status: "valid", claims };
+}
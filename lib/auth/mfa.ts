@@ -0,0 +1,61 @@
+/**
+ * Auth MFA - Verificación en dos pasos (TOTP)
+ *
+ * El backend genera el secreto, valida los códigos y, tras el segundo paso,
+ * emite un access token con el claim `amr` (RFC 8176) que incluye "otp"
+ * (o "mfa"). El frontend solo decide a quién se le exige:
+ * - admin y super_admin deben tener la verificación activada
+ * - el resto de cuentas pueden activarla desde /account/security
+ */
+
+import type { JwtClaims } from "./jwt";
+import { hasRole, type UserRole } from "./roles";
+
+/** Rol a partir del cual la verificación en dos pasos es obligatoria */
+export const MFA_REQUIRED_ROLE: UserRole = "admin";
+
+/** Valores del claim `amr` que indican que se ha superado el segundo paso */
+export const MFA_AUTH_METHODS = ["otp", "mfa"] as const;
+
+/** Dígitos de los códigos TOTP */
+export const TOTP_CODE_LENGTH = 6;
+
+/**
+ * Comprueba si el rol debe usar la verificación en dos pasos
+ *
+ * @example
+ * ```ts
+ * isMfaRequired("admin");    // true
+ * isMfaRequired("customer"); // false
+ * ```
+ */
+export function isMfaRequired(role: UserRole): boolean {
+  return hasRole(role, MFA_REQUIRED_ROLE);
+}
+
+/**
+ * Comprueba si el token se emitió tras el segundo paso (claim `amr`)
+ */
+export function hasMfaClaim(claims: JwtClaims | null | undefined): boolean {
+  const methods = claims?.amr;
+  return (
+    Array.isArray(methods) &&
+    methods.some((method) => (MFA_AUTH_METHODS as readonly unknown[]).includes(method))
+  );
+}
+
+/**
+ * Quita los espacios de un código (los autenticadores los muestran
+ * agrupados: "123 456")
+ */
+export function normalizeMfaCode(code: string): string {
+  return code.replace(/\s/g, "");
+}
+
+/**
+ * Comprueba que una URI de aprovisionamiento es `otpauth://totp/...`
+ * antes de usarla como enlace
+ */
+export function isTotpProvisioningUri(uri: string): boolean {
+  return /^otpauth:\/\/totp\/[^?]+\?(?:.*&)?secret=[A-Z2-7]+=*(?:&|$)/i.test(uri);
+}
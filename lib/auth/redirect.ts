@@ -0,0 +1,88 @@
+/**
+ * Auth Redirect - Destino después de iniciar sesión
+ *
+ * El middleware manda a /auth/login?redirect=/account/orders cuando una
+ * ruta protegida no tiene sesión. Las páginas de auth llevan ese parámetro
+ * entre login, registro y Google OAuth, y al terminar vuelven a la ruta
+ * original.
+ *
+ * Solo se aceptan rutas internas: un `?redirect=https://...` o `//host`
+ * manipulado nunca saca al usuario de la tienda.
+ */
+
+import { AFTER_LOGIN_REDIRECT } from "@/middleware/config";
+import { routing } from "@/i18n/routing";
+
+/** Parámetro de la URL con la ruta a la que volver */
+export const REDIRECT_PARAM = "redirect";
+
+/** Clave de sessionStorage que conserva el destino durante Google OAuth */
+const REMEMBERED_REDIRECT_KEY = "auth_redirect";
+
+/** Prefijo de locale al principio de la ruta (/en, /en/...) */
+const LOCALE_PREFIX = new RegExp(`^/(${routing.locales.join("|")})(?=/|$|\\?)`);
+
+/** Ruta del propio sitio: empieza por "/" pero no por "//" ni "/\" (otro host) */
+const INTERNAL_PATH = /^\/(?![/\\])/;
+
+/** Páginas de auth: volver a ellas después del login no tiene sentido */
+const AUTH_PAGES = /^\/auth(\/|\?|$)/;
+
+/**
+ * Ruta interna a la que volver después de iniciar sesión
+ *
+ * Quita el prefijo de locale (la navegación de next-intl lo añade) y
+ * descarta rutas externas o de las propias páginas de auth.
+ *
+ * @example
+ * ```ts
+ * getSafeRedirect("/en/account/orders"); // "/account/orders"
+ * getSafeRedirect("https://evil.com");   // AFTER_LOGIN_REDIRECT
+ * getSafeRedirect("/auth/login");        // AFTER_LOGIN_REDIRECT
+ * ```
+ */
+export function getSafeRedirect(
+  value: string | null | undefined,
+  fallback: string = AFTER_LOGIN_REDIRECT
+): string {
+  if (!value || !INTERNAL_PATH.test(value)) return fallback;
+
+  const stripped = value.replace(LOCALE_PREFIX, "");
+  const path = stripped.startsWith("/") ? stripped : `/${stripped}`;
+
+  return INTERNAL_PATH.test(path) && !AUTH_PAGES.test(path) ? path : fallback;
+}
+
+/**
+ * Enlace a una página de auth que conserva el destino
+ *
+ * @example
+ * ```ts
+ * getAuthHref("/auth/register", "/account/orders");
+ * // "/auth/register?redirect=%2Faccount%2Forders"
+ * getAuthHref("/auth/register", AFTER_LOGIN_REDIRECT); // "/auth/register"
+ * ```
+ */
+export function getAuthHref(pathname: string, redirectTo: string): string {
+  if (redirectTo === AFTER_LOGIN_REDIRECT) return pathname;
+  return `${pathname}?${new URLSearchParams({ [REDIRECT_PARAM]: redirectTo })}`;
+}
+
+/**
+ * Guarda el destino antes de salir a Google (el callback no lo recibe)
+ */
+export function rememberRedirect(redirectTo: string): void {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(REMEMBERED_REDIRECT_KEY, redirectTo);
+}
+
+/**
+ * Recupera (y olvida) el destino guardado antes de Google OAuth
+ */
+export function consumeRememberedRedirect(): string {
+  if (typeof window === "undefined") return AFTER_LOGIN_REDIRECT;
+
+  const value = sessionStorage.getItem(REMEMBERED_REDIRECT_KEY);
+  sessionStorage.removeItem(REMEMBERED_REDIRECT_KEY);
+  return getSafeRedirect(value);
+}
@@ -0,0 +1,53 @@
+/**
+ * Auth Roles - Jerarquía de roles de la tienda
+ *
+ * Cada rol incluye los permisos de los anteriores:
+ * - customer: compra, descarga y reseña sus diseños
+ * - admin: operación del negocio (pedidos, catálogo, moderación)
+ * - super_admin: además, la configuración del sistema
+ *
+ * El rol llega en el claim `role` del access token; cualquier valor
+ * desconocido (o ausente) se trata como customer.
+ */
+
+/** Roles ordenados de menos a más permisos */
+export const USER_ROLES = ["customer", "admin", "super_admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/** Rol de las cuentas sin rol reconocido */
+export const DEFAULT_USER_ROLE: UserRole = "customer";
+
+/**
+ * Comprueba si un valor es un rol conocido
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Rol a partir del valor del backend o del token
+ *
+ * @example
+ * ```ts
+ * parseUserRole("admin");    // "admin"
+ * parseUserRole("musician"); // "customer"
+ * parseUserRole(null);       // "customer"
+ * ```
+ */
+export function parseUserRole(value: unknown): UserRole {
+  return isUserRole(value) ? value : DEFAULT_USER_ROLE;
+}
+
+/**
+ * Comprueba si un rol cumple el rol requerido (o uno superior)
+ *
+ * @example
+ * ```ts
+ * hasRole("super_admin", "admin"); // true
+ * hasRole("customer", "admin");    // false
+ * ```
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
@@ -0,0 +1,11 @@
+/**
+ * Auth (Server-side)
+ */
+
+export {
+  decodeJwtPayload,
+  getSessionUserId,
+  getSessionUser,
+  type SessionUser,
+} from "./session";
+export { requireRole } from "./roles";
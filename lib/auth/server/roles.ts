@@ -0,0 +1,47 @@
+/**
+ * Role Guards (Server-side)
+ *
+ * Guard de rol para route handlers: devuelve el usuario de la sesión o la
+ * respuesta de error lista para retornar. Para admin y superiores también
+ * exige que la sesión incluya la verificación en dos pasos.
+ *
+ * @example
+ * ```ts
+ * export async function GET(request: NextRequest) {
+ *   const session = requireRole(request, "admin");
+ *   if (session instanceof NextResponse) return session;
+ *
+ *   // session.id, session.role
+ * }
+ * ```
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { isMfaRequired } from "../mfa";
+import { hasRole, type UserRole } from "../roles";
+import { getSessionUser, type SessionUser } from "./session";
+
+/**
+ * Exige una sesión con el rol indicado (o uno superior)
+ *
+ * @returns Usuario de la sesión, o una respuesta 401 (sin sesión) o
+ * 403 (rol insuficiente o sin la verificación en dos pasos)
+ */
+export function requireRole(
+  request: NextRequest,
+  role: UserRole
+): SessionUser | NextResponse {
+  const session = getSessionUser(request);
+
+  if (!session) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+  if (!hasRole(session.role, role)) {
+    return NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 });
+  }
+  if (isMfaRequired(role) && !session.mfa) {
+    return NextResponse.json({ success: false, error: "MFA required" }, { status: 403 });
+  }
+
+  return session;
+}
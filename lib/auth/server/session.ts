@@ -0,0 +1,89 @@
+/**
+ * Session helpers (Server-side)
+ *
+ * Identifica al usuario de una petición a partir de la cookie de acceso
+ * que emite el backend.
+ *
+ * Con la verificación del token configurada (AUTH_JWT_SECRET o
+ * AUTH_JWKS_PATH), el middleware comprueba firma y caducidad y pasa el ID,
+ * el rol y el segundo paso en los headers X-User-ID / X-User-Role /
+ * X-User-MFA; solo se confía en ellos (el middleware elimina los que envíe
+ * el cliente).
+ *
+ * Sin verificación configurada, el payload del JWT se decodifica sin
+ * verificar la firma, y solo fuera de producción (desarrollo y tests). En
+ * producción cualquiera podría forjar la cookie con el `sub` de otro
+ * cliente, así que no hay sesión: los route handlers responden 401 hasta
+ * configurar la verificación (ver canTrustUnverifiedClaims).
+ */
+
+import type { NextRequest } from "next/server";
+import { AUTH_COOKIES, HEADERS } from "@/middleware/types";
+import {
+  canTrustUnverifiedClaims,
+  isAccessTokenVerificationEnabled,
+} from "@/middleware/tokens";
+import { decodeJwtClaims, getJwtSubject } from "../jwt";
+import { hasMfaClaim } from "../mfa";
+import { parseUserRole, type UserRole } from "../roles";
+
+/**
+ * Usuario de la sesión según el access token
+ */
+export interface SessionUser {
+  id: string;
+  role: UserRole;
+  /** El token se emitió tras la verificación en dos pasos */
+  mfa: boolean;
+}
+
+/**
+ * Decodifica el payload de un JWT sin verificarlo
+ *
+ * @returns Claims del token, o null si no tiene formato JWT
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  return decodeJwtClaims(token);
+}
+
+/**
+ * Obtiene el ID del usuario autenticado en la petición
+ *
+ * @returns ID del usuario (claim `sub` o `user_id`), o null si no hay sesión
+ */
+export function getSessionUserId(request: NextRequest): string | null {
+  return getSessionUser(request)?.id ?? null;
+}
+
+/**
+ * Obtiene el usuario autenticado en la petición con su rol
+ *
+ * @returns ID (claim `sub` o `user_id`), rol (claim `role`, customer si
+ * falta) y segundo paso (claim `amr`), o null si no hay sesión o, en
+ * producción, si el token no se puede verificar
+ */
+export function getSessionUser(request: NextRequest): SessionUser | null {
+  // Token verificado por el middleware
+  if (isAccessTokenVerificationEnabled()) {
+    const id = request.headers.get(HEADERS.USER_ID);
+    if (!id) return null;
+
+    return {
+      id,
+      role: parseUserRole(request.headers.get(HEADERS.USER_ROLE)),
+      mfa: request.headers.get(HEADERS.USER_MFA) === "true",
+    };
+  }
+
+  // Token sin verificar: ni siquiera el ID es de fiar en producción
+  if (!canTrustUnverifiedClaims()) return null;
+
+  const token = request.cookies.get(AUTH_COOKIES.ACCESS_TOKEN)?.value;
+  if (!token) return null;
+
+  const claims = decodeJwtClaims(token);
+  const id = getJwtSubject(claims);
+  if (!id) return null;
+
+  return { id, role: parseUserRole(claims?.role), mfa: hasMfaClaim(claims) };
+}
@@ -0,0 +1,15 @@
+/**
+ * Cart - Dominio del carrito compartido entre cliente y servidor
+ *
+ * Las implementaciones de almacenamiento (solo servidor) viven en
+ * `@lib/cart/server/repository`.
+ */
+
+export * from "./types";
+export {
+  MAX_QUANTITY_PER_ITEM,
+  getCartLineKey,
+  mergeCartLines,
+  normalizeCartLines,
+  type MergeCartOptions,
+} from "./merge";
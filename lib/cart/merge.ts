@@ -0,0 +1,129 @@
+/**
+ * Cart Merge - Reglas para fusionar carritos
+ *
+ * Se usa al iniciar sesión: el carrito anónimo del navegador se combina
+ * con el carrito guardado del usuario.
+ *
+ * Reglas:
+ * - Las cantidades del mismo producto y variante se suman
+ * - Cada línea se limita a `maxQuantity` unidades
+ * - Los productos que ya no están disponibles se descartan
+ */
+
+import type { CartLine, CartMergeResult } from "./types";
+
+/** Máximo de unidades por producto en un carrito */
+export const MAX_QUANTITY_PER_ITEM = 10;
+
+/**
+ * Clave de una línea del carrito: cada variante de un producto es una línea
+ *
+ * @example
+ * ```ts
+ * getCartLineKey(1, 102); // "1:102"
+ * getCartLineKey(1);      // "1"
+ * ```
+ */
+export function getCartLineKey(productId: number, variantId?: number | null): string {
+  return variantId === null || variantId === undefined
+    ? String(productId)
+    : `${productId}:${variantId}`;
+}
+
+export interface MergeCartOptions {
+  /** Indica si el producto (y la variante, si la hay) sigue a la venta */
+  isAvailable: (productId: number, variantId?: number | null) => boolean;
+  /** Máximo de unidades por línea (por defecto MAX_QUANTITY_PER_ITEM) */
+  maxQuantity?: number;
+}
+
+/**
+ * Fusiona el carrito anónimo con el guardado.
+ *
+ * El orden resultante respeta el carrito guardado y añade al final
+ * las líneas nuevas del carrito anónimo.
+ *
+ * @example
+ * ```ts
+ * const { items, summary } = mergeCartLines(anonymous, stored, {
+ *   isAvailable: (id) => catalogIds.has(id),
+ * });
+ * ```
+ */
+export function mergeCartLines(
+  anonymous: CartLine[],
+  stored: CartLine[],
+  { isAvailable, maxQuantity = MAX_QUANTITY_PER_ITEM }: MergeCartOptions
+): CartMergeResult {
+  const lines = new Map<string, CartLine>();
+  const storedKeys = new Set<string>();
+  const combinedKeys = new Set<string>();
+  const addedKeys = new Set<string>();
+
+  const accumulate = (line: CartLine) => {
+    const key = getCartLineKey(line.productId, line.variantId);
+    const quantity = (lines.get(key)?.quantity ?? 0) + line.quantity;
+    lines.set(key, {
+      productId: line.productId,
+      ...(line.variantId ? { variantId: line.variantId } : {}),
+      quantity,
+    });
+    return key;
+  };
+
+  for (const line of stored) {
+    storedKeys.add(accumulate(line));
+  }
+
+  for (const line of anonymous) {
+    const key = getCartLineKey(line.productId, line.variantId);
+    if (storedKeys.has(key)) {
+      combinedKeys.add(key);
+    } else {
+      addedKeys.add(key);
+    }
+    accumulate(line);
+  }
+
+  const items: CartLine[] = [];
+  const capped: number[] = [];
+  const dropped: number[] = [];
+  const droppedKeys = new Set<string>();
+
+  for (const [key, line] of lines) {
+    if (!isAvailable(line.productId, line.variantId)) {
+      dropped.push(line.productId);
+      droppedKeys.add(key);
+      continue;
+    }
+
+    if (line.quantity > maxQuantity) {
+      capped.push(line.productId);
+    }
+
+    items.push({ ...line, quantity: Math.min(line.quantity, maxQuantity) });
+  }
+
+  const isKept = (key: string) => !droppedKeys.has(key);
+
+  return {
+    items,
+    summary: {
+      added: [...addedKeys].filter(isKept).length,
+      combined: [...combinedKeys].filter(isKept).length,
+      capped,
+      dropped,
+    },
+  };
+}
+
+/**
+ * Normaliza un carrito: agrupa duplicados, limita cantidades y
+ * descarta productos no disponibles.
+ */
+export function normalizeCartLines(
+  lines: CartLine[],
+  options: MergeCartOptions
+): CartLine[] {
+  return mergeCartLines(lines, [], options).items;
+}
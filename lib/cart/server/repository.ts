@@ -0,0 +1,131 @@
+/**
+ * Cart Repository (Server-side)
+ *
+ * Almacenamiento de carritos por usuario con implementaciones intercambiables:
+ * - InMemoryCartRepository: para tests y desarrollo sin disco
+ * - FileCartRepository: un JSON por usuario en disco, para ejecuciones locales
+ *
+ * La implementación se elige con `CART_REPOSITORY` ("memory" | "file") y
+ * el directorio del repositorio de archivos con `CART_STORAGE_DIR`.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import type { CartLine, StoredCart } from "../types";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface CartRepository {
+  /** Devuelve el carrito del usuario, o null si no tiene */
+  get(ownerId: string): Promise<StoredCart | null>;
+  /** Reemplaza el carrito del usuario */
+  save(ownerId: string, items: CartLine[]): Promise<StoredCart>;
+  /** Elimina el carrito del usuario */
+  delete(ownerId: string): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY
+// =============================================================================
+
+class InMemoryCartRepository implements CartRepository {
+  private carts = new Map<string, StoredCart>();
+
+  async get(ownerId: string): Promise<StoredCart | null> {
+    return this.carts.get(ownerId) ?? null;
+  }
+
+  async save(ownerId: string, items: CartLine[]): Promise<StoredCart> {
+    const cart: StoredCart = {
+      items: items.map((line) => ({ ...line })),
+      updatedAt: new Date().toISOString(),
+    };
+    this.carts.set(ownerId, cart);
+    return cart;
+  }
+
+  async delete(ownerId: string): Promise<void> {
+    this.carts.delete(ownerId);
+  }
+}
+
+// =============================================================================
+// FILE
+// =============================================================================
+
+class FileCartRepository implements CartRepository {
+  constructor(private readonly dir: string) {}
+
+  async get(ownerId: string): Promise<StoredCart | null> {
+    try {
+      const raw = await readFile(this.pathFor(ownerId), "utf-8");
+      return JSON.parse(raw) as StoredCart;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async save(ownerId: string, items: CartLine[]): Promise<StoredCart> {
+    const cart: StoredCart = { items, updatedAt: new Date().toISOString() };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(ownerId), JSON.stringify(cart), "utf-8");
+
+    return cart;
+  }
+
+  async delete(ownerId: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(ownerId));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  /**
+   * Ruta del archivo del usuario (hash del ID para evitar path traversal)
+   */
+  private pathFor(ownerId: string): string {
+    const hash = createHash("sha256").update(ownerId).digest("hex");
+    return join(this.dir, `${hash}.json`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let repository: CartRepository | null = null;
+
+/**
+ * Obtiene el repositorio configurado (singleton)
+ */
+export function getCartRepository(): CartRepository {
+  if (!repository) {
+    repository =
+      process.env.CART_REPOSITORY === "file"
+        ? new FileCartRepository(process.env.CART_STORAGE_DIR || "./.data/carts")
+        : new InMemoryCartRepository();
+  }
+  return repository;
+}
+
+/**
+ * Sustituye el repositorio activo (tests o backends alternativos)
+ */
+export function setCartRepository(next: CartRepository | null): void {
+  repository = next;
+}
+
+export { InMemoryCartRepository, FileCartRepository };
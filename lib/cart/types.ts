@@ -0,0 +1,47 @@
+/**
+ * Cart Types - Tipos del carrito guardado en servidor
+ */
+
+/**
+ * Línea del carrito tal como se guarda en el servidor.
+ * Solo referencias al catálogo: precio y datos se resuelven al hidratar.
+ */
+export interface CartLine {
+  /** ID del producto en el catálogo */
+  productId: number;
+  /** Variante elegida (ausente en productos sin variantes) */
+  variantId?: number | null;
+  /** Cantidad (>= 1) */
+  quantity: number;
+}
+
+/**
+ * Carrito guardado para un usuario
+ */
+export interface StoredCart {
+  items: CartLine[];
+  /** Timestamp ISO de la última escritura */
+  updatedAt: string;
+}
+
+/**
+ * Resumen de una fusión de carritos, para informar al usuario
+ */
+export interface CartMergeSummary {
+  /** Líneas nuevas que no estaban en el carrito guardado */
+  added: number;
+  /** Líneas presentes en ambos carritos cuyas cantidades se sumaron */
+  combined: number;
+  /** Productos cuya cantidad se recortó al máximo permitido */
+  capped: number[];
+  /** Productos descartados por no estar ya disponibles */
+  dropped: number[];
+}
+
+/**
+ * Resultado de fusionar dos carritos
+ */
+export interface CartMergeResult {
+  items: CartLine[];
+  summary: CartMergeSummary;
+}
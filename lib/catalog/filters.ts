@@ -0,0 +1,183 @@
+/**
+ * Catalog Filters - Filtros del listado sincronizados con la URL
+ *
+ * Búsqueda, categorías, rango de precio, orden y página viven en los query
+ * params (`/products?q=boda&categories=bodas,tarjetas&maxPrice=30&page=2`),
+ * así que un listado filtrado se puede compartir, se renderiza en el
+ * servidor y el historial del navegador restaura los filtros.
+ *
+ * El mismo formato lo leen las páginas (Server Components) y lo escriben los
+ * controles del listado.
+ */
+
+import { catalogFiltersSchema } from "@lib/validation/catalog";
+import type { AylaProduct } from "@types";
+import { searchProducts, type ProductSearchResult, type ProductSearchSort } from "./search";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CatalogFilters {
+  /** Texto de búsqueda ("" sin búsqueda) */
+  query: string;
+  /** Slugs de categoría seleccionados */
+  categories: string[];
+  /** Precio mínimo en EUR */
+  minPrice?: number;
+  /** Precio máximo en EUR, inclusive */
+  maxPrice?: number;
+  sort: ProductSearchSort;
+  /** Página, empezando en 1 */
+  page: number;
+}
+
+/** Query params tal y como llegan a una página (`searchParams`) */
+export type CatalogSearchParams = Record<string, string | string[] | undefined>;
+
+/** Opciones del listado */
+export interface CatalogListingOptions {
+  /** Productos por página (por defecto CATALOG_PAGE_SIZE) */
+  pageSize?: number;
+  /** Idioma de los productos, para ordenar por nombre */
+  locale?: string;
+}
+
+/** Página del listado filtrado, con las facetas de todos los resultados */
+export interface CatalogPage extends ProductSearchResult {
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Productos por página del listado */
+export const CATALOG_PAGE_SIZE = 12;
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  query: "",
+  categories: [],
+  sort: "relevance",
+  page: 1,
+};
+
+// =============================================================================
+// URL
+// =============================================================================
+
+/**
+ * Lee los filtros de los query params; los valores inválidos se ignoran
+ *
+ * @example
+ * ```ts
+ * parseCatalogFilters({ categories: "bodas", sort: "price_asc" });
+ * // { query: "", categories: ["bodas"], sort: "price_asc", page: 1 }
+ * ```
+ */
+export function parseCatalogFilters(
+  params: CatalogSearchParams | URLSearchParams
+): CatalogFilters {
+  const entries =
+    params instanceof URLSearchParams
+      ? Object.fromEntries(params)
+      : Object.fromEntries(
+          Object.entries(params).map(([key, value]) => [
+            key,
+            Array.isArray(value) ? value[0] : value,
+          ])
+        );
+
+  const { q, ...filters } = catalogFiltersSchema.parse(entries);
+  return { query: q, ...filters };
+}
+
+/**
+ * Query params de los filtros, sin los valores por defecto
+ *
+ * @example
+ * ```ts
+ * serializeCatalogFilters({ categories: ["bodas"], page: 1 }).toString();
+ * // "categories=bodas"
+ * ```
+ */
+export function serializeCatalogFilters(filters: Partial<CatalogFilters>): URLSearchParams {
+  const params = new URLSearchParams();
+  const query = filters.query?.trim();
+
+  if (query) params.set("q", query);
+  if (filters.categories?.length) params.set("categories", filters.categories.join(","));
+  if (filters.minPrice !== undefined) params.set("minPrice", String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set("maxPrice", String(filters.maxPrice));
+  if (filters.sort && filters.sort !== DEFAULT_CATALOG_FILTERS.sort) {
+    params.set("sort", filters.sort);
+  }
+  if (filters.page && filters.page > 1) params.set("page", String(filters.page));
+
+  return params;
+}
+
+/**
+ * Ruta con los filtros en la query
+ *
+ * @example
+ * ```ts
+ * getCatalogHref("/products", { query: "boda" }) // "/products?q=boda"
+ * getCatalogHref("/products", {})                // "/products"
+ * ```
+ */
+export function getCatalogHref(pathname: string, filters: Partial<CatalogFilters>): string {
+  const query = serializeCatalogFilters(filters).toString();
+  return query ? `${pathname}?${query}` : pathname;
+}
+
+/**
+ * Indica si hay algún filtro aplicado (el orden y la página no cuentan)
+ */
+export function hasActiveFilters(filters: CatalogFilters): boolean {
+  return (
+    filters.query.trim() !== "" ||
+    filters.categories.length > 0 ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined
+  );
+}
+
+// =============================================================================
+// LISTING
+// =============================================================================
+
+/**
+ * Busca, filtra, ordena y pagina los productos según los filtros
+ *
+ * Una página fuera de rango devuelve la última (o la primera si no hay
+ * resultados), para que un enlace antiguo siga mostrando productos.
+ */
+export function applyCatalogFilters(
+  products: AylaProduct[],
+  filters: CatalogFilters,
+  { pageSize = CATALOG_PAGE_SIZE, locale }: CatalogListingOptions = {}
+): CatalogPage {
+  const result = searchProducts(products, {
+    query: filters.query,
+    categories: filters.categories,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+    sort: filters.sort,
+    locale,
+  });
+
+  const totalPages = Math.max(1, Math.ceil(result.total / pageSize));
+  const page = Math.min(filters.page, totalPages);
+  const start = (page - 1) * pageSize;
+
+  return {
+    ...result,
+    items: result.items.slice(start, start + pageSize),
+    page,
+    pageSize,
+    totalPages,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Catalog Images - Galería de imágenes de los productos
+ *
+ * Cada producto lleva una lista ordenada de imágenes: la portada primero y
+ * después, si las hay, las páginas de vista previa. Los productos sin
+ * imágenes se muestran con la ilustración de su `imageType`.
+ */
+
+import type { AylaProduct, AylaProductImage } from "@types";
+
+/**
+ * Imágenes del producto en orden de galería (vacío si no tiene)
+ */
+export function getProductImages(product: AylaProduct): AylaProductImage[] {
+  return product.images ?? [];
+}
+
+/**
+ * Portada del producto, o undefined si no tiene imágenes
+ */
+export function getProductCover(product: AylaProduct): AylaProductImage | undefined {
+  return getProductImages(product)[0];
+}
+
+/**
+ * Placeholder difuminado con un degradado, para `next/image` mientras carga
+ *
+ * @example
+ * ```ts
+ * createGradientPlaceholder("#E8D5B0", "#C9B8D4")
+ * // "data:image/svg+xml,%3Csvg..."
+ * ```
+ */
+export function createGradientPlaceholder(from: string, to: string): string {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="8" height="10">` +
+    `<linearGradient id="g" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/>` +
+    `</linearGradient><rect width="8" height="10" fill="url(#g)"/></svg>`;
+
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * Catalog - Dominio del catálogo compartido entre cliente y servidor
+ */
+
+export {
+  findVariant,
+  getProductVariants,
+  getStartingPrice,
+  hasPriceRange,
+  isVariantAvailable,
+  toCartItem,
+} from "./variants";
+export {
+  slugify,
+  getCategorySlug,
+  findProductBySlug,
+  getCatalogCategories,
+  getProductsByCategory,
+  type CatalogCategory,
+} from "./slugs";
+export {
+  localizeProduct,
+  localizeCartItem,
+  getMissingProductTranslations,
+  type ProductTranslation,
+  type ProductTranslations,
+  type VariantTranslation,
+  type MissingProductTranslation,
+} from "./localize";
+export { getProductImages, getProductCover, createGradientPlaceholder } from "./images";
+export {
+  searchProducts,
+  normalizeSearchText,
+  stemSpanish,
+  tokenize,
+  editDistance,
+  PRICE_RANGES,
+  PRODUCT_SEARCH_SORTS,
+  type ProductSearchSort,
+  type ProductSearchFilters,
+  type ProductSearchOptions,
+  type ProductSearchFacets,
+  type ProductSearchResult,
+  type CategoryFacet,
+  type PriceRangeFacet,
+} from "./search";
+export {
+  parseCatalogFilters,
+  serializeCatalogFilters,
+  getCatalogHref,
+  hasActiveFilters,
+  applyCatalogFilters,
+  CATALOG_PAGE_SIZE,
+  DEFAULT_CATALOG_FILTERS,
+  type CatalogFilters,
+  type CatalogSearchParams,
+  type CatalogPage,
+  type CatalogListingOptions,
+} from "./filters";
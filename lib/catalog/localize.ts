@@ -0,0 +1,156 @@
+/**
+ * Catalog Localization - Contenido de los productos en el idioma del visitante
+ *
+ * El catálogo (estático o del backend) está escrito en el locale por defecto.
+ * Las traducciones viven en `messages/<locale>/products.json`, indexadas por
+ * slug de producto e id de variante; cada campo sin traducir recae en el
+ * contenido original, así que un locale nuevo solo necesita su archivo.
+ *
+ * @example
+ * ```json
+ * {
+ *   "celestial-planner-2025": {
+ *     "name": "Celestial Planner 2025",
+ *     "description": "Complete digital planner...",
+ *     "features": ["12 full months", "..."],
+ *     "variants": { "101": { "name": "Basic", "features": ["..."] } }
+ *   }
+ * }
+ * ```
+ */
+
+import type { AylaCartItem, AylaProduct, AylaVariant } from "@types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Campos traducibles de una variante */
+export interface VariantTranslation {
+  name?: string;
+  features?: string[];
+}
+
+/** Campos traducibles de un producto */
+export interface ProductTranslation {
+  name?: string;
+  description?: string;
+  features?: string[];
+  /** Traducciones de las variantes, por id */
+  variants?: Record<string, VariantTranslation>;
+}
+
+/** Traducciones de un locale, por slug de producto */
+export type ProductTranslations = Record<string, ProductTranslation>;
+
+/** Producto con campos sin traducir en un locale */
+export interface MissingProductTranslation {
+  locale: string;
+  slug: string;
+  /** Campos ausentes (ej: "description", "variants.102.features") */
+  fields: string[];
+}
+
+// =============================================================================
+// LOCALIZATION
+// =============================================================================
+
+function localizeVariant(
+  variant: AylaVariant,
+  translation: ProductTranslation
+): AylaVariant {
+  const variantTranslation = translation.variants?.[variant.id];
+  if (!variantTranslation) return variant;
+
+  return {
+    ...variant,
+    name: variantTranslation.name ?? variant.name,
+    features: variantTranslation.features ?? variant.features,
+  };
+}
+
+/**
+ * Aplica las traducciones de un locale a un producto
+ *
+ * Devuelve el mismo objeto si no hay traducción para su slug.
+ */
+export function localizeProduct<T extends AylaProduct>(
+  product: T,
+  translations: ProductTranslations | undefined
+): T {
+  // Las líneas de carritos antiguos pueden no tener slug
+  const translation = product.slug ? translations?.[product.slug] : undefined;
+  if (!translation) return product;
+
+  return {
+    ...product,
+    name: translation.name ?? product.name,
+    description: translation.description ?? product.description,
+    features: translation.features ?? product.features,
+    ...(product.variants && {
+      variants: product.variants.map((variant) => localizeVariant(variant, translation)),
+    }),
+  };
+}
+
+/**
+ * Aplica las traducciones a una línea del carrito
+ *
+ * Las características de la línea son las de su variante, así que se toman
+ * de la variante traducida.
+ */
+export function localizeCartItem(
+  item: AylaCartItem,
+  translations: ProductTranslations | undefined
+): AylaCartItem {
+  const localized = localizeProduct(item, translations);
+  if (localized === item || item.variantId == null) return localized;
+
+  const variant = localized.variants?.find(({ id }) => id === item.variantId);
+  if (!variant) return localized;
+
+  return { ...localized, variantName: variant.name, features: variant.features };
+}
+
+// =============================================================================
+// REPORT
+// =============================================================================
+
+/**
+ * Campos sin traducir de cada producto, por locale
+ *
+ * @param translationsByLocale - Traducciones de los locales a revisar
+ *   (sin el locale por defecto, que es el del propio catálogo)
+ */
+export function getMissingProductTranslations(
+  catalog: AylaProduct[],
+  translationsByLocale: Record<string, ProductTranslations | undefined>
+): MissingProductTranslation[] {
+  const missing: MissingProductTranslation[] = [];
+
+  for (const [locale, translations] of Object.entries(translationsByLocale)) {
+    for (const product of catalog) {
+      const translation = translations?.[product.slug] ?? {};
+      const fields: string[] = [];
+
+      if (translation.name === undefined) fields.push("name");
+      if (translation.description === undefined) fields.push("description");
+      if (translation.features === undefined) fields.push("features");
+      for (const variant of product.variants ?? []) {
+        const variantTranslation = translation.variants?.[variant.id] ?? {};
+        if (variantTranslation.name === undefined) {
+          fields.push(`variants.${variant.id}.name`);
+        }
+        if (variantTranslation.features === undefined) {
+          fields.push(`variants.${variant.id}.features`);
+        }
+      }
+
+      if (fields.length > 0) {
+        missing.push({ locale, slug: product.slug, fields });
+      }
+    }
+  }
+
+  return missing;
+}
@@ -0,0 +1,330 @@
+/**
+ * Catalog Search - Búsqueda de productos con facetas
+ *
+ * Búsqueda de texto sobre nombre, características y descripción:
+ * - Sin distinguir tildes ni mayúsculas ("diseno" encuentra "diseño")
+ * - Singulares y plurales en español ("invitacion" ↔ "invitaciones")
+ * - Prefijos, para buscar mientras se escribe ("plan" → "planner")
+ * - Tolerancia a erratas según la longitud del término ("pllaner" → "planner")
+ *
+ * Las facetas de categoría y rango de precio cuentan los productos que
+ * coinciden con el texto y el resto de filtros, de modo que cada opción
+ * muestra cuántos resultados quedarían al elegirla.
+ */
+
+import type { AylaProduct } from "@types";
+import { routing } from "@/i18n/routing";
+import { getCatalogCategories, getCategorySlug } from "./slugs";
+import { getStartingPrice } from "./variants";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Orden de los resultados */
+export type ProductSearchSort = "relevance" | "price_asc" | "price_desc" | "name";
+
+export const PRODUCT_SEARCH_SORTS: readonly ProductSearchSort[] = [
+  "relevance",
+  "price_asc",
+  "price_desc",
+  "name",
+];
+
+/** Filtros combinables con el texto de búsqueda */
+export interface ProductSearchFilters {
+  /** Slugs de categoría; un producto coincide si está en cualquiera de ellas */
+  categories?: string[];
+  /** Precio mínimo en EUR (precio de la variante más barata) */
+  minPrice?: number;
+  /** Precio máximo en EUR, inclusive */
+  maxPrice?: number;
+}
+
+export interface ProductSearchOptions extends ProductSearchFilters {
+  query?: string;
+  sort?: ProductSearchSort;
+  /** Idioma del contenido, para ordenar por nombre (por defecto el del sitio) */
+  locale?: string;
+}
+
+/** Opción de la faceta de categorías */
+export interface CategoryFacet {
+  slug: string;
+  name: string;
+  count: number;
+}
+
+/**
+ * Opción de la faceta de precios: desde `min` (incluido) hasta `max` (sin
+ * incluir), para que cada producto cuente en un solo rango; `max` es null
+ * en el último rango
+ */
+export interface PriceRangeFacet {
+  key: string;
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface ProductSearchFacets {
+  categories: CategoryFacet[];
+  priceRanges: PriceRangeFacet[];
+}
+
+export interface ProductSearchResult {
+  query: string;
+  sort: ProductSearchSort;
+  items: AylaProduct[];
+  total: number;
+  facets: ProductSearchFacets;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Rangos de la faceta de precio, en EUR */
+export const PRICE_RANGES: ReadonlyArray<Omit<PriceRangeFacet, "count">> = [
+  { key: "under_15", min: 0, max: 15 },
+  { key: "15_30", min: 15, max: 30 },
+  { key: "30_50", min: 30, max: 50 },
+  { key: "over_50", min: 50, max: null },
+];
+
+/** Peso de cada campo en la relevancia */
+const FIELD_WEIGHTS = {
+  name: 3,
+  features: 2,
+  description: 1,
+} as const;
+
+/** Calidad de cada tipo de coincidencia de un término */
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.75,
+  fuzzy: 0.5,
+} as const;
+
+/** Longitud mínima de un término para aceptarlo como prefijo */
+const MIN_PREFIX_LENGTH = 3;
+
+// =============================================================================
+// TEXT
+// =============================================================================
+
+/** Texto en minúsculas y sin tildes, para comparar búsquedas */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Reduce una palabra a su singular en español
+ *
+ * @example
+ * ```ts
+ * stemSpanish("invitaciones") // "invitacion"
+ * stemSpanish("lapices")      // "lapiz"
+ * stemSpanish("tarjetas")     // "tarjeta"
+ * ```
+ */
+export function stemSpanish(word: string): string {
+  if (word.length > 4 && word.endsWith("ces")) return `${word.slice(0, -3)}z`;
+  if (word.length > 4 && /[^aeiou]es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/** Términos normalizados y en singular de un texto */
+export function tokenize(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stemSpanish);
+}
+
+/** Erratas admitidas según la longitud del término */
+function maxTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Distancia de edición entre dos palabras, o `max + 1` si la supera
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Calidad de la mejor coincidencia del término entre las palabras de un campo */
+function matchTerm(term: string, words: string[]): number {
+  let best = 0;
+  const typos = maxTypos(term);
+
+  for (const word of words) {
+    if (word === term) return MATCH_QUALITY.exact;
+    if (term.length >= MIN_PREFIX_LENGTH && word.startsWith(term)) {
+      best = Math.max(best, MATCH_QUALITY.prefix);
+    } else if (typos > 0 && best < MATCH_QUALITY.fuzzy) {
+      if (editDistance(term, word, typos) <= typos) best = MATCH_QUALITY.fuzzy;
+    }
+  }
+  return best;
+}
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+interface IndexedProduct {
+  product: AylaProduct;
+  categorySlug: string;
+  price: number;
+  fields: Record<keyof typeof FIELD_WEIGHTS, string[]>;
+}
+
+function indexProduct(product: AylaProduct): IndexedProduct {
+  return {
+    product,
+    categorySlug: getCategorySlug(product.category),
+    price: getStartingPrice(product),
+    fields: {
+      name: tokenize(product.name),
+      features: tokenize(product.features.join(" ")),
+      description: tokenize(product.description),
+    },
+  };
+}
+
+/**
+ * Relevancia del producto para los términos, o 0 si alguno no coincide
+ */
+function scoreProduct(entry: IndexedProduct, terms: string[]): number {
+  let score = 0;
+
+  for (const term of terms) {
+    let termScore = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+      termScore = Math.max(termScore, FIELD_WEIGHTS[field] * matchTerm(term, entry.fields[field]));
+    }
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+}
+
+function matchesCategories(entry: IndexedProduct, categories?: string[]): boolean {
+  return !categories?.length || categories.includes(entry.categorySlug);
+}
+
+function matchesPrice(entry: IndexedProduct, minPrice?: number, maxPrice?: number): boolean {
+  return (
+    (minPrice === undefined || entry.price >= minPrice) &&
+    (maxPrice === undefined || entry.price <= maxPrice)
+  );
+}
+
+/** El límite superior no se incluye: un precio de 30 € cuenta en "30–50" */
+function isInRange(price: number, range: Omit<PriceRangeFacet, "count">): boolean {
+  return price >= range.min && (range.max === null || price < range.max);
+}
+
+/**
+ * Busca productos por texto, filtra por categoría y precio, y calcula las
+ * facetas de los resultados
+ *
+ * Sin texto se devuelven todos los productos filtrados; en ese caso el orden
+ * por relevancia conserva el orden del catálogo.
+ *
+ * @example
+ * ```ts
+ * searchProducts(products, {
+ *   query: "invitacion boda",
+ *   categories: ["bodas"],
+ *   maxPrice: 50,
+ *   sort: "price_asc",
+ * });
+ * ```
+ */
+export function searchProducts(
+  products: AylaProduct[],
+  {
+    query = "",
+    sort = "relevance",
+    categories,
+    minPrice,
+    maxPrice,
+    locale = routing.defaultLocale,
+  }: ProductSearchOptions = {}
+): ProductSearchResult {
+  const terms = tokenize(query);
+
+  const matches = products
+    .map((product, position) => {
+      const entry = indexProduct(product);
+      return { entry, position, score: terms.length ? scoreProduct(entry, terms) : 1 };
+    })
+    .filter(({ score }) => score > 0);
+
+  const items = matches.filter(
+    ({ entry }) =>
+      matchesCategories(entry, categories) && matchesPrice(entry, minPrice, maxPrice)
+  );
+
+  // Cada faceta ignora su propio filtro para poder cambiar de opción
+  const categoryCounts = new Map<string, number>();
+  for (const { entry } of matches) {
+    if (!matchesPrice(entry, minPrice, maxPrice)) continue;
+    categoryCounts.set(entry.categorySlug, (categoryCounts.get(entry.categorySlug) ?? 0) + 1);
+  }
+  const priced = matches.filter(({ entry }) => matchesCategories(entry, categories));
+
+  const sorted = [...items].sort((a, b) => {
+    switch (sort) {
+      case "price_asc":
+        return a.entry.price - b.entry.price || a.position - b.position;
+      case "price_desc":
+        return b.entry.price - a.entry.price || a.position - b.position;
+      case "name":
+        return a.entry.product.name.localeCompare(b.entry.product.name, locale);
+      default:
+        return b.score - a.score || a.position - b.position;
+    }
+  });
+
+  return {
+    query: query.trim(),
+    sort,
+    items: sorted.map(({ entry }) => entry.product),
+    total: sorted.length,
+    facets: {
+      categories: getCatalogCategories(products).map(({ slug, name }) => ({
+        slug,
+        name,
+        count: categoryCounts.get(slug) ?? 0,
+      })),
+      priceRanges: PRICE_RANGES.map((range) => ({
+        ...range,
+        count: priced.filter(({ entry }) => isInRange(entry.price, range)).length,
+      })),
+    },
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Catalog (Server-side)
+ */
+
+export {
+  getCatalogRepository,
+  setCatalogRepository,
+  StaticCatalogRepository,
+  HttpCatalogRepository,
+  type CatalogRepository,
+} from "./repository";
+export { listLocalizedProducts } from "./localized";
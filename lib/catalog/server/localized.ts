@@ -0,0 +1,60 @@
+/**
+ * Localized Catalog (Server-side)
+ *
+ * Productos del repositorio con el contenido en el idioma del visitante,
+ * para buscar y filtrar sobre el texto que se muestra.
+ *
+ * En desarrollo avisa en el log de los productos sin traducir (una vez por
+ * producto y locale), también con el catálogo del backend.
+ */
+
+import { loadNamespace } from "@/i18n/messages";
+import { routing } from "@/i18n/routing";
+import { logger } from "@lib/logger";
+import type { AylaProduct } from "@types";
+import {
+  getMissingProductTranslations,
+  localizeProduct,
+  type ProductTranslations,
+} from "../localize";
+import { getCatalogRepository, type CatalogRepository } from "./repository";
+
+/** Productos ya avisados ("locale:slug") */
+const reportedMissing = new Set<string>();
+
+/**
+ * Avisa de los campos sin traducir de los productos que aún no se han avisado
+ */
+function warnMissingTranslations(
+  products: AylaProduct[],
+  locale: string,
+  translations: ProductTranslations
+): void {
+  for (const { slug, fields } of getMissingProductTranslations(products, {
+    [locale]: translations,
+  })) {
+    const key = `${locale}:${slug}`;
+    if (reportedMissing.has(key)) continue;
+
+    reportedMissing.add(key);
+    logger.warn("Missing product translation", { locale, slug, fields });
+  }
+}
+
+/**
+ * Todos los productos traducidos al locale (el catálogo está escrito en el
+ * locale por defecto, que se devuelve sin cambios)
+ */
+export async function listLocalizedProducts(
+  locale: string,
+  repository: CatalogRepository = getCatalogRepository()
+): Promise<AylaProduct[]> {
+  const products = await repository.list();
+  if (locale === routing.defaultLocale) return products;
+
+  const translations = (await loadNamespace(locale, "products")) as ProductTranslations;
+  if (process.env.NODE_ENV === "development") {
+    warnMissingTranslations(products, locale, translations);
+  }
+  return products.map((product) => localizeProduct(product, translations));
+}
@@ -0,0 +1,165 @@
+/**
+ * Catalog Repository (Server-side)
+ *
+ * Origen de los productos, packs y reseñas de la tienda, con implementaciones
+ * intercambiables:
+ * - StaticCatalogRepository: datos estáticos de `@/data/ayla` (o fixtures en tests)
+ * - HttpCatalogRepository: backend a través de `apiClient`
+ *
+ * La implementación se elige con `CATALOG_REPOSITORY` ("static" | "http").
+ */
+
+import { ApiError } from "@/errors";
+import { apiClient, type ApiClient } from "@lib/api/client";
+import {
+  bundles as staticBundles,
+  products as staticProducts,
+  reviews as staticReviews,
+} from "@/data/ayla";
+import type { AylaBundle, AylaProduct, AylaReview } from "@types";
+import { normalizeSearchText } from "../search";
+import { findProductBySlug, getProductsByCategory } from "../slugs";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface CatalogRepository {
+  /** Todos los productos, en el orden del catálogo */
+  list(): Promise<AylaProduct[]>;
+  /** Devuelve el producto por su slug, o null si no existe */
+  getBySlug(slug: string): Promise<AylaProduct | null>;
+  /** Productos de una categoría (vacío si el slug no corresponde a ninguna) */
+  listByCategory(categorySlug: string): Promise<AylaProduct[]>;
+  /** Productos cuyo nombre, descripción o categoría contienen todos los términos */
+  search(query: string): Promise<AylaProduct[]>;
+  /** Reseñas destacadas de clientes */
+  listReviews(): Promise<AylaReview[]>;
+  /** Packs con descuento, con los que el checkout valora el carrito */
+  listBundles(): Promise<AylaBundle[]>;
+}
+
+// =============================================================================
+// STATIC
+// =============================================================================
+
+class StaticCatalogRepository implements CatalogRepository {
+  constructor(
+    private readonly products: AylaProduct[] = staticProducts,
+    private readonly reviews: AylaReview[] = staticReviews,
+    private readonly bundles: AylaBundle[] = staticBundles
+  ) {}
+
+  async list(): Promise<AylaProduct[]> {
+    return [...this.products];
+  }
+
+  async getBySlug(slug: string): Promise<AylaProduct | null> {
+    return findProductBySlug(this.products, slug) ?? null;
+  }
+
+  async listByCategory(categorySlug: string): Promise<AylaProduct[]> {
+    return getProductsByCategory(this.products, categorySlug);
+  }
+
+  async search(query: string): Promise<AylaProduct[]> {
+    const terms = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [...this.products];
+
+    return this.products.filter((product) => {
+      const text = normalizeSearchText(
+        `${product.name} ${product.description} ${product.category}`
+      );
+      return terms.every((term) => text.includes(term));
+    });
+  }
+
+  async listReviews(): Promise<AylaReview[]> {
+    return [...this.reviews];
+  }
+
+  async listBundles(): Promise<AylaBundle[]> {
+    return [...this.bundles];
+  }
+}
+
+// =============================================================================
+// HTTP
+// =============================================================================
+
+class HttpCatalogRepository implements CatalogRepository {
+  private readonly basePath = "/api/v1/products";
+
+  constructor(private readonly client: Pick<ApiClient, "get"> = apiClient) {}
+
+  async list(): Promise<AylaProduct[]> {
+    const { data } = await this.client.get<AylaProduct[]>(this.basePath);
+    return data;
+  }
+
+  async getBySlug(slug: string): Promise<AylaProduct | null> {
+    try {
+      const { data } = await this.client.get<AylaProduct>(
+        `${this.basePath}/${encodeURIComponent(slug)}`
+      );
+      return data;
+    } catch (error) {
+      if (error instanceof ApiError && error.apiCode === "PRODUCT_NOT_FOUND") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listByCategory(categorySlug: string): Promise<AylaProduct[]> {
+    const { data } = await this.client.get<AylaProduct[]>(this.basePath, {
+      params: { category: categorySlug },
+    });
+    return data;
+  }
+
+  async search(query: string): Promise<AylaProduct[]> {
+    const { data } = await this.client.get<AylaProduct[]>(this.basePath, {
+      params: { q: query.trim() },
+    });
+    return data;
+  }
+
+  async listReviews(): Promise<AylaReview[]> {
+    const { data } = await this.client.get<AylaReview[]>("/api/v1/reviews");
+    return data;
+  }
+
+  async listBundles(): Promise<AylaBundle[]> {
+    const { data } = await this.client.get<AylaBundle[]>("/api/v1/bundles");
+    return data;
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let repository: CatalogRepository | null = null;
+
+/**
+ * Obtiene el repositorio configurado (singleton)
+ */
+export function getCatalogRepository(): CatalogRepository {
+  if (!repository) {
+    repository =
+      process.env.CATALOG_REPOSITORY === "http"
+        ? new HttpCatalogRepository()
+        : new StaticCatalogRepository();
+  }
+  return repository;
+}
+
+/**
+ * Sustituye el repositorio activo (tests o backends alternativos)
+ */
+export function setCatalogRepository(next: CatalogRepository | null): void {
+  repository = next;
+}
+
+export { StaticCatalogRepository, HttpCatalogRepository };
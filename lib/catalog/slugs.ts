@@ -0,0 +1,81 @@
+/**
+ * Catalog Slugs - Rutas de productos y categorías
+ *
+ * Los productos se identifican en la URL por su `slug`; las categorías,
+ * por el slug de su nombre (Social Media → social-media).
+ */
+
+import type { AylaProduct } from "@types";
+
+/**
+ * Categoría del catálogo con su número de productos
+ */
+export interface CatalogCategory {
+  slug: string;
+  /** Nombre tal y como aparece en los productos */
+  name: string;
+  productCount: number;
+}
+
+/**
+ * Convierte un texto en un identificador de URL
+ *
+ * @example
+ * ```ts
+ * slugify("Diseños para Bodas") // "disenos-para-bodas"
+ * ```
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Slug de la categoría de un producto
+ */
+export function getCategorySlug(category: string): string {
+  return slugify(category);
+}
+
+/**
+ * Busca un producto por su slug
+ */
+export function findProductBySlug(
+  catalog: AylaProduct[],
+  slug: string
+): AylaProduct | undefined {
+  return catalog.find((product) => product.slug === slug);
+}
+
+/**
+ * Categorías del catálogo, en el orden en que aparecen sus productos
+ */
+export function getCatalogCategories(catalog: AylaProduct[]): CatalogCategory[] {
+  const categories = new Map<string, CatalogCategory>();
+
+  for (const product of catalog) {
+    const slug = getCategorySlug(product.category);
+    const category = categories.get(slug);
+    if (category) {
+      category.productCount += 1;
+    } else {
+      categories.set(slug, { slug, name: product.category, productCount: 1 });
+    }
+  }
+
+  return [...categories.values()];
+}
+
+/**
+ * Productos de una categoría (vacío si el slug no corresponde a ninguna)
+ */
+export function getProductsByCategory(
+  catalog: AylaProduct[],
+  categorySlug: string
+): AylaProduct[] {
+  return catalog.filter((product) => getCategorySlug(product.category) === categorySlug);
+}
@@ -0,0 +1,75 @@
+/**
+ * Catalog Variants - Reglas de las variantes de producto (Basic, Premium...)
+ *
+ * Los productos sin `variants` se venden como una única versión con el
+ * precio y las características del propio producto.
+ */
+
+import type { AylaCartItem, AylaProduct, AylaVariant } from "@types";
+
+/**
+ * Variantes a la venta, de la más barata a la más cara
+ */
+export function getProductVariants(product: AylaProduct): AylaVariant[] {
+  return [...(product.variants ?? [])].sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Busca una variante del producto
+ *
+ * Sin `variantId` devuelve la variante por defecto (la más barata).
+ *
+ * @returns La variante, o undefined si no existe o el producto no tiene variantes
+ */
+export function findVariant(
+  product: AylaProduct,
+  variantId?: number | null
+): AylaVariant | undefined {
+  const variants = getProductVariants(product);
+  if (variantId === null || variantId === undefined) return variants[0];
+  return variants.find((variant) => variant.id === variantId);
+}
+
+/**
+ * Indica si la combinación producto + variante se puede comprar
+ */
+export function isVariantAvailable(
+  product: AylaProduct,
+  variantId?: number | null
+): boolean {
+  return variantId === null || variantId === undefined || !!findVariant(product, variantId);
+}
+
+/**
+ * Precio "desde": el de la variante más barata o el del producto
+ */
+export function getStartingPrice(product: AylaProduct): number {
+  return getProductVariants(product)[0]?.price ?? product.price;
+}
+
+/**
+ * Indica si las variantes tienen precios distintos (se muestra "desde")
+ */
+export function hasPriceRange(product: AylaProduct): boolean {
+  return new Set(getProductVariants(product).map((variant) => variant.price)).size > 1;
+}
+
+/**
+ * Crea una línea de carrito con el precio y características de la variante
+ */
+export function toCartItem(
+  product: AylaProduct,
+  variant: AylaVariant | undefined,
+  quantity: number
+): AylaCartItem {
+  if (!variant) return { ...product, quantity };
+
+  return {
+    ...product,
+    price: variant.price,
+    features: variant.features,
+    variantId: variant.id,
+    variantName: variant.name,
+    quantity,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Checkout Breakdown - Desglose del carrito mostrado al cliente
+ *
+ * Se calcula sobre importes enteros y con el mismo reparto del IVA que la
+ * valoración del servidor, para que subtotal, descuentos, IVA y total
+ * cuadren siempre con lo que se cobra.
+ */
+
+import type { AylaCartBreakdown, AylaCartItem } from "@types";
+import { fromMajorUnits, money, multiplyMoney, sumMoney } from "@lib/money";
+import { DEFAULT_TAX_CONTEXT, calculateTaxes, getTaxRule, type TaxContext } from "@lib/tax";
+
+/**
+ * Desglose del carrito a partir de sus líneas y los descuentos aplicados
+ *
+ * Los productos descatalogados no se pueden comprar y no cuentan.
+ *
+ * @param discounts - Descuentos de packs y promociones (en EUR)
+ * @param tax - País y número de IVA del comprador
+ */
+export function getCartBreakdown(
+  items: AylaCartItem[],
+  discounts: { discount: number }[],
+  tax: TaxContext = DEFAULT_TAX_CONTEXT
+): AylaCartBreakdown {
+  const amounts = items
+    .filter((item) => item.issue !== "discontinued")
+    .map((item) => multiplyMoney(fromMajorUnits(item.price), item.quantity));
+  const subtotal = sumMoney(amounts);
+  const discount = sumMoney(discounts.map((applied) => fromMajorUnits(applied.discount)));
+
+  const taxRule = getTaxRule(tax);
+  const taxes = calculateTaxes(
+    amounts.map((amount) => amount.amount),
+    discount.amount,
+    taxRule
+  );
+
+  return {
+    subtotal,
+    discount,
+    excludingTax: {
+      subtotal: money(taxes.subtotalNet),
+      discount: money(taxes.subtotalNet - taxes.net),
+      total: money(taxes.net),
+    },
+    tax: money(taxes.tax),
+    total: money(taxes.total),
+    taxRate: taxes.rate,
+    taxTreatment: taxRule.treatment,
+  };
+}
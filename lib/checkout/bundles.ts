@@ -0,0 +1,153 @@
+/**
+ * Checkout Bundles - Detección de packs completos en el carrito
+ *
+ * Compartido entre el carrito del cliente (precio mostrado) y la valoración
+ * del servidor (precio cobrado), para que ambos apliquen el mismo descuento.
+ */
+
+import { getCartLineKey } from "@lib/cart";
+import type { AylaBundle, AylaBundleItem } from "@types";
+import { toMinorUnits } from "./money";
+
+/**
+ * Línea del carrito con su precio unitario
+ */
+export interface BundleLine {
+  productId: number;
+  variantId?: number | null;
+  quantity: number;
+  /** Precio unitario en céntimos */
+  unitAmount: number;
+}
+
+/**
+ * Pack completado por las líneas del carrito
+ */
+export interface BundleMatch {
+  bundle: AylaBundle;
+  /** Packs completos */
+  count: number;
+  /** Unidades consumidas por cada línea (clave de `getCartLineKey`) */
+  consumed: Record<string, number>;
+  /** Importe sin descuento de las unidades consumidas, en céntimos */
+  amount: number;
+  /** Descuento aplicado, en céntimos */
+  discount: number;
+}
+
+/**
+ * Pack con parte de sus productos en el carrito
+ */
+export interface BundleOffer {
+  bundle: AylaBundle;
+  /** Productos (y unidades) que faltan para completar un pack */
+  missing: AylaBundleItem[];
+}
+
+/** El producto (y la variante, si el pack la exige) encaja con la línea */
+function matchesItem(line: BundleLine, item: AylaBundleItem): boolean {
+  return (
+    line.productId === item.product_id &&
+    (item.variant_id === null || line.variantId === item.variant_id)
+  );
+}
+
+/**
+ * Descuento de `count` packs cuyos productos suman `amount` céntimos
+ *
+ * El descuento fijo es por pack y nunca supera el importe de los productos.
+ */
+function getBundleDiscount(
+  bundle: AylaBundle,
+  count: number,
+  amount: number
+): number {
+  if (bundle.discount_type === "percentage") {
+    const percentage = Math.min(Math.max(bundle.discount_value, 0), 100);
+    return Math.round((amount * percentage) / 100);
+  }
+  return Math.min(toMinorUnits(bundle.discount_value) * count, amount);
+}
+
+/**
+ * Detecta los packs completos y los que están a medio completar
+ *
+ * Los packs se evalúan en orden y cada unidad del carrito cuenta para un
+ * único pack. Un pack se ofrece si el carrito tiene alguno de sus productos
+ * (sin consumir por otro pack) pero no todos.
+ */
+export function detectBundles(
+  lines: BundleLine[],
+  bundles: AylaBundle[]
+): { matches: BundleMatch[]; offers: BundleOffer[] } {
+  const remaining = new Map<string, number>();
+  for (const line of lines) {
+    const key = getCartLineKey(line.productId, line.variantId);
+    remaining.set(key, (remaining.get(key) ?? 0) + line.quantity);
+  }
+
+  const available = (item: AylaBundleItem) =>
+    lines
+      .filter((line) => matchesItem(line, item))
+      .reduce(
+        (sum, line) =>
+          sum + (remaining.get(getCartLineKey(line.productId, line.variantId)) ?? 0),
+        0
+      );
+
+  const matches: BundleMatch[] = [];
+  const offers: BundleOffer[] = [];
+
+  for (const bundle of bundles) {
+    if (bundle.items.length === 0) continue;
+
+    const count = Math.min(
+      ...bundle.items.map((item) =>
+        Math.floor(available(item) / Math.max(item.quantity, 1))
+      )
+    );
+
+    if (count === 0) {
+      const missing = bundle.items
+        .map((item) => ({
+          ...item,
+          quantity: item.quantity - available(item),
+        }))
+        .filter((item) => item.quantity > 0);
+      if (missing.length < bundle.items.length) {
+        offers.push({ bundle, missing });
+      }
+      continue;
+    }
+
+    const consumed: Record<string, number> = {};
+    let amount = 0;
+
+    for (const item of bundle.items) {
+      let needed = item.quantity * count;
+      for (const line of lines) {
+        if (needed === 0) break;
+        if (!matchesItem(line, item)) continue;
+
+        const key = getCartLineKey(line.productId, line.variantId);
+        const taken = Math.min(needed, remaining.get(key) ?? 0);
+        if (taken === 0) continue;
+
+        remaining.set(key, (remaining.get(key) ?? 0) - taken);
+        consumed[key] = (consumed[key] ?? 0) + taken;
+        amount += taken * line.unitAmount;
+        needed -= taken;
+      }
+    }
+
+    matches.push({
+      bundle,
+      count,
+      consumed,
+      amount,
+      discount: getBundleDiscount(bundle, count, amount),
+    });
+  }
+
+  return { matches, offers };
+}
@@ -0,0 +1,26 @@
+/**
+ * Checkout - Valoración de pedidos y contrato con /api/checkout
+ */
+
+export * from "./types";
+export { STORE_CURRENCY, toMinorUnits } from "./money";
+export {
+  detectBundles,
+  type BundleLine,
+  type BundleMatch,
+  type BundleOffer,
+} from "./bundles";
+export {
+  evaluatePromotion,
+  evaluatePromotions,
+  normalizePromotionCode,
+  type PromotionContext,
+  type PromotionEvaluation,
+  type PromotionLine,
+} from "./promotions";
+export { getCartBreakdown } from "./breakdown";
+export {
+  priceCartLines,
+  createOrderReference,
+  type PricingOptions,
+} from "./pricing";
@@ -0,0 +1,14 @@
+/**
+ * Checkout Money - Moneda e importes en unidades mínimas
+ */
+
+import { fromMajorUnits } from "@lib/money";
+
+export { STORE_CURRENCY } from "@lib/money";
+
+/**
+ * Convierte un precio decimal del catálogo a céntimos
+ */
+export function toMinorUnits(price: number): number {
+  return fromMajorUnits(price).amount;
+}
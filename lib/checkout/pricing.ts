@@ -0,0 +1,149 @@
+/**
+ * Checkout Pricing - Valoración del carrito en el servidor
+ *
+ * Los precios se toman siempre del catálogo, nunca del cliente.
+ */
+
+import type { CartLine } from "@lib/cart";
+import { findVariant, isVariantAvailable } from "@lib/catalog";
+import { DEFAULT_TAX_CONTEXT, calculateTaxes, getTaxRule, type TaxContext } from "@lib/tax";
+import type { AylaBundle, AylaProduct, AylaPromotion } from "@types";
+import { detectBundles } from "./bundles";
+import { STORE_CURRENCY, toMinorUnits } from "./money";
+import { evaluatePromotions, type PromotionContext } from "./promotions";
+import type { CheckoutTotals, PricedLine, RejectedPromotion } from "./types";
+
+/**
+ * Descuentos a aplicar sobre las líneas valoradas
+ */
+export interface PricingOptions {
+  /** Packs que se detectan en el carrito */
+  bundles?: AylaBundle[];
+  /** Promociones solicitadas, en el orden en que se aplican */
+  promotions?: AylaPromotion[];
+  /** Momento y canjes con los que se evalúan las promociones */
+  promotionContext?: Omit<PromotionContext, "maxDiscount">;
+  /** País y número de IVA del comprador (por defecto, consumidor en España) */
+  tax?: TaxContext;
+}
+
+/**
+ * Valora las líneas del carrito contra el catálogo
+ *
+ * Cada línea se cobra al precio de su variante (la más barata si no
+ * indica ninguna). Los packs completos descuentan su importe del total y
+ * las promociones se aplican sobre lo que queda. El IVA se desglosa por
+ * línea según el país y el número de IVA del comprador.
+ *
+ * @returns Totales, los IDs de productos (o variantes) que ya no existen y
+ * las promociones que no se pueden aplicar
+ */
+export function priceCartLines(
+  lines: CartLine[],
+  catalog: AylaProduct[],
+  {
+    bundles = [],
+    promotions = [],
+    promotionContext,
+    tax = DEFAULT_TAX_CONTEXT,
+  }: PricingOptions = {}
+): {
+  totals: CheckoutTotals;
+  unavailable: number[];
+  rejectedPromotions: RejectedPromotion[];
+} {
+  const catalogById = new Map(catalog.map((product) => [product.id, product]));
+  const priced: PricedLine[] = [];
+  const unavailable: number[] = [];
+
+  for (const line of lines) {
+    const product = catalogById.get(line.productId);
+    if (!product || !isVariantAvailable(product, line.variantId)) {
+      unavailable.push(line.productId);
+      continue;
+    }
+
+    const variant = findVariant(product, line.variantId);
+    const unitAmount = toMinorUnits(variant?.price ?? product.price);
+    priced.push({
+      productId: product.id,
+      name: product.name,
+      ...(variant
+        ? {
+            variantId: variant.id,
+            variantName: variant.name,
+            downloadLimit: variant.downloadLimit,
+          }
+        : {}),
+      quantity: line.quantity,
+      unitAmount,
+      lineAmount: unitAmount * line.quantity,
+    });
+  }
+
+  const subtotal = priced.reduce((sum, line) => sum + line.lineAmount, 0);
+  const { matches } = detectBundles(priced, bundles);
+  const bundleDiscount = matches.reduce((sum, match) => sum + match.discount, 0);
+
+  const evaluations = evaluatePromotions(
+    promotions,
+    priced.map((line) => ({
+      productId: line.productId,
+      category: catalogById.get(line.productId)?.category ?? "",
+      quantity: line.quantity,
+      unitAmount: line.unitAmount,
+    })),
+    { ...promotionContext, maxDiscount: subtotal - bundleDiscount }
+  );
+  const applied = evaluations.flatMap((evaluation) =>
+    evaluation.valid
+      ? [{ code: evaluation.promotion.code, discount: evaluation.discount }]
+      : []
+  );
+  const rejectedPromotions = evaluations.flatMap((evaluation) =>
+    evaluation.valid
+      ? []
+      : [{ code: evaluation.promotion.code, reason: evaluation.reason }]
+  );
+
+  const discount =
+    bundleDiscount + applied.reduce((sum, promotion) => sum + promotion.discount, 0);
+  const taxRule = getTaxRule(tax);
+  const taxes = calculateTaxes(
+    priced.map((line) => line.lineAmount),
+    discount,
+    taxRule
+  );
+
+  return {
+    totals: {
+      lines: priced.map((line, index) => ({ ...line, tax: taxes.lines[index] })),
+      subtotal,
+      bundles: matches.map((match) => ({
+        bundleId: match.bundle.id,
+        name: match.bundle.name,
+        count: match.count,
+        discount: match.discount,
+      })),
+      promotions: applied,
+      discount,
+      net: taxes.net,
+      tax: taxes.tax,
+      total: taxes.total,
+      currency: STORE_CURRENCY,
+      taxRate: taxes.rate,
+      taxTreatment: taxRule.treatment,
+    },
+    unavailable,
+    rejectedPromotions,
+  };
+}
+
+/**
+ * Genera una referencia de pedido legible (p.ej. AYL-LZ3K9Q-7F2A)
+ */
+export function createOrderReference(): string {
+  const time = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `AYL-${time}-${random}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * Checkout Promotions - Reglas de los códigos promocionales
+ *
+ * Compartido entre el carrito (descuento mostrado) y la valoración del
+ * servidor (descuento cobrado). Los límites de uso solo se comprueban
+ * cuando se conocen los canjes, es decir, en el servidor.
+ */
+
+import type { AylaPromotion, AylaPromotionRejection } from "@types";
+import { toMinorUnits } from "./money";
+
+/**
+ * Línea del carrito tal como la evalúa una promoción
+ */
+export interface PromotionLine {
+  productId: number;
+  category: string;
+  quantity: number;
+  /** Precio unitario en céntimos */
+  unitAmount: number;
+}
+
+/**
+ * Datos externos al carrito que condicionan las promociones
+ */
+export interface PromotionContext {
+  /** Momento de la evaluación (por defecto, ahora) */
+  now?: Date;
+  /** Canjes registrados por código (solo los conoce el servidor) */
+  redemptions?: Record<string, number>;
+  /** Descuento máximo acumulado en céntimos (p.ej. el subtotal tras packs) */
+  maxDiscount?: number;
+}
+
+/**
+ * Resultado de evaluar una promoción contra el carrito
+ */
+export type PromotionEvaluation =
+  | { valid: true; promotion: AylaPromotion; discount: number }
+  | { valid: false; promotion: AylaPromotion; reason: AylaPromotionRejection };
+
+/**
+ * Normaliza un código tecleado por el cliente (sin espacios, en mayúsculas)
+ */
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** La línea cumple las restricciones de producto y categoría */
+function isEligible(promotion: AylaPromotion, line: PromotionLine): boolean {
+  return (
+    (promotion.product_ids.length === 0 ||
+      promotion.product_ids.includes(line.productId)) &&
+    (promotion.categories.length === 0 ||
+      promotion.categories.includes(line.category))
+  );
+}
+
+/**
+ * Evalúa una promoción contra las líneas del carrito
+ *
+ * El mínimo de compra se compara con el subtotal completo; el descuento se
+ * calcula solo sobre las líneas elegibles.
+ */
+export function evaluatePromotion(
+  promotion: AylaPromotion,
+  lines: PromotionLine[],
+  context: PromotionContext = {}
+): PromotionEvaluation {
+  const reject = (reason: AylaPromotionRejection): PromotionEvaluation => ({
+    valid: false,
+    promotion,
+    reason,
+  });
+  const now = (context.now ?? new Date()).getTime();
+
+  if (promotion.starts_at && now < new Date(promotion.starts_at).getTime()) {
+    return reject("not_started");
+  }
+  if (promotion.ends_at && now > new Date(promotion.ends_at).getTime()) {
+    return reject("expired");
+  }
+
+  const redeemed = context.redemptions?.[promotion.code] ?? 0;
+  if (promotion.usage_limit !== null && redeemed >= promotion.usage_limit) {
+    return reject("usage_limit_reached");
+  }
+
+  const amountOf = (selected: PromotionLine[]) =>
+    selected.reduce((sum, line) => sum + line.unitAmount * line.quantity, 0);
+
+  if (
+    promotion.min_purchase !== null &&
+    amountOf(lines) < toMinorUnits(promotion.min_purchase)
+  ) {
+    return reject("min_purchase_not_met");
+  }
+
+  const eligibleAmount = amountOf(lines.filter((line) => isEligible(promotion, line)));
+  if (eligibleAmount === 0) {
+    return reject("no_eligible_products");
+  }
+
+  if (promotion.discount_type === "percentage") {
+    const percentage = Math.min(Math.max(promotion.discount_value, 0), 100);
+    return {
+      valid: true,
+      promotion,
+      discount: Math.round((eligibleAmount * percentage) / 100),
+    };
+  }
+  return {
+    valid: true,
+    promotion,
+    discount: Math.min(toMinorUnits(promotion.discount_value), eligibleAmount),
+  };
+}
+
+/**
+ * Evalúa varias promociones en orden
+ *
+ * Los descuentos se acumulan hasta `maxDiscount`: la promoción que alcanza
+ * el tope se queda con el importe restante.
+ */
+export function evaluatePromotions(
+  promotions: AylaPromotion[],
+  lines: PromotionLine[],
+  context: PromotionContext = {}
+): PromotionEvaluation[] {
+  let available = context.maxDiscount ?? Number.POSITIVE_INFINITY;
+
+  return promotions.map((promotion) => {
+    const evaluation = evaluatePromotion(promotion, lines, context);
+    if (!evaluation.valid) return evaluation;
+
+    const discount = Math.min(evaluation.discount, Math.max(available, 0));
+    available -= discount;
+    return { ...evaluation, discount };
+  });
+}
@@ -0,0 +1,12 @@
+/**
+ * Checkout (Server-side)
+ */
+
+export {
+  getPromotionRepository,
+  setPromotionRepository,
+  loadPromotions,
+  redeemOrderPromotions,
+  InMemoryPromotionRepository,
+  type PromotionRepository,
+} from "./promotions";
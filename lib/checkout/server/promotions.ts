@@ -0,0 +1,144 @@
+/**
+ * Promotion Repository (Server-side)
+ *
+ * Códigos promocionales y sus canjes. La implementación en memoria parte
+ * del catálogo estático de promociones; un backend real puede sustituirla
+ * con `setPromotionRepository`.
+ */
+
+import { promotions as staticPromotions } from "@/data/ayla";
+import type { StoredOrder } from "@lib/orders";
+import type { AylaPromotion } from "@types";
+import { normalizePromotionCode } from "../promotions";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface PromotionRepository {
+  /** Devuelve la promoción por su código (sin distinguir mayúsculas), o null */
+  findByCode(code: string): Promise<AylaPromotion | null>;
+  /** Canjes registrados de cada código */
+  countRedemptions(codes: string[]): Promise<Record<string, number>>;
+  /**
+   * Registra el canje de un código en un pedido
+   *
+   * Idempotente: el mismo pedido solo cuenta una vez por código.
+   */
+  redeem(code: string, reference: string): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY
+// =============================================================================
+
+class InMemoryPromotionRepository implements PromotionRepository {
+  private promotions: Map<string, AylaPromotion>;
+  private redemptions = new Map<string, Set<string>>();
+
+  constructor(promotions: AylaPromotion[] = staticPromotions) {
+    this.promotions = new Map(
+      promotions.map((promotion) => [normalizePromotionCode(promotion.code), promotion])
+    );
+  }
+
+  async findByCode(code: string): Promise<AylaPromotion | null> {
+    const promotion = this.promotions.get(normalizePromotionCode(code));
+    return promotion ? structuredClone(promotion) : null;
+  }
+
+  async countRedemptions(codes: string[]): Promise<Record<string, number>> {
+    return Object.fromEntries(
+      codes.map((code) => [code, this.redemptions.get(normalizePromotionCode(code))?.size ?? 0])
+    );
+  }
+
+  async redeem(code: string, reference: string): Promise<void> {
+    const key = normalizePromotionCode(code);
+    const references = this.redemptions.get(key) ?? new Set<string>();
+    references.add(reference);
+    this.redemptions.set(key, references);
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let repository: PromotionRepository | null = null;
+
+/**
+ * Obtiene el repositorio configurado (singleton)
+ */
+export function getPromotionRepository(): PromotionRepository {
+  if (!repository) {
+    repository = new InMemoryPromotionRepository();
+  }
+  return repository;
+}
+
+/**
+ * Sustituye el repositorio activo (tests o backends alternativos)
+ */
+export function setPromotionRepository(next: PromotionRepository | null): void {
+  repository = next;
+}
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+/**
+ * Carga las promociones solicitadas y sus canjes
+ *
+ * Los códigos repetidos se cuentan una vez.
+ *
+ * @returns Promociones encontradas (en orden), sus canjes y los códigos inexistentes
+ */
+export async function loadPromotions(
+  codes: string[],
+  promotionRepository: PromotionRepository = getPromotionRepository()
+): Promise<{
+  promotions: AylaPromotion[];
+  redemptions: Record<string, number>;
+  missing: string[];
+}> {
+  const unique = [...new Set(codes.map(normalizePromotionCode))];
+  const found = await Promise.all(
+    unique.map((code) => promotionRepository.findByCode(code))
+  );
+
+  const promotions = found.filter(
+    (promotion): promotion is AylaPromotion => promotion !== null
+  );
+  const missing = unique.filter((_, index) => found[index] === null);
+  const redemptions = await promotionRepository.countRedemptions(
+    promotions.map((promotion) => promotion.code)
+  );
+
+  return { promotions, redemptions, missing };
+}
+
+// =============================================================================
+// REDEMPTION
+// =============================================================================
+
+/**
+ * Registra los canjes de los códigos de un pedido pagado
+ *
+ * Se llama al confirmarse el pago y no al crear el pedido, para que un pago
+ * rechazado o abandonado no consuma el límite de usos del código.
+ * Idempotente: se puede llamar en cada evento de pago del pedido.
+ */
+export async function redeemOrderPromotions(
+  order: StoredOrder,
+  promotionRepository: PromotionRepository = getPromotionRepository()
+): Promise<void> {
+  if (order.status !== "paid") return;
+
+  for (const code of order.promotionCodes ?? []) {
+    await promotionRepository.redeem(code, order.reference);
+  }
+}
+
+export { InMemoryPromotionRepository };
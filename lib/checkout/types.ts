@@ -0,0 +1,118 @@
+/**
+ * Checkout Types - Contrato entre el formulario de checkout y /api/checkout
+ */
+
+import type { AylaPromotion, AylaPromotionRejection, AylaTaxTreatment } from "@types";
+import type { CartLine } from "@lib/cart";
+import type { CheckoutBillingData, CheckoutCustomerData } from "@lib/validation/checkout";
+import type { PaymentStatus } from "@lib/payments";
+import type { LineTax } from "@lib/tax";
+
+/**
+ * Línea valorada con el precio actual del catálogo
+ */
+export interface PricedLine {
+  productId: number;
+  name: string;
+  /** Variante comprada (ausente en productos sin variantes) */
+  variantId?: number;
+  variantName?: string;
+  /** Descargas incluidas con la variante (por defecto DOWNLOAD_LIMIT) */
+  downloadLimit?: number;
+  quantity: number;
+  /** Precio unitario en céntimos */
+  unitAmount: number;
+  /** unitAmount × quantity */
+  lineAmount: number;
+  /** Descuento e IVA de la línea (ausente en pedidos anteriores al desglose) */
+  tax?: LineTax;
+}
+
+/**
+ * Pack aplicado a un pedido
+ */
+export interface AppliedBundle {
+  bundleId: number;
+  name: string;
+  /** Packs completos */
+  count: number;
+  /** Descuento en céntimos */
+  discount: number;
+}
+
+/**
+ * Código promocional aplicado a un pedido
+ */
+export interface AppliedPromotion {
+  code: string;
+  /** Descuento en céntimos */
+  discount: number;
+}
+
+/**
+ * Código promocional que no se puede aplicar
+ */
+export interface RejectedPromotion {
+  code: string;
+  reason: AylaPromotionRejection;
+}
+
+/**
+ * Resumen de importes de un pedido
+ */
+export interface CheckoutTotals {
+  lines: PricedLine[];
+  /** Suma de líneas en céntimos */
+  subtotal: number;
+  /** Packs completados por las líneas */
+  bundles: AppliedBundle[];
+  /** Códigos promocionales aplicados tras los packs */
+  promotions: AppliedPromotion[];
+  /** Descuento total (packs y promociones) en céntimos */
+  discount: number;
+  /** Base imponible en céntimos */
+  net: number;
+  /** IVA incluido en el total, en céntimos */
+  tax: number;
+  /** Total a cobrar en céntimos */
+  total: number;
+  currency: string;
+  /** Tipo de IVA aplicado */
+  taxRate: number;
+  taxTreatment: AylaTaxTreatment;
+}
+
+/**
+ * Body de POST /api/checkout
+ */
+export interface CheckoutRequest {
+  customer: CheckoutCustomerData;
+  billing: CheckoutBillingData;
+  items: CartLine[];
+  /** Códigos promocionales aplicados en el carrito */
+  promotionCodes?: string[];
+}
+
+/**
+ * Respuesta de POST /api/checkout
+ */
+export interface CheckoutResponse {
+  /** Referencia del pedido */
+  reference: string;
+  /** Clave de la página de confirmación para ver las descargas sin sesión */
+  accessKey: string;
+  status: PaymentStatus;
+  total: number;
+  currency: string;
+  /** Presente si el proveedor requiere completar el pago en su web */
+  redirectUrl?: string;
+}
+
+/**
+ * Respuesta de POST /api/promotions
+ */
+export interface PromotionValidationResponse {
+  promotion: AylaPromotion;
+  /** Descuento sobre el carrito enviado, en céntimos */
+  discount: number;
+}
@@ -0,0 +1,9 @@
+/**
+ * Downloads - Entrega de productos digitales
+ *
+ * Firma de enlaces, almacenamiento de archivos y grants (solo servidor)
+ * viven en `@lib/downloads/server`.
+ */
+
+export * from "./types";
+export { compareVersions, latestVersion } from "./versions";
@@ -0,0 +1,294 @@
+/**
+ * Download Grants (Server-side)
+ *
+ * Ciclo de vida de los derechos de descarga:
+ * - syncDownloadGrants: emite un grant por línea al pagarse el pedido y los
+ *   revoca si se reembolsa (idempotente, se puede llamar en cada evento)
+ * - listDownloadItems: centro de descargas del usuario con enlaces frescos
+ * - listOrderDownloadItems: descargas de un pedido (confirmación de invitados)
+ * - regenerateDownloadLink: nuevo enlace apuntando a la última versión
+ * - consumeDownload: valida un enlace firmado, descuenta un uso y abre el archivo
+ *
+ * Los usos son del grant, no del enlace: regenerar no devuelve descargas.
+ */
+
+import { randomBytes } from "crypto";
+import { hasDownloadAccess, type StoredOrder } from "@lib/orders";
+import {
+  DOWNLOAD_LIMIT,
+  type DownloadGrant,
+  type DownloadItem,
+  type DownloadLink,
+} from "../types";
+import { getDownloadRepository, type DownloadRepository } from "./repository";
+import { getFileStorage, type FileStorage, type StoredFile } from "./storage";
+import {
+  createDownloadLink,
+  verifyDownloadLink,
+  type SignedDownloadParams,
+} from "./signing";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Motivos por los que no se puede entregar una descarga */
+export type DownloadFailureReason =
+  | "not_found"
+  | "invalid_signature"
+  | "expired"
+  | "revoked"
+  | "limit_reached"
+  | "file_missing";
+
+export type DownloadResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; reason: DownloadFailureReason };
+
+/** Dependencias inyectables (tests) */
+export interface DownloadDeps {
+  repository?: DownloadRepository;
+  storage?: FileStorage;
+  now?: Date;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function createToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** Propietario de los grants de un pedido (cuenta o, para invitados, email) */
+export function getOrderOwnerId(order: StoredOrder): string {
+  return order.customerId ?? order.customerEmail.toLowerCase();
+}
+
+async function resolveLatestVersion(
+  storage: FileStorage,
+  grant: DownloadGrant
+): Promise<string | null> {
+  const versions = await storage.listVersions(grant.productId, grant.variantId);
+  return versions.at(-1)?.version ?? null;
+}
+
+function unavailableReason(grant: DownloadGrant): DownloadFailureReason | null {
+  if (grant.revoked) return "revoked";
+  if (grant.downloadsRemaining <= 0) return "limit_reached";
+  return null;
+}
+
+// Serializa las operaciones sobre un mismo token dentro del proceso para
+// que dos descargas simultáneas no gasten el mismo uso
+const tokenLocks = new Map<string, Promise<unknown>>();
+
+async function withTokenLock<T>(token: string, task: () => Promise<T>): Promise<T> {
+  const previous = tokenLocks.get(token) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  tokenLocks.set(token, current);
+
+  try {
+    return await current;
+  } finally {
+    if (tokenLocks.get(token) === current) tokenLocks.delete(token);
+  }
+}
+
+// =============================================================================
+// GRANTS
+// =============================================================================
+
+/**
+ * Sincroniza los grants con el estado del pedido
+ *
+ * - Pedido con acceso (pagado) sin grants → se emite uno por línea
+ * - Pedido reembolsado → se revocan los existentes
+ */
+export async function syncDownloadGrants(
+  order: StoredOrder,
+  { repository = getDownloadRepository(), now = new Date() }: DownloadDeps = {}
+): Promise<DownloadGrant[]> {
+  const existing = await repository.listByOrder(order.reference);
+
+  if (order.status === "refunded") {
+    const revoked = existing.map((grant) => ({ ...grant, revoked: true }));
+    await Promise.all(revoked.map((grant) => repository.save(grant)));
+    return revoked;
+  }
+
+  if (!hasDownloadAccess(order.status) || existing.length > 0) {
+    return existing;
+  }
+
+  const grants = order.lines.map<DownloadGrant>((line) => ({
+    token: createToken(),
+    ownerId: getOrderOwnerId(order),
+    orderReference: order.reference,
+    productId: line.productId,
+    productName: line.variantName ? `${line.name} · ${line.variantName}` : line.name,
+    variantId: line.variantId ?? null,
+    version: null,
+    downloadLimit: line.downloadLimit ?? DOWNLOAD_LIMIT,
+    downloadsRemaining: line.downloadLimit ?? DOWNLOAD_LIMIT,
+    revoked: false,
+    downloads: [],
+    createdAt: now.toISOString(),
+  }));
+
+  await Promise.all(grants.map((grant) => repository.save(grant)));
+  return grants;
+}
+
+/** Entrada del centro de descargas con un enlace firmado nuevo */
+async function toDownloadItem(
+  grant: DownloadGrant,
+  origin: string,
+  { repository, storage, now }: Required<DownloadDeps>
+): Promise<DownloadItem> {
+  const latestVersion = await resolveLatestVersion(storage, grant);
+
+  let current = grant;
+  if (!current.version && latestVersion) {
+    current = await repository.save({ ...grant, version: latestVersion });
+  }
+
+  const link =
+    current.version && !unavailableReason(current)
+      ? createDownloadLink(current.token, current.version, origin, { now })
+      : null;
+
+  return {
+    token: current.token,
+    orderReference: current.orderReference,
+    productId: current.productId,
+    productName: current.productName,
+    variantId: current.variantId,
+    downloadLimit: current.downloadLimit,
+    downloadsRemaining: current.downloadsRemaining,
+    lastDownloadedAt: current.downloads.at(-1)?.downloadedAt ?? null,
+    latestVersion,
+    link,
+  };
+}
+
+/**
+ * Centro de descargas de un usuario
+ *
+ * Cada entrada lleva un enlace firmado nuevo para la versión vigente del
+ * grant (la última publicada si aún no tenía ninguna).
+ *
+ * @param origin - Origen público de la app para construir los enlaces
+ */
+export async function listDownloadItems(
+  ownerId: string,
+  origin: string,
+  {
+    repository = getDownloadRepository(),
+    storage = getFileStorage(),
+    now = new Date(),
+  }: DownloadDeps = {}
+): Promise<DownloadItem[]> {
+  const grants = await repository.listByOwner(ownerId);
+
+  return Promise.all(
+    grants
+      .filter((grant) => !grant.revoked)
+      .map((grant) => toDownloadItem(grant, origin, { repository, storage, now }))
+  );
+}
+
+/**
+ * Descargas de un pedido, con los mismos enlaces que el centro de descargas
+ *
+ * Lista vacía mientras el pago no se confirma (aún no hay grants).
+ */
+export async function listOrderDownloadItems(
+  orderReference: string,
+  origin: string,
+  {
+    repository = getDownloadRepository(),
+    storage = getFileStorage(),
+    now = new Date(),
+  }: DownloadDeps = {}
+): Promise<DownloadItem[]> {
+  const grants = await repository.listByOrder(orderReference);
+
+  return Promise.all(
+    grants
+      .filter((grant) => !grant.revoked)
+      .map((grant) => toDownloadItem(grant, origin, { repository, storage, now }))
+  );
+}
+
+/**
+ * Genera un enlace nuevo apuntando a la última versión publicada
+ */
+export async function regenerateDownloadLink(
+  token: string,
+  ownerId: string,
+  origin: string,
+  {
+    repository = getDownloadRepository(),
+    storage = getFileStorage(),
+    now = new Date(),
+  }: DownloadDeps = {}
+): Promise<DownloadResult<{ link: DownloadLink }>> {
+  const grant = await repository.get(token);
+  // Un token ajeno se trata igual que uno inexistente
+  if (!grant || grant.ownerId !== ownerId) return { ok: false, reason: "not_found" };
+
+  const reason = unavailableReason(grant);
+  if (reason) return { ok: false, reason };
+
+  const latestVersion = await resolveLatestVersion(storage, grant);
+  if (!latestVersion) return { ok: false, reason: "file_missing" };
+
+  if (grant.version !== latestVersion) {
+    await repository.save({ ...grant, version: latestVersion });
+  }
+
+  return { ok: true, link: createDownloadLink(token, latestVersion, origin, { now }) };
+}
+
+/**
+ * Valida un enlace firmado y entrega el archivo descontando un uso
+ *
+ * El uso solo se descuenta si el archivo existe y se puede abrir.
+ */
+export async function consumeDownload(
+  token: string,
+  params: SignedDownloadParams,
+  {
+    repository = getDownloadRepository(),
+    storage = getFileStorage(),
+    now = new Date(),
+    userAgent,
+  }: DownloadDeps & { userAgent?: string } = {}
+): Promise<DownloadResult<{ file: StoredFile; grant: DownloadGrant }>> {
+  const linkError = verifyDownloadLink(token, params, { now });
+  if (linkError) return { ok: false, reason: linkError };
+
+  return withTokenLock(token, async () => {
+    const grant = await repository.get(token);
+    if (!grant) return { ok: false, reason: "not_found" };
+
+    const reason = unavailableReason(grant);
+    if (reason) return { ok: false, reason };
+
+    const file = await storage.open(grant.productId, grant.variantId, params.version);
+    if (!file) return { ok: false, reason: "file_missing" };
+
+    const updated: DownloadGrant = {
+      ...grant,
+      downloadsRemaining: grant.downloadsRemaining - 1,
+      downloads: [
+        ...grant.downloads,
+        { version: params.version, downloadedAt: now.toISOString(), userAgent },
+      ],
+    };
+    await repository.save(updated);
+
+    return { ok: true, file, grant: updated };
+  });
+}
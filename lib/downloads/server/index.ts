@@ -0,0 +1,37 @@
+/**
+ * Downloads (Server-side)
+ */
+
+export {
+  getDownloadRepository,
+  setDownloadRepository,
+  InMemoryDownloadRepository,
+  FileDownloadRepository,
+  type DownloadRepository,
+} from "./repository";
+export {
+  getFileStorage,
+  setFileStorage,
+  LocalFileStorage,
+  type FileStorage,
+  type StoredFile,
+} from "./storage";
+export {
+  DOWNLOADS_BASE_PATH,
+  createDownloadLink,
+  parseSignedDownloadParams,
+  verifyDownloadLink,
+  type SignedDownloadParams,
+  type DownloadLinkError,
+} from "./signing";
+export {
+  consumeDownload,
+  getOrderOwnerId,
+  listDownloadItems,
+  listOrderDownloadItems,
+  regenerateDownloadLink,
+  syncDownloadGrants,
+  type DownloadDeps,
+  type DownloadFailureReason,
+  type DownloadResult,
+} from "./grants";
@@ -0,0 +1,163 @@
+/**
+ * Download Repository (Server-side)
+ *
+ * Almacenamiento de los grants de descarga con implementaciones
+ * intercambiables:
+ * - InMemoryDownloadRepository: para tests y desarrollo sin disco
+ * - FileDownloadRepository: un JSON por grant en disco, para ejecuciones locales
+ *
+ * La implementación se elige con `DOWNLOAD_REPOSITORY` ("memory" | "file") y
+ * el directorio del repositorio de archivos con `DOWNLOAD_GRANTS_DIR`.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import type { DownloadGrant } from "../types";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface DownloadRepository {
+  /** Devuelve el grant de un token, o null si no existe */
+  get(token: string): Promise<DownloadGrant | null>;
+  /** Crea o reemplaza un grant */
+  save(grant: DownloadGrant): Promise<DownloadGrant>;
+  /** Grants de un usuario, del más reciente al más antiguo */
+  listByOwner(ownerId: string): Promise<DownloadGrant[]>;
+  /** Grants de un pedido */
+  listByOrder(orderReference: string): Promise<DownloadGrant[]>;
+}
+
+const newestFirst = (a: DownloadGrant, b: DownloadGrant) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+// =============================================================================
+// IN-MEMORY
+// =============================================================================
+
+class InMemoryDownloadRepository implements DownloadRepository {
+  private grants = new Map<string, DownloadGrant>();
+
+  async get(token: string): Promise<DownloadGrant | null> {
+    const grant = this.grants.get(token);
+    return grant ? structuredClone(grant) : null;
+  }
+
+  async save(grant: DownloadGrant): Promise<DownloadGrant> {
+    this.grants.set(grant.token, structuredClone(grant));
+    return grant;
+  }
+
+  async listByOwner(ownerId: string): Promise<DownloadGrant[]> {
+    return [...this.grants.values()]
+      .filter((grant) => grant.ownerId === ownerId)
+      .sort(newestFirst)
+      .map((grant) => structuredClone(grant));
+  }
+
+  async listByOrder(orderReference: string): Promise<DownloadGrant[]> {
+    return [...this.grants.values()]
+      .filter((grant) => grant.orderReference === orderReference)
+      .map((grant) => structuredClone(grant));
+  }
+}
+
+// =============================================================================
+// FILE
+// =============================================================================
+
+class FileDownloadRepository implements DownloadRepository {
+  constructor(private readonly dir: string) {}
+
+  async get(token: string): Promise<DownloadGrant | null> {
+    try {
+      const raw = await readFile(this.pathFor(token), "utf-8");
+      return JSON.parse(raw) as DownloadGrant;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async save(grant: DownloadGrant): Promise<DownloadGrant> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(grant.token), JSON.stringify(grant), "utf-8");
+    return grant;
+  }
+
+  async listByOwner(ownerId: string): Promise<DownloadGrant[]> {
+    const grants = await this.readAll();
+    return grants.filter((grant) => grant.ownerId === ownerId).sort(newestFirst);
+  }
+
+  async listByOrder(orderReference: string): Promise<DownloadGrant[]> {
+    const grants = await this.readAll();
+    return grants.filter((grant) => grant.orderReference === orderReference);
+  }
+
+  /**
+   * Lee todos los grants (suficiente para el volumen de un entorno local)
+   */
+  private async readAll(): Promise<DownloadGrant[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    return Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) =>
+          JSON.parse(await readFile(join(this.dir, file), "utf-8")) as DownloadGrant
+        )
+    );
+  }
+
+  /**
+   * Ruta del archivo del grant (hash del token para evitar path traversal)
+   */
+  private pathFor(token: string): string {
+    const hash = createHash("sha256").update(token).digest("hex");
+    return join(this.dir, `${hash}.json`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let repository: DownloadRepository | null = null;
+
+/**
+ * Obtiene el repositorio configurado (singleton)
+ */
+export function getDownloadRepository(): DownloadRepository {
+  if (!repository) {
+    repository =
+      process.env.DOWNLOAD_REPOSITORY === "file"
+        ? new FileDownloadRepository(process.env.DOWNLOAD_GRANTS_DIR || "./.data/downloads")
+        : new InMemoryDownloadRepository();
+  }
+  return repository;
+}
+
+/**
+ * Sustituye el repositorio activo (tests o backends alternativos)
+ */
+export function setDownloadRepository(next: DownloadRepository | null): void {
+  repository = next;
+}
+
+export { InMemoryDownloadRepository, FileDownloadRepository };
@@ -0,0 +1,113 @@
+/**
+ * Download Links - Firma de enlaces de descarga (Server-side)
+ *
+ * Un enlace tiene la forma:
+ *   /api/downloads/<token>?v=<version>&expires=<unix>&sig=<hmac>
+ *
+ * La firma cubre token, versión y caducidad, así que ninguno se puede
+ * alterar sin invalidar el enlace. El secreto se lee de
+ * `DOWNLOAD_SIGNING_SECRET`.
+ */
+
+import { hmacSha256Hex, safeEqualHex } from "@lib/payments/server/signature";
+import { DOWNLOAD_LINK_TTL_SECONDS, type DownloadLink } from "../types";
+
+/** Ruta base de las descargas */
+export const DOWNLOADS_BASE_PATH = "/api/downloads";
+
+/** Secreto solo para desarrollo; en producción es obligatorio configurarlo */
+const DEVELOPMENT_SECRET = "ayla-development-download-secret";
+
+/** Parámetros firmados de un enlace */
+export interface SignedDownloadParams {
+  version: string;
+  /** Caducidad en segundos Unix */
+  expires: number;
+  signature: string;
+}
+
+/** Motivo por el que se rechaza un enlace */
+export type DownloadLinkError = "invalid_signature" | "expired";
+
+/**
+ * Obtiene el secreto de firma configurado
+ */
+export function getDownloadSigningSecret(): string {
+  const secret = process.env.DOWNLOAD_SIGNING_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("DOWNLOAD_SIGNING_SECRET is not configured");
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function signaturePayload(token: string, version: string, expires: number): string {
+  return `${token}:${version}:${expires}`;
+}
+
+/**
+ * Crea un enlace firmado para un token y una versión
+ *
+ * @param origin - Origen público de la app (p.ej. https://ayladesigns.me)
+ */
+export function createDownloadLink(
+  token: string,
+  version: string,
+  origin: string,
+  {
+    secret = getDownloadSigningSecret(),
+    now = new Date(),
+    ttlSeconds = DOWNLOAD_LINK_TTL_SECONDS,
+  }: { secret?: string; now?: Date; ttlSeconds?: number } = {}
+): DownloadLink {
+  const expires = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const signature = hmacSha256Hex(secret, signaturePayload(token, version, expires));
+
+  const url = new URL(`${DOWNLOADS_BASE_PATH}/${encodeURIComponent(token)}`, origin);
+  url.searchParams.set("v", version);
+  url.searchParams.set("expires", String(expires));
+  url.searchParams.set("sig", signature);
+
+  return {
+    url: url.toString(),
+    version,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+/**
+ * Lee los parámetros firmados de la query de un enlace
+ *
+ * @returns null si falta alguno
+ */
+export function parseSignedDownloadParams(
+  searchParams: URLSearchParams
+): SignedDownloadParams | null {
+  const version = searchParams.get("v");
+  const expires = Number(searchParams.get("expires"));
+  const signature = searchParams.get("sig");
+
+  if (!version || !signature || !Number.isInteger(expires)) return null;
+  return { version, expires, signature };
+}
+
+/**
+ * Verifica firma y caducidad de un enlace
+ *
+ * @returns null si el enlace es válido, o el motivo del rechazo
+ */
+export function verifyDownloadLink(
+  token: string,
+  params: SignedDownloadParams,
+  { secret = getDownloadSigningSecret(), now = new Date() }: { secret?: string; now?: Date } = {}
+): DownloadLinkError | null {
+  const expected = hmacSha256Hex(
+    secret,
+    signaturePayload(token, params.version, params.expires)
+  );
+
+  if (!safeEqualHex(expected, params.signature)) return "invalid_signature";
+  if (params.expires * 1000 <= now.getTime()) return "expired";
+  return null;
+}
@@ -0,0 +1,187 @@
+/**
+ * File Storage (Server-side)
+ *
+ * Acceso a los archivos versionados de cada producto. La estructura imita
+ * la del bucket de producción (S3/R2):
+ *
+ *   products/{product_id}/{variant_id | "default"}/{version}/{archivo}
+ *
+ * Cada carpeta de versión contiene un único archivo entregable; los
+ * `manifest.json` se ignoran.
+ *
+ * Implementaciones:
+ * - LocalFileStorage: sistema de archivos local, sustituto de S3/R2 en
+ *   desarrollo y despliegues pequeños
+ *
+ * El directorio se configura con `DOWNLOAD_STORAGE_DIR`.
+ */
+
+import { createReadStream } from "fs";
+import { readdir, stat } from "fs/promises";
+import { join } from "path";
+import { Readable } from "stream";
+import { compareVersions } from "../versions";
+import type { FileVersion } from "../types";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+/**
+ * Archivo abierto para su entrega
+ */
+export interface StoredFile extends FileVersion {
+  contentType: string;
+  body: ReadableStream<Uint8Array>;
+}
+
+export interface FileStorage {
+  /** Versiones publicadas, de la más antigua a la más reciente */
+  listVersions(productId: number, variantId: number | null): Promise<FileVersion[]>;
+  /** Abre el archivo de una versión, o null si no existe */
+  open(
+    productId: number,
+    variantId: number | null,
+    version: string
+  ): Promise<StoredFile | null>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Nombres de versión admitidos (evita path traversal) */
+const VERSION_PATTERN = /^v?\d+(\.\d+){0,3}$/i;
+
+const IGNORED_FILES = new Set(["manifest.json"]);
+
+const CONTENT_TYPES: Record<string, string> = {
+  zip: "application/zip",
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  svg: "image/svg+xml",
+};
+
+function contentTypeFor(fileName: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+// =============================================================================
+// LOCAL FILESYSTEM
+// =============================================================================
+
+class LocalFileStorage implements FileStorage {
+  constructor(private readonly rootDir: string) {}
+
+  async listVersions(
+    productId: number,
+    variantId: number | null
+  ): Promise<FileVersion[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.variantDir(productId, variantId));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const versions = await Promise.all(
+      entries
+        .filter((entry) => VERSION_PATTERN.test(entry))
+        .map((version) => this.describe(productId, variantId, version))
+    );
+
+    return versions
+      .filter((version): version is FileVersion => version !== null)
+      .sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  async open(
+    productId: number,
+    variantId: number | null,
+    version: string
+  ): Promise<StoredFile | null> {
+    const file = await this.describe(productId, variantId, version);
+    if (!file) return null;
+
+    const path = join(this.variantDir(productId, variantId), version, file.fileName);
+
+    return {
+      ...file,
+      contentType: contentTypeFor(file.fileName),
+      body: Readable.toWeb(createReadStream(path)) as ReadableStream<Uint8Array>,
+    };
+  }
+
+  /**
+   * Localiza el archivo entregable de una versión
+   */
+  private async describe(
+    productId: number,
+    variantId: number | null,
+    version: string
+  ): Promise<FileVersion | null> {
+    if (!VERSION_PATTERN.test(version)) return null;
+
+    const dir = join(this.variantDir(productId, variantId), version);
+    let entries: string[];
+    try {
+      entries = await readdir(dir);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+
+    const fileName = entries.find(
+      (entry) => !entry.startsWith(".") && !IGNORED_FILES.has(entry)
+    );
+    if (!fileName) return null;
+
+    const { size } = await stat(join(dir, fileName));
+    return { version, fileName, size };
+  }
+
+  private variantDir(productId: number, variantId: number | null): string {
+    return join(
+      this.rootDir,
+      "products",
+      String(productId),
+      variantId === null ? "default" : String(variantId)
+    );
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let storage: FileStorage | null = null;
+
+/**
+ * Obtiene el almacenamiento configurado (singleton)
+ */
+export function getFileStorage(): FileStorage {
+  if (!storage) {
+    storage = new LocalFileStorage(process.env.DOWNLOAD_STORAGE_DIR || "./.data/files");
+  }
+  return storage;
+}
+
+/**
+ * Sustituye el almacenamiento activo (tests o adaptadores S3/R2)
+ */
+export function setFileStorage(next: FileStorage | null): void {
+  storage = next;
+}
+
+export { LocalFileStorage };
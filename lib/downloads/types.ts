@@ -0,0 +1,91 @@
+/**
+ * Download Types - Entrega de productos digitales
+ *
+ * Cada línea de un pedido pagado recibe un "grant": un token de descarga con
+ * un número limitado de usos. Los enlaces que se entregan al cliente se
+ * firman con HMAC y caducan; el grant sobrevive a los enlaces, así que el
+ * cliente puede regenerar uno nuevo (para la última versión del archivo)
+ * sin recuperar usos.
+ */
+
+/** Validez de un enlace firmado (7 días) */
+export const DOWNLOAD_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Descargas permitidas por línea de pedido */
+export const DOWNLOAD_LIMIT = 5;
+
+/**
+ * Versión publicada de un archivo de producto
+ */
+export interface FileVersion {
+  /** Identificador de versión (v1.0.0, v1.0.1...) */
+  version: string;
+  /** Nombre del archivo entregado */
+  fileName: string;
+  /** Tamaño en bytes */
+  size: number;
+}
+
+/**
+ * Descarga realizada con un grant
+ */
+export interface DownloadRecord {
+  version: string;
+  /** Timestamp ISO */
+  downloadedAt: string;
+  userAgent?: string;
+}
+
+/**
+ * Derecho de descarga de una línea de pedido
+ */
+export interface DownloadGrant {
+  /** Token de descarga (download_token del pedido) */
+  token: string;
+  /** Usuario propietario (ID de la cuenta o, para invitados, su email) */
+  ownerId: string;
+  orderReference: string;
+  productId: number;
+  /** Nombre del producto en el momento de la compra */
+  productName: string;
+  /** Variante comprada (null si el producto no tiene variantes) */
+  variantId: number | null;
+  /** Versión del archivo a la que apunta el enlace vigente */
+  version: string | null;
+  downloadLimit: number;
+  downloadsRemaining: number;
+  /** Un grant revocado (p.ej. por reembolso) no admite más descargas */
+  revoked: boolean;
+  downloads: DownloadRecord[];
+  /** Timestamp ISO */
+  createdAt: string;
+}
+
+/**
+ * Enlace firmado listo para entregar al cliente
+ */
+export interface DownloadLink {
+  url: string;
+  version: string;
+  /** Timestamp ISO de caducidad */
+  expiresAt: string;
+}
+
+/**
+ * Entrada del centro de descargas (GET /api/downloads)
+ */
+export interface DownloadItem {
+  token: string;
+  orderReference: string;
+  productId: number;
+  productName: string;
+  variantId: number | null;
+  downloadLimit: number;
+  downloadsRemaining: number;
+  /** Última descarga (timestamp ISO) */
+  lastDownloadedAt: string | null;
+  /** Versión más reciente publicada (null si aún no hay archivos) */
+  latestVersion: string | null;
+  /** Enlace vigente (null si no quedan descargas o no hay archivos) */
+  link: DownloadLink | null;
+}
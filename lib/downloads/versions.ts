@@ -0,0 +1,39 @@
+/**
+ * Versionado de archivos de producto
+ *
+ * Las versiones siguen el formato `v<major>.<minor>.<patch>` (la "v" y los
+ * componentes que falten son opcionales).
+ */
+
+/**
+ * Compara dos versiones numéricamente (v1.0.10 > v1.0.9)
+ *
+ * @returns < 0 si a es anterior, > 0 si es posterior, 0 si son iguales
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) =>
+    version
+      .replace(/^v/i, "")
+      .split(".")
+      .map((part) => Number.parseInt(part, 10) || 0);
+
+  const left = parse(a);
+  const right = parse(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Devuelve la versión más reciente de una lista, o null si está vacía
+ */
+export function latestVersion(versions: string[]): string | null {
+  return versions.reduce<string | null>(
+    (latest, version) =>
+      latest === null || compareVersions(version, latest) > 0 ? version : latest,
+    null
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * Favorites - Lista de deseos compartida entre cliente y servidor
+ *
+ * El almacenamiento (solo servidor) vive en `@lib/favorites/server`.
+ */
+
+export * from "./types";
+export {
+  MAX_FAVORITES,
+  mergeFavorites,
+  normalizeFavorites,
+  type MergeFavoritesOptions,
+} from "./merge";
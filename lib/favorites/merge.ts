@@ -0,0 +1,72 @@
+/**
+ * Favorites Merge - Reglas para fusionar listas de favoritos
+ *
+ * Se usa al iniciar sesión: los favoritos anónimos del navegador se unen
+ * a los guardados en la cuenta.
+ *
+ * Reglas:
+ * - Cada producto aparece una sola vez
+ * - Se respeta el orden guardado y los nuevos se añaden al final
+ * - Los productos que ya no están en el catálogo se descartan
+ * - La lista se limita a `MAX_FAVORITES` productos
+ */
+
+import type { FavoritesMergeResult } from "./types";
+
+/** Máximo de productos en la lista de favoritos */
+export const MAX_FAVORITES = 200;
+
+export interface MergeFavoritesOptions {
+  /** Indica si el producto sigue en el catálogo */
+  isAvailable: (productId: number) => boolean;
+}
+
+/**
+ * Fusiona los favoritos anónimos con los guardados.
+ *
+ * @example
+ * ```ts
+ * const { productIds, summary } = mergeFavorites([3, 1], [1, 2], {
+ *   isAvailable: (id) => catalogIds.has(id),
+ * });
+ * // productIds: [1, 2, 3], summary: { added: 1, dropped: [] }
+ * ```
+ */
+export function mergeFavorites(
+  anonymous: number[],
+  stored: number[],
+  { isAvailable }: MergeFavoritesOptions
+): FavoritesMergeResult {
+  const storedIds = new Set(stored);
+  const productIds: number[] = [];
+  const seen = new Set<number>();
+  const dropped = new Set<number>();
+  let added = 0;
+
+  for (const productId of [...stored, ...anonymous]) {
+    if (seen.has(productId)) continue;
+    seen.add(productId);
+
+    if (!isAvailable(productId)) {
+      dropped.add(productId);
+      continue;
+    }
+    if (productIds.length >= MAX_FAVORITES) break;
+
+    productIds.push(productId);
+    if (!storedIds.has(productId)) added++;
+  }
+
+  return { productIds, summary: { added, dropped: [...dropped] } };
+}
+
+/**
+ * Limpia una lista de favoritos: sin duplicados, sin productos retirados
+ * y con el máximo de productos permitido
+ */
+export function normalizeFavorites(
+  productIds: number[],
+  options: MergeFavoritesOptions
+): number[] {
+  return mergeFavorites(productIds, [], options).productIds;
+}
@@ -0,0 +1,11 @@
+/**
+ * Favorites (Server-side)
+ */
+
+export {
+  getFavoritesRepository,
+  setFavoritesRepository,
+  InMemoryFavoritesRepository,
+  FileFavoritesRepository,
+  type FavoritesRepository,
+} from "./repository";
@@ -0,0 +1,133 @@
+/**
+ * Favorites Repository (Server-side)
+ *
+ * Almacenamiento de favoritos por usuario con implementaciones intercambiables:
+ * - InMemoryFavoritesRepository: para tests y desarrollo sin disco
+ * - FileFavoritesRepository: un JSON por usuario en disco, para ejecuciones locales
+ *
+ * La implementación se elige con `FAVORITES_REPOSITORY` ("memory" | "file") y
+ * el directorio del repositorio de archivos con `FAVORITES_STORAGE_DIR`.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import type { StoredFavorites } from "../types";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface FavoritesRepository {
+  /** Devuelve los favoritos del usuario, o null si no tiene */
+  get(ownerId: string): Promise<StoredFavorites | null>;
+  /** Reemplaza los favoritos del usuario */
+  save(ownerId: string, productIds: number[]): Promise<StoredFavorites>;
+  /** Elimina los favoritos del usuario */
+  delete(ownerId: string): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY
+// =============================================================================
+
+class InMemoryFavoritesRepository implements FavoritesRepository {
+  private favorites = new Map<string, StoredFavorites>();
+
+  async get(ownerId: string): Promise<StoredFavorites | null> {
+    return this.favorites.get(ownerId) ?? null;
+  }
+
+  async save(ownerId: string, productIds: number[]): Promise<StoredFavorites> {
+    const favorites: StoredFavorites = {
+      productIds: [...productIds],
+      updatedAt: new Date().toISOString(),
+    };
+    this.favorites.set(ownerId, favorites);
+    return favorites;
+  }
+
+  async delete(ownerId: string): Promise<void> {
+    this.favorites.delete(ownerId);
+  }
+}
+
+// =============================================================================
+// FILE
+// =============================================================================
+
+class FileFavoritesRepository implements FavoritesRepository {
+  constructor(private readonly dir: string) {}
+
+  async get(ownerId: string): Promise<StoredFavorites | null> {
+    try {
+      const raw = await readFile(this.pathFor(ownerId), "utf-8");
+      return JSON.parse(raw) as StoredFavorites;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async save(ownerId: string, productIds: number[]): Promise<StoredFavorites> {
+    const favorites: StoredFavorites = { productIds, updatedAt: new Date().toISOString() };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(ownerId), JSON.stringify(favorites), "utf-8");
+
+    return favorites;
+  }
+
+  async delete(ownerId: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(ownerId));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  /**
+   * Ruta del archivo del usuario (hash del ID para evitar path traversal)
+   */
+  private pathFor(ownerId: string): string {
+    const hash = createHash("sha256").update(ownerId).digest("hex");
+    return join(this.dir, `${hash}.json`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let repository: FavoritesRepository | null = null;
+
+/**
+ * Obtiene el repositorio configurado (singleton)
+ */
+export function getFavoritesRepository(): FavoritesRepository {
+  if (!repository) {
+    repository =
+      process.env.FAVORITES_REPOSITORY === "file"
+        ? new FileFavoritesRepository(
+            process.env.FAVORITES_STORAGE_DIR || "./.data/favorites"
+          )
+        : new InMemoryFavoritesRepository();
+  }
+  return repository;
+}
+
+/**
+ * Sustituye el repositorio activo (tests o backends alternativos)
+ */
+export function setFavoritesRepository(next: FavoritesRepository | null): void {
+  repository = next;
+}
+
+export { InMemoryFavoritesRepository, FileFavoritesRepository };
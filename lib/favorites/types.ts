@@ -0,0 +1,31 @@
+/**
+ * Favorites Types - Tipos de la lista de favoritos guardada en servidor
+ */
+
+/**
+ * Favoritos guardados para un usuario.
+ * Solo IDs del catálogo, en el orden en que se añadieron.
+ */
+export interface StoredFavorites {
+  productIds: number[];
+  /** Timestamp ISO de la última escritura */
+  updatedAt: string;
+}
+
+/**
+ * Resumen de una fusión de favoritos, para informar al usuario
+ */
+export interface FavoritesMergeSummary {
+  /** Productos nuevos que no estaban en los favoritos guardados */
+  added: number;
+  /** Productos descartados por no estar ya en el catálogo */
+  dropped: number[];
+}
+
+/**
+ * Resultado de fusionar dos listas de favoritos
+ */
+export interface FavoritesMergeResult {
+  productIds: number[];
+  summary: FavoritesMergeSummary;
+}
@@ -0,0 +1,81 @@
+/**
+ * Exchange Rates
+ *
+ * Conversión entre monedas para mostrar precios. Los tipos de cambio se
+ * expresan como unidades de cada moneda por 1 unidad de STORE_CURRENCY y se
+ * configuran con NEXT_PUBLIC_EXCHANGE_RATES (JSON, ej: {"USD":1.08}).
+ *
+ * La tienda siempre cobra en STORE_CURRENCY: los importes convertidos son
+ * orientativos.
+ */
+
+import type { CurrencyCode, Money } from "@types";
+import { STORE_CURRENCY, SUPPORTED_CURRENCIES } from "./money";
+
+/** Unidades de cada moneda por 1 unidad de STORE_CURRENCY */
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+/** Tipos de cambio por defecto (si no hay configuración) */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  EUR: 1,
+  USD: 1.08,
+  GBP: 0.85,
+};
+
+/**
+ * Interpreta la configuración de tipos de cambio
+ *
+ * Las monedas ausentes o con valores no positivos usan el tipo por defecto;
+ * la moneda de la tienda vale siempre 1.
+ */
+export function parseExchangeRates(raw: string | undefined): ExchangeRates {
+  let configured: Record<string, unknown> = {};
+
+  if (raw) {
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (parsed && typeof parsed === "object") {
+        configured = parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Configuración inválida: se usan los tipos por defecto
+    }
+  }
+
+  const rates = { ...DEFAULT_EXCHANGE_RATES };
+  for (const currency of SUPPORTED_CURRENCIES) {
+    const rate = configured[currency];
+    if (typeof rate === "number" && Number.isFinite(rate) && rate > 0) {
+      rates[currency] = rate;
+    }
+  }
+  rates[STORE_CURRENCY] = 1;
+
+  return rates;
+}
+
+/** Tipos de cambio configurados para la aplicación */
+export const EXCHANGE_RATES: ExchangeRates = parseExchangeRates(
+  process.env.NEXT_PUBLIC_EXCHANGE_RATES
+);
+
+/**
+ * Convierte un importe a otra moneda, redondeando a la unidad mínima
+ *
+ * @example
+ * ```ts
+ * convertMoney({ amount: 1000, currency: "EUR" }, "USD") // { amount: 1080, currency: "USD" }
+ * ```
+ */
+export function convertMoney(
+  value: Money,
+  currency: CurrencyCode,
+  rates: ExchangeRates = EXCHANGE_RATES
+): Money {
+  if (value.currency === currency) return value;
+
+  return {
+    amount: Math.round((value.amount * rates[currency]) / rates[value.currency]),
+    currency,
+  };
+}
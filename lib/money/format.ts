@@ -0,0 +1,30 @@
+/**
+ * Money Formatting
+ *
+ * Wrapper de Intl.NumberFormat para mostrar importes según el locale activo.
+ */
+
+import type { Money } from "@types";
+import type { SupportedLocale } from "@lib/date";
+import { toMajorUnits } from "./money";
+
+/**
+ * Formatea un importe en el locale indicado
+ *
+ * @example
+ * ```ts
+ * formatMoney({ amount: 123456, currency: "EUR" }, "es") // "1234,56 €"
+ * formatMoney({ amount: 123456, currency: "USD" }, "en") // "$1,234.56"
+ * ```
+ */
+export function formatMoney(
+  value: Money,
+  locale: SupportedLocale | string,
+  options: Omit<Intl.NumberFormatOptions, "style" | "currency"> = {}
+): string {
+  return new Intl.NumberFormat(locale, {
+    ...options,
+    style: "currency",
+    currency: value.currency,
+  }).format(toMajorUnits(value));
+}
@@ -0,0 +1,42 @@
+/**
+ * Money Module
+ *
+ * Importes en unidades mínimas (Money), conversión entre monedas y formato
+ * según el locale.
+ *
+ * @example
+ * ```ts
+ * import { fromMajorUnits, convertMoney, formatMoney } from "@lib/money";
+ *
+ * const price = fromMajorUnits(24.99); // { amount: 2499, currency: "EUR" }
+ * formatMoney(convertMoney(price, "USD"), "en"); // "$26.99"
+ * ```
+ *
+ * @module lib/money
+ */
+
+export type { CurrencyCode, Money } from "@types";
+
+export {
+  STORE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  money,
+  fromMajorUnits,
+  toMajorUnits,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  sumMoney,
+  negateMoney,
+  allocateMoney,
+} from "./money";
+
+export {
+  DEFAULT_EXCHANGE_RATES,
+  EXCHANGE_RATES,
+  parseExchangeRates,
+  convertMoney,
+  type ExchangeRates,
+} from "./exchange";
+
+export { formatMoney } from "./format";
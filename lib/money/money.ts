@@ -0,0 +1,123 @@
+/**
+ * Money Operations
+ *
+ * Aritmética sobre importes enteros en unidades mínimas, de modo que los
+ * totales nunca acumulan errores de redondeo de coma flotante.
+ */
+
+import type { CurrencyCode, Money } from "@types";
+
+/** Moneda de la tienda: en ella están los precios del catálogo y se cobra */
+export const STORE_CURRENCY: CurrencyCode = "EUR";
+
+/** Monedas disponibles en el selector */
+export const SUPPORTED_CURRENCIES: readonly CurrencyCode[] = ["EUR", "USD", "GBP"];
+
+/** Unidades mínimas por unidad (todas las monedas soportadas usan 2 decimales) */
+const MINOR_UNITS = 100;
+
+/**
+ * Crea un importe a partir de unidades mínimas
+ *
+ * @example
+ * ```ts
+ * money(2499) // { amount: 2499, currency: "EUR" }
+ * ```
+ */
+export function money(amount: number, currency: CurrencyCode = STORE_CURRENCY): Money {
+  return { amount: Math.round(amount), currency };
+}
+
+/**
+ * Convierte un precio decimal (como los del catálogo) a un importe
+ *
+ * @example
+ * ```ts
+ * fromMajorUnits(24.99) // { amount: 2499, currency: "EUR" }
+ * ```
+ */
+export function fromMajorUnits(
+  price: number,
+  currency: CurrencyCode = STORE_CURRENCY
+): Money {
+  return money(price * MINOR_UNITS, currency);
+}
+
+/**
+ * Importe en unidades decimales, solo para mostrarlo o integrarlo con APIs
+ */
+export function toMajorUnits(value: Money): number {
+  return value.amount / MINOR_UNITS;
+}
+
+/**
+ * Comprueba que los importes estén en la misma moneda antes de operar
+ */
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+/** Suma dos importes de la misma moneda */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+/** Resta dos importes de la misma moneda */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+/** Multiplica un importe (ej: precio unitario por cantidad) */
+export function multiplyMoney(value: Money, factor: number): Money {
+  return money(value.amount * factor, value.currency);
+}
+
+/** Suma una lista de importes; una lista vacía vale 0 en `currency` */
+export function sumMoney(
+  values: Money[],
+  currency: CurrencyCode = STORE_CURRENCY
+): Money {
+  return values.reduce(addMoney, money(0, currency));
+}
+
+/** Importe en negativo (descuentos) */
+export function negateMoney(value: Money): Money {
+  return { amount: -value.amount, currency: value.currency };
+}
+
+/**
+ * Reparte un importe en proporción a unos pesos sin perder céntimos
+ *
+ * Los céntimos que sobran al redondear van a las partes con mayor resto, de
+ * modo que la suma de las partes es siempre el importe original.
+ *
+ * @example
+ * ```ts
+ * allocateMoney(money(100), [1, 1, 1]) // 34, 33 y 33 céntimos
+ * ```
+ */
+export function allocateMoney(value: Money, weights: number[]): Money[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    return weights.map((_, index) => money(index === 0 ? value.amount : 0, value.currency));
+  }
+
+  const shares = weights.map((weight) => (value.amount * weight) / totalWeight);
+  const amounts = shares.map(Math.floor);
+  let remainder = value.amount - amounts.reduce((sum, amount) => sum + amount, 0);
+
+  const byRemainder = shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { index } of byRemainder) {
+    if (remainder <= 0) break;
+    amounts[index] += 1;
+    remainder -= 1;
+  }
+
+  return amounts.map((amount) => money(amount, value.currency));
+}
@@ -0,0 +1,14 @@
+/**
+ * Orders - Pedidos de la tienda
+ *
+ * Los tipos del pedido que ve el cliente (`AylaOrder`) viven en `@types`.
+ * El almacenamiento y el procesado de eventos de pago (solo servidor) viven
+ * en `@lib/orders/server`.
+ */
+
+export * from "./types";
+export {
+  ORDER_STATUS_TRANSITIONS,
+  canTransitionOrder,
+  hasDownloadAccess,
+} from "./status";
@@ -0,0 +1,38 @@
+/**
+ * Order Access (Server-side)
+ *
+ * Acceso a un pedido sin sesión con la clave que el checkout añade a la URL
+ * de la página de confirmación. Es la única vía de un invitado para llegar
+ * a sus descargas: sus grants no pertenecen a ninguna cuenta.
+ */
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import type { StoredOrder } from "../types";
+import { getOrderRepository, type OrderRepository } from "./repository";
+
+/**
+ * Genera la clave de acceso de un pedido nuevo
+ */
+export function createOrderAccessKey(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Pedido de la referencia si la clave coincide (comparación en tiempo constante)
+ *
+ * @returns null si el pedido no existe, no tiene clave o no coincide
+ */
+export async function findOrderByAccessKey(
+  reference: string,
+  accessKey: string,
+  { repository = getOrderRepository() }: { repository?: OrderRepository } = {}
+): Promise<StoredOrder | null> {
+  const order = await repository.get(reference);
+  if (!order?.accessKey) return null;
+
+  const expected = Buffer.from(order.accessKey);
+  const received = Buffer.from(accessKey);
+  const matches = expected.length === received.length && timingSafeEqual(expected, received);
+
+  return matches ? order : null;
+}
@@ -0,0 +1,163 @@
+/**
+ * Order Fulfillment (Server-side)
+ *
+ * Traduce eventos de pago normalizados (PaymentWebhookEvent) en cambios de
+ * estado del pedido. El procesado es idempotente por partida doble:
+ * - cada evento se reserva por su ID antes de aplicarse (reintentos del proveedor)
+ * - solo se aplican transiciones válidas del ciclo de vida (`canTransitionOrder`)
+ *
+ * Tras cada evento se sincronizan los grants de descarga del pedido y, una
+ * vez pagado, se registran los canjes de sus códigos promocionales.
+ */
+
+import {
+  getPromotionRepository,
+  redeemOrderPromotions,
+  type PromotionRepository,
+} from "@lib/checkout/server";
+import {
+  getDownloadRepository,
+  syncDownloadGrants,
+  type DownloadRepository,
+} from "@lib/downloads/server";
+import { logger } from "@lib/logger";
+import type { PaymentEventType, PaymentWebhookEvent } from "@lib/payments";
+import { canTransitionOrder } from "../status";
+import type { PaymentEventResult, StoredOrder, StoredOrderStatus } from "../types";
+import { getOrderRepository, type OrderRepository } from "./repository";
+
+/**
+ * Estado al que lleva cada tipo de evento
+ */
+const EVENT_TARGET_STATUS: Partial<Record<PaymentEventType, StoredOrderStatus>> = {
+  "payment.success": "paid",
+  "payment.failed": "failed",
+  "payment.refunded": "refunded",
+};
+
+/**
+ * Aplica un tipo de evento a un pedido (función pura)
+ *
+ * @returns El pedido actualizado, o null si el evento no cambia su estado
+ */
+export function transitionOrder(
+  order: StoredOrder,
+  type: PaymentEventType,
+  now: Date = new Date()
+): StoredOrder | null {
+  const target = EVENT_TARGET_STATUS[type];
+  if (!target || !canTransitionOrder(order.status, target)) {
+    return null;
+  }
+
+  const timestamp = now.toISOString();
+  return {
+    ...order,
+    status: target,
+    updatedAt: timestamp,
+    ...(target === "paid" ? { paidAt: timestamp } : {}),
+  };
+}
+
+/**
+ * Procesa un evento de webhook ya verificado
+ *
+ * @example
+ * ```ts
+ * const event = await provider.verifyWebhook(payload, request.headers);
+ * const { outcome } = await processPaymentEvent(event);
+ * ```
+ */
+export async function processPaymentEvent(
+  event: PaymentWebhookEvent,
+  repository: OrderRepository = getOrderRepository(),
+  downloads: DownloadRepository = getDownloadRepository(),
+  promotions: PromotionRepository = getPromotionRepository()
+): Promise<PaymentEventResult> {
+  if (event.type === "unknown") {
+    return { outcome: "ignored", reason: "unhandled_event" };
+  }
+
+  if (!(await repository.claimEvent(event.provider, event.id))) {
+    return { outcome: "duplicate" };
+  }
+
+  try {
+    const order = event.reference ? await repository.get(event.reference) : null;
+
+    if (!order) {
+      logger.warn("Payment event for unknown order", {
+        provider: event.provider,
+        eventId: event.id,
+        reference: event.reference,
+      });
+      return { outcome: "ignored", reason: "unknown_order" };
+    }
+
+    // Un evento en otra moneda no corresponde a lo que se cobró por el pedido
+    if (
+      event.currency !== undefined &&
+      event.currency.toUpperCase() !== order.currency.toUpperCase()
+    ) {
+      logger.error("Payment currency does not match order currency", undefined, {
+        reference: order.reference,
+        expected: order.currency,
+        received: event.currency,
+      });
+      return { outcome: "ignored", order, reason: "currency_mismatch" };
+    }
+
+    // Un cobro por un importe distinto no debe marcar el pedido como pagado
+    if (
+      event.type === "payment.success" &&
+      event.amount !== undefined &&
+      event.amount !== order.total
+    ) {
+      logger.error("Payment amount does not match order total", undefined, {
+        reference: order.reference,
+        expected: order.total,
+        received: event.amount,
+      });
+      return { outcome: "ignored", order, reason: "amount_mismatch" };
+    }
+
+    // Un reembolso parcial no revoca el pedido: solo el reembolso total
+    if (
+      event.type === "payment.refunded" &&
+      event.amount !== undefined &&
+      event.amount < order.total
+    ) {
+      logger.info("Partial refund does not change order status", {
+        reference: order.reference,
+        total: order.total,
+        refunded: event.amount,
+      });
+      return { outcome: "unchanged", order, reason: "partial_refund" };
+    }
+
+    const updated = transitionOrder(order, event.type);
+    if (!updated) {
+      // Reintento tras un fallo al emitir los grants: el pedido ya cambió
+      await syncDownloadGrants(order, { repository: downloads });
+      await redeemOrderPromotions(order, promotions);
+      return { outcome: "unchanged", order };
+    }
+
+    await repository.save(updated);
+    await syncDownloadGrants(updated, { repository: downloads });
+    await redeemOrderPromotions(updated, promotions);
+    logger.info("Order payment status updated", {
+      reference: updated.reference,
+      provider: event.provider,
+      eventId: event.id,
+      from: order.status,
+      to: updated.status,
+    });
+
+    return { outcome: "applied", order: updated };
+  } catch (error) {
+    // Liberar el evento para que el reintento del proveedor lo procese
+    await repository.releaseEvent(event.provider, event.id);
+    throw error;
+  }
+}
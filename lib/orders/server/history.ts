@@ -0,0 +1,114 @@
+/**
+ * Order History (Server-side)
+ *
+ * Historial de pedidos de una cuenta, leído del mismo repositorio en el que
+ * escribe el checkout y traducido al formato que ve el cliente (AylaOrder).
+ * Cada línea lleva el token y los usos restantes de su grant de descarga.
+ *
+ * Los pedidos de invitado no tienen cuenta y no aparecen en el historial.
+ */
+
+import type { DownloadGrant } from "@lib/downloads";
+import { getDownloadRepository, type DownloadRepository } from "@lib/downloads/server";
+import type { AylaOrder, AylaOrderStatus, CurrencyCode } from "@types";
+import { ORDER_PAGE_SIZE, type CustomerOrderPage, type StoredOrder } from "../types";
+import { getOrderRepository, type OrderRepository } from "./repository";
+
+export interface OrderHistoryOptions {
+  /** Página (1-based) */
+  page?: number;
+  pageSize?: number;
+  status?: AylaOrderStatus;
+}
+
+export interface OrderHistoryDeps {
+  repository?: OrderRepository;
+  downloads?: DownloadRepository;
+}
+
+const newestFirst = (a: StoredOrder, b: StoredOrder) => b.createdAt.localeCompare(a.createdAt);
+
+/**
+ * Traduce un pedido guardado al formato del cliente (función pura)
+ *
+ * Los grants revocados (reembolso) no exponen su token. Los pedidos locales
+ * no generan factura, así que `invoice_url` es siempre null.
+ */
+export function toCustomerOrder(order: StoredOrder, grants: DownloadGrant[] = []): AylaOrder {
+  // Cada grant se asigna a una sola línea (dos líneas pueden ser del mismo producto)
+  const pending = [...grants];
+
+  const items = order.lines.map((line, index) => {
+    const match = pending.findIndex(
+      (grant) =>
+        grant.productId === line.productId && grant.variantId === (line.variantId ?? null)
+    );
+    const grant = match >= 0 ? pending.splice(match, 1)[0] : undefined;
+    const active = grant && !grant.revoked ? grant : undefined;
+
+    return {
+      id: index + 1,
+      product_id: line.productId,
+      product_name: line.variantName ? `${line.name} · ${line.variantName}` : line.name,
+      variant_id: line.variantId ?? null,
+      quantity: line.quantity,
+      price_at_purchase: line.unitAmount,
+      download_token: active?.token ?? null,
+      downloads_remaining: active?.downloadsRemaining ?? 0,
+    };
+  });
+
+  return {
+    reference: order.reference,
+    status: order.status,
+    items,
+    subtotal: order.subtotal,
+    discount: order.discount ?? 0,
+    tax: order.tax ?? 0,
+    total: order.total,
+    currency: order.currency as CurrencyCode,
+    payment_provider: order.payment.provider,
+    payment_id: order.payment.sessionId,
+    invoice_url: null,
+    created_at: order.createdAt,
+    paid_at: order.paidAt ?? null,
+  };
+}
+
+/**
+ * Historial paginado de una cuenta, del pedido más reciente al más antiguo
+ */
+export async function listCustomerOrders(
+  customerId: string,
+  { page = 1, pageSize = ORDER_PAGE_SIZE, status }: OrderHistoryOptions = {},
+  { repository = getOrderRepository(), downloads = getDownloadRepository() }: OrderHistoryDeps = {}
+): Promise<CustomerOrderPage> {
+  const orders = (await repository.list())
+    .filter((order) => order.customerId === customerId && (!status || order.status === status))
+    .sort(newestFirst);
+
+  const start = (page - 1) * pageSize;
+  const items = await Promise.all(
+    orders
+      .slice(start, start + pageSize)
+      .map(async (order) => toCustomerOrder(order, await downloads.listByOrder(order.reference)))
+  );
+
+  return { items, total: orders.length, page, page_size: pageSize };
+}
+
+/**
+ * Detalle de un pedido de la cuenta
+ *
+ * @returns null si el pedido no existe o es de otra cuenta
+ */
+export async function getCustomerOrder(
+  customerId: string,
+  reference: string,
+  { repository = getOrderRepository(), downloads = getDownloadRepository() }: OrderHistoryDeps = {}
+): Promise<AylaOrder | null> {
+  const order = await repository.get(reference);
+  if (!order || order.customerId !== customerId) return null;
+
+  return toCustomerOrder(order, await downloads.listByOrder(order.reference));
+}
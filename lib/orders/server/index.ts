@@ -0,0 +1,20 @@
+/**
+ * Orders (Server-side)
+ */
+
+export {
+  getOrderRepository,
+  setOrderRepository,
+  InMemoryOrderRepository,
+  FileOrderRepository,
+  type OrderRepository,
+} from "./repository";
+export { createOrderAccessKey, findOrderByAccessKey } from "./access";
+export { processPaymentEvent, transitionOrder } from "./fulfillment";
+export {
+  getCustomerOrder,
+  listCustomerOrders,
+  toCustomerOrder,
+  type OrderHistoryDeps,
+  type OrderHistoryOptions,
+} from "./history";
@@ -0,0 +1,185 @@
+/**
+ * Order Repository (Server-side)
+ *
+ * Almacenamiento de pedidos y de los eventos de pago ya procesados, con
+ * implementaciones intercambiables:
+ * - InMemoryOrderRepository: para tests y desarrollo sin disco
+ * - FileOrderRepository: un JSON por pedido en disco, para ejecuciones locales
+ *
+ * La implementación se elige con `ORDER_REPOSITORY` ("memory" | "file") y
+ * el directorio del repositorio de archivos con `ORDER_STORAGE_DIR`.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import type { PaymentProviderId } from "@lib/payments";
+import type { StoredOrder } from "../types";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface OrderRepository {
+  /** Devuelve el pedido por su referencia, o null si no existe */
+  get(reference: string): Promise<StoredOrder | null>;
+  /** Todos los pedidos, sin orden garantizado (estadísticas y recomendaciones) */
+  list(): Promise<StoredOrder[]>;
+  /** Crea o reemplaza un pedido */
+  save(order: StoredOrder): Promise<StoredOrder>;
+  /**
+   * Reserva un evento de pago para procesarlo (operación atómica)
+   *
+   * @returns false si el evento ya estaba registrado
+   */
+  claimEvent(provider: PaymentProviderId, eventId: string): Promise<boolean>;
+  /** Libera un evento reservado cuyo procesado falló, para admitir reintentos */
+  releaseEvent(provider: PaymentProviderId, eventId: string): Promise<void>;
+}
+
+// =============================================================================
+// IN-MEMORY
+// =============================================================================
+
+class InMemoryOrderRepository implements OrderRepository {
+  private orders = new Map<string, StoredOrder>();
+  private events = new Set<string>();
+
+  async get(reference: string): Promise<StoredOrder | null> {
+    const order = this.orders.get(reference);
+    return order ? structuredClone(order) : null;
+  }
+
+  async list(): Promise<StoredOrder[]> {
+    return [...this.orders.values()].map((order) => structuredClone(order));
+  }
+
+  async save(order: StoredOrder): Promise<StoredOrder> {
+    this.orders.set(order.reference, structuredClone(order));
+    return order;
+  }
+
+  async claimEvent(provider: PaymentProviderId, eventId: string): Promise<boolean> {
+    const key = `${provider}:${eventId}`;
+    if (this.events.has(key)) return false;
+    this.events.add(key);
+    return true;
+  }
+
+  async releaseEvent(provider: PaymentProviderId, eventId: string): Promise<void> {
+    this.events.delete(`${provider}:${eventId}`);
+  }
+}
+
+// =============================================================================
+// FILE
+// =============================================================================
+
+class FileOrderRepository implements OrderRepository {
+  constructor(private readonly dir: string) {}
+
+  async get(reference: string): Promise<StoredOrder | null> {
+    try {
+      const raw = await readFile(this.orderPath(reference), "utf-8");
+      return JSON.parse(raw) as StoredOrder;
+    } catch (error) {
+      if (isErrorCode(error, "ENOENT")) return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<StoredOrder[]> {
+    let files: string[];
+    try {
+      files = await readdir(join(this.dir, "orders"));
+    } catch (error) {
+      if (isErrorCode(error, "ENOENT")) return [];
+      throw error;
+    }
+
+    return Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) =>
+          JSON.parse(await readFile(join(this.dir, "orders", file), "utf-8")) as StoredOrder
+        )
+    );
+  }
+
+  async save(order: StoredOrder): Promise<StoredOrder> {
+    await mkdir(join(this.dir, "orders"), { recursive: true });
+    await writeFile(this.orderPath(order.reference), JSON.stringify(order), "utf-8");
+    return order;
+  }
+
+  async claimEvent(provider: PaymentProviderId, eventId: string): Promise<boolean> {
+    await mkdir(join(this.dir, "events"), { recursive: true });
+    try {
+      // "wx" falla si el archivo existe: dos entregas simultáneas no se procesan dos veces
+      await writeFile(
+        this.eventPath(provider, eventId),
+        JSON.stringify({ provider, eventId, receivedAt: new Date().toISOString() }),
+        { encoding: "utf-8", flag: "wx" }
+      );
+      return true;
+    } catch (error) {
+      if (isErrorCode(error, "EEXIST")) return false;
+      throw error;
+    }
+  }
+
+  async releaseEvent(provider: PaymentProviderId, eventId: string): Promise<void> {
+    try {
+      await unlink(this.eventPath(provider, eventId));
+    } catch (error) {
+      if (!isErrorCode(error, "ENOENT")) throw error;
+    }
+  }
+
+  /**
+   * Rutas de archivo (hash de la clave para evitar path traversal)
+   */
+  private orderPath(reference: string): string {
+    return join(this.dir, "orders", `${hash(reference)}.json`);
+  }
+
+  private eventPath(provider: PaymentProviderId, eventId: string): string {
+    return join(this.dir, "events", `${hash(`${provider}:${eventId}`)}.json`);
+  }
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let repository: OrderRepository | null = null;
+
+/**
+ * Obtiene el repositorio configurado (singleton)
+ */
+export function getOrderRepository(): OrderRepository {
+  if (!repository) {
+    repository =
+      process.env.ORDER_REPOSITORY === "file"
+        ? new FileOrderRepository(process.env.ORDER_STORAGE_DIR || "./.data/orders")
+        : new InMemoryOrderRepository();
+  }
+  return repository;
+}
+
+/**
+ * Sustituye el repositorio activo (tests o backends alternativos)
+ */
+export function setOrderRepository(next: OrderRepository | null): void {
+  repository = next;
+}
+
+export { InMemoryOrderRepository, FileOrderRepository };
@@ -0,0 +1,39 @@
+/**
+ * Order Status - Ciclo de vida de los pedidos
+ *
+ * Compartido por la UI de la cuenta y el procesado de pagos en servidor
+ * (ver el diagrama en `AylaOrderStatus`).
+ */
+
+import type { AylaOrderStatus } from "@types";
+
+/** Transiciones permitidas desde cada estado */
+export const ORDER_STATUS_TRANSITIONS: Record<
+  AylaOrderStatus,
+  readonly AylaOrderStatus[]
+> = {
+  pending: ["paid", "failed", "cancelled"],
+  paid: ["fulfilled", "refunded"],
+  fulfilled: ["refunded"],
+  // Un pago rechazado se puede reintentar
+  failed: ["paid", "cancelled"],
+  cancelled: [],
+  refunded: [],
+};
+
+/**
+ * Comprueba si un pedido puede pasar de un estado a otro
+ */
+export function canTransitionOrder(
+  from: AylaOrderStatus,
+  to: AylaOrderStatus
+): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Estados en los que el cliente puede descargar lo que compró
+ */
+export function hasDownloadAccess(status: AylaOrderStatus): boolean {
+  return status === "paid" || status === "fulfilled";
+}
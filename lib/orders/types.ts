@@ -0,0 +1,91 @@
+/**
+ * Order Types - Pedidos registrados por el checkout
+ *
+ * Un pedido nace "pending" al abrir la sesión de pago y avanza con los
+ * eventos del proveedor (cobro inmediato o webhook).
+ */
+
+import type { AylaOrder, AylaOrderStatus, AylaTaxTreatment } from "@types";
+import type { PricedLine } from "@lib/checkout";
+import type { PaymentProviderId } from "@lib/payments";
+import type { CheckoutBillingData } from "@lib/validation/checkout";
+
+/** Pedidos por página del historial por defecto */
+export const ORDER_PAGE_SIZE = 10;
+
+/** Tamaño máximo de página aceptado por la API */
+export const ORDER_MAX_PAGE_SIZE = 50;
+
+/** Estados del ciclo de vida que gestiona el procesado de pagos */
+export type StoredOrderStatus = Extract<
+  AylaOrderStatus,
+  "pending" | "paid" | "failed" | "refunded"
+>;
+
+/**
+ * Pedido tal como se guarda en el servidor
+ */
+export interface StoredOrder {
+  /** Referencia pública (AYL-...) */
+  reference: string;
+  status: StoredOrderStatus;
+  /** Cuenta que hizo el pedido (ausente en compras como invitado) */
+  customerId?: string;
+  customerEmail: string;
+  /**
+   * Clave secreta de la página de confirmación: da acceso a las descargas
+   * del pedido sin sesión (las compras como invitado no tienen cuenta)
+   */
+  accessKey?: string;
+  billing: CheckoutBillingData;
+  /** Líneas con el precio y el IVA cobrados en el momento de la compra */
+  lines: PricedLine[];
+  /** Importes en céntimos */
+  subtotal: number;
+  /** Descuento por packs y promociones (ausente en pedidos sin descuento) */
+  discount?: number;
+  /** Códigos promocionales canjeados */
+  promotionCodes?: string[];
+  /** IVA incluido en el total */
+  tax?: number;
+  /** Régimen de IVA aplicado (inversión del sujeto pasivo con número de IVA) */
+  taxTreatment?: AylaTaxTreatment;
+  total: number;
+  currency: string;
+  payment: {
+    provider: PaymentProviderId;
+    sessionId: string;
+  };
+  /** Timestamps ISO */
+  createdAt: string;
+  updatedAt: string;
+  paidAt?: string;
+}
+
+/**
+ * Resultado de procesar un evento de pago
+ *
+ * - applied: el pedido cambió de estado
+ * - unchanged: el evento no altera el estado actual (p.ej. ya estaba pagado
+ *   o el reembolso es parcial)
+ * - duplicate: el evento ya se había procesado antes
+ * - ignored: evento sin pedido asociado, de tipo desconocido o inconsistente
+ */
+export type PaymentEventOutcome = "applied" | "unchanged" | "duplicate" | "ignored";
+
+export interface PaymentEventResult {
+  outcome: PaymentEventOutcome;
+  order?: StoredOrder;
+  /** Motivo cuando el evento no se aplica ("ignored" o "unchanged") */
+  reason?: string;
+}
+
+/**
+ * Página del historial de pedidos de un cliente (GET /api/orders)
+ */
+export interface CustomerOrderPage {
+  items: AylaOrder[];
+  total: number;
+  page: number;
+  page_size: number;
+}
@@ -0,0 +1,7 @@
+/**
+ * Payments - Contrato de procesadores de pago
+ *
+ * Las implementaciones (solo servidor) viven en `@lib/payments/server`.
+ */
+
+export * from "./types";
@@ -0,0 +1,135 @@
+/**
+ * Fake Payment Provider (Server-side)
+ *
+ * Procesador local para desarrollo y tests: no hace llamadas externas y
+ * completa los pagos al instante.
+ *
+ * Para simular un rechazo, usar un email que empiece por "decline"
+ * (p.ej. decline@example.com) o pasar `shouldDecline`.
+ *
+ * Webhooks: el body es un PaymentWebhookEvent sin `provider` firmado con
+ * HMAC-SHA256 en el header `x-fake-signature` (ver `signFakeWebhook`).
+ */
+
+import { randomUUID } from "crypto";
+import { WebhookSignatureError } from "@/errors";
+import { hmacSha256Hex, safeEqualHex } from "./signature";
+import type {
+  PaymentProvider,
+  PaymentRefund,
+  PaymentSession,
+  PaymentSessionRequest,
+  PaymentWebhookEvent,
+} from "../types";
+
+/** Header con la firma de los webhooks fake */
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+export interface FakePaymentProviderOptions {
+  /** Decide si el cobro de una sesión debe fallar */
+  shouldDecline?: (request: PaymentSessionRequest) => boolean;
+  /** Secreto para firmar webhooks */
+  webhookSecret?: string;
+}
+
+const defaultShouldDecline = (request: PaymentSessionRequest) =>
+  request.customerEmail.toLowerCase().startsWith("decline");
+
+/**
+ * Firma un body de webhook fake (para tests y scripts locales)
+ */
+export function signFakeWebhook(payload: string, secret: string): string {
+  return hmacSha256Hex(secret, payload);
+}
+
+class FakePaymentProvider implements PaymentProvider {
+  readonly id = "fake" as const;
+
+  private sessions = new Map<
+    string,
+    { session: PaymentSession; request: PaymentSessionRequest }
+  >();
+  private shouldDecline: (request: PaymentSessionRequest) => boolean;
+  private webhookSecret: string;
+
+  constructor(options: FakePaymentProviderOptions = {}) {
+    this.shouldDecline = options.shouldDecline ?? defaultShouldDecline;
+    this.webhookSecret = options.webhookSecret ?? "fake-webhook-secret";
+  }
+
+  async createSession(request: PaymentSessionRequest): Promise<PaymentSession> {
+    const session: PaymentSession = {
+      id: `fake_${randomUUID()}`,
+      provider: this.id,
+      status: "pending",
+      reference: request.reference,
+      amount: request.amount,
+      currency: request.currency,
+    };
+
+    this.sessions.set(session.id, { session, request });
+    return { ...session };
+  }
+
+  async capture(sessionId: string): Promise<PaymentSession> {
+    const entry = this.getEntry(sessionId);
+
+    if (entry.session.status === "pending") {
+      entry.session = this.shouldDecline(entry.request)
+        ? { ...entry.session, status: "failed", failureReason: "card_declined" }
+        : { ...entry.session, status: "succeeded" };
+    }
+
+    return { ...entry.session };
+  }
+
+  async refund(sessionId: string, amount?: number): Promise<PaymentRefund> {
+    const entry = this.getEntry(sessionId);
+
+    if (entry.session.status !== "succeeded") {
+      throw new Error(`Payment session ${sessionId} cannot be refunded`);
+    }
+
+    const refundAmount = amount ?? entry.session.amount;
+    if (refundAmount >= entry.session.amount) {
+      entry.session = { ...entry.session, status: "refunded" };
+    }
+
+    return {
+      id: `fake_refund_${randomUUID()}`,
+      sessionId,
+      amount: refundAmount,
+      status: "succeeded",
+    };
+  }
+
+  async verifyWebhook(
+    payload: string,
+    headers: Headers
+  ): Promise<PaymentWebhookEvent> {
+    const signature = headers.get(FAKE_SIGNATURE_HEADER) ?? "";
+    const expected = signFakeWebhook(payload, this.webhookSecret);
+
+    if (!safeEqualHex(expected, signature)) {
+      throw new WebhookSignatureError("Invalid fake webhook signature", this.id);
+    }
+
+    const event = JSON.parse(payload) as Omit<PaymentWebhookEvent, "provider">;
+
+    return {
+      ...event,
+      provider: this.id,
+      providerType: event.providerType ?? event.type,
+    };
+  }
+
+  private getEntry(sessionId: string) {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) {
+      throw new Error(`Unknown payment session: ${sessionId}`);
+    }
+    return entry;
+  }
+}
+
+export { FakePaymentProvider };
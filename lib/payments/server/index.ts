@@ -0,0 +1,127 @@
+/**
+ * Payment providers (Server-side)
+ *
+ * El proveedor activo del checkout se elige con `PAYMENT_PROVIDER`
+ * ("fake" | "stripe" | "paypal", por defecto "fake"). Los webhooks resuelven
+ * el proveedor por su ID con `getPaymentProviderById`, así pueden convivir
+ * notificaciones de varios proveedores durante una migración.
+ *
+ * Variables de entorno:
+ * - Stripe: STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET
+ * - PayPal: PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET, PAYPAL_WEBHOOK_ID,
+ *   PAYPAL_ENVIRONMENT ("sandbox" | "live")
+ * - Fake: FAKE_PAYMENT_WEBHOOK_SECRET (solo fuera de producción)
+ */
+
+import { FakePaymentProvider } from "./fake";
+import { StripePaymentProvider } from "./stripe";
+import { PayPalPaymentProvider } from "./paypal";
+import {
+  PAYMENT_PROVIDER_IDS,
+  type PaymentProvider,
+  type PaymentProviderId,
+} from "../types";
+
+const providers = new Map<PaymentProviderId, PaymentProvider>();
+let activeProvider: PaymentProvider | null = null;
+
+/**
+ * Comprueba si un string es un ID de proveedor conocido
+ */
+export function isPaymentProviderId(value: string): value is PaymentProviderId {
+  return (PAYMENT_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Construye un proveedor desde variables de entorno
+ *
+ * @returns null si faltan credenciales o no está permitido en este entorno
+ */
+function createProvider(id: PaymentProviderId): PaymentProvider | null {
+  const env = process.env;
+
+  switch (id) {
+    case "fake":
+      if (env.NODE_ENV === "production") return null;
+      return new FakePaymentProvider({
+        webhookSecret: env.FAKE_PAYMENT_WEBHOOK_SECRET,
+      });
+    case "stripe":
+      if (!env.STRIPE_SECRET_KEY || !env.STRIPE_WEBHOOK_SECRET) return null;
+      return new StripePaymentProvider({
+        secretKey: env.STRIPE_SECRET_KEY,
+        webhookSecret: env.STRIPE_WEBHOOK_SECRET,
+      });
+    case "paypal":
+      if (!env.PAYPAL_CLIENT_ID || !env.PAYPAL_CLIENT_SECRET || !env.PAYPAL_WEBHOOK_ID) {
+        return null;
+      }
+      return new PayPalPaymentProvider({
+        clientId: env.PAYPAL_CLIENT_ID,
+        clientSecret: env.PAYPAL_CLIENT_SECRET,
+        webhookId: env.PAYPAL_WEBHOOK_ID,
+        sandbox: env.PAYPAL_ENVIRONMENT !== "live",
+      });
+  }
+}
+
+/**
+ * Obtiene un proveedor por su ID (singleton por proveedor)
+ *
+ * @returns null si el proveedor no está configurado
+ */
+export function getPaymentProviderById(id: PaymentProviderId): PaymentProvider | null {
+  if (activeProvider?.id === id) return activeProvider;
+
+  let provider = providers.get(id);
+  if (!provider) {
+    const created = createProvider(id);
+    if (!created) return null;
+    provider = created;
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+/**
+ * Obtiene el proveedor de pagos configurado para el checkout (singleton)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!activeProvider) {
+    const configured = process.env.PAYMENT_PROVIDER || "fake";
+
+    if (!isPaymentProviderId(configured)) {
+      throw new Error(`Unsupported payment provider: ${configured}`);
+    }
+
+    const provider = getPaymentProviderById(configured);
+    if (!provider) {
+      throw new Error(`Payment provider "${configured}" is not configured`);
+    }
+    activeProvider = provider;
+  }
+  return activeProvider;
+}
+
+/**
+ * Sustituye el proveedor activo (tests)
+ *
+ * El proveedor sustituto también atiende los webhooks de su ID.
+ */
+export function setPaymentProvider(next: PaymentProvider | null): void {
+  activeProvider = next;
+  if (!next) providers.clear();
+}
+
+export {
+  FakePaymentProvider,
+  FAKE_SIGNATURE_HEADER,
+  signFakeWebhook,
+  type FakePaymentProviderOptions,
+} from "./fake";
+export {
+  StripePaymentProvider,
+  STRIPE_SIGNATURE_HEADER,
+  type StripePaymentProviderOptions,
+} from "./stripe";
+export { PayPalPaymentProvider, type PayPalPaymentProviderOptions } from "./paypal";
@@ -0,0 +1,340 @@
+/**
+ * PayPal Payment Provider (Server-side)
+ *
+ * Adaptador de PayPal Orders v2 sobre su API REST:
+ * - createSession → POST /v2/checkout/orders (el comprador aprueba en PayPal)
+ * - capture       → POST /v2/checkout/orders/:id/capture
+ * - refund        → POST /v2/payments/captures/:captureId/refund
+ * - verifyWebhook → POST /v1/notifications/verify-webhook-signature
+ *
+ * PayPal no firma con un secreto compartido: la verificación la hace su API
+ * a partir de los headers `paypal-transmission-*` y el ID del webhook.
+ *
+ * @see https://developer.paypal.com/docs/api/orders/v2/
+ * @see https://developer.paypal.com/api/rest/webhooks/rest/#link-verifysignature
+ */
+
+import { WebhookSignatureError } from "@/errors";
+import type {
+  PaymentEventType,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentSession,
+  PaymentSessionRequest,
+  PaymentStatus,
+  PaymentWebhookEvent,
+} from "../types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PayPalPaymentProviderOptions {
+  clientId: string;
+  clientSecret: string;
+  /** ID del webhook configurado en el panel de PayPal */
+  webhookId: string;
+  /** Usar sandbox en lugar de producción (por defecto true) */
+  sandbox?: boolean;
+  /** Base de la API (tests) */
+  apiBaseUrl?: string;
+  /** Implementación de fetch (tests) */
+  fetch?: typeof fetch;
+}
+
+interface PayPalAmount {
+  currency_code: string;
+  value: string;
+}
+
+interface PayPalCapture {
+  id: string;
+  status: "COMPLETED" | "DECLINED" | "PENDING" | "REFUNDED" | "PARTIALLY_REFUNDED" | "FAILED";
+  amount?: PayPalAmount;
+  custom_id?: string;
+}
+
+/** Subconjunto de un objeto Order de PayPal */
+interface PayPalOrder {
+  id: string;
+  status: "CREATED" | "SAVED" | "APPROVED" | "VOIDED" | "COMPLETED" | "PAYER_ACTION_REQUIRED";
+  links?: { rel: string; href: string }[];
+  purchase_units?: {
+    reference_id?: string;
+    custom_id?: string;
+    amount?: PayPalAmount;
+    payments?: { captures?: PayPalCapture[] };
+  }[];
+  payer?: { email_address?: string };
+}
+
+interface PayPalRefund {
+  id: string;
+  status: "COMPLETED" | "PENDING" | "CANCELLED" | "FAILED";
+  amount?: PayPalAmount;
+}
+
+interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource: Record<string, unknown>;
+}
+
+// =============================================================================
+// MAPPINGS
+// =============================================================================
+
+const PAYPAL_EVENT_TYPES: Record<string, PaymentEventType> = {
+  "PAYMENT.CAPTURE.COMPLETED": "payment.success",
+  "PAYMENT.CAPTURE.DENIED": "payment.failed",
+  "PAYMENT.CAPTURE.DECLINED": "payment.failed",
+  "PAYMENT.CAPTURE.REFUNDED": "payment.refunded",
+};
+
+/** Headers que PayPal exige reenviar para verificar la firma */
+const TRANSMISSION_HEADERS = {
+  auth_algo: "paypal-auth-algo",
+  cert_url: "paypal-cert-url",
+  transmission_id: "paypal-transmission-id",
+  transmission_sig: "paypal-transmission-sig",
+  transmission_time: "paypal-transmission-time",
+} as const;
+
+/** PayPal usa importes decimales en texto */
+function toPayPalValue(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+function fromPayPalValue(amount?: PayPalAmount): number {
+  return amount ? Math.round(Number(amount.value) * 100) : 0;
+}
+
+function toPaymentStatus(order: PayPalOrder): PaymentStatus {
+  const capture = order.purchase_units?.[0]?.payments?.captures?.[0];
+  if (capture?.status === "REFUNDED") return "refunded";
+  if (capture?.status === "DECLINED" || capture?.status === "FAILED") return "failed";
+  if (order.status === "COMPLETED") return "succeeded";
+  if (order.status === "VOIDED") return "failed";
+  return "pending";
+}
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+class PayPalPaymentProvider implements PaymentProvider {
+  readonly id = "paypal" as const;
+
+  private readonly apiBaseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly options: PayPalPaymentProviderOptions) {
+    this.apiBaseUrl =
+      options.apiBaseUrl ??
+      (options.sandbox === false
+        ? "https://api-m.paypal.com"
+        : "https://api-m.sandbox.paypal.com");
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  async createSession(request: PaymentSessionRequest): Promise<PaymentSession> {
+    const order = await this.request<PayPalOrder>("POST", "/v2/checkout/orders", {
+      intent: "CAPTURE",
+      purchase_units: [
+        {
+          reference_id: request.reference,
+          custom_id: request.reference,
+          description: request.description,
+          amount: {
+            currency_code: request.currency,
+            value: toPayPalValue(request.amount),
+          },
+        },
+      ],
+      payment_source: {
+        paypal: {
+          experience_context: {
+            user_action: "PAY_NOW",
+            return_url: request.successUrl,
+            cancel_url: request.cancelUrl,
+          },
+        },
+      },
+    });
+
+    return this.toSession(order, request.reference);
+  }
+
+  async capture(sessionId: string): Promise<PaymentSession> {
+    const order = await this.request<PayPalOrder>(
+      "POST",
+      `/v2/checkout/orders/${encodeURIComponent(sessionId)}/capture`,
+      {}
+    );
+    return this.toSession(order);
+  }
+
+  async refund(sessionId: string, amount?: number): Promise<PaymentRefund> {
+    const order = await this.request<PayPalOrder>(
+      "GET",
+      `/v2/checkout/orders/${encodeURIComponent(sessionId)}`
+    );
+    const unit = order.purchase_units?.[0];
+    const capture = unit?.payments?.captures?.[0];
+    if (!capture) {
+      throw new Error(`PayPal order ${sessionId} has no capture to refund`);
+    }
+
+    const refund = await this.request<PayPalRefund>(
+      "POST",
+      `/v2/payments/captures/${encodeURIComponent(capture.id)}/refund`,
+      amount === undefined
+        ? {}
+        : {
+            amount: {
+              currency_code: capture.amount?.currency_code ?? unit?.amount?.currency_code,
+              value: toPayPalValue(amount),
+            },
+          }
+    );
+
+    return {
+      id: refund.id,
+      sessionId,
+      amount: refund.amount ? fromPayPalValue(refund.amount) : (amount ?? fromPayPalValue(capture.amount)),
+      status:
+        refund.status === "COMPLETED"
+          ? "succeeded"
+          : refund.status === "PENDING"
+            ? "pending"
+            : "failed",
+    };
+  }
+
+  async verifyWebhook(
+    payload: string,
+    headers: Headers
+  ): Promise<PaymentWebhookEvent> {
+    const transmission: Record<string, string> = {};
+    for (const [field, header] of Object.entries(TRANSMISSION_HEADERS)) {
+      const value = headers.get(header);
+      if (!value) {
+        throw new WebhookSignatureError(`Missing ${header} header`, this.id);
+      }
+      transmission[field] = value;
+    }
+
+    const event = JSON.parse(payload) as PayPalWebhookEvent;
+    const verification = await this.request<{ verification_status: string }>(
+      "POST",
+      "/v1/notifications/verify-webhook-signature",
+      { ...transmission, webhook_id: this.options.webhookId, webhook_event: event }
+    );
+
+    if (verification.verification_status !== "SUCCESS") {
+      throw new WebhookSignatureError("Invalid PayPal webhook signature", this.id);
+    }
+
+    return this.toEvent(event);
+  }
+
+  // ---------------------------------------------------------------------------
+  // HELPERS
+  // ---------------------------------------------------------------------------
+
+  private toSession(order: PayPalOrder, reference?: string): PaymentSession {
+    const unit = order.purchase_units?.[0];
+    const approveLink = order.links?.find(
+      (link) => link.rel === "payer-action" || link.rel === "approve"
+    );
+    const status = toPaymentStatus(order);
+
+    return {
+      id: order.id,
+      provider: this.id,
+      status,
+      reference: reference ?? unit?.custom_id ?? unit?.reference_id ?? "",
+      amount: fromPayPalValue(unit?.amount ?? unit?.payments?.captures?.[0]?.amount),
+      currency: unit?.amount?.currency_code ?? "",
+      redirectUrl: status === "pending" ? approveLink?.href : undefined,
+    };
+  }
+
+  private toEvent(event: PayPalWebhookEvent): PaymentWebhookEvent {
+    const resource = event.resource as unknown as PayPalCapture & {
+      supplementary_data?: { related_ids?: { order_id?: string } };
+      seller_payable_breakdown?: { total_refunded_amount?: PayPalAmount };
+    };
+    // En PAYMENT.CAPTURE.REFUNDED el recurso es el reembolso: amount es solo
+    // ese reembolso, el acumulado viene en seller_payable_breakdown
+    const amount = resource.seller_payable_breakdown?.total_refunded_amount ?? resource.amount;
+
+    return {
+      id: event.id,
+      provider: this.id,
+      type: PAYPAL_EVENT_TYPES[event.event_type] ?? "unknown",
+      providerType: event.event_type,
+      sessionId: resource.supplementary_data?.related_ids?.order_id,
+      reference: resource.custom_id,
+      amount: amount ? fromPayPalValue(amount) : undefined,
+      currency: amount?.currency_code,
+    };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+      return this.accessToken.value;
+    }
+
+    const credentials = Buffer.from(
+      `${this.options.clientId}:${this.options.clientSecret}`
+    ).toString("base64");
+
+    const response = await this.fetchImpl(`${this.apiBaseUrl}/v1/oauth2/token`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: "grant_type=client_credentials",
+    });
+
+    if (!response.ok) {
+      throw new Error(`PayPal authentication failed (${response.status})`);
+    }
+
+    const data = (await response.json()) as { access_token: string; expires_in: number };
+    // Renovar un minuto antes de que caduque
+    this.accessToken = {
+      value: data.access_token,
+      expiresAt: Date.now() + (data.expires_in - 60) * 1000,
+    };
+    return data.access_token;
+  }
+
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const token = await this.getAccessToken();
+    const response = await this.fetchImpl(`${this.apiBaseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`PayPal ${method} ${path} failed (${response.status}): ${detail}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+export { PayPalPaymentProvider };
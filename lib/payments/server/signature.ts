@@ -0,0 +1,23 @@
+/**
+ * Helpers de firma HMAC (Server-side)
+ *
+ * Usados por los webhooks de pago y por los enlaces de descarga firmados.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Calcula un HMAC-SHA256 en hexadecimal
+ */
+export function hmacSha256Hex(secret: string, data: string): string {
+  return createHmac("sha256", secret).update(data, "utf8").digest("hex");
+}
+
+/**
+ * Compara dos firmas hexadecimales en tiempo constante
+ */
+export function safeEqualHex(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(received, "hex");
+  return a.length > 0 && a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,276 @@
+/**
+ * Stripe Payment Provider (Server-side)
+ *
+ * Adaptador de Stripe Checkout sobre su API REST (sin SDK):
+ * - createSession → POST /v1/checkout/sessions (página de pago alojada)
+ * - capture       → GET  /v1/checkout/sessions/:id (Checkout cobra solo)
+ * - refund        → POST /v1/refunds sobre el payment_intent de la sesión
+ * - verifyWebhook → header `Stripe-Signature` (t=...,v1=...) con HMAC-SHA256
+ *
+ * @see https://docs.stripe.com/api/checkout/sessions
+ * @see https://docs.stripe.com/webhooks#verify-manually
+ */
+
+import { WebhookSignatureError } from "@/errors";
+import { hmacSha256Hex, safeEqualHex } from "./signature";
+import type {
+  PaymentEventType,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentSession,
+  PaymentSessionRequest,
+  PaymentStatus,
+  PaymentWebhookEvent,
+} from "../types";
+
+/** Header con la firma de los webhooks de Stripe */
+export const STRIPE_SIGNATURE_HEADER = "stripe-signature";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface StripePaymentProviderOptions {
+  /** Clave secreta (sk_live_... / sk_test_...) */
+  secretKey: string;
+  /** Secreto del endpoint de webhooks (whsec_...) */
+  webhookSecret: string;
+  /** Tolerancia del timestamp de la firma en segundos (por defecto 300) */
+  toleranceSeconds?: number;
+  /** Base de la API (tests) */
+  apiBaseUrl?: string;
+  /** Implementación de fetch (tests) */
+  fetch?: typeof fetch;
+}
+
+/** Subconjunto de un objeto Checkout Session de Stripe */
+interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+  status: "open" | "complete" | "expired";
+  payment_status: "paid" | "unpaid" | "no_payment_required";
+  amount_total: number | null;
+  currency: string | null;
+  client_reference_id: string | null;
+  payment_intent: string | null;
+  customer_details?: { email: string | null } | null;
+  metadata?: Record<string, string>;
+}
+
+interface StripeRefund {
+  id: string;
+  amount: number;
+  status: "pending" | "succeeded" | "failed" | "canceled" | "requires_action";
+}
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: Record<string, unknown> };
+}
+
+// =============================================================================
+// MAPPINGS
+// =============================================================================
+
+const STRIPE_EVENT_TYPES: Record<string, PaymentEventType> = {
+  "checkout.session.completed": "payment.success",
+  "checkout.session.async_payment_succeeded": "payment.success",
+  "checkout.session.async_payment_failed": "payment.failed",
+  "checkout.session.expired": "payment.failed",
+  "charge.refunded": "payment.refunded",
+};
+
+function toPaymentStatus(session: StripeCheckoutSession): PaymentStatus {
+  if (session.payment_status === "paid") return "succeeded";
+  if (session.status === "expired") return "failed";
+  return "pending";
+}
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+class StripePaymentProvider implements PaymentProvider {
+  readonly id = "stripe" as const;
+
+  private readonly apiBaseUrl: string;
+  private readonly toleranceSeconds: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: StripePaymentProviderOptions) {
+    this.apiBaseUrl = options.apiBaseUrl ?? "https://api.stripe.com";
+    this.toleranceSeconds = options.toleranceSeconds ?? 300;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  async createSession(request: PaymentSessionRequest): Promise<PaymentSession> {
+    const params = new URLSearchParams({
+      mode: "payment",
+      client_reference_id: request.reference,
+      customer_email: request.customerEmail,
+      "metadata[reference]": request.reference,
+      // Se copia al cargo para poder asociar los reembolsos al pedido
+      "payment_intent_data[metadata][reference]": request.reference,
+      "line_items[0][quantity]": "1",
+      "line_items[0][price_data][currency]": request.currency.toLowerCase(),
+      "line_items[0][price_data][unit_amount]": String(request.amount),
+      "line_items[0][price_data][product_data][name]":
+        request.description ?? request.reference,
+    });
+    if (request.successUrl) params.set("success_url", request.successUrl);
+    if (request.cancelUrl) params.set("cancel_url", request.cancelUrl);
+
+    const session = await this.request<StripeCheckoutSession>(
+      "POST",
+      "/v1/checkout/sessions",
+      params
+    );
+
+    return this.toSession(session);
+  }
+
+  async capture(sessionId: string): Promise<PaymentSession> {
+    const session = await this.retrieveSession(sessionId);
+    return this.toSession(session);
+  }
+
+  async refund(sessionId: string, amount?: number): Promise<PaymentRefund> {
+    const session = await this.retrieveSession(sessionId);
+    if (!session.payment_intent) {
+      throw new Error(`Stripe session ${sessionId} has no payment to refund`);
+    }
+
+    const params = new URLSearchParams({ payment_intent: session.payment_intent });
+    if (amount !== undefined) params.set("amount", String(amount));
+
+    const refund = await this.request<StripeRefund>("POST", "/v1/refunds", params);
+
+    return {
+      id: refund.id,
+      sessionId,
+      amount: refund.amount,
+      status:
+        refund.status === "succeeded"
+          ? "succeeded"
+          : refund.status === "pending" || refund.status === "requires_action"
+            ? "pending"
+            : "failed",
+    };
+  }
+
+  async verifyWebhook(
+    payload: string,
+    headers: Headers
+  ): Promise<PaymentWebhookEvent> {
+    const header = headers.get(STRIPE_SIGNATURE_HEADER) ?? "";
+    const parts = new Map<string, string[]>();
+    for (const item of header.split(",")) {
+      const [key, value] = item.split("=", 2);
+      if (key && value) parts.set(key, [...(parts.get(key) ?? []), value]);
+    }
+
+    const timestamp = Number(parts.get("t")?.[0]);
+    const signatures = parts.get("v1") ?? [];
+    if (!Number.isFinite(timestamp) || signatures.length === 0) {
+      throw new WebhookSignatureError("Malformed Stripe-Signature header", this.id);
+    }
+
+    const age = Math.abs(Date.now() / 1000 - timestamp);
+    if (age > this.toleranceSeconds) {
+      throw new WebhookSignatureError("Stripe webhook timestamp outside tolerance", this.id);
+    }
+
+    const expected = hmacSha256Hex(
+      this.options.webhookSecret,
+      `${timestamp}.${payload}`
+    );
+    if (!signatures.some((signature) => safeEqualHex(expected, signature))) {
+      throw new WebhookSignatureError("Invalid Stripe webhook signature", this.id);
+    }
+
+    return this.toEvent(JSON.parse(payload) as StripeEvent);
+  }
+
+  // ---------------------------------------------------------------------------
+  // HELPERS
+  // ---------------------------------------------------------------------------
+
+  private retrieveSession(sessionId: string) {
+    return this.request<StripeCheckoutSession>(
+      "GET",
+      `/v1/checkout/sessions/${encodeURIComponent(sessionId)}`
+    );
+  }
+
+  private toSession(session: StripeCheckoutSession): PaymentSession {
+    return {
+      id: session.id,
+      provider: this.id,
+      status: toPaymentStatus(session),
+      reference: session.client_reference_id ?? session.metadata?.reference ?? "",
+      amount: session.amount_total ?? 0,
+      currency: (session.currency ?? "").toUpperCase(),
+      redirectUrl:
+        session.status === "open" ? (session.url ?? undefined) : undefined,
+    };
+  }
+
+  private toEvent(event: StripeEvent): PaymentWebhookEvent {
+    const object = event.data.object;
+    const type = STRIPE_EVENT_TYPES[event.type] ?? "unknown";
+
+    // charge.refunded trae un Charge; el resto, una Checkout Session
+    if (event.type === "charge.refunded") {
+      return {
+        id: event.id,
+        provider: this.id,
+        type,
+        providerType: event.type,
+        reference: (object.metadata as Record<string, string> | undefined)?.reference,
+        amount: object.amount_refunded as number | undefined,
+        currency: (object.currency as string | undefined)?.toUpperCase(),
+      };
+    }
+
+    const session = object as unknown as StripeCheckoutSession;
+    // checkout.session.completed con pago diferido aún no está pagado
+    const isPaid = session.payment_status === "paid";
+
+    return {
+      id: event.id,
+      provider: this.id,
+      type: type === "payment.success" && !isPaid ? "unknown" : type,
+      providerType: event.type,
+      sessionId: session.id,
+      reference: session.client_reference_id ?? session.metadata?.reference,
+      amount: session.amount_total ?? undefined,
+      currency: session.currency?.toUpperCase(),
+      customerEmail: session.customer_details?.email ?? undefined,
+    };
+  }
+
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    body?: URLSearchParams
+  ): Promise<T> {
+    const response = await this.fetchImpl(`${this.apiBaseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.options.secretKey}`,
+        ...(body ? { "Content-Type": "application/x-www-form-urlencoded" } : {}),
+      },
+      body: body?.toString(),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Stripe ${method} ${path} failed (${response.status}): ${detail}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+export { StripePaymentProvider };
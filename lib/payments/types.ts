@@ -0,0 +1,115 @@
+/**
+ * Payment Types - Contrato común de los procesadores de pago
+ *
+ * Los importes van siempre en unidades menores (céntimos) para evitar
+ * errores de redondeo con decimales.
+ */
+
+/** Identificadores de proveedor soportados */
+export const PAYMENT_PROVIDER_IDS = ["fake", "stripe", "paypal"] as const;
+
+/** Identificador de proveedor */
+export type PaymentProviderId = (typeof PAYMENT_PROVIDER_IDS)[number];
+
+/** Estado de una sesión de pago */
+export type PaymentStatus = "pending" | "succeeded" | "failed" | "refunded";
+
+/**
+ * Datos para abrir una sesión de pago
+ */
+export interface PaymentSessionRequest {
+  /** Referencia del pedido en nuestra tienda */
+  reference: string;
+  /** Importe total en céntimos */
+  amount: number;
+  /** Código ISO 4217 (EUR, USD...) */
+  currency: string;
+  /** Email del comprador (recibo del proveedor) */
+  customerEmail: string;
+  /** Descripción mostrada por el proveedor */
+  description?: string;
+  /** URL de vuelta tras pagar (proveedores con página alojada) */
+  successUrl?: string;
+  /** URL de vuelta si el comprador cancela */
+  cancelUrl?: string;
+}
+
+/**
+ * Sesión de pago abierta en un proveedor
+ */
+export interface PaymentSession {
+  /** ID de la sesión en el proveedor */
+  id: string;
+  provider: PaymentProviderId;
+  status: PaymentStatus;
+  reference: string;
+  amount: number;
+  currency: string;
+  /** URL de pago alojada por el proveedor (si requiere redirección) */
+  redirectUrl?: string;
+  /** Motivo del fallo cuando status es "failed" */
+  failureReason?: string;
+}
+
+/**
+ * Reembolso emitido por un proveedor
+ */
+export interface PaymentRefund {
+  /** ID del reembolso en el proveedor */
+  id: string;
+  sessionId: string;
+  /** Importe reembolsado en céntimos */
+  amount: number;
+  status: "pending" | "succeeded" | "failed";
+}
+
+/** Tipos de evento normalizados */
+export type PaymentEventType =
+  | "payment.success"
+  | "payment.failed"
+  | "payment.refunded"
+  | "unknown";
+
+/**
+ * Evento de webhook ya verificado y traducido al formato común
+ */
+export interface PaymentWebhookEvent {
+  /** ID del evento en el proveedor (clave de idempotencia) */
+  id: string;
+  provider: PaymentProviderId;
+  type: PaymentEventType;
+  /** Tipo original del proveedor (p.ej. checkout.session.completed) */
+  providerType: string;
+  /** Sesión de pago asociada */
+  sessionId?: string;
+  /** Referencia del pedido enviada al crear la sesión */
+  reference?: string;
+  /** Importe en céntimos; en reembolsos, el total reembolsado acumulado */
+  amount?: number;
+  currency?: string;
+  customerEmail?: string;
+}
+
+/**
+ * Procesador de pagos
+ *
+ * Cada proveedor (Stripe, PayPal, fake local...) implementa este contrato
+ * para que el checkout no dependa de ninguno en concreto.
+ */
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  /** Abre una sesión de pago */
+  createSession(request: PaymentSessionRequest): Promise<PaymentSession>;
+  /** Cobra una sesión autorizada (o consulta su estado si se cobra sola) */
+  capture(sessionId: string): Promise<PaymentSession>;
+  /** Reembolsa una sesión cobrada (total si no se indica importe) */
+  refund(sessionId: string, amount?: number): Promise<PaymentRefund>;
+  /**
+   * Verifica la firma de un webhook y lo traduce al formato común
+   *
+   * @param payload - Body sin parsear, tal como llegó
+   * @param headers - Headers de la petición
+   * @throws WebhookSignatureError (de @/errors) si la firma no es válida
+   */
+  verifyWebhook(payload: string, headers: Headers): Promise<PaymentWebhookEvent>;
+}
@@ -0,0 +1,14 @@
+/**
+ * Recommendations - Productos relacionados y vistos recientemente
+ *
+ * El recomendador configurable (solo servidor) vive en
+ * `@lib/recommendations/server`.
+ */
+
+export * from "./types";
+export {
+  RELATED_PRODUCTS_LIMIT,
+  buildCoPurchaseIndex,
+  getRelatedProducts,
+} from "./related";
+export { MAX_RECENTLY_VIEWED, addRecentlyViewed } from "./recentlyViewed";
@@ -0,0 +1,25 @@
+/**
+ * Recently Viewed - Historial de productos vistos por el visitante
+ *
+ * Se guarda en el navegador (slice `recentlyViewed` del store), el más
+ * reciente primero.
+ */
+
+/** Productos que se recuerdan como vistos recientemente */
+export const MAX_RECENTLY_VIEWED = 12;
+
+/**
+ * Añade una vista al historial: el producto pasa al principio sin repetirse
+ *
+ * @example
+ * ```ts
+ * addRecentlyViewed([3, 1, 2], 2); // [2, 3, 1]
+ * ```
+ */
+export function addRecentlyViewed(
+  productIds: number[],
+  productId: number,
+  max = MAX_RECENTLY_VIEWED
+): number[] {
+  return [productId, ...productIds.filter((id) => id !== productId)].slice(0, max);
+}
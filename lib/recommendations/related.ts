@@ -0,0 +1,102 @@
+/**
+ * Related Products - Heurística de "También te puede gustar"
+ *
+ * Puntúa cada producto del catálogo frente al de referencia:
+ * - Misma categoría
+ * - Características en común (sin tildes ni mayúsculas)
+ * - Comprados juntos en pedidos pagados o entregados
+ *
+ * Es la implementación por defecto del `Recommender` del servidor; un
+ * backend con un modelo mejor puede sustituirla sin cambiar la interfaz.
+ */
+
+import { normalizeSearchText } from "@lib/catalog";
+import { hasDownloadAccess, type StoredOrder } from "@lib/orders";
+import type { AylaOrderStatus, AylaProduct } from "@types";
+import type { CoPurchaseIndex, RelatedProductsOptions } from "./types";
+
+/** Productos relacionados que se muestran por defecto */
+export const RELATED_PRODUCTS_LIMIT = 4;
+
+/** Peso de cada señal en la puntuación */
+const WEIGHTS = {
+  category: 3,
+  sharedFeature: 1,
+  coPurchase: 2,
+} as const;
+
+/** Pedidos comprados juntos a partir de los que la señal deja de crecer */
+const MAX_COUNTED_CO_PURCHASES = 5;
+
+/**
+ * Cuenta los pedidos pagados o entregados (los que dan acceso a las
+ * descargas) en los que se compró cada par de productos
+ *
+ * @example
+ * ```ts
+ * const index = buildCoPurchaseIndex(await getOrderRepository().list());
+ * index.get(1)?.get(4); // pedidos con el producto 1 y el 4
+ * ```
+ */
+export function buildCoPurchaseIndex(
+  orders: (Pick<StoredOrder, "lines"> & { status: AylaOrderStatus })[]
+): CoPurchaseIndex {
+  const index: CoPurchaseIndex = new Map();
+
+  for (const order of orders) {
+    if (!hasDownloadAccess(order.status)) continue;
+
+    const productIds = [...new Set(order.lines.map((line) => line.productId))];
+    for (const productId of productIds) {
+      const counts = index.get(productId) ?? new Map<number, number>();
+      for (const otherId of productIds) {
+        if (otherId !== productId) counts.set(otherId, (counts.get(otherId) ?? 0) + 1);
+      }
+      index.set(productId, counts);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Productos relacionados con el indicado, del más al menos relevante
+ *
+ * Solo incluye productos con alguna señal en común; a igual puntuación se
+ * respeta el orden del catálogo.
+ *
+ * @example
+ * ```ts
+ * getRelatedProducts(product, products, { coPurchases: index.get(product.id) });
+ * ```
+ */
+export function getRelatedProducts(
+  product: AylaProduct,
+  products: AylaProduct[],
+  { limit = RELATED_PRODUCTS_LIMIT, coPurchases }: RelatedProductsOptions = {}
+): AylaProduct[] {
+  const features = new Set(product.features.map(normalizeSearchText));
+
+  return products
+    .map((candidate, position) => {
+      if (candidate.id === product.id) return { candidate, position, score: 0 };
+
+      const sharedFeatures = candidate.features.filter((feature) =>
+        features.has(normalizeSearchText(feature))
+      ).length;
+      const boughtTogether = Math.min(
+        coPurchases?.get(candidate.id) ?? 0,
+        MAX_COUNTED_CO_PURCHASES
+      );
+      const score =
+        (candidate.category === product.category ? WEIGHTS.category : 0) +
+        sharedFeatures * WEIGHTS.sharedFeature +
+        boughtTogether * WEIGHTS.coPurchase;
+
+      return { candidate, position, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
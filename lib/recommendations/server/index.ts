@@ -0,0 +1,11 @@
+/**
+ * Recommendations (Server-side)
+ */
+
+export {
+  getRecommender,
+  setRecommender,
+  HeuristicRecommender,
+  CO_PURCHASE_INDEX_TTL_SECONDS,
+  type Recommender,
+} from "./recommender";
@@ -0,0 +1,102 @@
+/**
+ * Recommender (Server-side)
+ *
+ * Origen de los productos relacionados, con implementaciones intercambiables:
+ * - HeuristicRecommender: categoría, características en común y productos
+ *   comprados juntos en los pedidos guardados (por defecto). El índice de
+ *   compras conjuntas se calcula una vez cada CO_PURCHASE_INDEX_TTL_SECONDS,
+ *   no en cada petición
+ *
+ * Un recomendador mejor (p.ej. un servicio de machine learning) solo tiene
+ * que implementar `Recommender` y registrarse con `setRecommender`.
+ */
+
+import type { AylaProduct } from "@types";
+import { getOrderRepository, type OrderRepository } from "@lib/orders/server";
+import { buildCoPurchaseIndex, getRelatedProducts } from "../related";
+import type { CoPurchaseIndex } from "../types";
+
+/** Segundos que se reutiliza el índice de compras conjuntas */
+export const CO_PURCHASE_INDEX_TTL_SECONDS = 300;
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+export interface Recommender {
+  /**
+   * Productos del catálogo relacionados con el indicado, del más al menos
+   * relevante y sin el propio producto
+   */
+  related(product: AylaProduct, catalog: AylaProduct[], limit: number): Promise<AylaProduct[]>;
+}
+
+// =============================================================================
+// HEURISTIC
+// =============================================================================
+
+class HeuristicRecommender implements Recommender {
+  /** Índice en curso o calculado, con su caducidad (ms) */
+  private cached: { index: Promise<CoPurchaseIndex>; expiresAt: number } | null = null;
+
+  constructor(
+    private readonly getOrders: () => OrderRepository = getOrderRepository,
+    private readonly ttlSeconds = CO_PURCHASE_INDEX_TTL_SECONDS
+  ) {}
+
+  async related(
+    product: AylaProduct,
+    catalog: AylaProduct[],
+    limit: number
+  ): Promise<AylaProduct[]> {
+    const index = await this.loadIndex();
+
+    return getRelatedProducts(product, catalog, {
+      limit,
+      coPurchases: index.get(product.id),
+    });
+  }
+
+  /**
+   * Índice de compras conjuntas (las peticiones simultáneas comparten la
+   * misma lectura de los pedidos; si falla, la siguiente lo reintenta)
+   */
+  private loadIndex(): Promise<CoPurchaseIndex> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.index;
+    }
+
+    const index = this.getOrders().list().then(buildCoPurchaseIndex);
+    const entry = { index, expiresAt: Date.now() + this.ttlSeconds * 1000 };
+    this.cached = entry;
+    index.catch(() => {
+      if (this.cached === entry) this.cached = null;
+    });
+    return index;
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let recommender: Recommender | null = null;
+
+/**
+ * Obtiene el recomendador configurado (singleton)
+ */
+export function getRecommender(): Recommender {
+  if (!recommender) {
+    recommender = new HeuristicRecommender();
+  }
+  return recommender;
+}
+
+/**
+ * Sustituye el recomendador activo (tests o backends alternativos)
+ */
+export function setRecommender(next: Recommender | null): void {
+  recommender = next;
+}
+
+export { HeuristicRecommender };
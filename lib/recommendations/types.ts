@@ -0,0 +1,16 @@
+/**
+ * Recommendations Types - Tipos de las recomendaciones de productos
+ */
+
+/**
+ * Veces que cada par de productos se ha comprado en el mismo pedido:
+ * `index.get(a)?.get(b)` es el número de pedidos con `a` y `b`
+ */
+export type CoPurchaseIndex = Map<number, Map<number, number>>;
+
+export interface RelatedProductsOptions {
+  /** Máximo de productos devueltos (por defecto RELATED_PRODUCTS_LIMIT) */
+  limit?: number;
+  /** Pedidos en los que cada producto se compró junto al de referencia */
+  coPurchases?: Map<number, number>;
+}
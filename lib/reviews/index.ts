@@ -0,0 +1,14 @@
+/**
+ * Reviews - Reseñas de productos
+ *
+ * El almacenamiento, la verificación de compra y la moderación (solo
+ * servidor) viven en `@lib/reviews/server`.
+ */
+
+export * from "./types";
+export {
+  getProductRatings,
+  getRatingSummary,
+  paginateReviews,
+  sortReviews,
+} from "./rating";
@@ -0,0 +1,106 @@
+/**
+ * Review Ratings - Valoración media, orden y paginación de reseñas
+ *
+ * Funciones puras que comparten la API y los tests. Solo deben recibir
+ * reseñas aprobadas: el filtrado por estado es responsabilidad del llamante.
+ */
+
+import type {
+  AylaProductRatings,
+  AylaProductReview,
+  AylaRatingSummary,
+  AylaRatingValue,
+  AylaReviewSort,
+} from "@types";
+import { REVIEW_PAGE_SIZE, type ReviewListOptions } from "./types";
+
+const RATING_VALUES: AylaRatingValue[] = [1, 2, 3, 4, 5];
+
+/**
+ * Valoración agregada de un conjunto de reseñas
+ *
+ * @example
+ * ```ts
+ * getRatingSummary([{ rating: 5 }, { rating: 4 }]);
+ * // { average: 4.5, count: 2, distribution: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 } }
+ * ```
+ */
+export function getRatingSummary(
+  reviews: Pick<AylaProductReview, "rating">[]
+): AylaRatingSummary {
+  const distribution = Object.fromEntries(
+    RATING_VALUES.map((value) => [value, 0])
+  ) as Record<AylaRatingValue, number>;
+
+  let total = 0;
+  for (const { rating } of reviews) {
+    distribution[rating] += 1;
+    total += rating;
+  }
+
+  const count = reviews.length;
+  return {
+    average: count ? Math.round((total / count) * 10) / 10 : 0,
+    count,
+    distribution,
+  };
+}
+
+/**
+ * Valoración agregada por producto (los productos sin reseñas no aparecen)
+ */
+export function getProductRatings(
+  reviews: Pick<AylaProductReview, "productId" | "rating">[]
+): AylaProductRatings {
+  const byProduct = new Map<number, Pick<AylaProductReview, "rating">[]>();
+  for (const review of reviews) {
+    const list = byProduct.get(review.productId) ?? [];
+    list.push(review);
+    byProduct.set(review.productId, list);
+  }
+
+  return Object.fromEntries(
+    [...byProduct].map(([productId, list]) => [productId, getRatingSummary(list)])
+  );
+}
+
+const comparators: Record<
+  AylaReviewSort,
+  (a: AylaProductReview, b: AylaProductReview) => number
+> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  // A igual valoración, primero las más recientes
+  highest: (a, b) => b.rating - a.rating || b.createdAt.localeCompare(a.createdAt),
+  lowest: (a, b) => a.rating - b.rating || b.createdAt.localeCompare(a.createdAt),
+};
+
+/**
+ * Ordena las reseñas (sin modificar el array original)
+ */
+export function sortReviews<T extends AylaProductReview>(
+  reviews: T[],
+  sort: AylaReviewSort = "newest"
+): T[] {
+  return [...reviews].sort(comparators[sort]);
+}
+
+/**
+ * Ordena y pagina las reseñas
+ *
+ * Las páginas fuera de rango devuelven una lista vacía con el total real.
+ */
+export function paginateReviews<T extends AylaProductReview>(
+  reviews: T[],
+  { sort = "newest", page = 1, pageSize = REVIEW_PAGE_SIZE }: ReviewListOptions = {}
+): { items: T[]; page: number; pageSize: number; total: number; totalPages: number } {
+  const start = (page - 1) * pageSize;
+
+  return {
+    items: sortReviews(reviews, sort).slice(start, start + pageSize),
+    page,
+    pageSize,
+    total: reviews.length,
+    totalPages: Math.ceil(reviews.length / pageSize),
+  };
+}
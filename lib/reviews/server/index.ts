@@ -0,0 +1,22 @@
+/**
+ * Reviews (Server-side)
+ */
+
+export {
+  getReviewRepository,
+  setReviewRepository,
+  InMemoryReviewRepository,
+  FileReviewRepository,
+  type ReviewFilter,
+  type ReviewRepository,
+} from "./repository";
+export {
+  listModerationQueue,
+  listProductReviews,
+  loadProductRatings,
+  moderateReview,
+  submitReview,
+  toPublicReview,
+  type ReviewDeps,
+  type ReviewSubmitResult,
+} from "./reviews";
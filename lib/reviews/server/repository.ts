@@ -0,0 +1,167 @@
+/**
+ * Review Repository (Server-side)
+ *
+ * Almacenamiento de las reseñas con implementaciones intercambiables:
+ * - InMemoryReviewRepository: para tests y desarrollo sin disco
+ * - FileReviewRepository: un JSON por reseña en disco, para ejecuciones locales
+ *
+ * La implementación se elige con `REVIEW_REPOSITORY` ("memory" | "file") y
+ * el directorio del repositorio de archivos con `REVIEW_STORAGE_DIR`.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import type { AylaReviewStatus } from "@types";
+import type { StoredReview } from "../types";
+
+// =============================================================================
+// INTERFACE
+// =============================================================================
+
+/**
+ * Filtro de listado (los criterios se combinan)
+ */
+export interface ReviewFilter {
+  productId?: number;
+  status?: AylaReviewStatus;
+  authorId?: string;
+}
+
+export interface ReviewRepository {
+  /** Devuelve la reseña por su ID, o null si no existe */
+  get(id: string): Promise<StoredReview | null>;
+  /** Crea o reemplaza una reseña */
+  save(review: StoredReview): Promise<StoredReview>;
+  /** Reseñas que cumplen el filtro, de la más antigua a la más reciente */
+  list(filter?: ReviewFilter): Promise<StoredReview[]>;
+}
+
+function matches(review: StoredReview, { productId, status, authorId }: ReviewFilter) {
+  return (
+    (productId === undefined || review.productId === productId) &&
+    (status === undefined || review.status === status) &&
+    (authorId === undefined || review.authorId === authorId)
+  );
+}
+
+const oldestFirst = (a: StoredReview, b: StoredReview) =>
+  a.createdAt.localeCompare(b.createdAt);
+
+// =============================================================================
+// IN-MEMORY
+// =============================================================================
+
+class InMemoryReviewRepository implements ReviewRepository {
+  private reviews = new Map<string, StoredReview>();
+
+  async get(id: string): Promise<StoredReview | null> {
+    const review = this.reviews.get(id);
+    return review ? structuredClone(review) : null;
+  }
+
+  async save(review: StoredReview): Promise<StoredReview> {
+    this.reviews.set(review.id, structuredClone(review));
+    return review;
+  }
+
+  async list(filter: ReviewFilter = {}): Promise<StoredReview[]> {
+    return [...this.reviews.values()]
+      .filter((review) => matches(review, filter))
+      .sort(oldestFirst)
+      .map((review) => structuredClone(review));
+  }
+}
+
+// =============================================================================
+// FILE
+// =============================================================================
+
+class FileReviewRepository implements ReviewRepository {
+  constructor(private readonly dir: string) {}
+
+  async get(id: string): Promise<StoredReview | null> {
+    try {
+      const raw = await readFile(this.pathFor(id), "utf-8");
+      return JSON.parse(raw) as StoredReview;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async save(review: StoredReview): Promise<StoredReview> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(review.id), JSON.stringify(review), "utf-8");
+    return review;
+  }
+
+  async list(filter: ReviewFilter = {}): Promise<StoredReview[]> {
+    const reviews = await this.readAll();
+    return reviews.filter((review) => matches(review, filter)).sort(oldestFirst);
+  }
+
+  /**
+   * Lee todas las reseñas (suficiente para el volumen de un entorno local)
+   */
+  private async readAll(): Promise<StoredReview[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    return Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) =>
+          JSON.parse(await readFile(join(this.dir, file), "utf-8")) as StoredReview
+        )
+    );
+  }
+
+  /**
+   * Ruta del archivo de la reseña (hash del ID para evitar path traversal)
+   */
+  private pathFor(id: string): string {
+    const hash = createHash("sha256").update(id).digest("hex");
+    return join(this.dir, `${hash}.json`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+let repository: ReviewRepository | null = null;
+
+/**
+ * Obtiene el repositorio configurado (singleton)
+ */
+export function getReviewRepository(): ReviewRepository {
+  if (!repository) {
+    repository =
+      process.env.REVIEW_REPOSITORY === "file"
+        ? new FileReviewRepository(process.env.REVIEW_STORAGE_DIR || "./.data/reviews")
+        : new InMemoryReviewRepository();
+  }
+  return repository;
+}
+
+/**
+ * Sustituye el repositorio activo (tests o backends alternativos)
+ */
+export function setReviewRepository(next: ReviewRepository | null): void {
+  repository = next;
+}
+
+export { InMemoryReviewRepository, FileReviewRepository };
@@ -0,0 +1,194 @@
+/**
+ * Product Reviews (Server-side)
+ *
+ * Ciclo de vida de las reseñas:
+ * - submitReview: verifica la compra y guarda la reseña como "pending"
+ * - moderateReview: aprueba o rechaza una reseña de la cola de moderación
+ * - listProductReviews: reseñas aprobadas de un producto, ordenadas y paginadas
+ * - loadProductRatings: valoración media de cada producto
+ *
+ * La compra se verifica con los grants de descarga del usuario: existen
+ * desde que el pedido se paga y se revocan si se reembolsa.
+ */
+
+import { randomUUID } from "crypto";
+import type { AylaProductRatings, AylaProductReview, AylaRatingValue } from "@types";
+import { getCatalogRepository, type CatalogRepository } from "@lib/catalog/server";
+import { getDownloadRepository, type DownloadRepository } from "@lib/downloads/server";
+import type { ReviewModerationData, ReviewSubmitData } from "@lib/validation/review";
+import { getProductRatings, getRatingSummary, paginateReviews } from "../rating";
+import type {
+  ReviewListOptions,
+  ReviewPage,
+  ReviewSubmitRejection,
+  StoredReview,
+} from "../types";
+import { getReviewRepository, type ReviewRepository } from "./repository";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ReviewSubmitResult =
+  | { ok: true; review: StoredReview }
+  | { ok: false; reason: ReviewSubmitRejection };
+
+/** Dependencias inyectables (tests) */
+export interface ReviewDeps {
+  repository?: ReviewRepository;
+  downloads?: DownloadRepository;
+  catalog?: CatalogRepository;
+  now?: Date;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Datos públicos de una reseña (sin autor interno, pedido ni notas)
+ */
+export function toPublicReview(review: StoredReview): AylaProductReview {
+  return {
+    id: review.id,
+    productId: review.productId,
+    authorName: review.authorName,
+    rating: review.rating,
+    title: review.title,
+    text: review.text,
+    verifiedPurchase: review.verifiedPurchase,
+    status: review.status,
+    createdAt: review.createdAt,
+  };
+}
+
+/**
+ * Pedido pagado (y no reembolsado) en el que el usuario compró el producto
+ */
+async function findPurchase(
+  downloads: DownloadRepository,
+  authorId: string,
+  productId: number
+): Promise<string | null> {
+  const grants = await downloads.listByOwner(authorId);
+  const grant = grants.find(
+    (candidate) => candidate.productId === productId && !candidate.revoked
+  );
+  return grant?.orderReference ?? null;
+}
+
+// =============================================================================
+// SUBMISSION
+// =============================================================================
+
+/**
+ * Registra la reseña de un usuario, pendiente de moderación
+ *
+ * Solo se admite una reseña por usuario y producto, y solo de productos
+ * comprados en un pedido pagado.
+ */
+export async function submitReview(
+  authorId: string,
+  input: ReviewSubmitData,
+  {
+    repository = getReviewRepository(),
+    downloads = getDownloadRepository(),
+    catalog = getCatalogRepository(),
+    now = new Date(),
+  }: ReviewDeps = {}
+): Promise<ReviewSubmitResult> {
+  const products = await catalog.list();
+  if (!products.some((product) => product.id === input.productId)) {
+    return { ok: false, reason: "product_not_found" };
+  }
+
+  const orderReference = await findPurchase(downloads, authorId, input.productId);
+  if (!orderReference) return { ok: false, reason: "not_purchased" };
+
+  const existing = await repository.list({ productId: input.productId, authorId });
+  if (existing.some((review) => review.status !== "rejected")) {
+    return { ok: false, reason: "already_reviewed" };
+  }
+
+  const review = await repository.save({
+    id: randomUUID(),
+    productId: input.productId,
+    authorId,
+    authorName: input.authorName,
+    rating: input.rating as AylaRatingValue,
+    title: input.title,
+    text: input.text,
+    verifiedPurchase: true,
+    orderReference,
+    status: "pending",
+    createdAt: now.toISOString(),
+  });
+
+  return { ok: true, review };
+}
+
+// =============================================================================
+// MODERATION
+// =============================================================================
+
+/**
+ * Cola de moderación: reseñas pendientes, de la más antigua a la más reciente
+ */
+export async function listModerationQueue({
+  repository = getReviewRepository(),
+}: ReviewDeps = {}): Promise<StoredReview[]> {
+  return repository.list({ status: "pending" });
+}
+
+/**
+ * Aprueba o rechaza una reseña (también permite revisar una decisión previa)
+ *
+ * @returns La reseña actualizada, o null si no existe
+ */
+export async function moderateReview(
+  id: string,
+  { status, note }: ReviewModerationData,
+  { repository = getReviewRepository(), now = new Date() }: ReviewDeps = {}
+): Promise<StoredReview | null> {
+  const review = await repository.get(id);
+  if (!review) return null;
+
+  return repository.save({
+    ...review,
+    status,
+    moderatedAt: now.toISOString(),
+    ...(note ? { moderationNote: note } : {}),
+  });
+}
+
+// =============================================================================
+// LISTING
+// =============================================================================
+
+/**
+ * Reseñas aprobadas de un producto con su valoración agregada
+ */
+export async function listProductReviews(
+  productId: number,
+  options: ReviewListOptions = {},
+  { repository = getReviewRepository() }: ReviewDeps = {}
+): Promise<ReviewPage> {
+  const approved = await repository.list({ productId, status: "approved" });
+  const page = paginateReviews(approved, options);
+
+  return {
+    ...page,
+    items: page.items.map(toPublicReview),
+    sort: options.sort ?? "newest",
+    summary: getRatingSummary(approved),
+  };
+}
+
+/**
+ * Valoración agregada de todos los productos con reseñas aprobadas
+ */
+export async function loadProductRatings({
+  repository = getReviewRepository(),
+}: ReviewDeps = {}): Promise<AylaProductRatings> {
+  return getProductRatings(await repository.list({ status: "approved" }));
+}
@@ -0,0 +1,61 @@
+/**
+ * Review Types - Reseñas de productos
+ *
+ * Las reseñas se escriben tras una compra verificada y entran en la cola de
+ * moderación como "pending"; solo las aprobadas se publican y cuentan para
+ * la valoración media del producto.
+ */
+
+import type { AylaProductReview, AylaRatingSummary, AylaReviewSort } from "@types";
+
+/** Reseñas por página por defecto */
+export const REVIEW_PAGE_SIZE = 10;
+
+/** Tamaño máximo de página aceptado por la API */
+export const REVIEW_MAX_PAGE_SIZE = 50;
+
+/**
+ * Reseña tal como se guarda en el servidor
+ */
+export interface StoredReview extends AylaProductReview {
+  /** Cuenta que escribió la reseña (nunca se publica) */
+  authorId: string;
+  /** Pedido que verifica la compra (null en reseñas sin compra) */
+  orderReference: string | null;
+  /** Timestamp ISO de la última decisión de moderación */
+  moderatedAt?: string;
+  /** Motivo de la decisión, visible solo para moderación */
+  moderationNote?: string;
+}
+
+/**
+ * Opciones de listado de reseñas
+ */
+export interface ReviewListOptions {
+  sort?: AylaReviewSort;
+  /** Página empezando en 1 */
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Página de reseñas de un producto (GET /api/reviews)
+ */
+export interface ReviewPage {
+  items: AylaProductReview[];
+  page: number;
+  pageSize: number;
+  /** Reseñas aprobadas del producto */
+  total: number;
+  totalPages: number;
+  sort: AylaReviewSort;
+  summary: AylaRatingSummary;
+}
+
+/**
+ * Motivos por los que se rechaza el envío de una reseña
+ * - product_not_found: el producto no existe en el catálogo
+ * - not_purchased: el usuario no tiene una compra pagada del producto
+ * - already_reviewed: el usuario ya reseñó el producto
+ */
+export type ReviewSubmitRejection = "product_not_found" | "not_purchased" | "already_reviewed";
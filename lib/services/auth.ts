@@ -17,6 +17,19 @@
  *
  * // Logout
  * await authService.logout();
+ *
+ * // Restablecer contraseña
+ * await authService.requestPasswordReset("email@example.com");
+ * await authService.confirmPasswordReset(token, "NuevaPassword123");
+ *
+ * // Verificar el email
+ * await authService.verifyEmail(token);
+ *
+ * // Segundo paso del login (verificación en dos pasos)
+ * const { data } = await authService.login(email, password);
+ * if (isMfaChallenge(data)) {
+ *   await authService.verifyMfa({ mfa_token: data.mfa_token, code: "123456" });
+ * }
  * ```
  */
 
@@ -36,6 +49,8 @@ export interface AuthUser {
   profile_image: string | null;
   role: string | null;
   is_active: boolean;
+  /** Verificación en dos pasos (TOTP) activada */
+  mfa_enabled?: boolean;
   created_at: string;
 }
 
@@ -53,6 +68,58 @@ export interface LoginResponse {
   tokens: TokenResponse;
 }
 
+/** Segundo factor con el que se puede completar el login */
+export type MfaMethod = "totp" | "recovery_code";
+
+/**
+ * Respuesta de login/callback de Google cuando la cuenta tiene la
+ * verificación en dos pasos: aún no hay cookies de sesión
+ */
+export interface MfaChallengeResponse {
+  mfa_required: true;
+  /** Token de corta duración que identifica el login pendiente */
+  mfa_token: string;
+  methods: MfaMethod[];
+}
+
+/** Respuesta de login: sesión iniciada o segundo paso pendiente */
+export type LoginResult = LoginResponse | MfaChallengeResponse;
+
+/** Request del segundo paso: código TOTP o código de recuperación */
+export interface MfaVerifyRequest {
+  mfa_token: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+/** Estado de la verificación en dos pasos de la cuenta */
+export interface MfaStatusResponse {
+  enabled: boolean;
+  /** El rol de la cuenta la exige (admin y super_admin) */
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+/** Alta de TOTP: secreto pendiente de confirmar con un código */
+export interface TotpSetupResponse {
+  /** Secreto en base32, para introducirlo a mano */
+  secret: string;
+  /** URI otpauth://totp/... que codifica el QR */
+  provisioning_uri: string;
+  /** QR de la URI como data URI (image/png o image/svg+xml) */
+  qr_code: string;
+}
+
+/** Request para confirmar el alta (o desactivar) con un código TOTP */
+export interface TotpCodeRequest {
+  code: string;
+}
+
+/** Códigos de recuperación (solo se muestran una vez) */
+export interface RecoveryCodesResponse {
+  recovery_codes: string[];
+}
+
 /** Respuesta de /auth/me */
 export interface MeResponse {
   user: AuthUser;
@@ -79,6 +146,47 @@ export interface RegisterRequest {
   last_name?: string;
 }
 
+/** Request para pedir el enlace de restablecimiento de contraseña */
+export interface PasswordResetRequest {
+  email: string;
+}
+
+/** Respuesta de la petición de restablecimiento (igual exista o no la cuenta) */
+export interface PasswordResetResponse {
+  message: string;
+}
+
+/** Request para fijar la nueva contraseña con el token del enlace */
+export interface PasswordResetConfirmRequest {
+  token: string;
+  password: string;
+}
+
+/** Respuesta del cambio de contraseña (no inicia sesión) */
+export interface PasswordResetConfirmResponse {
+  message: string;
+}
+
+/** Request para verificar el email con el token del enlace */
+export interface EmailVerificationRequest {
+  token: string;
+}
+
+/** Respuesta de la verificación, con el usuario ya verificado */
+export interface EmailVerificationResponse {
+  user: AuthUser;
+}
+
+/** Request para reenviar el email de verificación */
+export interface ResendVerificationRequest {
+  email: string;
+}
+
+/** Respuesta del reenvío (igual exista o no la cuenta) */
+export interface ResendVerificationResponse {
+  message: string;
+}
+
 /** Request de refresh */
 export interface RefreshTokenRequest {
   refresh_token: string;
@@ -94,10 +202,12 @@ class AuthService {
   /**
    * Login con email y password
    *
-   * El backend setea cookies httpOnly con los tokens.
+   * El backend setea cookies httpOnly con los tokens, salvo que la cuenta
+   * tenga la verificación en dos pasos: entonces devuelve el reto
+   * (`isMfaChallenge`) y la sesión se inicia con `verifyMfa`.
    */
-  async login(email: string, password: string): Promise<ApiResponse<LoginResponse>> {
-    return apiClient.post<LoginResponse>(`${this.basePath}/login`, {
+  async login(email: string, password: string): Promise<ApiResponse<LoginResult>> {
+    return apiClient.post<LoginResult>(`${this.basePath}/login`, {
       email,
       password,
     });
@@ -139,6 +249,54 @@ class AuthService {
     return apiClient.post<{ message: string }>(`${this.basePath}/logout`);
   }
 
+  /**
+   * Pedir el enlace de restablecimiento de contraseña
+   *
+   * El backend responde igual exista o no la cuenta (no revela emails).
+   */
+  async requestPasswordReset(email: string): Promise<ApiResponse<PasswordResetResponse>> {
+    const body: PasswordResetRequest = { email };
+    return apiClient.post<PasswordResetResponse>(`${this.basePath}/password/forgot`, body);
+  }
+
+  /**
+   * Fijar una nueva contraseña con el token recibido por email
+   *
+   * Errores del enlace: RESET_TOKEN_INVALID, RESET_TOKEN_EXPIRED y
+   * RESET_TOKEN_USED (ver `getEmailLinkProblem`).
+   */
+  async confirmPasswordReset(
+    token: string,
+    password: string
+  ): Promise<ApiResponse<PasswordResetConfirmResponse>> {
+    const body: PasswordResetConfirmRequest = { token, password };
+    return apiClient.post<PasswordResetConfirmResponse>(`${this.basePath}/password/reset`, body);
+  }
+
+  /**
+   * Verificar el email con el token recibido tras el registro
+   *
+   * Errores del enlace: VERIFICATION_TOKEN_INVALID, VERIFICATION_TOKEN_EXPIRED,
+   * VERIFICATION_TOKEN_USED y EMAIL_ALREADY_VERIFIED.
+   */
+  async verifyEmail(token: string): Promise<ApiResponse<EmailVerificationResponse>> {
+    const body: EmailVerificationRequest = { token };
+    return apiClient.post<EmailVerificationResponse>(`${this.basePath}/email/verify`, body);
+  }
+
+  /**
+   * Reenviar el email de verificación (p.ej. cuando el enlace ha caducado)
+   *
+   * El backend responde igual exista o no la cuenta (no revela emails).
+   */
+  async resendVerification(email: string): Promise<ApiResponse<ResendVerificationResponse>> {
+    const body: ResendVerificationRequest = { email };
+    return apiClient.post<ResendVerificationResponse>(
+      `${this.basePath}/email/verify/resend`,
+      body
+    );
+  }
+
   /**
    * Obtener URL de autorización de Google OAuth
    *
@@ -151,21 +309,87 @@ class AuthService {
   /**
    * Manejar callback de Google OAuth
    *
-   * Intercambia el code por tokens (setea cookies).
+   * Intercambia el code por tokens (setea cookies), o devuelve el reto de
+   * la verificación en dos pasos igual que `login`.
    */
   async handleGoogleCallback(
     code: string,
     state?: string
-  ): Promise<ApiResponse<LoginResponse>> {
+  ): Promise<ApiResponse<LoginResult>> {
     const params: Record<string, string> = { code };
     if (state) {
       params.state = state;
     }
 
-    return apiClient.get<LoginResponse>(`${this.basePath}/google/callback`, {
+    return apiClient.get<LoginResult>(`${this.basePath}/google/callback`, {
       params,
     });
   }
+
+  /**
+   * Completar el login con el segundo paso
+   *
+   * El backend setea las cookies con un token que incluye `amr: ["otp"]`.
+   * Errores: MFA_CODE_INVALID y MFA_CHALLENGE_EXPIRED (hay que volver a
+   * introducir la contraseña).
+   */
+  async verifyMfa(body: MfaVerifyRequest): Promise<ApiResponse<LoginResponse>> {
+    return apiClient.post<LoginResponse>(`${this.basePath}/mfa/verify`, body);
+  }
+
+  /**
+   * Estado de la verificación en dos pasos de la cuenta
+   */
+  async getMfaStatus(): Promise<ApiResponse<MfaStatusResponse>> {
+    return apiClient.get<MfaStatusResponse>(`${this.basePath}/mfa`);
+  }
+
+  /**
+   * Empezar el alta de TOTP: genera un secreto nuevo (sustituye a uno
+   * pendiente) que no se activa hasta `enableTotp`
+   */
+  async setupTotp(): Promise<ApiResponse<TotpSetupResponse>> {
+    return apiClient.post<TotpSetupResponse>(`${this.basePath}/mfa/totp/setup`, {});
+  }
+
+  /**
+   * Activar TOTP con el primer código del autenticador
+   *
+   * Devuelve los códigos de recuperación y renueva las cookies de sesión
+   * (el token nuevo ya cuenta como verificado en dos pasos).
+   */
+  async enableTotp(code: string): Promise<ApiResponse<RecoveryCodesResponse>> {
+    const body: TotpCodeRequest = { code };
+    return apiClient.post<RecoveryCodesResponse>(`${this.basePath}/mfa/totp/enable`, body);
+  }
+
+  /**
+   * Desactivar TOTP (pide un código actual)
+   *
+   * El backend lo rechaza con MFA_REQUIRED para los roles que la exigen.
+   */
+  async disableTotp(code: string): Promise<ApiResponse<{ message: string }>> {
+    const body: TotpCodeRequest = { code };
+    return apiClient.post<{ message: string }>(`${this.basePath}/mfa/totp/disable`, body);
+  }
+
+  /**
+   * Generar códigos de recuperación nuevos (invalida los anteriores)
+   */
+  async regenerateRecoveryCodes(code: string): Promise<ApiResponse<RecoveryCodesResponse>> {
+    const body: TotpCodeRequest = { code };
+    return apiClient.post<RecoveryCodesResponse>(
+      `${this.basePath}/mfa/recovery-codes`,
+      body
+    );
+  }
+}
+
+/**
+ * Comprueba si la respuesta de login pide el segundo paso
+ */
+export function isMfaChallenge(result: LoginResult): result is MfaChallengeResponse {
+  return "mfa_required" in result && result.mfa_required === true;
 }
 
 /** Singleton del servicio de autenticación */
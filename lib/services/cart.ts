@@ -0,0 +1,88 @@
+/**
+ * Cart Service - Servicio del carrito guardado
+ *
+ * Llama a las API routes locales de Next (`/api/cart`), no al backend,
+ * por eso usa fetch (`requestLocalApi`) en lugar de apiClient.
+ *
+ * @example
+ * ```ts
+ * import { cartService } from "@lib/services/cart";
+ *
+ * // Fusionar el carrito anónimo al iniciar sesión
+ * const { items, summary } = await cartService.merge(anonymousLines);
+ * ```
+ */
+
+import type { CartLine, CartMergeSummary, StoredCart } from "@lib/cart";
+import { requestLocalApi, type LocalApiFailure } from "./local-api";
+
+// ============================================
+// Types
+// ============================================
+
+/** Respuesta de GET /api/cart */
+export interface CartResponse {
+  items: CartLine[];
+  updatedAt: string | null;
+}
+
+/** Respuesta de PATCH /api/cart */
+export interface CartMergeResponse extends StoredCart {
+  summary: CartMergeSummary;
+}
+
+// ============================================
+// Cart Service
+// ============================================
+
+class CartService {
+  private readonly basePath = "/api/cart";
+
+  /**
+   * Obtener el carrito guardado del usuario
+   */
+  async get(): Promise<CartResponse> {
+    return requestLocalApi<CartResponse>(this.basePath, { toError: toCartError });
+  }
+
+  /**
+   * Reemplazar el carrito guardado
+   */
+  async replace(items: CartLine[]): Promise<StoredCart> {
+    return requestLocalApi<StoredCart>(this.basePath, {
+      method: "PUT",
+      body: { items },
+      toError: toCartError,
+    });
+  }
+
+  /**
+   * Fusionar líneas con el carrito guardado
+   *
+   * Suma cantidades, limita por línea y descarta productos no disponibles.
+   */
+  async merge(items: CartLine[]): Promise<CartMergeResponse> {
+    return requestLocalApi<CartMergeResponse>(this.basePath, {
+      method: "PATCH",
+      body: { items },
+      toError: toCartError,
+    });
+  }
+
+  /**
+   * Vaciar el carrito guardado
+   */
+  async clear(): Promise<void> {
+    await requestLocalApi<void>(this.basePath, { method: "DELETE", toError: toCartError });
+  }
+}
+
+function toCartError({ method, status }: LocalApiFailure): Error {
+  return new Error(`Cart request failed: ${method} ${status}`);
+}
+
+/** Singleton del servicio del carrito */
+export const cartService = new CartService();
+
+/** Exportar clase para testing */
+export { CartService };
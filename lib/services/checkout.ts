@@ -0,0 +1,70 @@
+/**
+ * Checkout Service - Servicio de finalización de compra
+ *
+ * Llama a la API route local `/api/checkout`.
+ *
+ * @example
+ * ```ts
+ * import { checkoutService } from "@lib/services/checkout";
+ *
+ * const { reference, redirectUrl } = await checkoutService.placeOrder({
+ *   customer,
+ *   billing,
+ *   items: [{ productId: 1, quantity: 1 }],
+ * });
+ * ```
+ */
+
+import { CheckoutError, ErrorCode, PromotionError } from "@/errors";
+import type { CheckoutRequest, CheckoutResponse } from "@lib/checkout";
+import { errorReason, requestLocalApi, type LocalApiFailure } from "./local-api";
+
+// ============================================
+// Checkout Service
+// ============================================
+
+class CheckoutService {
+  private readonly basePath = "/api/checkout";
+
+  /**
+   * Valora el carrito en el servidor y procesa el pago
+   *
+   * @throws CheckoutError si el pedido no se puede completar
+   * @throws PromotionError si un código promocional ya no es aplicable
+   */
+  async placeOrder(request: CheckoutRequest): Promise<CheckoutResponse> {
+    return requestLocalApi<CheckoutResponse>(this.basePath, {
+      method: "POST",
+      body: request,
+      toError: toCheckoutError,
+    });
+  }
+}
+
+function toCheckoutError({ status, data }: LocalApiFailure): Error {
+  const message = errorReason(data, "Checkout failed");
+
+  switch (status) {
+    case 402:
+      return new CheckoutError(message, ErrorCode.PAYMENT_DECLINED);
+    case 409:
+      return new CheckoutError(
+        message,
+        ErrorCode.PRODUCT_UNAVAILABLE,
+        (data.unavailable as number[] | undefined) ?? []
+      );
+    case 422:
+      return new PromotionError(
+        message,
+        typeof data.reason === "string" ? data.reason : "unknown"
+      );
+    default:
+      return new CheckoutError(message, ErrorCode.CHECKOUT_FAILED);
+  }
+}
+
+/** Singleton del servicio de checkout */
+export const checkoutService = new CheckoutService();
+
+/** Exportar clase para testing */
+export { CheckoutService };
@@ -0,0 +1,82 @@
+/**
+ * Download Service - Servicio del centro de descargas
+ *
+ * Llama a las API routes locales de Next (`/api/downloads`), que firman los
+ * enlaces con un secreto de servidor, por eso usa fetch en lugar de apiClient.
+ *
+ * @example
+ * ```ts
+ * import { downloadService } from "@lib/services/download";
+ *
+ * const { items } = await downloadService.list();
+ * const { link } = await downloadService.regenerate(items[0].token);
+ * window.location.href = link.url;
+ * ```
+ */
+
+import { DownloadError } from "@/errors";
+import type { DownloadItem, DownloadLink } from "@lib/downloads";
+import { errorReason, requestLocalApi, type LocalApiFailure } from "./local-api";
+
+// ============================================
+// Types
+// ============================================
+
+/** Respuesta de GET /api/downloads */
+export interface DownloadListResponse {
+  items: DownloadItem[];
+}
+
+/** Respuesta de POST /api/downloads/[token] */
+export interface DownloadLinkResponse {
+  link: DownloadLink;
+}
+
+// ============================================
+// Download Service
+// ============================================
+
+class DownloadService {
+  private readonly basePath = "/api/downloads";
+
+  /**
+   * Obtener las descargas del usuario con enlaces vigentes
+   */
+  async list(): Promise<DownloadListResponse> {
+    return requestLocalApi<DownloadListResponse>(this.basePath, { toError: toDownloadError });
+  }
+
+  /**
+   * Obtener las descargas de un pedido con la clave de su página de confirmación
+   *
+   * @throws DownloadError con el motivo order_not_found si la clave no coincide
+   */
+  async listForOrder(reference: string, accessKey: string): Promise<DownloadListResponse> {
+    const query = new URLSearchParams({ ref: reference, key: accessKey });
+    return requestLocalApi<DownloadListResponse>(`${this.basePath}?${query}`, {
+      toError: toDownloadError,
+    });
+  }
+
+  /**
+   * Regenerar el enlace de un artículo para la última versión publicada
+   *
+   * @throws DownloadError con el motivo (limit_reached, revoked...) si no es posible
+   */
+  async regenerate(token: string): Promise<DownloadLinkResponse> {
+    return requestLocalApi<DownloadLinkResponse>(
+      `${this.basePath}/${encodeURIComponent(token)}`,
+      { method: "POST", toError: toDownloadError }
+    );
+  }
+}
+
+function toDownloadError({ method, status, data }: LocalApiFailure): DownloadError {
+  return new DownloadError(`Download request failed: ${method} ${status}`, errorReason(data));
+}
+
+/** Singleton del servicio de descargas */
+export const downloadService = new DownloadService();
+
+/** Exportar clase para testing */
+export { DownloadService };
@@ -0,0 +1,88 @@
+/**
+ * Favorites Service - Servicio de los favoritos guardados
+ *
+ * Llama a las API routes locales de Next (`/api/favorites`), no al backend,
+ * por eso usa fetch (`requestLocalApi`) en lugar de apiClient.
+ *
+ * @example
+ * ```ts
+ * import { favoritesService } from "@lib/services/favorites";
+ *
+ * // Unir los favoritos anónimos al iniciar sesión
+ * const { productIds, summary } = await favoritesService.merge(anonymousIds);
+ * ```
+ */
+
+import type { FavoritesMergeSummary, StoredFavorites } from "@lib/favorites";
+import { requestLocalApi, type LocalApiFailure } from "./local-api";
+
+// ============================================
+// Types
+// ============================================
+
+/** Respuesta de GET /api/favorites */
+export interface FavoritesResponse {
+  productIds: number[];
+  updatedAt: string | null;
+}
+
+/** Respuesta de PATCH /api/favorites */
+export interface FavoritesMergeResponse extends StoredFavorites {
+  summary: FavoritesMergeSummary;
+}
+
+// ============================================
+// Favorites Service
+// ============================================
+
+class FavoritesService {
+  private readonly basePath = "/api/favorites";
+
+  /**
+   * Obtener los favoritos guardados del usuario
+   */
+  async get(): Promise<FavoritesResponse> {
+    return requestLocalApi<FavoritesResponse>(this.basePath, { toError: toFavoritesError });
+  }
+
+  /**
+   * Reemplazar los favoritos guardados
+   */
+  async replace(productIds: number[]): Promise<StoredFavorites> {
+    return requestLocalApi<StoredFavorites>(this.basePath, {
+      method: "PUT",
+      body: { productIds },
+      toError: toFavoritesError,
+    });
+  }
+
+  /**
+   * Unir productos a los favoritos guardados
+   *
+   * Descarta duplicados y productos que ya no están en el catálogo.
+   */
+  async merge(productIds: number[]): Promise<FavoritesMergeResponse> {
+    return requestLocalApi<FavoritesMergeResponse>(this.basePath, {
+      method: "PATCH",
+      body: { productIds },
+      toError: toFavoritesError,
+    });
+  }
+
+  /**
+   * Vaciar los favoritos guardados
+   */
+  async clear(): Promise<void> {
+    await requestLocalApi<void>(this.basePath, { method: "DELETE", toError: toFavoritesError });
+  }
+}
+
+function toFavoritesError({ method, status }: LocalApiFailure): Error {
+  return new Error(`Favorites request failed: ${method} ${status}`);
+}
+
+/** Singleton del servicio de favoritos */
+export const favoritesService = new FavoritesService();
+
+/** Exportar clase para testing */
+export { FavoritesService };
@@ -5,3 +5,11 @@
  */
 
 export * from "./auth";
+export * from "./cart";
+export * from "./checkout";
+export * from "./download";
+export * from "./favorites";
+export * from "./order";
+export * from "./promotion";
+export * from "./recommendation";
+export * from "./review";
@@ -0,0 +1,79 @@
+/**
+ * Local API - Petición compartida a las API routes locales de Next
+ *
+ * Los servicios que llaman a `/api/...` usan fetch en lugar de apiClient:
+ * son rutas de esta misma app (misma cookie de sesión), no del backend.
+ * Cada servicio traduce las respuestas de error a su propio error con
+ * `toError`.
+ *
+ * @example
+ * ```ts
+ * const page = await requestLocalApi<ReviewPage>("/api/reviews?productId=1", {
+ *   toError: ({ method, status, data }) =>
+ *     new ReviewError(`Review request failed: ${method} ${status}`, errorReason(data)),
+ * });
+ * ```
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/** Respuesta de error de una API route local */
+export interface LocalApiFailure {
+  method: string;
+  status: number;
+  /** Cuerpo JSON de la respuesta (vacío si no lo trae) */
+  data: Record<string, unknown>;
+}
+
+export interface LocalApiRequestOptions {
+  /** Método HTTP (GET por defecto) */
+  method?: string;
+  /** Cuerpo de la petición, que se envía como JSON */
+  body?: unknown;
+  /** Construye el error del servicio para una respuesta no satisfactoria */
+  toError: (failure: LocalApiFailure) => Error;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Motivo de error que envían las API routes (`{ success: false, error }`)
+ */
+export function errorReason(data: Record<string, unknown>, fallback = "unknown"): string {
+  return typeof data.error === "string" ? data.error : fallback;
+}
+
+/**
+ * Llama a una API route local con la cookie de sesión
+ *
+ * @returns El cuerpo JSON de la respuesta (undefined en un 204)
+ * @throws El error que devuelva `toError` si la respuesta no es 2xx
+ */
+export async function requestLocalApi<T>(
+  path: string,
+  { method = "GET", body, toError }: LocalApiRequestOptions
+): Promise<T> {
+  const response = await fetch(path, {
+    method,
+    credentials: "same-origin",
+    ...(body !== undefined
+      ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+      : {}),
+  });
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const data: Record<string, unknown> = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw toError({ method, status: response.status, data });
+  }
+
+  return data as T;
+}
@@ -0,0 +1,85 @@
+/**
+ * Order Service - Servicio de pedidos del cliente
+ *
+ * Historial de pedidos de la cuenta autenticada. Llama a las API routes
+ * locales de Next (`/api/orders`), que leen el mismo repositorio en el que
+ * escribe el checkout, por eso usa fetch en lugar de apiClient.
+ * Los importes llegan en céntimos, como en el checkout.
+ *
+ * @example
+ * ```ts
+ * import { orderService } from "@lib/services/order";
+ *
+ * const { items } = await orderService.list({ page: 1 });
+ * const order = await orderService.get(items[0].reference);
+ * ```
+ */
+
+import { OrderError } from "@/errors";
+import type { CustomerOrderPage } from "@lib/orders";
+import type { AylaOrder, AylaOrderStatus } from "@types";
+import { errorReason, requestLocalApi, type LocalApiFailure } from "./local-api";
+
+// ============================================
+// Types
+// ============================================
+
+/** Filtros del listado de pedidos */
+export interface OrderListParams {
+  /** Página (1-based) */
+  page?: number;
+  /** Pedidos por página */
+  page_size?: number;
+  status?: AylaOrderStatus;
+}
+
+/** Respuesta de GET /api/orders */
+export type OrderListResponse = CustomerOrderPage;
+
+// ============================================
+// Order Service
+// ============================================
+
+class OrderService {
+  private readonly basePath = "/api/orders";
+
+  /**
+   * Listar los pedidos del cliente, del más reciente al más antiguo
+   */
+  async list(params: OrderListParams = {}): Promise<OrderListResponse> {
+    const query = new URLSearchParams();
+    if (params.page) query.set("page", String(params.page));
+    if (params.page_size) query.set("page_size", String(params.page_size));
+    if (params.status) query.set("status", params.status);
+
+    const search = query.toString();
+    return requestLocalApi<OrderListResponse>(
+      search ? `${this.basePath}?${search}` : this.basePath,
+      { toError: toOrderError }
+    );
+  }
+
+  /**
+   * Obtener el detalle de un pedido del cliente por su referencia
+   *
+   * @throws OrderError con el motivo order_not_found si el pedido no existe
+   *         o es de otra cuenta
+   */
+  async get(reference: string): Promise<AylaOrder> {
+    return requestLocalApi<AylaOrder>(`${this.basePath}/${encodeURIComponent(reference)}`, {
+      toError: toOrderError,
+    });
+  }
+}
+
+function toOrderError({ method, status, data }: LocalApiFailure): OrderError {
+  const reason =
+    status === 401 ? "unauthenticated" : status === 404 ? errorReason(data) : "unknown";
+  return new OrderError(`Order request failed: ${method} ${status}`, reason);
+}
+
+/** Singleton del servicio de pedidos */
+export const orderService = new OrderService();
+
+/** Exportar clase para testing */
+export { OrderService };
@@ -0,0 +1,58 @@
+/**
+ * Promotion Service - Validación de códigos promocionales
+ *
+ * Llama a la API route local `/api/promotions`, que valora el carrito con
+ * los precios del catálogo y conoce los canjes registrados.
+ *
+ * @example
+ * ```ts
+ * import { promotionService } from "@lib/services/promotion";
+ *
+ * const { promotion, discount } = await promotionService.validate(
+ *   "BIENVENIDA10",
+ *   [{ productId: 1, quantity: 1 }]
+ * );
+ * ```
+ */
+
+import { PromotionError } from "@/errors";
+import type { CartLine } from "@lib/cart";
+import type { PromotionValidationResponse } from "@lib/checkout";
+import { errorReason, requestLocalApi } from "./local-api";
+
+// ============================================
+// Promotion Service
+// ============================================
+
+class PromotionService {
+  private readonly basePath = "/api/promotions";
+
+  /**
+   * Comprobar si un código se puede aplicar al carrito
+   *
+   * @param appliedCodes - Códigos ya aplicados, que se valoran antes
+   * @throws PromotionError con el motivo (expired, min_purchase_not_met...) si no es aplicable
+   */
+  async validate(
+    code: string,
+    items: CartLine[],
+    appliedCodes: string[] = []
+  ): Promise<PromotionValidationResponse> {
+    return requestLocalApi<PromotionValidationResponse>(this.basePath, {
+      method: "POST",
+      body: { code, items, appliedCodes },
+      // 400: el código no tiene un formato válido
+      toError: ({ status, data }) =>
+        new PromotionError(
+          `Promotion rejected: ${status}`,
+          status === 400 ? "not_found" : errorReason(data)
+        ),
+    });
+  }
+}
+
+/** Singleton del servicio de promociones */
+export const promotionService = new PromotionService();
+
+/** Exportar clase para testing */
+export { PromotionService };
@@ -0,0 +1,63 @@
+/**
+ * Recommendation Service - Productos relacionados
+ *
+ * Llama a la API route local `/api/recommendations`, que usa el
+ * recomendador configurado en el servidor.
+ *
+ * @example
+ * ```ts
+ * import { recommendationService } from "@lib/services/recommendation";
+ *
+ * const { items } = await recommendationService.related(3, { locale: "en" });
+ * ```
+ */
+
+import type { AylaProduct } from "@types";
+import { requestLocalApi } from "./local-api";
+
+// ============================================
+// Types
+// ============================================
+
+export interface RelatedProductsRequest {
+  /** Máximo de productos (por defecto el del servidor) */
+  limit?: number;
+  /** Idioma del contenido de los productos */
+  locale?: string;
+}
+
+/** Respuesta de GET /api/recommendations */
+export interface RelatedProductsResponse {
+  productId: number;
+  items: AylaProduct[];
+}
+
+// ============================================
+// Recommendation Service
+// ============================================
+
+class RecommendationService {
+  private readonly basePath = "/api/recommendations";
+
+  /**
+   * Obtener los productos relacionados con un producto
+   */
+  async related(
+    productId: number,
+    options: RelatedProductsRequest = {}
+  ): Promise<RelatedProductsResponse> {
+    const params = new URLSearchParams({ productId: String(productId) });
+    if (options.limit) params.set("limit", String(options.limit));
+    if (options.locale) params.set("locale", options.locale);
+
+    return requestLocalApi<RelatedProductsResponse>(`${this.basePath}?${params}`, {
+      toError: ({ status }) => new Error(`Recommendation request failed: ${status}`),
+    });
+  }
+}
+
+/** Singleton del servicio de recomendaciones */
+export const recommendationService = new RecommendationService();
+
+/** Exportar clase para testing */
+export { RecommendationService };
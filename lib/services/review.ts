@@ -0,0 +1,79 @@
+/**
+ * Review Service - Reseñas de productos
+ *
+ * Llama a la API route local `/api/reviews`, que verifica la compra con los
+ * pedidos registrados en el servidor y gestiona la cola de moderación.
+ *
+ * @example
+ * ```ts
+ * import { reviewService } from "@lib/services/review";
+ *
+ * const page = await reviewService.list(1, { sort: "highest", page: 2 });
+ * await reviewService.submit({ productId: 1, authorName: "Lucía", rating: 5, title, text });
+ * ```
+ */
+
+import { ReviewError } from "@/errors";
+import type { ReviewListOptions, ReviewPage } from "@lib/reviews";
+import type { ReviewSubmitData } from "@lib/validation/review";
+import type { AylaProductReview } from "@types";
+import { errorReason, requestLocalApi, type LocalApiFailure } from "./local-api";
+
+// ============================================
+// Types
+// ============================================
+
+/** Respuesta de POST /api/reviews */
+export interface ReviewSubmitResponse {
+  /** Reseña registrada, pendiente de moderación */
+  review: AylaProductReview;
+}
+
+// ============================================
+// Review Service
+// ============================================
+
+class ReviewService {
+  private readonly basePath = "/api/reviews";
+
+  /**
+   * Obtener una página de reseñas aprobadas de un producto
+   */
+  async list(productId: number, options: ReviewListOptions = {}): Promise<ReviewPage> {
+    const params = new URLSearchParams({ productId: String(productId) });
+    if (options.sort) params.set("sort", options.sort);
+    if (options.page) params.set("page", String(options.page));
+    if (options.pageSize) params.set("pageSize", String(options.pageSize));
+
+    return requestLocalApi<ReviewPage>(`${this.basePath}?${params}`, {
+      toError: toReviewError,
+    });
+  }
+
+  /**
+   * Enviar una reseña (queda pendiente de moderación)
+   *
+   * @throws ReviewError con el motivo (unauthenticated, not_purchased,
+   *         already_reviewed...) si no se puede registrar
+   */
+  async submit(input: ReviewSubmitData): Promise<ReviewSubmitResponse> {
+    return requestLocalApi<ReviewSubmitResponse>(this.basePath, {
+      method: "POST",
+      body: input,
+      toError: toReviewError,
+    });
+  }
+}
+
+function toReviewError({ method, status, data }: LocalApiFailure): ReviewError {
+  // 400 trae el mensaje de validación; 401 no trae motivo
+  const reason =
+    status === 401 ? "unauthenticated" : status === 400 ? "invalid" : errorReason(data);
+  return new ReviewError(`Review request failed: ${method} ${status}`, reason);
+}
+
+/** Singleton del servicio de reseñas */
+export const reviewService = new ReviewService();
+
+/** Exportar clase para testing */
+export { ReviewService };
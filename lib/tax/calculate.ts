@@ -0,0 +1,159 @@
+/**
+ * Tax Calculation - IVA de las líneas de un pedido
+ *
+ * Los precios del catálogo incluyen el IVA y son los mismos en toda la UE:
+ * el impuesto se desglosa del importe con el tipo del país del comprador.
+ * Con inversión del sujeto pasivo el comprador liquida el IVA, así que se
+ * cobra el importe sin él.
+ */
+
+import type { AylaTaxTreatment } from "@types";
+import { allocateMoney, money } from "@lib/money";
+import { STORE_COUNTRY, STORE_TAX_RATE, getVatRate, isEuCountry } from "./rates";
+import { isValidVatIdFormat } from "./vat-id";
+
+/**
+ * Datos del comprador que determinan el IVA
+ */
+export interface TaxContext {
+  /** País de facturación (ISO 3166-1 alpha-2) */
+  country: string;
+  /** Número de IVA de la empresa compradora */
+  vatId?: string | null;
+}
+
+/**
+ * Tratamiento fiscal de una venta
+ */
+export interface TaxRule {
+  country: string;
+  treatment: AylaTaxTreatment;
+  /** Tipo de IVA del país incluido en los precios (0 fuera de la UE) */
+  rate: number;
+}
+
+/**
+ * IVA de una línea, en céntimos
+ */
+export interface LineTax {
+  /** Tipo aplicado (0 con inversión del sujeto pasivo o fuera de la UE) */
+  rate: number;
+  /** Parte del descuento del pedido asignada a la línea */
+  discount: number;
+  /** Base imponible */
+  net: number;
+  tax: number;
+  /** Importe cobrado por la línea */
+  total: number;
+}
+
+/**
+ * IVA de un pedido, en céntimos
+ */
+export interface TaxCalculation {
+  /** Tipo aplicado */
+  rate: number;
+  lines: LineTax[];
+  /** Base imponible antes de descuentos */
+  subtotalNet: number;
+  /** Base imponible */
+  net: number;
+  tax: number;
+  /** Importe a cobrar */
+  total: number;
+}
+
+/** Contexto por defecto: consumidor en el país de la tienda */
+export const DEFAULT_TAX_CONTEXT: TaxContext = { country: STORE_COUNTRY };
+
+/**
+ * Parte de un importe (en céntimos, IVA incluido) que corresponde al IVA
+ */
+export function getIncludedTax(amount: number, rate: number = STORE_TAX_RATE): number {
+  return Math.round(amount - amount / (1 + rate));
+}
+
+/**
+ * Tratamiento fiscal según el país y el número de IVA del comprador
+ *
+ * La inversión del sujeto pasivo solo aplica a empresas de otro estado
+ * miembro con un número de IVA con formato válido; las empresas del país
+ * de la tienda pagan el IVA como los consumidores.
+ */
+export function getTaxRule({ country, vatId }: TaxContext): TaxRule {
+  const code = country.toUpperCase();
+
+  if (!isEuCountry(code)) {
+    return { country: code, treatment: "outside_eu", rate: 0 };
+  }
+
+  const isIntraCommunityBusiness =
+    code !== STORE_COUNTRY && !!vatId && isValidVatIdFormat(vatId, code);
+
+  return {
+    country: code,
+    treatment: isIntraCommunityBusiness ? "reverse_charge" : "standard",
+    rate: getVatRate(code),
+  };
+}
+
+/**
+ * Tipo que se repercute al comprador
+ */
+function getAppliedRate(rule: TaxRule): number {
+  return rule.treatment === "standard" ? rule.rate : 0;
+}
+
+/**
+ * IVA incluido en cada importe
+ *
+ * Se calcula sobre la suma y se reparte entre las líneas, para que el IVA
+ * del pedido no acumule el redondeo de cada línea.
+ */
+function getIncludedTaxes(amounts: number[], rule: TaxRule): number[] {
+  if (rule.treatment === "outside_eu") return amounts.map(() => 0);
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  return allocateMoney(money(getIncludedTax(total, rule.rate)), amounts).map(
+    (share) => share.amount
+  );
+}
+
+/**
+ * Calcula el IVA de cada línea y del pedido
+ *
+ * El descuento del pedido (packs y promociones) se reparte entre las líneas
+ * en proporción a su importe antes de desglosar el impuesto.
+ *
+ * @param amounts - Importe de cada línea con IVA incluido, en céntimos
+ * @param discount - Descuento total del pedido, en céntimos
+ */
+export function calculateTaxes(
+  amounts: number[],
+  discount: number,
+  rule: TaxRule
+): TaxCalculation {
+  const rate = getAppliedRate(rule);
+  const discounts = allocateMoney(money(discount), amounts).map((share) => share.amount);
+  const discounted = amounts.map((amount, index) => amount - discounts[index]);
+  const included = getIncludedTaxes(discounted, rule);
+
+  // Con inversión del sujeto pasivo se cobra la base imponible
+  const lines = discounted.map((amount, index) => {
+    const net = amount - included[index];
+    const tax = rule.treatment === "standard" ? included[index] : 0;
+    return { rate, discount: discounts[index], net, tax, total: net + tax };
+  });
+  const subtotal = amounts.reduce((sum, amount) => sum + amount, 0);
+  const subtotalNet =
+    rule.treatment === "outside_eu" ? subtotal : subtotal - getIncludedTax(subtotal, rule.rate);
+
+  return {
+    rate,
+    lines,
+    subtotalNet,
+    net: lines.reduce((sum, line) => sum + line.net, 0),
+    tax: lines.reduce((sum, line) => sum + line.tax, 0),
+    total: lines.reduce((sum, line) => sum + line.total, 0),
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Tax - IVA de la UE para productos digitales
+ *
+ * Tipos por país, formato de los números de IVA intracomunitarios e
+ * inversión del sujeto pasivo para empresas.
+ */
+
+export {
+  STORE_COUNTRY,
+  STORE_TAX_RATE,
+  EU_VAT_RATES,
+  isEuCountry,
+  getVatRate,
+} from "./rates";
+export { getVatIdPrefix, normalizeVatId, isValidVatIdFormat } from "./vat-id";
+export {
+  DEFAULT_TAX_CONTEXT,
+  getIncludedTax,
+  getTaxRule,
+  calculateTaxes,
+  type TaxContext,
+  type TaxRule,
+  type LineTax,
+  type TaxCalculation,
+} from "./calculate";
@@ -0,0 +1,58 @@
+/**
+ * VAT Rates - Tipos de IVA de la UE para productos digitales
+ *
+ * Los productos digitales vendidos a consumidores de la UE tributan al tipo
+ * general del país del comprador (régimen OSS). Fuera de la UE no se
+ * repercute IVA.
+ */
+
+/** País en el que está registrada la tienda */
+export const STORE_COUNTRY = "ES";
+
+/** Tipo general de IVA de cada estado miembro (ISO 3166-1 alpha-2) */
+export const EU_VAT_RATES: Readonly<Record<string, number>> = {
+  AT: 0.2,
+  BE: 0.21,
+  BG: 0.2,
+  CY: 0.19,
+  CZ: 0.21,
+  DE: 0.19,
+  DK: 0.25,
+  EE: 0.24,
+  ES: 0.21,
+  FI: 0.255,
+  FR: 0.2,
+  GR: 0.24,
+  HR: 0.25,
+  HU: 0.27,
+  IE: 0.23,
+  IT: 0.22,
+  LT: 0.21,
+  LU: 0.17,
+  LV: 0.21,
+  MT: 0.18,
+  NL: 0.21,
+  PL: 0.23,
+  PT: 0.23,
+  RO: 0.21,
+  SE: 0.25,
+  SI: 0.22,
+  SK: 0.23,
+};
+
+/** Tipo de IVA del país de la tienda */
+export const STORE_TAX_RATE = EU_VAT_RATES[STORE_COUNTRY];
+
+/**
+ * El país es un estado miembro de la UE
+ */
+export function isEuCountry(country: string): boolean {
+  return Object.hasOwn(EU_VAT_RATES, country.toUpperCase());
+}
+
+/**
+ * Tipo general de IVA del país (0 fuera de la UE)
+ */
+export function getVatRate(country: string): number {
+  return isEuCountry(country) ? EU_VAT_RATES[country.toUpperCase()] : 0;
+}
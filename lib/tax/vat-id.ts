@@ -0,0 +1,85 @@
+/**
+ * VAT ID - Formato de los números de IVA intracomunitarios
+ *
+ * Solo se comprueba el formato (prefijo del país y estructura según VIES),
+ * no que el número exista.
+ */
+
+import { isEuCountry } from "./rates";
+
+/** Prefijos que no coinciden con el código ISO del país */
+const VAT_ID_PREFIXES: Readonly<Record<string, string>> = {
+  GR: "EL",
+};
+
+/** Estructura del número tras el prefijo del país */
+const VAT_ID_FORMATS: Readonly<Record<string, RegExp>> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  GR: /^\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^\d[A-Z0-9+*]\d{5}[A-Z]{1,2}$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+/**
+ * Prefijo del número de IVA del país (EL para Grecia)
+ */
+export function getVatIdPrefix(country: string): string {
+  const code = country.toUpperCase();
+  return VAT_ID_PREFIXES[code] ?? code;
+}
+
+/**
+ * Quita espacios, puntos y guiones y pasa a mayúsculas
+ *
+ * @example
+ * ```ts
+ * normalizeVatId("de 123.456.789") // "DE123456789"
+ * ```
+ */
+export function normalizeVatId(vatId: string): string {
+  return vatId.replace(/[\s.-]/g, "").toUpperCase();
+}
+
+/**
+ * El número de IVA tiene el formato del país indicado
+ *
+ * @example
+ * ```ts
+ * isValidVatIdFormat("DE123456789", "DE") // true
+ * isValidVatIdFormat("DE123456789", "FR") // false
+ * ```
+ */
+export function isValidVatIdFormat(vatId: string, country: string): boolean {
+  const code = country.toUpperCase();
+  if (!isEuCountry(code)) return false;
+
+  const normalized = normalizeVatId(vatId);
+  const prefix = getVatIdPrefix(code);
+  return (
+    normalized.startsWith(prefix) &&
+    VAT_ID_FORMATS[code].test(normalized.slice(prefix.length))
+  );
+}
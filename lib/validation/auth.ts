@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { normalizeMfaCode, TOTP_CODE_LENGTH } from "@lib/auth/mfa";
 
 /**
  * Mensajes de error personalizados en español para validación de autenticación
@@ -23,6 +24,14 @@ const ERROR_MESSAGES = {
     required: "Debes confirmar tu contraseña",
     match: "Las contraseñas no coinciden",
   },
+  totpCode: {
+    required: "Introduce el código de tu app de autenticación",
+    invalid: "El código tiene 6 dígitos",
+  },
+  recoveryCode: {
+    required: "Introduce uno de tus códigos de recuperación",
+    invalid: "El código de recuperación no es válido",
+  },
 } as const;
 
 /**
@@ -103,8 +112,105 @@ export const registerSchema = z
     path: ["confirmPassword"],
   });
 
+/**
+ * Schema de validación para pedir el enlace de restablecimiento de contraseña
+ */
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .min(1, ERROR_MESSAGES.email.required)
+    .email(ERROR_MESSAGES.email.invalid)
+    .toLowerCase()
+    .trim(),
+});
+
+/**
+ * Schema de validación para reenviar el email de verificación
+ */
+export const resendVerificationSchema = z.object({
+  email: z
+    .string()
+    .min(1, ERROR_MESSAGES.email.required)
+    .email(ERROR_MESSAGES.email.invalid)
+    .toLowerCase()
+    .trim(),
+});
+
+/**
+ * Schema de validación para elegir la nueva contraseña desde el enlace
+ *
+ * Mismos requisitos de seguridad que el registro.
+ */
+export const resetPasswordSchema = z
+  .object({
+    password: z
+      .string()
+      .min(1, ERROR_MESSAGES.password.required)
+      .min(8, ERROR_MESSAGES.password.min)
+      .max(100, ERROR_MESSAGES.password.max)
+      .regex(PASSWORD_REGEX, ERROR_MESSAGES.password.weak),
+    confirmPassword: z
+      .string()
+      .min(1, ERROR_MESSAGES.confirmPassword.required),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: ERROR_MESSAGES.confirmPassword.match,
+    path: ["confirmPassword"],
+  });
+
+/**
+ * Código TOTP de la app de autenticación (admite espacios: "123 456")
+ */
+export const totpCodeSchema = z
+  .string()
+  .transform(normalizeMfaCode)
+  .pipe(
+    z
+      .string()
+      .min(1, ERROR_MESSAGES.totpCode.required)
+      .regex(new RegExp(`^\\d{${TOTP_CODE_LENGTH}}$`), ERROR_MESSAGES.totpCode.invalid)
+  );
+
+/**
+ * Código de recuperación de un solo uso (letras, números y guiones)
+ */
+export const recoveryCodeSchema = z
+  .string()
+  .transform(normalizeMfaCode)
+  .pipe(
+    z
+      .string()
+      .min(1, ERROR_MESSAGES.recoveryCode.required)
+      .regex(/^[a-z0-9-]{6,32}$/i, ERROR_MESSAGES.recoveryCode.invalid)
+  );
+
+/**
+ * Schema de validación del segundo paso del login y de la configuración
+ * de la verificación en dos pasos
+ *
+ * @example
+ * ```ts
+ * mfaCodeFormSchema.parse({ code: "123 456" }); // { code: "123456" }
+ * ```
+ */
+export const mfaCodeFormSchema = z.object({
+  code: totpCodeSchema,
+});
+
+/**
+ * Schema de validación del login con un código de recuperación
+ */
+export const recoveryCodeFormSchema = z.object({
+  code: recoveryCodeSchema,
+});
+
 /**
  * Tipos inferidos de los schemas para usar en componentes
  */
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type RegisterFormData = z.infer<typeof registerSchema>;
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+export type ResendVerificationFormData = z.infer<typeof resendVerificationSchema>;
+export type MfaCodeFormData = z.infer<typeof mfaCodeFormSchema>;
+export type RecoveryCodeFormData = z.infer<typeof recoveryCodeFormSchema>;
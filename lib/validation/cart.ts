@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+/**
+ * Mensajes de error personalizados en español para validación del carrito
+ */
+const ERROR_MESSAGES = {
+  productId: {
+    invalid: "El identificador de producto no es válido",
+  },
+  variantId: {
+    invalid: "El identificador de variante no es válido",
+  },
+  quantity: {
+    invalid: "La cantidad debe ser un número entero",
+    min: "La cantidad debe ser al menos 1",
+  },
+  items: {
+    max: "El carrito no puede tener más de 100 líneas",
+  },
+} as const;
+
+/**
+ * Schema de una línea del carrito
+ *
+ * Las cantidades por encima del máximo se recortan al fusionar,
+ * por eso aquí solo se exige que sea un entero positivo.
+ */
+export const cartLineSchema = z.object({
+  productId: z
+    .number({ message: ERROR_MESSAGES.productId.invalid })
+    .int(ERROR_MESSAGES.productId.invalid)
+    .positive(ERROR_MESSAGES.productId.invalid),
+  variantId: z
+    .number({ message: ERROR_MESSAGES.variantId.invalid })
+    .int(ERROR_MESSAGES.variantId.invalid)
+    .positive(ERROR_MESSAGES.variantId.invalid)
+    .nullish(),
+  quantity: z
+    .number({ message: ERROR_MESSAGES.quantity.invalid })
+    .int(ERROR_MESSAGES.quantity.invalid)
+    .min(1, ERROR_MESSAGES.quantity.min),
+});
+
+/**
+ * Schema del body de PUT/PATCH /api/cart
+ *
+ * @example
+ * ```ts
+ * const result = cartUpdateSchema.safeParse({
+ *   items: [{ productId: 1, variantId: 102, quantity: 2 }],
+ * });
+ * ```
+ */
+export const cartUpdateSchema = z.object({
+  items: z.array(cartLineSchema).max(100, ERROR_MESSAGES.items.max),
+});
+
+/**
+ * Tipos inferidos de los schemas
+ */
+export type CartLineData = z.infer<typeof cartLineSchema>;
+export type CartUpdateData = z.infer<typeof cartUpdateSchema>;
@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+/**
+ * Slug de categoría válido en la URL
+ */
+const CATEGORY_SLUG = /^[a-z0-9-]+$/;
+
+/**
+ * Precio en EUR; los valores vacíos (`?minPrice=`), no numéricos o
+ * negativos se ignoran. El vacío se descarta antes de convertirlo, porque
+ * `Number("")` es 0.
+ */
+const priceParamSchema = z
+  .preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.coerce.number().nonnegative().optional()
+  )
+  .catch(undefined);
+
+/**
+ * Schema de los filtros del catálogo en los query params de la URL
+ *
+ * A diferencia de los schemas de la API, nunca falla: una URL compartida o
+ * editada a mano con valores inválidos muestra el catálogo con los filtros
+ * válidos y el resto por defecto.
+ *
+ * @example
+ * ```ts
+ * catalogFiltersSchema.parse({ q: "boda", categories: "bodas,tarjetas", sort: "price_asc", page: "2" });
+ * // { q: "boda", categories: ["bodas", "tarjetas"], sort: "price_asc", page: 2 }
+ *
+ * catalogFiltersSchema.parse({ sort: "random", page: "-1" });
+ * // { q: "", categories: [], sort: "relevance", page: 1 }
+ * ```
+ */
+export const catalogFiltersSchema = z
+  .object({
+    q: z.string().trim().max(100).optional().catch(undefined),
+    categories: z
+      .string()
+      .optional()
+      .catch(undefined)
+      .transform((value) =>
+        [...new Set(value?.split(",").map((slug) => slug.trim()) ?? [])].filter((slug) =>
+          CATEGORY_SLUG.test(slug)
+        )
+      ),
+    minPrice: priceParamSchema,
+    maxPrice: priceParamSchema,
+    sort: z.enum(["relevance", "price_asc", "price_desc", "name"]).catch("relevance"),
+    page: z.coerce.number().int().positive().catch(1),
+  })
+  .transform(({ q, minPrice, maxPrice, ...filters }) => ({
+    q: q ?? "",
+    ...filters,
+    ...(minPrice !== undefined && { minPrice }),
+    // Un máximo por debajo del mínimo se descarta
+    ...(maxPrice !== undefined && (minPrice === undefined || maxPrice >= minPrice) && { maxPrice }),
+  }));
+
+/**
+ * Tipos inferidos de los schemas
+ */
+export type CatalogFiltersParams = z.input<typeof catalogFiltersSchema>;
+export type CatalogFiltersData = z.output<typeof catalogFiltersSchema>;
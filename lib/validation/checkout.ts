@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { cartLineSchema } from "./cart";
+import { promotionCodesSchema } from "./promotion";
+import { isValidVatIdFormat } from "@lib/tax";
+
+/**
+ * Mensajes de error personalizados en español para validación del checkout
+ */
+const ERROR_MESSAGES = {
+  email: {
+    required: "El correo electrónico es requerido",
+    invalid: "El correo electrónico no es válido",
+  },
+  fullName: {
+    required: "El nombre completo es requerido",
+    min: "El nombre debe tener al menos 2 caracteres",
+    max: "El nombre no puede tener más de 100 caracteres",
+  },
+  addressLine1: {
+    required: "La dirección es requerida",
+    max: "La dirección no puede tener más de 200 caracteres",
+  },
+  addressLine2: {
+    max: "La dirección no puede tener más de 200 caracteres",
+  },
+  city: {
+    required: "La ciudad es requerida",
+    max: "La ciudad no puede tener más de 100 caracteres",
+  },
+  postalCode: {
+    required: "El código postal es requerido",
+    invalid: "El código postal no es válido",
+  },
+  country: {
+    invalid: "Selecciona un país de la lista",
+  },
+  vatId: {
+    max: "El número de IVA no puede tener más de 20 caracteres",
+    invalid: "El número de IVA no tiene un formato válido para el país seleccionado",
+  },
+  items: {
+    empty: "El carrito está vacío",
+  },
+} as const;
+
+/**
+ * Países a los que se puede facturar (ISO 3166-1 alpha-2)
+ */
+export const CHECKOUT_COUNTRIES = [
+  "ES",
+  "PT",
+  "FR",
+  "DE",
+  "IT",
+  "NL",
+  "BE",
+  "IE",
+  "AT",
+  "GB",
+  "US",
+  "MX",
+  "AR",
+  "CO",
+  "CL",
+] as const;
+
+export type CheckoutCountry = (typeof CHECKOUT_COUNTRIES)[number];
+
+/**
+ * Regex de código postal: alfanumérico con espacios o guiones (3-10 caracteres)
+ */
+const POSTAL_CODE_REGEX = /^[A-Za-z0-9][A-Za-z0-9 -]{1,8}[A-Za-z0-9]$/;
+
+/**
+ * Schema del paso de cliente (email de contacto y entrega de descargas)
+ *
+ * @example
+ * ```ts
+ * const result = checkoutCustomerSchema.safeParse({ email: "user@example.com" });
+ * ```
+ */
+export const checkoutCustomerSchema = z.object({
+  email: z
+    .string()
+    .min(1, ERROR_MESSAGES.email.required)
+    .email(ERROR_MESSAGES.email.invalid)
+    .toLowerCase()
+    .trim(),
+});
+
+/**
+ * Schema del paso de facturación
+ *
+ * El número de IVA (opcional, para empresas) debe tener el formato del país
+ * de facturación.
+ *
+ * @example
+ * ```ts
+ * const result = checkoutBillingSchema.safeParse({
+ *   fullName: "Ana García",
+ *   addressLine1: "Calle Mayor 1",
+ *   city: "Madrid",
+ *   postalCode: "28013",
+ *   country: "ES",
+ * });
+ * ```
+ */
+export const checkoutBillingSchema = z
+  .object({
+    fullName: z
+      .string()
+      .trim()
+      .min(1, ERROR_MESSAGES.fullName.required)
+      .min(2, ERROR_MESSAGES.fullName.min)
+      .max(100, ERROR_MESSAGES.fullName.max),
+    addressLine1: z
+      .string()
+      .trim()
+      .min(1, ERROR_MESSAGES.addressLine1.required)
+      .max(200, ERROR_MESSAGES.addressLine1.max),
+    addressLine2: z
+      .string()
+      .trim()
+      .max(200, ERROR_MESSAGES.addressLine2.max)
+      .optional(),
+    city: z
+      .string()
+      .trim()
+      .min(1, ERROR_MESSAGES.city.required)
+      .max(100, ERROR_MESSAGES.city.max),
+    postalCode: z
+      .string()
+      .trim()
+      .min(1, ERROR_MESSAGES.postalCode.required)
+      .regex(POSTAL_CODE_REGEX, ERROR_MESSAGES.postalCode.invalid),
+    country: z.enum(CHECKOUT_COUNTRIES, { message: ERROR_MESSAGES.country.invalid }),
+    vatId: z.string().trim().max(20, ERROR_MESSAGES.vatId.max).optional(),
+  })
+  .refine((data) => !data.vatId || isValidVatIdFormat(data.vatId, data.country), {
+    message: ERROR_MESSAGES.vatId.invalid,
+    path: ["vatId"],
+  });
+
+/**
+ * Schema del body de POST /api/checkout
+ */
+export const checkoutRequestSchema = z.object({
+  customer: checkoutCustomerSchema,
+  billing: checkoutBillingSchema,
+  items: z.array(cartLineSchema).min(1, ERROR_MESSAGES.items.empty).max(100),
+  promotionCodes: promotionCodesSchema.optional(),
+});
+
+/**
+ * Tipos inferidos de los schemas para usar en componentes
+ */
+export type CheckoutCustomerData = z.infer<typeof checkoutCustomerSchema>;
+export type CheckoutBillingData = z.infer<typeof checkoutBillingSchema>;
+export type CheckoutRequestData = z.infer<typeof checkoutRequestSchema>;
@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+/**
+ * Mensajes de error personalizados en español para validación de favoritos
+ */
+const ERROR_MESSAGES = {
+  productId: {
+    invalid: "El identificador de producto no es válido",
+  },
+  productIds: {
+    max: "La lista de favoritos no puede tener más de 200 productos",
+  },
+} as const;
+
+/**
+ * Schema del body de PUT/PATCH /api/favorites
+ *
+ * Los duplicados y los productos retirados se descartan al guardar,
+ * por eso aquí solo se exigen identificadores válidos.
+ *
+ * @example
+ * ```ts
+ * const result = favoritesUpdateSchema.safeParse({ productIds: [1, 4] });
+ * ```
+ */
+export const favoritesUpdateSchema = z.object({
+  productIds: z
+    .array(
+      z
+        .number({ message: ERROR_MESSAGES.productId.invalid })
+        .int(ERROR_MESSAGES.productId.invalid)
+        .positive(ERROR_MESSAGES.productId.invalid)
+    )
+    .max(200, ERROR_MESSAGES.productIds.max),
+});
+
+/**
+ * Tipos inferidos de los schemas
+ */
+export type FavoritesUpdateData = z.infer<typeof favoritesUpdateSchema>;
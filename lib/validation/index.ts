@@ -8,6 +8,66 @@
 export {
   loginSchema,
   registerSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  resendVerificationSchema,
+  totpCodeSchema,
+  recoveryCodeSchema,
+  mfaCodeFormSchema,
+  recoveryCodeFormSchema,
   type LoginFormData,
   type RegisterFormData,
+  type ForgotPasswordFormData,
+  type ResetPasswordFormData,
+  type ResendVerificationFormData,
+  type MfaCodeFormData,
+  type RecoveryCodeFormData,
 } from "./auth";
+
+export {
+  cartLineSchema,
+  cartUpdateSchema,
+  type CartLineData,
+  type CartUpdateData,
+} from "./cart";
+
+export {
+  CHECKOUT_COUNTRIES,
+  checkoutCustomerSchema,
+  checkoutBillingSchema,
+  checkoutRequestSchema,
+  type CheckoutCountry,
+  type CheckoutCustomerData,
+  type CheckoutBillingData,
+  type CheckoutRequestData,
+} from "./checkout";
+
+export { favoritesUpdateSchema, type FavoritesUpdateData } from "./favorites";
+
+export {
+  promotionCodeSchema,
+  promotionCodesSchema,
+  promotionValidateSchema,
+  type PromotionValidateData,
+} from "./promotion";
+
+export {
+  reviewFormSchema,
+  reviewSubmitSchema,
+  reviewListQuerySchema,
+  reviewModerationSchema,
+  type ReviewFormData,
+  type ReviewSubmitData,
+  type ReviewListQuery,
+  type ReviewModerationData,
+} from "./review";
+
+export { orderListQuerySchema, type OrderListQuery } from "./order";
+
+export { relatedProductsQuerySchema, type RelatedProductsQuery } from "./recommendations";
+
+export {
+  catalogFiltersSchema,
+  type CatalogFiltersParams,
+  type CatalogFiltersData,
+} from "./catalog";
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { ORDER_MAX_PAGE_SIZE, ORDER_PAGE_SIZE } from "@lib/orders/types";
+
+/**
+ * Mensajes de error personalizados en español para el historial de pedidos
+ */
+const ERROR_MESSAGES = {
+  page: {
+    invalid: "La página debe ser un número entero positivo",
+  },
+  pageSize: {
+    invalid: `El tamaño de página debe estar entre 1 y ${ORDER_MAX_PAGE_SIZE}`,
+  },
+  status: {
+    invalid: "Estado de pedido no válido",
+  },
+} as const;
+
+/**
+ * Schema de los query params de GET /api/orders
+ *
+ * @example
+ * ```ts
+ * orderListQuerySchema.parse({ page: "2", status: "paid" });
+ * // { page: 2, page_size: 10, status: "paid" }
+ * ```
+ */
+export const orderListQuerySchema = z.object({
+  page: z.coerce
+    .number({ message: ERROR_MESSAGES.page.invalid })
+    .int(ERROR_MESSAGES.page.invalid)
+    .positive(ERROR_MESSAGES.page.invalid)
+    .default(1),
+  page_size: z.coerce
+    .number({ message: ERROR_MESSAGES.pageSize.invalid })
+    .int(ERROR_MESSAGES.pageSize.invalid)
+    .min(1, ERROR_MESSAGES.pageSize.invalid)
+    .max(ORDER_MAX_PAGE_SIZE, ERROR_MESSAGES.pageSize.invalid)
+    .default(ORDER_PAGE_SIZE),
+  status: z
+    .enum(["pending", "paid", "fulfilled", "failed", "cancelled", "refunded"], {
+      message: ERROR_MESSAGES.status.invalid,
+    })
+    .optional(),
+});
+
+/**
+ * Tipos inferidos de los schemas
+ */
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { cartLineSchema } from "./cart";
+
+/**
+ * Mensajes de error personalizados en español para los códigos promocionales
+ */
+const ERROR_MESSAGES = {
+  code: {
+    required: "Introduce un código promocional",
+    invalid: "El código promocional no es válido",
+  },
+  codes: {
+    max: "No se pueden aplicar más de 5 códigos",
+  },
+  items: {
+    empty: "El carrito está vacío",
+    max: "El carrito no puede tener más de 100 líneas",
+  },
+} as const;
+
+/**
+ * Schema de un código promocional (letras, números y guiones)
+ */
+export const promotionCodeSchema = z
+  .string({ message: ERROR_MESSAGES.code.required })
+  .trim()
+  .min(1, ERROR_MESSAGES.code.required)
+  .max(32, ERROR_MESSAGES.code.invalid)
+  .regex(/^[A-Za-z0-9_-]+$/, ERROR_MESSAGES.code.invalid);
+
+/**
+ * Códigos aplicados a la vez en un carrito
+ */
+export const promotionCodesSchema = z
+  .array(promotionCodeSchema)
+  .max(5, ERROR_MESSAGES.codes.max);
+
+/**
+ * Schema del body de POST /api/promotions
+ *
+ * @example
+ * ```ts
+ * const result = promotionValidateSchema.safeParse({
+ *   code: "BIENVENIDA10",
+ *   items: [{ productId: 1, quantity: 1 }],
+ *   appliedCodes: [],
+ * });
+ * ```
+ */
+export const promotionValidateSchema = z.object({
+  code: promotionCodeSchema,
+  items: z
+    .array(cartLineSchema)
+    .min(1, ERROR_MESSAGES.items.empty)
+    .max(100, ERROR_MESSAGES.items.max),
+  /** Códigos ya aplicados, que se valoran antes que el nuevo */
+  appliedCodes: promotionCodesSchema.optional(),
+});
+
+/**
+ * Tipos inferidos de los schemas
+ */
+export type PromotionValidateData = z.infer<typeof promotionValidateSchema>;
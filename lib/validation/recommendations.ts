@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { routing } from "@/i18n/routing";
+
+/**
+ * Mensajes de error personalizados en español para las recomendaciones
+ */
+const ERROR_MESSAGES = {
+  productId: {
+    invalid: "El identificador de producto no es válido",
+  },
+  limit: {
+    invalid: "El número de productos debe estar entre 1 y 12",
+  },
+  locale: {
+    invalid: "Idioma no soportado",
+  },
+} as const;
+
+/**
+ * Schema de los query params de GET /api/recommendations
+ *
+ * @example
+ * ```ts
+ * relatedProductsQuerySchema.parse({ productId: "3", limit: "6" });
+ * // { productId: 3, limit: 6, locale: "es" }
+ * ```
+ */
+export const relatedProductsQuerySchema = z.object({
+  productId: z.coerce
+    .number({ message: ERROR_MESSAGES.productId.invalid })
+    .int(ERROR_MESSAGES.productId.invalid)
+    .positive(ERROR_MESSAGES.productId.invalid),
+  limit: z.coerce
+    .number({ message: ERROR_MESSAGES.limit.invalid })
+    .int(ERROR_MESSAGES.limit.invalid)
+    .min(1, ERROR_MESSAGES.limit.invalid)
+    .max(12, ERROR_MESSAGES.limit.invalid)
+    .default(4),
+  locale: z
+    .enum(routing.locales, { message: ERROR_MESSAGES.locale.invalid })
+    .default(routing.defaultLocale),
+});
+
+/**
+ * Tipos inferidos de los schemas
+ */
+export type RelatedProductsQuery = z.infer<typeof relatedProductsQuerySchema>;
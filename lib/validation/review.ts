@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { REVIEW_MAX_PAGE_SIZE, REVIEW_PAGE_SIZE } from "@lib/reviews/types";
+
+/**
+ * Mensajes de error personalizados en español para las reseñas
+ */
+const ERROR_MESSAGES = {
+  productId: {
+    invalid: "El identificador de producto no es válido",
+  },
+  authorName: {
+    required: "Indica el nombre que se mostrará con tu reseña",
+    min: "El nombre debe tener al menos 2 caracteres",
+    max: "El nombre no puede tener más de 60 caracteres",
+  },
+  rating: {
+    required: "Elige una valoración de 1 a 5 estrellas",
+  },
+  title: {
+    required: "El título es requerido",
+    min: "El título debe tener al menos 3 caracteres",
+    max: "El título no puede tener más de 80 caracteres",
+  },
+  text: {
+    required: "Escribe tu opinión sobre el producto",
+    min: "La reseña debe tener al menos 20 caracteres",
+    max: "La reseña no puede tener más de 2000 caracteres",
+  },
+  status: {
+    invalid: "El estado debe ser approved o rejected",
+  },
+  note: {
+    max: "La nota no puede tener más de 500 caracteres",
+  },
+  sort: {
+    invalid: "Orden no válido",
+  },
+  page: {
+    invalid: "La página debe ser un número entero positivo",
+  },
+  pageSize: {
+    invalid: `El tamaño de página debe estar entre 1 y ${REVIEW_MAX_PAGE_SIZE}`,
+  },
+} as const;
+
+const productIdSchema = z
+  .number({ message: ERROR_MESSAGES.productId.invalid })
+  .int(ERROR_MESSAGES.productId.invalid)
+  .positive(ERROR_MESSAGES.productId.invalid);
+
+/**
+ * Schema del formulario de reseña
+ *
+ * @example
+ * ```ts
+ * const result = reviewFormSchema.safeParse({
+ *   authorName: "Lucía",
+ *   rating: 5,
+ *   title: "Precioso",
+ *   text: "Lo uso cada día para organizar mis proyectos.",
+ * });
+ * ```
+ */
+export const reviewFormSchema = z.object({
+  authorName: z
+    .string({ message: ERROR_MESSAGES.authorName.required })
+    .trim()
+    .min(1, ERROR_MESSAGES.authorName.required)
+    .min(2, ERROR_MESSAGES.authorName.min)
+    .max(60, ERROR_MESSAGES.authorName.max),
+  rating: z
+    .number({ message: ERROR_MESSAGES.rating.required })
+    .int(ERROR_MESSAGES.rating.required)
+    .min(1, ERROR_MESSAGES.rating.required)
+    .max(5, ERROR_MESSAGES.rating.required),
+  title: z
+    .string({ message: ERROR_MESSAGES.title.required })
+    .trim()
+    .min(1, ERROR_MESSAGES.title.required)
+    .min(3, ERROR_MESSAGES.title.min)
+    .max(80, ERROR_MESSAGES.title.max),
+  text: z
+    .string({ message: ERROR_MESSAGES.text.required })
+    .trim()
+    .min(1, ERROR_MESSAGES.text.required)
+    .min(20, ERROR_MESSAGES.text.min)
+    .max(2000, ERROR_MESSAGES.text.max),
+});
+
+/**
+ * Schema del body de POST /api/reviews
+ */
+export const reviewSubmitSchema = reviewFormSchema.extend({
+  productId: productIdSchema,
+});
+
+/**
+ * Schema de los query params de GET /api/reviews
+ *
+ * @example
+ * ```ts
+ * reviewListQuerySchema.parse({ productId: "1", sort: "highest", page: "2" });
+ * // { productId: 1, sort: "highest", page: 2, pageSize: 10 }
+ * ```
+ */
+export const reviewListQuerySchema = z.object({
+  productId: z.coerce
+    .number({ message: ERROR_MESSAGES.productId.invalid })
+    .pipe(productIdSchema),
+  sort: z
+    .enum(["newest", "oldest", "highest", "lowest"], { message: ERROR_MESSAGES.sort.invalid })
+    .default("newest"),
+  page: z.coerce
+    .number({ message: ERROR_MESSAGES.page.invalid })
+    .int(ERROR_MESSAGES.page.invalid)
+    .positive(ERROR_MESSAGES.page.invalid)
+    .default(1),
+  pageSize: z.coerce
+    .number({ message: ERROR_MESSAGES.pageSize.invalid })
+    .int(ERROR_MESSAGES.pageSize.invalid)
+    .min(1, ERROR_MESSAGES.pageSize.invalid)
+    .max(REVIEW_MAX_PAGE_SIZE, ERROR_MESSAGES.pageSize.invalid)
+    .default(REVIEW_PAGE_SIZE),
+});
+
+/**
+ * Schema del body de PATCH /api/reviews/[id] (moderación)
+ */
+export const reviewModerationSchema = z.object({
+  status: z.enum(["approved", "rejected"], { message: ERROR_MESSAGES.status.invalid }),
+  note: z.string().trim().max(500, ERROR_MESSAGES.note.max).optional(),
+});
+
+/**
+ * Tipos inferidos de los schemas
+ */
+export type ReviewFormData = z.infer<typeof reviewFormSchema>;
+export type ReviewSubmitData = z.infer<typeof reviewSubmitSchema>;
+export type ReviewListQuery = z.infer<typeof reviewListQuerySchema>;
+export type ReviewModerationData = z.infer<typeof reviewModerationSchema>;
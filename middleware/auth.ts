@@ -1,6 +1,22 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { AUTH_COOKIES } from "./types";
-import { isProtectedRoute, LOGIN_REDIRECT } from "./config";
+import { routing } from "@/i18n/routing";
+import { isMfaRequired } from "@lib/auth/mfa";
+import { DEFAULT_USER_ROLE, hasRole, type UserRole } from "@lib/auth/roles";
+import { AUTH_COOKIES, HEADERS } from "./types";
+import {
+  FORBIDDEN_PAGE,
+  getRequiredRole,
+  isProtectedRoute,
+  LOGIN_REDIRECT,
+  matchRoute,
+  MFA_SETUP_PAGE,
+  REFRESH_REDIRECT,
+  TOKEN_CONFIG,
+} from "./config";
+import { readAccessToken } from "./tokens";
+
+/** Prefijo de locale de la ruta (/en/account → "en") */
+const LOCALE_PREFIX = /^\/(es|en)(?=\/|$)/;
 
 /**
  * Resultado del check de autenticación.
@@ -8,82 +24,231 @@ import { isProtectedRoute, LOGIN_REDIRECT } from "./config";
 export interface AuthCheckResult {
   isAuthenticated: boolean;
   userId?: string;
+  role?: UserRole;
+  /** El token se emitió tras la verificación en dos pasos */
+  mfa?: boolean;
+  /** Firma y caducidad del token comprobadas (verificación configurada) */
+  isVerified?: boolean;
   shouldRedirect: boolean;
   redirectUrl?: string;
+  /** El redirect va a la página de refresh silencioso (token caducado) */
+  isRefresh?: boolean;
+  /** Autenticado pero sin el rol que exige la ruta */
+  isForbidden?: boolean;
+  /** Página 403 que se muestra en lugar de la ruta */
+  forbiddenUrl?: string;
+}
+
+/**
+ * URL de una página de auth en el idioma de la ruta, con la ruta original
+ * en ?redirect= (sin locale: la navegación de next-intl lo añade al volver).
+ */
+function getAuthPageUrl(request: NextRequest, page: string): string {
+  const pathname = request.nextUrl.pathname;
+  const locale = pathname.match(LOCALE_PREFIX)?.[1];
+
+  const url = new URL(locale ? `/${locale}${page}` : page, request.url);
+  url.searchParams.set(
+    "redirect",
+    (pathname.replace(LOCALE_PREFIX, "") || "/") + request.nextUrl.search
+  );
+  return url.toString();
 }
 
 /**
  * Middleware de autenticación.
  *
  * Funcionalidades:
- * - Verifica la presencia de la cookie access_token
+ * - Lee el access_token y, si AUTH_JWT_SECRET o AUTH_JWKS_PATH están
+ *   configurados, verifica su firma y caducidad (ver ./tokens)
  * - Para rutas protegidas, redirige a login si no está autenticado
- * - NO valida el token (eso lo hace el backend) - solo verifica presencia
+ * - Si el token ha caducado y hay refresh token, redirige a la página de
+ *   refresh silencioso, que renueva la sesión y vuelve a la ruta
+ * - Para rutas con rol (ROLE_ROUTES), muestra la página 403 si el claim
+ *   `role` del token no alcanza el rol requerido
+ * - Si el rol de la sesión es admin o superior y el token no incluye la
+ *   verificación en dos pasos, redirige a configurarla (MFA_SETUP_PAGE)
+ *   desde cualquier ruta protegida
+ * - Sin verificación configurada solo comprueba la presencia del token
+ *   (el backend lo valida en cada llamada) y, en producción, deniega las
+ *   rutas con rol (ver canTrustUnverifiedClaims)
  *
  * Flujo:
  * 1. Usuario accede a /dashboard
  * 2. Middleware detecta que es ruta protegida
- * 3. Verifica si existe cookie access_token
- * 4. Si no existe → redirect a /login?redirect=/dashboard
- * 5. Si existe → continúa (backend validará el token)
+ * 3. Lee (y verifica) la cookie access_token
+ * 4. Si no existe o no es válido → redirect a /auth/login?redirect=/dashboard
+ * 5. Si ha caducado → redirect a /auth/refresh?redirect=/dashboard
+ * 6. Si es válido → continúa con los claims en los headers (getSessionHeaders)
  *
  * @param request - NextRequest entrante
  * @returns AuthCheckResult con estado de autenticación
  */
-export function checkAuth(request: NextRequest): AuthCheckResult {
+export async function checkAuth(request: NextRequest): Promise<AuthCheckResult> {
   const pathname = request.nextUrl.pathname;
 
-  // Verificar si tiene cookie de acceso
-  const accessToken = request.cookies.get(AUTH_COOKIES.ACCESS_TOKEN)?.value;
-  const isAuthenticated = !!accessToken;
+  // Un token caducado o con firma inválida no cuenta como sesión
+  const session = await readAccessToken(request);
+  const isAuthenticated =
+    session?.status === "valid" || session?.status === "unverified";
 
   // Si la ruta no requiere auth, continuar
   if (!isProtectedRoute(pathname)) {
+    return isAuthenticated
+      ? {
+          isAuthenticated,
+          userId: session.userId,
+          role: session.role,
+          mfa: session.mfa,
+          isVerified: session.status === "valid",
+          shouldRedirect: false,
+        }
+      : { isAuthenticated, shouldRedirect: false };
+  }
+
+  // Token caducado → refresh silencioso, salvo si se acaba de intentar
+  if (
+    session?.status === "expired" &&
+    request.cookies.has(AUTH_COOKIES.REFRESH_TOKEN) &&
+    !request.cookies.has(AUTH_COOKIES.REFRESH_ATTEMPT)
+  ) {
     return {
-      isAuthenticated,
-      shouldRedirect: false,
+      isAuthenticated: false,
+      shouldRedirect: true,
+      isRefresh: true,
+      redirectUrl: getAuthPageUrl(request, REFRESH_REDIRECT),
     };
   }
 
   // Ruta protegida sin autenticación → redirect a login
   if (!isAuthenticated) {
-    // Guardar la URL original para redirect después del login
-    const redirectUrl = new URL(LOGIN_REDIRECT, request.url);
-    redirectUrl.searchParams.set("redirect", pathname);
-
     return {
       isAuthenticated: false,
       shouldRedirect: true,
-      redirectUrl: redirectUrl.toString(),
+      redirectUrl: getAuthPageUrl(request, LOGIN_REDIRECT),
+    };
+  }
+
+  const { userId, role = DEFAULT_USER_ROLE, mfa = false } = session;
+  const isVerified = session.status === "valid";
+
+  // Ruta con rol: el claim del token debe alcanzarlo
+  const requiredRole = getRequiredRole(pathname);
+
+  if (requiredRole && !hasRole(role, requiredRole)) {
+    const locale = pathname.match(LOCALE_PREFIX)?.[1] ?? routing.defaultLocale;
+
+    return {
+      isAuthenticated: true,
+      userId,
+      role,
+      mfa,
+      isVerified,
+      shouldRedirect: false,
+      isForbidden: true,
+      forbiddenUrl: new URL(`/${locale}${FORBIDDEN_PAGE}`, request.url).toString(),
+    };
+  }
+
+  // Roles de administración: la sesión debe incluir la verificación en dos
+  // pasos en cualquier ruta protegida, salvo la página que la configura
+  if (isMfaRequired(role) && !mfa && !matchRoute(pathname, MFA_SETUP_PAGE)) {
+    return {
+      isAuthenticated: true,
+      userId,
+      role,
+      mfa,
+      isVerified,
+      shouldRedirect: true,
+      redirectUrl: getAuthPageUrl(request, MFA_SETUP_PAGE),
     };
   }
 
   // Autenticado, continuar
   return {
     isAuthenticated: true,
+    userId,
+    role,
+    mfa,
+    isVerified,
     shouldRedirect: false,
   };
 }
 
 /**
  * Aplica el middleware de autenticación.
- * Retorna una response de redirect si es necesario, o undefined para continuar.
+ * Retorna una response de redirect (sin sesión, con el token caducado o
+ * sin la verificación en dos pasos que exige su rol) o un rewrite a la
+ * página 403 (sin el rol requerido) si es necesario, o undefined para
+ * continuar.
  *
  * @param request - NextRequest entrante
- * @returns NextResponse redirect o undefined
+ * @param authCheck - Resultado de checkAuth si ya se ha calculado
+ * @returns NextResponse redirect/rewrite o undefined
  */
-export function authMiddleware(
-  request: NextRequest
-): NextResponse | undefined {
-  const authCheck = checkAuth(request);
+export async function authMiddleware(
+  request: NextRequest,
+  authCheck?: AuthCheckResult
+): Promise<NextResponse | undefined> {
+  const { shouldRedirect, redirectUrl, isRefresh, isForbidden, forbiddenUrl } =
+    authCheck ?? (await checkAuth(request));
+
+  if (shouldRedirect && redirectUrl) {
+    const response = NextResponse.redirect(redirectUrl);
+
+    // Si tras el refresh el token sigue caducado, la siguiente vez va al login
+    if (isRefresh) {
+      response.cookies.set(AUTH_COOKIES.REFRESH_ATTEMPT, "1", {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: TOKEN_CONFIG.refreshAttemptSeconds,
+      });
+    }
+    return response;
+  }
 
-  if (authCheck.shouldRedirect && authCheck.redirectUrl) {
-    return NextResponse.redirect(authCheck.redirectUrl);
+  // Rewrite (no redirect): la URL se mantiene y el status es 403
+  if (isForbidden && forbiddenUrl) {
+    return NextResponse.rewrite(forbiddenUrl, { status: 403 });
   }
 
   return undefined;
 }
 
+/**
+ * Headers de la petición para los handlers de después del middleware.
+ *
+ * Siempre elimina los headers de sesión que traiga el cliente y, con
+ * sesión, añade el ID, el rol y si el token incluye el segundo paso. Con
+ * la verificación configurada solo se añaden para tokens verificados.
+ *
+ * @example
+ * ```ts
+ * NextResponse.next({
+ *   request: { headers: getSessionHeaders(request, await checkAuth(request)) },
+ * });
+ * ```
+ */
+export function getSessionHeaders(
+  request: NextRequest,
+  authCheck: AuthCheckResult
+): Headers {
+  const headers = new Headers(request.headers);
+  headers.delete(HEADERS.USER_ID);
+  headers.delete(HEADERS.USER_ROLE);
+  headers.delete(HEADERS.USER_MFA);
+
+  if (authCheck.isAuthenticated && authCheck.userId) {
+    headers.set(HEADERS.USER_ID, authCheck.userId);
+    headers.set(HEADERS.USER_ROLE, authCheck.role ?? DEFAULT_USER_ROLE);
+    headers.set(HEADERS.USER_MFA, String(authCheck.mfa ?? false));
+  }
+
+  return headers;
+}
+
 /**
  * Verifica si el usuario está autenticado (tiene cookie).
  * Útil para lógica condicional en componentes.
@@ -1,9 +1,12 @@
 /**
  * Configuración del middleware.
  *
- * Define rutas protegidas, públicas, y configuración de seguridad.
+ * Define rutas protegidas, públicas, roles requeridos y configuración de
+ * seguridad.
  */
 
+import { hasRole, type UserRole } from "@lib/auth/roles";
+
 /**
  * Rutas que requieren autenticación.
  * Usar glob patterns con ** para subdirectorios.
@@ -15,8 +18,23 @@ export const PROTECTED_ROUTES = [
   "/messages/**",
   "/bands/create",
   "/bands/*/edit",
+  "/account",
+  "/account/**",
+  "/admin",
+  "/admin/**",
 ] as const;
 
+/**
+ * Rol mínimo por ruta (las rutas también deben estar en PROTECTED_ROUTES).
+ * Si varias coinciden, se exige el rol más alto.
+ */
+export const ROLE_ROUTES: readonly { pattern: string; role: UserRole }[] = [
+  { pattern: "/admin", role: "admin" },
+  { pattern: "/admin/**", role: "admin" },
+  { pattern: "/admin/settings", role: "super_admin" },
+  { pattern: "/admin/settings/**", role: "super_admin" },
+];
+
 /**
  * Rutas que son siempre públicas (no requieren auth check).
  * Útil para páginas de auth y landing.
@@ -48,12 +66,55 @@ export const SKIP_MIDDLEWARE_ROUTES = [
 /**
  * Ruta de redirección cuando el usuario no está autenticado.
  */
-export const LOGIN_REDIRECT = "/login";
+export const LOGIN_REDIRECT = "/auth/login";
 
 /**
- * Ruta de redirección después del login exitoso.
+ * Ruta de redirección después del login exitoso (sin ?redirect=).
  */
-export const AFTER_LOGIN_REDIRECT = "/dashboard";
+export const AFTER_LOGIN_REDIRECT = "/";
+
+/**
+ * Página que se muestra (con status 403) cuando falta el rol requerido.
+ */
+export const FORBIDDEN_PAGE = "/forbidden";
+
+/**
+ * Página de la verificación en dos pasos. Las sesiones con rol admin o
+ * superior redirigen aquí (con ?redirect=) desde las rutas protegidas si el
+ * token no la incluye.
+ */
+export const MFA_SETUP_PAGE = "/account/security";
+
+/**
+ * Página que renueva la sesión con el refresh token cuando el access token
+ * ha caducado, y vuelve a la ruta original (?redirect=).
+ */
+export const REFRESH_REDIRECT = "/auth/refresh";
+
+/**
+ * Configuración de la verificación del access token.
+ *
+ * La verificación se activa con AUTH_JWT_SECRET (HS256) y/o AUTH_JWKS_PATH
+ * (RS256, las rutas relativas se resuelven contra SITE_URL); sin ninguna
+ * de las dos solo se comprueba la presencia del token.
+ */
+export const TOKEN_CONFIG = {
+  /**
+   * Margen (segundos) para el desfase de reloj con el backend.
+   */
+  clockToleranceSeconds: 30,
+
+  /**
+   * Tiempo (segundos) que se cachea el JWKS.
+   */
+  jwksCacheSeconds: 600,
+
+  /**
+   * Tiempo (segundos) durante el que no se repite el refresh silencioso:
+   * si el token sigue caducado después de renovarlo, se manda al login.
+   */
+  refreshAttemptSeconds: 60,
+} as const;
 
 /**
  * Configuración de headers de seguridad.
@@ -128,3 +189,23 @@ export function isProtectedRoute(path: string): boolean {
   // Si está en rutas protegidas explícitamente
   return isRouteInList(path, PROTECTED_ROUTES);
 }
+
+/**
+ * Rol mínimo que exige una ruta.
+ *
+ * @returns El rol más alto de los patrones que coinciden, o undefined si
+ * basta con estar autenticado
+ *
+ * @example
+ * getRequiredRole("/admin/orders") // "admin"
+ * getRequiredRole("/en/admin/settings/payments") // "super_admin"
+ * getRequiredRole("/account") // undefined
+ */
+export function getRequiredRole(path: string): UserRole | undefined {
+  return ROLE_ROUTES.filter(({ pattern }) => matchRoute(path, pattern)).reduce<
+    UserRole | undefined
+  >(
+    (required, { role }) => (!required || hasRole(role, required) ? role : required),
+    undefined
+  );
+}
@@ -3,7 +3,8 @@
  *
  * Proporciona funcionalidades de middleware para Next.js:
  * - Correlation IDs para tracing end-to-end
- * - Auth checks para rutas protegidas
+ * - Auth checks para rutas protegidas y rutas con rol
+ * - Verificación opcional del access token (HS256 / RS256 con JWKS)
  * - Security headers y CSRF protection
  *
  * @example
@@ -37,14 +38,20 @@ export {
 // Config
 export {
   PROTECTED_ROUTES,
+  ROLE_ROUTES,
   PUBLIC_ROUTES,
   SKIP_MIDDLEWARE_ROUTES,
   LOGIN_REDIRECT,
   AFTER_LOGIN_REDIRECT,
+  FORBIDDEN_PAGE,
+  REFRESH_REDIRECT,
+  MFA_SETUP_PAGE,
+  TOKEN_CONFIG,
   SECURITY_CONFIG,
   matchRoute,
   isRouteInList,
   isProtectedRoute,
+  getRequiredRole,
 } from "./config";
 
 // Correlation
@@ -61,10 +68,25 @@ export {
   type AuthCheckResult,
   checkAuth,
   authMiddleware,
+  getSessionHeaders,
   isAuthenticated,
   getPostLoginRedirect,
 } from "./auth";
 
+// Tokens
+export {
+  type AccessTokenStatus,
+  type AccessTokenSession,
+  type AccessTokenVerificationConfig,
+  getAccessTokenVerificationConfig,
+  isAccessTokenVerificationEnabled,
+  canTrustUnverifiedClaims,
+  loadJwks,
+  resolveJwksUrl,
+  clearJwksCache,
+  readAccessToken,
+} from "./tokens";
+
 // Security
 export {
   applySecurityHeaders,
@@ -0,0 +1,201 @@
+/**
+ * Verificación del access token.
+ *
+ * Opcional y configurable por entorno:
+ * - AUTH_JWT_SECRET: secreto compartido con el backend (tokens HS256)
+ * - AUTH_JWKS_PATH: JWKS con las claves públicas (tokens RS256). URL
+ *   absoluta o ruta relativa al sitio (p.ej. "/.well-known/jwks.json" en
+ *   public/), que se resuelve contra SITE_URL y nunca contra la URL de la
+ *   petición: su host lo elige el cliente (cabecera Host), que podría así
+ *   servir sus propias claves. Sin SITE_URL, una ruta relativa deja los
+ *   tokens RS256 sin verificar (se rechazan)
+ *
+ * Sin ninguna de las dos, el token se decodifica sin verificar (solo se
+ * comprueba su presencia). En producción, además, no se confía en el rol ni
+ * en el segundo paso de esos tokens: cualquiera podría forjar la cookie de
+ * un admin, así que la sesión cuenta como la de un cliente y las rutas con
+ * rol se deniegan.
+ */
+
+import type { NextRequest } from "next/server";
+import {
+  decodeJwtClaims,
+  getJwtSubject,
+  verifyJwt,
+  type JsonWebKeySet,
+  type JwtClaims,
+} from "@lib/auth/jwt";
+import { hasMfaClaim } from "@lib/auth/mfa";
+import { DEFAULT_USER_ROLE, parseUserRole, type UserRole } from "@lib/auth/roles";
+import { AUTH_COOKIES } from "./types";
+import { TOKEN_CONFIG } from "./config";
+
+/**
+ * Estado del access token de la petición.
+ * - valid: firma y caducidad verificadas
+ * - unverified: verificación no configurada, claims sin verificar
+ * - expired: firma válida pero caducado (se puede renovar)
+ * - invalid: firma incorrecta, formato inválido o algoritmo no configurado
+ */
+export type AccessTokenStatus = "valid" | "unverified" | "expired" | "invalid";
+
+/**
+ * Sesión leída del access token.
+ */
+export interface AccessTokenSession {
+  status: AccessTokenStatus;
+  userId?: string;
+  role?: UserRole;
+  /** El token se emitió tras la verificación en dos pasos (claim `amr`) */
+  mfa?: boolean;
+}
+
+/**
+ * Claves configuradas para verificar el token.
+ */
+export interface AccessTokenVerificationConfig {
+  secret?: string;
+  /** URL absoluta del JWKS (null si AUTH_JWKS_PATH no se puede resolver) */
+  jwksUrl?: string | null;
+}
+
+/**
+ * Resuelve AUTH_JWKS_PATH contra el origen configurado del sitio.
+ *
+ * @returns URL absoluta, o null si la ruta es relativa y falta SITE_URL
+ *
+ * @example
+ * resolveJwksUrl("/.well-known/jwks.json", "https://ayladesigns.me")
+ * // "https://ayladesigns.me/.well-known/jwks.json"
+ */
+export function resolveJwksUrl(
+  jwksPath: string,
+  siteUrl: string | undefined = process.env.SITE_URL
+): string | null {
+  try {
+    return new URL(jwksPath, siteUrl || undefined).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lee la configuración de verificación del entorno.
+ *
+ * @returns Configuración, o null si la verificación está desactivada
+ */
+export function getAccessTokenVerificationConfig(): AccessTokenVerificationConfig | null {
+  const secret = process.env.AUTH_JWT_SECRET || undefined;
+  const jwksPath = process.env.AUTH_JWKS_PATH || undefined;
+
+  if (!secret && !jwksPath) return null;
+
+  return { secret, jwksUrl: jwksPath ? resolveJwksUrl(jwksPath) : undefined };
+}
+
+/**
+ * Verifica si la firma del access token se comprueba.
+ */
+export function isAccessTokenVerificationEnabled(): boolean {
+  return getAccessTokenVerificationConfig() !== null;
+}
+
+/**
+ * Verifica si se confía en el rol y el segundo paso de un token sin
+ * verificar (solo fuera de producción).
+ */
+export function canTrustUnverifiedClaims(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+/** JWKS descargados por URL, con su caducidad (ms) */
+const jwksCache = new Map<string, { jwks: JsonWebKeySet; expiresAt: number }>();
+
+/**
+ * Descarga el JWKS (cacheado TOKEN_CONFIG.jwksCacheSeconds).
+ *
+ * @throws Error si la respuesta no es un JWKS
+ */
+export async function loadJwks(url: string): Promise<JsonWebKeySet> {
+  const cached = jwksCache.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.jwks;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`JWKS request failed with status ${response.status}`);
+  }
+
+  const jwks = (await response.json()) as Partial<JsonWebKeySet> | null;
+  if (!Array.isArray(jwks?.keys)) {
+    throw new Error("JWKS response has no keys");
+  }
+
+  const keySet = { keys: jwks.keys };
+  jwksCache.set(url, {
+    jwks: keySet,
+    expiresAt: Date.now() + TOKEN_CONFIG.jwksCacheSeconds * 1000,
+  });
+  return keySet;
+}
+
+/**
+ * Vacía la caché del JWKS (tests y rotación de claves).
+ */
+export function clearJwksCache(): void {
+  jwksCache.clear();
+}
+
+function toSession(status: AccessTokenStatus, claims: JwtClaims | null): AccessTokenSession {
+  const userId = getJwtSubject(claims) ?? undefined;
+
+  // Sin verificación en producción: solo se conserva el usuario
+  if (status === "unverified" && !canTrustUnverifiedClaims()) {
+    return { status, userId, role: DEFAULT_USER_ROLE, mfa: false };
+  }
+
+  return {
+    status,
+    userId,
+    role: parseUserRole(claims?.role),
+    mfa: hasMfaClaim(claims),
+  };
+}
+
+/**
+ * Lee y (si está configurado) verifica el access token de la petición.
+ *
+ * @param request - NextRequest
+ * @returns Sesión del token, o null si no hay cookie access_token
+ */
+export async function readAccessToken(
+  request: NextRequest
+): Promise<AccessTokenSession | null> {
+  const token = request.cookies.get(AUTH_COOKIES.ACCESS_TOKEN)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const config = getAccessTokenVerificationConfig();
+  if (!config) {
+    return toSession("unverified", decodeJwtClaims(token));
+  }
+
+  const { jwksUrl } = config;
+  const result = await verifyJwt(token, {
+    secret: config.secret,
+    getJwks:
+      jwksUrl === undefined
+        ? undefined
+        : () =>
+            jwksUrl
+              ? loadJwks(jwksUrl)
+              : Promise.reject(new Error("AUTH_JWKS_PATH is relative and SITE_URL is not set")),
+    clockToleranceSeconds: TOKEN_CONFIG.clockToleranceSeconds,
+  });
+
+  return result.status === "invalid"
+    ? { status: "invalid" }
+    : toSession(result.status, result.claims);
+}
@@ -30,6 +30,12 @@ export const HEADERS = {
   REQUEST_ID: "X-Request-ID",
   PROCESS_TIME: "X-Process-Time",
   CSRF_TOKEN: "X-CSRF-Token",
+  /** ID del usuario del access token (lo fija el middleware, nunca el cliente) */
+  USER_ID: "X-User-ID",
+  /** Rol del usuario del access token */
+  USER_ROLE: "X-User-Role",
+  /** "true" si el access token se emitió tras la verificación en dos pasos */
+  USER_MFA: "X-User-MFA",
 } as const;
 
 /**
@@ -38,4 +44,6 @@ export const HEADERS = {
 export const AUTH_COOKIES = {
   ACCESS_TOKEN: "access_token",
   REFRESH_TOKEN: "refresh_token",
+  /** Marca un intento de refresh silencioso reciente (evita bucles) */
+  REFRESH_ATTEMPT: "auth_refresh_attempt",
 } as const;
@@ -8,6 +8,13 @@ const nextConfig: NextConfig = {
   // Enable standalone output for Docker deployment
   output: "standalone",
 
+  // Product images served by the backend (HTTP catalog repository)
+  images: {
+    remotePatterns: process.env.NEXT_PUBLIC_API_URL
+      ? [new URL("/**", process.env.NEXT_PUBLIC_API_URL)]
+      : [],
+  },
+
   // Using webpack instead of Turbopack for better compatibility with Sentry
   // Turbopack has issues with circular dependencies during SSR
   async headers() {
@@ -0,0 +1,52 @@
+/**
+ * RequireRole Component
+ *
+ * Guard de cliente: solo renderiza sus hijos si el usuario autenticado
+ * tiene el rol requerido (o uno superior). Si no, muestra el fallback.
+ *
+ * SEGURIDAD:
+ * - Solo oculta UI: las rutas con rol las protege el middleware
+ *   (ROLE_ROUTES) y los route handlers usan `requireRole()`
+ * - El rol sale del usuario del store (mapeado desde el backend)
+ *
+ * @example
+ * ```tsx
+ * <RequireRole role="admin" fallback={<Typography>Sin acceso</Typography>}>
+ *   <ModerationQueue />
+ * </RequireRole>
+ * ```
+ */
+
+"use client";
+
+import type { ReactNode } from "react";
+import { hasRole, type UserRole } from "@lib/auth/roles";
+import { useCurrentUser, useIsAuthenticated } from "@store";
+
+// ============================================
+// Types
+// ============================================
+
+export interface RequireRoleProps {
+  /** Rol mínimo para ver el contenido */
+  role: UserRole;
+  /** Contenido protegido */
+  children: ReactNode;
+  /** Contenido sin sesión o sin el rol (por defecto, nada) */
+  fallback?: ReactNode;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function RequireRole({ role, children, fallback = null }: RequireRoleProps) {
+  const user = useCurrentUser();
+  const isAuthenticated = useIsAuthenticated();
+
+  if (!isAuthenticated || !user || !hasRole(user.role, role)) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
@@ -4,3 +4,5 @@
 
 export { SessionProvider } from "./SessionProvider";
 export type { SessionProviderProps } from "./SessionProvider";
+export { RequireRole } from "./RequireRole";
+export type { RequireRoleProps } from "./RequireRole";
@@ -1,14 +1,21 @@
-import { NextResponse, type NextRequest } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import createIntlMiddleware from "next-intl/middleware";
 import { routing } from "./i18n/routing";
 import {
   correlationMiddleware,
+  checkAuth,
   authMiddleware,
+  getSessionHeaders,
   securityMiddleware,
   isRouteInList,
   SKIP_MIDDLEWARE_ROUTES,
 } from "./middleware";
 
+/**
+ * Rutas que se saltan el middleware pero reciben los headers de sesión.
+ */
+const SESSION_HEADER_ROUTES = ["/api/**"] as const;
+
 /**
  * Middleware i18n de next-intl.
  */
@@ -18,9 +25,10 @@ const intlMiddleware = createIntlMiddleware(routing);
  * Proxy/Middleware principal para Next.js 16.
  *
  * Cadena de middlewares:
- * 1. Skip check - Salta rutas que no necesitan middleware
- * 2. Auth - Verifica autenticación para rutas protegidas
- * 3. i18n - Detección y routing de locale
+ * 1. Skip check - Salta rutas que no necesitan middleware (las APIs solo
+ *    reciben los headers de sesión)
+ * 2. Auth - Verifica el access token y la autenticación para rutas protegidas
+ * 3. i18n - Detección y routing de locale, con los headers de sesión
  * 4. Correlation - Añade IDs de tracing
  * 5. Security - Headers de seguridad y CSRF
  *
@@ -34,17 +42,29 @@ export default async function middleware(
 
   // 1. Skip rutas que no necesitan middleware
   if (isRouteInList(pathname, SKIP_MIDDLEWARE_ROUTES)) {
+    // Los route handlers leen la sesión de los headers (sin redirects)
+    if (isRouteInList(pathname, SESSION_HEADER_ROUTES)) {
+      const headers = getSessionHeaders(request, await checkAuth(request));
+      return NextResponse.next({ request: { headers } });
+    }
     return NextResponse.next();
   }
 
-  // 2. Auth middleware - puede retornar redirect
-  const authResponse = authMiddleware(request);
+  // 2. Auth middleware - puede retornar redirect o la página 403
+  const authCheck = await checkAuth(request);
+  const authResponse = await authMiddleware(request, authCheck);
   if (authResponse) {
     return authResponse;
   }
 
-  // 3. i18n middleware - maneja locale detection y routing
-  const response = intlMiddleware(request);
+  // 3. i18n middleware - maneja locale detection y routing. next-intl
+  // reenvía los headers de esta petición (con los claims de la sesión)
+  const response = intlMiddleware(
+    new NextRequest(request.url, {
+      method: request.method,
+      headers: getSessionHeaders(request, authCheck),
+    })
+  );
 
   // 4. Correlation middleware - añade IDs de tracing
   correlationMiddleware(request, response);
@@ -57,6 +77,7 @@ export default async function middleware(
 
 export const config = {
   // Matcher para aplicar el middleware
-  // Excluye: archivos estáticos con extensión
-  matcher: "/((?!.*\\..*).*)",
+  // Excluye: archivos estáticos con extensión (salvo en /api, que siempre
+  // pasa para que nadie pueda enviar headers de sesión propios)
+  matcher: ["/((?!.*\\..*).*)", "/api/:path*"],
 };
@@ -17,6 +17,7 @@
  * ```
  */
 
+import { useSyncExternalStore } from "react";
 import { create } from "zustand";
 import { devtools, persist, subscribeWithSelector } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
@@ -25,7 +26,10 @@ import { useShallow } from "zustand/react/shallow";
 import { createAuthSlice } from "./slices/authSlice";
 import { createUISlice } from "./slices/uiSlice";
 import { createSearchSlice } from "./slices/searchSlice";
+import { createFavoritesSlice } from "./slices/favoritesSlice";
+import { createRecentlyViewedSlice } from "./slices/recentlyViewedSlice";
 import { createConsentSlice } from "./slices/consentSlice";
+import { parseUserRole } from "@lib/auth/roles";
 import type { StoreState, PersistedState } from "./types";
 
 /**
@@ -57,6 +61,18 @@ export const useStore = create<StoreState>()(
             () => get(),
             store
           ),
+          favorites: createFavoritesSlice(
+            // @ts-expect-error - Zustand slice pattern requires this
+            (fn) => set((state) => { fn(state); }),
+            () => get(),
+            store
+          ),
+          recentlyViewed: createRecentlyViewedSlice(
+            // @ts-expect-error - Zustand slice pattern requires this
+            (fn) => set((state) => { fn(state); }),
+            () => get(),
+            store
+          ),
           consent: createConsentSlice(
             // @ts-expect-error - Zustand slice pattern requires this
             (fn) => set((state) => { fn(state); }),
@@ -66,7 +82,7 @@ export const useStore = create<StoreState>()(
         })),
         {
           name: "ayla-store",
-          version: 2, // Incrementar versión por cambio de schema
+          version: 3, // Incrementar versión por cambio de schema
           // Solo persistir datos NO sensibles - tokens van en httpOnly cookies
           partialize: (state): PersistedState => ({
             auth: {
@@ -75,8 +91,15 @@ export const useStore = create<StoreState>()(
             },
             ui: {
               theme: state.ui.theme,
+              currency: state.ui.currency,
               sidebarCollapsed: state.ui.sidebarCollapsed,
             },
+            favorites: {
+              productIds: state.favorites.productIds,
+            },
+            recentlyViewed: {
+              productIds: state.recentlyViewed.productIds,
+            },
           }),
           // Deep merge para preservar las acciones de los slices durante rehidratación
           // El shallow merge por defecto sobrescribe los slices completos, perdiendo las funciones
@@ -92,6 +115,14 @@ export const useStore = create<StoreState>()(
                 ...currentState.ui,
                 ...(persisted?.ui || {}),
               },
+              favorites: {
+                ...currentState.favorites,
+                ...(persisted?.favorites || {}),
+              },
+              recentlyViewed: {
+                ...currentState.recentlyViewed,
+                ...(persisted?.recentlyViewed || {}),
+              },
               // search y consent no se persisten, mantener currentState
             };
           },
@@ -103,16 +134,23 @@ export const useStore = create<StoreState>()(
               state.auth.isAuthenticated = true;
             }
           },
-          // Migrar desde versión anterior (que tenía tokens)
+          // Migrar desde versiones anteriores
           migrate: (persistedState, version) => {
-            if (version < 2) {
+            const oldState = persistedState as Record<string, unknown>;
+            const authState =
+              oldState.auth && typeof oldState.auth === "object"
+                ? (oldState.auth as Record<string, unknown>)
+                : null;
+
+            if (version < 2 && authState) {
               // Limpiar tokens de la versión anterior
-              const oldState = persistedState as Record<string, unknown>;
-              if (oldState.auth && typeof oldState.auth === "object") {
-                const authState = oldState.auth as Record<string, unknown>;
-                delete authState.token;
-                delete authState.refreshToken;
-              }
+              delete authState.token;
+              delete authState.refreshToken;
+            }
+            if (version < 3 && authState?.user && typeof authState.user === "object") {
+              // Roles anteriores (musician, band_manager...) → customer/admin/super_admin
+              const user = authState.user as Record<string, unknown>;
+              user.role = parseUserRole(user.role);
             }
             return persistedState as PersistedState;
           },
@@ -151,6 +189,22 @@ export const useSearch = <T>(selector: (state: StoreState["search"]) => T): T =>
   return useStore((state) => selector(state.search));
 };
 
+/**
+ * Selector para el slice de favoritos
+ */
+export const useFavorites = <T>(selector: (state: StoreState["favorites"]) => T): T => {
+  return useStore((state) => selector(state.favorites));
+};
+
+/**
+ * Selector para el slice de productos vistos recientemente
+ */
+export const useRecentlyViewed = <T>(
+  selector: (state: StoreState["recentlyViewed"]) => T
+): T => {
+  return useStore((state) => selector(state.recentlyViewed));
+};
+
 /**
  * Selector para el slice de consentimiento (GDPR)
  */
@@ -172,6 +226,8 @@ export const useAuthActions = () => {
       login: state.auth.login,
       loginWithGoogle: state.auth.loginWithGoogle,
       handleGoogleCallback: state.auth.handleGoogleCallback,
+      verifyMfa: state.auth.verifyMfa,
+      cancelMfa: state.auth.cancelMfa,
       logout: state.auth.logout,
       register: state.auth.register,
       refreshSession: state.auth.refreshSession,
@@ -191,6 +247,7 @@ export const useUIActions = () => {
   return useStore(
     useShallow((state) => ({
       setTheme: state.ui.setTheme,
+      setCurrency: state.ui.setCurrency,
       toggleSidebar: state.ui.toggleSidebar,
       setSidebarOpen: state.ui.setSidebarOpen,
       setSidebarCollapsed: state.ui.setSidebarCollapsed,
@@ -214,10 +271,35 @@ export const useSearchActions = () => {
   return useStore(
     useShallow((state) => ({
       setQuery: state.search.setQuery,
-      setFilters: state.search.setFilters,
-      clearFilters: state.search.clearFilters,
-      search: state.search.search,
-      clearResults: state.search.clearResults,
+    }))
+  );
+};
+
+/**
+ * Acciones del slice de favoritos
+ * Usa useShallow para suscripción estable sin re-renders innecesarios
+ */
+export const useFavoritesActions = () => {
+  return useStore(
+    useShallow((state) => ({
+      addFavorite: state.favorites.addFavorite,
+      removeFavorite: state.favorites.removeFavorite,
+      toggleFavorite: state.favorites.toggleFavorite,
+      setFavorites: state.favorites.setFavorites,
+      clearFavorites: state.favorites.clearFavorites,
+    }))
+  );
+};
+
+/**
+ * Acciones del slice de productos vistos recientemente
+ * Usa useShallow para suscripción estable sin re-renders innecesarios
+ */
+export const useRecentlyViewedActions = () => {
+  return useStore(
+    useShallow((state) => ({
+      recordView: state.recentlyViewed.recordView,
+      clearRecentlyViewed: state.recentlyViewed.clearRecentlyViewed,
     }))
   );
 };
@@ -249,17 +331,47 @@ export const useCurrentUser = () => useAuth((state) => state.user);
 /** Si el usuario está autenticado */
 export const useIsAuthenticated = () => useAuth((state) => state.isAuthenticated);
 
+/** Login pendiente del segundo paso, o null */
+export const useMfaChallenge = () => useAuth((state) => state.mfaChallenge);
+
 /** Tema actual */
 export const useTheme = () => useUI((state) => state.theme);
 
+/** Moneda seleccionada para mostrar precios */
+export const useCurrency = () => useUI((state) => state.currency);
+
 /** Lista de notificaciones */
 export const useNotifications = () => useUI((state) => state.notifications);
 
 /** Si hay modales abiertos */
 export const useHasModals = () => useUI((state) => state.modals.length > 0);
 
-/** Si está buscando */
-export const useIsSearching = () => useSearch((state) => state.isSearching);
+const NO_PRODUCT_IDS: number[] = [];
+
+/**
+ * IDs de los productos favoritos
+ * Vacío al renderizar en el servidor, que no conoce el localStorage
+ */
+export const useFavoriteIds = () =>
+  useSyncExternalStore(
+    useStore.subscribe,
+    () => useStore.getState().favorites.productIds,
+    () => NO_PRODUCT_IDS
+  );
+
+/** Si el producto está en favoritos */
+export const useIsFavorite = (productId: number) => useFavoriteIds().includes(productId);
+
+/**
+ * IDs de los productos vistos recientemente, el más reciente primero
+ * Vacío al renderizar en el servidor, que no conoce el localStorage
+ */
+export const useRecentlyViewedIds = () =>
+  useSyncExternalStore(
+    useStore.subscribe,
+    () => useStore.getState().recentlyViewed.productIds,
+    () => NO_PRODUCT_IDS
+  );
 
 /** Preferencias de consentimiento */
 export const useConsentPreferences = () => useConsent((state) => state.preferences);
@@ -4,6 +4,7 @@
  * Maneja:
  * - Login/Logout con credenciales
  * - Login con Google OAuth
+ * - Segundo paso del login (verificación en dos pasos con TOTP)
  * - Registro
  * - Refresh de sesión
  * - Estado del usuario
@@ -17,7 +18,13 @@
 import type { StateCreator } from "zustand";
 import type { StoreState, AuthSlice, AuthState, RegisterData, User } from "../types";
 import { logger } from "@lib/logger";
-import { authService, type AuthUser } from "@lib/services/auth";
+import {
+  authService,
+  isMfaChallenge,
+  type AuthUser,
+  type MfaMethod,
+} from "@lib/services/auth";
+import { parseUserRole } from "@lib/auth/roles";
 import { ApiError } from "@/errors";
 
 const initialState: AuthState = {
@@ -26,6 +33,7 @@ const initialState: AuthState = {
   isLoading: false,
   error: null,
   authMethod: null,
+  mfaChallenge: null,
 };
 
 /**
@@ -39,7 +47,8 @@ function mapAuthUserToUser(authUser: AuthUser): User {
       ? `${authUser.first_name} ${authUser.last_name || ""}`.trim()
       : authUser.username,
     avatar: authUser.profile_image || undefined,
-    role: (authUser.role as User["role"]) || "musician",
+    role: parseUserRole(authUser.role),
+    mfaEnabled: authUser.mfa_enabled ?? false,
     createdAt: authUser.created_at,
   };
 }
@@ -54,17 +63,34 @@ export const createAuthSlice: StateCreator<
 
   /**
    * Login con email y password
-   * El backend setea cookies httpOnly con los tokens
+   * El backend setea cookies httpOnly con los tokens. Si la cuenta tiene la
+   * verificación en dos pasos, queda el reto en `mfaChallenge` y la sesión
+   * se inicia con `verifyMfa`
    */
   login: async (email: string, password: string) => {
     set((state) => {
       state.auth.isLoading = true;
       state.auth.error = null;
+      state.auth.mfaChallenge = null;
     });
 
     try {
       const { data } = await authService.login(email, password);
 
+      if (isMfaChallenge(data)) {
+        set((state) => {
+          state.auth.mfaChallenge = {
+            token: data.mfa_token,
+            methods: data.methods,
+            authMethod: "credentials",
+          };
+          state.auth.isLoading = false;
+        });
+
+        logger.info("Login requires second factor", { methods: data.methods });
+        return;
+      }
+
       set((state) => {
         state.auth.user = mapAuthUserToUser(data.user);
         state.auth.isAuthenticated = true;
@@ -154,6 +180,21 @@ export const createAuthSlice: StateCreator<
         sessionStorage.removeItem("google_oauth_state");
       }
 
+      // Cuenta con verificación en dos pasos: el login sigue en la página de login
+      if (isMfaChallenge(data)) {
+        set((state) => {
+          state.auth.mfaChallenge = {
+            token: data.mfa_token,
+            methods: data.methods,
+            authMethod: "google",
+          };
+          state.auth.isLoading = false;
+        });
+
+        logger.info("Google login requires second factor", { methods: data.methods });
+        return;
+      }
+
       set((state) => {
         state.auth.user = mapAuthUserToUser(data.user);
         state.auth.isAuthenticated = true;
@@ -181,6 +222,68 @@ export const createAuthSlice: StateCreator<
     }
   },
 
+  /**
+   * Segundo paso del login con un código TOTP o de recuperación
+   * Si el reto ha caducado se descarta y hay que volver a iniciar sesión
+   */
+  verifyMfa: async (code: string, method: MfaMethod = "totp") => {
+    const challenge = get().auth.mfaChallenge;
+    if (!challenge) {
+      throw new Error("No login is waiting for a second factor");
+    }
+
+    set((state) => {
+      state.auth.isLoading = true;
+      state.auth.error = null;
+    });
+
+    try {
+      const { data } = await authService.verifyMfa({
+        mfa_token: challenge.token,
+        ...(method === "recovery_code" ? { recovery_code: code } : { code }),
+      });
+
+      set((state) => {
+        state.auth.user = mapAuthUserToUser(data.user);
+        state.auth.isAuthenticated = true;
+        state.auth.isLoading = false;
+        state.auth.authMethod = challenge.authMethod;
+        state.auth.mfaChallenge = null;
+      });
+
+      logger.info("User completed second factor", { userId: data.user.id, method });
+    } catch (error) {
+      const message =
+        error instanceof ApiError
+          ? error.userMessage
+          : error instanceof Error
+            ? error.message
+            : "Verification failed";
+      const isExpired = error instanceof ApiError && error.apiCode === "MFA_CHALLENGE_EXPIRED";
+
+      set((state) => {
+        state.auth.error = message;
+        state.auth.isLoading = false;
+        if (isExpired) state.auth.mfaChallenge = null;
+      });
+
+      logger.warn("Second factor failed", error instanceof Error ? error : undefined, {
+        method,
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Descarta el login pendiente del segundo paso (volver a la contraseña)
+   */
+  cancelMfa: () => {
+    set((state) => {
+      state.auth.mfaChallenge = null;
+      state.auth.error = null;
+    });
+  },
+
   /**
    * Logout - Limpia cookies y estado local
    */
@@ -203,6 +306,7 @@ export const createAuthSlice: StateCreator<
       state.auth.isAuthenticated = false;
       state.auth.error = null;
       state.auth.authMethod = null;
+      state.auth.mfaChallenge = null;
     });
 
     logger.info("User logged out", { userId });
@@ -0,0 +1,65 @@
+/**
+ * Favorites Slice - Lista de deseos
+ *
+ * Maneja:
+ * - Productos marcados como favoritos (IDs del catálogo, en orden de alta)
+ * - Persistencia en localStorage para visitantes anónimos
+ *
+ * La sincronización con la cuenta (fusión al iniciar sesión y guardado de
+ * cambios) la hace `useFavoritesAccountSync` en el AylaProvider.
+ */
+
+import type { StateCreator } from "zustand";
+import type { StoreState, FavoritesSlice, FavoritesState } from "../types";
+import { MAX_FAVORITES } from "@lib/favorites";
+
+const initialState: FavoritesState = {
+  productIds: [],
+};
+
+export const createFavoritesSlice: StateCreator<
+  StoreState,
+  [["zustand/immer", never], ["zustand/devtools", never]],
+  [],
+  FavoritesSlice
+> = (set, get) => ({
+  ...initialState,
+
+  addFavorite: (productId: number) => {
+    set((state) => {
+      const { productIds } = state.favorites;
+      if (productIds.includes(productId) || productIds.length >= MAX_FAVORITES) return;
+      productIds.push(productId);
+    });
+  },
+
+  removeFavorite: (productId: number) => {
+    set((state) => {
+      state.favorites.productIds = state.favorites.productIds.filter((id) => id !== productId);
+    });
+  },
+
+  toggleFavorite: (productId: number) => {
+    const { favorites } = get();
+
+    if (favorites.productIds.includes(productId)) {
+      favorites.removeFavorite(productId);
+      return false;
+    }
+
+    favorites.addFavorite(productId);
+    return get().favorites.productIds.includes(productId);
+  },
+
+  setFavorites: (productIds: number[]) => {
+    set((state) => {
+      state.favorites.productIds = [...new Set(productIds)].slice(0, MAX_FAVORITES);
+    });
+  },
+
+  clearFavorites: () => {
+    set((state) => {
+      state.favorites.productIds = [];
+    });
+  },
+});
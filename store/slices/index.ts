@@ -6,3 +6,5 @@ export { createAuthSlice } from "./authSlice";
 export { createUISlice } from "./uiSlice";
 export { createSearchSlice } from "./searchSlice";
 export { createConsentSlice } from "./consentSlice";
+export { createFavoritesSlice } from "./favoritesSlice";
+export { createRecentlyViewedSlice } from "./recentlyViewedSlice";
@@ -0,0 +1,41 @@
+/**
+ * Recently Viewed Slice - Productos vistos recientemente
+ *
+ * Maneja:
+ * - Historial de productos abiertos (IDs del catálogo, el más reciente primero)
+ * - Persistencia en localStorage, también para visitantes anónimos
+ *
+ * El AylaProvider registra una vista cada vez que se abre el ProductModal.
+ */
+
+import type { StateCreator } from "zustand";
+import type { StoreState, RecentlyViewedSlice, RecentlyViewedState } from "../types";
+import { addRecentlyViewed } from "@lib/recommendations";
+
+const initialState: RecentlyViewedState = {
+  productIds: [],
+};
+
+export const createRecentlyViewedSlice: StateCreator<
+  StoreState,
+  [["zustand/immer", never], ["zustand/devtools", never]],
+  [],
+  RecentlyViewedSlice
+> = (set) => ({
+  ...initialState,
+
+  recordView: (productId: number) => {
+    set((state) => {
+      state.recentlyViewed.productIds = addRecentlyViewed(
+        state.recentlyViewed.productIds,
+        productId
+      );
+    });
+  },
+
+  clearRecentlyViewed: () => {
+    set((state) => {
+      state.recentlyViewed.productIds = [];
+    });
+  },
+});
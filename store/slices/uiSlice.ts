@@ -3,6 +3,7 @@
  *
  * Maneja:
  * - Tema (light/dark/system)
+ * - Moneda de los precios
  * - Sidebar
  * - Notificaciones toast
  * - Modales
@@ -11,10 +12,13 @@
 
 import type { StateCreator } from "zustand";
 import type { StoreState, UISlice, UIState, Notification, Modal, ThemeMode } from "../types";
+import type { CurrencyCode } from "@types";
 import { generateId } from "@utils";
+import { STORE_CURRENCY } from "@lib/money";
 
 const initialState: UIState = {
   theme: "system",
+  currency: STORE_CURRENCY,
   sidebarOpen: true,
   sidebarCollapsed: false,
   notifications: [],
@@ -39,6 +43,12 @@ export const createUISlice: StateCreator<
     // The hook subscribes to theme changes and applies them to document.documentElement
   },
 
+  setCurrency: (currency: CurrencyCode) => {
+    set((state) => {
+      state.ui.currency = currency;
+    });
+  },
+
   toggleSidebar: () => {
     set((state) => {
       state.ui.sidebarOpen = !state.ui.sidebarOpen;
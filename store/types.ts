@@ -2,7 +2,9 @@
  * Store Types - Definiciones de tipos para el estado global
  */
 
-import type { Musician, Band, Venue } from "@types";
+import type { Musician, CurrencyCode } from "@types";
+import type { UserRole } from "@lib/auth/roles";
+import type { MfaMethod } from "@lib/services/auth";
 
 // ============================================
 // Auth Slice Types
@@ -13,11 +15,21 @@ export interface User {
   email: string;
   name: string;
   avatar?: string;
-  role: "musician" | "band_manager" | "venue_owner" | "admin";
+  role: UserRole;
+  /** Two-factor authentication (TOTP) is enabled */
+  mfaEnabled: boolean;
   musicianProfile?: Musician;
   createdAt: string;
 }
 
+/** Login waiting for the second factor (not persisted) */
+export interface MfaChallenge {
+  /** Short-lived token of the pending login */
+  token: string;
+  methods: MfaMethod[];
+  authMethod: "credentials" | "google";
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -25,12 +37,16 @@ export interface AuthState {
   error: string | null;
   /** Auth method used for current session */
   authMethod: "credentials" | "google" | null;
+  /** Password accepted, waiting for the TOTP or recovery code */
+  mfaChallenge: MfaChallenge | null;
 }
 
 export interface AuthActions {
   login: (email: string, password: string) => Promise<void>;
   loginWithGoogle: () => Promise<void>;
   handleGoogleCallback: (code: string) => Promise<void>;
+  verifyMfa: (code: string, method?: MfaMethod) => Promise<void>;
+  cancelMfa: () => void;
   logout: () => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   refreshSession: () => Promise<void>;
@@ -44,7 +60,6 @@ export interface RegisterData {
   email: string;
   password: string;
   name: string;
-  role?: User["role"];
 }
 
 export type AuthSlice = AuthState & AuthActions;
@@ -75,6 +90,8 @@ export interface Modal {
 
 export interface UIState {
   theme: ThemeMode;
+  /** Moneda en la que se muestran los precios */
+  currency: CurrencyCode;
   sidebarOpen: boolean;
   sidebarCollapsed: boolean;
   notifications: Notification[];
@@ -85,6 +102,7 @@ export interface UIState {
 
 export interface UIActions {
   setTheme: (theme: ThemeMode) => void;
+  setCurrency: (currency: CurrencyCode) => void;
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
   setSidebarCollapsed: (collapsed: boolean) => void;
@@ -104,39 +122,55 @@ export type UISlice = UIState & UIActions;
 // Search Slice Types
 // ============================================
 
-export interface SearchFilters {
-  genres?: string[];
-  instruments?: string[];
-  location?: {
-    city?: string;
-    state?: string;
-    radius?: number;
-  };
-  availability?: boolean;
-}
-
 export interface SearchState {
+  /** Texto del buscador (la búsqueda aplicada está en la URL del catálogo) */
   query: string;
-  filters: SearchFilters;
-  results: {
-    musicians: Musician[];
-    bands: Band[];
-    venues: Venue[];
-  };
-  isSearching: boolean;
-  hasSearched: boolean;
 }
 
 export interface SearchActions {
   setQuery: (query: string) => void;
-  setFilters: (filters: Partial<SearchFilters>) => void;
-  clearFilters: () => void;
-  search: () => Promise<void>;
-  clearResults: () => void;
 }
 
 export type SearchSlice = SearchState & SearchActions;
 
+// ============================================
+// Favorites Slice Types
+// ============================================
+
+export interface FavoritesState {
+  /** IDs de los productos favoritos, en el orden en que se añadieron */
+  productIds: number[];
+}
+
+export interface FavoritesActions {
+  addFavorite: (productId: number) => void;
+  removeFavorite: (productId: number) => void;
+  /** Añade o quita el producto; devuelve si queda como favorito */
+  toggleFavorite: (productId: number) => boolean;
+  /** Reemplaza la lista (p.ej. con la guardada en la cuenta) */
+  setFavorites: (productIds: number[]) => void;
+  clearFavorites: () => void;
+}
+
+export type FavoritesSlice = FavoritesState & FavoritesActions;
+
+// ============================================
+// Recently Viewed Slice Types
+// ============================================
+
+export interface RecentlyViewedState {
+  /** IDs de los productos vistos, el más reciente primero */
+  productIds: number[];
+}
+
+export interface RecentlyViewedActions {
+  /** Registra la vista de un producto (pasa al principio del historial) */
+  recordView: (productId: number) => void;
+  clearRecentlyViewed: () => void;
+}
+
+export type RecentlyViewedSlice = RecentlyViewedState & RecentlyViewedActions;
+
 // ============================================
 // Consent Slice Types (GDPR Compliance)
 // ============================================
@@ -188,6 +222,8 @@ export interface StoreState {
   auth: AuthSlice;
   ui: UISlice;
   search: SearchSlice;
+  favorites: FavoritesSlice;
+  recentlyViewed: RecentlyViewedSlice;
   consent: ConsentSlice;
 }
 
@@ -198,5 +234,8 @@ export interface StoreState {
 export interface PersistedState {
   /** Solo persistimos datos no sensibles - los tokens van en httpOnly cookies */
   auth: Pick<AuthState, "user" | "authMethod">;
-  ui: Pick<UIState, "theme" | "sidebarCollapsed">;
+  ui: Pick<UIState, "theme" | "currency" | "sidebarCollapsed">;
+  /** Los favoritos anónimos se guardan en el navegador hasta iniciar sesión */
+  favorites: Pick<FavoritesState, "productIds">;
+  recentlyViewed: Pick<RecentlyViewedState, "productIds">;
 }
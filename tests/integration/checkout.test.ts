@@ -0,0 +1,235 @@
+/**
+ * Integration Tests - Checkout API
+ *
+ * Ejecuta el route handler de /api/checkout con el proveedor fake.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/checkout/route";
+import { StaticCatalogRepository, setCatalogRepository } from "@lib/catalog/server";
+import { getPromotionRepository, setPromotionRepository } from "@lib/checkout/server";
+import { getOrderRepository, setOrderRepository } from "@lib/orders/server";
+import { setPaymentProvider } from "@lib/payments/server";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const billing = {
+  fullName: "Ana García",
+  addressLine1: "Calle Mayor 1",
+  city: "Madrid",
+  postalCode: "28013",
+  country: "ES",
+};
+
+function checkoutRequest(body: unknown) {
+  return new NextRequest("http://localhost:3000/api/checkout", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/checkout", () => {
+  beforeEach(() => {
+    setPaymentProvider(null);
+    setOrderRepository(null);
+    setPromotionRepository(null);
+    setCatalogRepository(null);
+  });
+
+  it("completes an order with catalog prices", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "ana@example.com" },
+        billing,
+        items: [{ productId: 1, quantity: 2 }],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ status: "succeeded", total: 4998, currency: "EUR" });
+    expect(data.reference).toMatch(/^AYL-/);
+
+    const order = await getOrderRepository().get(data.reference);
+    expect(order).toMatchObject({ status: "paid", total: 4998, accessKey: data.accessKey });
+    expect(data.accessKey).toEqual(expect.any(String));
+  });
+
+  it("rejects invalid billing details", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "ana@example.com" },
+        billing: { ...billing, country: "XX" },
+        items: [{ productId: 1, quantity: 1 }],
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects VAT IDs that do not match the billing country", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "ana@example.com" },
+        billing: { ...billing, country: "FR", vatId: "DE123456789" },
+        items: [{ productId: 1, quantity: 1 }],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toMatch(/IVA/);
+  });
+
+  it("charges EU businesses without VAT and stores the VAT of each line", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "compras@example.de" },
+        billing: { ...billing, city: "Berlin", country: "DE", vatId: "DE 123 456 789" },
+        items: [{ productId: 1, quantity: 1 }],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.total).toBe(2100);
+
+    const order = await getOrderRepository().get(data.reference);
+    expect(order).toMatchObject({
+      subtotal: 2499,
+      tax: 0,
+      taxTreatment: "reverse_charge",
+      total: 2100,
+    });
+    expect(order?.lines[0].tax).toEqual({
+      rate: 0,
+      discount: 0,
+      net: 2100,
+      tax: 0,
+      total: 2100,
+    });
+  });
+
+  it("returns 409 for products no longer in the catalog", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "ana@example.com" },
+        billing,
+        items: [{ productId: 999, quantity: 1 }],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.unavailable).toEqual([999]);
+  });
+
+  it("returns 402 when the payment is declined", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "decline@example.com" },
+        billing,
+        items: [{ productId: 1, quantity: 1 }],
+      })
+    );
+
+    const data = await response.json();
+
+    expect(response.status).toBe(402);
+    expect(data.reference).toBeUndefined();
+  });
+
+  it("applies promotion codes and records their redemption", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "ana@example.com" },
+        billing,
+        items: [{ productId: 1, quantity: 2 }],
+        promotionCodes: ["bienvenida10"],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.total).toBe(4498);
+
+    const order = await getOrderRepository().get(data.reference);
+    expect(order).toMatchObject({
+      subtotal: 4998,
+      discount: 500,
+      promotionCodes: ["BIENVENIDA10"],
+      total: 4498,
+    });
+    await expect(
+      getPromotionRepository().countRedemptions(["BIENVENIDA10"])
+    ).resolves.toEqual({ BIENVENIDA10: 1 });
+  });
+
+  it("does not redeem promotion codes when the payment is declined", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "decline@example.com" },
+        billing,
+        items: [{ productId: 1, quantity: 2 }],
+        promotionCodes: ["BIENVENIDA10"],
+      })
+    );
+
+    expect(response.status).toBe(402);
+    await expect(
+      getPromotionRepository().countRedemptions(["BIENVENIDA10"])
+    ).resolves.toEqual({ BIENVENIDA10: 0 });
+  });
+
+  it("returns 422 for promotion codes that no longer apply", async () => {
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "ana@example.com" },
+        billing,
+        items: [{ productId: 1, quantity: 1 }],
+        promotionCodes: ["PLANNER2025"],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(data).toMatchObject({ code: "PLANNER2025", reason: "expired" });
+  });
+
+  it("prices items against the configured catalog repository", async () => {
+    setCatalogRepository(
+      new StaticCatalogRepository([
+        {
+          id: 901,
+          name: "Agenda Lunar",
+          slug: "agenda-lunar",
+          description: "Planificador con fases lunares.",
+          price: 15,
+          category: "Planners",
+          imageType: "planner",
+          features: ["12 meses"],
+        },
+      ])
+    );
+
+    const response = await POST(
+      checkoutRequest({
+        customer: { email: "ana@example.com" },
+        billing,
+        items: [{ productId: 901, quantity: 2 }],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.total).toBe(3000);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Integration Tests - Downloads API
+ *
+ * Ejecuta los route handlers de /api/downloads con el repositorio de
+ * grants en memoria y archivos en un directorio temporal.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { NextRequest } from "next/server";
+import { GET as listDownloads } from "@/app/api/downloads/route";
+import { GET as download, POST as regenerate } from "@/app/api/downloads/[token]/route";
+import {
+  InMemoryDownloadRepository,
+  LocalFileStorage,
+  setDownloadRepository,
+  setFileStorage,
+  syncDownloadGrants,
+} from "@lib/downloads/server";
+import { InMemoryOrderRepository, setOrderRepository } from "@lib/orders/server";
+import { AUTH_COOKIES } from "@/middleware/types";
+import type { DownloadItem } from "@lib/downloads";
+import type { StoredOrder } from "@lib/orders";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const BASE_URL = "http://localhost:3000/api/downloads";
+
+const paidOrder = {
+  reference: "AYL-TEST-0001",
+  status: "paid",
+  customerId: "42",
+  customerEmail: "ana@example.com",
+  lines: [{ productId: 1, name: "Planner", quantity: 1, unitAmount: 2499, lineAmount: 2499 }],
+  subtotal: 2499,
+  total: 2499,
+  currency: "EUR",
+  payment: { provider: "fake", sessionId: "fake_1" },
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+} as unknown as StoredOrder;
+
+/** JWT sin firmar con el claim `sub` (la sesión no verifica la firma) */
+function sessionCookie(userId: string) {
+  const payload = Buffer.from(JSON.stringify({ sub: userId })).toString("base64url");
+  return `${AUTH_COOKIES.ACCESS_TOKEN}=header.${payload}.signature`;
+}
+
+function tokenContext(token: string) {
+  return { params: Promise.resolve({ token }) };
+}
+
+describe("Downloads API", () => {
+  let rootDir: string;
+  let repository: InMemoryDownloadRepository;
+
+  async function listAs(userId: string): Promise<DownloadItem[]> {
+    const response = await listDownloads(
+      new NextRequest(BASE_URL, { headers: { cookie: sessionCookie(userId) } })
+    );
+    return (await response.json()).items;
+  }
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "ayla-downloads-"));
+    const dir = join(rootDir, "products", "1", "default", "1.0.0");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "planner.pdf"), "planner");
+
+    repository = new InMemoryDownloadRepository();
+    setDownloadRepository(repository);
+    setFileStorage(new LocalFileStorage(rootDir));
+    await syncDownloadGrants(paidOrder, { repository });
+  });
+
+  afterEach(async () => {
+    setDownloadRepository(null);
+    setFileStorage(null);
+    setOrderRepository(null);
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should require a session to list downloads", async () => {
+    const response = await listDownloads(new NextRequest(BASE_URL));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should stream the file for a valid signed link", async () => {
+    // Arrange
+    const [item] = await listAs("42");
+
+    // Act
+    const response = await download(new NextRequest(item.link!.url), tokenContext(item.token));
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-disposition")).toBe(
+      'attachment; filename="planner.pdf"'
+    );
+    expect(response.headers.get("cache-control")).toBe("private, no-store");
+    expect(await response.text()).toBe("planner");
+  });
+
+  it("should reject tampered links with 403", async () => {
+    // Arrange
+    const [item] = await listAs("42");
+    const url = new URL(item.link!.url);
+    url.searchParams.set("sig", "0".repeat(64));
+
+    // Act
+    const response = await download(new NextRequest(url), tokenContext(item.token));
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ success: false, error: "invalid_signature" });
+  });
+
+  it("should answer 410 once the downloads are exhausted", async () => {
+    // Arrange
+    const [item] = await listAs("42");
+    const grant = (await repository.get(item.token))!;
+    await repository.save({ ...grant, downloadsRemaining: 0 });
+
+    // Act
+    const response = await download(new NextRequest(item.link!.url), tokenContext(item.token));
+
+    // Assert
+    expect(response.status).toBe(410);
+    expect(await response.json()).toEqual({ success: false, error: "limit_reached" });
+  });
+
+  it("should regenerate links only for the owner", async () => {
+    // Arrange
+    const [item] = await listAs("42");
+    const post = (cookie?: string) =>
+      regenerate(
+        new NextRequest(`${BASE_URL}/${item.token}`, {
+          method: "POST",
+          headers: cookie ? { cookie } : {},
+        }),
+        tokenContext(item.token)
+      );
+
+    // Act
+    const anonymous = await post();
+    const stranger = await post(sessionCookie("99"));
+    const owner = await post(sessionCookie("42"));
+
+    // Assert
+    expect(anonymous.status).toBe(401);
+    expect(stranger.status).toBe(404);
+    expect(owner.status).toBe(200);
+    expect((await owner.json()).link.version).toBe("1.0.0");
+  });
+
+  it("should not trust forged session cookies in production", async () => {
+    // Arrange
+    const [item] = await listAs("42");
+    vi.stubEnv("NODE_ENV", "production");
+
+    // Act
+    const list = await listDownloads(
+      new NextRequest(BASE_URL, { headers: { cookie: sessionCookie("42") } })
+    );
+    const regenerated = await regenerate(
+      new NextRequest(`${BASE_URL}/${item.token}`, {
+        method: "POST",
+        headers: { cookie: sessionCookie("42") },
+      }),
+      tokenContext(item.token)
+    );
+    vi.unstubAllEnvs();
+
+    // Assert
+    expect(list.status).toBe(401);
+    expect(regenerated.status).toBe(401);
+  });
+
+  it("should list the downloads of a guest order with its access key", async () => {
+    // Arrange
+    const guestOrder: StoredOrder = {
+      ...paidOrder,
+      reference: "AYL-TEST-0002",
+      customerId: undefined,
+      accessKey: "guest-key",
+    };
+    const orders = new InMemoryOrderRepository();
+    await orders.save(guestOrder);
+    setOrderRepository(orders);
+    await syncDownloadGrants(guestOrder, { repository });
+
+    // Act
+    const listed = await listDownloads(
+      new NextRequest(`${BASE_URL}?ref=AYL-TEST-0002&key=guest-key`)
+    );
+    const wrongKey = await listDownloads(
+      new NextRequest(`${BASE_URL}?ref=AYL-TEST-0002&key=other-key`)
+    );
+
+    // Assert
+    const { items } = await listed.json();
+    expect(listed.status).toBe(200);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ orderReference: "AYL-TEST-0002" });
+    expect(items[0].link.url).toContain(`/api/downloads/${items[0].token}`);
+    expect(wrongKey.status).toBe(404);
+    expect(await wrongKey.json()).toEqual({ success: false, error: "order_not_found" });
+  });
+});
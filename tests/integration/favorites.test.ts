@@ -0,0 +1,93 @@
+/**
+ * Integration Tests - Favorites API
+ *
+ * Ejecuta los route handlers de /api/favorites con el repositorio de
+ * favoritos en memoria.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { DELETE, GET, PATCH, PUT } from "@/app/api/favorites/route";
+import { InMemoryFavoritesRepository, setFavoritesRepository } from "@lib/favorites/server";
+import { AUTH_COOKIES } from "@/middleware/types";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const BASE_URL = "http://localhost:3000/api/favorites";
+
+/** JWT sin firmar con el claim `sub` (la sesión no verifica la firma) */
+function sessionCookie(userId: string) {
+  const payload = Buffer.from(JSON.stringify({ sub: userId })).toString("base64url");
+  return `${AUTH_COOKIES.ACCESS_TOKEN}=header.${payload}.signature`;
+}
+
+function request(method: string, userId: string | null = "42", body?: unknown) {
+  return new NextRequest(BASE_URL, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(userId ? { cookie: sessionCookie(userId) } : {}),
+    },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  });
+}
+
+describe("Favorites API", () => {
+  beforeEach(() => {
+    setFavoritesRepository(new InMemoryFavoritesRepository());
+  });
+
+  afterEach(() => {
+    setFavoritesRepository(null);
+  });
+
+  it("should require a session", async () => {
+    expect((await GET(request("GET", null))).status).toBe(401);
+    expect((await PUT(request("PUT", null, { productIds: [1] }))).status).toBe(401);
+  });
+
+  it("should return an empty list for new users", async () => {
+    const response = await GET(request("GET"));
+
+    expect(await response.json()).toEqual({ productIds: [], updatedAt: null });
+  });
+
+  it("should validate the product ids", async () => {
+    const response = await PUT(request("PUT", "42", { productIds: [0] }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("El identificador de producto no es válido");
+  });
+
+  it("should replace the favorites without duplicates or unknown products", async () => {
+    await PUT(request("PUT", "42", { productIds: [2, 999, 2, 1] }));
+
+    const response = await GET(request("GET"));
+    expect((await response.json()).productIds).toEqual([2, 1]);
+  });
+
+  it("should merge anonymous favorites into the account", async () => {
+    await PUT(request("PUT", "42", { productIds: [3] }));
+
+    const response = await PATCH(request("PATCH", "42", { productIds: [1, 3, 999] }));
+
+    expect(await response.json()).toMatchObject({
+      productIds: [3, 1],
+      summary: { added: 1, dropped: [999] },
+    });
+  });
+
+  it("should clear the favorites", async () => {
+    await PUT(request("PUT", "42", { productIds: [1] }));
+
+    expect((await DELETE(request("DELETE"))).status).toBe(204);
+    expect((await (await GET(request("GET"))).json()).productIds).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Integration Tests - Orders API
+ *
+ * Compra con /api/checkout (proveedor fake) y consulta el historial con los
+ * route handlers de /api/orders, sobre los repositorios en memoria.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as checkout } from "@/app/api/checkout/route";
+import { GET as listOrders } from "@/app/api/orders/route";
+import { GET as getOrder } from "@/app/api/orders/[reference]/route";
+import { setCatalogRepository } from "@lib/catalog/server";
+import { setPromotionRepository } from "@lib/checkout/server";
+import { InMemoryDownloadRepository, setDownloadRepository } from "@lib/downloads/server";
+import { InMemoryOrderRepository, setOrderRepository } from "@lib/orders/server";
+import { setPaymentProvider } from "@lib/payments/server";
+import { AUTH_COOKIES } from "@/middleware/types";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const BASE_URL = "http://localhost:3000/api/orders";
+
+/** JWT sin firmar con el claim `sub` (la sesión no verifica la firma) */
+function sessionCookie(userId: string) {
+  const payload = Buffer.from(JSON.stringify({ sub: userId })).toString("base64url");
+  return `${AUTH_COOKIES.ACCESS_TOKEN}=header.${payload}.signature`;
+}
+
+function requestAs(userId: string | null, url = BASE_URL) {
+  return new NextRequest(url, {
+    headers: userId ? { cookie: sessionCookie(userId) } : {},
+  });
+}
+
+function referenceContext(reference: string) {
+  return { params: Promise.resolve({ reference }) };
+}
+
+async function purchaseAs(userId: string): Promise<string> {
+  const response = await checkout(
+    new NextRequest("http://localhost:3000/api/checkout", {
+      method: "POST",
+      headers: { cookie: sessionCookie(userId) },
+      body: JSON.stringify({
+        customer: { email: "ana@example.com" },
+        billing: {
+          fullName: "Ana García",
+          addressLine1: "Calle Mayor 1",
+          city: "Madrid",
+          postalCode: "28013",
+          country: "ES",
+        },
+        items: [{ productId: 1, quantity: 1 }],
+      }),
+    })
+  );
+  return (await response.json()).reference;
+}
+
+describe("Orders API", () => {
+  beforeEach(() => {
+    setPaymentProvider(null);
+    setCatalogRepository(null);
+    setPromotionRepository(null);
+    setOrderRepository(new InMemoryOrderRepository());
+    setDownloadRepository(new InMemoryDownloadRepository());
+  });
+
+  afterEach(() => {
+    setOrderRepository(null);
+    setDownloadRepository(null);
+  });
+
+  it("should require a session", async () => {
+    const response = await listOrders(requestAs(null));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should list the orders placed through the checkout", async () => {
+    // Arrange
+    const reference = await purchaseAs("42");
+
+    // Act
+    const response = await listOrders(requestAs("42"));
+    const data = await response.json();
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ total: 1, page: 1, page_size: 10 });
+    expect(data.items[0]).toMatchObject({ reference, status: "paid", currency: "EUR" });
+    expect(data.items[0].items[0].download_token).toEqual(expect.any(String));
+  });
+
+  it("should keep each account's orders private", async () => {
+    // Arrange
+    const reference = await purchaseAs("42");
+
+    // Act
+    const list = await (await listOrders(requestAs("7"))).json();
+    const detail = await getOrder(
+      requestAs("7", `${BASE_URL}/${reference}`),
+      referenceContext(reference)
+    );
+
+    // Assert
+    expect(list.items).toEqual([]);
+    expect(detail.status).toBe(404);
+    expect(await detail.json()).toEqual({ success: false, error: "order_not_found" });
+  });
+
+  it("should return the detail of an own order", async () => {
+    // Arrange
+    const reference = await purchaseAs("42");
+
+    // Act
+    const response = await getOrder(
+      requestAs("42", `${BASE_URL}/${reference}`),
+      referenceContext(reference)
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ reference, total: 2499 });
+  });
+
+  it("should reject invalid filters", async () => {
+    const response = await listOrders(requestAs("42", `${BASE_URL}?status=shipped`));
+
+    expect(response.status).toBe(400);
+  });
+});
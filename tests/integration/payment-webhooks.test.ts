@@ -0,0 +1,113 @@
+/**
+ * Integration Tests - Payment Webhooks API
+ *
+ * Ejecuta el route handler de /api/webhooks/payments/[provider] con el
+ * proveedor fake y el repositorio de pedidos en memoria.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/webhooks/payments/[provider]/route";
+import {
+  InMemoryOrderRepository,
+  setOrderRepository,
+} from "@lib/orders/server";
+import {
+  FAKE_SIGNATURE_HEADER,
+  FakePaymentProvider,
+  setPaymentProvider,
+  signFakeWebhook,
+} from "@lib/payments/server";
+import type { StoredOrder } from "@lib/orders";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const SECRET = "test-webhook-secret";
+
+const pendingOrder = {
+  reference: "AYL-TEST-0001",
+  status: "pending",
+  customerEmail: "ana@example.com",
+  lines: [],
+  subtotal: 2499,
+  total: 2499,
+  currency: "EUR",
+  payment: { provider: "fake", sessionId: "fake_1" },
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+} as unknown as StoredOrder;
+
+function webhookRequest(provider: string, event: unknown, secret = SECRET) {
+  const body = JSON.stringify(event);
+  return {
+    request: new NextRequest(`http://localhost:3000/api/webhooks/payments/${provider}`, {
+      method: "POST",
+      body,
+      headers: { [FAKE_SIGNATURE_HEADER]: signFakeWebhook(body, secret) },
+    }),
+    context: { params: Promise.resolve({ provider }) },
+  };
+}
+
+const successEvent = {
+  id: "evt_1",
+  type: "payment.success",
+  reference: pendingOrder.reference,
+  amount: 2499,
+};
+
+describe("POST /api/webhooks/payments/[provider]", () => {
+  let orders: InMemoryOrderRepository;
+
+  beforeEach(async () => {
+    setPaymentProvider(new FakePaymentProvider({ webhookSecret: SECRET }));
+    orders = new InMemoryOrderRepository();
+    await orders.save(pendingOrder);
+    setOrderRepository(orders);
+  });
+
+  it("marks the order as paid on payment.success", async () => {
+    const { request, context } = webhookRequest("fake", successEvent);
+
+    const response = await POST(request, context);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, outcome: "applied" });
+    expect((await orders.get(pendingOrder.reference))?.status).toBe("paid");
+  });
+
+  it("acknowledges redelivered events without reprocessing them", async () => {
+    const first = webhookRequest("fake", successEvent);
+    await POST(first.request, first.context);
+
+    const again = webhookRequest("fake", successEvent);
+    const response = await POST(again.request, again.context);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).outcome).toBe("duplicate");
+  });
+
+  it("rejects events with an invalid signature", async () => {
+    const { request, context } = webhookRequest("fake", successEvent, "wrong-secret");
+
+    const response = await POST(request, context);
+
+    expect(response.status).toBe(400);
+    expect((await orders.get(pendingOrder.reference))?.status).toBe("pending");
+  });
+
+  it("returns 404 for unknown or unconfigured providers", async () => {
+    const unknown = webhookRequest("bitcoin", successEvent);
+    const unconfigured = webhookRequest("stripe", successEvent);
+
+    expect((await POST(unknown.request, unknown.context)).status).toBe(404);
+    expect((await POST(unconfigured.request, unconfigured.context)).status).toBe(404);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Integration Tests - Promotions API
+ *
+ * Ejecuta el route handler de /api/promotions con las promociones estáticas.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/promotions/route";
+import { promotions } from "@/data/ayla";
+import {
+  InMemoryPromotionRepository,
+  setPromotionRepository,
+} from "@lib/checkout/server";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function validateRequest(body: unknown) {
+  return new NextRequest("http://localhost:3000/api/promotions", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/promotions", () => {
+  beforeEach(() => {
+    setPromotionRepository(null);
+  });
+
+  it("returns the promotion and its discount on the cart", async () => {
+    const response = await POST(
+      validateRequest({ code: " bienvenida10 ", items: [{ productId: 1, quantity: 2 }] })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.promotion).toMatchObject({ code: "BIENVENIDA10", discount_value: 10 });
+    expect(data.discount).toBe(500);
+  });
+
+  it("returns 404 for unknown codes", async () => {
+    const response = await POST(
+      validateRequest({ code: "NOEXISTE", items: [{ productId: 1, quantity: 1 }] })
+    );
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("not_found");
+  });
+
+  it("rejects carts below the minimum purchase", async () => {
+    const response = await POST(
+      validateRequest({ code: "BODAS5", items: [{ productId: 6, quantity: 1 }] })
+    );
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toBe("min_purchase_not_met");
+  });
+
+  it("rejects carts without products of the promotion categories", async () => {
+    const response = await POST(
+      validateRequest({ code: "BODAS5", items: [{ productId: 1, quantity: 2 }] })
+    );
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toBe("no_eligible_products");
+  });
+
+  it("rejects codes that are already applied", async () => {
+    const response = await POST(
+      validateRequest({
+        code: "BIENVENIDA10",
+        items: [{ productId: 1, quantity: 1 }],
+        appliedCodes: ["bienvenida10"],
+      })
+    );
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toBe("already_applied");
+  });
+
+  it("rejects codes that reached their usage limit", async () => {
+    // Arrange
+    const repository = new InMemoryPromotionRepository([
+      { ...promotions[0], usage_limit: 1 },
+    ]);
+    await repository.redeem("BIENVENIDA10", "AYL-TEST-0001");
+    setPromotionRepository(repository);
+
+    // Act
+    const response = await POST(
+      validateRequest({ code: "BIENVENIDA10", items: [{ productId: 1, quantity: 1 }] })
+    );
+
+    // Assert
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toBe("usage_limit_reached");
+  });
+});
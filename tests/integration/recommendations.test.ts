@@ -0,0 +1,110 @@
+/**
+ * Integration Tests - Recommendations API
+ *
+ * Ejecuta el route handler de /api/recommendations con el catálogo de
+ * data/ayla y pedidos en memoria.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/recommendations/route";
+import { InMemoryOrderRepository, setOrderRepository } from "@lib/orders/server";
+import { setRecommender } from "@lib/recommendations/server";
+import type { StoredOrder } from "@lib/orders";
+import type { AylaProduct } from "@types";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const BASE_URL = "http://localhost:3000/api/recommendations";
+
+function request(params: Record<string, string>) {
+  return new NextRequest(`${BASE_URL}?${new URLSearchParams(params)}`);
+}
+
+function paidOrder(reference: string, productIds: number[]) {
+  return {
+    reference,
+    status: "paid",
+    customerEmail: "ana@example.com",
+    lines: productIds.map((productId) => ({ productId })),
+    subtotal: 0,
+    total: 0,
+    currency: "EUR",
+    payment: { provider: "fake", sessionId: reference },
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  } as unknown as StoredOrder;
+}
+
+const ids = (items: AylaProduct[]) => items.map(({ id }) => id);
+
+describe("Recommendations API", () => {
+  let orders: InMemoryOrderRepository;
+
+  beforeEach(() => {
+    orders = new InMemoryOrderRepository();
+    setOrderRepository(orders);
+  });
+
+  afterEach(() => {
+    setOrderRepository(null);
+    setRecommender(null);
+  });
+
+  it("should validate the query params", async () => {
+    expect((await GET(request({}))).status).toBe(400);
+    expect((await GET(request({ productId: "2", limit: "50" }))).status).toBe(400);
+  });
+
+  it("should return 404 for unknown products", async () => {
+    const response = await GET(request({ productId: "999" }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should recommend products of the same category first", async () => {
+    const response = await GET(request({ productId: "2" }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.productId).toBe(2);
+    expect(body.items[0].id).toBe(6);
+    expect(ids(body.items)).not.toContain(2);
+  });
+
+  it("should recommend products bought together in paid orders", async () => {
+    await orders.save(paidOrder("AYL-TEST-0001", [2, 4]));
+    await orders.save(paidOrder("AYL-TEST-0002", [2, 4]));
+
+    const body = await (await GET(request({ productId: "2", limit: "1" }))).json();
+
+    expect(ids(body.items)).toEqual([4]);
+  });
+
+  it("should reuse the co-purchase index between requests", async () => {
+    const list = vi.spyOn(orders, "list");
+    await orders.save(paidOrder("AYL-TEST-0001", [2, 4]));
+
+    await GET(request({ productId: "2" }));
+    await GET(request({ productId: "4" }));
+
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use the configured recommender", async () => {
+    setRecommender({
+      related: async (_product, catalog) => catalog.filter(({ id }) => id === 5),
+    });
+
+    const body = await (await GET(request({ productId: "2", locale: "en" }))).json();
+
+    expect(ids(body.items)).toEqual([5]);
+  });
+});
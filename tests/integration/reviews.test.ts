@@ -0,0 +1,218 @@
+/**
+ * Integration Tests - Reviews API
+ *
+ * Ejecuta los route handlers de /api/reviews con los repositorios de
+ * reseñas y de grants en memoria.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET as listReviews, POST as submitReview } from "@/app/api/reviews/route";
+import { GET as listQueue } from "@/app/api/reviews/moderation/route";
+import { PATCH as moderate } from "@/app/api/reviews/[id]/route";
+import {
+  InMemoryDownloadRepository,
+  setDownloadRepository,
+  syncDownloadGrants,
+} from "@lib/downloads/server";
+import { InMemoryReviewRepository, setReviewRepository } from "@lib/reviews/server";
+import { AUTH_COOKIES } from "@/middleware/types";
+import type { StoredOrder } from "@lib/orders";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const BASE_URL = "http://localhost:3000/api/reviews";
+
+const paidOrder = {
+  reference: "AYL-TEST-0001",
+  status: "paid",
+  customerId: "42",
+  customerEmail: "ana@example.com",
+  lines: [{ productId: 1, name: "Planner", quantity: 1, unitAmount: 2499, lineAmount: 2499 }],
+  subtotal: 2499,
+  total: 2499,
+  currency: "EUR",
+  payment: { provider: "fake", sessionId: "fake_1" },
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+} as unknown as StoredOrder;
+
+const body = {
+  productId: 1,
+  authorName: "Ana",
+  rating: 4,
+  title: "Muy práctico",
+  text: "Lo uso cada día para organizar mis proyectos.",
+};
+
+/** JWT sin firmar con los claims indicados (la sesión no verifica la firma) */
+function sessionCookie(userId: string, claims: Record<string, unknown> = {}) {
+  const payload = Buffer.from(JSON.stringify({ sub: userId, ...claims })).toString(
+    "base64url"
+  );
+  return `${AUTH_COOKIES.ACCESS_TOKEN}=header.${payload}.signature`;
+}
+
+/** Administrador que ha iniciado sesión con el segundo paso */
+const adminClaims = { role: "admin", amr: ["pwd", "otp"] };
+
+function submitAs(userId: string | null, data: unknown = body) {
+  return submitReview(
+    new NextRequest(BASE_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(userId ? { cookie: sessionCookie(userId) } : {}),
+      },
+      body: JSON.stringify(data),
+    })
+  );
+}
+
+function moderationRequest(
+  url: string,
+  init: { method?: string; body?: unknown; claims?: Record<string, unknown> } = {}
+) {
+  return new NextRequest(url, {
+    method: init.method ?? "GET",
+    headers: {
+      cookie: sessionCookie("1", init.claims ?? adminClaims),
+      "Content-Type": "application/json",
+    },
+    ...(init.body ? { body: JSON.stringify(init.body) } : {}),
+  });
+}
+
+describe("Reviews API", () => {
+  beforeEach(async () => {
+    setReviewRepository(new InMemoryReviewRepository());
+
+    const downloads = new InMemoryDownloadRepository();
+    setDownloadRepository(downloads);
+    await syncDownloadGrants(paidOrder, { repository: downloads });
+  });
+
+  afterEach(() => {
+    setReviewRepository(null);
+    setDownloadRepository(null);
+  });
+
+  describe("POST /api/reviews", () => {
+    it("should require a session", async () => {
+      expect((await submitAs(null)).status).toBe(401);
+    });
+
+    it("should validate the review", async () => {
+      const response = await submitAs("42", { ...body, rating: 6 });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Elige una valoración de 1 a 5 estrellas");
+    });
+
+    it("should reject users without a purchase of the product", async () => {
+      const response = await submitAs("7");
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error).toBe("not_purchased");
+    });
+
+    it("should store the review pending moderation", async () => {
+      const response = await submitAs("42");
+
+      expect(response.status).toBe(201);
+      expect((await response.json()).review).toMatchObject({
+        productId: 1,
+        rating: 4,
+        status: "pending",
+        verifiedPurchase: true,
+      });
+      expect((await submitAs("42")).status).toBe(409);
+    });
+  });
+
+  describe("moderation", () => {
+    it("should require an admin session with two-factor authentication", async () => {
+      const anonymous = await listQueue(new NextRequest(`${BASE_URL}/moderation`));
+      expect(anonymous.status).toBe(401);
+
+      const customer = await listQueue(
+        moderationRequest(`${BASE_URL}/moderation`, { claims: { role: "customer" } })
+      );
+      expect(customer.status).toBe(403);
+
+      const singleFactor = await moderate(
+        moderationRequest(`${BASE_URL}/missing`, {
+          method: "PATCH",
+          body: { status: "rejected" },
+          claims: { role: "admin", amr: ["pwd"] },
+        }),
+        { params: Promise.resolve({ id: "missing" }) }
+      );
+      expect(singleFactor.status).toBe(403);
+      expect((await singleFactor.json()).error).toBe("MFA required");
+    });
+
+    it("should publish approved reviews with the product rating", async () => {
+      const { review } = await (await submitAs("42")).json();
+
+      const queue = await listQueue(moderationRequest(`${BASE_URL}/moderation`));
+      expect((await queue.json()).items).toEqual([
+        expect.objectContaining({ id: review.id, authorId: "42" }),
+      ]);
+
+      const before = await listReviews(new NextRequest(`${BASE_URL}?productId=1`));
+      expect((await before.json()).total).toBe(0);
+
+      const approved = await moderate(
+        moderationRequest(`${BASE_URL}/${review.id}`, {
+          method: "PATCH",
+          body: { status: "approved" },
+        }),
+        { params: Promise.resolve({ id: review.id }) }
+      );
+      expect(approved.status).toBe(200);
+
+      const after = await listReviews(
+        new NextRequest(`${BASE_URL}?productId=1&sort=highest&page=1&pageSize=5`)
+      );
+      expect(await after.json()).toMatchObject({
+        items: [{ id: review.id, title: "Muy práctico" }],
+        total: 1,
+        pageSize: 5,
+        sort: "highest",
+        summary: { average: 4, count: 1 },
+      });
+    });
+
+    it("should return 404 for unknown reviews", async () => {
+      const response = await moderate(
+        moderationRequest(`${BASE_URL}/missing`, {
+          method: "PATCH",
+          body: { status: "rejected" },
+        }),
+        { params: Promise.resolve({ id: "missing" }) }
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/reviews", () => {
+    it("should validate the query", async () => {
+      const missing = await listReviews(new NextRequest(BASE_URL));
+      expect(missing.status).toBe(400);
+
+      const invalidSort = await listReviews(
+        new NextRequest(`${BASE_URL}?productId=1&sort=random`)
+      );
+      expect(invalidSort.status).toBe(400);
+    });
+  });
+});
@@ -27,7 +27,7 @@ const authHandlers = [
           id: "user-1",
           email: "test@ayladesigns.me",
           name: "Test User",
-          role: "musician",
+          role: "customer",
         },
         token: "mock-jwt-token",
       });
@@ -54,7 +54,7 @@ const authHandlers = [
       id: "user-1",
       email: "test@ayladesigns.me",
       name: "Test User",
-      role: "musician",
+      role: "customer",
     });
   }),
 ];
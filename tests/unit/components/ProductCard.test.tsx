@@ -53,6 +53,9 @@ vi.mock("framer-motion", () => ({
 // Sample product for tests
 const mockProduct: AylaProduct = products[0];
 
+// Product sold as a single version (no variants)
+const singleVersionProduct: AylaProduct = { ...mockProduct, variants: undefined };
+
 describe("ProductCard", () => {
   afterEach(() => {
     vi.clearAllMocks();
@@ -306,22 +309,33 @@ describe("ProductCard", () => {
 
   describe("Pricing", () => {
     it("formats price with 2 decimal places", () => {
-      const product: AylaProduct = { ...mockProduct, price: 10 };
+      const product: AylaProduct = { ...singleVersionProduct, price: 10 };
       render(<ProductCard product={product} />);
       expect(screen.getByText("€10.00")).toBeInTheDocument();
     });
 
     it("handles decimal prices correctly", () => {
-      const product: AylaProduct = { ...mockProduct, price: 24.99 };
+      const product: AylaProduct = { ...singleVersionProduct, price: 24.99 };
       render(<ProductCard product={product} />);
       expect(screen.getByText("€24.99")).toBeInTheDocument();
     });
 
     it("handles high prices correctly", () => {
-      const product: AylaProduct = { ...mockProduct, price: 199.99 };
+      const product: AylaProduct = { ...singleVersionProduct, price: 199.99 };
       render(<ProductCard product={product} />);
       expect(screen.getByText("€199.99")).toBeInTheDocument();
     });
+
+    it("shows the cheapest variant as a 'from' price", () => {
+      render(<ProductCard product={mockProduct} />);
+      expect(screen.getByText("Desde")).toBeInTheDocument();
+      expect(screen.getByText("€24.99")).toBeInTheDocument();
+    });
+
+    it("omits 'from' for products sold as a single version", () => {
+      render(<ProductCard product={singleVersionProduct} />);
+      expect(screen.queryByText("Desde")).not.toBeInTheDocument();
+    });
   });
 
   describe("Accessibility", () => {
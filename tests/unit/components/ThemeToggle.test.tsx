@@ -26,6 +26,7 @@ vi.mock("@store", () => ({
 // Helper para crear un estado UI Slice mockeado completo
 const createMockUISlice = (theme: ThemeMode): UISlice => ({
   theme,
+  currency: "EUR",
   sidebarOpen: false,
   sidebarCollapsed: false,
   notifications: [],
@@ -33,6 +34,7 @@ const createMockUISlice = (theme: ThemeMode): UISlice => ({
   isOnline: true,
   isMobile: false,
   setTheme: vi.fn(),
+  setCurrency: vi.fn(),
   toggleSidebar: vi.fn(),
   setSidebarOpen: vi.fn(),
   setSidebarCollapsed: vi.fn(),
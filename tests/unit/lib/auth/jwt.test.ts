@@ -0,0 +1,151 @@
+/**
+ * JWT Unit Tests
+ *
+ * Tests para la verificación de access tokens con Web Crypto: HS256 con
+ * secreto compartido, RS256 con JWKS, caducidad y tokens manipulados.
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import { decodeJwtClaims, getJwtSubject, verifyJwt, type JsonWebKeySet } from "@lib/auth";
+
+const SECRET = "test-jwt-secret";
+const NOW = 1_800_000_000;
+
+const encoder = new TextEncoder();
+
+function base64Url(value: string | ArrayBuffer): string {
+  const bytes = typeof value === "string" ? encoder.encode(value) : new Uint8Array(value);
+  return Buffer.from(bytes).toString("base64url");
+}
+
+function unsignedToken(header: Record<string, unknown>, claims: Record<string, unknown>) {
+  return `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+}
+
+async function signHs256(claims: Record<string, unknown>, secret = SECRET) {
+  const input = unsignedToken({ alg: "HS256", typ: "JWT" }, claims);
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return `${input}.${base64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(input)))}`;
+}
+
+let rsaKeys: CryptoKeyPair;
+let jwks: JsonWebKeySet;
+
+async function signRs256(claims: Record<string, unknown>, kid = "key-1") {
+  const input = unsignedToken({ alg: "RS256", typ: "JWT", kid }, claims);
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    rsaKeys.privateKey,
+    encoder.encode(input)
+  );
+  return `${input}.${base64Url(signature)}`;
+}
+
+beforeAll(async () => {
+  rsaKeys = await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"]
+  );
+  const publicKey = await crypto.subtle.exportKey("jwk", rsaKeys.publicKey);
+  jwks = { keys: [{ ...publicKey, kid: "key-1", use: "sig" }] };
+});
+
+describe("decodeJwtClaims", () => {
+  it("should decode the claims without verifying them", () => {
+    const token = `${unsignedToken({ alg: "none" }, { sub: 42, role: "admin" })}.`;
+
+    expect(decodeJwtClaims(token)).toEqual({ sub: 42, role: "admin" });
+    expect(getJwtSubject(decodeJwtClaims(token))).toBe("42");
+    expect(decodeJwtClaims("not-a-jwt")).toBeNull();
+  });
+});
+
+describe("verifyJwt", () => {
+  describe("HS256", () => {
+    it("should accept tokens signed with the shared secret", async () => {
+      const token = await signHs256({ sub: "7", role: "admin", exp: NOW + 60 });
+
+      expect(await verifyJwt(token, { secret: SECRET, now: NOW })).toEqual({
+        status: "valid",
+        claims: { sub: "7", role: "admin", exp: NOW + 60 },
+      });
+    });
+
+    it("should reject other secrets and tampered claims", async () => {
+      const token = await signHs256({ sub: "7", role: "customer" }, "another-secret");
+      expect(await verifyJwt(token, { secret: SECRET, now: NOW })).toMatchObject({
+        status: "invalid",
+        reason: "signature",
+      });
+
+      const [header, , signature] = (await signHs256({ sub: "7", role: "customer" })).split(".");
+      const claims = base64Url(JSON.stringify({ sub: "7", role: "admin" }));
+      const tampered = `${header}.${claims}.${signature}`;
+      expect((await verifyJwt(tampered, { secret: SECRET, now: NOW })).status).toBe("invalid");
+    });
+
+    it("should report expired tokens with a valid signature", async () => {
+      const token = await signHs256({ sub: "7", exp: NOW - 60 });
+
+      expect((await verifyJwt(token, { secret: SECRET, now: NOW })).status).toBe("expired");
+      expect(
+        (await verifyJwt(token, { secret: SECRET, now: NOW, clockToleranceSeconds: 120 })).status
+      ).toBe("valid");
+    });
+
+    it("should reject tokens that are not valid yet", async () => {
+      const token = await signHs256({ sub: "7", nbf: NOW + 600 });
+
+      expect(await verifyJwt(token, { secret: SECRET, now: NOW })).toMatchObject({
+        status: "invalid",
+        reason: "not_before",
+      });
+    });
+  });
+
+  describe("RS256", () => {
+    it("should accept tokens signed with a key of the JWKS", async () => {
+      const token = await signRs256({ sub: "7", exp: NOW + 60 });
+
+      const result = await verifyJwt(token, { getJwks: async () => jwks, now: NOW });
+      expect(result).toMatchObject({ status: "valid", claims: { sub: "7" } });
+    });
+
+    it("should reject unknown key IDs", async () => {
+      const token = await signRs256({ sub: "7" }, "rotated-key");
+
+      expect(await verifyJwt(token, { getJwks: async () => jwks, now: NOW })).toMatchObject({
+        status: "invalid",
+        reason: "unsupported_key",
+      });
+    });
+  });
+
+  it.each([
+    ["unsigned tokens", `${unsignedToken({ alg: "none" }, { sub: "7" })}.`],
+    ["malformed tokens", "header.payload"],
+  ])("should reject %s", async (_, token) => {
+    expect((await verifyJwt(token, { secret: SECRET, now: NOW })).status).toBe("invalid");
+  });
+
+  it("should only accept algorithms with a configured key", async () => {
+    const token = await signHs256({ sub: "7" });
+
+    expect(await verifyJwt(token, { getJwks: async () => jwks, now: NOW })).toMatchObject({
+      status: "invalid",
+      reason: "unsupported_key",
+    });
+  });
+});
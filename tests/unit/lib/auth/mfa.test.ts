@@ -0,0 +1,59 @@
+/**
+ * Auth MFA Unit Tests
+ *
+ * Tests para los roles que exigen la verificación en dos pasos, el claim
+ * `amr` del token y la validación de los códigos TOTP y de recuperación.
+ */
+
+import { describe, it, expect } from "vitest";
+import { hasMfaClaim, isMfaRequired, isTotpProvisioningUri } from "@lib/auth";
+import { mfaCodeFormSchema, recoveryCodeFormSchema } from "@lib/validation";
+
+describe("isMfaRequired", () => {
+  it.each([
+    ["customer", false],
+    ["admin", true],
+    ["super_admin", true],
+  ] as const)("%s should be %s", (role, expected) => {
+    expect(isMfaRequired(role)).toBe(expected);
+  });
+});
+
+describe("hasMfaClaim", () => {
+  it("should only accept tokens issued after the second factor", () => {
+    expect(hasMfaClaim({ amr: ["pwd", "otp"] })).toBe(true);
+    expect(hasMfaClaim({ amr: ["mfa"] })).toBe(true);
+    expect(hasMfaClaim({ amr: ["pwd"] })).toBe(false);
+    expect(hasMfaClaim({ amr: "otp" })).toBe(false);
+    expect(hasMfaClaim({ sub: "1" })).toBe(false);
+    expect(hasMfaClaim(null)).toBe(false);
+  });
+});
+
+describe("isTotpProvisioningUri", () => {
+  it("should only accept otpauth TOTP URIs with a secret", () => {
+    expect(
+      isTotpProvisioningUri(
+        "otpauth://totp/Ayla%20Designs:admin%40ayladesigns.me?secret=JBSWY3DPEHPK3PXP&issuer=Ayla"
+      )
+    ).toBe(true);
+    expect(isTotpProvisioningUri("otpauth://hotp/Ayla?secret=JBSWY3DPEHPK3PXP")).toBe(false);
+    expect(isTotpProvisioningUri("otpauth://totp/Ayla?issuer=Ayla")).toBe(false);
+    expect(isTotpProvisioningUri("javascript:alert(1)//otpauth://totp/x?secret=AB")).toBe(false);
+  });
+});
+
+describe("MFA code schemas", () => {
+  it("should accept TOTP codes typed in groups", () => {
+    expect(mfaCodeFormSchema.parse({ code: " 123 456 " })).toEqual({ code: "123456" });
+  });
+
+  it.each(["", "12345", "1234567", "12a456"])("should reject the TOTP code %j", (code) => {
+    expect(mfaCodeFormSchema.safeParse({ code }).success).toBe(false);
+  });
+
+  it("should accept recovery codes with dashes", () => {
+    expect(recoveryCodeFormSchema.parse({ code: "abcd-efgh" })).toEqual({ code: "abcd-efgh" });
+    expect(recoveryCodeFormSchema.safeParse({ code: "abc" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Auth Redirect Unit Tests
+ *
+ * Tests para el destino después del login: rutas internas, prefijo de
+ * locale y enlaces entre las páginas de auth.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getAuthHref, getSafeRedirect } from "@lib/auth";
+import { AFTER_LOGIN_REDIRECT } from "@/middleware/config";
+
+describe("getSafeRedirect", () => {
+  it("should keep internal paths with their query", () => {
+    expect(getSafeRedirect("/account/orders")).toBe("/account/orders");
+    expect(getSafeRedirect("/products?q=boda")).toBe("/products?q=boda");
+  });
+
+  it("should remove the locale prefix", () => {
+    expect(getSafeRedirect("/en/account/orders")).toBe("/account/orders");
+    expect(getSafeRedirect("/en")).toBe("/");
+    expect(getSafeRedirect("/english")).toBe("/english");
+  });
+
+  it.each([
+    null,
+    "",
+    "account",
+    "https://evil.example.com",
+    "//evil.example.com",
+    "/\\evil.example.com",
+    "/en//evil.example.com",
+  ])("should fall back for %s", (value) => {
+    expect(getSafeRedirect(value)).toBe(AFTER_LOGIN_REDIRECT);
+  });
+
+  it("should not return to the auth pages", () => {
+    expect(getSafeRedirect("/auth/login", "/account")).toBe("/account");
+    expect(getSafeRedirect("/en/auth/register?redirect=/", "/account")).toBe("/account");
+  });
+});
+
+describe("getAuthHref", () => {
+  it("should carry the destination between auth pages", () => {
+    expect(getAuthHref("/auth/register", "/account/orders")).toBe(
+      "/auth/register?redirect=%2Faccount%2Forders"
+    );
+  });
+
+  it("should omit the default destination", () => {
+    expect(getAuthHref("/auth/register", AFTER_LOGIN_REDIRECT)).toBe("/auth/register");
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Auth Roles Unit Tests
+ *
+ * Tests para la jerarquía de roles, el rol mínimo por ruta del middleware
+ * y el guard `requireRole()` de los route handlers.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { hasRole, parseUserRole } from "@lib/auth";
+import { getSessionUserId, requireRole } from "@lib/auth/server";
+import { checkAuth, getRequiredRole } from "@/middleware";
+import { AUTH_COOKIES, HEADERS } from "@/middleware/types";
+
+/** JWT sin firmar con los claims indicados */
+function accessToken(claims: Record<string, unknown>) {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `header.${payload}.signature`;
+}
+
+function requestAs(url: string, claims?: Record<string, unknown>) {
+  return new NextRequest(url, {
+    headers: claims ? { cookie: `${AUTH_COOKIES.ACCESS_TOKEN}=${accessToken(claims)}` } : {},
+  });
+}
+
+describe("roles", () => {
+  it.each([
+    ["customer", "customer", true],
+    ["customer", "admin", false],
+    ["admin", "admin", true],
+    ["admin", "super_admin", false],
+    ["super_admin", "admin", true],
+  ] as const)("hasRole(%s, %s) should be %s", (role, required, expected) => {
+    expect(hasRole(role, required)).toBe(expected);
+  });
+
+  it("should treat unknown roles as customer", () => {
+    expect(parseUserRole("admin")).toBe("admin");
+    expect(parseUserRole("musician")).toBe("customer");
+    expect(parseUserRole(undefined)).toBe("customer");
+  });
+});
+
+describe("getRequiredRole", () => {
+  it("should return the highest role of the matching routes", () => {
+    expect(getRequiredRole("/admin")).toBe("admin");
+    expect(getRequiredRole("/en/admin/orders")).toBe("admin");
+    expect(getRequiredRole("/admin/settings/payments")).toBe("super_admin");
+    expect(getRequiredRole("/account/orders")).toBeUndefined();
+  });
+});
+
+describe("checkAuth", () => {
+  it("should redirect to login without a session", async () => {
+    const result = await checkAuth(requestAs("http://localhost:3000/admin"));
+
+    expect(result.shouldRedirect).toBe(true);
+    expect(result.redirectUrl).toBe("http://localhost:3000/auth/login?redirect=%2Fadmin");
+  });
+
+  it("should show the 403 page in the route locale without the role", async () => {
+    const result = await checkAuth(
+      requestAs("http://localhost:3000/en/admin/settings", { sub: "1", role: "admin" })
+    );
+
+    expect(result).toMatchObject({ isAuthenticated: true, role: "admin", isForbidden: true });
+    expect(result.forbiddenUrl).toBe("http://localhost:3000/en/forbidden");
+    expect(
+      (await checkAuth(requestAs("http://localhost:3000/admin", { sub: "1" }))).forbiddenUrl
+    ).toBe("http://localhost:3000/es/forbidden");
+  });
+
+  it("should let through sessions with the role or a higher one", async () => {
+    const admin = await checkAuth(
+      requestAs("http://localhost:3000/admin", { sub: "1", role: "admin", amr: ["pwd", "otp"] })
+    );
+    const owner = await checkAuth(
+      requestAs("http://localhost:3000/admin/settings", {
+        sub: "1",
+        role: "super_admin",
+        amr: ["pwd", "otp"],
+      })
+    );
+
+    expect(admin.isForbidden).toBeUndefined();
+    expect(owner.isForbidden).toBeUndefined();
+    expect(admin).toMatchObject({ shouldRedirect: false, mfa: true });
+    expect(owner).toMatchObject({ shouldRedirect: false, mfa: true });
+  });
+});
+
+describe("requireRole", () => {
+  const url = "http://localhost:3000/api/admin";
+
+  it("should respond 401 without a session", () => {
+    const response = requireRole(requestAs(url), "admin");
+
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).status).toBe(401);
+  });
+
+  it("should respond 403 without the role", () => {
+    const response = requireRole(requestAs(url, { sub: "7", role: "customer" }), "admin");
+
+    expect((response as Response).status).toBe(403);
+  });
+
+  it("should return the session user with the role", () => {
+    const claims = { sub: 7, role: "super_admin", amr: ["pwd", "otp"] };
+
+    expect(requireRole(requestAs(url, claims), "admin")).toEqual({
+      id: "7",
+      role: "super_admin",
+      mfa: true,
+    });
+  });
+});
+
+describe("unverified tokens in production", () => {
+  const claims = { sub: "1", role: "admin", amr: ["pwd", "otp"] };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should not grant roles without token verification", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+
+    const result = await checkAuth(requestAs("http://localhost:3000/admin", claims));
+    const response = requireRole(requestAs("http://localhost:3000/api/admin", claims), "admin");
+
+    expect(result).toMatchObject({ isAuthenticated: true, role: "customer", mfa: false });
+    expect(result.isForbidden).toBe(true);
+    expect((response as Response).status).toBe(401);
+  });
+
+  it("should not identify the user of an unverified token", () => {
+    const request = requestAs("http://localhost:3000/api/orders", { sub: "42" });
+
+    expect(getSessionUserId(request)).toBe("42");
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(getSessionUserId(request)).toBeNull();
+
+    // Con la verificación configurada cuenta el header del middleware
+    vi.stubEnv("AUTH_JWT_SECRET", "secret");
+    expect(
+      getSessionUserId(
+        new NextRequest("http://localhost:3000/api/orders", {
+          headers: { [HEADERS.USER_ID]: "42" },
+        })
+      )
+    ).toBe("42");
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Cart Merge Unit Tests
+ *
+ * Tests para las reglas de fusión del carrito anónimo con el de la cuenta.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_QUANTITY_PER_ITEM,
+  getCartLineKey,
+  mergeCartLines,
+  normalizeCartLines,
+  type MergeCartOptions,
+} from "@lib/cart";
+
+const options: MergeCartOptions = {
+  isAvailable: (productId, variantId) => productId !== 99 && variantId !== 999,
+};
+
+describe("mergeCartLines", () => {
+  it("should sum quantities of products present in both carts", () => {
+    // Arrange
+    const anonymous = [{ productId: 1, quantity: 2 }];
+    const stored = [{ productId: 1, quantity: 3 }];
+
+    // Act
+    const { items, summary } = mergeCartLines(anonymous, stored, options);
+
+    // Assert
+    expect(items).toEqual([{ productId: 1, quantity: 5 }]);
+    expect(summary).toEqual({ added: 0, combined: 1, capped: [], dropped: [] });
+  });
+
+  it("should keep stored order and append new anonymous lines", () => {
+    const anonymous = [{ productId: 3, quantity: 1 }];
+    const stored = [
+      { productId: 2, quantity: 1 },
+      { productId: 1, quantity: 1 },
+    ];
+
+    const { items, summary } = mergeCartLines(anonymous, stored, options);
+
+    expect(items.map((line) => line.productId)).toEqual([2, 1, 3]);
+    expect(summary.added).toBe(1);
+  });
+
+  it("should cap quantities per item", () => {
+    const anonymous = [{ productId: 1, quantity: MAX_QUANTITY_PER_ITEM }];
+    const stored = [{ productId: 1, quantity: 4 }];
+
+    const { items, summary } = mergeCartLines(anonymous, stored, options);
+
+    expect(items).toEqual([{ productId: 1, quantity: MAX_QUANTITY_PER_ITEM }]);
+    expect(summary.capped).toEqual([1]);
+  });
+
+  it("should honour a custom maximum", () => {
+    const { items } = mergeCartLines([{ productId: 1, quantity: 5 }], [], {
+      ...options,
+      maxQuantity: 2,
+    });
+
+    expect(items).toEqual([{ productId: 1, quantity: 2 }]);
+  });
+
+  it("should drop discontinued products from either cart", () => {
+    const anonymous = [{ productId: 99, quantity: 1 }];
+    const stored = [
+      { productId: 1, quantity: 1 },
+      { productId: 99, quantity: 2 },
+    ];
+
+    const { items, summary } = mergeCartLines(anonymous, stored, options);
+
+    expect(items).toEqual([{ productId: 1, quantity: 1 }]);
+    expect(summary.dropped).toEqual([99]);
+    expect(summary.combined).toBe(0);
+  });
+});
+
+describe("mergeCartLines with variants", () => {
+  it("should keep each variant of a product as its own line", () => {
+    // Arrange
+    const anonymous = [{ productId: 1, variantId: 102, quantity: 1 }];
+    const stored = [
+      { productId: 1, variantId: 101, quantity: 1 },
+      { productId: 1, variantId: 102, quantity: 2 },
+    ];
+
+    // Act
+    const { items, summary } = mergeCartLines(anonymous, stored, options);
+
+    // Assert
+    expect(items).toEqual([
+      { productId: 1, variantId: 101, quantity: 1 },
+      { productId: 1, variantId: 102, quantity: 3 },
+    ]);
+    expect(summary.combined).toBe(1);
+  });
+
+  it("should drop variants that are no longer available", () => {
+    const { items, summary } = mergeCartLines(
+      [{ productId: 1, variantId: 999, quantity: 1 }],
+      [],
+      options
+    );
+
+    expect(items).toEqual([]);
+    expect(summary).toMatchObject({ added: 0, dropped: [1] });
+  });
+});
+
+describe("getCartLineKey", () => {
+  it("should include the variant only when there is one", () => {
+    expect(getCartLineKey(1, 102)).toBe("1:102");
+    expect(getCartLineKey(1, null)).toBe("1");
+    expect(getCartLineKey(1)).toBe("1");
+  });
+});
+
+describe("normalizeCartLines", () => {
+  it("should group duplicated lines", () => {
+    const lines = [
+      { productId: 1, quantity: 1 },
+      { productId: 1, quantity: 2 },
+    ];
+
+    expect(normalizeCartLines(lines, options)).toEqual([
+      { productId: 1, quantity: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Cart Repository Unit Tests
+ *
+ * Tests para las implementaciones en memoria y en archivo del repositorio.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileCartRepository,
+  InMemoryCartRepository,
+  type CartRepository,
+} from "@lib/cart/server/repository";
+
+const lines = [
+  { productId: 1, quantity: 2 },
+  { productId: 3, quantity: 1 },
+];
+
+describe.each([
+  ["InMemoryCartRepository", async () => new InMemoryCartRepository()],
+  [
+    "FileCartRepository",
+    async () => new FileCartRepository(await mkdtemp(join(tmpdir(), "cart-"))),
+  ],
+] as const)("%s", (_name, createRepository) => {
+  let repository: CartRepository;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+  });
+
+  it("should return null for an unknown owner", async () => {
+    expect(await repository.get("user-1")).toBeNull();
+  });
+
+  it("should save and read back a cart", async () => {
+    // Act
+    const saved = await repository.save("user-1", lines);
+
+    // Assert
+    expect(saved.items).toEqual(lines);
+    expect(await repository.get("user-1")).toEqual(saved);
+  });
+
+  it("should keep carts of different owners apart", async () => {
+    await repository.save("user-1", lines);
+
+    expect(await repository.get("user-2")).toBeNull();
+  });
+
+  it("should delete a cart", async () => {
+    await repository.save("user-1", lines);
+
+    await repository.delete("user-1");
+
+    expect(await repository.get("user-1")).toBeNull();
+  });
+
+  it("should ignore deleting a missing cart", async () => {
+    await expect(repository.delete("nobody")).resolves.toBeUndefined();
+  });
+});
+
+describe("FileCartRepository paths", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cart-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should not use the raw owner id as file name", async () => {
+    const repository = new FileCartRepository(dir);
+
+    await repository.save("../escape", lines);
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[a-f0-9]{64}\.json$/);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Catalog Filters Unit Tests
+ *
+ * Tests para la lectura y escritura de los filtros del catálogo en la URL
+ * y para el listado filtrado y paginado.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyCatalogFilters,
+  DEFAULT_CATALOG_FILTERS,
+  getCatalogHref,
+  hasActiveFilters,
+  parseCatalogFilters,
+  serializeCatalogFilters,
+  type CatalogFilters,
+} from "@lib/catalog";
+import type { AylaProduct } from "@types";
+
+function product(id: number, category: string, price: number): AylaProduct {
+  return {
+    id,
+    name: `Diseño ${id}`,
+    slug: `diseno-${id}`,
+    description: "Diseño digital",
+    price,
+    category,
+    imageType: "planner",
+    features: [],
+  };
+}
+
+const catalog = [
+  product(1, "Planners", 24.99),
+  product(2, "Tarjetas", 12.99),
+  product(3, "Tarjetas", 9.99),
+  product(4, "Bodas", 39.99),
+  product(5, "Branding", 49.99),
+];
+
+describe("parseCatalogFilters", () => {
+  it("should read every filter from the search params", () => {
+    const params = new URLSearchParams(
+      "q=boda&categories=bodas,tarjetas&minPrice=10&maxPrice=40&sort=price_desc&page=2"
+    );
+
+    expect(parseCatalogFilters(params)).toEqual({
+      query: "boda",
+      categories: ["bodas", "tarjetas"],
+      minPrice: 10,
+      maxPrice: 40,
+      sort: "price_desc",
+      page: 2,
+    });
+  });
+
+  it("should default to the whole catalog", () => {
+    expect(parseCatalogFilters({})).toEqual(DEFAULT_CATALOG_FILTERS);
+  });
+
+  it("should ignore invalid values instead of failing", () => {
+    expect(
+      parseCatalogFilters({
+        categories: "bodas,Bad Slug!,bodas",
+        minPrice: "-5",
+        maxPrice: "abc",
+        sort: "random",
+        page: "0",
+      })
+    ).toEqual({ ...DEFAULT_CATALOG_FILTERS, categories: ["bodas"] });
+  });
+
+  it("should ignore empty prices", () => {
+    expect(parseCatalogFilters({ minPrice: "", maxPrice: "" })).toEqual(DEFAULT_CATALOG_FILTERS);
+    expect(parseCatalogFilters({ minPrice: "", maxPrice: "20" })).toEqual({
+      ...DEFAULT_CATALOG_FILTERS,
+      maxPrice: 20,
+    });
+  });
+
+  it("should drop a maximum price below the minimum", () => {
+    expect(parseCatalogFilters({ minPrice: "30", maxPrice: "10" })).toEqual({
+      ...DEFAULT_CATALOG_FILTERS,
+      minPrice: 30,
+    });
+  });
+
+  it("should take the first value of repeated params", () => {
+    expect(parseCatalogFilters({ q: ["boda", "planner"] }).query).toBe("boda");
+  });
+});
+
+describe("serializeCatalogFilters", () => {
+  it("should omit the default values", () => {
+    expect(serializeCatalogFilters(DEFAULT_CATALOG_FILTERS).toString()).toBe("");
+    expect(getCatalogHref("/products", DEFAULT_CATALOG_FILTERS)).toBe("/products");
+  });
+
+  it("should round-trip through the URL", () => {
+    const filters: CatalogFilters = {
+      query: "invitación boda",
+      categories: ["bodas"],
+      minPrice: 0,
+      maxPrice: 15,
+      sort: "name",
+      page: 3,
+    };
+
+    const href = getCatalogHref("/products", filters);
+    expect(href).toBe(
+      "/products?q=invitaci%C3%B3n+boda&categories=bodas&minPrice=0&maxPrice=15&sort=name&page=3"
+    );
+    expect(parseCatalogFilters(new URL(href, "http://localhost").searchParams)).toEqual(filters);
+  });
+});
+
+describe("hasActiveFilters", () => {
+  it("should ignore the sort and the page", () => {
+    expect(hasActiveFilters({ ...DEFAULT_CATALOG_FILTERS, sort: "name", page: 2 })).toBe(false);
+    expect(hasActiveFilters({ ...DEFAULT_CATALOG_FILTERS, maxPrice: 20 })).toBe(true);
+  });
+});
+
+describe("applyCatalogFilters", () => {
+  it("should filter, sort and paginate", () => {
+    const page = applyCatalogFilters(
+      catalog,
+      { ...DEFAULT_CATALOG_FILTERS, categories: ["tarjetas", "planners"], sort: "price_asc", page: 2 },
+      { pageSize: 2 }
+    );
+
+    expect(page).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 });
+    expect(page.items.map(({ id }) => id)).toEqual([1]);
+    expect(page.facets.categories.find(({ slug }) => slug === "bodas")?.count).toBe(1);
+  });
+
+  it("should clamp a page past the end to the last page", () => {
+    const page = applyCatalogFilters(
+      catalog,
+      { ...DEFAULT_CATALOG_FILTERS, page: 9 },
+      { pageSize: 2 }
+    );
+
+    expect(page.page).toBe(3);
+    expect(page.items.map(({ id }) => id)).toEqual([5]);
+  });
+
+  it("should return an empty first page without results", () => {
+    const page = applyCatalogFilters(catalog, { ...DEFAULT_CATALOG_FILTERS, query: "zzzz" });
+
+    expect(page).toMatchObject({ total: 0, page: 1, totalPages: 1, items: [] });
+  });
+});
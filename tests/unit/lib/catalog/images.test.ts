@@ -0,0 +1,47 @@
+/**
+ * Catalog Images Unit Tests
+ *
+ * Tests para la galería de imágenes de los productos.
+ */
+
+import { describe, it, expect } from "vitest";
+import { existsSync } from "fs";
+import { join } from "path";
+import { products } from "@/data/ayla";
+import { createGradientPlaceholder, getProductCover, getProductImages } from "@lib/catalog";
+
+describe("product images", () => {
+  it("should list the cover first", () => {
+    const images = getProductImages(products[0]);
+
+    expect(images[0].src).toBe("/images/products/planner.webp");
+    expect(getProductCover(products[0])).toBe(images[0]);
+  });
+
+  it("should only reference images that exist under public/", () => {
+    const missing = products
+      .flatMap((product) => getProductImages(product))
+      .map(({ src }) => src)
+      .filter((src) => !existsSync(join(process.cwd(), "public", src)));
+
+    expect(missing).toEqual([]);
+  });
+
+  it("should return no images for products without a gallery", () => {
+    const product = { ...products[0], images: undefined };
+
+    expect(getProductImages(product)).toEqual([]);
+    expect(getProductCover(product)).toBeUndefined();
+  });
+});
+
+describe("createGradientPlaceholder", () => {
+  it("should build an SVG data URL with both colors", () => {
+    const placeholder = createGradientPlaceholder("#E8D5B0", "#C9B8D4");
+    const svg = decodeURIComponent(placeholder.replace("data:image/svg+xml,", ""));
+
+    expect(placeholder.startsWith("data:image/svg+xml,")).toBe(true);
+    expect(svg).toContain('stop-color="#E8D5B0"');
+    expect(svg).toContain('stop-color="#C9B8D4"');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Catalog Localization Unit Tests
+ *
+ * Tests para las traducciones del contenido de los productos y el informe
+ * de traducciones pendientes.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { products } from "@/data/ayla";
+import { routing } from "@/i18n/routing";
+import { listLocalizedProducts, StaticCatalogRepository } from "@lib/catalog/server";
+import { logger } from "@lib/logger";
+import {
+  getMissingProductTranslations,
+  localizeCartItem,
+  localizeProduct,
+  toCartItem,
+  type ProductTranslations,
+} from "@lib/catalog";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const planner = products[0];
+
+const translations: ProductTranslations = {
+  "celestial-planner-2025": {
+    description: "Complete digital planner.",
+    features: ["12 full months"],
+    variants: {
+      "102": { name: "Premium", features: ["Digital stickers (200+)"] },
+    },
+  },
+};
+
+describe("localizeProduct", () => {
+  it("should translate the content and keep the catalog fields", () => {
+    const localized = localizeProduct(planner, translations);
+
+    expect(localized).toMatchObject({
+      id: planner.id,
+      price: planner.price,
+      description: "Complete digital planner.",
+      features: ["12 full months"],
+    });
+    expect(localized.variants?.[1].features).toEqual(["Digital stickers (200+)"]);
+  });
+
+  it("should fall back to the catalog content for untranslated fields", () => {
+    const localized = localizeProduct(planner, translations);
+
+    expect(localized.name).toBe(planner.name);
+    expect(localized.variants?.[0]).toBe(planner.variants?.[0]);
+  });
+
+  it("should return the same product without translations", () => {
+    expect(localizeProduct(planner, undefined)).toBe(planner);
+    expect(localizeProduct(products[1], translations)).toBe(products[1]);
+  });
+});
+
+describe("localizeCartItem", () => {
+  it("should use the translated variant name and features", () => {
+    const item = toCartItem(planner, planner.variants?.[1], 1);
+
+    const localized = localizeCartItem(item, translations);
+
+    expect(localized).toMatchObject({
+      variantId: 102,
+      variantName: "Premium",
+      features: ["Digital stickers (200+)"],
+      description: "Complete digital planner.",
+      quantity: 1,
+    });
+  });
+});
+
+describe("getMissingProductTranslations", () => {
+  it("should report the untranslated fields by locale", () => {
+    const missing = getMissingProductTranslations([planner, products[1]], {
+      en: translations,
+    });
+
+    expect(missing).toEqual([
+      {
+        locale: "en",
+        slug: "celestial-planner-2025",
+        fields: ["name", "variants.101.name", "variants.101.features"],
+      },
+      expect.objectContaining({ locale: "en", slug: "bohemian-business-cards" }),
+    ]);
+  });
+
+  it("should have the built-in catalog translated to every locale", async () => {
+    const locales = routing.locales.filter((locale) => locale !== routing.defaultLocale);
+    const translationsByLocale = Object.fromEntries(
+      await Promise.all(
+        locales.map(async (locale) => [
+          locale,
+          (await import(`../../../../messages/${locale}/products.json`)).default,
+        ])
+      )
+    );
+
+    expect(getMissingProductTranslations(products, translationsByLocale)).toEqual([]);
+  });
+});
+
+describe("listLocalizedProducts", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.mocked(logger.warn).mockClear();
+  });
+
+  it("should warn once in development about untranslated products", async () => {
+    vi.stubEnv("NODE_ENV", "development");
+    const repository = new StaticCatalogRepository([
+      planner,
+      { ...planner, id: 999, slug: "untranslated-planner", variants: undefined },
+    ]);
+
+    const localized = await listLocalizedProducts("en", repository);
+    await listLocalizedProducts("en", repository);
+
+    expect(localized[1].name).toBe(planner.name);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith("Missing product translation", {
+      locale: "en",
+      slug: "untranslated-planner",
+      fields: ["name", "description", "features"],
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Catalog Repository Unit Tests
+ *
+ * Tests para el repositorio estático (con fixtures) y el HTTP (con un
+ * cliente simulado).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ApiError } from "@/errors";
+import { bundles, products, reviews } from "@/data/ayla";
+import {
+  getCatalogRepository,
+  setCatalogRepository,
+  HttpCatalogRepository,
+  StaticCatalogRepository,
+} from "@lib/catalog/server";
+import type { AylaProduct } from "@types";
+
+const fixtures: AylaProduct[] = [
+  {
+    id: 1,
+    name: "Agenda Lunar",
+    slug: "agenda-lunar",
+    description: "Planificador con fases lunares.",
+    price: 19.99,
+    category: "Planners",
+    imageType: "planner",
+    features: ["12 meses"],
+  },
+  {
+    id: 2,
+    name: "Tarjetas de Visita",
+    slug: "tarjetas-de-visita",
+    description: "Diseño bohemio para tu negocio.",
+    price: 9.99,
+    category: "Tarjetas",
+    imageType: "cards",
+    features: ["Editable en Canva"],
+  },
+];
+
+describe("StaticCatalogRepository", () => {
+  const repository = new StaticCatalogRepository(fixtures, []);
+
+  it("should list the injected products", async () => {
+    expect(await repository.list()).toEqual(fixtures);
+  });
+
+  it("should get products by slug", async () => {
+    expect((await repository.getBySlug("tarjetas-de-visita"))?.id).toBe(2);
+    expect(await repository.getBySlug("unknown")).toBeNull();
+  });
+
+  it("should filter products by category slug", async () => {
+    const planners = await repository.listByCategory("planners");
+
+    expect(planners.map((product) => product.id)).toEqual([1]);
+    expect(await repository.listByCategory("unknown")).toEqual([]);
+  });
+
+  it("should search ignoring case and accents", async () => {
+    expect((await repository.search("DISENO negocio")).map((product) => product.id)).toEqual([2]);
+    expect((await repository.search("lunar")).map((product) => product.id)).toEqual([1]);
+    expect(await repository.search("   ")).toEqual(fixtures);
+  });
+
+  it("should default to the built-in catalog", async () => {
+    const builtIn = new StaticCatalogRepository();
+
+    expect(await builtIn.list()).toEqual(products);
+    expect(await builtIn.listReviews()).toEqual(reviews);
+    expect(await builtIn.listBundles()).toEqual(bundles);
+  });
+});
+
+describe("HttpCatalogRepository", () => {
+  const client = { get: vi.fn() };
+  const repository = new HttpCatalogRepository(client);
+
+  beforeEach(() => {
+    client.get.mockReset();
+  });
+
+  it("should request the product list", async () => {
+    client.get.mockResolvedValue({ data: fixtures, status: 200, correlationId: null });
+
+    expect(await repository.list()).toEqual(fixtures);
+    expect(client.get).toHaveBeenCalledWith("/api/v1/products");
+  });
+
+  it("should pass the category and search filters as params", async () => {
+    client.get.mockResolvedValue({ data: [fixtures[0]], status: 200, correlationId: null });
+
+    await repository.listByCategory("planners");
+    await repository.search(" lunar ");
+
+    expect(client.get).toHaveBeenNthCalledWith(1, "/api/v1/products", {
+      params: { category: "planners" },
+    });
+    expect(client.get).toHaveBeenNthCalledWith(2, "/api/v1/products", {
+      params: { q: "lunar" },
+    });
+  });
+
+  it("should request the bundles", async () => {
+    client.get.mockResolvedValue({ data: [], status: 200, correlationId: null });
+
+    expect(await repository.listBundles()).toEqual([]);
+    expect(client.get).toHaveBeenCalledWith("/api/v1/bundles");
+  });
+
+  it("should return null for unknown slugs", async () => {
+    client.get.mockRejectedValue(
+      new ApiError({
+        code: "PRODUCT_NOT_FOUND",
+        message: "Producto no encontrado",
+        status_code: 404,
+        correlation_id: "cid-1",
+        timestamp: new Date().toISOString(),
+        path: "/api/v1/products/unknown",
+      })
+    );
+
+    expect(await repository.getBySlug("unknown")).toBeNull();
+    expect(client.get).toHaveBeenCalledWith("/api/v1/products/unknown");
+  });
+
+  it("should propagate other errors", async () => {
+    client.get.mockRejectedValue(new Error("Network down"));
+
+    await expect(repository.getBySlug("agenda-lunar")).rejects.toThrow("Network down");
+  });
+});
+
+describe("getCatalogRepository", () => {
+  afterEach(() => {
+    setCatalogRepository(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("should select the implementation from CATALOG_REPOSITORY", () => {
+    vi.stubEnv("CATALOG_REPOSITORY", "http");
+    expect(getCatalogRepository()).toBeInstanceOf(HttpCatalogRepository);
+
+    setCatalogRepository(null);
+    vi.stubEnv("CATALOG_REPOSITORY", "");
+    expect(getCatalogRepository()).toBeInstanceOf(StaticCatalogRepository);
+  });
+
+  it("should allow injecting a repository", () => {
+    const injected = new StaticCatalogRepository(fixtures, []);
+    setCatalogRepository(injected);
+
+    expect(getCatalogRepository()).toBe(injected);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Catalog Search Unit Tests
+ *
+ * Tests para la búsqueda de texto (tildes, plurales, erratas), los filtros,
+ * el orden y las facetas de la búsqueda de productos.
+ */
+
+import { describe, it, expect } from "vitest";
+import { editDistance, searchProducts, stemSpanish, tokenize } from "@lib/catalog";
+import type { AylaProduct } from "@types";
+
+const fixtures: AylaProduct[] = [
+  {
+    id: 1,
+    name: "Agenda Lunar",
+    slug: "agenda-lunar",
+    description: "Planificador digital con fases lunares y seguimiento de hábitos.",
+    price: 19.99,
+    category: "Planners",
+    imageType: "planner",
+    features: ["12 meses", "Compatible con GoodNotes"],
+  },
+  {
+    id: 2,
+    name: "Invitaciones de Boda",
+    slug: "invitaciones-de-boda",
+    description: "Suite de papelería para bodas con diseño bohemio.",
+    price: 39.99,
+    category: "Bodas",
+    imageType: "wedding",
+    features: ["Invitación", "Menú", "Tarjetas de mesa"],
+  },
+  {
+    id: 3,
+    name: "Tarjetas de Visita",
+    slug: "tarjetas-de-visita",
+    description: "Diseño bohemio para tu negocio.",
+    price: 9.99,
+    category: "Tarjetas",
+    imageType: "cards",
+    features: ["Editable en Canva"],
+  },
+  {
+    id: 4,
+    name: "Kit de Marca",
+    slug: "kit-de-marca",
+    description: "Logotipos, paleta y tipografías para tu negocio.",
+    price: 59.99,
+    category: "Branding",
+    imageType: "brand",
+    features: ["Logotipo", "Guía de estilo"],
+  },
+];
+
+const ids = (products: AylaProduct[]) => products.map(({ id }) => id);
+
+describe("text helpers", () => {
+  it.each([
+    ["invitaciones", "invitacion"],
+    ["lapices", "lapiz"],
+    ["tarjetas", "tarjeta"],
+    ["meses", "mes"],
+    ["kit", "kit"],
+  ])("should stem %s to %s", (word, stem) => {
+    expect(stemSpanish(word)).toBe(stem);
+  });
+
+  it("should tokenize without accents, case or plurals", () => {
+    expect(tokenize("Diseño de INVITACIONES, Menú")).toEqual(["diseno", "de", "invitacion", "menu"]);
+  });
+
+  it("should stop computing the edit distance past the limit", () => {
+    expect(editDistance("planner", "planer")).toBe(1);
+    expect(editDistance("boda", "bohemio", 1)).toBe(2);
+  });
+});
+
+describe("searchProducts", () => {
+  describe("text matching", () => {
+    it("should ignore accents and plurals", () => {
+      expect(ids(searchProducts(fixtures, { query: "invitación" }).items)).toEqual([2]);
+      expect(ids(searchProducts(fixtures, { query: "DISENO bohemio" }).items)).toEqual([2, 3]);
+      expect(ids(searchProducts(fixtures, { query: "boda" }).items)).toEqual([2]);
+    });
+
+    it("should search in the features", () => {
+      expect(ids(searchProducts(fixtures, { query: "goodnotes" }).items)).toEqual([1]);
+    });
+
+    it("should match prefixes while typing", () => {
+      expect(ids(searchProducts(fixtures, { query: "logot" }).items)).toEqual([4]);
+    });
+
+    it("should tolerate typos", () => {
+      expect(ids(searchProducts(fixtures, { query: "ajenda" }).items)).toEqual([1]);
+      expect(ids(searchProducts(fixtures, { query: "planificadro" }).items)).toEqual([1]);
+    });
+
+    it("should require every term to match", () => {
+      expect(searchProducts(fixtures, { query: "boda logotipo" }).total).toBe(0);
+    });
+
+    it("should rank name matches first", () => {
+      // "tarjetas" está en el nombre del 3 y en las características del 2
+      expect(ids(searchProducts(fixtures, { query: "tarjetas" }).items)).toEqual([3, 2]);
+    });
+
+    it("should return the whole catalog without a query", () => {
+      expect(ids(searchProducts(fixtures).items)).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe("filters and sorting", () => {
+    it("should filter by category and price", () => {
+      const result = searchProducts(fixtures, {
+        categories: ["bodas", "tarjetas"],
+        maxPrice: 20,
+      });
+
+      expect(ids(result.items)).toEqual([3]);
+    });
+
+    it.each([
+      ["price_asc", [3, 1, 2, 4]],
+      ["price_desc", [4, 2, 1, 3]],
+      ["name", [1, 2, 4, 3]],
+    ] as const)("should sort by %s", (sort, expected) => {
+      expect(ids(searchProducts(fixtures, { sort }).items)).toEqual(expected);
+    });
+
+    it("should sort by name with the collation of the locale", () => {
+      const named = [
+        { ...fixtures[0], id: 10, name: "Ñandú" },
+        { ...fixtures[0], id: 11, name: "Nube" },
+      ];
+
+      expect(ids(searchProducts(named, { sort: "name" }).items)).toEqual([11, 10]);
+      expect(ids(searchProducts(named, { sort: "name", locale: "en" }).items)).toEqual([10, 11]);
+    });
+  });
+
+  describe("facets", () => {
+    it("should count the categories ignoring the category filter", () => {
+      const { facets } = searchProducts(fixtures, {
+        query: "bohemio",
+        categories: ["bodas"],
+      });
+
+      expect(facets.categories).toEqual([
+        { slug: "planners", name: "Planners", count: 0 },
+        { slug: "bodas", name: "Bodas", count: 1 },
+        { slug: "tarjetas", name: "Tarjetas", count: 1 },
+        { slug: "branding", name: "Branding", count: 0 },
+      ]);
+    });
+
+    it("should count the price ranges ignoring the price filter", () => {
+      const { facets, total } = searchProducts(fixtures, { minPrice: 50 });
+
+      expect(total).toBe(1);
+      expect(facets.priceRanges.map(({ key, count }) => [key, count])).toEqual([
+        ["under_15", 1],
+        ["15_30", 1],
+        ["30_50", 1],
+        ["over_50", 1],
+      ]);
+    });
+
+    it("should count prices on a range boundary only in the upper range", () => {
+      const bounded = [15, 30, 50].map((price, index) => ({ ...fixtures[0], id: index, price }));
+      const { facets } = searchProducts(bounded);
+
+      expect(facets.priceRanges.map(({ key, count }) => [key, count])).toEqual([
+        ["under_15", 0],
+        ["15_30", 1],
+        ["30_50", 1],
+        ["over_50", 1],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Catalog Slugs Unit Tests
+ *
+ * Tests para las rutas de productos y categorías del catálogo.
+ */
+
+import { describe, it, expect } from "vitest";
+import { products } from "@/data/ayla";
+import {
+  findProductBySlug,
+  getCatalogCategories,
+  getCategorySlug,
+  getProductsByCategory,
+  slugify,
+} from "@lib/catalog";
+
+describe("slugify", () => {
+  it("should remove accents and join words with dashes", () => {
+    expect(slugify("Diseños para Bodas")).toBe("disenos-para-bodas");
+    expect(slugify("  Social Media & Branding! ")).toBe("social-media-branding");
+  });
+});
+
+describe("catalog slugs", () => {
+  it("should give every product a unique URL-safe slug", () => {
+    const slugs = products.map((product) => product.slug);
+
+    expect(new Set(slugs).size).toBe(products.length);
+    for (const slug of slugs) {
+      expect(slugify(slug)).toBe(slug);
+    }
+  });
+
+  it("should find products by slug", () => {
+    expect(findProductBySlug(products, "mystic-brand-kit")?.id).toBe(5);
+    expect(findProductBySlug(products, "unknown")).toBeUndefined();
+  });
+});
+
+describe("catalog categories", () => {
+  it("should list each category once with its product count", () => {
+    // Act
+    const categories = getCatalogCategories(products);
+
+    // Assert
+    expect(categories).toContainEqual({ slug: "tarjetas", name: "Tarjetas", productCount: 2 });
+    expect(categories.map((category) => category.slug)).toEqual([
+      "planners",
+      "tarjetas",
+      "social-media",
+      "bodas",
+      "branding",
+    ]);
+  });
+
+  it("should filter products by category slug", () => {
+    expect(getCategorySlug("Social Media")).toBe("social-media");
+    expect(getProductsByCategory(products, "tarjetas").map((product) => product.id)).toEqual([
+      2, 6,
+    ]);
+    expect(getProductsByCategory(products, "unknown")).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Catalog Variants Unit Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findVariant,
+  getStartingPrice,
+  hasPriceRange,
+  isVariantAvailable,
+  toCartItem,
+} from "@lib/catalog";
+import type { AylaProduct } from "@types";
+
+const product: AylaProduct = {
+  id: 1,
+  name: "Celestial Planner 2025",
+  slug: "celestial-planner-2025",
+  description: "",
+  price: 24.99,
+  category: "Planners",
+  imageType: "planner",
+  features: ["12 meses"],
+  variants: [
+    { id: 102, name: "Premium", price: 34.99, features: ["12 meses", "Stickers"], files: [], downloadLimit: 10 },
+    { id: 101, name: "Basic", price: 24.99, features: ["12 meses"], files: [], downloadLimit: 5 },
+  ],
+};
+
+const singleVersion: AylaProduct = { ...product, variants: undefined };
+
+describe("catalog variants", () => {
+  it("should default to the cheapest variant", () => {
+    expect(findVariant(product)?.name).toBe("Basic");
+    expect(findVariant(product, 102)?.name).toBe("Premium");
+    expect(findVariant(product, 999)).toBeUndefined();
+  });
+
+  it("should only reject variants that do not exist", () => {
+    expect(isVariantAvailable(product, 102)).toBe(true);
+    expect(isVariantAvailable(product, 999)).toBe(false);
+    expect(isVariantAvailable(singleVersion)).toBe(true);
+  });
+
+  it("should compute the 'from' price", () => {
+    expect(getStartingPrice(product)).toBe(24.99);
+    expect(hasPriceRange(product)).toBe(true);
+    expect(getStartingPrice({ ...singleVersion, price: 9.99 })).toBe(9.99);
+    expect(hasPriceRange(singleVersion)).toBe(false);
+  });
+
+  it("should build cart items with the price and features of the variant", () => {
+    const item = toCartItem(product, findVariant(product, 102), 2);
+
+    expect(item).toMatchObject({
+      id: 1,
+      variantId: 102,
+      variantName: "Premium",
+      price: 34.99,
+      features: ["12 meses", "Stickers"],
+      quantity: 2,
+    });
+    expect(toCartItem(singleVersion, undefined, 1)).toEqual({ ...singleVersion, quantity: 1 });
+  });
+});
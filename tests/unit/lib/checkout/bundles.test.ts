@@ -0,0 +1,160 @@
+/**
+ * Checkout Bundles Unit Tests
+ *
+ * Tests para la detección de packs completos y ofertas en el carrito.
+ */
+
+import { describe, it, expect } from "vitest";
+import { detectBundles, type BundleLine } from "@lib/checkout";
+import type { AylaBundle } from "@types";
+
+const weddingBundle: AylaBundle = {
+  id: 1001,
+  name: "Pack Boda Completa",
+  description: "",
+  imageType: "wedding",
+  items: [
+    { product_id: 4, variant_id: null, quantity: 1 },
+    { product_id: 6, variant_id: null, quantity: 1 },
+  ],
+  discount_type: "percentage",
+  discount_value: 15,
+};
+
+const premiumBundle: AylaBundle = {
+  id: 1002,
+  name: "Pack Marca Premium",
+  description: "",
+  imageType: "brand",
+  items: [
+    { product_id: 5, variant_id: 502, quantity: 1 },
+    { product_id: 2, variant_id: null, quantity: 2 },
+  ],
+  discount_type: "fixed",
+  discount_value: 15,
+};
+
+const suite: BundleLine = { productId: 4, variantId: 401, quantity: 1, unitAmount: 3999 };
+const thanks: BundleLine = { productId: 6, variantId: 601, quantity: 1, unitAmount: 999 };
+
+describe("detectBundles", () => {
+  it("should apply a percentage discount when every product is in the cart", () => {
+    // Act
+    const { matches, offers } = detectBundles([suite, thanks], [weddingBundle]);
+
+    // Assert
+    expect(matches).toEqual([
+      {
+        bundle: weddingBundle,
+        count: 1,
+        consumed: { "4:401": 1, "6:601": 1 },
+        amount: 4998,
+        discount: 750,
+      },
+    ]);
+    expect(offers).toEqual([]);
+  });
+
+  it("should count one bundle per complete set and leave extra units loose", () => {
+    const { matches } = detectBundles(
+      [
+        { ...suite, quantity: 2 },
+        { ...thanks, quantity: 3 },
+      ],
+      [weddingBundle]
+    );
+
+    expect(matches[0]).toMatchObject({
+      count: 2,
+      consumed: { "4:401": 2, "6:601": 2 },
+      amount: 9996,
+      discount: 1499,
+    });
+  });
+
+  it("should apply fixed discounts per bundle", () => {
+    // Arrange
+    const lines: BundleLine[] = [
+      { productId: 5, variantId: 502, quantity: 1, unitAmount: 7999 },
+      { productId: 2, variantId: 201, quantity: 2, unitAmount: 1299 },
+    ];
+
+    // Act
+    const { matches } = detectBundles(lines, [premiumBundle]);
+
+    // Assert
+    expect(matches[0]).toMatchObject({ count: 1, amount: 10597, discount: 1500 });
+  });
+
+  it("should never discount more than the bundle products cost", () => {
+    const cheapBundle: AylaBundle = { ...weddingBundle, discount_type: "fixed", discount_value: 100 };
+
+    const { matches } = detectBundles([suite, thanks], [cheapBundle]);
+
+    expect(matches[0].discount).toBe(4998);
+  });
+
+  it("should require the variant when the bundle names one", () => {
+    // Arrange: Basic brand kit instead of Premium
+    const lines: BundleLine[] = [
+      { productId: 5, variantId: 501, quantity: 1, unitAmount: 4999 },
+      { productId: 2, variantId: 201, quantity: 2, unitAmount: 1299 },
+    ];
+
+    // Act
+    const { matches, offers } = detectBundles(lines, [premiumBundle]);
+
+    // Assert
+    expect(matches).toEqual([]);
+    expect(offers).toEqual([
+      {
+        bundle: premiumBundle,
+        missing: [{ product_id: 5, variant_id: 502, quantity: 1 }],
+      },
+    ]);
+  });
+
+  it("should offer bundles with only some of their products in the cart", () => {
+    const { matches, offers } = detectBundles([suite], [weddingBundle]);
+
+    expect(matches).toEqual([]);
+    expect(offers).toEqual([
+      {
+        bundle: weddingBundle,
+        missing: [{ product_id: 6, variant_id: null, quantity: 1 }],
+      },
+    ]);
+  });
+
+  it("should not offer bundles without any of their products in the cart", () => {
+    const { offers } = detectBundles(
+      [{ productId: 1, quantity: 1, unitAmount: 2499 }],
+      [weddingBundle]
+    );
+
+    expect(offers).toEqual([]);
+  });
+
+  it("should count each unit for a single bundle", () => {
+    // Arrange: both bundles need the wedding suite
+    const suiteBundle: AylaBundle = {
+      ...weddingBundle,
+      id: 1003,
+      items: [
+        { product_id: 4, variant_id: null, quantity: 1 },
+        { product_id: 1, variant_id: null, quantity: 1 },
+      ],
+    };
+    const planner: BundleLine = { productId: 1, quantity: 1, unitAmount: 2499 };
+
+    // Act
+    const { matches, offers } = detectBundles(
+      [suite, thanks, planner],
+      [weddingBundle, suiteBundle]
+    );
+
+    // Assert
+    expect(matches.map((match) => match.bundle.id)).toEqual([1001]);
+    expect(offers.map((offer) => offer.bundle.id)).toEqual([1003]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Checkout Pricing Unit Tests
+ *
+ * Tests para la valoración del carrito con precios del catálogo.
+ */
+
+import { describe, it, expect } from "vitest";
+import { createOrderReference, priceCartLines, toMinorUnits } from "@lib/checkout";
+import type { AylaBundle, AylaProduct, AylaPromotion } from "@types";
+
+const catalog: AylaProduct[] = [
+  {
+    id: 1,
+    name: "Celestial Planner 2025",
+    slug: "celestial-planner-2025",
+    description: "",
+    price: 24.99,
+    category: "Planners",
+    imageType: "planner",
+    features: [],
+  },
+  {
+    id: 2,
+    name: "Bohemian Business Cards",
+    slug: "bohemian-business-cards",
+    description: "",
+    price: 12.99,
+    category: "Tarjetas",
+    imageType: "cards",
+    features: [],
+  },
+  {
+    id: 3,
+    name: "Crystal Social Media Kit",
+    slug: "crystal-social-media-kit",
+    description: "",
+    price: 29.99,
+    category: "Social Media",
+    imageType: "social",
+    features: [],
+    variants: [
+      { id: 301, name: "Basic", price: 29.99, features: [], files: [], downloadLimit: 5 },
+      { id: 302, name: "Premium", price: 44.99, features: [], files: [], downloadLimit: 10 },
+    ],
+  },
+];
+
+describe("toMinorUnits", () => {
+  it("should round floating point prices to cents", () => {
+    expect(toMinorUnits(24.99)).toBe(2499);
+    expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+  });
+});
+
+describe("priceCartLines", () => {
+  it("should price lines with catalog prices", () => {
+    // Act
+    const { totals, unavailable } = priceCartLines(
+      [
+        { productId: 1, quantity: 2 },
+        { productId: 2, quantity: 1 },
+      ],
+      catalog
+    );
+
+    // Assert
+    expect(unavailable).toEqual([]);
+    expect(totals.lines[0]).toMatchObject({ unitAmount: 2499, lineAmount: 4998 });
+    expect(totals.subtotal).toBe(6297);
+    expect(totals.total).toBe(6297);
+    expect(totals.currency).toBe("EUR");
+  });
+
+  it("should report products missing from the catalog", () => {
+    const { totals, unavailable } = priceCartLines(
+      [
+        { productId: 1, quantity: 1 },
+        { productId: 42, quantity: 1 },
+      ],
+      catalog
+    );
+
+    expect(unavailable).toEqual([42]);
+    expect(totals.lines).toHaveLength(1);
+  });
+
+  it("should price each line at its variant price", () => {
+    // Act
+    const { totals } = priceCartLines(
+      [
+        { productId: 3, variantId: 302, quantity: 1 },
+        { productId: 3, quantity: 1 },
+      ],
+      catalog
+    );
+
+    // Assert
+    expect(totals.lines).toEqual([
+      expect.objectContaining({ variantId: 302, variantName: "Premium", unitAmount: 4499, downloadLimit: 10 }),
+      expect.objectContaining({ variantId: 301, variantName: "Basic", unitAmount: 2999, downloadLimit: 5 }),
+    ]);
+    expect(totals.subtotal).toBe(7498);
+  });
+
+  it("should report unknown variants as unavailable", () => {
+    const { unavailable } = priceCartLines(
+      [{ productId: 3, variantId: 399, quantity: 1 }],
+      catalog
+    );
+
+    expect(unavailable).toEqual([3]);
+  });
+
+  it("should subtract the discount of complete bundles from the total", () => {
+    // Arrange
+    const bundle: AylaBundle = {
+      id: 1001,
+      name: "Pack Planner + Tarjetas",
+      description: "",
+      imageType: "planner",
+      items: [
+        { product_id: 1, variant_id: null, quantity: 1 },
+        { product_id: 2, variant_id: null, quantity: 1 },
+      ],
+      discount_type: "fixed",
+      discount_value: 5,
+    };
+
+    // Act
+    const { totals } = priceCartLines(
+      [
+        { productId: 1, quantity: 2 },
+        { productId: 2, quantity: 1 },
+      ],
+      catalog,
+      { bundles: [bundle] }
+    );
+
+    // Assert
+    expect(totals.subtotal).toBe(6297);
+    expect(totals.bundles).toEqual([
+      { bundleId: 1001, name: "Pack Planner + Tarjetas", count: 1, discount: 500 },
+    ]);
+    expect(totals.discount).toBe(500);
+    expect(totals.total).toBe(5797);
+  });
+
+  it("should apply promotions and report the ones that cannot be applied", () => {
+    // Arrange
+    const promotion: AylaPromotion = {
+      code: "TARJETAS5",
+      description: "",
+      discount_type: "fixed",
+      discount_value: 5,
+      min_purchase: null,
+      product_ids: [],
+      categories: ["Tarjetas"],
+      starts_at: null,
+      ends_at: "2030-01-01T00:00:00.000Z",
+      usage_limit: 10,
+    };
+    const lines = [
+      { productId: 1, quantity: 1 },
+      { productId: 2, quantity: 1 },
+    ];
+
+    // Act
+    const accepted = priceCartLines(lines, catalog, {
+      promotions: [promotion],
+      promotionContext: { now: new Date("2025-06-15T00:00:00.000Z") },
+    });
+    const rejected = priceCartLines(lines, catalog, {
+      promotions: [promotion],
+      promotionContext: { redemptions: { TARJETAS5: 10 } },
+    });
+
+    // Assert
+    expect(accepted.totals).toMatchObject({
+      subtotal: 3798,
+      promotions: [{ code: "TARJETAS5", discount: 500 }],
+      discount: 500,
+      total: 3298,
+      tax: 572,
+    });
+    expect(rejected.totals.discount).toBe(0);
+    expect(rejected.rejectedPromotions).toEqual([
+      { code: "TARJETAS5", reason: "usage_limit_reached" },
+    ]);
+  });
+});
+
+describe("priceCartLines taxes", () => {
+  it("should store the VAT of each line for consumers", () => {
+    // Act
+    const { totals } = priceCartLines(
+      [
+        { productId: 1, quantity: 1 },
+        { productId: 2, quantity: 1 },
+      ],
+      catalog,
+      { tax: { country: "DE" } }
+    );
+
+    // Assert
+    expect(totals).toMatchObject({ taxTreatment: "standard", taxRate: 0.19, total: 3798 });
+    expect(totals.tax).toBe(606);
+    expect(totals.lines.map((line) => line.tax?.tax)).toEqual([399, 207]);
+  });
+
+  it("should charge businesses from other EU countries without VAT", () => {
+    // Act
+    const { totals } = priceCartLines([{ productId: 1, quantity: 1 }], catalog, {
+      tax: { country: "DE", vatId: "DE123456789" },
+    });
+
+    // Assert
+    expect(totals).toMatchObject({
+      subtotal: 2499,
+      net: 2100,
+      tax: 0,
+      total: 2100,
+      taxRate: 0,
+      taxTreatment: "reverse_charge",
+    });
+    expect(totals.lines[0].tax).toEqual({ rate: 0, discount: 0, net: 2100, tax: 0, total: 2100 });
+  });
+});
+
+describe("createOrderReference", () => {
+  it("should create unique AYL references", () => {
+    const first = createOrderReference();
+    const second = createOrderReference();
+
+    expect(first).toMatch(/^AYL-[A-Z0-9]+-[A-Z0-9]{4}$/);
+    expect(first).not.toBe(second);
+  });
+});
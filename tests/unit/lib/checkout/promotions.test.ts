@@ -0,0 +1,140 @@
+/**
+ * Checkout Promotions Unit Tests
+ *
+ * Tests para las reglas de los códigos promocionales.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  evaluatePromotion,
+  evaluatePromotions,
+  normalizePromotionCode,
+  type PromotionLine,
+} from "@lib/checkout";
+import type { AylaPromotion } from "@types";
+
+const basePromotion: AylaPromotion = {
+  code: "BIENVENIDA10",
+  description: "",
+  discount_type: "percentage",
+  discount_value: 10,
+  min_purchase: null,
+  product_ids: [],
+  categories: [],
+  starts_at: null,
+  ends_at: null,
+  usage_limit: null,
+};
+
+const planner: PromotionLine = { productId: 1, category: "Planners", quantity: 2, unitAmount: 2499 };
+const suite: PromotionLine = { productId: 4, category: "Bodas", quantity: 1, unitAmount: 3999 };
+
+const now = new Date("2025-06-15T12:00:00.000Z");
+
+describe("normalizePromotionCode", () => {
+  it("should trim and uppercase codes", () => {
+    expect(normalizePromotionCode("  bienvenida10 ")).toBe("BIENVENIDA10");
+  });
+});
+
+describe("evaluatePromotion", () => {
+  it("should apply percentage discounts to the whole cart", () => {
+    const evaluation = evaluatePromotion(basePromotion, [planner, suite], { now });
+
+    expect(evaluation).toEqual({ valid: true, promotion: basePromotion, discount: 900 });
+  });
+
+  it("should apply fixed discounts only up to the eligible amount", () => {
+    // Arrange
+    const promotion: AylaPromotion = {
+      ...basePromotion,
+      discount_type: "fixed",
+      discount_value: 50,
+      categories: ["Bodas"],
+    };
+
+    // Act
+    const evaluation = evaluatePromotion(promotion, [planner, suite], { now });
+
+    // Assert
+    expect(evaluation).toMatchObject({ valid: true, discount: 3999 });
+  });
+
+  it("should restrict the discount to the promotion products", () => {
+    const promotion: AylaPromotion = { ...basePromotion, discount_value: 20, product_ids: [1] };
+
+    const evaluation = evaluatePromotion(promotion, [planner, suite], { now });
+
+    expect(evaluation).toMatchObject({ valid: true, discount: 1000 });
+  });
+
+  it("should reject carts without eligible products", () => {
+    const promotion: AylaPromotion = { ...basePromotion, categories: ["Branding"] };
+
+    const evaluation = evaluatePromotion(promotion, [planner, suite], { now });
+
+    expect(evaluation).toMatchObject({ valid: false, reason: "no_eligible_products" });
+  });
+
+  it("should compare the minimum purchase with the full subtotal", () => {
+    const promotion: AylaPromotion = { ...basePromotion, min_purchase: 50, categories: ["Bodas"] };
+
+    expect(evaluatePromotion(promotion, [suite], { now })).toMatchObject({
+      valid: false,
+      reason: "min_purchase_not_met",
+    });
+    expect(evaluatePromotion(promotion, [planner, suite], { now })).toMatchObject({
+      valid: true,
+      discount: 400,
+    });
+  });
+
+  it("should reject codes outside their validity window", () => {
+    const upcoming = { ...basePromotion, starts_at: "2025-07-01T00:00:00.000Z" };
+    const expired = { ...basePromotion, ends_at: "2025-06-01T00:00:00.000Z" };
+
+    expect(evaluatePromotion(upcoming, [planner], { now })).toMatchObject({
+      valid: false,
+      reason: "not_started",
+    });
+    expect(evaluatePromotion(expired, [planner], { now })).toMatchObject({
+      valid: false,
+      reason: "expired",
+    });
+  });
+
+  it("should reject codes that reached their usage limit", () => {
+    const promotion = { ...basePromotion, usage_limit: 3 };
+
+    expect(
+      evaluatePromotion(promotion, [planner], { now, redemptions: { BIENVENIDA10: 2 } })
+    ).toMatchObject({ valid: true });
+    expect(
+      evaluatePromotion(promotion, [planner], { now, redemptions: { BIENVENIDA10: 3 } })
+    ).toMatchObject({ valid: false, reason: "usage_limit_reached" });
+  });
+});
+
+describe("evaluatePromotions", () => {
+  it("should cap the accumulated discount at maxDiscount", () => {
+    // Arrange
+    const fixed: AylaPromotion = {
+      ...basePromotion,
+      code: "MENOS40",
+      discount_type: "fixed",
+      discount_value: 40,
+    };
+
+    // Act
+    const evaluations = evaluatePromotions([fixed, basePromotion], [planner], {
+      now,
+      maxDiscount: 4500,
+    });
+
+    // Assert
+    expect(evaluations).toEqual([
+      expect.objectContaining({ valid: true, discount: 4000 }),
+      expect.objectContaining({ valid: true, discount: 500 }),
+    ]);
+  });
+});
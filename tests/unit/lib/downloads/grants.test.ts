@@ -0,0 +1,167 @@
+/**
+ * Download Grants Unit Tests
+ *
+ * Usa LocalFileStorage sobre un directorio temporal y el repositorio en
+ * memoria.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  consumeDownload,
+  InMemoryDownloadRepository,
+  listDownloadItems,
+  LocalFileStorage,
+  parseSignedDownloadParams,
+  regenerateDownloadLink,
+  syncDownloadGrants,
+} from "@lib/downloads/server";
+import type { StoredOrder } from "@lib/orders";
+
+const ORIGIN = "https://ayla.test";
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+const paidOrder = {
+  reference: "AYL-TEST-0001",
+  status: "paid",
+  customerId: "42",
+  customerEmail: "ana@example.com",
+  lines: [{ productId: 1, name: "Planner", quantity: 1, unitAmount: 2499, lineAmount: 2499 }],
+  subtotal: 2499,
+  total: 2499,
+  currency: "EUR",
+  payment: { provider: "fake", sessionId: "fake_1" },
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+} as unknown as StoredOrder;
+
+describe("download grants", () => {
+  let rootDir: string;
+  let repository: InMemoryDownloadRepository;
+  let storage: LocalFileStorage;
+
+  async function publish(version: string, content = `planner ${version}`) {
+    const dir = join(rootDir, "products", "1", "default", version);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "planner.pdf"), content);
+  }
+
+  async function issueLink() {
+    const [grant] = await syncDownloadGrants(paidOrder, { repository, now: NOW });
+    const [item] = await listDownloadItems("42", ORIGIN, { repository, storage, now: NOW });
+    const params = parseSignedDownloadParams(new URL(item.link!.url).searchParams)!;
+    return { grant, item, params };
+  }
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "ayla-downloads-"));
+    repository = new InMemoryDownloadRepository();
+    storage = new LocalFileStorage(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should issue one grant per line once and revoke them on refund", async () => {
+    // Act
+    const issued = await syncDownloadGrants(paidOrder, { repository, now: NOW });
+    const again = await syncDownloadGrants(paidOrder, { repository, now: NOW });
+    const revoked = await syncDownloadGrants(
+      { ...paidOrder, status: "refunded" },
+      { repository, now: NOW }
+    );
+
+    // Assert
+    expect(issued).toHaveLength(1);
+    expect(again.map((grant) => grant.token)).toEqual(issued.map((grant) => grant.token));
+    expect(revoked[0].revoked).toBe(true);
+    expect(await listDownloadItems("42", ORIGIN, { repository, storage, now: NOW })).toEqual([]);
+  });
+
+  it("should not issue grants for unpaid orders", async () => {
+    const grants = await syncDownloadGrants(
+      { ...paidOrder, status: "pending" },
+      { repository, now: NOW }
+    );
+
+    expect(grants).toEqual([]);
+  });
+
+  it("should serve the file and decrement the remaining downloads", async () => {
+    // Arrange
+    await publish("1.0.0");
+    const { grant, params } = await issueLink();
+
+    // Act
+    const result = await consumeDownload(grant.token, params, { repository, storage, now: NOW });
+
+    // Assert
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(await new Response(result.file.body).text()).toBe("planner 1.0.0");
+    expect(result.grant.downloadsRemaining).toBe(grant.downloadLimit - 1);
+    expect(result.grant.downloads).toHaveLength(1);
+  });
+
+  it("should refuse downloads once the limit is reached", async () => {
+    // Arrange
+    await publish("1.0.0");
+    const { grant, params } = await issueLink();
+    await repository.save({ ...(await repository.get(grant.token))!, downloadsRemaining: 0 });
+
+    // Act
+    const result = await consumeDownload(grant.token, params, { repository, storage, now: NOW });
+
+    // Assert
+    expect(result).toEqual({ ok: false, reason: "limit_reached" });
+  });
+
+  it("should not spend a download when the file is missing", async () => {
+    // Arrange
+    await publish("1.0.0");
+    const { grant, params } = await issueLink();
+    await rm(join(rootDir, "products"), { recursive: true });
+
+    // Act
+    const result = await consumeDownload(grant.token, params, { repository, storage, now: NOW });
+
+    // Assert
+    expect(result).toEqual({ ok: false, reason: "file_missing" });
+    expect((await repository.get(grant.token))!.downloadsRemaining).toBe(grant.downloadLimit);
+  });
+
+  it("should regenerate links pointing to the latest version", async () => {
+    // Arrange
+    await publish("1.0.0");
+    const { grant, item } = await issueLink();
+    await publish("1.1.0");
+
+    // Act
+    const result = await regenerateDownloadLink(grant.token, "42", ORIGIN, {
+      repository,
+      storage,
+      now: NOW,
+    });
+
+    // Assert
+    expect(item.link?.version).toBe("1.0.0");
+    expect(result).toMatchObject({ ok: true, link: { version: "1.1.0" } });
+    expect((await repository.get(grant.token))!.version).toBe("1.1.0");
+  });
+
+  it("should treat tokens owned by someone else as not found", async () => {
+    await publish("1.0.0");
+    const { grant } = await issueLink();
+
+    const result = await regenerateDownloadLink(grant.token, "99", ORIGIN, {
+      repository,
+      storage,
+      now: NOW,
+    });
+
+    expect(result).toEqual({ ok: false, reason: "not_found" });
+  });
+});
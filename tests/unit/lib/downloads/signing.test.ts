@@ -0,0 +1,82 @@
+/**
+ * Download Link Signing Unit Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createDownloadLink,
+  parseSignedDownloadParams,
+  verifyDownloadLink,
+} from "@lib/downloads/server";
+
+const SECRET = "test-download-secret";
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+function signedParams(url: string) {
+  const params = parseSignedDownloadParams(new URL(url).searchParams);
+  if (!params) throw new Error("Link without signed params");
+  return params;
+}
+
+describe("download link signing", () => {
+  it("should build a link under /api/downloads with version and expiry", () => {
+    // Act
+    const link = createDownloadLink("tok_1", "1.2.0", "https://ayla.test", {
+      secret: SECRET,
+      now: NOW,
+      ttlSeconds: 3600,
+    });
+
+    // Assert
+    const url = new URL(link.url);
+    expect(url.pathname).toBe("/api/downloads/tok_1");
+    expect(url.searchParams.get("v")).toBe("1.2.0");
+    expect(link).toMatchObject({
+      version: "1.2.0",
+      expiresAt: "2026-03-01T13:00:00.000Z",
+    });
+  });
+
+  it("should accept a valid link before it expires", () => {
+    const link = createDownloadLink("tok_1", "1.0.0", "https://ayla.test", {
+      secret: SECRET,
+      now: NOW,
+    });
+
+    expect(verifyDownloadLink("tok_1", signedParams(link.url), { secret: SECRET, now: NOW })).toBeNull();
+  });
+
+  it("should reject links whose version or token were altered", () => {
+    // Arrange
+    const link = createDownloadLink("tok_1", "1.0.0", "https://ayla.test", {
+      secret: SECRET,
+      now: NOW,
+    });
+    const params = signedParams(link.url);
+
+    // Act & Assert
+    expect(
+      verifyDownloadLink("tok_1", { ...params, version: "2.0.0" }, { secret: SECRET, now: NOW })
+    ).toBe("invalid_signature");
+    expect(verifyDownloadLink("tok_2", params, { secret: SECRET, now: NOW })).toBe(
+      "invalid_signature"
+    );
+  });
+
+  it("should reject expired links", () => {
+    const link = createDownloadLink("tok_1", "1.0.0", "https://ayla.test", {
+      secret: SECRET,
+      now: NOW,
+      ttlSeconds: 60,
+    });
+    const later = new Date(NOW.getTime() + 61_000);
+
+    expect(verifyDownloadLink("tok_1", signedParams(link.url), { secret: SECRET, now: later })).toBe(
+      "expired"
+    );
+  });
+
+  it("should return null for links missing signed params", () => {
+    expect(parseSignedDownloadParams(new URLSearchParams("v=1.0.0"))).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Favorites Merge Unit Tests
+ *
+ * Tests para las reglas de fusión de los favoritos anónimos con los de la cuenta.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_FAVORITES,
+  mergeFavorites,
+  normalizeFavorites,
+  type MergeFavoritesOptions,
+} from "@lib/favorites";
+
+const options: MergeFavoritesOptions = {
+  isAvailable: (productId) => productId !== 99,
+};
+
+describe("mergeFavorites", () => {
+  it("should keep stored order and append new anonymous favorites", () => {
+    // Act
+    const { productIds, summary } = mergeFavorites([3, 1], [2, 1], options);
+
+    // Assert
+    expect(productIds).toEqual([2, 1, 3]);
+    expect(summary).toEqual({ added: 1, dropped: [] });
+  });
+
+  it("should drop products that are no longer in the catalog", () => {
+    const { productIds, summary } = mergeFavorites([99, 4], [99], options);
+
+    expect(productIds).toEqual([4]);
+    expect(summary).toEqual({ added: 1, dropped: [99] });
+  });
+
+  it("should stop at the maximum number of favorites", () => {
+    const stored = Array.from({ length: MAX_FAVORITES }, (_, index) => index + 100);
+
+    const { productIds, summary } = mergeFavorites([1], stored, options);
+
+    expect(productIds).toHaveLength(MAX_FAVORITES);
+    expect(productIds).not.toContain(1);
+    expect(summary.added).toBe(0);
+  });
+});
+
+describe("normalizeFavorites", () => {
+  it("should remove duplicates and unavailable products", () => {
+    expect(normalizeFavorites([2, 99, 2, 1], options)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Favorites Repository Unit Tests
+ *
+ * Tests para las implementaciones en memoria y en archivo del repositorio.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileFavoritesRepository,
+  InMemoryFavoritesRepository,
+  type FavoritesRepository,
+} from "@lib/favorites/server";
+
+describe.each([
+  ["InMemoryFavoritesRepository", async () => new InMemoryFavoritesRepository()],
+  [
+    "FileFavoritesRepository",
+    async () => new FileFavoritesRepository(await mkdtemp(join(tmpdir(), "favorites-"))),
+  ],
+] as const)("%s", (_name, createRepository) => {
+  let repository: FavoritesRepository;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+  });
+
+  it("should return null for an unknown owner", async () => {
+    expect(await repository.get("user-1")).toBeNull();
+  });
+
+  it("should save and read back the favorites", async () => {
+    const saved = await repository.save("user-1", [3, 1]);
+
+    expect(saved.productIds).toEqual([3, 1]);
+    expect(await repository.get("user-1")).toEqual(saved);
+    expect(await repository.get("user-2")).toBeNull();
+  });
+
+  it("should delete the favorites", async () => {
+    await repository.save("user-1", [3]);
+
+    await repository.delete("user-1");
+
+    expect(await repository.get("user-1")).toBeNull();
+    await expect(repository.delete("user-1")).resolves.toBeUndefined();
+  });
+});
+
+describe("FileFavoritesRepository paths", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "favorites-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should not use the raw owner id as file name", async () => {
+    await new FileFavoritesRepository(dir).save("../escape", [1]);
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[a-f0-9]{64}\.json$/);
+  });
+});
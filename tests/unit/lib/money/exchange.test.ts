@@ -0,0 +1,62 @@
+/**
+ * Exchange Rates Unit Tests
+ *
+ * Tests para la configuración de tipos de cambio y la conversión de importes.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_EXCHANGE_RATES,
+  convertMoney,
+  money,
+  parseExchangeRates,
+  type ExchangeRates,
+} from "@lib/money";
+
+const rates: ExchangeRates = { EUR: 1, USD: 1.1, GBP: 0.8 };
+
+describe("parseExchangeRates", () => {
+  it("should use the default rates without configuration", () => {
+    expect(parseExchangeRates(undefined)).toEqual(DEFAULT_EXCHANGE_RATES);
+  });
+
+  it("should override the configured currencies", () => {
+    const parsed = parseExchangeRates('{"USD":1.2}');
+
+    expect(parsed).toEqual({ ...DEFAULT_EXCHANGE_RATES, USD: 1.2 });
+  });
+
+  it("should ignore invalid rates and keep the store currency at 1", () => {
+    // Arrange
+    const raw = '{"EUR":2,"USD":-1,"GBP":"0.9","JPY":160}';
+
+    // Act
+    const parsed = parseExchangeRates(raw);
+
+    // Assert
+    expect(parsed).toEqual(DEFAULT_EXCHANGE_RATES);
+  });
+
+  it("should fall back to the defaults on malformed JSON", () => {
+    expect(parseExchangeRates("{USD: 1.2")).toEqual(DEFAULT_EXCHANGE_RATES);
+  });
+});
+
+describe("convertMoney", () => {
+  it("should convert from the store currency rounding to minor units", () => {
+    expect(convertMoney(money(2499), "USD", rates)).toEqual({ amount: 2749, currency: "USD" });
+  });
+
+  it("should convert between two foreign currencies", () => {
+    expect(convertMoney(money(1100, "USD"), "GBP", rates)).toEqual({
+      amount: 800,
+      currency: "GBP",
+    });
+  });
+
+  it("should return the same amount for the same currency", () => {
+    const value = money(2499);
+
+    expect(convertMoney(value, "EUR", rates)).toBe(value);
+  });
+});
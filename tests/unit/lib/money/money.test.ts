@@ -0,0 +1,79 @@
+/**
+ * Money Unit Tests
+ *
+ * Tests para la aritmética y el formato de importes en unidades mínimas.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  addMoney,
+  allocateMoney,
+  formatMoney,
+  fromMajorUnits,
+  money,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toMajorUnits,
+} from "@lib/money";
+
+describe("fromMajorUnits", () => {
+  it("should convert catalog prices to integer minor units", () => {
+    expect(fromMajorUnits(24.99)).toEqual({ amount: 2499, currency: "EUR" });
+    expect(fromMajorUnits(0.29, "USD")).toEqual({ amount: 29, currency: "USD" });
+  });
+
+  it("should round back to the same decimal price", () => {
+    expect(toMajorUnits(fromMajorUnits(1.15))).toBe(1.15);
+  });
+});
+
+describe("arithmetic", () => {
+  it("should add amounts without float rounding errors", () => {
+    // Arrange: 0.1 + 0.2 !== 0.3 in floating point
+    const values = [fromMajorUnits(0.1), fromMajorUnits(0.2)];
+
+    // Act
+    const total = sumMoney(values);
+
+    // Assert
+    expect(total).toEqual({ amount: 30, currency: "EUR" });
+  });
+
+  it("should multiply and subtract amounts", () => {
+    const subtotal = multiplyMoney(money(2499), 3);
+
+    expect(subtractMoney(subtotal, money(750))).toEqual({ amount: 6747, currency: "EUR" });
+  });
+
+  it("should return zero for an empty list", () => {
+    expect(sumMoney([], "GBP")).toEqual({ amount: 0, currency: "GBP" });
+  });
+
+  it("should refuse to combine different currencies", () => {
+    expect(() => addMoney(money(100, "EUR"), money(100, "USD"))).toThrow(
+      "Cannot combine EUR and USD amounts"
+    );
+  });
+});
+
+describe("allocateMoney", () => {
+  it("should split an amount proportionally without losing cents", () => {
+    // Act
+    const shares = allocateMoney(money(100), [1, 1, 1]);
+
+    // Assert
+    expect(shares.map((share) => share.amount)).toEqual([34, 33, 33]);
+  });
+
+  it("should give everything to the first part when weights are zero", () => {
+    expect(allocateMoney(money(500), [0, 0])).toEqual([money(500), money(0)]);
+  });
+});
+
+describe("formatMoney", () => {
+  it("should format amounts for the given locale", () => {
+    expect(formatMoney(money(123456), "es")).toBe("1234,56 €");
+    expect(formatMoney(money(123456, "USD"), "en")).toBe("$1,234.56");
+  });
+});
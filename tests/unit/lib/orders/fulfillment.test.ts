@@ -0,0 +1,172 @@
+/**
+ * Order Fulfillment Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { InMemoryPromotionRepository } from "@lib/checkout/server";
+import { InMemoryDownloadRepository } from "@lib/downloads/server";
+import {
+  InMemoryOrderRepository,
+  processPaymentEvent,
+  transitionOrder,
+} from "@lib/orders/server";
+import type { StoredOrder } from "@lib/orders";
+import type { PaymentWebhookEvent } from "@lib/payments";
+
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const pendingOrder: StoredOrder = {
+  reference: "AYL-TEST-0001",
+  status: "pending",
+  customerEmail: "ana@example.com",
+  billing: {
+    fullName: "Ana García",
+    addressLine1: "Calle Mayor 1",
+    city: "Madrid",
+    postalCode: "28013",
+    country: "ES",
+  },
+  lines: [{ productId: 1, name: "Planner", quantity: 1, unitAmount: 2499, lineAmount: 2499 }],
+  subtotal: 2499,
+  total: 2499,
+  currency: "EUR",
+  payment: { provider: "stripe", sessionId: "cs_test_1" },
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+const successEvent: PaymentWebhookEvent = {
+  id: "evt_1",
+  provider: "stripe",
+  type: "payment.success",
+  providerType: "checkout.session.completed",
+  reference: pendingOrder.reference,
+  amount: 2499,
+};
+
+describe("transitionOrder", () => {
+  it("should mark pending orders as paid", () => {
+    const now = new Date("2026-01-02T00:00:00.000Z");
+
+    const paid = transitionOrder(pendingOrder, "payment.success", now);
+
+    expect(paid).toMatchObject({ status: "paid", paidAt: now.toISOString() });
+  });
+
+  it("should never move a paid order back to failed", () => {
+    const paid = { ...pendingOrder, status: "paid" as const };
+
+    expect(transitionOrder(paid, "payment.failed")).toBeNull();
+    expect(transitionOrder(paid, "payment.refunded")).toMatchObject({ status: "refunded" });
+  });
+});
+
+describe("processPaymentEvent", () => {
+  let repository: InMemoryOrderRepository;
+
+  beforeEach(async () => {
+    repository = new InMemoryOrderRepository();
+    await repository.save(pendingOrder);
+  });
+
+  it("should turn a payment.success event into a paid order", async () => {
+    const result = await processPaymentEvent(successEvent, repository);
+
+    expect(result.outcome).toBe("applied");
+    expect((await repository.get(pendingOrder.reference))?.status).toBe("paid");
+  });
+
+  it("should ignore redelivered events", async () => {
+    await processPaymentEvent(successEvent, repository);
+
+    const again = await processPaymentEvent(successEvent, repository);
+
+    expect(again.outcome).toBe("duplicate");
+  });
+
+  it("should not mark an order as paid when the amount differs", async () => {
+    const result = await processPaymentEvent({ ...successEvent, amount: 100 }, repository);
+
+    expect(result).toMatchObject({ outcome: "ignored", reason: "amount_mismatch" });
+    expect((await repository.get(pendingOrder.reference))?.status).toBe("pending");
+  });
+
+  it("should not apply events in a different currency", async () => {
+    const result = await processPaymentEvent({ ...successEvent, currency: "USD" }, repository);
+
+    expect(result).toMatchObject({ outcome: "ignored", reason: "currency_mismatch" });
+    expect((await repository.get(pendingOrder.reference))?.status).toBe("pending");
+
+    const matching = await processPaymentEvent(
+      { ...successEvent, id: "evt_2", currency: "eur" },
+      repository
+    );
+    expect(matching.outcome).toBe("applied");
+  });
+
+  it("should keep the order paid after a partial refund", async () => {
+    await processPaymentEvent(successEvent, repository);
+    const refund = { ...successEvent, type: "payment.refunded" as const };
+
+    const partial = await processPaymentEvent({ ...refund, id: "evt_2", amount: 1000 }, repository);
+
+    expect(partial).toMatchObject({ outcome: "unchanged", reason: "partial_refund" });
+    expect((await repository.get(pendingOrder.reference))?.status).toBe("paid");
+
+    const full = await processPaymentEvent({ ...refund, id: "evt_3", amount: 2499 }, repository);
+
+    expect(full.outcome).toBe("applied");
+    expect((await repository.get(pendingOrder.reference))?.status).toBe("refunded");
+  });
+
+  it("should redeem the promotion codes only when the payment succeeds", async () => {
+    const promotions = new InMemoryPromotionRepository();
+    const downloads = new InMemoryDownloadRepository();
+    await repository.save({ ...pendingOrder, promotionCodes: ["BIENVENIDA10"] });
+    await repository.save({
+      ...pendingOrder,
+      reference: "AYL-TEST-0002",
+      promotionCodes: ["BIENVENIDA10"],
+    });
+
+    await processPaymentEvent(
+      { ...successEvent, id: "evt_2", type: "payment.failed", reference: "AYL-TEST-0002" },
+      repository,
+      downloads,
+      promotions
+    );
+    await expect(promotions.countRedemptions(["BIENVENIDA10"])).resolves.toEqual({
+      BIENVENIDA10: 0,
+    });
+
+    await processPaymentEvent(successEvent, repository, downloads, promotions);
+    await expect(promotions.countRedemptions(["BIENVENIDA10"])).resolves.toEqual({
+      BIENVENIDA10: 1,
+    });
+  });
+
+  it("should ignore events for unknown orders", async () => {
+    const result = await processPaymentEvent(
+      { ...successEvent, reference: "AYL-MISSING" },
+      repository
+    );
+
+    expect(result).toMatchObject({ outcome: "ignored", reason: "unknown_order" });
+  });
+
+  it("should release the event when processing fails so it can be retried", async () => {
+    vi.spyOn(repository, "save").mockRejectedValueOnce(new Error("disk full"));
+
+    await expect(processPaymentEvent(successEvent, repository)).rejects.toThrow("disk full");
+    const retry = await processPaymentEvent(successEvent, repository);
+
+    expect(retry.outcome).toBe("applied");
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Order History Unit Tests
+ *
+ * Tests para la traducción de los pedidos guardados al formato del cliente.
+ */
+
+import { describe, it, expect } from "vitest";
+import { toCustomerOrder } from "@lib/orders/server";
+import type { DownloadGrant } from "@lib/downloads";
+import type { StoredOrder } from "@lib/orders";
+
+const line = {
+  productId: 1,
+  name: "Planner",
+  variantId: 2,
+  variantName: "A5",
+  quantity: 1,
+  unitAmount: 2499,
+  lineAmount: 2499,
+};
+
+const order = {
+  reference: "AYL-TEST-0001",
+  status: "paid",
+  customerId: "42",
+  customerEmail: "ana@example.com",
+  lines: [line, line],
+  subtotal: 4998,
+  total: 4998,
+  currency: "EUR",
+  payment: { provider: "fake", sessionId: "fake_1" },
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+  paidAt: "2026-03-01T00:00:00.000Z",
+} as unknown as StoredOrder;
+
+function grant(token: string, overrides: Partial<DownloadGrant> = {}): DownloadGrant {
+  return {
+    token,
+    ownerId: "42",
+    orderReference: order.reference,
+    productId: 1,
+    productName: "Planner · A5",
+    variantId: 2,
+    version: null,
+    downloadLimit: 5,
+    downloadsRemaining: 3,
+    revoked: false,
+    downloads: [],
+    createdAt: order.createdAt,
+    ...overrides,
+  };
+}
+
+describe("toCustomerOrder", () => {
+  it("should give each line its own download grant", () => {
+    const result = toCustomerOrder(order, [grant("dl_1"), grant("dl_2")]);
+
+    expect(result.items.map((item) => item.download_token)).toEqual(["dl_1", "dl_2"]);
+    expect(result.items[0]).toMatchObject({
+      id: 1,
+      product_name: "Planner · A5",
+      variant_id: 2,
+      downloads_remaining: 3,
+    });
+    expect(result).toMatchObject({ discount: 0, tax: 0, invoice_url: null, payment_id: "fake_1" });
+  });
+
+  it("should hide the token of revoked grants", () => {
+    const result = toCustomerOrder(order, [grant("dl_1", { revoked: true })]);
+
+    expect(result.items[0]).toMatchObject({ download_token: null, downloads_remaining: 0 });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Order Repository Unit Tests
+ *
+ * Mismos casos para las implementaciones en memoria y en disco.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileOrderRepository,
+  InMemoryOrderRepository,
+  type OrderRepository,
+} from "@lib/orders/server";
+import type { StoredOrder } from "@lib/orders";
+
+const order = {
+  reference: "AYL-TEST-0001",
+  status: "pending",
+  customerEmail: "ana@example.com",
+  lines: [],
+  subtotal: 0,
+  total: 0,
+  currency: "EUR",
+  payment: { provider: "fake", sessionId: "fake_1" },
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+} as unknown as StoredOrder;
+
+describe.each([
+  ["memory", async () => ({ repository: new InMemoryOrderRepository(), dir: null })],
+  [
+    "file",
+    async () => {
+      const dir = await mkdtemp(join(tmpdir(), "orders-"));
+      return { repository: new FileOrderRepository(dir), dir };
+    },
+  ],
+] as const)("%s order repository", (_name, create) => {
+  let repository: OrderRepository;
+  let dir: string | null;
+
+  beforeEach(async () => {
+    ({ repository, dir } = await create());
+  });
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should return null for unknown orders", async () => {
+    expect(await repository.get("AYL-MISSING")).toBeNull();
+  });
+
+  it("should save and read an order", async () => {
+    await repository.save(order);
+
+    expect(await repository.get(order.reference)).toEqual(order);
+  });
+
+  it("should list every saved order", async () => {
+    expect(await repository.list()).toEqual([]);
+
+    await repository.save(order);
+    await repository.save({ ...order, reference: "AYL-TEST-0002" });
+
+    const references = (await repository.list()).map(({ reference }) => reference);
+    expect(references.sort()).toEqual([order.reference, "AYL-TEST-0002"]);
+  });
+
+  it("should claim each event only once", async () => {
+    expect(await repository.claimEvent("stripe", "evt_1")).toBe(true);
+    expect(await repository.claimEvent("stripe", "evt_1")).toBe(false);
+    // El mismo ID en otro proveedor es otro evento
+    expect(await repository.claimEvent("paypal", "evt_1")).toBe(true);
+  });
+
+  it("should allow claiming a released event again", async () => {
+    await repository.claimEvent("stripe", "evt_1");
+
+    await repository.releaseEvent("stripe", "evt_1");
+
+    expect(await repository.claimEvent("stripe", "evt_1")).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Order Status Unit Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { canTransitionOrder, hasDownloadAccess } from "@lib/orders";
+
+describe("canTransitionOrder", () => {
+  it("should follow the lifecycle forward", () => {
+    expect(canTransitionOrder("pending", "paid")).toBe(true);
+    expect(canTransitionOrder("paid", "fulfilled")).toBe(true);
+    expect(canTransitionOrder("fulfilled", "refunded")).toBe(true);
+  });
+
+  it("should allow retrying a declined payment", () => {
+    expect(canTransitionOrder("failed", "paid")).toBe(true);
+  });
+
+  it("should treat cancelled and refunded as final", () => {
+    expect(canTransitionOrder("cancelled", "paid")).toBe(false);
+    expect(canTransitionOrder("refunded", "paid")).toBe(false);
+  });
+});
+
+describe("hasDownloadAccess", () => {
+  it("should only grant downloads for paid orders", () => {
+    expect(hasDownloadAccess("paid")).toBe(true);
+    expect(hasDownloadAccess("fulfilled")).toBe(true);
+    expect(hasDownloadAccess("pending")).toBe(false);
+    expect(hasDownloadAccess("refunded")).toBe(false);
+  });
+});
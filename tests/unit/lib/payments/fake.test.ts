@@ -0,0 +1,129 @@
+/**
+ * Fake Payment Provider Unit Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  FAKE_SIGNATURE_HEADER,
+  FakePaymentProvider,
+  signFakeWebhook,
+} from "@lib/payments/server";
+import { WebhookSignatureError } from "@/errors";
+import type { PaymentSessionRequest } from "@lib/payments";
+
+const request: PaymentSessionRequest = {
+  reference: "AYL-TEST-0001",
+  amount: 2499,
+  currency: "EUR",
+  customerEmail: "ana@example.com",
+};
+
+describe("FakePaymentProvider", () => {
+  it("should open a pending session without redirect", async () => {
+    const provider = new FakePaymentProvider();
+
+    const session = await provider.createSession(request);
+
+    expect(session).toMatchObject({
+      provider: "fake",
+      status: "pending",
+      reference: request.reference,
+      amount: 2499,
+    });
+    expect(session.redirectUrl).toBeUndefined();
+  });
+
+  it("should capture a session successfully", async () => {
+    const provider = new FakePaymentProvider();
+    const session = await provider.createSession(request);
+
+    const captured = await provider.capture(session.id);
+
+    expect(captured.status).toBe("succeeded");
+  });
+
+  it("should decline emails starting with 'decline'", async () => {
+    const provider = new FakePaymentProvider();
+    const session = await provider.createSession({
+      ...request,
+      customerEmail: "decline@example.com",
+    });
+
+    const captured = await provider.capture(session.id);
+
+    expect(captured).toMatchObject({
+      status: "failed",
+      failureReason: "card_declined",
+    });
+  });
+
+  it("should not change the outcome when captured twice", async () => {
+    const provider = new FakePaymentProvider({ shouldDecline: () => false });
+    const session = await provider.createSession(request);
+
+    await provider.capture(session.id);
+    const again = await provider.capture(session.id);
+
+    expect(again.status).toBe("succeeded");
+  });
+
+  it("should reject unknown sessions", async () => {
+    const provider = new FakePaymentProvider();
+
+    await expect(provider.capture("missing")).rejects.toThrow(
+      "Unknown payment session"
+    );
+  });
+
+  it("should refund a captured session", async () => {
+    const provider = new FakePaymentProvider({ shouldDecline: () => false });
+    const session = await provider.createSession(request);
+    await provider.capture(session.id);
+
+    const refund = await provider.refund(session.id);
+
+    expect(refund).toMatchObject({ sessionId: session.id, amount: 2499, status: "succeeded" });
+    expect((await provider.capture(session.id)).status).toBe("refunded");
+  });
+
+  it("should not refund a session that was never paid", async () => {
+    const provider = new FakePaymentProvider();
+    const session = await provider.createSession(request);
+
+    await expect(provider.refund(session.id)).rejects.toThrow("cannot be refunded");
+  });
+
+  it("should verify signed webhooks", async () => {
+    const provider = new FakePaymentProvider({ webhookSecret: "secret" });
+    const payload = JSON.stringify({
+      id: "evt_1",
+      type: "payment.success",
+      reference: request.reference,
+    });
+
+    const event = await provider.verifyWebhook(
+      payload,
+      new Headers({ [FAKE_SIGNATURE_HEADER]: signFakeWebhook(payload, "secret") })
+    );
+
+    expect(event).toMatchObject({
+      id: "evt_1",
+      provider: "fake",
+      type: "payment.success",
+      providerType: "payment.success",
+      reference: request.reference,
+    });
+  });
+
+  it("should reject webhooks signed with another secret", async () => {
+    const provider = new FakePaymentProvider({ webhookSecret: "secret" });
+    const payload = JSON.stringify({ id: "evt_1", type: "payment.success" });
+
+    await expect(
+      provider.verifyWebhook(
+        payload,
+        new Headers({ [FAKE_SIGNATURE_HEADER]: signFakeWebhook(payload, "other") })
+      )
+    ).rejects.toBeInstanceOf(WebhookSignatureError);
+  });
+});
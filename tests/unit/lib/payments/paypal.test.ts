@@ -0,0 +1,150 @@
+/**
+ * PayPal Payment Provider Unit Tests
+ *
+ * La API de PayPal se sustituye por un fetch falso que enruta por path.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { PayPalPaymentProvider } from "@lib/payments/server";
+import { WebhookSignatureError } from "@/errors";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function createProvider(routes: Record<string, unknown>) {
+  const fetchImpl = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(async (url) => {
+    const path = new URL(url).pathname;
+    if (path === "/v1/oauth2/token") {
+      return jsonResponse({ access_token: "token", expires_in: 3600 });
+    }
+    return path in routes ? jsonResponse(routes[path]) : jsonResponse({}, 404);
+  });
+
+  const provider = new PayPalPaymentProvider({
+    clientId: "client",
+    clientSecret: "secret",
+    webhookId: "WH-1",
+    fetch: fetchImpl as unknown as typeof fetch,
+  });
+
+  return { provider, fetchImpl };
+}
+
+const transmissionHeaders = new Headers({
+  "paypal-auth-algo": "SHA256withRSA",
+  "paypal-cert-url": "https://api.paypal.com/cert.pem",
+  "paypal-transmission-id": "tx-1",
+  "paypal-transmission-sig": "sig",
+  "paypal-transmission-time": "2026-01-01T00:00:00Z",
+});
+
+const captureCompleted = JSON.stringify({
+  id: "WH-EVT-1",
+  event_type: "PAYMENT.CAPTURE.COMPLETED",
+  resource: {
+    id: "CAPTURE-1",
+    status: "COMPLETED",
+    custom_id: "AYL-TEST-0001",
+    amount: { currency_code: "EUR", value: "24.99" },
+    supplementary_data: { related_ids: { order_id: "ORDER-1" } },
+  },
+});
+
+describe("PayPalPaymentProvider", () => {
+  it("should create an order and expose the approval link", async () => {
+    const { provider } = createProvider({
+      "/v2/checkout/orders": {
+        id: "ORDER-1",
+        status: "PAYER_ACTION_REQUIRED",
+        links: [{ rel: "payer-action", href: "https://paypal.test/approve" }],
+        purchase_units: [
+          { custom_id: "AYL-TEST-0001", amount: { currency_code: "EUR", value: "24.99" } },
+        ],
+      },
+    });
+
+    const session = await provider.createSession({
+      reference: "AYL-TEST-0001",
+      amount: 2499,
+      currency: "EUR",
+      customerEmail: "ana@example.com",
+    });
+
+    expect(session).toMatchObject({
+      id: "ORDER-1",
+      status: "pending",
+      amount: 2499,
+      redirectUrl: "https://paypal.test/approve",
+    });
+  });
+
+  it("should map a verified capture to payment.success", async () => {
+    const { provider, fetchImpl } = createProvider({
+      "/v1/notifications/verify-webhook-signature": { verification_status: "SUCCESS" },
+    });
+
+    const event = await provider.verifyWebhook(captureCompleted, transmissionHeaders);
+
+    const verifyCall = fetchImpl.mock.calls.find(([url]) =>
+      String(url).endsWith("/verify-webhook-signature")
+    );
+    expect(JSON.parse(verifyCall?.[1]?.body as string)).toMatchObject({
+      webhook_id: "WH-1",
+      transmission_id: "tx-1",
+    });
+    expect(event).toMatchObject({
+      id: "WH-EVT-1",
+      provider: "paypal",
+      type: "payment.success",
+      sessionId: "ORDER-1",
+      reference: "AYL-TEST-0001",
+      amount: 2499,
+    });
+  });
+
+  it("should report the total refunded amount of a refund event", async () => {
+    const { provider } = createProvider({
+      "/v1/notifications/verify-webhook-signature": { verification_status: "SUCCESS" },
+    });
+    const refunded = JSON.stringify({
+      id: "WH-EVT-2",
+      event_type: "PAYMENT.CAPTURE.REFUNDED",
+      resource: {
+        id: "REFUND-2",
+        status: "COMPLETED",
+        custom_id: "AYL-TEST-0001",
+        amount: { currency_code: "EUR", value: "5.00" },
+        seller_payable_breakdown: {
+          total_refunded_amount: { currency_code: "EUR", value: "15.00" },
+        },
+      },
+    });
+
+    const event = await provider.verifyWebhook(refunded, transmissionHeaders);
+
+    expect(event).toMatchObject({ type: "payment.refunded", amount: 1500, currency: "EUR" });
+  });
+
+  it("should reject events PayPal does not verify", async () => {
+    const { provider } = createProvider({
+      "/v1/notifications/verify-webhook-signature": { verification_status: "FAILURE" },
+    });
+
+    await expect(
+      provider.verifyWebhook(captureCompleted, transmissionHeaders)
+    ).rejects.toBeInstanceOf(WebhookSignatureError);
+  });
+
+  it("should reject events without transmission headers", async () => {
+    const { provider, fetchImpl } = createProvider({});
+
+    await expect(
+      provider.verifyWebhook(captureCompleted, new Headers())
+    ).rejects.toBeInstanceOf(WebhookSignatureError);
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
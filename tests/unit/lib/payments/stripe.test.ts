@@ -0,0 +1,142 @@
+/**
+ * Stripe Payment Provider Unit Tests
+ *
+ * La API de Stripe se sustituye por un fetch falso.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "crypto";
+import {
+  STRIPE_SIGNATURE_HEADER,
+  StripePaymentProvider,
+} from "@lib/payments/server";
+import { WebhookSignatureError } from "@/errors";
+
+const WEBHOOK_SECRET = "whsec_test";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function createProvider(fetchImpl = vi.fn()) {
+  return new StripePaymentProvider({
+    secretKey: "sk_test",
+    webhookSecret: WEBHOOK_SECRET,
+    fetch: fetchImpl as unknown as typeof fetch,
+  });
+}
+
+function signedHeaders(payload: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = createHmac("sha256", WEBHOOK_SECRET)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+  return new Headers({ [STRIPE_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}` });
+}
+
+const completedSession = {
+  id: "cs_test_1",
+  url: null,
+  status: "complete",
+  payment_status: "paid",
+  amount_total: 2499,
+  currency: "eur",
+  client_reference_id: "AYL-TEST-0001",
+  payment_intent: "pi_1",
+  customer_details: { email: "ana@example.com" },
+};
+
+describe("StripePaymentProvider", () => {
+  it("should open a hosted checkout session", async () => {
+    // Arrange
+    const fetchImpl = vi.fn().mockResolvedValue(
+      jsonResponse({
+        ...completedSession,
+        url: "https://checkout.stripe.com/c/pay/cs_test_1",
+        status: "open",
+        payment_status: "unpaid",
+      })
+    );
+    const provider = createProvider(fetchImpl);
+
+    // Act
+    const session = await provider.createSession({
+      reference: "AYL-TEST-0001",
+      amount: 2499,
+      currency: "EUR",
+      customerEmail: "ana@example.com",
+      successUrl: "https://ayla.test/checkout/success",
+    });
+
+    // Assert
+    const [url, init] = fetchImpl.mock.calls[0];
+    const body = new URLSearchParams(init.body);
+    expect(url).toBe("https://api.stripe.com/v1/checkout/sessions");
+    expect(body.get("line_items[0][price_data][unit_amount]")).toBe("2499");
+    expect(body.get("client_reference_id")).toBe("AYL-TEST-0001");
+    expect(body.get("success_url")).toBe("https://ayla.test/checkout/success");
+    expect(session).toMatchObject({
+      status: "pending",
+      currency: "EUR",
+      redirectUrl: "https://checkout.stripe.com/c/pay/cs_test_1",
+    });
+  });
+
+  it("should map a paid checkout.session.completed to payment.success", async () => {
+    const provider = createProvider();
+    const payload = JSON.stringify({
+      id: "evt_1",
+      type: "checkout.session.completed",
+      data: { object: completedSession },
+    });
+
+    const event = await provider.verifyWebhook(payload, signedHeaders(payload));
+
+    expect(event).toEqual({
+      id: "evt_1",
+      provider: "stripe",
+      type: "payment.success",
+      providerType: "checkout.session.completed",
+      sessionId: "cs_test_1",
+      reference: "AYL-TEST-0001",
+      amount: 2499,
+      currency: "EUR",
+      customerEmail: "ana@example.com",
+    });
+  });
+
+  it("should not treat an unpaid completed session as a success", async () => {
+    const provider = createProvider();
+    const payload = JSON.stringify({
+      id: "evt_2",
+      type: "checkout.session.completed",
+      data: { object: { ...completedSession, payment_status: "unpaid" } },
+    });
+
+    const event = await provider.verifyWebhook(payload, signedHeaders(payload));
+
+    expect(event.type).toBe("unknown");
+  });
+
+  it("should reject a tampered payload", async () => {
+    const provider = createProvider();
+    const payload = JSON.stringify({ id: "evt_3", type: "charge.refunded", data: { object: {} } });
+    const headers = signedHeaders(payload);
+
+    await expect(
+      provider.verifyWebhook(payload.replace("evt_3", "evt_4"), headers)
+    ).rejects.toBeInstanceOf(WebhookSignatureError);
+  });
+
+  it("should reject signatures outside the tolerance window", async () => {
+    const provider = createProvider();
+    const payload = JSON.stringify({ id: "evt_5", type: "charge.refunded", data: { object: {} } });
+    const stale = Math.floor(Date.now() / 1000) - 3600;
+
+    await expect(
+      provider.verifyWebhook(payload, signedHeaders(payload, stale))
+    ).rejects.toThrow("tolerance");
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Related Products Unit Tests
+ *
+ * Tests para la heurística de "También te puede gustar" (categoría,
+ * características en común y compras conjuntas) y el historial de vistos.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  addRecentlyViewed,
+  buildCoPurchaseIndex,
+  getRelatedProducts,
+} from "@lib/recommendations";
+import type { StoredOrder } from "@lib/orders";
+import type { AylaOrderStatus, AylaProduct } from "@types";
+
+function product(id: number, category: string, features: string[] = []): AylaProduct {
+  return {
+    id,
+    name: `Producto ${id}`,
+    slug: `producto-${id}`,
+    description: "",
+    price: 10,
+    category,
+    imageType: "planner",
+    features,
+  };
+}
+
+function order(status: AylaOrderStatus, productIds: number[]) {
+  return {
+    status,
+    lines: productIds.map((productId) => ({ productId })),
+  } as Pick<StoredOrder, "lines"> & { status: AylaOrderStatus };
+}
+
+const fixtures = [
+  product(1, "Planners", ["Compatible con GoodNotes", "12 meses"]),
+  product(2, "Planners"),
+  product(3, "Tarjetas", ["compatible con goodnotes"]),
+  product(4, "Bodas"),
+  product(5, "Branding"),
+];
+
+const ids = (products: AylaProduct[]) => products.map(({ id }) => id);
+
+describe("buildCoPurchaseIndex", () => {
+  it("should count the paid and fulfilled orders of each pair of products", () => {
+    const index = buildCoPurchaseIndex([
+      order("paid", [1, 4]),
+      order("fulfilled", [1, 4, 4, 5]),
+      order("pending", [1, 5]),
+      order("refunded", [4, 5]),
+    ]);
+
+    expect(index.get(1)?.get(4)).toBe(2);
+    expect(index.get(4)?.get(1)).toBe(2);
+    expect(index.get(1)?.get(5)).toBe(1);
+    expect(index.get(4)?.has(4)).toBe(false);
+  });
+});
+
+describe("getRelatedProducts", () => {
+  it("should rank by category and shared features, without the product itself", () => {
+    expect(ids(getRelatedProducts(fixtures[0], fixtures))).toEqual([2, 3]);
+  });
+
+  it("should add the products bought together", () => {
+    const index = buildCoPurchaseIndex([order("paid", [1, 5]), order("paid", [1, 5])]);
+
+    expect(ids(getRelatedProducts(fixtures[0], fixtures, { coPurchases: index.get(1) }))).toEqual([
+      5, 2, 3,
+    ]);
+  });
+
+  it("should skip unrelated products and apply the limit", () => {
+    expect(getRelatedProducts(fixtures[4], fixtures)).toEqual([]);
+    expect(ids(getRelatedProducts(fixtures[0], fixtures, { limit: 1 }))).toEqual([2]);
+  });
+});
+
+describe("addRecentlyViewed", () => {
+  it("should move the product to the front without duplicates", () => {
+    expect(addRecentlyViewed([3, 1, 2], 2)).toEqual([2, 3, 1]);
+    expect(addRecentlyViewed([], 7)).toEqual([7]);
+  });
+
+  it("should keep the most recent products only", () => {
+    expect(addRecentlyViewed([1, 2, 3], 4, 3)).toEqual([4, 1, 2]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Review Ratings Unit Tests
+ *
+ * Tests para la valoración agregada, el orden y la paginación de reseñas.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getProductRatings,
+  getRatingSummary,
+  paginateReviews,
+  sortReviews,
+} from "@lib/reviews";
+import type { AylaProductReview, AylaRatingValue } from "@types";
+
+function review(
+  id: string,
+  rating: AylaRatingValue,
+  createdAt: string,
+  productId = 1
+): AylaProductReview {
+  return {
+    id,
+    productId,
+    authorName: "Ana",
+    rating,
+    title: "Reseña",
+    text: "Texto de la reseña",
+    verifiedPurchase: true,
+    status: "approved",
+    createdAt,
+  };
+}
+
+const reviews = [
+  review("a", 5, "2026-03-01T00:00:00.000Z"),
+  review("b", 3, "2026-03-03T00:00:00.000Z"),
+  review("c", 4, "2026-03-02T00:00:00.000Z"),
+  review("d", 5, "2026-03-04T00:00:00.000Z"),
+];
+
+describe("getRatingSummary", () => {
+  it("should compute the rounded average and the distribution", () => {
+    expect(getRatingSummary(reviews)).toEqual({
+      average: 4.3,
+      count: 4,
+      distribution: { 1: 0, 2: 0, 3: 1, 4: 1, 5: 2 },
+    });
+  });
+
+  it("should return an empty summary without reviews", () => {
+    expect(getRatingSummary([])).toEqual({
+      average: 0,
+      count: 0,
+      distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+    });
+  });
+});
+
+describe("getProductRatings", () => {
+  it("should group the ratings by product", () => {
+    const ratings = getProductRatings([...reviews, review("e", 2, "2026-03-05T00:00:00.000Z", 2)]);
+
+    expect(ratings[1]).toMatchObject({ average: 4.3, count: 4 });
+    expect(ratings[2]).toMatchObject({ average: 2, count: 1 });
+    expect(ratings[3]).toBeUndefined();
+  });
+});
+
+describe("sortReviews", () => {
+  it.each([
+    ["newest", ["d", "b", "c", "a"]],
+    ["oldest", ["a", "c", "b", "d"]],
+    ["highest", ["d", "a", "c", "b"]],
+    ["lowest", ["b", "c", "d", "a"]],
+  ] as const)("should sort by %s", (sort, expected) => {
+    expect(sortReviews(reviews, sort).map(({ id }) => id)).toEqual(expected);
+  });
+
+  it("should not modify the original list", () => {
+    sortReviews(reviews, "highest");
+    expect(reviews.map(({ id }) => id)).toEqual(["a", "b", "c", "d"]);
+  });
+});
+
+describe("paginateReviews", () => {
+  it("should return the requested page with the totals", () => {
+    const page = paginateReviews(reviews, { sort: "oldest", page: 2, pageSize: 3 });
+
+    expect(page).toMatchObject({ page: 2, pageSize: 3, total: 4, totalPages: 2 });
+    expect(page.items.map(({ id }) => id)).toEqual(["d"]);
+  });
+
+  it("should return no items past the last page", () => {
+    const page = paginateReviews(reviews, { page: 5, pageSize: 3 });
+
+    expect(page.items).toEqual([]);
+    expect(page.total).toBe(4);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Product Reviews Unit Tests
+ *
+ * Envío con verificación de compra, moderación y listado público, con los
+ * repositorios de reseñas y de grants en memoria.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { products } from "@/data/ayla";
+import { StaticCatalogRepository } from "@lib/catalog/server";
+import { InMemoryDownloadRepository, syncDownloadGrants } from "@lib/downloads/server";
+import {
+  InMemoryReviewRepository,
+  listModerationQueue,
+  listProductReviews,
+  loadProductRatings,
+  moderateReview,
+  submitReview,
+  type ReviewDeps,
+} from "@lib/reviews/server";
+import type { StoredOrder } from "@lib/orders";
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+const paidOrder = {
+  reference: "AYL-TEST-0001",
+  status: "paid",
+  customerId: "42",
+  customerEmail: "ana@example.com",
+  lines: [{ productId: 1, name: "Planner", quantity: 1, unitAmount: 2499, lineAmount: 2499 }],
+  subtotal: 2499,
+  total: 2499,
+  currency: "EUR",
+  payment: { provider: "fake", sessionId: "fake_1" },
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+} as unknown as StoredOrder;
+
+const input = {
+  productId: 1,
+  authorName: "Ana",
+  rating: 5,
+  title: "Precioso",
+  text: "Lo uso cada día para organizar mis proyectos.",
+};
+
+describe("product reviews", () => {
+  let repository: InMemoryReviewRepository;
+  let downloads: InMemoryDownloadRepository;
+  let deps: ReviewDeps;
+
+  beforeEach(async () => {
+    repository = new InMemoryReviewRepository();
+    downloads = new InMemoryDownloadRepository();
+    deps = {
+      repository,
+      downloads,
+      catalog: new StaticCatalogRepository(products, []),
+      now: NOW,
+    };
+    await syncDownloadGrants(paidOrder, { repository: downloads, now: NOW });
+  });
+
+  describe("submitReview", () => {
+    it("should store a verified review pending moderation", async () => {
+      const result = await submitReview("42", input, deps);
+
+      expect(result).toMatchObject({
+        ok: true,
+        review: {
+          productId: 1,
+          authorId: "42",
+          rating: 5,
+          verifiedPurchase: true,
+          orderReference: "AYL-TEST-0001",
+          status: "pending",
+          createdAt: NOW.toISOString(),
+        },
+      });
+      expect(await listModerationQueue(deps)).toHaveLength(1);
+    });
+
+    it("should reject products the user has not bought", async () => {
+      expect(await submitReview("7", input, deps)).toEqual({
+        ok: false,
+        reason: "not_purchased",
+      });
+      expect(await submitReview("42", { ...input, productId: 2 }, deps)).toEqual({
+        ok: false,
+        reason: "not_purchased",
+      });
+    });
+
+    it("should reject purchases that were refunded", async () => {
+      await syncDownloadGrants(
+        { ...paidOrder, status: "refunded" },
+        { repository: downloads, now: NOW }
+      );
+
+      expect(await submitReview("42", input, deps)).toMatchObject({ reason: "not_purchased" });
+    });
+
+    it("should reject unknown products", async () => {
+      expect(await submitReview("42", { ...input, productId: 999 }, deps)).toMatchObject({
+        reason: "product_not_found",
+      });
+    });
+
+    it("should accept one review per user and product", async () => {
+      const first = await submitReview("42", input, deps);
+      expect(await submitReview("42", input, deps)).toMatchObject({
+        reason: "already_reviewed",
+      });
+
+      // Tras un rechazo se puede enviar una reseña nueva
+      if (!first.ok) throw new Error("expected the first review to be stored");
+      await moderateReview(first.review.id, { status: "rejected" }, deps);
+      expect(await submitReview("42", input, deps)).toMatchObject({ ok: true });
+    });
+  });
+
+  describe("moderation and listing", () => {
+    it("should publish only approved reviews", async () => {
+      const result = await submitReview("42", input, deps);
+      if (!result.ok) throw new Error("expected the review to be stored");
+
+      expect((await listProductReviews(1, {}, deps)).total).toBe(0);
+
+      const moderated = await moderateReview(
+        result.review.id,
+        { status: "approved", note: "OK" },
+        deps
+      );
+      expect(moderated).toMatchObject({
+        status: "approved",
+        moderatedAt: NOW.toISOString(),
+        moderationNote: "OK",
+      });
+      expect(await listModerationQueue(deps)).toEqual([]);
+
+      const page = await listProductReviews(1, {}, deps);
+      expect(page).toMatchObject({ total: 1, page: 1, totalPages: 1, sort: "newest" });
+      expect(page.summary).toMatchObject({ average: 5, count: 1 });
+      expect(page.items[0]).not.toHaveProperty("authorId");
+      expect(page.items[0]).not.toHaveProperty("orderReference");
+
+      expect(await loadProductRatings(deps)).toEqual({ 1: page.summary });
+    });
+
+    it("should return null when moderating an unknown review", async () => {
+      expect(await moderateReview("missing", { status: "approved" }, deps)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tax Calculation Unit Tests
+ *
+ * Tests para el tratamiento fiscal y el desglose del IVA por línea.
+ */
+
+import { describe, it, expect } from "vitest";
+import { calculateTaxes, getIncludedTax, getTaxRule, getVatRate } from "@lib/tax";
+
+describe("getVatRate", () => {
+  it("should return the rate of EU countries and 0 elsewhere", () => {
+    expect(getVatRate("es")).toBe(0.21);
+    expect(getVatRate("DE")).toBe(0.19);
+    expect(getVatRate("US")).toBe(0);
+  });
+});
+
+describe("getIncludedTax", () => {
+  it("should extract the VAT included in an amount", () => {
+    expect(getIncludedTax(12100, 0.21)).toBe(2100);
+    expect(getIncludedTax(3298)).toBe(572);
+  });
+});
+
+describe("getTaxRule", () => {
+  it("should charge consumers the VAT of their country", () => {
+    expect(getTaxRule({ country: "ES" })).toEqual({
+      country: "ES",
+      treatment: "standard",
+      rate: 0.21,
+    });
+    expect(getTaxRule({ country: "de" })).toMatchObject({ treatment: "standard", rate: 0.19 });
+  });
+
+  it("should apply reverse charge to businesses from other EU countries", () => {
+    expect(getTaxRule({ country: "FR", vatId: "FR12345678901" })).toEqual({
+      country: "FR",
+      treatment: "reverse_charge",
+      rate: 0.2,
+    });
+  });
+
+  it("should charge VAT to businesses in the store country", () => {
+    expect(getTaxRule({ country: "ES", vatId: "ESB12345678" })).toMatchObject({
+      treatment: "standard",
+    });
+  });
+
+  it("should ignore VAT IDs with an invalid format", () => {
+    expect(getTaxRule({ country: "FR", vatId: "FR123" })).toMatchObject({
+      treatment: "standard",
+    });
+  });
+
+  it("should not charge VAT outside the EU", () => {
+    expect(getTaxRule({ country: "US", vatId: "123456789" })).toEqual({
+      country: "US",
+      treatment: "outside_eu",
+      rate: 0,
+    });
+  });
+});
+
+describe("calculateTaxes", () => {
+  it("should split the order discount and VAT across lines", () => {
+    // Act
+    const taxes = calculateTaxes([2499, 1299], 500, getTaxRule({ country: "ES" }));
+
+    // Assert
+    expect(taxes.lines.map((line) => line.discount)).toEqual([329, 171]);
+    expect(taxes.tax).toBe(572);
+    expect(taxes.total).toBe(3298);
+    expect(taxes.lines.reduce((sum, line) => sum + line.tax, 0)).toBe(taxes.tax);
+    for (const line of taxes.lines) {
+      expect(line.net + line.tax).toBe(line.total);
+    }
+  });
+
+  it("should charge the taxable amount with reverse charge", () => {
+    // Act
+    const taxes = calculateTaxes([12000], 0, getTaxRule({ country: "FR", vatId: "FR12345678901" }));
+
+    // Assert
+    expect(taxes).toMatchObject({ rate: 0, subtotalNet: 10000, net: 10000, tax: 0, total: 10000 });
+    expect(taxes.lines[0]).toEqual({ rate: 0, discount: 0, net: 10000, tax: 0, total: 10000 });
+  });
+
+  it("should charge the full amount without VAT outside the EU", () => {
+    const taxes = calculateTaxes([2499], 0, getTaxRule({ country: "US" }));
+
+    expect(taxes).toMatchObject({ rate: 0, net: 2499, tax: 0, total: 2499 });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * VAT ID Unit Tests
+ *
+ * Tests para el formato de los números de IVA intracomunitarios.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getVatIdPrefix, isValidVatIdFormat, normalizeVatId } from "@lib/tax";
+
+describe("normalizeVatId", () => {
+  it("should remove separators and uppercase the number", () => {
+    expect(normalizeVatId(" fr 12-345.678 901 ")).toBe("FR12345678901");
+  });
+});
+
+describe("getVatIdPrefix", () => {
+  it("should use EL for Greece and the ISO code elsewhere", () => {
+    expect(getVatIdPrefix("gr")).toBe("EL");
+    expect(getVatIdPrefix("DE")).toBe("DE");
+  });
+});
+
+describe("isValidVatIdFormat", () => {
+  it("should accept numbers with the country format", () => {
+    expect(isValidVatIdFormat("DE123456789", "DE")).toBe(true);
+    expect(isValidVatIdFormat("nl 123456789 B01", "NL")).toBe(true);
+    expect(isValidVatIdFormat("EL123456789", "GR")).toBe(true);
+    expect(isValidVatIdFormat("ESB12345678", "ES")).toBe(true);
+  });
+
+  it("should reject numbers from another country or with a wrong structure", () => {
+    expect(isValidVatIdFormat("DE123456789", "FR")).toBe(false);
+    expect(isValidVatIdFormat("DE12345678", "DE")).toBe(false);
+    expect(isValidVatIdFormat("123456789", "DE")).toBe(false);
+  });
+
+  it("should reject countries outside the EU", () => {
+    expect(isValidVatIdFormat("GB123456789", "GB")).toBe(false);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Auth Middleware Unit Tests
+ *
+ * Tests para la verificación del access token en el middleware: refresh
+ * silencioso de tokens caducados, tokens manipulados, la verificación en
+ * dos pasos de las sesiones de administración y los headers de sesión que
+ * reciben los route handlers.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  authMiddleware,
+  checkAuth,
+  clearJwksCache,
+  getSessionHeaders,
+  readAccessToken,
+} from "@/middleware";
+import { AUTH_COOKIES, HEADERS } from "@/middleware/types";
+import { getSessionUser, requireRole } from "@lib/auth/server";
+
+const SECRET = "middleware-test-secret";
+const encoder = new TextEncoder();
+
+const base64Url = (value: string | ArrayBuffer) =>
+  Buffer.from(typeof value === "string" ? encoder.encode(value) : new Uint8Array(value)).toString(
+    "base64url"
+  );
+
+async function signToken(claims: Record<string, unknown>, secret = SECRET) {
+  const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const input = `${header}.${base64Url(JSON.stringify(claims))}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return `${input}.${base64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(input)))}`;
+}
+
+const seconds = () => Math.floor(Date.now() / 1000);
+
+function request(
+  url: string,
+  cookies: Record<string, string> = {},
+  headers: Record<string, string> = {}
+) {
+  const cookie = Object.entries(cookies)
+    .map(([name, value]) => `${name}=${value}`)
+    .join("; ");
+  return new NextRequest(url, { headers: cookie ? { ...headers, cookie } : headers });
+}
+
+describe("auth middleware with token verification", () => {
+  beforeEach(() => {
+    vi.stubEnv("AUTH_JWT_SECRET", SECRET);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should let through verified tokens with their claims", async () => {
+    const token = await signToken({
+      sub: "42",
+      role: "admin",
+      amr: ["pwd", "otp"],
+      exp: seconds() + 300,
+    });
+    const result = await checkAuth(
+      request("http://localhost:3000/admin", { [AUTH_COOKIES.ACCESS_TOKEN]: token })
+    );
+
+    expect(result).toMatchObject({
+      isAuthenticated: true,
+      isVerified: true,
+      userId: "42",
+      role: "admin",
+      mfa: true,
+      shouldRedirect: false,
+    });
+  });
+
+  it("should send admin sessions without the second factor to set it up", async () => {
+    const token = await signToken({ sub: "42", role: "admin", amr: ["pwd"] });
+    const response = await authMiddleware(
+      request("http://localhost:3000/en/admin/orders", { [AUTH_COOKIES.ACCESS_TOKEN]: token })
+    );
+
+    expect(response?.headers.get("location")).toBe(
+      "http://localhost:3000/en/account/security?redirect=%2Fadmin%2Forders"
+    );
+
+    // También fuera de /admin, salvo en la propia página de configuración
+    const orders = await checkAuth(
+      request("http://localhost:3000/en/account/orders", { [AUTH_COOKIES.ACCESS_TOKEN]: token })
+    );
+    expect(orders).toMatchObject({
+      shouldRedirect: true,
+      redirectUrl: "http://localhost:3000/en/account/security?redirect=%2Faccount%2Forders",
+    });
+
+    const security = await checkAuth(
+      request("http://localhost:3000/account/security", { [AUTH_COOKIES.ACCESS_TOKEN]: token })
+    );
+    expect(security).toMatchObject({ isAuthenticated: true, mfa: false, shouldRedirect: false });
+  });
+
+  it("should not ask customers for the second factor", async () => {
+    const token = await signToken({ sub: "7", role: "customer", amr: ["pwd"] });
+    const result = await checkAuth(
+      request("http://localhost:3000/en/account/orders", { [AUTH_COOKIES.ACCESS_TOKEN]: token })
+    );
+
+    expect(result).toMatchObject({
+      isAuthenticated: true,
+      role: "customer",
+      shouldRedirect: false,
+    });
+  });
+
+  it("should send forged tokens to the login", async () => {
+    const token = await signToken({ sub: "42", role: "super_admin" }, "guessed-secret");
+    const result = await checkAuth(
+      request("http://localhost:3000/en/account/orders", { [AUTH_COOKIES.ACCESS_TOKEN]: token })
+    );
+
+    expect(result.isAuthenticated).toBe(false);
+    expect(result.redirectUrl).toBe(
+      "http://localhost:3000/en/auth/login?redirect=%2Faccount%2Forders"
+    );
+  });
+
+  it("should refresh expired tokens silently once", async () => {
+    const token = await signToken({ sub: "42", exp: seconds() - 300 });
+    const cookies = {
+      [AUTH_COOKIES.ACCESS_TOKEN]: token,
+      [AUTH_COOKIES.REFRESH_TOKEN]: "refresh",
+    };
+
+    const response = await authMiddleware(request("http://localhost:3000/account?tab=1", cookies));
+    expect(response?.headers.get("location")).toBe(
+      "http://localhost:3000/auth/refresh?redirect=%2Faccount%3Ftab%3D1"
+    );
+    expect(response?.cookies.get(AUTH_COOKIES.REFRESH_ATTEMPT)?.value).toBe("1");
+
+    // Sigue caducado después del refresh → login
+    const retry = await checkAuth(
+      request("http://localhost:3000/account", { ...cookies, [AUTH_COOKIES.REFRESH_ATTEMPT]: "1" })
+    );
+    expect(retry.isRefresh).toBeUndefined();
+    expect(retry.redirectUrl).toBe("http://localhost:3000/auth/login?redirect=%2Faccount");
+  });
+
+  it("should not render public pages as signed in with an expired token", async () => {
+    const token = await signToken({ sub: "42", exp: seconds() - 300 });
+    const result = await checkAuth(
+      request("http://localhost:3000/products", { [AUTH_COOKIES.ACCESS_TOKEN]: token })
+    );
+
+    expect(result).toEqual({ isAuthenticated: false, shouldRedirect: false });
+  });
+
+  it("should replace the session headers sent by the client", async () => {
+    const spoofed = {
+      [HEADERS.USER_ID]: "1",
+      [HEADERS.USER_ROLE]: "super_admin",
+      [HEADERS.USER_MFA]: "true",
+    };
+
+    const anonymous = request("http://localhost:3000/api/favorites", {}, spoofed);
+    const anonymousHeaders = getSessionHeaders(anonymous, await checkAuth(anonymous));
+    expect(anonymousHeaders.has(HEADERS.USER_ID)).toBe(false);
+    expect(anonymousHeaders.has(HEADERS.USER_ROLE)).toBe(false);
+    expect(anonymousHeaders.has(HEADERS.USER_MFA)).toBe(false);
+
+    const token = await signToken({ sub: "42", exp: seconds() + 300 });
+    const signedIn = request(
+      "http://localhost:3000/api/favorites",
+      { [AUTH_COOKIES.ACCESS_TOKEN]: token },
+      spoofed
+    );
+    const headers = getSessionHeaders(signedIn, await checkAuth(signedIn));
+    expect(headers.get(HEADERS.USER_ID)).toBe("42");
+    expect(headers.get(HEADERS.USER_ROLE)).toBe("customer");
+    expect(headers.get(HEADERS.USER_MFA)).toBe("false");
+  });
+
+  it("should only trust the middleware headers in route handlers", async () => {
+    const url = "http://localhost:3000/api/favorites";
+    const token = await signToken({ sub: "42", role: "admin" }, "guessed-secret");
+
+    expect(getSessionUser(request(url, { [AUTH_COOKIES.ACCESS_TOKEN]: token }))).toBeNull();
+    expect(
+      getSessionUser(
+        request(url, {}, {
+          [HEADERS.USER_ID]: "42",
+          [HEADERS.USER_ROLE]: "admin",
+          [HEADERS.USER_MFA]: "true",
+        })
+      )
+    ).toEqual({ id: "42", role: "admin", mfa: true });
+  });
+
+  it("should ask route handlers for the second factor of admin sessions", () => {
+    const url = "http://localhost:3000/api/admin/orders";
+    const headers = { [HEADERS.USER_ID]: "42", [HEADERS.USER_ROLE]: "admin" };
+
+    const withoutMfa = requireRole(request(url, {}, headers), "admin");
+    expect((withoutMfa as Response).status).toBe(403);
+
+    // Para lo que basta un customer no se exige
+    expect(requireRole(request(url, {}, headers), "customer")).toEqual({
+      id: "42",
+      role: "admin",
+      mfa: false,
+    });
+    expect(
+      requireRole(request(url, {}, { ...headers, [HEADERS.USER_MFA]: "true" }), "admin")
+    ).toMatchObject({ mfa: true });
+  });
+});
+
+describe("auth middleware with a JWKS", () => {
+  const siteJwksUrl = "https://ayladesigns.me/.well-known/jwks.json";
+  let attackerKeys: CryptoKeyPair;
+  let attackerJwks: { keys: JsonWebKey[] };
+  const fetchMock = vi.fn<typeof fetch>();
+
+  async function signRs256(claims: Record<string, unknown>) {
+    const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: "evil" }));
+    const input = `${header}.${base64Url(JSON.stringify(claims))}`;
+    const signature = await crypto.subtle.sign(
+      "RSASSA-PKCS1-v1_5",
+      attackerKeys.privateKey,
+      encoder.encode(input)
+    );
+    return `${input}.${base64Url(signature)}`;
+  }
+
+  beforeAll(async () => {
+    attackerKeys = await crypto.subtle.generateKey(
+      {
+        name: "RSASSA-PKCS1-v1_5",
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: "SHA-256",
+      },
+      true,
+      ["sign", "verify"]
+    );
+    const publicKey = await crypto.subtle.exportKey("jwk", attackerKeys.publicKey);
+    attackerJwks = { keys: [{ ...publicKey, kid: "evil", use: "sig" } as JsonWebKey] };
+  });
+
+  beforeEach(() => {
+    vi.stubEnv("AUTH_JWKS_PATH", "/.well-known/jwks.json");
+    vi.stubGlobal("fetch", fetchMock);
+    // El sitio de confianza no tiene la clave del atacante; evil.example sí
+    fetchMock.mockImplementation(async (url) =>
+      Response.json(String(url) === siteJwksUrl ? { keys: [] } : attackerJwks)
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    clearJwksCache();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("should load the keys from SITE_URL, not from the Host header", async () => {
+    vi.stubEnv("SITE_URL", "https://ayladesigns.me");
+    const token = await signRs256({ sub: "1", role: "super_admin", amr: ["mfa"] });
+
+    const session = await readAccessToken(
+      request("http://evil.example/en/admin", { [AUTH_COOKIES.ACCESS_TOKEN]: token }, {
+        host: "evil.example",
+      })
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toBe(siteJwksUrl);
+    expect(session).toEqual({ status: "invalid" });
+  });
+
+  it("should reject RS256 tokens when a relative path has no SITE_URL", async () => {
+    vi.stubEnv("SITE_URL", "");
+    const token = await signRs256({ sub: "1", role: "admin" });
+
+    const session = await readAccessToken(
+      request("http://evil.example/admin", { [AUTH_COOKIES.ACCESS_TOKEN]: token }, {
+        host: "evil.example",
+      })
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(session).toEqual({ status: "invalid" });
+  });
+});
@@ -6,8 +6,9 @@
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import { authService, AuthService } from "@lib/services/auth";
+import { authService, AuthService, isMfaChallenge } from "@lib/services/auth";
 import { apiClient } from "@lib/api/client";
+import { ApiError, getEmailLinkProblem, type ApiErrorCode } from "@/errors";
 import type {
   LoginResponse,
   RegisterRequest,
@@ -15,6 +16,7 @@ import type {
   GoogleAuthUrlResponse,
   AuthUser,
   TokenResponse,
+  MfaChallengeResponse,
 } from "@lib/services/auth";
 
 // Mock del API client
@@ -34,7 +36,7 @@ describe("AuthService", () => {
     first_name: "Test",
     last_name: "User",
     profile_image: "/avatars/test.png",
-    role: "musician",
+    role: "customer",
     is_active: true,
     created_at: "2024-01-15T10:30:00Z",
   };
@@ -51,6 +53,17 @@ describe("AuthService", () => {
     tokens: mockTokens,
   };
 
+  /** Error de la API con el formato del backend */
+  const apiError = (code: ApiErrorCode, status: number) =>
+    new ApiError({
+      code,
+      message: code,
+      status_code: status,
+      correlation_id: "test-correlation-id",
+      timestamp: "2026-01-01T00:00:00Z",
+      path: "/api/v1/auth",
+    });
+
   beforeEach(() => {
     // Limpiar mocks antes de cada test
     vi.clearAllMocks();
@@ -82,7 +95,7 @@ describe("AuthService", () => {
         password,
       });
       expect(result).toEqual(mockResponse);
-      expect(result.data.user.email).toBe(email);
+      expect((result.data as LoginResponse).user.email).toBe(email);
     });
 
     it("should throw error on invalid credentials", async () => {
@@ -367,8 +380,8 @@ describe("AuthService", () => {
         params: { code, state },
       });
       expect(result).toEqual(mockResponse);
-      expect(result.data.user).toBeDefined();
-      expect(result.data.tokens).toBeDefined();
+      expect((result.data as LoginResponse).user).toBeDefined();
+      expect((result.data as LoginResponse).tokens).toBeDefined();
     });
 
     it("should successfully handle Google callback with code only", async () => {
@@ -433,6 +446,202 @@ describe("AuthService", () => {
     });
   });
 
+  describe("requestPasswordReset", () => {
+    it("should request the reset link for the email", async () => {
+      // Arrange
+      const mockResponse = {
+        data: { message: "Reset email sent" },
+        status: 200,
+        correlationId: "test-correlation-id",
+      };
+
+      vi.mocked(apiClient.post).mockResolvedValueOnce(mockResponse);
+
+      // Act
+      const result = await authService.requestPasswordReset("test@ayladesigns.me");
+
+      // Assert
+      expect(apiClient.post).toHaveBeenCalledWith("/api/v1/auth/password/forgot", {
+        email: "test@ayladesigns.me",
+      });
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe("confirmPasswordReset", () => {
+    it("should send the token and the new password", async () => {
+      // Arrange
+      const mockResponse = {
+        data: { message: "Password updated" },
+        status: 200,
+        correlationId: "test-correlation-id",
+      };
+
+      vi.mocked(apiClient.post).mockResolvedValueOnce(mockResponse);
+
+      // Act
+      const result = await authService.confirmPasswordReset("reset-token", "NewPassword123");
+
+      // Assert
+      expect(apiClient.post).toHaveBeenCalledWith("/api/v1/auth/password/reset", {
+        token: "reset-token",
+        password: "NewPassword123",
+      });
+      expect(result).toEqual(mockResponse);
+    });
+
+    it("should reject expired links with a stale link code", async () => {
+      // Arrange
+      vi.mocked(apiClient.post).mockRejectedValueOnce(apiError("RESET_TOKEN_EXPIRED", 410));
+
+      // Act
+      const error = await authService
+        .confirmPasswordReset("old-token", "NewPassword123")
+        .catch((err: unknown) => err);
+
+      // Assert
+      expect(error).toBeInstanceOf(ApiError);
+      expect(getEmailLinkProblem((error as ApiError).apiCode)).toBe("expired");
+      expect((error as ApiError).userMessage).toBe(
+        "El enlace para restablecer la contraseña ha caducado."
+      );
+    });
+  });
+
+  describe("verifyEmail", () => {
+    it("should verify the email with the link token", async () => {
+      // Arrange
+      const mockResponse = {
+        data: { user: mockUser },
+        status: 200,
+        correlationId: "test-correlation-id",
+      };
+
+      vi.mocked(apiClient.post).mockResolvedValueOnce(mockResponse);
+
+      // Act
+      const result = await authService.verifyEmail("verify-token");
+
+      // Assert
+      expect(apiClient.post).toHaveBeenCalledWith("/api/v1/auth/email/verify", {
+        token: "verify-token",
+      });
+      expect(result.data.user).toEqual(mockUser);
+    });
+
+    it.each([
+      ["VERIFICATION_TOKEN_INVALID", 400, "invalid"],
+      ["VERIFICATION_TOKEN_USED", 410, "used"],
+      ["EMAIL_ALREADY_VERIFIED", 409, "used"],
+    ] as const)("should classify %s as a %s link", async (code, status, problem) => {
+      // Arrange
+      vi.mocked(apiClient.post).mockRejectedValueOnce(apiError(code, status));
+
+      // Act
+      const error = await authService.verifyEmail("token").catch((err: unknown) => err);
+
+      // Assert
+      expect(getEmailLinkProblem((error as ApiError).apiCode)).toBe(problem);
+    });
+  });
+
+  describe("resendVerification", () => {
+    it("should request a new verification email", async () => {
+      // Arrange
+      const mockResponse = {
+        data: { message: "Verification email sent" },
+        status: 200,
+        correlationId: "test-correlation-id",
+      };
+
+      vi.mocked(apiClient.post).mockResolvedValueOnce(mockResponse);
+
+      // Act
+      const result = await authService.resendVerification("test@ayladesigns.me");
+
+      // Assert
+      expect(apiClient.post).toHaveBeenCalledWith("/api/v1/auth/email/verify/resend", {
+        email: "test@ayladesigns.me",
+      });
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe("two-factor authentication", () => {
+    const challenge: MfaChallengeResponse = {
+      mfa_required: true,
+      mfa_token: "mfa-token",
+      methods: ["totp", "recovery_code"],
+    };
+
+    it("should tell a second factor challenge from a finished login", () => {
+      expect(isMfaChallenge(challenge)).toBe(true);
+      expect(isMfaChallenge(mockLoginResponse)).toBe(false);
+    });
+
+    it("should verify the TOTP code of the pending login", async () => {
+      // Arrange
+      vi.mocked(apiClient.post).mockResolvedValueOnce({
+        data: mockLoginResponse,
+        status: 200,
+        correlationId: "test-correlation-id",
+      });
+
+      // Act
+      const result = await authService.verifyMfa({ mfa_token: "mfa-token", code: "123456" });
+
+      // Assert
+      expect(apiClient.post).toHaveBeenCalledWith("/api/v1/auth/mfa/verify", {
+        mfa_token: "mfa-token",
+        code: "123456",
+      });
+      expect(result.data.user).toEqual(mockUser);
+    });
+
+    it("should start and confirm the TOTP enrollment", async () => {
+      // Arrange
+      const setup = {
+        secret: "JBSWY3DPEHPK3PXP",
+        provisioning_uri: "otpauth://totp/Ayla%20Designs:test?secret=JBSWY3DPEHPK3PXP",
+        qr_code: "data:image/png;base64,iVBORw0KGgo=",
+      };
+      vi.mocked(apiClient.post)
+        .mockResolvedValueOnce({ data: setup, status: 200, correlationId: "c-1" })
+        .mockResolvedValueOnce({
+          data: { recovery_codes: ["aaaa-bbbb", "cccc-dddd"] },
+          status: 200,
+          correlationId: "c-2",
+        });
+
+      // Act
+      const { data: started } = await authService.setupTotp();
+      const { data: enabled } = await authService.enableTotp("654321");
+
+      // Assert
+      expect(apiClient.post).toHaveBeenNthCalledWith(1, "/api/v1/auth/mfa/totp/setup", {});
+      expect(apiClient.post).toHaveBeenNthCalledWith(2, "/api/v1/auth/mfa/totp/enable", {
+        code: "654321",
+      });
+      expect(started).toEqual(setup);
+      expect(enabled.recovery_codes).toHaveLength(2);
+    });
+
+    it("should surface invalid codes without asking to log in again", async () => {
+      // Arrange
+      vi.mocked(apiClient.post).mockRejectedValueOnce(apiError("MFA_CODE_INVALID", 400));
+
+      // Act
+      const error = await authService.disableTotp("000000").catch((err: unknown) => err);
+
+      // Assert
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).requiresReauth()).toBe(false);
+      expect((error as ApiError).userMessage).toBe(
+        "El código no es correcto. Comprueba la hora del móvil y prueba otra vez."
+      );
+    });
+  });
+
   describe("AuthService instance", () => {
     it("should export a singleton instance", () => {
       expect(authService).toBeInstanceOf(AuthService);
@@ -0,0 +1,86 @@
+/**
+ * Local API Unit Tests
+ *
+ * Tests para la petición compartida de los servicios que llaman a las API
+ * routes locales con fetch.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { errorReason, requestLocalApi } from "@lib/services/local-api";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("requestLocalApi", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  const toError = vi.fn(
+    ({ method, status }: { method: string; status: number }) =>
+      new Error(`${method} ${status}`)
+  );
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    toError.mockClear();
+    vi.unstubAllGlobals();
+  });
+
+  it("should send the body as JSON with the session cookie", async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    // Act
+    const result = await requestLocalApi("/api/cart", {
+      method: "PUT",
+      body: { items: [] },
+      toError,
+    });
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledWith("/api/cart", {
+      method: "PUT",
+      credentials: "same-origin",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items: [] }),
+    });
+    expect(result).toEqual({ ok: true });
+  });
+
+  it("should resolve empty responses to undefined", async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    // Act & Assert
+    await expect(
+      requestLocalApi("/api/cart", { method: "DELETE", toError })
+    ).resolves.toBeUndefined();
+  });
+
+  it("should throw the service error with the response body", async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(jsonResponse({ success: false, error: "revoked" }, 410));
+
+    // Act & Assert
+    await expect(requestLocalApi("/api/downloads", { toError })).rejects.toThrow("GET 410");
+    expect(toError).toHaveBeenCalledWith({
+      method: "GET",
+      status: 410,
+      data: { success: false, error: "revoked" },
+    });
+  });
+});
+
+describe("errorReason", () => {
+  it("should fall back when the response has no error code", () => {
+    expect(errorReason({ error: "order_not_found" })).toBe("order_not_found");
+    expect(errorReason({})).toBe("unknown");
+    expect(errorReason({ error: 42 }, "Checkout failed")).toBe("Checkout failed");
+  });
+});
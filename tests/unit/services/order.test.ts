@@ -0,0 +1,118 @@
+/**
+ * Order Service Unit Tests
+ *
+ * Tests para el servicio de pedidos del cliente, que llama a las API routes
+ * locales con fetch.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { orderService } from "@lib/services/order";
+import { OrderError } from "@/errors";
+import type { OrderListResponse } from "@lib/services/order";
+import type { AylaOrder } from "@types";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("OrderService", () => {
+  // Mock data
+  const mockOrder: AylaOrder = {
+    reference: "AYL-TEST-0001",
+    status: "paid",
+    items: [
+      {
+        id: 1,
+        product_id: 1,
+        product_name: "Planner Digital 2025",
+        variant_id: null,
+        quantity: 1,
+        price_at_purchase: 2499,
+        download_token: "dl_token",
+        downloads_remaining: 5,
+      },
+    ],
+    subtotal: 2499,
+    discount: 0,
+    tax: 434,
+    total: 2499,
+    currency: "EUR",
+    payment_provider: "stripe",
+    payment_id: "pi_1",
+    invoice_url: "https://api.ayladesigns.me/invoices/42.pdf",
+    created_at: "2026-01-15T10:30:00Z",
+    paid_at: "2026-01-15T10:31:00Z",
+  };
+
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  describe("list", () => {
+    it("should request the paginated order history", async () => {
+      // Arrange
+      const page: OrderListResponse = { items: [mockOrder], total: 1, page: 2, page_size: 10 };
+      fetchMock.mockResolvedValueOnce(jsonResponse(page));
+
+      // Act
+      const result = await orderService.list({ page: 2, page_size: 10 });
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledWith("/api/orders?page=2&page_size=10", {
+        method: "GET",
+        credentials: "same-origin",
+      });
+      expect(result.items[0].reference).toBe("AYL-TEST-0001");
+    });
+  });
+
+  describe("get", () => {
+    it("should request a single order by reference", async () => {
+      // Arrange
+      fetchMock.mockResolvedValueOnce(jsonResponse(mockOrder));
+
+      // Act
+      const result = await orderService.get("AYL-TEST-0001");
+
+      // Assert
+      expect(fetchMock.mock.calls[0][0]).toBe("/api/orders/AYL-TEST-0001");
+      expect(result.items[0].price_at_purchase).toBe(2499);
+    });
+
+    it("should report orders that do not exist", async () => {
+      // Arrange
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ success: false, error: "order_not_found" }, 404)
+      );
+
+      // Act & Assert
+      await expect(orderService.get("AYL-TEST-9999")).rejects.toMatchObject({
+        reason: "order_not_found",
+      });
+    });
+
+    it("should report requests without session", async () => {
+      // Arrange
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ success: false, error: "Authentication required" }, 401)
+      );
+
+      // Act
+      const error = await orderService.get("AYL-TEST-0001").catch((e: unknown) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(OrderError);
+      expect(error).toMatchObject({ reason: "unauthenticated" });
+    });
+  });
+});
@@ -11,8 +11,9 @@ import { immer } from "zustand/middleware/immer";
 import type { StoreState, AuthSlice, User } from "@store/types";
 import type { AuthUser } from "@lib/services/auth";
 
-// Mock del auth service
-vi.mock("@lib/services/auth", () => ({
+// Mock del auth service (isMfaChallenge es el real)
+vi.mock("@lib/services/auth", async (importOriginal) => ({
+  isMfaChallenge: (await importOriginal<typeof import("@lib/services/auth")>()).isMfaChallenge,
   authService: {
     login: vi.fn(),
     register: vi.fn(),
@@ -21,6 +22,7 @@ vi.mock("@lib/services/auth", () => ({
     getGoogleAuthUrl: vi.fn(),
     handleGoogleCallback: vi.fn(),
     refreshTokens: vi.fn(),
+    verifyMfa: vi.fn(),
   },
 }));
 
@@ -86,6 +88,8 @@ describe("AuthSlice", () => {
         auth: createAuthSlice(...args),
         ui: {} as StoreState["ui"],
         search: {} as StoreState["search"],
+        favorites: {} as StoreState["favorites"],
+        recentlyViewed: {} as StoreState["recentlyViewed"],
         consent: {} as StoreState["consent"],
       }))
     );
@@ -99,7 +103,7 @@ describe("AuthSlice", () => {
     first_name: "Test",
     last_name: "User",
     profile_image: "/avatars/test.png",
-    role: "musician",
+    role: "customer",
     is_active: true,
     created_at: "2024-01-15T10:30:00Z",
   };
@@ -109,7 +113,8 @@ describe("AuthSlice", () => {
     email: "test@ayladesigns.me",
     name: "Test User",
     avatar: "/avatars/test.png",
-    role: "musician",
+    role: "customer",
+    mfaEnabled: false,
     createdAt: "2024-01-15T10:30:00Z",
   };
 
@@ -132,6 +137,7 @@ describe("AuthSlice", () => {
       expect(state.isLoading).toBe(false);
       expect(state.error).toBeNull();
       expect(state.authMethod).toBeNull();
+      expect(state.mfaChallenge).toBeNull();
     });
   });
 
@@ -171,6 +177,31 @@ describe("AuthSlice", () => {
       expect(state.authMethod).toBe("credentials");
     });
 
+    it.each([
+      ["admin", "admin"],
+      ["super_admin", "super_admin"],
+      ["musician", "customer"],
+      [null, "customer"],
+    ])("should map the backend role %s to %s", async (role, expected) => {
+      vi.mocked(authService.login).mockResolvedValueOnce({
+        data: {
+          user: { ...mockAuthUser, role },
+          tokens: {
+            access_token: "token",
+            refresh_token: "refresh",
+            token_type: "Bearer",
+            expires_in: 3600,
+          },
+        },
+        status: 200,
+        correlationId: "test-id",
+      });
+
+      await store.getState().auth.login("test@ayladesigns.me", "password123");
+
+      expect(store.getState().auth.user?.role).toBe(expected);
+    });
+
     it("should set loading state while logging in", async () => {
       // Arrange
       const email = "test@ayladesigns.me";
@@ -403,6 +434,146 @@ describe("AuthSlice", () => {
     });
   });
 
+  describe("verifyMfa", () => {
+    const tokens = {
+      access_token: "token",
+      refresh_token: "refresh",
+      token_type: "Bearer",
+      expires_in: 3600,
+    };
+
+    function mockChallenge() {
+      vi.mocked(authService.login).mockResolvedValueOnce({
+        data: { mfa_required: true, mfa_token: "mfa-token", methods: ["totp", "recovery_code"] },
+        status: 200,
+        correlationId: "test-id",
+      });
+    }
+
+    it("should wait for the second factor instead of logging in", async () => {
+      mockChallenge();
+
+      await store.getState().auth.login("admin@ayladesigns.me", "password123");
+
+      const state = store.getState().auth;
+      expect(state.isAuthenticated).toBe(false);
+      expect(state.user).toBeNull();
+      expect(state.isLoading).toBe(false);
+      expect(state.mfaChallenge).toEqual({
+        token: "mfa-token",
+        methods: ["totp", "recovery_code"],
+        authMethod: "credentials",
+      });
+    });
+
+    it("should keep the challenge of a Google login", async () => {
+      vi.mocked(authService.handleGoogleCallback).mockResolvedValueOnce({
+        data: { mfa_required: true, mfa_token: "google-mfa", methods: ["totp"] },
+        status: 200,
+        correlationId: "test-id",
+      });
+
+      await store.getState().auth.handleGoogleCallback("google-auth-code");
+
+      expect(store.getState().auth.mfaChallenge?.authMethod).toBe("google");
+      expect(store.getState().auth.isAuthenticated).toBe(false);
+    });
+
+    it("should log in with the TOTP code", async () => {
+      mockChallenge();
+      vi.mocked(authService.verifyMfa).mockResolvedValueOnce({
+        data: { user: { ...mockAuthUser, role: "admin", mfa_enabled: true }, tokens },
+        status: 200,
+        correlationId: "test-id",
+      });
+
+      await store.getState().auth.login("admin@ayladesigns.me", "password123");
+      await store.getState().auth.verifyMfa("123456");
+
+      const state = store.getState().auth;
+      expect(authService.verifyMfa).toHaveBeenCalledWith({
+        mfa_token: "mfa-token",
+        code: "123456",
+      });
+      expect(state.isAuthenticated).toBe(true);
+      expect(state.user).toMatchObject({ role: "admin", mfaEnabled: true });
+      expect(state.authMethod).toBe("credentials");
+      expect(state.mfaChallenge).toBeNull();
+    });
+
+    it("should send recovery codes separately", async () => {
+      mockChallenge();
+      vi.mocked(authService.verifyMfa).mockResolvedValueOnce({
+        data: { user: mockAuthUser, tokens },
+        status: 200,
+        correlationId: "test-id",
+      });
+
+      await store.getState().auth.login("admin@ayladesigns.me", "password123");
+      await store.getState().auth.verifyMfa("abcd-efgh", "recovery_code");
+
+      expect(authService.verifyMfa).toHaveBeenCalledWith({
+        mfa_token: "mfa-token",
+        recovery_code: "abcd-efgh",
+      });
+    });
+
+    it("should keep the challenge when the code is wrong", async () => {
+      mockChallenge();
+      vi.mocked(authService.verifyMfa).mockRejectedValueOnce(
+        new ApiError({
+          code: "MFA_CODE_INVALID",
+          message: "El código no es correcto.",
+          status_code: 400,
+          correlation_id: "test-id",
+          timestamp: new Date().toISOString(),
+          path: "/api/v1/auth/mfa/verify",
+        })
+      );
+
+      await store.getState().auth.login("admin@ayladesigns.me", "password123");
+      await expect(store.getState().auth.verifyMfa("000000")).rejects.toThrow();
+
+      const state = store.getState().auth;
+      expect(state.error).toBe("El código no es correcto.");
+      expect(state.isAuthenticated).toBe(false);
+      expect(state.mfaChallenge?.token).toBe("mfa-token");
+    });
+
+    it("should drop an expired challenge", async () => {
+      mockChallenge();
+      vi.mocked(authService.verifyMfa).mockRejectedValueOnce(
+        new ApiError({
+          code: "MFA_CHALLENGE_EXPIRED",
+          message: "Vuelve a iniciar sesión.",
+          status_code: 410,
+          correlation_id: "test-id",
+          timestamp: new Date().toISOString(),
+          path: "/api/v1/auth/mfa/verify",
+        })
+      );
+
+      await store.getState().auth.login("admin@ayladesigns.me", "password123");
+      await expect(store.getState().auth.verifyMfa("123456")).rejects.toThrow();
+
+      expect(store.getState().auth.mfaChallenge).toBeNull();
+    });
+
+    it("should reject codes without a pending login", async () => {
+      await expect(store.getState().auth.verifyMfa("123456")).rejects.toThrow();
+      expect(authService.verifyMfa).not.toHaveBeenCalled();
+    });
+
+    it("should go back to the password form on cancel", async () => {
+      mockChallenge();
+      await store.getState().auth.login("admin@ayladesigns.me", "password123");
+
+      store.getState().auth.cancelMfa();
+
+      expect(store.getState().auth.mfaChallenge).toBeNull();
+    });
+  });
+
   describe("logout", () => {
     it("should successfully logout user", async () => {
       // Arrange - primero hacer login
@@ -0,0 +1,216 @@
+/**
+ * Cart Persistence Unit Tests
+ *
+ * Tests para la persistencia del carrito de Ayla.
+ * Cubre migraciones, guardado/lectura en localStorage y reconciliación.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { AylaCartItem, AylaProduct } from "@types";
+import {
+  CART_STORAGE_KEY,
+  CART_STORAGE_VERSION,
+  loadCart,
+  migrateCart,
+  reconcileCart,
+  saveCart,
+  toPersistedLines,
+  type PersistedCartLine,
+} from "@/app/[locale]/ayla/store/cartPersistence";
+
+// Mock del logger
+vi.mock("@lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// =============================================================================
+// FIXTURES
+// =============================================================================
+
+const planner: AylaProduct = {
+  id: 1,
+  name: "Celestial Planner 2025",
+  slug: "celestial-planner-2025",
+  description: "Planificador digital",
+  price: 24.99,
+  category: "Planners",
+  imageType: "planner",
+  features: [],
+};
+
+const cards: AylaProduct = {
+  id: 2,
+  name: "Bohemian Business Cards",
+  slug: "bohemian-business-cards",
+  description: "Pack de tarjetas",
+  price: 12.99,
+  category: "Tarjetas",
+  imageType: "cards",
+  features: [],
+};
+
+const socialKit: AylaProduct = {
+  id: 3,
+  name: "Crystal Social Media Kit",
+  slug: "crystal-social-media-kit",
+  description: "Kit para Instagram",
+  price: 29.99,
+  category: "Social Media",
+  imageType: "social",
+  features: ["30 plantillas"],
+  variants: [
+    { id: 301, name: "Basic", price: 29.99, features: ["30 plantillas"], files: [], downloadLimit: 5 },
+    { id: 302, name: "Premium", price: 44.99, features: ["60 plantillas"], files: [], downloadLimit: 10 },
+  ],
+};
+
+const line = (product: AylaProduct, quantity = 1): PersistedCartLine => ({
+  ...product,
+  quantity,
+});
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("cartPersistence", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("migrateCart", () => {
+    it("should keep valid lines and drop malformed ones", () => {
+      const state = {
+        items: [line(planner), { id: "x" }, { ...line(cards), quantity: 0 }],
+      };
+
+      const result = migrateCart(state, CART_STORAGE_VERSION);
+
+      expect(result?.items).toEqual([line(planner)]);
+    });
+
+    it("should discard state written by a newer version", () => {
+      const result = migrateCart(
+        { items: [line(planner)] },
+        CART_STORAGE_VERSION + 1
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it("should return null for an invalid shape", () => {
+      expect(migrateCart(undefined, 0)).toBeNull();
+      expect(migrateCart({ items: "nope" }, 1)).toBeNull();
+    });
+  });
+
+  describe("saveCart / loadCart", () => {
+    it("should round-trip lines through localStorage", () => {
+      // Arrange
+      const lines = [line(planner, 2), line(cards)];
+
+      // Act
+      saveCart(lines);
+
+      // Assert
+      const stored = JSON.parse(localStorage.getItem(CART_STORAGE_KEY)!);
+      expect(stored.version).toBe(CART_STORAGE_VERSION);
+      expect(loadCart()).toEqual(lines);
+    });
+
+    it("should return an empty cart for corrupted storage", () => {
+      localStorage.setItem(CART_STORAGE_KEY, "{not json");
+
+      expect(loadCart()).toEqual([]);
+    });
+  });
+
+  describe("toPersistedLines", () => {
+    it("should strip reconciliation flags", () => {
+      const items: AylaCartItem[] = [
+        { ...planner, quantity: 1, issue: "discontinued" },
+      ];
+
+      const [persisted] = toPersistedLines(items);
+
+      expect(persisted).not.toHaveProperty("issue");
+      expect(persisted.price).toBe(planner.price);
+    });
+
+    it("should keep the original price while a re-price is unacknowledged", () => {
+      const items: AylaCartItem[] = [
+        {
+          ...planner,
+          price: 29.99,
+          quantity: 1,
+          issue: "price_changed",
+          previousPrice: 24.99,
+        },
+      ];
+
+      const [persisted] = toPersistedLines(items);
+
+      expect(persisted.price).toBe(24.99);
+      expect(persisted).not.toHaveProperty("previousPrice");
+    });
+  });
+
+  describe("reconcileCart", () => {
+    it("should refresh lines for products still in the catalog", () => {
+      const stale = { ...line(planner, 3), name: "Old name" };
+
+      const [item] = reconcileCart([stale], [planner]);
+
+      expect(item).toEqual({ ...planner, quantity: 3 });
+    });
+
+    it("should flag products removed from the catalog", () => {
+      const [item] = reconcileCart([line(cards)], [planner]);
+
+      expect(item.issue).toBe("discontinued");
+      expect(item.name).toBe(cards.name);
+    });
+
+    it("should flag re-priced products and keep the previous price", () => {
+      const repriced = { ...planner, price: 19.99 };
+
+      const [item] = reconcileCart([line(planner, 2)], [repriced]);
+
+      expect(item).toMatchObject({
+        price: 19.99,
+        quantity: 2,
+        issue: "price_changed",
+        previousPrice: 24.99,
+      });
+    });
+
+    it("should refresh lines with the data of their variant", () => {
+      const premium = { ...line(socialKit), price: 44.99, variantId: 302, variantName: "Premium" };
+
+      const [item] = reconcileCart([premium], [socialKit]);
+
+      expect(item).toMatchObject({ price: 44.99, features: ["60 plantillas"], variantId: 302 });
+      expect(item.issue).toBeUndefined();
+    });
+
+    it("should move lines saved without variant to the default variant", () => {
+      const [item] = reconcileCart([line(socialKit)], [socialKit]);
+
+      expect(item).toMatchObject({ variantId: 301, variantName: "Basic", price: 29.99 });
+      expect(item.issue).toBeUndefined();
+    });
+
+    it("should flag variants removed from the catalog", () => {
+      const retired = { ...line(socialKit), variantId: 303, variantName: "Deluxe" };
+
+      const [item] = reconcileCart([retired], [socialKit]);
+
+      expect(item.issue).toBe("discontinued");
+    });
+  });
+});
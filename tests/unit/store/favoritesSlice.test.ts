@@ -0,0 +1,76 @@
+/**
+ * Favorites Slice Unit Tests
+ *
+ * Tests para el slice de favoritos en Zustand: alta, baja, alternar y
+ * reemplazo con la lista de la cuenta.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createStore } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { MAX_FAVORITES } from "@lib/favorites";
+import type { StoreState } from "@store/types";
+import { createFavoritesSlice } from "@store/slices/favoritesSlice";
+
+describe("FavoritesSlice", () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  // Helper para crear store de test
+  function createTestStore() {
+    return createStore<StoreState>()(
+      immer((set, get, api) => ({
+        auth: {} as StoreState["auth"],
+        ui: {} as StoreState["ui"],
+        search: {} as StoreState["search"],
+        // El slice se declara con devtools, que el store de test no usa
+        favorites: createFavoritesSlice(set, get, api as Parameters<typeof createFavoritesSlice>[2]),
+        recentlyViewed: {} as StoreState["recentlyViewed"],
+        consent: {} as StoreState["consent"],
+      }))
+    );
+  }
+
+  const favorites = () => store.getState().favorites;
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it("should start without favorites", () => {
+    expect(favorites().productIds).toEqual([]);
+  });
+
+  it("should add each product once, in order", () => {
+    favorites().addFavorite(3);
+    favorites().addFavorite(1);
+    favorites().addFavorite(3);
+
+    expect(favorites().productIds).toEqual([3, 1]);
+  });
+
+  it("should toggle a product and report whether it is saved", () => {
+    expect(favorites().toggleFavorite(2)).toBe(true);
+    expect(favorites().productIds).toEqual([2]);
+
+    expect(favorites().toggleFavorite(2)).toBe(false);
+    expect(favorites().productIds).toEqual([]);
+  });
+
+  it("should not add products past the maximum", () => {
+    favorites().setFavorites(Array.from({ length: MAX_FAVORITES }, (_, index) => index + 100));
+
+    expect(favorites().toggleFavorite(1)).toBe(false);
+    expect(favorites().productIds).toHaveLength(MAX_FAVORITES);
+  });
+
+  it("should replace, remove and clear favorites", () => {
+    favorites().setFavorites([4, 2, 4, 5]);
+    expect(favorites().productIds).toEqual([4, 2, 5]);
+
+    favorites().removeFavorite(2);
+    expect(favorites().productIds).toEqual([4, 5]);
+
+    favorites().clearFavorites();
+    expect(favorites().productIds).toEqual([]);
+  });
+});
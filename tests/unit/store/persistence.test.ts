@@ -0,0 +1,56 @@
+/**
+ * Store Persistence Unit Tests
+ *
+ * Tests para la migración del estado guardado en localStorage por
+ * versiones anteriores del store.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { useStore } from "@store";
+
+const STORAGE_KEY = "ayla-store";
+
+function persistedUser(role: string) {
+  return {
+    id: "1",
+    email: "ana@example.com",
+    name: "Ana",
+    role,
+    createdAt: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+async function rehydrate(state: unknown, version: number) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ state, version }));
+  await useStore.persist.rehydrate();
+  return useStore.getState().auth.user;
+}
+
+describe("store persistence", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it.each([
+    ["musician", "customer"],
+    ["band_manager", "customer"],
+    ["venue_owner", "customer"],
+    ["admin", "admin"],
+  ])("should migrate the stored role %s to %s", async (role, expected) => {
+    const user = await rehydrate({ auth: { user: persistedUser(role) } }, 2);
+
+    expect(user?.role).toBe(expected);
+  });
+
+  it("should drop the tokens stored by the first version", async () => {
+    await rehydrate(
+      { auth: { user: persistedUser("musician"), token: "abc", refreshToken: "def" } },
+      1
+    );
+
+    expect(useStore.getState().auth.user?.role).toBe("customer");
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}").state.auth).not.toHaveProperty(
+      "token"
+    );
+  });
+});
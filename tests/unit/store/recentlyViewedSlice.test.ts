@@ -0,0 +1,65 @@
+/**
+ * Recently Viewed Slice Unit Tests
+ *
+ * Tests para el slice de productos vistos recientemente en Zustand.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createStore } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { MAX_RECENTLY_VIEWED } from "@lib/recommendations";
+import type { StoreState } from "@store/types";
+import { createRecentlyViewedSlice } from "@store/slices/recentlyViewedSlice";
+
+describe("RecentlyViewedSlice", () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  // Helper para crear store de test
+  function createTestStore() {
+    return createStore<StoreState>()(
+      immer((set, get, api) => ({
+        auth: {} as StoreState["auth"],
+        ui: {} as StoreState["ui"],
+        search: {} as StoreState["search"],
+        favorites: {} as StoreState["favorites"],
+        // El slice se declara con devtools, que el store de test no usa
+        recentlyViewed: createRecentlyViewedSlice(
+          set,
+          get,
+          api as Parameters<typeof createRecentlyViewedSlice>[2]
+        ),
+        consent: {} as StoreState["consent"],
+      }))
+    );
+  }
+
+  const recentlyViewed = () => store.getState().recentlyViewed;
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it("should record views, most recent first", () => {
+    recentlyViewed().recordView(1);
+    recentlyViewed().recordView(2);
+    recentlyViewed().recordView(1);
+
+    expect(recentlyViewed().productIds).toEqual([1, 2]);
+  });
+
+  it("should forget the oldest views past the maximum", () => {
+    for (let id = 1; id <= MAX_RECENTLY_VIEWED + 2; id++) {
+      recentlyViewed().recordView(id);
+    }
+
+    expect(recentlyViewed().productIds).toHaveLength(MAX_RECENTLY_VIEWED);
+    expect(recentlyViewed().productIds[0]).toBe(MAX_RECENTLY_VIEWED + 2);
+  });
+
+  it("should clear the history", () => {
+    recentlyViewed().recordView(3);
+    recentlyViewed().clearRecentlyViewed();
+
+    expect(recentlyViewed().productIds).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Search Slice Unit Tests
+ *
+ * Tests para el slice de búsqueda en Zustand: el texto del buscador del
+ * Navbar (la búsqueda aplicada vive en la URL del catálogo).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createStore } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import type { StoreState } from "@store/types";
+import { createSearchSlice } from "@store/slices/searchSlice";
+
+describe("SearchSlice", () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  // Helper para crear store de test
+  function createTestStore() {
+    return createStore<StoreState>()(
+      immer((set, get, api) => ({
+        auth: {} as StoreState["auth"],
+        ui: {} as StoreState["ui"],
+        // El slice se declara con devtools, que el store de test no usa
+        search: createSearchSlice(set, get, api as Parameters<typeof createSearchSlice>[2]),
+        favorites: {} as StoreState["favorites"],
+        recentlyViewed: {} as StoreState["recentlyViewed"],
+        consent: {} as StoreState["consent"],
+      }))
+    );
+  }
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it("should start with an empty query", () => {
+    expect(store.getState().search.query).toBe("");
+  });
+
+  it("should keep the text typed in the search input", () => {
+    store.getState().search.setQuery("boda");
+    expect(store.getState().search.query).toBe("boda");
+
+    store.getState().search.setQuery("");
+    expect(store.getState().search.query).toBe("");
+  });
+});
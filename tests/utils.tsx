@@ -130,7 +130,7 @@ export function createMockUser(overrides = {}) {
     id: "user-1",
     email: "test@ayladesigns.me",
     name: "Test User",
-    role: "musician",
+    role: "customer",
     avatar: "/avatars/default.png",
     ...overrides,
   };
@@ -5,10 +5,86 @@
  * Used across products, cart, reviews, and avatar components.
  */
 
+// =============================================================================
+// MONEY TYPES
+// =============================================================================
+
+/**
+ * Currencies prices can be displayed in (ISO 4217)
+ */
+export type CurrencyCode = "EUR" | "USD" | "GBP";
+
+/**
+ * Monetary amount without float rounding
+ */
+export interface Money {
+  /** Integer amount in minor units (cents) */
+  amount: number;
+  currency: CurrencyCode;
+}
+
+// =============================================================================
+// TAX TYPES
+// =============================================================================
+
+/**
+ * How VAT applies to a sale of digital goods
+ * - standard: VAT of the buyer's EU country, included in the price
+ * - reverse_charge: EU business with a VAT ID outside the store country;
+ *   the buyer accounts for the VAT, so it is removed from the price
+ * - outside_eu: no EU VAT is charged
+ */
+export type AylaTaxTreatment = "standard" | "reverse_charge" | "outside_eu";
+
+/**
+ * Buyer data that determines the VAT of the cart
+ */
+export interface AylaTaxProfile {
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** Business VAT ID (null for consumers) */
+  vatId: string | null;
+}
+
+/**
+ * Whether prices are displayed with or without VAT
+ */
+export type AylaTaxDisplay = "inclusive" | "exclusive";
+
 // =============================================================================
 // PRODUCT TYPES
 // =============================================================================
 
+/**
+ * Purchasable version of a product (e.g. Basic / Premium)
+ */
+export interface AylaVariant {
+  /** Unique variant identifier (unique across the catalog) */
+  id: number;
+  /** Variant display name (Basic, Premium...) */
+  name: string;
+  /** Price in EUR */
+  price: number;
+  /** Features included in this variant */
+  features: string[];
+  /** Files delivered with the download */
+  files: string[];
+  /** Downloads allowed per purchase */
+  downloadLimit: number;
+}
+
+/**
+ * Product image, in gallery order (the first one is the cover)
+ */
+export interface AylaProductImage {
+  /** Image URL: public path (/images/products/...) or backend URL */
+  src: string;
+  /** Alt text (defaults to the product name and image number) */
+  alt?: string;
+  /** Tiny data URL shown while the image loads (category gradient when missing) */
+  blurDataURL?: string;
+}
+
 /**
  * Product item in the Ayla catalog
  */
@@ -17,24 +93,278 @@ export interface AylaProduct {
   id: number;
   /** Product display name */
   name: string;
+  /** URL identifier (/products/[slug]), unique in the catalog */
+  slug: string;
   /** Product description */
   description: string;
-  /** Price in USD */
+  /** Price in EUR (the cheapest variant when the product has variants) */
   price: number;
   /** Product category (Planners, Tarjetas, Social Media, etc.) */
   category: string;
   /** Image type key for ProductImage component */
   imageType: string;
-  /** List of product features/benefits */
+  /** List of product features/benefits (those of the cheapest variant) */
   features: string[];
+  /**
+   * Purchasable versions, cheapest first.
+   * Products without variants are sold as a single version at `price`.
+   */
+  variants?: AylaVariant[];
+  /**
+   * Cover and preview pages, in display order.
+   * Without images the product is shown with the `imageType` artwork.
+   */
+  images?: AylaProductImage[];
+}
+
+// =============================================================================
+// BUNDLE TYPES
+// =============================================================================
+
+/**
+ * How a bundle discount is computed
+ * - percentage: `discount_value` percent off the contained products
+ * - fixed: `discount_value` EUR off each complete bundle
+ */
+export type AylaDiscountType = "percentage" | "fixed";
+
+/**
+ * Product contained in a bundle (aligned with backend BundleItem)
+ */
+export interface AylaBundleItem {
+  /** Contained product */
+  product_id: number;
+  /** Required variant (null accepts any variant of the product) */
+  variant_id: number | null;
+  /** Units of the product per bundle */
+  quantity: number;
+}
+
+/**
+ * Bundle of products sold together at a discounted price
+ */
+export interface AylaBundle {
+  /** Unique bundle identifier */
+  id: number;
+  /** Bundle display name */
+  name: string;
+  /** Bundle description */
+  description: string;
+  /** Image type key for ProductImage component */
+  imageType: string;
+  /** Contained products */
+  items: AylaBundleItem[];
+  discount_type: AylaDiscountType;
+  /** Percentage (0-100) or EUR amount, depending on `discount_type` */
+  discount_value: number;
+}
+
+/**
+ * Bundle completed by the cart contents; its price is applied automatically
+ */
+export interface AylaCartBundle {
+  bundle: AylaBundle;
+  /** Complete bundles in the cart */
+  count: number;
+  /** Cart lines consumed by the bundles, with the consumed quantity */
+  items: AylaCartItem[];
+  /** Price of the contained products without discount (EUR) */
+  subtotal: number;
+  /** Discount applied (EUR) */
+  discount: number;
 }
 
+/**
+ * Bundle partially present in the cart, offered to the customer
+ */
+export interface AylaBundleOffer {
+  bundle: AylaBundle;
+  /** Products still needed to complete one bundle */
+  missing: { product: AylaProduct; variantId: number | null; quantity: number }[];
+}
+
+// =============================================================================
+// PROMOTION TYPES
+// =============================================================================
+
+/**
+ * Promotion code redeemable in the cart
+ */
+export interface AylaPromotion {
+  /** Code typed by the customer (stored uppercase) */
+  code: string;
+  /** Description shown once the code is applied */
+  description: string;
+  discount_type: AylaDiscountType;
+  /** Percentage (0-100) or EUR amount, depending on `discount_type` */
+  discount_value: number;
+  /** Minimum cart subtotal in EUR (null for no minimum) */
+  min_purchase: number | null;
+  /** Products the discount applies to (empty for any product) */
+  product_ids: number[];
+  /** Categories the discount applies to (empty for any category) */
+  categories: string[];
+  /** Validity window as ISO timestamps (null for an open end) */
+  starts_at: string | null;
+  ends_at: string | null;
+  /** Maximum redemptions across all customers (null for unlimited) */
+  usage_limit: number | null;
+}
+
+/**
+ * Why a promotion code cannot be applied
+ */
+export type AylaPromotionRejection =
+  | "not_found"
+  | "not_started"
+  | "expired"
+  | "usage_limit_reached"
+  | "min_purchase_not_met"
+  | "no_eligible_products"
+  | "already_applied";
+
+/**
+ * Promotion applied to the cart
+ */
+export interface AylaAppliedPromotion {
+  promotion: AylaPromotion;
+  /** Discount on the current cart (EUR), 0 while the promotion does not apply */
+  discount: number;
+  /** Why the promotion stopped applying after the cart changed */
+  rejection?: AylaPromotionRejection;
+}
+
+/**
+ * Cart amounts in the store currency
+ */
+export interface AylaCartBreakdown {
+  /** Purchasable items before discounts, at catalog prices */
+  subtotal: Money;
+  /** Bundle and promotion discounts */
+  discount: Money;
+  /** Amounts without VAT, for the tax-exclusive display */
+  excludingTax: {
+    subtotal: Money;
+    discount: Money;
+    /** Taxable base */
+    total: Money;
+  };
+  /** VAT included in the total */
+  tax: Money;
+  /** Amount to pay */
+  total: Money;
+  /** VAT rate charged (0 for reverse charge and outside the EU) */
+  taxRate: number;
+  taxTreatment: AylaTaxTreatment;
+}
+
+/**
+ * Problems detected when a persisted cart is reconciled against the catalog
+ * - discontinued: the product no longer exists in the catalog
+ * - price_changed: the catalog price differs from the price when it was added
+ */
+export type AylaCartItemIssue = "discontinued" | "price_changed";
+
 /**
  * Cart item extends product with quantity
+ *
+ * A cart line is identified by product + variant (see `getCartLineKey`);
+ * `price` and `features` hold the values of the selected variant.
  */
 export interface AylaCartItem extends AylaProduct {
+  /** Selected variant (null/undefined for products without variants) */
+  variantId?: number | null;
+  /** Selected variant name, shown next to the product name */
+  variantName?: string;
   /** Quantity in cart */
   quantity: number;
+  /** Issue flagged during rehydration (undefined when the line is valid) */
+  issue?: AylaCartItemIssue;
+  /** Price stored with the line before the catalog re-priced it */
+  previousPrice?: number;
+}
+
+// =============================================================================
+// ORDER TYPES
+// =============================================================================
+
+/**
+ * Order status lifecycle (aligned with backend)
+ *
+ * pending → paid → fulfilled
+ *    ↓        ↓
+ *  failed   refunded
+ *    ↓
+ * cancelled
+ *
+ * - pending: payment session opened, waiting for the provider
+ * - paid: payment captured, download tokens issued
+ * - fulfilled: every item has been downloaded at least once
+ * - failed: the payment was declined (the customer may retry it)
+ * - cancelled: abandoned or cancelled before payment
+ * - refunded: payment returned, downloads revoked
+ */
+export type AylaOrderStatus =
+  | "pending"
+  | "paid"
+  | "fulfilled"
+  | "failed"
+  | "cancelled"
+  | "refunded";
+
+/**
+ * Purchased line of an order
+ *
+ * Amounts are in minor units (cents) of the order currency.
+ */
+export interface AylaOrderItem {
+  /** Line number within the order (1-based) */
+  id: number;
+  /** Purchased product */
+  product_id: number;
+  /** Product name snapshot at purchase time */
+  product_name: string;
+  /** Purchased variant (null for single-variant products) */
+  variant_id: number | null;
+  /** Units purchased */
+  quantity: number;
+  /** Unit price charged, immune to later catalog changes */
+  price_at_purchase: number;
+  /** Token that authorizes the downloads of this item (null until paid) */
+  download_token: string | null;
+  /** Downloads left before the token is exhausted */
+  downloads_remaining: number;
+}
+
+/**
+ * Customer order
+ *
+ * Amounts are in minor units (cents) of `currency`.
+ */
+export interface AylaOrder {
+  /** Public reference shown to the customer (AYL-...), also its identifier */
+  reference: string;
+  status: AylaOrderStatus;
+  items: AylaOrderItem[];
+  /** Sum of the items */
+  subtotal: number;
+  /** Discounts applied to the subtotal */
+  discount: number;
+  /** Taxes included in the total */
+  tax: number;
+  /** Amount charged */
+  total: number;
+  /** ISO 4217 currency code the order was charged in */
+  currency: CurrencyCode;
+  /** Payment provider that processed the order (stripe, paypal...) */
+  payment_provider: string | null;
+  /** Payment identifier in the provider */
+  payment_id: string | null;
+  /** Downloadable invoice (null until the order is paid) */
+  invoice_url: string | null;
+  /** ISO timestamps */
+  created_at: string;
+  paid_at: string | null;
 }
 
 // =============================================================================
@@ -47,7 +377,7 @@ export interface AylaCartItem extends AylaProduct {
 export type AylaAvatarColor = "gold" | "lavender" | "rose";
 
 /**
- * Customer review/testimonial
+ * Customer testimonial shown on the landing page
  */
 export interface AylaReview {
   /** Reviewer's name */
@@ -62,6 +392,63 @@ export interface AylaReview {
   color: AylaAvatarColor;
 }
 
+/**
+ * Star rating of a product review
+ */
+export type AylaRatingValue = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Moderation state of a product review
+ * - pending: submitted, waiting in the moderation queue (not public)
+ * - approved: published on the product
+ * - rejected: hidden by a moderator
+ */
+export type AylaReviewStatus = "pending" | "approved" | "rejected";
+
+/**
+ * Order in which product reviews are listed
+ */
+export type AylaReviewSort = "newest" | "oldest" | "highest" | "lowest";
+
+/**
+ * Review of a catalog product written by a customer
+ */
+export interface AylaProductReview {
+  /** Unique review identifier */
+  id: string;
+  /** Reviewed product */
+  productId: number;
+  /** Name shown with the review */
+  authorName: string;
+  rating: AylaRatingValue;
+  /** Short headline */
+  title: string;
+  /** Review text */
+  text: string;
+  /** Whether the author bought the product (paid order) */
+  verifiedPurchase: boolean;
+  status: AylaReviewStatus;
+  /** ISO timestamp of the submission */
+  createdAt: string;
+}
+
+/**
+ * Aggregate rating of a product, computed from its approved reviews
+ */
+export interface AylaRatingSummary {
+  /** Mean rating rounded to one decimal (0 without reviews) */
+  average: number;
+  /** Number of approved reviews */
+  count: number;
+  /** Approved reviews per star rating */
+  distribution: Record<AylaRatingValue, number>;
+}
+
+/**
+ * Aggregate ratings by product ID (products without reviews are omitted)
+ */
+export type AylaProductRatings = Record<number, AylaRatingSummary>;
+
 // =============================================================================
 // PRODUCT IMAGE TYPES
 // =============================================================================
@@ -124,8 +511,18 @@ export interface AylaStoreState {
   selectedProduct: AylaProduct | null;
   /** Toast notification state */
   toast: AylaToast;
-  /** Computed: Total cart value */
-  cartTotal?: number;
+  /** Whether the persisted cart has been restored from storage */
+  isCartHydrated: boolean;
+  /** Bundles completed by the cart items (recomputed on every cart change) */
+  cartBundles: AylaCartBundle[];
+  /** Bundles the cart is close to completing */
+  bundleOffers: AylaBundleOffer[];
+  /** Promotion codes applied to the cart */
+  promotions: AylaAppliedPromotion[];
+  /** Buyer country and VAT ID used to compute the VAT */
+  taxProfile: AylaTaxProfile;
+  /** Computed: Subtotal, discounts, tax and total of the cart */
+  cartBreakdown?: AylaCartBreakdown;
   /** Computed: Total item count */
   cartItemCount?: number;
 }
@@ -134,14 +531,30 @@ export interface AylaStoreState {
  * Ayla page store actions
  */
 export interface AylaStoreActions {
-  /** Add product to cart */
-  addToCart: (product: AylaProduct) => void;
-  /** Remove product from cart */
-  removeFromCart: (id: number) => void;
-  /** Update item quantity */
-  updateQuantity: (id: number, quantity: number) => void;
+  /** Add product to cart (defaults to the cheapest variant) */
+  addToCart: (product: AylaProduct, variantId?: number | null) => void;
+  /** Remove a cart line by its key (see `getCartLineKey`) */
+  removeFromCart: (key: string) => void;
+  /** Update the quantity of a cart line by its key */
+  updateQuantity: (key: string, quantity: number) => void;
+  /** Add the products missing to complete a bundle */
+  addBundleToCart: (bundle: AylaBundle) => void;
+  /** Remove one complete bundle (its contained products) from the cart */
+  removeBundleFromCart: (bundleId: number) => void;
+  /**
+   * Validate a promotion code and apply it to the cart
+   *
+   * @returns Whether the code was applied (rejections are shown as a toast)
+   */
+  applyPromotion: (code: string) => Promise<boolean>;
+  /** Remove an applied promotion code */
+  removePromotion: (code: string) => void;
+  /** Update the buyer country and VAT ID (recomputes the VAT) */
+  setTaxProfile: (profile: AylaTaxProfile) => void;
   /** Clear all items from cart */
   clearCart: () => void;
+  /** Accept the current catalog price for lines flagged as re-priced */
+  acknowledgeCartIssues: () => void;
   /** Open cart drawer */
   openCart: () => void;
   /** Close cart drawer */